@@ -9,9 +9,10 @@
  * The proxy is solely responsible for authentication; this code only reads the
  * resulting identity headers.
  *
- * Note: pic-map currently has no production HTTP server. This module
- * establishes the auth contract so any future preview server, web editor, or
- * upload endpoint inherits the correct behaviour.
+ * Note: the preview server (src/server/preview-server.ts) mounts loadUser and
+ * requireProxyAuth on every route, and the web editor (src/server/editor.ts)
+ * adds requireAuth. Any future upload endpoint must do the same so it
+ * inherits the correct behaviour.
  *
  * Header resolution order per request:
  *  1. Remote-User (preferred Authelia header)
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli, EXIT_CODES, CliStreams } from './cli';
+
+const SAMPLE_CONFIG = join(__dirname, '../examples/sample-config.json');
+
+/**
+ * Runs the CLI and captures its output
+ */
+async function run(...args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = '';
+  let stderr = '';
+  const streams: CliStreams = {
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+  };
+  const code = await runCli(args, streams);
+  return { code, stdout, stderr };
+}
+
+describe('picmap CLI', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-cli-'));
+    writeFileSync(join(tempDir, 'broken.json'), '{ "title": ');
+    writeFileSync(join(tempDir, 'invalid.json'), JSON.stringify({ title: 'No layout' }));
+
+    const sample = JSON.parse(readFileSync(SAMPLE_CONFIG, 'utf-8')) as {
+      links: Array<{ imageId: string }>;
+    };
+    sample.links[0].imageId = '99';
+    writeFileSync(join(tempDir, 'bad-reference.json'), JSON.stringify(sample));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('usage', () => {
+    it('should print help', async () => {
+      const result = await run('--help');
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(result.stdout).toContain('Usage: picmap <command>');
+    });
+
+    it('should print the version', async () => {
+      const result = await run('--version');
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(result.stdout.trim()).toMatch(/^\d+\.\d+\.\d+/);
+    });
+
+    it('should fail without a command', async () => {
+      const result = await run();
+
+      expect(result.code).toBe(EXIT_CODES.USAGE);
+      expect(result.stdout).toContain('Usage:');
+    });
+
+    it('should reject unknown commands and options', async () => {
+      const unknownCommand = await run('draw', SAMPLE_CONFIG);
+      const unknownOption = await run('render', SAMPLE_CONFIG, '--colour');
+
+      expect(unknownCommand.code).toBe(EXIT_CODES.USAGE);
+      expect(unknownCommand.stderr).toContain('Unknown command: draw');
+      expect(unknownOption.code).toBe(EXIT_CODES.USAGE);
+    });
+
+    it('should require a config file', async () => {
+      const result = await run('render');
+
+      expect(result.code).toBe(EXIT_CODES.USAGE);
+      expect(result.stderr).toContain('Missing config file');
+    });
+
+    it('should reject non-numeric DPI', async () => {
+      const result = await run('render', SAMPLE_CONFIG, '--dpi', 'high');
+
+      expect(result.code).toBe(EXIT_CODES.USAGE);
+      expect(result.stderr).toContain('--dpi must be a number');
+    });
+
+    it('should reject a non-numeric server port', async () => {
+      const result = await run('serve', SAMPLE_CONFIG, '--port', 'http');
+
+      expect(result.code).toBe(EXIT_CODES.USAGE);
+      expect(result.stderr).toContain('--port must be a number');
+    });
+
+    it('should reject unsupported export formats', async () => {
+      const result = await run('export', SAMPLE_CONFIG, '--format', 'tiff');
+
+      expect(result.code).toBe(EXIT_CODES.USAGE);
+      expect(result.stderr).toContain('Unsupported format: tiff');
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept a valid config', async () => {
+      const result = await run('validate', SAMPLE_CONFIG);
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(result.stdout).toContain('is valid');
+    });
+
+    it('should list validation errors', async () => {
+      const result = await run('validate', join(tempDir, 'invalid.json'));
+
+      expect(result.code).toBe(EXIT_CODES.CONFIG_INVALID);
+      expect(result.stderr).toContain('Configuration validation failed');
+      expect(result.stderr).toMatch(/\n {2}- /);
+    });
+
+    it('should report broken image references', async () => {
+      const result = await run('validate', join(tempDir, 'bad-reference.json'));
+
+      expect(result.code).toBe(EXIT_CODES.CONFIG_INVALID);
+      expect(result.stderr).toContain('non-existent image ID: 99');
+    });
+
+    it('should report unreadable and malformed files', async () => {
+      const missing = await run('validate', join(tempDir, 'missing.json'));
+      const broken = await run('validate', join(tempDir, 'broken.json'));
+
+      expect(missing.code).toBe(EXIT_CODES.CONFIG_LOAD);
+      expect(missing.stderr).toContain('Failed to read config file');
+      expect(broken.code).toBe(EXIT_CODES.CONFIG_LOAD);
+      expect(broken.stderr).toContain('Failed to parse JSON');
+    });
+  });
+
+  describe('render', () => {
+    it('should write the composed SVG to stdout', async () => {
+      const result = await run('render', SAMPLE_CONFIG);
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(result.stdout).toContain('<svg');
+      expect(result.stdout).toContain('London Tourism Map');
+    });
+
+    it('should write the SVG to a file', async () => {
+      const output = join(tempDir, 'map.svg');
+      const result = await run('render', SAMPLE_CONFIG, '-o', output);
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(readFileSync(output, 'utf-8')).toContain('width="297mm" height="210mm"');
+      expect(result.stdout).toContain('Rendered');
+    });
+  });
+
+  describe('export', () => {
+    it('should export to PDF by default', async () => {
+      const output = join(tempDir, 'map.pdf');
+      const result = await run('export', SAMPLE_CONFIG, '-o', output, '--dpi', '150');
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(readFileSync(output).subarray(0, 4).toString('ascii')).toBe('%PDF');
+      expect(result.stdout).toContain('297x210mm');
+    });
+
+    it('should export to the requested format and page size', async () => {
+      const output = join(tempDir, 'map.svg');
+      const result = await run(
+        'export',
+        SAMPLE_CONFIG,
+        '--format',
+        'svg',
+        '--page-size',
+        'A3',
+        '--orientation',
+        'portrait',
+        '-o',
+        output
+      );
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(readFileSync(output, 'utf-8')).toContain('width="297mm" height="420mm"');
+    });
+
+    it('should print warnings and still export', async () => {
+      const output = join(tempDir, 'warnings.svg');
+      const result = await run(
+        'export',
+        join(tempDir, 'bad-reference.json'),
+        '-f',
+        'svg',
+        '-o',
+        output
+      );
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(result.stderr).toContain('warning: Link 0 references non-existent image ID: 99');
+      expect(existsSync(output)).toBe(true);
+    });
+
+    it('should report export errors', async () => {
+      const result = await run('export', SAMPLE_CONFIG, '--page-size', 'B5', '-o', 'x.pdf');
+
+      expect(result.code).toBe(EXIT_CODES.FAILURE);
+      expect(result.stderr).toContain('Invalid page size preset: B5');
+      expect(existsSync('x.pdf')).toBe(false);
+    });
+  });
+
+  describe('preview', () => {
+    it('should write a PNG preview', async () => {
+      const output = join(tempDir, 'preview.png');
+      const result = await run('preview', SAMPLE_CONFIG, '-o', output, '--dpi', '72');
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(readFileSync(output).subarray(1, 4).toString('ascii')).toBe('PNG');
+      expect(result.stdout).toContain('842x595px');
+    });
+  });
+
+  describe('import', () => {
+    it('should write a configuration for a photo folder', async () => {
+      const photoDir = join(tempDir, 'photos');
+      mkdirSync(photoDir);
+      // A JPEG with a start-of-frame segment and no EXIF data
+      writeFileSync(
+        join(photoDir, 'beach.jpg'),
+        Buffer.from([0xff, 0xd8, 0xff, 0xc0, 0, 11, 8, 0, 30, 0, 40, 1, 1, 0x11, 0])
+      );
+      const output = join(tempDir, 'imported.json');
+
+      const result = await run('import', photoDir, '-o', output);
+      const config = JSON.parse(readFileSync(output, 'utf-8')) as {
+        title: string;
+        images: unknown[];
+      };
+
+      expect(result.code).toBe(EXIT_CODES.SUCCESS);
+      expect(result.stdout).toContain('Imported 1 photos with 0 locations');
+      expect(result.stderr).toContain('beach.jpg has no GPS position');
+      expect(config.title).toBe('photos');
+      expect(config.images).toEqual([
+        { filePath: join('photos', 'beach.jpg'), dimensions: { width: 40, height: 30 } },
+      ]);
+      expect((await run('validate', output)).code).toBe(EXIT_CODES.SUCCESS);
+    });
+
+    it('should fail for a missing folder', async () => {
+      const result = await run('import', join(tempDir, 'no-photos'));
+
+      expect(result.code).toBe(EXIT_CODES.CONFIG_LOAD);
+      expect(result.stderr).toContain('Failed to read photo folder');
+    });
+  });
+});
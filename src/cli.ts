@@ -0,0 +1,416 @@
+#!/usr/bin/env node
+/**
+ * Pic-Map command-line interface
+ *
+ * Renders a PicMapConfig file end to end: the map, the picture border and the
+ * links are composed and then written as SVG or exported to a print or image
+ * format.
+ *
+ * Usage: picmap <command> <config-file> [options]
+ *        picmap import <photo-folder> [options]
+ */
+
+import { readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { basename, dirname, extname, resolve } from 'path';
+import { parseArgs } from 'util';
+import {
+  ConfigLoadError,
+  ConfigValidationError,
+  importConfigFromPhotos,
+  loadConfigFromFile,
+  validateConfigReferences,
+} from './loaders';
+import { PicMapConfig } from './types';
+import { renderPicMap, RenderPicMapOptions, RenderPicMapResult } from './pipeline';
+import { PreviewServer, PreviewServerError } from './server/preview-server';
+import {
+  ExportEngine,
+  ExportError,
+  ExportFormat,
+  PageOrientation,
+  PageSizePreset,
+} from './export-engine';
+
+/**
+ * Process exit codes used by the CLI
+ */
+export const EXIT_CODES = {
+  /** The command completed successfully */
+  SUCCESS: 0,
+  /** Rendering or exporting failed */
+  FAILURE: 1,
+  /** The command line is invalid */
+  USAGE: 2,
+  /** The configuration file could not be read or is not valid JSON */
+  CONFIG_LOAD: 3,
+  /** The configuration does not pass validation */
+  CONFIG_INVALID: 4,
+} as const;
+
+/**
+ * Output streams used by the CLI (process.stdout/process.stderr by default)
+ */
+export interface CliStreams {
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+}
+
+/**
+ * Error thrown for invalid command lines
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const USAGE = `Usage: picmap <command> <config-file> [options]
+       picmap import <photo-folder> [options]
+
+Commands:
+  render     Compose the pic-map and write it as SVG
+  export     Export the pic-map to a print or image format
+  validate   Check a configuration file for errors
+  preview    Write a low-resolution PNG preview
+  serve      Serve a live-reloading preview in the browser
+  edit       Serve the preview with a web editor that saves to the config file
+  import     Create a configuration from a folder of geotagged photos
+
+Options:
+  -o, --output <file>       Output file (render and import write to stdout by default)
+  -f, --format <format>     Export format: ${ExportEngine.getAvailableFormats().join(', ')}
+      --dpi <number>        Resolution in DPI (render/preview: 96, export/serve/edit: 300)
+      --page-size <size>    Export page size: ${ExportEngine.getPageSizePresets().join(', ')}
+                            (default: the layout page size)
+      --orientation <value> Export orientation: portrait or landscape
+      --quality <number>    JPEG/WebP quality from 1 to 100
+      --port <number>       Preview server port (default: 3000)
+      --host <host>         Preview server host (default: 127.0.0.1)
+  -h, --help                Show this help
+  -v, --version             Show the version number
+`;
+
+const COMMANDS = ['render', 'export', 'validate', 'preview', 'serve', 'edit', 'import'];
+
+const OPTIONS = {
+  output: { type: 'string', short: 'o' },
+  format: { type: 'string', short: 'f' },
+  dpi: { type: 'string' },
+  'page-size': { type: 'string' },
+  orientation: { type: 'string' },
+  quality: { type: 'string' },
+  port: { type: 'string' },
+  host: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS }>>['values'];
+
+/**
+ * Parses a numeric option
+ * @throws CliUsageError if the value is not a number
+ */
+function numberOption(options: CliOptions, name: 'dpi' | 'quality' | 'port'): number | undefined {
+  const value = options[name];
+  if (value === undefined) return undefined;
+
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new CliUsageError(`--${name} must be a number, got: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Reads the package version
+ */
+function readVersion(): string {
+  const packageJson = JSON.parse(
+    readFileSync(resolve(__dirname, '..', 'package.json'), 'utf-8')
+  ) as { version?: string };
+  return packageJson.version ?? 'unknown';
+}
+
+/**
+ * Returns the default output file name for a config file: the config file
+ * name with the suffix and extension, in the current directory
+ */
+function defaultOutputPath(configPath: string, suffix: string, extension: string): string {
+  return `${basename(configPath, extname(configPath))}${suffix}.${extension}`;
+}
+
+/**
+ * Loads a configuration file and checks its cross-references
+ * @throws ConfigValidationError if the configuration is invalid
+ */
+async function loadValidConfig(configPath: string): Promise<PicMapConfig> {
+  const config = await loadConfigFromFile(configPath);
+
+  const referenceErrors = validateConfigReferences(config);
+  if (referenceErrors.length > 0) {
+    throw new ConfigValidationError('Configuration validation failed', referenceErrors);
+  }
+
+  return config;
+}
+
+/**
+ * Loads a configuration file and renders it with the command-line options,
+ * printing any warnings to stderr
+ */
+async function renderConfig(
+  configPath: string,
+  options: CliOptions,
+  streams: CliStreams,
+  renderOptions: RenderPicMapOptions
+): Promise<RenderPicMapResult> {
+  const config = await loadConfigFromFile(configPath);
+  const result = await renderPicMap(config, {
+    ...renderOptions,
+    pageSize: options['page-size'] as PageSizePreset | undefined,
+    orientation: options.orientation as PageOrientation | undefined,
+    quality: numberOption(options, 'quality'),
+    author: 'Pic-Map',
+    baseDir: dirname(resolve(configPath)),
+  });
+
+  for (const warning of result.warnings) {
+    streams.stderr.write(`picmap: warning: ${warning.message}\n`);
+  }
+  return result;
+}
+
+async function runRender(configPath: string, options: CliOptions, streams: CliStreams) {
+  const result = await renderConfig(configPath, options, streams, {
+    format: 'svg',
+    dpi: numberOption(options, 'dpi') ?? 96,
+  });
+  const svg = result.data as string;
+
+  if (options.output === undefined || options.output === '-') {
+    streams.stdout.write(svg + '\n');
+    return;
+  }
+
+  await writeFile(options.output, svg, 'utf-8');
+  streams.stdout.write(
+    `Rendered ${options.output} (${result.widthMm}x${result.heightMm}mm, ` +
+      `${result.widthPx}x${result.heightPx}px)\n`
+  );
+}
+
+async function runExport(
+  configPath: string,
+  options: CliOptions,
+  streams: CliStreams,
+  defaults: { format: ExportFormat; dpi: number; suffix: string }
+) {
+  const format = (options.format ?? defaults.format) as ExportFormat;
+  if (!ExportEngine.getAvailableFormats().includes(format)) {
+    throw new CliUsageError(`Unsupported format: ${format}`);
+  }
+
+  const result = await renderConfig(configPath, options, streams, {
+    format,
+    dpi: numberOption(options, 'dpi') ?? defaults.dpi,
+  });
+
+  const output =
+    options.output ??
+    defaultOutputPath(configPath, defaults.suffix, format === 'jpeg' ? 'jpg' : format);
+  if (typeof result.data === 'string') {
+    await writeFile(output, result.data, 'utf-8');
+  } else {
+    await writeFile(output, result.data);
+  }
+
+  streams.stdout.write(
+    `Exported ${output} (${result.widthMm}x${result.heightMm}mm, ` +
+      `${result.widthPx}x${result.heightPx}px)\n`
+  );
+}
+
+async function runValidate(configPath: string, streams: CliStreams) {
+  const config = await loadValidConfig(configPath);
+  streams.stdout.write(
+    `${configPath} is valid: "${config.title}" with ${config.images.length} images ` +
+      `and ${config.links.length} links\n`
+  );
+}
+
+async function runImport(photoDir: string, options: CliOptions, streams: CliStreams) {
+  const { output } = options;
+  const toStdout = output === undefined || output === '-';
+  // Image paths are written relative to the config file
+  const { config, warnings } = await importConfigFromPhotos(photoDir, {
+    baseDir: toStdout ? process.cwd() : dirname(resolve(output)),
+  });
+
+  for (const warning of warnings) {
+    streams.stderr.write(`picmap: warning: ${warning}\n`);
+  }
+
+  const json = JSON.stringify(config, null, 2) + '\n';
+  if (toStdout) {
+    streams.stdout.write(json);
+    return;
+  }
+
+  await writeFile(output, json, 'utf-8');
+  streams.stdout.write(
+    `Imported ${config.images.length} photos with ${config.links.length} locations to ${output}\n`
+  );
+}
+
+async function runServe(
+  configPath: string,
+  options: CliOptions,
+  streams: CliStreams,
+  editable: boolean
+) {
+  const server = new PreviewServer({
+    configPath,
+    port: numberOption(options, 'port'),
+    host: options.host,
+    dpi: numberOption(options, 'dpi'),
+    editable,
+  });
+  const url = await server.start();
+
+  const { error } = server.getState();
+  if (error) {
+    streams.stderr.write(`picmap: ${error}\n`);
+  }
+  if (editable) {
+    streams.stdout.write(`Editing ${configPath} at ${url}editor/ (press Ctrl+C to stop)\n`);
+    streams.stdout.write(
+      'The editor requires an authenticated user: run behind the auth proxy, or set\n' +
+        'DEV_STUB_USER="email:Name" for local use.\n'
+    );
+  } else {
+    streams.stdout.write(`Previewing ${configPath} at ${url} (press Ctrl+C to stop)\n`);
+  }
+
+  await new Promise<void>((resolvePromise) => {
+    process.once('SIGINT', resolvePromise);
+    process.once('SIGTERM', resolvePromise);
+  });
+  await server.stop();
+}
+
+/**
+ * Runs the CLI
+ * @param args - Command-line arguments (without the node executable and script)
+ * @param streams - Output streams
+ * @returns Process exit code (see EXIT_CODES)
+ */
+export async function runCli(args: string[], streams: CliStreams = process): Promise<number> {
+  try {
+    let parsed;
+    try {
+      parsed = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+    } catch (error) {
+      throw new CliUsageError(error instanceof Error ? error.message : String(error));
+    }
+
+    const { values: options, positionals } = parsed;
+    if (options.version) {
+      streams.stdout.write(`${readVersion()}\n`);
+      return EXIT_CODES.SUCCESS;
+    }
+    if (options.help || positionals.length === 0) {
+      streams.stdout.write(USAGE);
+      return options.help ? EXIT_CODES.SUCCESS : EXIT_CODES.USAGE;
+    }
+
+    const [command, configPath, ...extra] = positionals;
+    if (!COMMANDS.includes(command)) {
+      throw new CliUsageError(`Unknown command: ${command}`);
+    }
+    if (!configPath) {
+      const argument = command === 'import' ? 'photo folder' : 'config file';
+      throw new CliUsageError(`Missing ${argument} for "${command}"`);
+    }
+    if (extra.length > 0) {
+      throw new CliUsageError(`Unexpected argument: ${extra[0]}`);
+    }
+
+    switch (command) {
+      case 'render':
+        await runRender(configPath, options, streams);
+        break;
+      case 'export':
+        await runExport(configPath, options, streams, { format: 'pdf', dpi: 300, suffix: '' });
+        break;
+      case 'preview':
+        await runExport(configPath, { ...options, format: 'png' }, streams, {
+          format: 'png',
+          dpi: 96,
+          suffix: '-preview',
+        });
+        break;
+      case 'validate':
+        await runValidate(configPath, streams);
+        break;
+      case 'serve':
+        await runServe(configPath, options, streams, false);
+        break;
+      case 'edit':
+        await runServe(configPath, options, streams, true);
+        break;
+      case 'import':
+        await runImport(configPath, options, streams);
+        break;
+    }
+
+    return EXIT_CODES.SUCCESS;
+  } catch (error) {
+    return reportError(error, streams);
+  }
+}
+
+/**
+ * Writes an error to stderr
+ * @returns The exit code for the error
+ */
+function reportError(error: unknown, streams: CliStreams): number {
+  if (error instanceof CliUsageError) {
+    streams.stderr.write(`picmap: ${error.message}\nRun "picmap --help" for usage.\n`);
+    return EXIT_CODES.USAGE;
+  }
+
+  if (error instanceof ConfigValidationError) {
+    streams.stderr.write(`picmap: ${error.message}:\n`);
+    for (const message of error.validationErrors) {
+      streams.stderr.write(`  - ${message}\n`);
+    }
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  if (error instanceof ConfigLoadError) {
+    const cause = error.cause ? `: ${error.cause.message}` : '';
+    streams.stderr.write(`picmap: ${error.message}${cause}\n`);
+    return EXIT_CODES.CONFIG_LOAD;
+  }
+
+  if (error instanceof PreviewServerError) {
+    const cause = error.cause ? `: ${error.cause.message}` : '';
+    streams.stderr.write(`picmap: ${error.message}${cause}\n`);
+    return EXIT_CODES.FAILURE;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const prefix = error instanceof ExportError ? '' : 'Rendering failed: ';
+  streams.stderr.write(`picmap: ${prefix}${message}\n`);
+  return EXIT_CODES.FAILURE;
+}
+
+// Run if executed directly
+if (require.main === module) {
+  void runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -18,6 +18,7 @@ describe('Compositor Accessibility', () => {
       width: 400,
       height: 300,
       bounds: { north: 52, south: 51, east: 0, west: -1 },
+      view: { center: { latitude: 51.5, longitude: -0.5 }, zoom: 10 },
     },
     images: [{ filePath: '/images/image1.jpg', caption: 'Image 1' }],
     links: [{ imageIndex: 0, markerPosition: { x: 100, y: 150 }, label: 'A' }],
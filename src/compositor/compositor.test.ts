@@ -1,4 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
 import { Compositor, createCompositorFromLayout } from './compositor';
 import type { CompositorConfig, CompositionInput } from './types';
 
@@ -18,6 +22,7 @@ describe('Compositor', () => {
       width: 400,
       height: 300,
       bounds: { north: 52, south: 51, east: 0, west: -1 },
+      view: { center: { latitude: 51.5, longitude: -0.5 }, zoom: 10 },
     },
     images: [
       { filePath: '/images/image1.jpg', caption: 'Image 1' },
@@ -200,6 +205,131 @@ describe('Compositor', () => {
 
       expect(result.svg).toContain('stroke-dasharray="2 4"');
     });
+
+    it('should let links override the line style', () => {
+      const compositor = new Compositor({
+        ...defaultConfig,
+        linkStyle: { type: 'line', lineColor: '#0066cc', endMarker: 'dot' },
+      });
+      const result = compositor.render({
+        ...defaultInput,
+        links: [
+          defaultInput.links[0],
+          {
+            ...defaultInput.links[1],
+            style: { lineColor: '#cc0000', lineOpacity: 0.5, lineWidth: 3, endMarker: 'arrow' },
+          },
+        ],
+      });
+      const lines = result.svg.match(/<line [^>]*\/>/g)!;
+
+      expect(lines[0]).toContain('stroke="#0066cc" stroke-width="1"');
+      expect(lines[0]).toContain('marker-end="url(#link-dot--0066cc)"');
+      expect(lines[1]).toContain('stroke="#cc0000" stroke-width="3" opacity="0.5"');
+      expect(lines[1]).toContain('marker-end="url(#link-arrow--cc0000)"');
+      expect(result.svg).toContain('<marker id="link-dot--0066cc"');
+      expect(result.svg).toContain('<marker id="link-arrow--cc0000"');
+    });
+
+    it('should draw picture frames and label badges in the frame color of their link', () => {
+      const compositor = new Compositor({ ...defaultConfig, linkStyle: { type: 'both' } });
+      const result = compositor.render({
+        ...defaultInput,
+        links: [defaultInput.links[0], { ...defaultInput.links[1], frameColor: '#8e44ad' }],
+      });
+      const frames = [...result.svg.matchAll(/<rect [^>]*stroke="([^"]+)" stroke-width/g)];
+
+      expect(frames.filter((frame) => frame[1] === '#8e44ad')).toHaveLength(1);
+      expect(result.svg).toMatch(/<circle [^>]*fill="#8e44ad"\/>/);
+    });
+
+    it('should draw routed link lines as paths that keep clear of the pictures', () => {
+      const compositor = new Compositor({
+        ...defaultConfig,
+        linkStyle: { type: 'line', routing: 'orthogonal' },
+      });
+      const layout = compositor.createLayout(defaultInput);
+      const result = compositor.render(defaultInput);
+
+      const group = result.svg
+        .split('<g class="link-lines" aria-hidden="true">')[1]
+        .split('</g>')[0];
+      const paths = [...group.matchAll(/<path d="([^"]+)" fill="none"/g)].map((m) => m[1]);
+      expect(paths).toHaveLength(2);
+      expect(group).not.toContain('<line');
+      paths.forEach((d, i) => {
+        const { start, end } = layout.links[i];
+        expect(d.startsWith(`M ${start.x} ${start.y} L `)).toBe(true);
+        expect(d.endsWith(`L ${end.x} ${end.y}`)).toBe(true);
+      });
+    });
+  });
+
+  describe('real images', () => {
+    // 1x1 pixel PNG
+    const pngBase64 =
+      'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+    let tempDir: string;
+
+    beforeAll(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'picmap-compositor-'));
+      writeFileSync(join(tempDir, 'photo.png'), Buffer.from(pngBase64, 'base64'));
+    });
+
+    afterAll(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const inputWithPhoto = (): CompositionInput => ({
+      ...defaultInput,
+      images: [{ filePath: 'photo.png', caption: 'Real photo' }, defaultInput.images[1]],
+    });
+
+    it('should embed a loadable image as a clipped <image> element', () => {
+      const compositor = new Compositor({ ...defaultConfig, imageBaseDir: tempDir });
+      const result = compositor.render(inputWithPhoto());
+
+      expect(result.svg).toContain('xmlns:xlink="http://www.w3.org/1999/xlink"');
+      expect(result.svg).toContain(`xlink:href="data:image/png;base64,${pngBase64}"`);
+      expect(result.svg).toMatch(/<g clip-path="url\(#image-clip-0\)"[^>]*>\s*<image /);
+      expect(result.svg).toContain('preserveAspectRatio="xMidYMid slice"');
+      expect(result.svg).toContain('>Real photo</text>');
+    });
+
+    it('should fall back to a placeholder and warn when an image cannot be loaded', () => {
+      const compositor = new Compositor({ ...defaultConfig, imageBaseDir: tempDir });
+      const result = compositor.render(inputWithPhoto());
+
+      expect((result.svg.match(/<image /g) || []).length).toBe(1);
+      expect(result.svg).toContain('fill="url(#vignette-1)"');
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0]).toContain('Image 1 rendered as placeholder');
+    });
+
+    it('should letterbox images when imageFit is contain', () => {
+      const compositor = new Compositor({
+        ...defaultConfig,
+        imageBaseDir: tempDir,
+        pictureBorderStyle: { imageFit: 'contain' },
+      });
+      const result = compositor.render(inputWithPhoto());
+
+      expect(result.svg).toContain('preserveAspectRatio="xMidYMid meet"');
+    });
+
+    it('should link to the image file when embedImages is false', () => {
+      const compositor = new Compositor({
+        ...defaultConfig,
+        imageBaseDir: tempDir,
+        embedImages: false,
+      });
+      const result = compositor.render(inputWithPhoto());
+
+      expect(result.svg).toContain(
+        `xlink:href="${pathToFileURL(join(tempDir, 'photo.png')).href}"`
+      );
+      expect(result.svg).not.toContain('data:image/png');
+    });
   });
 
   describe('preview', () => {
@@ -317,6 +447,7 @@ describe('Compositor Integration', () => {
         width: 600,
         height: 400,
         bounds: { north: 52, south: 51, east: 0, west: -1 },
+        view: { center: { latitude: 51.5, longitude: -0.5 }, zoom: 10 },
       },
       images: [
         { filePath: '/images/photo1.jpg', caption: 'Photo 1' },
@@ -364,6 +495,7 @@ describe('Compositor Integration', () => {
         width: 100,
         height: 80,
         bounds: { north: 52, south: 51, east: 0, west: -1 },
+        view: { center: { latitude: 51.5, longitude: -0.5 }, zoom: 10 },
       },
       images: [{ filePath: '/images/test.jpg' }],
       links: [],
@@ -392,6 +524,7 @@ describe('Compositor Integration', () => {
         width: 100,
         height: 100,
         bounds: { north: 52, south: 51, east: 0, west: -1 },
+        view: { center: { latitude: 51.5, longitude: -0.5 }, zoom: 10 },
       },
       images: [],
       links: [],
@@ -2,7 +2,8 @@
  * Main compositor module for combining map and picture border elements
  */
 
-import { PictureBorderStyle, LinkStyle } from '../types';
+import { pathToFileURL } from 'url';
+import { PictureBorderStyle, LinkStyle, LinkLineStyle, BorderRows } from '../types';
 import {
   CompositorConfig,
   CompositionInput,
@@ -14,6 +15,9 @@ import {
 } from './types';
 import { createCompositionLayout } from './layout-engine';
 import { getPageDimensionsMm, DEFAULT_DPI, validateDpi } from './page-sizes';
+import { loadImage, toDataUri, ImageLoadError, LoadedImage } from './image-loader';
+import { exitDirection, routeLinks } from '../link-manager/routing';
+import { lineMarkerAttributes, renderLineMarkerDefs } from '../link-manager/line-markers';
 
 /**
  * Default picture border style
@@ -23,6 +27,7 @@ const DEFAULT_PICTURE_BORDER_STYLE: Required<PictureBorderStyle> = {
   borderColor: '#333333',
   borderThickness: 2,
   cornerRadius: 4,
+  imageFit: 'cover',
 };
 
 /**
@@ -145,13 +150,14 @@ export class Compositor {
     const layout = this.createLayout(input);
     const svgParts: string[] = [];
     const defsParts: string[] = [];
+    const warnings: string[] = [];
 
     const dpi = this.config.dpi ?? DEFAULT_DPI;
 
     // SVG header
     const title = this.config.title || 'Pic-Map Composition';
     svgParts.push(
-      `<svg xmlns="http://www.w3.org/2000/svg" ` +
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
         `width="${layout.pageDimensions.width}" height="${layout.pageDimensions.height}" ` +
         `viewBox="0 0 ${layout.pageDimensions.width} ${layout.pageDimensions.height}" ` +
         `role="img" aria-label="${escapeXml(title)}">`
@@ -197,11 +203,11 @@ export class Compositor {
 
     // Render link lines (behind pictures if type includes lines)
     if (this.linkStyle.type === 'line' || this.linkStyle.type === 'both') {
-      svgParts.push(this.renderLinkLines(layout.links));
+      svgParts.push(this.renderLinkLines(layout.links, layout.pictures));
     }
 
     // Render pictures
-    svgParts.push(this.renderPictures(layout.pictures));
+    svgParts.push(this.renderPictures(layout.pictures, warnings));
 
     // Close SVG
     svgParts.push('</svg>');
@@ -219,6 +225,7 @@ export class Compositor {
       height: layout.pageDimensions.height,
       dpi,
       pageSizeMm,
+      warnings,
     };
   }
 
@@ -266,18 +273,13 @@ export class Compositor {
       dpi: validateDpi(previewDpi),
     };
 
-    // Scale the map to fit the preview size
     const previewCompositor = new Compositor(previewConfig);
 
-    // Scale the input map dimensions
+    // The map keeps its size, so that it is scaled down to the smaller map
+    // area with its content; the markers are scaled to match
     const scaleFactor = previewDpi / (this.config.dpi ?? DEFAULT_DPI);
     const scaledInput: CompositionInput = {
       ...input,
-      map: {
-        ...input.map,
-        width: Math.round(input.map.width * scaleFactor),
-        height: Math.round(input.map.height * scaleFactor),
-      },
       links: input.links.map((link) => ({
         ...link,
         markerPosition: {
@@ -371,39 +373,92 @@ export class Compositor {
 
   /**
    * Renders the link lines between pictures and map markers
+   *
+   * Straight lines are drawn as lines; other routings as paths that keep
+   * clear of the other pictures. Each link may override the line style.
    */
-  private renderLinkLines(links: LinkLine[]): string {
+  private renderLinkLines(links: LinkLine[], pictures: PositionedPicture[]): string {
     const parts: string[] = [];
-    const lineColor = sanitizeColor(this.linkStyle.lineColor, '#666666');
-    const lineWidth = this.linkStyle.lineWidth ?? 1;
-    const lineStyle = this.linkStyle.lineStyle ?? 'solid';
-
-    let strokeDasharray = '';
-    if (lineStyle === 'dashed') {
-      strokeDasharray = ` stroke-dasharray="${lineWidth * 4} ${lineWidth * 2}"`;
-    } else if (lineStyle === 'dotted') {
-      strokeDasharray = ` stroke-dasharray="${lineWidth} ${lineWidth * 2}"`;
+    const routing = this.linkStyle.routing ?? 'straight';
+    const styles = links.map((link) => this.resolveLinkLineStyle(link.style));
+
+    let shapes: string[];
+    if (routing === 'straight') {
+      shapes = links.map(
+        (link) =>
+          `<line x1="${link.start.x}" y1="${link.start.y}" ` +
+          `x2="${link.end.x}" y2="${link.end.y}"`
+      );
+    } else {
+      const requests = links.map((link) => {
+        const picture = pictures.find((candidate) => candidate.imageIndex === link.imageIndex);
+        const frame = picture?.rect ?? { ...link.start, width: 0, height: 0 };
+        return {
+          start: link.start,
+          end: link.end,
+          exit: exitDirection(frame, link.start, link.end),
+          picture: picture?.rect,
+        };
+      });
+      shapes = routeLinks(
+        requests,
+        routing,
+        pictures.map((picture) => picture.rect)
+      ).map((d) => `<path d="${d}" fill="none"`);
     }
 
     parts.push('<g class="link-lines" aria-hidden="true">');
 
-    for (const link of links) {
+    const markerDefs = renderLineMarkerDefs(styles);
+    if (markerDefs) {
+      parts.push(markerDefs);
+    }
+
+    shapes.forEach((shape, index) => {
+      const { lineColor, lineWidth, lineStyle, lineOpacity } = styles[index];
+
+      let strokeDasharray = '';
+      if (lineStyle === 'dashed') {
+        strokeDasharray = ` stroke-dasharray="${lineWidth * 4} ${lineWidth * 2}"`;
+      } else if (lineStyle === 'dotted') {
+        strokeDasharray = ` stroke-dasharray="${lineWidth} ${lineWidth * 2}"`;
+      }
+      const opacity = lineOpacity < 1 ? ` opacity="${lineOpacity}"` : '';
+
       parts.push(
-        `<line x1="${link.start.x}" y1="${link.start.y}" ` +
-          `x2="${link.end.x}" y2="${link.end.y}" ` +
-          `stroke="${lineColor}" stroke-width="${lineWidth}"${strokeDasharray}/>`
+        `${shape} stroke="${lineColor}" stroke-width="${lineWidth}"${strokeDasharray}${opacity}` +
+          `${lineMarkerAttributes(styles[index])}/>`
       );
-    }
+    });
 
     parts.push('</g>');
 
     return parts.join('\n');
   }
 
+  /**
+   * Resolves the line style of a link, falling back to the link style for
+   * anything the link does not override
+   */
+  private resolveLinkLineStyle(override: LinkLineStyle = {}): Required<LinkLineStyle> {
+    const lineOpacity = override.lineOpacity ?? this.linkStyle.lineOpacity ?? 1;
+    return {
+      lineColor: sanitizeColor(
+        override.lineColor,
+        sanitizeColor(this.linkStyle.lineColor, '#666666')
+      ),
+      lineWidth: override.lineWidth ?? this.linkStyle.lineWidth ?? 1,
+      lineStyle: override.lineStyle ?? this.linkStyle.lineStyle ?? 'solid',
+      lineOpacity: Math.min(1, Math.max(0, lineOpacity)),
+      startMarker: override.startMarker ?? this.linkStyle.startMarker ?? 'none',
+      endMarker: override.endMarker ?? this.linkStyle.endMarker ?? 'none',
+    };
+  }
+
   /**
    * Renders the picture frames
    */
-  private renderPictures(pictures: PositionedPicture[]): string {
+  private renderPictures(pictures: PositionedPicture[], warnings: string[]): string {
     const parts: string[] = [];
     const borderColor = sanitizeColor(this.pictureStyle.borderColor, '#333333');
     const bgColor = sanitizeColor(this.pictureStyle.backgroundColor, '#ffffff');
@@ -418,6 +473,7 @@ export class Compositor {
       const altText = picture.image.altText;
       const caption = picture.image.caption;
       const label = picture.label;
+      const frameColor = sanitizeColor(picture.frameColor, borderColor);
       let pictureTitle = altText || caption || `Picture from ${picture.image.filePath}`;
 
       if (label) {
@@ -434,18 +490,23 @@ export class Compositor {
       // Picture frame background
       parts.push(
         `<rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" ` +
-          `fill="${bgColor}" stroke="${borderColor}" stroke-width="${borderThickness}" ` +
+          `fill="${bgColor}" stroke="${frameColor}" stroke-width="${borderThickness}" ` +
           `rx="${cornerRadius}" ry="${cornerRadius}"/>`
       );
 
-      // Render a stylized placeholder image that looks like a photograph
       const innerPadding = borderThickness + 2;
       const innerX = rect.x + innerPadding;
       const innerY = rect.y + innerPadding;
       const innerWidth = Math.max(0, rect.width - 2 * innerPadding);
       const innerHeight = Math.max(0, rect.height - 2 * innerPadding);
 
-      parts.push(this.renderImagePlaceholder(innerX, innerY, innerWidth, innerHeight, picture));
+      // Embed the real photograph, falling back to a stylized placeholder
+      const image = this.loadPictureImage(picture, warnings);
+      if (image) {
+        parts.push(this.renderImage(innerX, innerY, innerWidth, innerHeight, picture, image));
+      } else {
+        parts.push(this.renderImagePlaceholder(innerX, innerY, innerWidth, innerHeight, picture));
+      }
 
       // Render label badge if needed
       if (picture.label && (this.linkStyle.type === 'label' || this.linkStyle.type === 'both')) {
@@ -460,6 +521,59 @@ export class Compositor {
     return parts.join('\n');
   }
 
+  /**
+   * Loads the image file for a picture
+   * @returns The loaded image, or null (with a warning) if it cannot be loaded
+   */
+  private loadPictureImage(picture: PositionedPicture, warnings: string[]): LoadedImage | null {
+    try {
+      return loadImage(picture.image.filePath, this.config.imageBaseDir);
+    } catch (error) {
+      const reason = error instanceof ImageLoadError ? error.message : String(error);
+      warnings.push(`Image ${picture.imageIndex} rendered as placeholder: ${reason}`);
+      return null;
+    }
+  }
+
+  /**
+   * Renders a photograph fitted into the picture's clip path
+   */
+  private renderImage(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    picture: PositionedPicture,
+    image: LoadedImage
+  ): string {
+    const parts: string[] = [];
+    const clipId = `image-clip-${picture.imageIndex}`;
+    // 'cover' crops the photo to fill the frame, 'contain' letterboxes it
+    const aspectRatio =
+      this.pictureStyle.imageFit === 'contain' ? 'xMidYMid meet' : 'xMidYMid slice';
+    // Linked images are referenced by file: URL, so that paths need no escaping
+    const href =
+      this.config.embedImages !== false
+        ? toDataUri(image)
+        : image.source.startsWith('data:')
+          ? image.source
+          : pathToFileURL(image.source).href;
+
+    parts.push(`<g clip-path="url(#${clipId})" aria-hidden="true">`);
+    parts.push(
+      `<image x="${x}" y="${y}" width="${width}" height="${height}" ` +
+        `preserveAspectRatio="${aspectRatio}" xlink:href="${escapeXml(href)}"/>`
+    );
+
+    if (picture.image.caption) {
+      parts.push(this.renderCaption(x, y, width, height, picture.image.caption));
+    }
+
+    parts.push('</g>');
+
+    return parts.join('\n');
+  }
+
   /**
    * Renders a label badge on a picture
    */
@@ -469,7 +583,10 @@ export class Compositor {
     const labelStyle = this.linkStyle.labelStyle ?? DEFAULT_LINK_STYLE.labelStyle;
     const fontFamily = labelStyle?.fontFamily ?? 'Arial, sans-serif';
     const fontSize = labelStyle?.fontSize ?? 12;
-    const borderColor = sanitizeColor(this.pictureStyle.borderColor, '#333333');
+    const borderColor = sanitizeColor(
+      picture.frameColor,
+      sanitizeColor(this.pictureStyle.borderColor, '#333333')
+    );
 
     const badgeSize = fontSize * 1.6;
     const badgeX = rect.x + 5;
@@ -597,15 +714,7 @@ export class Compositor {
 
     // Add caption text if present
     if (picture.image.caption) {
-      const captionY = y + height - 8;
-      const captionX = x + 5;
-      // Background for caption
-      parts.push(
-        `<rect x="${captionX - 2}" y="${captionY - 10}" width="${width - 6}" height="14" fill="rgba(0,0,0,0.5)" rx="2"/>`
-      );
-      parts.push(
-        `<text x="${captionX}" y="${captionY}" font-family="Arial, sans-serif" font-size="9" fill="white">${escapeXml(picture.image.caption.substring(0, 30))}</text>`
-      );
+      parts.push(this.renderCaption(x, y, width, height, picture.image.caption));
     }
 
     parts.push('</g>');
@@ -613,6 +722,31 @@ export class Compositor {
     return parts.join('\n');
   }
 
+  /**
+   * Renders a caption strip along the bottom of a picture
+   */
+  private renderCaption(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    caption: string
+  ): string {
+    const parts: string[] = [];
+    const captionY = y + height - 8;
+    const captionX = x + 5;
+
+    // Background for caption
+    parts.push(
+      `<rect x="${captionX - 2}" y="${captionY - 10}" width="${width - 6}" height="14" fill="rgba(0,0,0,0.5)" rx="2"/>`
+    );
+    parts.push(
+      `<text x="${captionX}" y="${captionY}" font-family="Arial, sans-serif" font-size="9" fill="white">${escapeXml(caption.substring(0, 30))}</text>`
+    );
+
+    return parts.join('\n');
+  }
+
   /**
    * Gets the current configuration
    */
@@ -643,6 +777,10 @@ export class Compositor {
  * @param layout - Layout options from PicMapConfig
  * @param pictureBorder - Optional picture border style
  * @param linkStyle - Optional link style
+ * @param dpi - Optional rendering DPI
+ * @param title - Optional document title
+ * @param description - Optional document description
+ * @param imageBaseDir - Optional directory used to resolve relative image file paths
  * @returns Configured compositor
  */
 export function createCompositorFromLayout(
@@ -653,22 +791,34 @@ export function createCompositorFromLayout(
     borderWidth: number;
     pictureSpacing: number;
     margin: { top: number; right: number; bottom: number; left: number };
+    distribution?: 'even' | 'optimized' | 'itinerary';
+    slotSizing?: 'square' | 'justified';
+    cornerSlots?: boolean;
+    borderRows?: BorderRows;
+    minMapSize?: number;
   },
   pictureBorder?: PictureBorderStyle,
   linkStyle?: LinkStyle,
   dpi?: number,
   title?: string,
-  description?: string
+  description?: string,
+  imageBaseDir?: string
 ): Compositor {
   return new Compositor({
     title,
     description,
+    imageBaseDir,
     pageSize: layout.pageSize,
     customDimensions: layout.customDimensions,
     orientation: layout.orientation,
     borderWidth: layout.borderWidth,
     pictureSpacing: layout.pictureSpacing,
     margin: layout.margin,
+    distribution: layout.distribution,
+    slotSizing: layout.slotSizing,
+    cornerSlots: layout.cornerSlots,
+    borderRows: layout.borderRows,
+    minMapSize: layout.minMapSize,
     dpi,
     pictureBorderStyle: pictureBorder,
     linkStyle,
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { deflateSync } from 'zlib';
+import {
+  detectImageType,
+  readImageDimensions,
+  resolveImagePath,
+  loadImage,
+  toDataUri,
+  ImageLoadError,
+} from './image-loader';
+
+/**
+ * Builds a minimal valid RGB PNG of the given size
+ */
+function createPng(width: number, height: number): Buffer {
+  const chunk = (type: string, data: Buffer): Buffer => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    // CRC is not checked by the loader, so a zero CRC keeps the fixture simple
+    return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+  };
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 2; // colour type: RGB
+
+  const raw = Buffer.alloc(height * (1 + width * 3), 0x80);
+  for (let row = 0; row < height; row++) {
+    raw[row * (1 + width * 3)] = 0; // filter type: none
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Builds the header of a JPEG file (SOI, APP0 and SOF0 segments)
+ */
+function createJpegHeader(width: number, height: number): Buffer {
+  const app0 = Buffer.from([
+    0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01,
+    0x00, 0x00,
+  ]);
+  const sof0 = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03]);
+  sof0.writeUInt16BE(height, 5);
+  sof0.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0, Buffer.alloc(9)]);
+}
+
+/**
+ * Builds the header of an extended (VP8X) WebP file
+ */
+function createWebpHeader(width: number, height: number): Buffer {
+  const header = Buffer.alloc(30);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(22, 4);
+  header.write('WEBP', 8, 'ascii');
+  header.write('VP8X', 12, 'ascii');
+  header.writeUInt32LE(10, 16);
+  header.writeUIntLE(width - 1, 24, 3);
+  header.writeUIntLE(height - 1, 27, 3);
+  return header;
+}
+
+describe('Image Loader', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-images-'));
+    writeFileSync(join(tempDir, 'photo.png'), createPng(4, 2));
+    writeFileSync(join(tempDir, 'notes.txt'), 'not an image');
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('detectImageType', () => {
+    it('should detect PNG, JPEG and WebP signatures', () => {
+      expect(detectImageType(createPng(1, 1))).toBe('image/png');
+      expect(detectImageType(createJpegHeader(10, 10))).toBe('image/jpeg');
+      expect(detectImageType(createWebpHeader(10, 10))).toBe('image/webp');
+    });
+
+    it('should return null for unsupported data', () => {
+      expect(detectImageType(Buffer.from('GIF89a'))).toBeNull();
+      expect(detectImageType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('readImageDimensions', () => {
+    it('should read PNG dimensions from the IHDR chunk', () => {
+      expect(readImageDimensions(createPng(4, 2))).toEqual({ width: 4, height: 2 });
+    });
+
+    it('should read JPEG dimensions from the SOF segment', () => {
+      expect(readImageDimensions(createJpegHeader(1920, 1280))).toEqual({
+        width: 1920,
+        height: 1280,
+      });
+    });
+
+    it('should read extended WebP dimensions', () => {
+      expect(readImageDimensions(createWebpHeader(800, 600))).toEqual({ width: 800, height: 600 });
+    });
+
+    it('should return null when dimensions are unavailable', () => {
+      expect(readImageDimensions(Buffer.from('plain text'))).toBeNull();
+    });
+  });
+
+  describe('resolveImagePath', () => {
+    it('should keep absolute paths unchanged', () => {
+      expect(resolveImagePath('/images/photo.jpg', '/base')).toBe('/images/photo.jpg');
+    });
+
+    it('should resolve relative paths against the base directory', () => {
+      expect(resolveImagePath('photos/a.jpg', '/base')).toBe(join('/base', 'photos/a.jpg'));
+    });
+
+    it('should convert file URLs to paths', () => {
+      const path = join(tempDir, 'my photos', 'a.jpg');
+      expect(resolveImagePath(pathToFileURL(path).href, '/base')).toBe(path);
+      expect(resolveImagePath('file:photos/a.jpg', '/base')).toBe(join('/base', 'photos/a.jpg'));
+    });
+  });
+
+  describe('loadImage', () => {
+    it('should load an image relative to the base directory', () => {
+      const image = loadImage('photo.png', tempDir);
+
+      expect(image.mimeType).toBe('image/png');
+      expect(image.dimensions).toEqual({ width: 4, height: 2 });
+      expect(image.source).toBe(join(tempDir, 'photo.png'));
+    });
+
+    it('should load an image from a base64 data URI', () => {
+      const dataUri = `data:image/png;base64,${createPng(3, 3).toString('base64')}`;
+      const image = loadImage(dataUri);
+
+      expect(image.mimeType).toBe('image/png');
+      expect(image.dimensions).toEqual({ width: 3, height: 3 });
+    });
+
+    it('should throw ImageLoadError for missing files', () => {
+      expect(() => loadImage('missing.jpg', tempDir)).toThrow(ImageLoadError);
+    });
+
+    it('should throw ImageLoadError for unsupported formats', () => {
+      expect(() => loadImage('notes.txt', tempDir)).toThrow(/Unsupported image format/);
+    });
+  });
+
+  describe('toDataUri', () => {
+    it('should encode the image as a base64 data URI', () => {
+      const image = loadImage('photo.png', tempDir);
+      const dataUri = toDataUri(image);
+
+      expect(dataUri.startsWith('data:image/png;base64,')).toBe(true);
+      expect(Buffer.from(dataUri.split(',')[1], 'base64').equals(image.data)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Image loading utilities for embedding photographs in a composition
+ */
+
+import { readFileSync } from 'fs';
+import { isAbsolute, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { ImageDimensions } from '../types';
+
+/**
+ * Image formats that can be embedded in a composition
+ */
+export type SupportedImageType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+/**
+ * An image loaded into memory and ready to be embedded
+ */
+export interface LoadedImage {
+  /** Resolved path of the image file (or the original data URI) */
+  source: string;
+  /** Detected MIME type */
+  mimeType: SupportedImageType;
+  /** Intrinsic pixel dimensions, when they can be read from the file header */
+  dimensions?: ImageDimensions;
+  /** Raw image bytes */
+  data: Buffer;
+}
+
+/**
+ * Error thrown when an image cannot be loaded
+ */
+export class ImageLoadError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'ImageLoadError';
+  }
+}
+
+/**
+ * JPEG start-of-frame markers that carry the image dimensions
+ */
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Detects the image format from the leading bytes of a file
+ * @param data - Raw image bytes
+ * @returns MIME type, or null if the format is not supported
+ */
+export function detectImageType(data: Buffer): SupportedImageType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+  if (
+    data.length >= 12 &&
+    data.toString('ascii', 0, 4) === 'RIFF' &&
+    data.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Reads the pixel dimensions of a JPEG image from its start-of-frame segment
+ */
+function readJpegDimensions(data: Buffer): ImageDimensions | null {
+  let offset = 2;
+
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = data[offset + 1];
+
+    // Fill bytes and standalone markers have no length field
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+      };
+    }
+
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+/**
+ * Reads the pixel dimensions of a PNG image from its IHDR chunk
+ */
+function readPngDimensions(data: Buffer): ImageDimensions | null {
+  if (data.length < 24 || data.toString('ascii', 12, 16) !== 'IHDR') {
+    return null;
+  }
+  return {
+    width: data.readUInt32BE(16),
+    height: data.readUInt32BE(20),
+  };
+}
+
+/**
+ * Reads the pixel dimensions of a WebP image (lossy, lossless or extended)
+ */
+function readWebpDimensions(data: Buffer): ImageDimensions | null {
+  if (data.length < 30) {
+    return null;
+  }
+
+  const chunk = data.toString('ascii', 12, 16);
+  switch (chunk) {
+    case 'VP8 ':
+      return {
+        width: data.readUInt16LE(26) & 0x3fff,
+        height: data.readUInt16LE(28) & 0x3fff,
+      };
+    case 'VP8L': {
+      const b0 = data[21];
+      const b1 = data[22];
+      const b2 = data[23];
+      const b3 = data[24];
+      return {
+        width: 1 + (((b1 & 0x3f) << 8) | b0),
+        height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+      };
+    }
+    case 'VP8X':
+      return {
+        width: 1 + data.readUIntLE(24, 3),
+        height: 1 + data.readUIntLE(27, 3),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads the intrinsic pixel dimensions of an image from its header
+ * @param data - Raw image bytes
+ * @param mimeType - Image format (detected from the data if omitted)
+ * @returns Image dimensions, or null if they cannot be determined
+ */
+export function readImageDimensions(
+  data: Buffer,
+  mimeType: SupportedImageType | null = detectImageType(data)
+): ImageDimensions | null {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return readJpegDimensions(data);
+    case 'image/png':
+      return readPngDimensions(data);
+    case 'image/webp':
+      return readWebpDimensions(data);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolves an image path against a base directory
+ * @param filePath - Image path from the configuration (relative or absolute) or `file:` URL
+ * @param baseDir - Directory used to resolve relative paths (default: current directory)
+ * @returns Absolute file path
+ */
+export function resolveImagePath(filePath: string, baseDir?: string): string {
+  if (/^file:\/\//i.test(filePath)) {
+    return fileURLToPath(filePath);
+  }
+  filePath = filePath.replace(/^file:/i, '');
+  if (isAbsolute(filePath)) {
+    return filePath;
+  }
+  return resolve(baseDir ?? process.cwd(), filePath);
+}
+
+/**
+ * Loads an image from disk (or from a base64 data URI) for embedding
+ * @param filePath - Image path, `file:` URL or `data:image/...;base64,` URI
+ * @param baseDir - Directory used to resolve relative paths
+ * @returns The loaded image
+ * @throws ImageLoadError if the file cannot be read or is not a JPEG, PNG or WebP image
+ */
+export function loadImage(filePath: string, baseDir?: string): LoadedImage {
+  let source: string;
+  let data: Buffer;
+
+  const dataUriMatch = filePath.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (dataUriMatch) {
+    source = filePath;
+    data = Buffer.from(dataUriMatch[2], 'base64');
+  } else {
+    source = resolveImagePath(filePath, baseDir);
+    try {
+      data = readFileSync(source);
+    } catch (error) {
+      throw new ImageLoadError(
+        `Failed to read image file: ${source}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  const mimeType = detectImageType(data);
+  if (!mimeType) {
+    throw new ImageLoadError(`Unsupported image format (expected JPEG, PNG or WebP): ${filePath}`);
+  }
+
+  return {
+    source,
+    mimeType,
+    dimensions: readImageDimensions(data, mimeType) ?? undefined,
+    data,
+  };
+}
+
+/**
+ * Encodes a loaded image as a base64 data URI
+ * @param image - Loaded image
+ * @returns Data URI suitable for an SVG `<image>` href
+ */
+export function toDataUri(image: LoadedImage): string {
+  return `data:${image.mimeType};base64,${image.data.toString('base64')}`;
+}
@@ -22,7 +22,13 @@ describe('Full Rendering Integration', () => {
     );
 
     const layout = compositor.createLayout({
-      map: { svg: '', width: 0, height: 0, bounds: { north: 0, south: 0, east: 0, west: 0 } },
+      map: {
+        svg: '',
+        width: 0,
+        height: 0,
+        bounds: { north: 0, south: 0, east: 0, west: 0 },
+        view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+      },
       images: config.images,
       links: [],
     });
@@ -42,8 +48,8 @@ describe('Full Rendering Integration', () => {
     const markerPositions = config.links.map((link) => {
       const pixel = geoToViewportPixel(
         link.location,
-        config.map.center,
-        config.map.zoom,
+        renderedMap.view.center,
+        renderedMap.view.zoom,
         mapWidth,
         mapHeight
       );
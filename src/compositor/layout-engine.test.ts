@@ -4,10 +4,14 @@ import {
   calculateLinkLines,
   createCompositionLayout,
   getRectCenter,
+  resolveBorderRows,
+  solveAssignment,
 } from './layout-engine';
 import type { Rectangle, CompositorConfig, CompositionInput } from './types';
 import type { ImageMetadata } from '../types';
 
+type Point = { x: number; y: number };
+
 describe('Layout Engine', () => {
   const mockBorderAreas = {
     top: { x: 100, y: 0, width: 800, height: 100 },
@@ -75,6 +79,482 @@ describe('Layout Engine', () => {
 
       expect(result[0].image).toEqual(images[0]);
     });
+
+    it('should place pictures on their requested border', () => {
+      const images: ImageMetadata[] = [
+        { filePath: '/test/image0.jpg' },
+        { filePath: '/test/image1.jpg', borderPosition: 'left' },
+        { filePath: '/test/image2.jpg' },
+        { filePath: '/test/image3.jpg', borderPosition: 'left' },
+      ];
+
+      const result = distributePictures(images, mockBorderAreas, 10);
+      const left = result.filter((p) => p.borderPosition === 'left');
+
+      expect(left.map((p) => p.imageIndex)).toEqual([1, 3]);
+      expect(left[0].rect.y).toBeLessThan(left[1].rect.y);
+      expect(result.filter((p) => p.borderPosition === 'top').map((p) => p.imageIndex)).toEqual([
+        0, 2,
+      ]);
+    });
+
+    it('should move pictures to other borders when their border is full', () => {
+      // The right border holds 6 pictures
+      const images: ImageMetadata[] = Array.from({ length: 8 }, (_, i) => ({
+        filePath: `/test/image${i}.jpg`,
+        borderPosition: 'right' as const,
+      }));
+
+      const result = distributePictures(images, mockBorderAreas, 10);
+
+      expect(result).toHaveLength(8);
+      expect(result.filter((p) => p.borderPosition === 'right')).toHaveLength(6);
+      expect(result.filter((p) => p.borderPosition === 'top').map((p) => p.imageIndex)).toEqual([
+        6, 7,
+      ]);
+    });
+  });
+
+  describe('distributePictures with the optimized strategy', () => {
+    const images: ImageMetadata[] = [
+      { filePath: '/test/a.jpg' },
+      { filePath: '/test/b.jpg' },
+      { filePath: '/test/c.jpg' },
+      { filePath: '/test/d.jpg' },
+    ];
+
+    it('should place each picture on the edge nearest its marker', () => {
+      const result = distributePictures(images, mockBorderAreas, 10, 'optimized', [
+        { imageIndex: 0, x: 500, y: 680 },
+        { imageIndex: 1, x: 880, y: 400 },
+        { imageIndex: 2, x: 500, y: 120 },
+        { imageIndex: 3, x: 120, y: 400 },
+      ]);
+
+      const edges = Object.fromEntries(result.map((p) => [p.imageIndex, p.borderPosition]));
+      expect(edges).toEqual({ 0: 'bottom', 1: 'right', 2: 'top', 3: 'left' });
+    });
+
+    it('should order pictures along an edge so that link lines do not cross', () => {
+      const result = distributePictures(images.slice(0, 3), mockBorderAreas, 10, 'optimized', [
+        { imageIndex: 0, x: 800, y: 150 },
+        { imageIndex: 1, x: 500, y: 150 },
+        { imageIndex: 2, x: 200, y: 150 },
+      ]);
+
+      expect(result.map((p) => p.borderPosition)).toEqual(['top', 'top', 'top']);
+      expect(result.map((p) => p.imageIndex)).toEqual([2, 1, 0]);
+    });
+
+    it('should keep pictures on the edge they are pinned to', () => {
+      const result = distributePictures(
+        [{ filePath: '/test/a.jpg', borderPosition: 'left' }, ...images.slice(1)],
+        mockBorderAreas,
+        10,
+        'optimized',
+        [{ imageIndex: 0, x: 880, y: 400 }]
+      );
+
+      expect(result.find((p) => p.imageIndex === 0)?.borderPosition).toBe('left');
+      expect(result).toHaveLength(4);
+    });
+  });
+
+  describe('distributePictures with the itinerary strategy', () => {
+    it('should place pictures clockwise in itinerary order', () => {
+      // Two pictures per edge: top, right, bottom then left
+      const areas = {
+        top: { x: 100, y: 0, width: 210, height: 100 },
+        right: { x: 900, y: 100, width: 100, height: 210 },
+        bottom: { x: 100, y: 700, width: 210, height: 100 },
+        left: { x: 0, y: 100, width: 100, height: 210 },
+      };
+      const images: ImageMetadata[] = Array.from({ length: 8 }, (_, i) => ({
+        filePath: `/test/image${i}.jpg`,
+      }));
+      const result = distributePictures(
+        images,
+        areas,
+        10,
+        'itinerary',
+        images.map((_, i) => ({ imageIndex: i, x: 500, y: 400, order: 7 - i }))
+      );
+
+      const edge = (pos: string) =>
+        result.filter((p) => p.borderPosition === pos).map((p) => p.imageIndex);
+      expect(edge('top')).toEqual([7, 6]);
+      expect(edge('right')).toEqual([5, 4]);
+      // Bottom pictures run right to left and left pictures upwards
+      expect(edge('bottom')).toEqual([2, 3]);
+      expect(edge('left')).toEqual([0, 1]);
+    });
+
+    it('should place pictures without an itinerary order last', () => {
+      const images: ImageMetadata[] = [
+        { filePath: '/test/a.jpg' },
+        { filePath: '/test/b.jpg' },
+        { filePath: '/test/c.jpg' },
+      ];
+      const result = distributePictures(images, mockBorderAreas, 10, 'itinerary', [
+        { imageIndex: 1, x: 500, y: 400, order: 1 },
+        { imageIndex: 2, x: 500, y: 400, order: 0 },
+      ]);
+
+      expect(result.map((p) => p.imageIndex)).toEqual([2, 1, 0]);
+    });
+  });
+
+  describe('distributePictures with justified slots', () => {
+    it('should size slots to the aspect ratios of the pictures and fill the edge', () => {
+      const areas = {
+        top: { x: 100, y: 0, width: 330, height: 100 },
+        right: { x: 900, y: 100, width: 100, height: 600 },
+        bottom: { x: 100, y: 700, width: 800, height: 100 },
+        left: { x: 0, y: 100, width: 100, height: 600 },
+      };
+      const images: ImageMetadata[] = [
+        { filePath: '/test/pano.jpg', dimensions: { width: 3000, height: 1000 } },
+        { filePath: '/test/square.jpg', dimensions: { width: 1000, height: 1000 } },
+        {
+          filePath: '/test/portrait.jpg',
+          borderPosition: 'right',
+          dimensions: { width: 800, height: 1600 },
+        },
+      ];
+      const result = distributePictures(images, areas, 10, 'even', [], 'justified');
+
+      // 300 pixels of the top edge are shared 3:1 at a depth of 75
+      const [pano, square, portrait] = result;
+      expect(pano.rect).toEqual({ x: 110, y: 12.5, width: 225, height: 75 });
+      expect(square.rect).toEqual({ x: 345, y: 12.5, width: 75, height: 75 });
+      // A lone picture on a long edge keeps its shape at the depth of the border,
+      // centered along the edge
+      expect(portrait.rect).toMatchObject({ x: 910, width: 80, height: 160 });
+      expect(portrait.rect.width / portrait.rect.height).toBeCloseTo(800 / 1600);
+      expect(portrait.rect.y).toBeCloseTo(100 + (600 - 160) / 2);
+    });
+
+    it('should keep the aspect ratios of pictures on an edge they do not fill', () => {
+      const images: ImageMetadata[] = [
+        { filePath: '/test/wide.jpg', dimensions: { width: 1600, height: 900 } },
+        { filePath: '/test/tall.jpg', dimensions: { width: 1000, height: 1500 } },
+      ];
+      const result = distributePictures(
+        images,
+        { ...mockBorderAreas, top: { x: 100, y: 0, width: 800, height: 100 } },
+        10,
+        'even',
+        [],
+        'justified'
+      );
+      const [wide, tall] = result;
+
+      expect(wide.rect.width / wide.rect.height).toBeCloseTo(16 / 9);
+      expect(tall.rect.width / tall.rect.height).toBeCloseTo(2 / 3);
+      expect(wide.rect.height).toBe(80);
+      // The length left over is shared evenly between the gaps
+      const gap = wide.rect.x - 100;
+      expect(tall.rect.x - (wide.rect.x + wide.rect.width)).toBeCloseTo(gap);
+      expect(900 - (tall.rect.x + tall.rect.width)).toBeCloseTo(gap);
+    });
+
+    it('should treat pictures without dimensions as square', () => {
+      const images: ImageMetadata[] = [{ filePath: '/test/a.jpg' }, { filePath: '/test/b.jpg' }];
+      const result = distributePictures(
+        images,
+        {
+          ...mockBorderAreas,
+          top: { x: 100, y: 0, width: 190, height: 100 },
+        },
+        10,
+        'even',
+        [],
+        'justified'
+      );
+
+      expect(result.map((p) => p.rect)).toEqual([
+        { x: 110, y: 10, width: 80, height: 80 },
+        { x: 200, y: 10, width: 80, height: 80 },
+      ]);
+    });
+
+    it('should keep the aspect ratios of pictures swapped to uncross link lines', () => {
+      const images: ImageMetadata[] = [
+        { filePath: '/test/wide.jpg', dimensions: { width: 2000, height: 1000 } },
+        { filePath: '/test/square.jpg', dimensions: { width: 1000, height: 1000 } },
+      ];
+      const result = distributePictures(
+        images,
+        mockBorderAreas,
+        10,
+        'optimized',
+        [
+          { imageIndex: 0, x: 800, y: 150 },
+          { imageIndex: 1, x: 200, y: 150 },
+        ],
+        'justified'
+      );
+
+      for (const picture of result) {
+        const ratio = picture.imageIndex === 0 ? 2 : 1;
+        expect(picture.rect.width / picture.rect.height).toBeCloseTo(ratio);
+      }
+      const top = result.filter((p) => p.borderPosition === 'top');
+      expect(top.map((p) => p.imageIndex)).toEqual([1, 0]);
+    });
+  });
+
+  describe('distributePictures with corner slots and rows', () => {
+    const areas = {
+      top: { x: 0, y: 0, width: 1000, height: 100 },
+      right: { x: 900, y: 100, width: 100, height: 600 },
+      bottom: { x: 0, y: 700, width: 1000, height: 100 },
+      left: { x: 0, y: 100, width: 100, height: 600 },
+    };
+    const singleRows = { top: 1, right: 1, bottom: 1, left: 1 };
+
+    it('should fill the corner cells of a row first', () => {
+      const images: ImageMetadata[] = Array.from({ length: 3 }, (_, i) => ({
+        filePath: `/test/image${i}.jpg`,
+        borderPosition: 'top' as const,
+      }));
+      const result = distributePictures(images, areas, 10, 'even', [], 'square', {
+        rows: singleRows,
+        corners: true,
+      });
+
+      expect(result.map((p) => [p.rect, p.corner])).toEqual([
+        [{ x: 10, y: 10, width: 80, height: 80 }, 'top-left'],
+        // Next to the corner cells, the lane picture keeps their size
+        [{ x: 460, y: 10, width: 80, height: 80 }, undefined],
+        [{ x: 910, y: 10, width: 80, height: 80 }, 'top-right'],
+      ]);
+    });
+
+    it('should link corner pictures from their corner nearest the map', () => {
+      const images: ImageMetadata[] = [{ filePath: '/test/a.jpg', borderPosition: 'bottom' }];
+      const pictures = distributePictures(images, areas, 10, 'even', [], 'square', {
+        rows: singleRows,
+        corners: true,
+      });
+      const [line] = calculateLinkLines(pictures, [{ imageIndex: 0, x: 400, y: 300 }], {
+        x: 100,
+        y: 100,
+        width: 800,
+        height: 600,
+      });
+
+      expect(pictures[0].corner).toBe('bottom-left');
+      expect(line.start).toEqual({ x: 90, y: 710 });
+    });
+
+    it('should never hold fewer pictures with corner slots than without', () => {
+      const config: CompositorConfig = {
+        pageSize: 'A4',
+        orientation: 'landscape',
+        borderWidth: 40,
+        pictureSpacing: 5,
+        margin: { top: 10, right: 10, bottom: 10, left: 10 },
+        dpi: 96,
+      };
+      const compose = (count: number, overrides: Partial<CompositorConfig>) =>
+        createCompositionLayout(
+          { ...config, ...overrides },
+          {
+            map: {
+              svg: '',
+              width: 0,
+              height: 0,
+              bounds: { north: 0, south: 0, east: 0, west: 0 },
+              view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+            },
+            images: Array.from({ length: count }, (_, i) => ({ filePath: `/test/${i}.jpg` })),
+            links: [],
+          }
+        ).pictures.length;
+
+      for (const borderRows of [undefined, { top: 2, left: 2 }]) {
+        for (let count = 1; count <= 80; count++) {
+          expect(compose(count, { borderRows, cornerSlots: true })).toBeGreaterThanOrEqual(
+            compose(count, { borderRows, cornerSlots: false })
+          );
+        }
+      }
+      // Pictures small enough to stack in the corners add places
+      expect(compose(200, { cornerSlots: true })).toBeGreaterThan(
+        compose(200, { cornerSlots: false })
+      );
+    });
+
+    it('should size corner cells like the pictures next to them', () => {
+      const images: ImageMetadata[] = Array.from({ length: 60 }, (_, i) => ({
+        filePath: `/test/image${i}.jpg`,
+      }));
+      const result = distributePictures(images, areas, 10, 'even', [], 'square', {
+        rows: singleRows,
+        corners: true,
+      });
+      const top = result.filter((p) => p.borderPosition === 'top');
+
+      expect(top.some((p) => p.corner)).toBe(true);
+      expect(new Set(top.map((p) => p.rect.width)).size).toBe(1);
+      expect(new Set(top.map((p) => p.rect.y)).size).toBe(1);
+    });
+
+    it('should stack small pictures in the corners', () => {
+      const images: ImageMetadata[] = Array.from({ length: 2 }, (_, i) => ({
+        filePath: `/test/image${i}.jpg`,
+        borderPosition: 'top' as const,
+      }));
+      const result = distributePictures(
+        images,
+        { ...areas, top: { ...areas.top, height: 200 }, bottom: { ...areas.bottom, height: 200 } },
+        10,
+        'even',
+        [],
+        'square',
+        { rows: singleRows, corners: true }
+      );
+
+      // Each corner is one picture wide and two deep
+      expect(result.map((p) => [p.rect, p.corner])).toEqual([
+        [{ x: 10, y: 10, width: 80, height: 80 }, 'top-left'],
+        [{ x: 10, y: 100, width: 80, height: 80 }, 'top-left'],
+      ]);
+    });
+
+    it('should fill the outer row of an edge before the inner rows', () => {
+      const deepTop = {
+        ...areas,
+        top: { x: 0, y: 0, width: 1000, height: 200 },
+        right: { x: 900, y: 200, width: 100, height: 500 },
+        left: { x: 0, y: 200, width: 100, height: 500 },
+      };
+      const images: ImageMetadata[] = Array.from({ length: 12 }, (_, i) => ({
+        filePath: `/test/image${i}.jpg`,
+        borderPosition: 'top' as const,
+      }));
+      const result = distributePictures(images, deepTop, 10, 'even', [], 'square', {
+        rows: { ...singleRows, top: 2 },
+        corners: false,
+      });
+
+      expect(result).toHaveLength(12);
+      expect(result.slice(0, 11).every((p) => p.rect.y === 10)).toBe(true);
+      expect(result[11].rect).toEqual({ x: 10, y: 110, width: 980, height: 80 });
+    });
+  });
+
+  describe('distributePictures with featured pictures', () => {
+    const areas = {
+      top: { x: 0, y: 0, width: 1000, height: 100 },
+      right: { x: 900, y: 100, width: 100, height: 600 },
+      bottom: { x: 0, y: 700, width: 1000, height: 100 },
+      left: { x: 0, y: 100, width: 100, height: 600 },
+    };
+    const onTop = (span?: ImageMetadata['span']): ImageMetadata => ({
+      filePath: '/test/image.jpg',
+      borderPosition: 'top',
+      span,
+    });
+
+    it('should make a 2x1 picture two slots long', () => {
+      const result = distributePictures([onTop(), onTop('2x1'), onTop()], areas, 10);
+
+      expect(result.map((p) => p.rect)).toEqual([
+        { x: 10, y: 10, width: 237.5, height: 80 },
+        { x: 257.5, y: 10, width: 485, height: 80 },
+        { x: 752.5, y: 10, width: 237.5, height: 80 },
+      ]);
+    });
+
+    it('should pack standard pictures around a 2x2 picture in both rows', () => {
+      const deepTop = {
+        ...areas,
+        top: { x: 0, y: 0, width: 1000, height: 200 },
+        right: { x: 900, y: 200, width: 100, height: 500 },
+        left: { x: 0, y: 200, width: 100, height: 500 },
+      };
+      const images = [onTop('2x2'), ...Array.from({ length: 18 }, () => onTop())];
+      const result = distributePictures(images, deepTop, 10, 'even', [], 'square', {
+        rows: { top: 2, right: 1, bottom: 1, left: 1 },
+        corners: false,
+      });
+
+      expect(result.every((p) => p.borderPosition === 'top')).toBe(true);
+      expect(result[0].rect).toEqual({ x: 10, y: 10, width: 170, height: 170 });
+      // Nine pictures beside it in each row
+      expect(result.slice(1, 10).map((p) => p.rect.x)).toEqual(
+        [2, 3, 4, 5, 6, 7, 8, 9, 10].map((column) => 10 + column * 90)
+      );
+      // The second row lines up with the lower half of the 2x2 picture
+      expect(result[10].rect).toEqual({ x: 190, y: 100, width: 80, height: 80 });
+    });
+
+    it('should keep the proportions of spans when the cells shrink', () => {
+      const deepTop = {
+        ...areas,
+        top: { x: 0, y: 0, width: 1000, height: 200 },
+        right: { x: 900, y: 200, width: 100, height: 500 },
+        left: { x: 0, y: 200, width: 100, height: 500 },
+      };
+      const images = [onTop('2x2'), onTop('2x1'), ...Array.from({ length: 80 }, () => onTop())];
+      const result = distributePictures(images, deepTop, 10, 'even', [], 'square', {
+        rows: { top: 2, right: 1, bottom: 1, left: 1 },
+        corners: false,
+      });
+      const byIndex = (index: number) => result.find((p) => p.imageIndex === index)!.rect;
+      const large = byIndex(0);
+      const wide = byIndex(1);
+      const cell = byIndex(2);
+      const lower = result.find((p) => p.imageIndex > 1 && p.rect.y > large.y)!.rect;
+
+      // Shrunk below the depth of a row
+      expect(cell.height).toBeLessThan(80);
+      expect(large.width).toBeCloseTo(2 * cell.width + 10);
+      expect(large.height).toBeCloseTo(2 * cell.height + 10);
+      expect(wide).toMatchObject({ width: large.width, height: cell.height });
+      // The second row lines up with the lower half of the 2x2 picture
+      expect(lower.y + lower.height).toBeCloseTo(large.y + large.height);
+    });
+
+    it('should reserve the slots of featured pictures before the standard pictures', () => {
+      const images: ImageMetadata[] = [
+        ...Array.from({ length: 10 }, (_, i) => ({ filePath: `/test/image${i}.jpg` })),
+        { filePath: '/test/featured.jpg', span: '2x1' },
+      ];
+      const result = distributePictures(images, areas, 10);
+      const top = result.filter((p) => p.borderPosition === 'top');
+
+      // The top edge holds eleven slots: two for the featured picture and nine more
+      expect(top).toHaveLength(10);
+      expect(top.some((p) => p.imageIndex === 10)).toBe(true);
+      expect(result.find((p) => p.imageIndex === 9)?.borderPosition).toBe('right');
+    });
+
+    it('should keep the shape of featured pictures moved to untangle link lines', () => {
+      const images: ImageMetadata[] = [
+        { filePath: '/test/a.jpg', span: '2x1' },
+        { filePath: '/test/b.jpg' },
+        { filePath: '/test/c.jpg' },
+        { filePath: '/test/d.jpg' },
+      ];
+      const markers = [
+        { imageIndex: 0, x: 800, y: 150 },
+        { imageIndex: 1, x: 200, y: 150 },
+        { imageIndex: 2, x: 500, y: 650 },
+        { imageIndex: 3, x: 150, y: 400 },
+      ];
+      const result = distributePictures(images, areas, 10, 'optimized', markers);
+      const featured = result.find((p) => p.imageIndex === 0)!;
+      const isHorizontal =
+        featured.borderPosition === 'top' || featured.borderPosition === 'bottom';
+      const length = isHorizontal ? featured.rect.width : featured.rect.height;
+      const depth = isHorizontal ? featured.rect.height : featured.rect.width;
+
+      expect(result).toHaveLength(4);
+      expect(length).toBeGreaterThan(2 * depth);
+    });
   });
 
   describe('calculateLinkLines', () => {
@@ -189,6 +669,61 @@ describe('Layout Engine', () => {
     });
   });
 
+  describe('resolveBorderRows', () => {
+    const config: CompositorConfig = {
+      pageSize: 'A4',
+      orientation: 'landscape',
+      borderWidth: 30,
+      pictureSpacing: 3,
+      margin: { top: 10, right: 10, bottom: 10, left: 10 },
+      dpi: 72,
+    };
+
+    it('should keep the configured rows when the pictures fit', () => {
+      expect(resolveBorderRows({ ...config, minMapSize: 50, borderRows: { left: 2 } }, 5)).toEqual({
+        top: 1,
+        right: 1,
+        bottom: 1,
+        left: 2,
+      });
+    });
+
+    it('should keep the configured rows without a minimum map size', () => {
+      expect(resolveBorderRows(config, 200)).toEqual({ top: 1, right: 1, bottom: 1, left: 1 });
+    });
+
+    it('should add rows inward, clockwise from the top, while the map is large enough', () => {
+      expect(resolveBorderRows({ ...config, minMapSize: 100 }, 30)).toEqual({
+        top: 2,
+        right: 1,
+        bottom: 1,
+        left: 1,
+      });
+
+      const rows = resolveBorderRows({ ...config, minMapSize: 100 }, 200);
+      const layout = createCompositionLayout(
+        { ...config, minMapSize: 100 },
+        {
+          map: {
+            svg: '<svg></svg>',
+            width: 400,
+            height: 300,
+            bounds: { north: 52, south: 51, east: 0, west: -1 },
+            view: { center: { latitude: 51.5, longitude: -0.5 }, zoom: 10 },
+          },
+          images: Array.from({ length: 200 }, (_, i) => ({ filePath: `/test/image${i}.jpg` })),
+          links: [],
+        }
+      );
+
+      // 100mm is 283 pixels at 72 DPI
+      expect(layout.mapArea.width).toBeGreaterThanOrEqual(283);
+      expect(layout.mapArea.height).toBeGreaterThanOrEqual(283);
+      expect(layout.borderAreas.top.height).toBe(85 * rows.top);
+      expect(rows.top + rows.bottom).toBeGreaterThan(2);
+    });
+  });
+
   describe('createCompositionLayout', () => {
     it('should create a complete composition layout', () => {
       const config: CompositorConfig = {
@@ -206,6 +741,7 @@ describe('Layout Engine', () => {
           width: 400,
           height: 300,
           bounds: { north: 52, south: 51, east: 0, west: -1 },
+          view: { center: { latitude: 51.5, longitude: -0.5 }, zoom: 10 },
         },
         images: [{ filePath: '/test/image1.jpg' }, { filePath: '/test/image2.jpg' }],
         links: [
@@ -228,6 +764,156 @@ describe('Layout Engine', () => {
       const pictureWithLabelA = layout.pictures.find((p) => p.label === 'A');
       expect(pictureWithLabelA).toBeDefined();
     });
+    it('should lay out link lines without crossings with the optimized strategy', () => {
+      const config: CompositorConfig = {
+        pageSize: 'A4',
+        orientation: 'landscape',
+        borderWidth: 30,
+        pictureSpacing: 3,
+        margin: { top: 10, right: 10, bottom: 10, left: 10 },
+        dpi: 72,
+        distribution: 'optimized',
+      };
+      // Markers scattered over the map by a fixed pseudo-random sequence
+      let seed = 7;
+      const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+      };
+      const count = 24;
+      const input: CompositionInput = {
+        map: {
+          svg: '',
+          width: 0,
+          height: 0,
+          bounds: { north: 0, south: 0, east: 0, west: 0 },
+          view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+        },
+        images: Array.from({ length: count }, (_, i) => ({ filePath: `/test/${i}.jpg` })),
+        links: Array.from({ length: count }, (_, imageIndex) => ({
+          imageIndex,
+          markerPosition: { x: random() * 600, y: random() * 350 },
+        })),
+      };
+
+      const layout = createCompositionLayout(config, input);
+
+      expect(layout.links).toHaveLength(count);
+      const side = (p: Point, q: Point, r: Point) =>
+        Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+      for (let i = 0; i < layout.links.length; i++) {
+        for (let j = i + 1; j < layout.links.length; j++) {
+          const a = layout.links[i];
+          const b = layout.links[j];
+          const crosses =
+            side(a.start, a.end, b.start) * side(a.start, a.end, b.end) < 0 &&
+            side(b.start, b.end, a.start) * side(b.start, b.end, a.end) < 0;
+          expect(crosses).toBe(false);
+        }
+      }
+    });
+
+    describe('with featured pictures', () => {
+      const config: CompositorConfig = {
+        pageSize: 'A4',
+        orientation: 'landscape',
+        borderWidth: 40,
+        pictureSpacing: 5,
+        margin: { top: 10, right: 10, bottom: 10, left: 10 },
+        dpi: 96,
+      };
+      const compose = (
+        images: ImageMetadata[],
+        overrides: Partial<CompositorConfig> = {}
+      ): ReturnType<typeof createCompositionLayout> =>
+        createCompositionLayout(
+          { ...config, ...overrides },
+          {
+            map: {
+              svg: '',
+              width: 0,
+              height: 0,
+              bounds: { north: 0, south: 0, east: 0, west: 0 },
+              view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+            },
+            images,
+            links: images.map((_, imageIndex) => ({
+              imageIndex,
+              markerPosition: { x: (imageIndex * 37) % 300, y: (imageIndex * 53) % 200 },
+              order: (imageIndex * 7) % images.length,
+            })),
+          }
+        );
+
+      it('should leave out a featured picture without room, like a standard picture', () => {
+        // More pictures than the border holds, the last one featured
+        const images: ImageMetadata[] = Array.from({ length: 24 }, (_, i) => ({
+          filePath: `/test/${i}.jpg`,
+          ...(i === 23 && { span: '2x2' as const }),
+        }));
+
+        const optimized = compose(images, { distribution: 'optimized' });
+        const even = compose(images);
+
+        expect(optimized.pictures.length).toBe(even.pictures.length);
+        expect(optimized.pictures.length).toBeLessThan(24);
+      });
+
+      it('should pack standard pictures around featured ones without overlaps', () => {
+        const images: ImageMetadata[] = Array.from({ length: 61 }, (_, i) => ({
+          filePath: `/test/${i}.jpg`,
+          ...(i % 7 === 6 && { span: i % 2 ? ('2x2' as const) : ('2x1' as const) }),
+        }));
+
+        for (const distribution of ['even', 'optimized', 'itinerary'] as const) {
+          for (const cornerSlots of [false, true]) {
+            const { pictures } = compose(images, {
+              distribution,
+              cornerSlots,
+              borderRows: { top: 2, bottom: 2 },
+            });
+            const overlaps = (a: Rectangle, b: Rectangle) =>
+              a.x < b.x + b.width - 0.01 &&
+              b.x < a.x + a.width - 0.01 &&
+              a.y < b.y + b.height - 0.01 &&
+              b.y < a.y + a.height - 0.01;
+
+            expect(pictures.some((p) => p.image.span)).toBe(true);
+            for (const [i, a] of pictures.entries()) {
+              expect(a.rect.width).toBeGreaterThan(0);
+              expect(a.rect.height).toBeGreaterThan(0);
+              for (const b of pictures.slice(i + 1)) {
+                expect(overlaps(a.rect, b.rect)).toBe(false);
+              }
+            }
+          }
+        }
+      });
+    });
+  });
+
+  describe('solveAssignment', () => {
+    it('should assign each row the column that minimizes the total cost', () => {
+      expect(
+        solveAssignment([
+          [4, 1, 4],
+          [2, 0, 5],
+        ])
+      ).toEqual([1, 0]);
+    });
+
+    it('should leave rows without a column when there are more rows than columns', () => {
+      const assignment = solveAssignment([
+        [1, 9],
+        [9, 1],
+        [5, 5],
+      ]);
+      expect(assignment).toEqual([0, 1, -1]);
+    });
+
+    it('should leave every row without a column when there are no columns', () => {
+      expect(solveAssignment([[], []])).toEqual([-1, -1]);
+    });
   });
 
   describe('getRectCenter', () => {
@@ -2,7 +2,7 @@
  * Layout engine for positioning pictures in the border
  */
 
-import { ImageMetadata } from '../types';
+import { ImageMetadata, LinkLineStyle, BorderCorner } from '../types';
 import {
   Rectangle,
   BorderPosition,
@@ -12,12 +12,43 @@ import {
   CompositionLayout,
   CompositionInput,
 } from './types';
-import { calculateLayoutAreas, mmToPixels, DEFAULT_DPI } from './page-sizes';
+import { calculateLayoutAreas, getBorderRows, mmToPixels, DEFAULT_DPI } from './page-sizes';
+import { getSpanSize, isFeatured, packSpans, SpanSize } from '../picture-span';
 
 /**
  * Distribution strategy for pictures
+ *
+ * 'optimized' assigns pictures to the border slots nearest their linked
+ * markers, minimizing the total link line length, which also keeps the link
+ * lines from crossing. 'itinerary' places pictures clockwise around the
+ * border, from the top-left corner, in the order their places were visited.
  */
-export type DistributionStrategy = 'even' | 'proportional' | 'fixed';
+export type DistributionStrategy = 'even' | 'proportional' | 'fixed' | 'optimized' | 'itinerary';
+
+/**
+ * How border slots are sized
+ *
+ * 'square' gives every picture on an edge the same slot. 'justified' sizes
+ * the slots of an edge to the aspect ratios of their pictures, like a
+ * justified gallery row: slots share one depth across the border and their
+ * lengths add up to the length of the edge, unless that would make them
+ * deeper than the border.
+ */
+export type SlotSizing = 'square' | 'justified';
+
+/**
+ * Position of the map marker a picture is linked to, in page pixels
+ */
+export interface PictureMarker {
+  /** Index of the linked image */
+  imageIndex: number;
+  /** X position on the page */
+  x: number;
+  /** Y position on the page */
+  y: number;
+  /** Position of the link in the itinerary, used by the 'itinerary' strategy */
+  order?: number;
+}
 
 /**
  * Configuration for picture distribution
@@ -29,6 +60,51 @@ export interface DistributionConfig {
   fixedSize?: number;
 }
 
+/**
+ * Arrangement of the slots in the border
+ */
+export interface BorderGrid {
+  /** Rows of pictures along each edge (columns, on the left and right), from the outside in */
+  rows: Record<BorderPosition, number>;
+  /** Whether the corners hold pictures, in cells at the ends of the top and bottom rows */
+  corners: boolean;
+}
+
+/**
+ * A place for a picture in the border
+ */
+interface BorderSlot {
+  /** Rectangle of the picture */
+  rect: Rectangle;
+  /** Corner the slot is in, for corner cells */
+  corner?: BorderCorner;
+}
+
+/**
+ * One row of an edge: corner cells at its ends and the stretch between them
+ */
+interface EdgeRow {
+  /** Stretch of the row between its corner cells, laid out like a whole edge */
+  lane: Rectangle;
+  /** Corner cells at the left end of the row, those in line with the lane first, each from the left */
+  before: BorderSlot[];
+  /** Corner cells at the right end of the row, those in line with the lane last, each from the left */
+  after: BorderSlot[];
+}
+
+/**
+ * Border edges in the order they are filled, clockwise from the top
+ */
+const BORDER_POSITIONS: BorderPosition[] = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * A single row along each edge, with no corner slots
+ */
+const SINGLE_ROW_GRID: BorderGrid = {
+  rows: { top: 1, right: 1, bottom: 1, left: 1 },
+  corners: false,
+};
+
 /**
  * Calculates how many pictures fit in a border area
  * @param borderLength - Length of the border (width for horizontal, height for vertical)
@@ -64,11 +140,677 @@ function calculateOptimalPictureSize(
   return Math.max(0, availableForPictures / targetCount);
 }
 
+/**
+ * Gets the width-to-height ratio of an image, or 1 if its size is unknown
+ */
+function getAspectRatio(image: ImageMetadata): number {
+  const { width, height } = image.dimensions ?? { width: 0, height: 0 };
+  return width > 0 && height > 0 ? width / height : 1;
+}
+
+/**
+ * Lays out pictures along one edge of the border, evenly spaced
+ *
+ * With aspect ratios, the slots are justified: each slot has its picture's
+ * aspect ratio, at a depth common to the edge. The depth is the one at which
+ * the slots fill the edge from end to end, up to the depth of the border;
+ * shallower rows are centered across the border, and slots that do not fill
+ * the edge at the depth of the border are spread evenly along it.
+ * @param position - Border edge
+ * @param border - Border area of the edge
+ * @param count - Number of pictures on the edge
+ * @param spacing - Spacing between pictures in pixels
+ * @param aspectRatios - Width-to-height ratios of the pictures, for justified slots
+ * @param size - Size of square slots, such as that of the corner cells next to
+ *   them, with the length left over spread evenly between them
+ * @returns Picture rectangles, from the left or top end of the edge
+ */
+function layoutEdge(
+  position: BorderPosition,
+  border: Rectangle,
+  count: number,
+  spacing: number,
+  aspectRatios?: number[],
+  size?: number
+): Rectangle[] {
+  const isHorizontal = position === 'top' || position === 'bottom';
+  const borderLength = isHorizontal ? border.width : border.height;
+
+  if (aspectRatios && count > 0) {
+    // Length of each picture along the edge per unit of depth
+    const weights = aspectRatios.map((ratio) => (isHorizontal ? ratio : 1 / ratio));
+    const available = Math.max(0, borderLength - (count + 1) * spacing);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const scale = available / totalWeight;
+    const borderDepth = (isHorizontal ? border.height : border.width) - 2 * spacing;
+    const depth = Math.max(0, Math.min(scale, borderDepth));
+    const inset = spacing + (borderDepth - depth) / 2;
+    // Length left over at the depth of the border widens the gaps
+    const gap = (borderLength - depth * totalWeight) / (count + 1);
+
+    const rects: Rectangle[] = [];
+    let offset = gap;
+    for (const weight of weights) {
+      const length = weight * depth;
+      rects.push(
+        isHorizontal
+          ? { x: border.x + offset, y: border.y + inset, width: length, height: depth }
+          : { x: border.x + inset, y: border.y + offset, width: depth, height: length }
+      );
+      offset += length + gap;
+    }
+    return rects;
+  }
+
+  const actualSize = Math.min(
+    calculateOptimalPictureSize(borderLength, spacing, count),
+    size ?? Infinity
+  );
+  const gap = size === undefined ? spacing : (borderLength - count * actualSize) / (count + 1);
+
+  const rects: Rectangle[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = gap + i * (actualSize + gap);
+    if (isHorizontal) {
+      rects.push({
+        x: border.x + offset,
+        y: border.y + spacing,
+        width: actualSize,
+        height: Math.min(actualSize, border.height - 2 * spacing),
+      });
+    } else {
+      rects.push({
+        x: border.x + spacing,
+        y: border.y + offset,
+        width: Math.min(actualSize, border.width - 2 * spacing),
+        height: actualSize,
+      });
+    }
+  }
+  return rects;
+}
+
+/**
+ * Splits the border area of an edge into rows, from the outside in
+ *
+ * With corner slots, the top and bottom rows end in corner cells: a grid of
+ * as many pictures of a size as fit across the left and right edges, and as
+ * fit across the row, packed from the ends of the row, the first layer in
+ * line with the pictures of the lane. Their lanes run between the corner cells, so that a row holds at
+ * least as many pictures with corner slots as without, and more once the
+ * pictures are small enough to stack in the corners.
+ * @param position - Border edge
+ * @param borderAreas - Border area rectangles
+ * @param grid - Rows per edge and whether the corners hold pictures
+ * @param spacing - Spacing between pictures in pixels
+ * @param pictureSize - Size of the pictures in the corner cells
+ * @returns Rows of the edge
+ */
+function getEdgeRows(
+  position: BorderPosition,
+  borderAreas: Record<BorderPosition, Rectangle>,
+  grid: BorderGrid,
+  spacing: number,
+  pictureSize: number
+): EdgeRow[] {
+  const area = borderAreas[position];
+  const count = grid.rows[position];
+  const rows: EdgeRow[] = [];
+
+  if (position === 'left' || position === 'right') {
+    const width = area.width / count;
+    for (let row = 0; row < count; row++) {
+      const x =
+        position === 'left' ? area.x + row * width : area.x + area.width - (row + 1) * width;
+      rows.push({ lane: { x, y: area.y, width, height: area.height }, before: [], after: [] });
+    }
+    return rows;
+  }
+
+  const depth = area.height / count;
+  const step = pictureSize + spacing;
+  const cellCount = (side: 'left' | 'right') =>
+    grid.corners ? calculatePictureCount(borderAreas[side].width, spacing, pictureSize) : 0;
+  const stacked = Math.max(1, calculatePictureCount(depth, spacing, pictureSize));
+  const cells = (side: 'left' | 'right', y: number): BorderSlot[] => {
+    const cellTotal = cellCount(side);
+    const start = side === 'left' ? area.x : area.x + area.width - cellTotal * step - spacing;
+    // Cells in line with the lane first on the left, last on the right
+    const layers = Array.from({ length: cellTotal > 0 ? stacked : 0 }, (_, layer) => layer);
+    if (side === 'right') layers.reverse();
+    return layers.flatMap((layer) =>
+      Array.from({ length: cellTotal }, (_, column) => ({
+        rect: {
+          x: start + spacing + column * step,
+          y: y + spacing + layer * step,
+          width: pictureSize,
+          height: Math.max(0, Math.min(pictureSize, depth - 2 * spacing)),
+        },
+        corner: `${position}-${side}` as BorderCorner,
+      }))
+    );
+  };
+
+  for (let row = 0; row < count; row++) {
+    const y = position === 'top' ? area.y + row * depth : area.y + area.height - (row + 1) * depth;
+    // The lane overlaps the corner cells by one spacing, so that the gap
+    // between a corner cell and the next picture is one spacing too
+    const left = cellCount('left') * step;
+    const right = cellCount('right') * step;
+    rows.push({
+      lane: { x: area.x + left, y, width: area.width - left - right, height: depth },
+      before: cells('left', y),
+      after: cells('right', y),
+    });
+  }
+  return rows;
+}
+
+/**
+ * Gets the size of square pictures a row deep
+ */
+function getPictureSize(
+  borderAreas: Record<BorderPosition, Rectangle>,
+  grid: BorderGrid,
+  spacing: number
+): number {
+  const depths = BORDER_POSITIONS.map(
+    (position) =>
+      (position === 'top' || position === 'bottom'
+        ? borderAreas[position].height
+        : borderAreas[position].width) / grid.rows[position]
+  );
+  return Math.max(Math.min(...depths) - 2 * spacing, spacing);
+}
+
+/**
+ * Calculates how many pictures a row holds: its corner cells, and as many
+ * pictures of a size as fit in its lane
+ */
+function getRowCapacity(
+  position: BorderPosition,
+  row: EdgeRow,
+  spacing: number,
+  pictureSize: number
+): number {
+  const laneLength = position === 'top' || position === 'bottom' ? row.lane.width : row.lane.height;
+  return (
+    row.before.length + row.after.length + calculatePictureCount(laneLength, spacing, pictureSize)
+  );
+}
+
+/**
+ * Lays out pictures in the rows of an edge
+ *
+ * The outer row is filled first. In each row, pictures take the corner cells
+ * first and share the lane between them (see `layoutEdge`).
+ * @param position - Border edge
+ * @param rows - Rows of the edge, from `getEdgeRows`
+ * @param count - Number of pictures on the edge
+ * @param spacing - Spacing between pictures in pixels
+ * @param pictureSize - Size of the pictures that sets how many each row holds
+ * @param aspectRatios - Width-to-height ratios of the pictures, for justified slots
+ * @param reverse - Whether each row is filled from its right or bottom end
+ * @returns Slots of the pictures, in the order they are filled
+ */
+function layoutEdgeRows(
+  position: BorderPosition,
+  rows: EdgeRow[],
+  count: number,
+  spacing: number,
+  pictureSize: number,
+  aspectRatios?: number[],
+  reverse = false
+): BorderSlot[] {
+  const slots: BorderSlot[] = [];
+  for (const row of rows) {
+    const take = Math.min(
+      count - slots.length,
+      getRowCapacity(position, row, spacing, pictureSize)
+    );
+    if (take <= 0) break;
+
+    const before = Math.min(take, row.before.length);
+    const after = Math.min(take - before, row.after.length);
+    const middle = take - before - after;
+    // Ratios in the order of the slots along the row
+    const ratios = aspectRatios?.slice(slots.length, slots.length + take);
+    if (reverse) ratios?.reverse();
+
+    const rowSlots = [
+      ...row.before.slice(0, before),
+      ...layoutEdge(
+        position,
+        row.lane,
+        middle,
+        spacing,
+        ratios?.slice(before, before + middle),
+        // Next to corner cells, lane pictures keep their size
+        row.before.length + row.after.length > 0 ? pictureSize : undefined
+      ).map((rect) => ({ rect })),
+      ...row.after.slice(row.after.length - after),
+    ];
+    slots.push(...(reverse ? rowSlots.reverse() : rowSlots));
+  }
+  return slots;
+}
+
+/**
+ * Lays out pictures in the rows of an edge with featured pictures
+ *
+ * Standard pictures take the corner cells first. The other pictures are
+ * packed into a grid over the lanes of the rows (see `packSpans`), in as few
+ * rows as hold them in columns of `pictureSize`, or in all rows with narrower
+ * columns. Each picture spans its columns along the edge and its rows across
+ * it, and is no deeper than it is long, like square slots.
+ * @param position - Border edge
+ * @param rows - Rows of the edge, from `getEdgeRows`
+ * @param spans - Sizes of the pictures on the edge, in grid cells
+ * @param spacing - Spacing between pictures in pixels
+ * @param pictureSize - Size of the pictures that sets how many columns the rows have
+ * @param reverse - Whether the grid is filled from its right or bottom end
+ * @returns Slots of the pictures, in the order of `spans`
+ */
+function layoutFeaturedEdge(
+  position: BorderPosition,
+  rows: EdgeRow[],
+  spans: SpanSize[],
+  spacing: number,
+  pictureSize: number,
+  reverse = false
+): BorderSlot[] {
+  const isHorizontal = position === 'top' || position === 'bottom';
+  const slots = new Array<BorderSlot>(spans.length);
+
+  // Cells in line with the lane first, from the end the grid is filled from
+  const cornerCells = rows.flatMap((row) => {
+    const after = [...row.after].reverse();
+    return reverse ? [...after, ...row.before] : [...row.before, ...after];
+  });
+  const inLanes: number[] = [];
+  spans.forEach((span, i) => {
+    const cell = span.along === 1 && span.across === 1 ? cornerCells.shift() : undefined;
+    if (cell) {
+      slots[i] = cell;
+    } else {
+      inLanes.push(i);
+    }
+  });
+  if (inLanes.length === 0) {
+    return slots;
+  }
+
+  const laneLength = isHorizontal ? rows[0].lane.width : rows[0].lane.height;
+  const columns = calculatePictureCount(laneLength, spacing, pictureSize);
+  const laneSpans = inLanes.map((i) => spans[i]);
+  let grid = packSpans(laneSpans, Math.max(...laneSpans.map((span) => span.across)), columns);
+  for (let count = grid.rows + 1; count <= rows.length && grid.columns > columns; count++) {
+    grid = packSpans(laneSpans, count, columns);
+  }
+
+  const cellSize = calculateOptimalPictureSize(laneLength, spacing, grid.columns);
+  // Cells shallower than a row are packed from the outer side of the edge,
+  // so that pictures spanning rows keep the proportions of their cells
+  const { lane: outerLane } = rows[0];
+  const rowDepth = isHorizontal ? outerLane.height : outerLane.width;
+  const cellDepth = Math.max(0, Math.min(cellSize, rowDepth - 2 * spacing));
+  const pitch = cellDepth + spacing;
+  const inward = position === 'top' || position === 'left';
+  const outer = {
+    top: outerLane.y,
+    right: outerLane.x + outerLane.width,
+    bottom: outerLane.y + outerLane.height,
+    left: outerLane.x,
+  }[position];
+  inLanes.forEach((i, k) => {
+    const { row, column, along, across } = grid.placements[k];
+    const start = reverse ? grid.columns - column - along : column;
+    const offset = spacing + start * (cellSize + spacing);
+    const length = along * cellSize + (along - 1) * spacing;
+    const depth = (across - 1) * pitch + cellDepth;
+    const near = inward ? outer + spacing + row * pitch : outer - spacing - row * pitch - depth;
+    const { lane } = rows[row];
+    slots[i] = {
+      rect: isHorizontal
+        ? { x: lane.x + offset, y: near, width: length, height: depth }
+        : { x: near, y: lane.y + offset, width: depth, height: length },
+    };
+  });
+  return slots;
+}
+
+/**
+ * Gets the point of a picture where its link line starts: the middle of the
+ * side facing the map, or for a picture in a corner, its corner nearest the map
+ * @param rect - Picture rectangle
+ * @param position - Border edge of the picture
+ * @param corner - Corner of the border the picture is in
+ * @returns Connection point
+ */
+function getConnectionPoint(
+  rect: Rectangle,
+  position: BorderPosition,
+  corner?: BorderCorner
+): { x: number; y: number } {
+  switch (corner) {
+    case 'top-left':
+      return { x: rect.x + rect.width, y: rect.y + rect.height };
+    case 'top-right':
+      return { x: rect.x, y: rect.y + rect.height };
+    case 'bottom-right':
+      return { x: rect.x, y: rect.y };
+    case 'bottom-left':
+      return { x: rect.x + rect.width, y: rect.y };
+  }
+  const { x: centerX, y: centerY } = getRectCenter(rect);
+  switch (position) {
+    case 'top':
+      return { x: centerX, y: rect.y + rect.height };
+    case 'bottom':
+      return { x: centerX, y: rect.y };
+    case 'left':
+      return { x: rect.x + rect.width, y: centerY };
+    case 'right':
+      return { x: rect.x, y: centerY };
+  }
+}
+
+/**
+ * Solves the assignment problem for a cost matrix (Hungarian algorithm)
+ *
+ * The algorithm needs no more rows than columns, so a matrix with more rows
+ * is padded with columns that cost nothing: the rows matched to them are the
+ * ones left without a column.
+ * @param costs - Cost of assigning each row to each column
+ * @returns Column assigned to each row, minimizing the total cost, or -1 for
+ * rows left without one
+ */
+export function solveAssignment(costs: number[][]): number[] {
+  const rows = costs.length;
+  if (rows === 0) return [];
+  if (rows > costs[0].length) {
+    const realColumns = costs[0].length;
+    const padded = costs.map((row) => [...row, ...new Array<number>(rows - realColumns).fill(0)]);
+    return solveAssignment(padded).map((column) => (column < realColumns ? column : -1));
+  }
+  const columns = costs[0].length;
+
+  // Potentials and matching use 1-based indices, with column 0 as a sentinel
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(columns + 1).fill(0);
+  const rowOfColumn = new Array<number>(columns + 1).fill(0);
+  const way = new Array<number>(columns + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    rowOfColumn[0] = row;
+    let column = 0;
+    const minSlack = new Array<number>(columns + 1).fill(Infinity);
+    const used = new Array<boolean>(columns + 1).fill(false);
+
+    do {
+      used[column] = true;
+      const current = rowOfColumn[column];
+      let delta = Infinity;
+      let next = 0;
+      for (let j = 1; j <= columns; j++) {
+        if (used[j]) continue;
+        const slack = costs[current - 1][j - 1] - u[current] - v[j];
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack;
+          way[j] = column;
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j];
+          next = j;
+        }
+      }
+      for (let j = 0; j <= columns; j++) {
+        if (used[j]) {
+          u[rowOfColumn[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minSlack[j] -= delta;
+        }
+      }
+      column = next;
+    } while (rowOfColumn[column] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const previous = way[column];
+      rowOfColumn[column] = rowOfColumn[previous];
+      column = previous;
+    } while (column !== 0);
+  }
+
+  const assignment = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= columns; j++) {
+    if (rowOfColumn[j] !== 0) {
+      assignment[rowOfColumn[j] - 1] = j - 1;
+    }
+  }
+  return assignment;
+}
+
+/**
+ * Checks whether two line segments cross
+ */
+function segmentsCross(
+  a1: { x: number; y: number },
+  a2: { x: number; y: number },
+  b1: { x: number; y: number },
+  b2: { x: number; y: number }
+): boolean {
+  const side = (
+    p: { x: number; y: number },
+    q: { x: number; y: number },
+    r: { x: number; y: number }
+  ) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+  return side(a1, a2, b1) * side(a1, a2, b2) < 0 && side(b1, b2, a1) * side(b1, b2, a2) < 0;
+}
+
+/**
+ * Assigns pictures to border slots near their linked markers
+ *
+ * Featured pictures go first, each to the edge with room for its span whose
+ * nearest slot is nearest its marker, and reserve the slots of their span.
+ * Every slot left is a candidate for the standard pictures, which are matched
+ * to slots by minimum total distance between slot and marker, which also
+ * leaves no two link lines crossing; pictures without a marker take the
+ * remaining slots. Pinned pictures only take slots on their own edge. The
+ * slots taken on each edge keep their order when the edge is laid out, with
+ * featured pictures before the standard picture in the slot nearest their
+ * marker.
+ * @returns Images assigned to each edge, in slot order
+ */
+function assignNearestSlots(
+  placed: number[],
+  pinned: Map<number, BorderPosition>,
+  capacities: Record<BorderPosition, number>,
+  cells: (imageIndex: number, position: BorderPosition) => number,
+  layoutSlots: (position: BorderPosition, count: number) => BorderSlot[],
+  markers: Map<number, { x: number; y: number }>
+): Record<BorderPosition, number[]> {
+  const connectionPoints = (position: BorderPosition, count: number) =>
+    layoutSlots(position, count).map(({ rect, corner }) =>
+      getConnectionPoint(rect, position, corner)
+    );
+  const distance = (point: { x: number; y: number }, imageIndex: number) => {
+    const marker = markers.get(imageIndex);
+    return marker ? Math.hypot(point.x - marker.x, point.y - marker.y) : 0;
+  };
+  const isFeaturedPicture = (imageIndex: number) =>
+    BORDER_POSITIONS.some((position) => cells(imageIndex, position) > 1);
+
+  // Room left on each edge, keeping a slot for each pinned standard picture
+  const room = { ...capacities };
+  const kept = { top: 0, right: 0, bottom: 0, left: 0 };
+  for (const imageIndex of placed) {
+    const pin = pinned.get(imageIndex);
+    if (pin && !isFeaturedPicture(imageIndex)) kept[pin]++;
+  }
+
+  const featured: Array<{ imageIndex: number; position: BorderPosition }> = [];
+  for (const imageIndex of placed.filter(isFeaturedPicture)) {
+    const pin = pinned.get(imageIndex);
+    const candidates = (pin ? [pin] : BORDER_POSITIONS).filter(
+      (position) => room[position] - cells(imageIndex, position) >= kept[position]
+    );
+    if (candidates.length === 0) continue;
+    const nearness = (position: BorderPosition) =>
+      Math.min(
+        ...connectionPoints(position, capacities[position]).map((point) =>
+          distance(point, imageIndex)
+        )
+      );
+    const position = candidates.reduce((best, candidate) =>
+      nearness(candidate) < nearness(best) ? candidate : best
+    );
+    room[position] -= cells(imageIndex, position);
+    featured.push({ imageIndex, position });
+  }
+
+  const standard = placed.filter((imageIndex) => !isFeaturedPicture(imageIndex));
+  const slots: Array<{ position: BorderPosition; point: { x: number; y: number } }> = [];
+  for (const position of BORDER_POSITIONS) {
+    for (const point of connectionPoints(position, room[position])) {
+      slots.push({ position, point });
+    }
+  }
+
+  const distances = standard.map((imageIndex) =>
+    slots.map((slot) => distance(slot.point, imageIndex))
+  );
+  // Slots on another edge are out of reach of pinned pictures: taking one
+  // costs more than any assignment without them
+  const forbidden = (Math.max(0, ...distances.flat()) + 1) * standard.length;
+  const costs = distances.map((row, i) => {
+    const pin = pinned.get(standard[i]);
+    return row.map((distance, j) => (pin && slots[j].position !== pin ? forbidden : distance));
+  });
+
+  const slotImages = new Array<number | undefined>(slots.length);
+  solveAssignment(costs).forEach((slot, row) => {
+    if (slot >= 0) {
+      slotImages[slot] = standard[row];
+    }
+  });
+
+  // Order the pictures of each edge by slot, featured pictures just before
+  // the slot nearest their marker
+  const ordered: Record<BorderPosition, Array<{ imageIndex: number; rank: number }>> = {
+    top: [],
+    right: [],
+    bottom: [],
+    left: [],
+  };
+  const firstSlot = (position: BorderPosition) =>
+    slots.findIndex((slot) => slot.position === position);
+  slots.forEach((slot, i) => {
+    const imageIndex = slotImages[i];
+    if (imageIndex !== undefined) {
+      ordered[slot.position].push({ imageIndex, rank: i });
+    }
+  });
+  for (const { imageIndex, position } of featured) {
+    const edgeSlots = slots.filter((slot) => slot.position === position);
+    const nearest = edgeSlots.reduce(
+      (best, slot, i) =>
+        distance(slot.point, imageIndex) < distance(edgeSlots[best].point, imageIndex) ? i : best,
+      0
+    );
+    ordered[position].push({
+      imageIndex,
+      rank: edgeSlots.length > 0 ? firstSlot(position) + nearest - 0.5 : 0,
+    });
+  }
+
+  const assigned: Record<BorderPosition, number[]> = { top: [], right: [], bottom: [], left: [] };
+  for (const position of BORDER_POSITIONS) {
+    assigned[position] = ordered[position]
+      .sort((a, b) => a.rank - b.rank)
+      .map(({ imageIndex }) => imageIndex);
+  }
+  return assigned;
+}
+
+/**
+ * Swaps the slots of pictures whose link lines cross
+ *
+ * Laying out the edges moves slots a little from where they were matched, so
+ * a few link lines may cross again. Swapping two crossing pictures always
+ * shortens their lines, so the repairs come to an end. Only pictures of the
+ * same span swap, so that every edge keeps room for its pictures.
+ */
+function uncrossLinkLines(
+  pictures: PositionedPicture[],
+  pinned: Map<number, BorderPosition>,
+  markers: Map<number, { x: number; y: number }>
+): void {
+  const linked = pictures.filter((picture) => markers.has(picture.imageIndex));
+  const canMove = (picture: PositionedPicture, to: BorderPosition) =>
+    (pinned.get(picture.imageIndex) ?? to) === to;
+  // Only pictures of one span swap, so that edges keep the room they hold
+  const sameSpan = (a: PositionedPicture, b: PositionedPicture) =>
+    (a.image.span ?? '1x1') === (b.image.span ?? '1x1');
+
+  let swapped = true;
+  for (let round = 0; swapped && round < linked.length * linked.length; round++) {
+    swapped = false;
+    for (let i = 0; i < linked.length && !swapped; i++) {
+      for (let j = i + 1; j < linked.length && !swapped; j++) {
+        const a = linked[i];
+        const b = linked[j];
+        if (!sameSpan(a, b) || !canMove(a, b.borderPosition) || !canMove(b, a.borderPosition)) {
+          continue;
+        }
+        if (
+          segmentsCross(
+            getConnectionPoint(a.rect, a.borderPosition, a.corner),
+            markers.get(a.imageIndex)!,
+            getConnectionPoint(b.rect, b.borderPosition, b.corner),
+            markers.get(b.imageIndex)!
+          )
+        ) {
+          [a.rect, b.rect] = [b.rect, a.rect];
+          [a.borderPosition, b.borderPosition] = [b.borderPosition, a.borderPosition];
+          [a.corner, b.corner] = [b.corner, a.corner];
+          swapped = true;
+        }
+      }
+    }
+  }
+}
+
 /**
  * Distributes pictures across border areas
+ *
+ * Pictures with a `borderPosition` are placed on that edge while it has room;
+ * with the 'even' strategy the others fill the remaining capacity in order,
+ * clockwise from the top edge, and along each edge pictures keep their order
+ * in the images array. With the 'optimized' strategy each picture takes the
+ * slot nearest its linked marker instead (see `DistributionStrategy`). With
+ * the 'itinerary' strategy the pictures fill the edges like 'even', but in
+ * itinerary order (pictures without a place in the itinerary last), running
+ * clockwise: right to left along the bottom edge and upwards on the left.
+ *
+ * How many pictures each edge holds follows from square slots the depth of
+ * a row, in each of its rows and corner cells (see `BorderGrid`); with
+ * 'justified' slot sizing the slots are then sized to the aspect ratios of
+ * the pictures on the edge (see `SlotSizing`). Featured pictures take the
+ * slots of their `span`, and edges with featured pictures are laid out as a
+ * grid of square slots, the standard pictures packed around the featured
+ * ones.
+ *
  * @param images - Array of image metadata
  * @param borderAreas - Border area rectangles
  * @param spacing - Spacing between pictures in pixels
+ * @param strategy - How pictures are assigned to slots (default: 'even')
+ * @param markers - Marker positions of linked pictures, used by the 'optimized' strategy,
+ * and their itinerary order, used by the 'itinerary' strategy
+ * @param slotSizing - How slots are sized (default: 'square')
+ * @param grid - Rows along each edge and whether the corners hold pictures
+ * (default: one row per edge and no corner slots)
  * @returns Array of positioned pictures
  */
 export function distributePictures(
@@ -79,109 +821,218 @@ export function distributePictures(
     bottom: Rectangle;
     left: Rectangle;
   },
-  spacing: number
+  spacing: number,
+  strategy: DistributionStrategy = 'even',
+  markers: PictureMarker[] = [],
+  slotSizing: SlotSizing = 'square',
+  grid: BorderGrid = SINGLE_ROW_GRID
 ): PositionedPicture[] {
   if (images.length === 0) {
     return [];
   }
 
-  const positions: BorderPosition[] = ['top', 'right', 'bottom', 'left'];
-  const borderLengths: Record<BorderPosition, number> = {
-    top: borderAreas.top.width,
-    right: borderAreas.right.height,
-    bottom: borderAreas.bottom.width,
-    left: borderAreas.left.height,
-  };
+  const positions = BORDER_POSITIONS;
 
-  // Calculate how many pictures each border can hold
-  // Use the shorter dimension of each border for picture size
-  const borderWidths: Record<BorderPosition, number> = {
-    top: borderAreas.top.height,
-    right: borderAreas.right.width,
-    bottom: borderAreas.bottom.height,
-    left: borderAreas.left.width,
-  };
-
-  // Calculate picture size based on border width (use square pictures)
-  const minBorderWidth = Math.min(...Object.values(borderWidths));
-  const pictureSize = Math.max(minBorderWidth - 2 * spacing, spacing);
+  // Calculate picture size based on the depth of a row (use square pictures)
+  const pictureSize = getPictureSize(borderAreas, grid, spacing);
 
   // Calculate capacity for each border
+  const edgeCapacity = (pos: BorderPosition, size: number) =>
+    getEdgeRows(pos, borderAreas, grid, spacing, size).reduce(
+      (sum, row) => sum + getRowCapacity(pos, row, spacing, size),
+      0
+    );
   const capacities: Record<BorderPosition, number> = {
-    top: calculatePictureCount(borderLengths.top, spacing, pictureSize),
-    right: calculatePictureCount(borderLengths.right, spacing, pictureSize),
-    bottom: calculatePictureCount(borderLengths.bottom, spacing, pictureSize),
-    left: calculatePictureCount(borderLengths.left, spacing, pictureSize),
+    top: edgeCapacity('top', pictureSize),
+    right: edgeCapacity('right', pictureSize),
+    bottom: edgeCapacity('bottom', pictureSize),
+    left: edgeCapacity('left', pictureSize),
   };
 
   const totalCapacity = Object.values(capacities).reduce((sum, cap) => sum + cap, 0);
 
+  // Featured pictures take the slots of their span, as deep as the edge allows
+  const cells = (imageIndex: number, pos: BorderPosition) => {
+    const { along, across } = getSpanSize(images[imageIndex].span, grid.rows[pos]);
+    return along * across;
+  };
+  const deepest = Math.max(...positions.map((pos) => grid.rows[pos]));
+  const slotsTaken = (image: ImageMetadata) => {
+    const { along, across } = getSpanSize(image.span, deepest);
+    return along * across;
+  };
+  const cellCount = images.reduce((sum, image) => sum + slotsTaken(image), 0);
+
   // If we have more images than capacity, we need to scale down
   let adjustedPictureSize = pictureSize;
-  if (images.length > totalCapacity && totalCapacity > 0) {
+  if (cellCount > totalCapacity && totalCapacity > 0) {
     // Calculate a smaller size to fit more pictures.
     // We use square root scaling because reducing picture size by a linear factor
     // increases capacity proportionally in both border dimensions (width and count),
     // but we want to minimize the size reduction while fitting all images.
     // sqrt(scaleFactor) provides a balanced reduction that approximately doubles
     // capacity when the scale factor is 0.5.
-    const scaleFactor = totalCapacity / images.length;
+    const scaleFactor = totalCapacity / cellCount;
     adjustedPictureSize = pictureSize * Math.sqrt(scaleFactor);
     // Recalculate capacities with the adjusted picture size
     for (const pos of positions) {
-      capacities[pos] = calculatePictureCount(borderLengths[pos], spacing, adjustedPictureSize);
+      capacities[pos] = edgeCapacity(pos, adjustedPictureSize);
     }
   }
 
-  // Distribute images across borders
-  const positionedPictures: PositionedPicture[] = [];
-  let imageIndex = 0;
+  const markerMap = new Map(markers.map((marker) => [marker.imageIndex, marker]));
 
-  for (const pos of positions) {
-    const border = borderAreas[pos];
-    const capacity = capacities[pos];
-    const imagesToPlace = Math.min(capacity, images.length - imageIndex);
-
-    if (imagesToPlace <= 0) continue;
-
-    // Calculate actual picture size for this border
-    const borderLength = borderLengths[pos];
-    const actualSize = calculateOptimalPictureSize(borderLength, spacing, imagesToPlace);
-
-    // Position pictures in this border
-    const isHorizontal = pos === 'top' || pos === 'bottom';
-
-    for (let i = 0; i < imagesToPlace; i++) {
-      const offset = spacing + i * (actualSize + spacing);
-
-      let rect: Rectangle;
-      if (isHorizontal) {
-        rect = {
-          x: border.x + offset,
-          y: border.y + spacing,
-          width: actualSize,
-          height: Math.min(actualSize, border.height - 2 * spacing),
-        };
-      } else {
-        rect = {
-          x: border.x + spacing,
-          y: border.y + offset,
-          width: Math.min(actualSize, border.width - 2 * spacing),
-          height: actualSize,
-        };
+  // Pictures in the order they fill the border: by image, or by visit
+  const order = images.map((_, index) => index);
+  if (strategy === 'itinerary') {
+    const rank = (index: number) => markerMap.get(index)?.order ?? Infinity;
+    order.sort((a, b) => rank(a) - rank(b) || a - b);
+  }
+  const place = new Map(order.map((index, i) => [index, i]));
+  const compare = (a: number, b: number) => place.get(a)! - place.get(b)!;
+
+  // Assign pictures with a border position to their edge first, then fill the
+  // remaining capacity with the other pictures in order
+  let assigned: Record<BorderPosition, number[]> = { top: [], right: [], bottom: [], left: [] };
+  const used = (pos: BorderPosition) =>
+    assigned[pos].reduce((sum, imageIndex) => sum + cells(imageIndex, pos), 0);
+  const fits = (imageIndex: number, pos: BorderPosition) =>
+    used(pos) + cells(imageIndex, pos) <= capacities[pos];
+  const pinned = new Map<number, BorderPosition>();
+  const unassigned: number[] = [];
+  order.forEach((index) => {
+    const image = images[index];
+    const pos = image.borderPosition;
+    if (pos && fits(index, pos)) {
+      assigned[pos].push(index);
+      pinned.set(index, pos);
+    } else {
+      unassigned.push(index);
+    }
+  });
+  // Featured pictures reserve the slots of their span before the standard
+  // pictures fill the rest: each on the edge its turn comes to, or the next
+  // one clockwise with room. Like standard pictures, those that find no room
+  // are left out.
+  const edgeEnds = positions.map((_, i) =>
+    positions.slice(0, i + 1).reduce((sum, pos) => sum + capacities[pos], 0)
+  );
+  const standard: number[] = [];
+  let turn = 0;
+  for (const index of unassigned) {
+    if (isFeatured(images[index].span)) {
+      const first = Math.max(
+        0,
+        edgeEnds.findIndex((end) => turn < end)
+      );
+      const pos = [...positions.slice(first), ...positions.slice(0, first)].find((candidate) =>
+        fits(index, candidate)
+      );
+      if (pos) {
+        assigned[pos].push(index);
       }
+    } else {
+      standard.push(index);
+    }
+    turn += slotsTaken(images[index]);
+  }
+  for (const pos of positions) {
+    while (standard.length > 0 && fits(standard[0], pos)) {
+      assigned[pos].push(standard.shift() as number);
+    }
+    assigned[pos].sort(compare);
+  }
+
+  const edgeRows = {} as Record<BorderPosition, EdgeRow[]>;
+  for (const pos of positions) {
+    edgeRows[pos] = getEdgeRows(pos, borderAreas, grid, spacing, adjustedPictureSize);
+  }
+
+  // Clockwise, the bottom edge runs right to left and the left edge upwards
+  const reversed = (pos: BorderPosition) =>
+    strategy === 'itinerary' && (pos === 'bottom' || pos === 'left');
+  const layoutPictures = (pos: BorderPosition, imageIndices: number[]) =>
+    imageIndices.some((imageIndex) => isFeatured(images[imageIndex].span))
+      ? layoutFeaturedEdge(
+          pos,
+          edgeRows[pos],
+          imageIndices.map((imageIndex) => getSpanSize(images[imageIndex].span, grid.rows[pos])),
+          spacing,
+          adjustedPictureSize,
+          reversed(pos)
+        )
+      : layoutEdgeRows(
+          pos,
+          edgeRows[pos],
+          imageIndices.length,
+          spacing,
+          adjustedPictureSize,
+          slotSizing === 'justified'
+            ? imageIndices.map((imageIndex) => getAspectRatio(images[imageIndex]))
+            : undefined,
+          reversed(pos)
+        );
+
+  if (strategy === 'optimized') {
+    const placed = positions.flatMap((pos) => assigned[pos]).sort((a, b) => a - b);
+    assigned = assignNearestSlots(
+      placed,
+      pinned,
+      capacities,
+      cells,
+      (pos, count) => layoutEdgeRows(pos, edgeRows[pos], count, spacing, adjustedPictureSize),
+      markerMap
+    );
+  }
 
-      positionedPictures.push({
+  // Position the pictures along each border
+  const positionedPictures: PositionedPicture[] = [];
+  const edgeSlots = {} as Record<BorderPosition, BorderSlot[]>;
+
+  for (const pos of positions) {
+    edgeSlots[pos] = layoutPictures(pos, assigned[pos]);
+    const pictures = assigned[pos].map((imageIndex, i): PositionedPicture => {
+      const { rect, corner } = edgeSlots[pos][i];
+      return {
         image: images[imageIndex],
         rect,
         borderPosition: pos,
         imageIndex,
-      });
+        ...(corner && { corner }),
+      };
+    });
+    // List the pictures of reversed edges from the left or top end, too
+    positionedPictures.push(...(reversed(pos) ? pictures.reverse() : pictures));
+  }
 
-      imageIndex++;
+  if (strategy === 'optimized') {
+    uncrossLinkLines(positionedPictures, pinned, markerMap);
+    // Swapped pictures take the shape of the slots they moved to, so justified
+    // edges and edges with featured pictures are laid out again in their new order
+    if (slotSizing === 'justified' || images.some((image) => isFeatured(image.span))) {
+      for (const pos of positions) {
+        const slotIndex = (picture: PositionedPicture) =>
+          edgeSlots[pos].findIndex((slot) => slot.rect === picture.rect);
+        const onEdge = positionedPictures
+          .filter((picture) => picture.borderPosition === pos)
+          .sort((a, b) => slotIndex(a) - slotIndex(b));
+        const slots = layoutPictures(
+          pos,
+          onEdge.map((picture) => picture.imageIndex)
+        );
+        onEdge.forEach((picture, i) => {
+          picture.rect = slots[i].rect;
+          picture.corner = slots[i].corner;
+        });
+      }
     }
-
-    if (imageIndex >= images.length) break;
+    // Keep the pictures in reading order: by edge, then along it
+    positionedPictures.sort(
+      (a, b) =>
+        positions.indexOf(a.borderPosition) - positions.indexOf(b.borderPosition) ||
+        a.rect.x - b.rect.x ||
+        a.rect.y - b.rect.y
+    );
   }
 
   return positionedPictures;
@@ -196,7 +1047,13 @@ export function distributePictures(
  */
 export function calculateLinkLines(
   pictures: PositionedPicture[],
-  markerPositions: Array<{ imageIndex: number; x: number; y: number; label?: string }>,
+  markerPositions: Array<{
+    imageIndex: number;
+    x: number;
+    y: number;
+    label?: string;
+    style?: LinkLineStyle;
+  }>,
   mapArea: Rectangle
 ): LinkLine[] {
   const links: LinkLine[] = [];
@@ -206,30 +1063,11 @@ export function calculateLinkLines(
     if (!picture) continue;
 
     // Calculate picture edge point (closest to map)
-    const pictureCenterX = picture.rect.x + picture.rect.width / 2;
-    const pictureCenterY = picture.rect.y + picture.rect.height / 2;
-
-    let startX: number;
-    let startY: number;
-
-    switch (picture.borderPosition) {
-      case 'top':
-        startX = pictureCenterX;
-        startY = picture.rect.y + picture.rect.height;
-        break;
-      case 'bottom':
-        startX = pictureCenterX;
-        startY = picture.rect.y;
-        break;
-      case 'left':
-        startX = picture.rect.x + picture.rect.width;
-        startY = pictureCenterY;
-        break;
-      case 'right':
-        startX = picture.rect.x;
-        startY = pictureCenterY;
-        break;
-    }
+    const { x: startX, y: startY } = getConnectionPoint(
+      picture.rect,
+      picture.borderPosition,
+      picture.corner
+    );
 
     // Calculate map marker position (convert from map-relative to page-absolute)
     const endX = mapArea.x + marker.x;
@@ -240,12 +1078,70 @@ export function calculateLinkLines(
       end: { x: endX, y: endY },
       label: marker.label,
       imageIndex: marker.imageIndex,
+      style: marker.style,
     });
   }
 
   return links;
 }
 
+/**
+ * Chooses the number of rows along each edge for a number of pictures
+ *
+ * Starting from the configured rows, edges gain a row at a time, clockwise
+ * from the top, until the pictures fit at full size. An edge stops growing
+ * when another row would make the map narrower or shorter than `minMapSize`;
+ * pictures that still do not fit are then made smaller instead. Without a
+ * `minMapSize`, the configured rows are kept.
+ * @param config - Compositor configuration
+ * @param slotCount - Number of slots the pictures take, counting the span of featured pictures
+ * @returns Rows along each edge
+ */
+export function resolveBorderRows(
+  config: CompositorConfig,
+  slotCount: number
+): Record<BorderPosition, number> {
+  let rows = getBorderRows(config);
+  if (config.minMapSize === undefined) {
+    return rows;
+  }
+
+  const dpi = config.dpi ?? DEFAULT_DPI;
+  const spacing = mmToPixels(config.pictureSpacing, dpi);
+  const minMapSize = mmToPixels(config.minMapSize, dpi);
+  const corners = config.cornerSlots ?? false;
+  const capacity = (candidate: Record<BorderPosition, number>) => {
+    const { borderAreas } = calculateLayoutAreas(config, candidate);
+    const grid = { rows: candidate, corners };
+    const size = getPictureSize(borderAreas, grid, spacing);
+    return BORDER_POSITIONS.reduce(
+      (sum, pos) =>
+        sum +
+        getEdgeRows(pos, borderAreas, grid, spacing, size).reduce(
+          (edgeSum, row) => edgeSum + getRowCapacity(pos, row, spacing, size),
+          0
+        ),
+      0
+    );
+  };
+
+  // Give up after a full round of edges that cannot grow
+  let blocked = 0;
+  for (let i = 0; blocked < BORDER_POSITIONS.length && capacity(rows) < slotCount; i++) {
+    const pos = BORDER_POSITIONS[i % BORDER_POSITIONS.length];
+    const grown = { ...rows, [pos]: rows[pos] + 1 };
+    const { mapArea } = calculateLayoutAreas(config, grown);
+    const mapSize = pos === 'top' || pos === 'bottom' ? mapArea.height : mapArea.width;
+    if (mapSize >= minMapSize) {
+      rows = grown;
+      blocked = 0;
+    } else {
+      blocked++;
+    }
+  }
+  return rows;
+}
+
 /**
  * Creates a complete composition layout
  * @param config - Compositor configuration
@@ -259,17 +1155,36 @@ export function createCompositionLayout(
   const dpi = config.dpi ?? DEFAULT_DPI;
   const spacing = mmToPixels(config.pictureSpacing, dpi);
 
-  // Calculate layout areas
-  const { pageDimensions, mapArea, borderAreas } = calculateLayoutAreas(config);
+  // Calculate layout areas, with rows added for pictures that do not fit
+  const slotCount = input.images.reduce((sum, image) => {
+    const { along, across } = getSpanSize(image.span, Infinity);
+    return sum + along * across;
+  }, 0);
+  const rows = resolveBorderRows(config, slotCount);
+  const { pageDimensions, mapArea, borderAreas } = calculateLayoutAreas(config, rows);
 
-  // Distribute pictures
-  const pictures = distributePictures(input.images, borderAreas, spacing);
+  // Distribute pictures, near their markers with the 'optimized' strategy
+  const pictures = distributePictures(
+    input.images,
+    borderAreas,
+    spacing,
+    config.distribution ?? 'even',
+    input.links.map((link) => ({
+      imageIndex: link.imageIndex,
+      x: mapArea.x + link.markerPosition.x,
+      y: mapArea.y + link.markerPosition.y,
+      order: link.order,
+    })),
+    config.slotSizing ?? 'square',
+    { rows, corners: config.cornerSlots ?? false }
+  );
 
-  // Add labels to pictures based on links
+  // Add labels and frame colors to pictures based on links
   for (const link of input.links) {
     const picture = pictures.find((p) => p.imageIndex === link.imageIndex);
     if (picture) {
       picture.label = link.label;
+      picture.frameColor = link.frameColor;
     }
   }
 
@@ -279,6 +1194,7 @@ export function createCompositionLayout(
     x: link.markerPosition.x,
     y: link.markerPosition.y,
     label: link.label,
+    style: link.style,
   }));
 
   // Calculate link lines
@@ -7,6 +7,7 @@ import {
   marginToPixels,
   calculateContentArea,
   calculateLayoutAreas,
+  getBorderRows,
   validateDpi,
   DEFAULT_DPI,
   MIN_DPI,
@@ -173,6 +174,44 @@ describe('Page Sizes', () => {
       expect(pageDimensions.width).toBe(2480); // 210mm at 300 DPI
       expect(pageDimensions.height).toBe(3508); // 297mm at 300 DPI
     });
+
+    it('should make each edge as deep as its rows', () => {
+      const config = {
+        pageSize: 'A4' as const,
+        orientation: 'landscape' as const,
+        borderWidth: 30,
+        pictureSpacing: 5,
+        margin: { top: 10, right: 10, bottom: 10, left: 10 },
+        dpi: 72,
+        borderRows: { top: 2, left: 3 },
+      };
+
+      // 30mm is 85 pixels, inside a content area of 786 × 539 at (28, 28)
+      const { mapArea, borderAreas } = calculateLayoutAreas(config);
+
+      expect(borderAreas.top).toEqual({ x: 28, y: 28, width: 786, height: 170 });
+      expect(borderAreas.left).toEqual({ x: 28, y: 198, width: 255, height: 284 });
+      expect(borderAreas.right).toEqual({ x: 729, y: 198, width: 85, height: 284 });
+      expect(mapArea).toEqual({ x: 283, y: 198, width: 446, height: 284 });
+      expect(
+        calculateLayoutAreas(config, { top: 1, right: 1, bottom: 1, left: 1 }).mapArea
+      ).toEqual({ x: 113, y: 113, width: 616, height: 369 });
+    });
+  });
+
+  describe('getBorderRows', () => {
+    it('should default to one row per edge', () => {
+      expect(
+        getBorderRows({
+          pageSize: 'A4',
+          orientation: 'portrait',
+          borderWidth: 20,
+          pictureSpacing: 5,
+          margin: { top: 10, right: 10, bottom: 10, left: 10 },
+          borderRows: { bottom: 2, right: 0 },
+        })
+      ).toEqual({ top: 1, right: 1, bottom: 2, left: 1 });
+    });
   });
 
   describe('validateDpi', () => {
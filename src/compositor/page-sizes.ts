@@ -10,6 +10,7 @@ import {
   Margin,
   Rectangle,
   CompositorConfig,
+  BorderPosition,
 } from './types';
 
 /**
@@ -128,12 +129,30 @@ export function calculateContentArea(pageDimensions: Dimensions, margin: Margin)
   };
 }
 
+/**
+ * Gets the configured number of rows of pictures along each edge
+ * @param config - Compositor configuration
+ * @returns Rows per edge, at least one
+ */
+export function getBorderRows(config: CompositorConfig): Record<BorderPosition, number> {
+  const rows = (position: BorderPosition) =>
+    Math.max(1, Math.floor(config.borderRows?.[position] ?? 1));
+  return { top: rows('top'), right: rows('right'), bottom: rows('bottom'), left: rows('left') };
+}
+
 /**
  * Calculates the map area and border areas from compositor config
+ *
+ * Each edge of the border is as deep as `borderWidth` times its number of
+ * rows; the top and bottom areas span the corners.
  * @param config - Compositor configuration
+ * @param rows - Rows along each edge (default: the configured rows)
  * @returns Object containing map area and border areas
  */
-export function calculateLayoutAreas(config: CompositorConfig): {
+export function calculateLayoutAreas(
+  config: CompositorConfig,
+  rows: Record<BorderPosition, number> = getBorderRows(config)
+): {
   pageDimensions: Dimensions;
   mapArea: Rectangle;
   borderAreas: {
@@ -160,40 +179,45 @@ export function calculateLayoutAreas(config: CompositorConfig): {
   // Calculate content area (inside margins)
   const contentArea = calculateContentArea(pageDimensions, margin);
 
+  const top = rows.top * borderWidth;
+  const right = rows.right * borderWidth;
+  const bottom = rows.bottom * borderWidth;
+  const left = rows.left * borderWidth;
+
   // Calculate border areas
   const borderAreas = {
     top: {
       x: contentArea.x,
       y: contentArea.y,
       width: contentArea.width,
-      height: borderWidth,
+      height: top,
     },
     right: {
-      x: contentArea.x + contentArea.width - borderWidth,
-      y: contentArea.y + borderWidth,
-      width: borderWidth,
-      height: contentArea.height - 2 * borderWidth,
+      x: contentArea.x + contentArea.width - right,
+      y: contentArea.y + top,
+      width: right,
+      height: contentArea.height - top - bottom,
     },
     bottom: {
       x: contentArea.x,
-      y: contentArea.y + contentArea.height - borderWidth,
+      y: contentArea.y + contentArea.height - bottom,
       width: contentArea.width,
-      height: borderWidth,
+      height: bottom,
     },
     left: {
       x: contentArea.x,
-      y: contentArea.y + borderWidth,
-      width: borderWidth,
-      height: contentArea.height - 2 * borderWidth,
+      y: contentArea.y + top,
+      width: left,
+      height: contentArea.height - top - bottom,
     },
   };
 
   // Calculate map area (inside the borders)
   const mapArea: Rectangle = {
-    x: contentArea.x + borderWidth,
-    y: contentArea.y + borderWidth,
-    width: contentArea.width - 2 * borderWidth,
-    height: contentArea.height - 2 * borderWidth,
+    x: contentArea.x + left,
+    y: contentArea.y + top,
+    width: contentArea.width - left - right,
+    height: contentArea.height - top - bottom,
   };
 
   return {
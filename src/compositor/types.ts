@@ -2,7 +2,15 @@
  * Types for the compositor module
  */
 
-import { RenderedMap, PictureBorderStyle, ImageMetadata, LinkStyle } from '../types';
+import {
+  RenderedMap,
+  PictureBorderStyle,
+  ImageMetadata,
+  LinkStyle,
+  LinkLineStyle,
+  BorderRows,
+  BorderCorner,
+} from '../types';
 
 /**
  * Page size identifier
@@ -72,10 +80,14 @@ export interface PositionedPicture {
   rect: Rectangle;
   /** Which border the picture is on */
   borderPosition: BorderPosition;
+  /** Corner of the border the picture is in, for pictures in corner slots */
+  corner?: BorderCorner;
   /** Index of the image in the original array */
   imageIndex: number;
   /** Label for linking to map marker */
   label?: string;
+  /** Frame color of this picture, overriding the picture border color */
+  frameColor?: string;
 }
 
 /**
@@ -90,6 +102,8 @@ export interface LinkLine {
   label?: string;
   /** Index of the associated image */
   imageIndex: number;
+  /** Line styling of this link, overriding the link style */
+  style?: LinkLineStyle;
 }
 
 /**
@@ -139,6 +153,8 @@ export interface RenderedComposition {
   dpi: number;
   /** Page size in millimeters */
   pageSizeMm: Dimensions;
+  /** Any warnings or issues encountered (e.g. images that could not be loaded) */
+  warnings: string[];
 }
 
 /**
@@ -161,12 +177,26 @@ export interface CompositorConfig {
   pictureSpacing: number;
   /** Margin around the composition in mm */
   margin: Margin;
+  /** How pictures are assigned to border slots (default: 'even') */
+  distribution?: 'even' | 'optimized' | 'itinerary';
+  /** How border slots are sized: all square, or to the pictures' aspect ratios (default: 'square') */
+  slotSizing?: 'square' | 'justified';
+  /** Whether the corners of the border hold pictures of their own (default: false) */
+  cornerSlots?: boolean;
+  /** Rows of pictures along each edge, each `borderWidth` deep (default: 1 per edge) */
+  borderRows?: BorderRows;
+  /** Smallest width and height of the map area in mm, down to which edges gain rows inward */
+  minMapSize?: number;
   /** DPI for rendering (default 300 for print quality) */
   dpi?: number;
   /** Picture border styling */
   pictureBorderStyle?: PictureBorderStyle;
   /** Link styling */
   linkStyle?: LinkStyle;
+  /** Directory used to resolve relative image file paths (default: current directory) */
+  imageBaseDir?: string;
+  /** Whether to embed images as base64 data URIs rather than linking to the files (default: true) */
+  embedImages?: boolean;
 }
 
 /**
@@ -182,5 +212,10 @@ export interface CompositionInput {
     imageIndex: number;
     markerPosition: { x: number; y: number };
     label?: string;
+    style?: LinkLineStyle;
+    /** Frame color of the linked picture, such as the color of the link's category */
+    frameColor?: string;
+    /** Position of the link in the itinerary, which the 'itinerary' distribution places pictures by */
+    order?: number;
   }>;
 }
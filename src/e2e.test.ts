@@ -169,7 +169,13 @@ describe('End-to-End Integration Tests', () => {
 
       // Get layout to determine map dimensions
       const layout = compositor.createLayout({
-        map: { svg: '', width: 0, height: 0, bounds: { north: 0, south: 0, east: 0, west: 0 } },
+        map: {
+          svg: '',
+          width: 0,
+          height: 0,
+          bounds: { north: 0, south: 0, east: 0, west: 0 },
+          view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+        },
         images: config.images,
         links: [],
       });
@@ -188,8 +194,8 @@ describe('End-to-End Integration Tests', () => {
       const markerPositions = config.links.map((link) => {
         const pixel = geoToViewportPixel(
           link.location,
-          config.map.center,
-          config.map.zoom,
+          renderedMap.view.center,
+          renderedMap.view.zoom,
           layout.mapArea.width,
           layout.mapArea.height
         );
@@ -401,7 +407,13 @@ describe('End-to-End Integration Tests', () => {
         72
       );
       const layout = compositor.createLayout({
-        map: { svg: '', width: 0, height: 0, bounds: { north: 0, south: 0, east: 0, west: 0 } },
+        map: {
+          svg: '',
+          width: 0,
+          height: 0,
+          bounds: { north: 0, south: 0, east: 0, west: 0 },
+          view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+        },
         images: config.images,
         links: [],
       });
@@ -509,7 +521,13 @@ describe('End-to-End Integration Tests', () => {
         150
       );
       const layout = compositor.createLayout({
-        map: { svg: '', width: 0, height: 0, bounds: { north: 0, south: 0, east: 0, west: 0 } },
+        map: {
+          svg: '',
+          width: 0,
+          height: 0,
+          bounds: { north: 0, south: 0, east: 0, west: 0 },
+          view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+        },
         images: config.images,
         links: linkLabels,
       });
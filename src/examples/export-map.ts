@@ -12,6 +12,7 @@
  * Examples:
  *   node dist/examples/export-map.js svg map-export.svg
  *   node dist/examples/export-map.js pdf map-export.pdf
+ *   node dist/examples/export-map.js png map-export.png
  */
 
 import { writeFile } from 'fs/promises';
@@ -44,7 +45,13 @@ async function exportMapExample(format?: string, outputFile?: string): Promise<v
 
     // Get the layout to determine map area dimensions
     const initialLayout = compositor.createLayout({
-      map: { svg: '', width: 0, height: 0, bounds: { north: 0, south: 0, east: 0, west: 0 } },
+      map: {
+        svg: '',
+        width: 0,
+        height: 0,
+        bounds: { north: 0, south: 0, east: 0, west: 0 },
+        view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+      },
       images: config.images,
       links: [],
     });
@@ -73,10 +80,11 @@ async function exportMapExample(format?: string, outputFile?: string): Promise<v
     const markerPositions = config.links.map((link) => {
       const pixel = geoToViewportPixel(
         link.location,
-        config.map.center,
-        config.map.zoom,
+        renderedMap.view.center,
+        renderedMap.view.zoom,
         mapWidth,
-        mapHeight
+        mapHeight,
+        config.map.projection
       );
       return {
         imageIndex: parseInt(link.imageId, 10),
@@ -101,8 +109,9 @@ async function exportMapExample(format?: string, outputFile?: string): Promise<v
     );
 
     // Determine export format
-    const exportFormat: ExportFormat = format === 'pdf' ? 'pdf' : 'svg';
-    const defaultOutputName = exportFormat === 'pdf' ? 'map-export.pdf' : 'map-export.svg';
+    const exportFormat: ExportFormat =
+      ExportEngine.getAvailableFormats().find((available) => available === format) ?? 'svg';
+    const defaultOutputName = `map-export.${exportFormat === 'jpeg' ? 'jpg' : exportFormat}`;
     const outputPath = join(process.cwd(), outputFile || defaultOutputName);
 
     // Create export engine
@@ -130,10 +139,10 @@ async function exportMapExample(format?: string, outputFile?: string): Promise<v
     console.log(`Resolution: ${exportResult.widthPx}x${exportResult.heightPx}px at ${dpi} DPI`);
 
     // Write output file
-    if (exportFormat === 'pdf') {
-      await writeFile(outputPath, exportResult.data as Buffer);
-    } else {
+    if (exportFormat === 'svg') {
       await writeFile(outputPath, exportResult.data as string, 'utf-8');
+    } else {
+      await writeFile(outputPath, exportResult.data as Buffer);
     }
 
     console.log(`\nExported to: ${outputPath}`);
@@ -26,8 +26,11 @@ async function renderMapExample(configPath?: string): Promise<void> {
     const config = await loadConfigFromFile(configFile);
 
     console.log(`Configuration loaded: ${config.title}`);
-    console.log(`Map center: ${config.map.center.latitude}, ${config.map.center.longitude}`);
-    console.log(`Zoom level: ${config.map.zoom}`);
+    const { center, zoom } = config.map;
+    console.log(
+      center ? `Map center: ${center.latitude}, ${center.longitude}` : 'Map center: auto'
+    );
+    console.log(`Zoom level: ${zoom ?? 'auto'}`);
     console.log(`Number of images: ${config.images.length}`);
     console.log(`Number of markers: ${config.links.length}`);
 
@@ -44,7 +47,13 @@ async function renderMapExample(configPath?: string): Promise<void> {
 
     // Get the layout to determine map area dimensions
     const initialLayout = compositor.createLayout({
-      map: { svg: '', width: 0, height: 0, bounds: { north: 0, south: 0, east: 0, west: 0 } },
+      map: {
+        svg: '',
+        width: 0,
+        height: 0,
+        bounds: { north: 0, south: 0, east: 0, west: 0 },
+        view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+      },
       images: config.images,
       links: [],
     });
@@ -76,10 +85,11 @@ async function renderMapExample(configPath?: string): Promise<void> {
     const markerPositions = config.links.map((link) => {
       const pixel = geoToViewportPixel(
         link.location,
-        config.map.center,
-        config.map.zoom,
+        renderedMap.view.center,
+        renderedMap.view.zoom,
         mapWidth,
-        mapHeight
+        mapHeight,
+        config.map.projection
       );
       return {
         imageIndex: parseInt(link.imageId, 10),
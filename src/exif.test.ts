@@ -0,0 +1,261 @@
+import { describe, it, expect } from 'vitest';
+import { ExifReadError, readExif } from './exif';
+
+/** A TIFF field: tag, type and values (rationals as numerator/denominator pairs) */
+type Field = [number, number, number[] | string];
+
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+/**
+ * Builds a TIFF structure with IFD0 and optional Exif and GPS IFDs
+ */
+function createTiff(
+  ifd0: Field[],
+  exif: Field[] = [],
+  gps: Field[] = [],
+  littleEndian = true
+): Buffer {
+  const ifds = [ifd0.slice(), exif, gps];
+  // Pointers to the sub-IFDs, patched in once their offsets are known
+  if (exif.length > 0) ifds[0].push([0x8769, LONG, [0]]);
+  if (gps.length > 0) ifds[0].push([0x8825, LONG, [0]]);
+
+  const ifdOffsets: number[] = [];
+  let offset = 8;
+  for (const ifd of ifds) {
+    ifdOffsets.push(offset);
+    if (ifd.length > 0) offset += 2 + ifd.length * 12 + 4;
+  }
+  if (exif.length > 0) ifds[0][ifd0.length][2] = [ifdOffsets[1]];
+  if (gps.length > 0) ifds[0][ifds[0].length - 1][2] = [ifdOffsets[2]];
+
+  const buffer = Buffer.alloc(4096);
+  const u16 = (value: number, at: number) =>
+    littleEndian ? buffer.writeUInt16LE(value, at) : buffer.writeUInt16BE(value, at);
+  const u32 = (value: number, at: number) =>
+    littleEndian ? buffer.writeUInt32LE(value, at) : buffer.writeUInt32BE(value, at);
+
+  buffer.write(littleEndian ? 'II' : 'MM', 0, 'ascii');
+  u16(42, 2);
+  u32(8, 4);
+
+  let dataOffset = offset;
+  ifds.forEach((ifd, index) => {
+    if (ifd.length === 0) return;
+    let at = ifdOffsets[index];
+    u16(ifd.length, at);
+    at += 2;
+
+    for (const [tag, type, values] of ifd) {
+      const bytes = Buffer.alloc(256);
+      let size: number;
+      let count: number;
+      const write = (value: number, width: number, index: number) => {
+        if (width === 2) {
+          if (littleEndian) bytes.writeUInt16LE(value, index * 2);
+          else bytes.writeUInt16BE(value, index * 2);
+        } else if (littleEndian) {
+          bytes.writeUInt32LE(value, index * 4);
+        } else {
+          bytes.writeUInt32BE(value, index * 4);
+        }
+      };
+      if (typeof values === 'string') {
+        size = bytes.write(values + '\0', 'latin1');
+        count = size;
+      } else {
+        const width = type === SHORT ? 2 : 4;
+        values.forEach((value, i) => write(value, width, i));
+        size = values.length * width;
+        count = type === RATIONAL ? values.length / 2 : values.length;
+      }
+
+      u16(tag, at);
+      u16(type, at + 2);
+      u32(count, at + 4);
+      if (size <= 4) {
+        bytes.copy(buffer, at + 8, 0, size);
+      } else {
+        u32(dataOffset, at + 8);
+        bytes.copy(buffer, dataOffset, 0, size);
+        dataOffset += size;
+      }
+      at += 12;
+    }
+    u32(0, at);
+  });
+
+  return buffer.subarray(0, dataOffset);
+}
+
+/**
+ * Builds a JPEG file with an optional EXIF block and a start-of-frame segment
+ */
+function createJpeg(tiff: Buffer | undefined, width: number, height: number): Buffer {
+  const segment = (marker: number, data: Buffer) => {
+    const header = Buffer.from([0xff, marker, 0, 0]);
+    header.writeUInt16BE(data.length + 2, 2);
+    return Buffer.concat([header, data]);
+  };
+
+  const sof = Buffer.alloc(15);
+  sof[0] = 8;
+  sof.writeUInt16BE(height, 1);
+  sof.writeUInt16BE(width, 3);
+  sof[5] = 3;
+
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    ...(tiff ? [segment(0xe1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]))] : []),
+    segment(0xc0, sof),
+    Buffer.from([0xff, 0xd9]),
+  ]);
+}
+
+/**
+ * Builds a HEIF file with an EXIF item and image spatial extent properties
+ */
+function createHeif(tiff: Buffer, extents: Array<[number, number]>): Buffer {
+  const box = (type: string, ...bodies: Buffer[]) => {
+    const body = Buffer.concat(bodies);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(body.length + 8, 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, body]);
+  };
+  const fullBox = (type: string, version: number, body: Buffer) =>
+    box(type, Buffer.from([version, 0, 0, 0]), body);
+
+  const ftyp = box('ftyp', Buffer.from('heic\0\0\0\0mif1heic', 'latin1'));
+
+  const infe = fullBox('infe', 2, Buffer.from('\0\x01\0\0Exif\0', 'latin1'));
+  const iinf = fullBox('iinf', 0, Buffer.concat([Buffer.from([0, 1]), infe]));
+  const ispes = extents.map(([width, height]) => {
+    const size = Buffer.alloc(8);
+    size.writeUInt32BE(width, 0);
+    size.writeUInt32BE(height, 4);
+    return fullBox('ispe', 0, size);
+  });
+  const iprp = box('iprp', box('ipco', ...ispes));
+
+  const item = Buffer.concat([Buffer.alloc(4), tiff]);
+  const iloc = (itemOffset: number) => {
+    const body = Buffer.alloc(18);
+    body[0] = 0x44; // 4-byte offsets and lengths
+    body.writeUInt16BE(1, 2); // item count
+    body.writeUInt16BE(1, 4); // item ID
+    body.writeUInt16BE(1, 8); // extent count
+    body.writeUInt32BE(itemOffset, 10);
+    body.writeUInt32BE(item.length, 14);
+    return fullBox('iloc', 0, body);
+  };
+
+  const metaSize = fullBox('meta', 0, Buffer.concat([iinf, iloc(0), iprp])).length;
+  const meta = fullBox('meta', 0, Buffer.concat([iinf, iloc(ftyp.length + metaSize + 8), iprp]));
+  return Buffer.concat([ftyp, meta, box('mdat', item)]);
+}
+
+const GPS_LONDON: Field[] = [
+  [0x0001, ASCII, 'N'],
+  [0x0002, RATIONAL, [51, 1, 30, 1, 265, 10]],
+  [0x0003, ASCII, 'W'],
+  [0x0004, RATIONAL, [0, 1, 7, 1, 405, 10]],
+];
+
+describe('readExif', () => {
+  it('should read GPS position, capture time, dimensions and description from JPEG', () => {
+    const tiff = createTiff(
+      [[0x010e, ASCII, 'Tower Bridge  ']],
+      [
+        [0x9003, ASCII, '2024:05:01 14:03:22'],
+        [0x9011, ASCII, '+01:00'],
+        [0xa002, LONG, [4032]],
+        [0xa003, LONG, [3024]],
+      ],
+      GPS_LONDON
+    );
+
+    const exif = readExif(createJpeg(tiff, 640, 480));
+
+    expect(exif.latitude).toBeCloseTo(51.5073611, 6);
+    expect(exif.longitude).toBeCloseTo(-0.1279167, 6);
+    expect(exif.capturedAt).toBe('2024-05-01T14:03:22+01:00');
+    expect(exif.dimensions).toEqual({ width: 4032, height: 3024 });
+    expect(exif.description).toBe('Tower Bridge');
+  });
+
+  it('should read big-endian TIFF files', () => {
+    const tiff = createTiff(
+      [
+        [0x0100, SHORT, [800]],
+        [0x0101, SHORT, [600]],
+        [0x0132, ASCII, '2023:12:24 09:00:00'],
+      ],
+      [],
+      [
+        [0x0001, ASCII, 'S'],
+        [0x0002, RATIONAL, [33, 1, 51, 1, 0, 1]],
+        [0x0003, ASCII, 'E'],
+        [0x0004, RATIONAL, [151, 1, 12, 1, 36, 1]],
+      ],
+      false
+    );
+
+    const exif = readExif(tiff);
+
+    expect(exif.latitude).toBeCloseTo(-33.85, 6);
+    expect(exif.longitude).toBeCloseTo(151.21, 6);
+    expect(exif.capturedAt).toBe('2023-12-24T09:00:00');
+    expect(exif.dimensions).toEqual({ width: 800, height: 600 });
+  });
+
+  it('should read the EXIF item and largest image size of HEIF files', () => {
+    const exif = readExif(
+      createHeif(createTiff([], [[0x9003, ASCII, '2024:06:02 08:30:00']], GPS_LONDON), [
+        [512, 384],
+        [4032, 3024],
+      ])
+    );
+
+    expect(exif.latitude).toBeCloseTo(51.507361, 6);
+    expect(exif.capturedAt).toBe('2024-06-02T08:30:00');
+    expect(exif.dimensions).toEqual({ width: 4032, height: 3024 });
+  });
+
+  it('should fall back to the JPEG frame size without EXIF data', () => {
+    expect(readExif(createJpeg(undefined, 640, 480))).toEqual({
+      dimensions: { width: 640, height: 480 },
+    });
+  });
+
+  it('should swap the dimensions of photos stored rotated', () => {
+    const tiff = createTiff([[0x0112, SHORT, [6]]]);
+
+    expect(readExif(createJpeg(tiff, 640, 480)).dimensions).toEqual({ width: 480, height: 640 });
+  });
+
+  it('should ignore void GPS fixes and blank dates', () => {
+    const voidFix = createTiff([], [], [...GPS_LONDON, [0x0009, ASCII, 'V']]);
+    const nullIsland = createTiff(
+      [[0x0132, ASCII, '    :  :     :  :  ']],
+      [],
+      [
+        [0x0002, RATIONAL, [0, 1, 0, 1, 0, 1]],
+        [0x0004, RATIONAL, [0, 1, 0, 1, 0, 1]],
+      ]
+    );
+
+    expect(readExif(voidFix)).toEqual({});
+    expect(readExif(nullIsland)).toEqual({});
+  });
+
+  it('should reject unsupported and malformed files', () => {
+    expect(() => readExif(Buffer.from('GIF89a'))).toThrow(ExifReadError);
+    expect(() => readExif(Buffer.from('II*\0\x08\0\0\0\x05\0', 'latin1'))).toThrow(
+      'EXIF data is truncated'
+    );
+  });
+});
@@ -0,0 +1,571 @@
+/**
+ * Minimal EXIF reader for Pic-Map
+ *
+ * Reads the tags used to place photos on a map (GPS position, capture time,
+ * pixel dimensions and description) from JPEG, TIFF and HEIC/HEIF files.
+ * Only the TIFF structures that hold these tags are parsed; maker notes,
+ * thumbnails and XMP metadata are ignored.
+ */
+
+import { ImageDimensions } from './types';
+import { readImageDimensions } from './compositor/image-loader';
+
+/**
+ * Metadata read from a photo
+ */
+export interface ExifData {
+  /** GPS latitude in decimal degrees (negative south of the equator) */
+  latitude?: number;
+  /** GPS longitude in decimal degrees (negative west of Greenwich) */
+  longitude?: number;
+  /**
+   * Capture time as an ISO 8601 date-time (e.g. "2024-05-01T14:03:22"), with
+   * the UTC offset when the camera recorded one
+   */
+  capturedAt?: string;
+  /** Pixel dimensions, as displayed (swapped for photos stored rotated by 90°) */
+  dimensions?: ImageDimensions;
+  /** Image description entered in the camera or photo software */
+  description?: string;
+}
+
+/**
+ * Error thrown when a file is not a supported image or its metadata is malformed
+ */
+export class ExifReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExifReadError';
+  }
+}
+
+/** TIFF tags read from IFD0 */
+const TAG_IMAGE_WIDTH = 0x0100;
+const TAG_IMAGE_LENGTH = 0x0101;
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+
+/** Tags read from the Exif IFD */
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+
+/** Tags read from the GPS IFD */
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_STATUS = 0x0009;
+
+/**
+ * Size in bytes of one value of each TIFF field type
+ */
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+};
+
+/**
+ * ISO base media file format brands used by HEIC/HEIF files
+ */
+const HEIF_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1']);
+
+/**
+ * A directory entry of a TIFF IFD
+ */
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Offset of the value in the TIFF data */
+  valueOffset: number;
+}
+
+/**
+ * Reads the IFDs of a TIFF structure (the body of an EXIF block)
+ */
+class TiffReader {
+  private readonly littleEndian: boolean;
+
+  constructor(private readonly data: Buffer) {
+    if (data.length < 8) {
+      throw new ExifReadError('TIFF header is truncated');
+    }
+    const byteOrder = data.toString('ascii', 0, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      throw new ExifReadError('Invalid TIFF byte order');
+    }
+    this.littleEndian = byteOrder === 'II';
+    if (this.uint16(2) !== 42) {
+      throw new ExifReadError('Invalid TIFF header');
+    }
+  }
+
+  /** Offset of the first IFD */
+  get firstIfdOffset(): number {
+    return this.uint32(4);
+  }
+
+  /**
+   * Reads the entries of the IFD at an offset
+   */
+  readIfd(offset: number): Map<number, IfdEntry> {
+    const count = this.uint16(offset);
+    const entries = new Map<number, IfdEntry>();
+
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      const type = this.uint16(entryOffset + 2);
+      const valueCount = this.uint32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+      if (size === 0) continue;
+
+      // Values of up to four bytes are stored in the entry itself
+      const valueOffset = size <= 4 ? entryOffset + 8 : this.uint32(entryOffset + 8);
+      if (valueOffset + size > this.data.length) continue;
+
+      entries.set(this.uint16(entryOffset), { type, count: valueCount, valueOffset });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Reads a sub-IFD referenced by a pointer tag
+   */
+  readSubIfd(ifd: Map<number, IfdEntry>, tag: number): Map<number, IfdEntry> | undefined {
+    const offset = this.number(ifd.get(tag));
+    if (offset === undefined || offset <= 0 || offset >= this.data.length) return undefined;
+    return this.readIfd(offset);
+  }
+
+  /**
+   * Reads an ASCII value, without trailing NULs and whitespace
+   */
+  string(entry: IfdEntry | undefined): string | undefined {
+    if (!entry || (entry.type !== 2 && entry.type !== 7)) return undefined;
+    const text = this.data
+      .toString('latin1', entry.valueOffset, entry.valueOffset + entry.count)
+      .replace(/\0[\s\S]*$/, '')
+      .trim();
+    return text === '' ? undefined : text;
+  }
+
+  /**
+   * Reads the values of a numeric entry
+   */
+  numbers(entry: IfdEntry | undefined): number[] {
+    if (!entry) return [];
+
+    const size = TYPE_SIZES[entry.type];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const offset = entry.valueOffset + i * size;
+      switch (entry.type) {
+        case 1:
+        case 7:
+          values.push(this.data[offset]);
+          break;
+        case 3:
+          values.push(this.uint16(offset));
+          break;
+        case 4:
+          values.push(this.uint32(offset));
+          break;
+        case 5:
+          values.push(this.uint32(offset) / this.uint32(offset + 4));
+          break;
+        case 9:
+          values.push(this.int32(offset));
+          break;
+        case 10:
+          values.push(this.int32(offset) / this.int32(offset + 4));
+          break;
+        default:
+          return [];
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Reads the first value of a numeric entry
+   */
+  number(entry: IfdEntry | undefined): number | undefined {
+    const [value] = this.numbers(entry);
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  private check(offset: number, size: number): void {
+    if (offset < 0 || offset + size > this.data.length) {
+      throw new ExifReadError('EXIF data is truncated');
+    }
+  }
+
+  private uint16(offset: number): number {
+    this.check(offset, 2);
+    return this.littleEndian ? this.data.readUInt16LE(offset) : this.data.readUInt16BE(offset);
+  }
+
+  private uint32(offset: number): number {
+    this.check(offset, 4);
+    return this.littleEndian ? this.data.readUInt32LE(offset) : this.data.readUInt32BE(offset);
+  }
+
+  private int32(offset: number): number {
+    this.check(offset, 4);
+    return this.littleEndian ? this.data.readInt32LE(offset) : this.data.readInt32BE(offset);
+  }
+}
+
+/**
+ * Converts a GPS coordinate (degrees, minutes, seconds) to decimal degrees
+ */
+function gpsCoordinate(values: number[], ref: string | undefined, negativeRef: string) {
+  if (values.length === 0 || values.some((value) => !Number.isFinite(value))) return undefined;
+
+  const [degrees, minutes = 0, seconds = 0] = values;
+  const coordinate = degrees + minutes / 60 + seconds / 3600;
+  return ref?.toUpperCase() === negativeRef ? -coordinate : coordinate;
+}
+
+/**
+ * Converts an EXIF date ("YYYY:MM:DD HH:MM:SS") to ISO 8601
+ */
+function exifDate(value: string | undefined, offset: string | undefined): string | undefined {
+  const match = value && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/.exec(value);
+  if (!match || match[1] === '0000') return undefined;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
+
+/**
+ * Tags read from a TIFF structure
+ */
+interface TiffTags {
+  exif: ExifData;
+  /** True if the image is stored rotated by 90 degrees (orientations 5-8) */
+  rotated: boolean;
+}
+
+/**
+ * Reads the tags of a TIFF structure
+ */
+function readTiffTags(tiff: Buffer): TiffTags {
+  const reader = new TiffReader(tiff);
+  const ifd0 = reader.readIfd(reader.firstIfdOffset);
+  const exif = reader.readSubIfd(ifd0, TAG_EXIF_IFD);
+  const gps = reader.readSubIfd(ifd0, TAG_GPS_IFD);
+  const result: ExifData = {};
+
+  if (gps && reader.string(gps.get(TAG_GPS_STATUS)) !== 'V') {
+    const latitude = gpsCoordinate(
+      reader.numbers(gps.get(TAG_GPS_LATITUDE)),
+      reader.string(gps.get(TAG_GPS_LATITUDE_REF)),
+      'S'
+    );
+    const longitude = gpsCoordinate(
+      reader.numbers(gps.get(TAG_GPS_LONGITUDE)),
+      reader.string(gps.get(TAG_GPS_LONGITUDE_REF)),
+      'W'
+    );
+    // Some cameras write 0/0 when they have no fix
+    if (
+      latitude !== undefined &&
+      longitude !== undefined &&
+      Math.abs(latitude) <= 90 &&
+      Math.abs(longitude) <= 180 &&
+      (latitude !== 0 || longitude !== 0)
+    ) {
+      result.latitude = latitude;
+      result.longitude = longitude;
+    }
+  }
+
+  const capturedAt =
+    exifDate(
+      reader.string(exif?.get(TAG_DATE_TIME_ORIGINAL)),
+      reader.string(exif?.get(TAG_OFFSET_TIME_ORIGINAL))
+    ) ?? exifDate(reader.string(ifd0.get(TAG_DATE_TIME)), undefined);
+  if (capturedAt) result.capturedAt = capturedAt;
+
+  const width =
+    reader.number(exif?.get(TAG_PIXEL_X_DIMENSION)) ?? reader.number(ifd0.get(TAG_IMAGE_WIDTH));
+  const height =
+    reader.number(exif?.get(TAG_PIXEL_Y_DIMENSION)) ?? reader.number(ifd0.get(TAG_IMAGE_LENGTH));
+  if (width && height) result.dimensions = { width, height };
+
+  const description = reader.string(ifd0.get(TAG_IMAGE_DESCRIPTION));
+  if (description) result.description = description;
+
+  const orientation = reader.number(ifd0.get(TAG_ORIENTATION)) ?? 1;
+  return { exif: result, rotated: orientation >= 5 && orientation <= 8 };
+}
+
+/**
+ * Finds the EXIF block of a JPEG file
+ */
+function findJpegExif(data: Buffer): Buffer | undefined {
+  let offset = 2;
+
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = data[offset + 1];
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    // Metadata segments come before the image data
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = data.readUInt16BE(offset + 2);
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && segment.toString('latin1', 0, 6) === 'Exif\0\0') {
+      return segment.subarray(6);
+    }
+    offset += 2 + length;
+  }
+
+  return undefined;
+}
+
+/**
+ * A box of an ISO base media file
+ */
+interface IsoBox {
+  type: string;
+  /** Box contents, after the header */
+  body: Buffer;
+}
+
+/**
+ * Splits ISO base media data into boxes
+ */
+function readBoxes(data: Buffer): IsoBox[] {
+  const boxes: IsoBox[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= data.length) {
+    let size = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (offset + 16 > data.length) break;
+      size = Number(data.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = data.length - offset;
+    }
+    if (size < headerSize || offset + size > data.length) {
+      throw new ExifReadError(`HEIF box "${type}" is truncated`);
+    }
+
+    boxes.push({ type, body: data.subarray(offset + headerSize, offset + size) });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+/**
+ * Reads an unsigned integer of 0, 2, 4 or 8 bytes
+ */
+function readSizedUInt(data: Buffer, offset: number, size: number): number {
+  switch (size) {
+    case 0:
+      return 0;
+    case 2:
+      return data.readUInt16BE(offset);
+    case 4:
+      return data.readUInt32BE(offset);
+    case 8:
+      return Number(data.readBigUInt64BE(offset));
+    default:
+      throw new ExifReadError(`Unsupported HEIF field size: ${size}`);
+  }
+}
+
+/**
+ * Finds the ID of the EXIF item in an item info box
+ */
+function findExifItemId(iinf: Buffer): number | undefined {
+  const version = iinf[0];
+  const entries = readBoxes(iinf.subarray(version === 0 ? 6 : 8));
+
+  for (const entry of entries) {
+    if (entry.type !== 'infe') continue;
+    const infeVersion = entry.body[0];
+    if (infeVersion < 2) continue;
+
+    const idSize = infeVersion === 2 ? 2 : 4;
+    const itemId = readSizedUInt(entry.body, 4, idSize);
+    const itemType = entry.body.toString('latin1', 4 + idSize + 2, 4 + idSize + 6);
+    if (itemType === 'Exif') return itemId;
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the file extents of an item in an item location box
+ */
+function findItemExtents(iloc: Buffer, itemId: number): Array<[number, number]> | undefined {
+  const version = iloc[0];
+  const offsetSize = iloc[4] >> 4;
+  const lengthSize = iloc[4] & 0x0f;
+  const baseOffsetSize = iloc[5] >> 4;
+  const indexSize = version === 1 || version === 2 ? iloc[5] & 0x0f : 0;
+
+  let offset = 6;
+  const itemCount = readSizedUInt(iloc, offset, version < 2 ? 2 : 4);
+  offset += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount; i++) {
+    const id = readSizedUInt(iloc, offset, version < 2 ? 2 : 4);
+    offset += version < 2 ? 2 : 4;
+
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = iloc.readUInt16BE(offset) & 0x0f;
+      offset += 2;
+    }
+    offset += 2; // data reference index
+    const baseOffset = readSizedUInt(iloc, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = iloc.readUInt16BE(offset);
+    offset += 2;
+
+    const extents: Array<[number, number]> = [];
+    for (let e = 0; e < extentCount; e++) {
+      offset += indexSize;
+      const extentOffset = readSizedUInt(iloc, offset, offsetSize);
+      offset += offsetSize;
+      const extentLength = readSizedUInt(iloc, offset, lengthSize);
+      offset += lengthSize;
+      extents.push([baseOffset + extentOffset, extentLength]);
+    }
+
+    if (id === itemId) {
+      // Only items stored at file offsets are supported
+      return constructionMethod === 0 ? extents : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the largest image spatial extent ('ispe') property of a HEIF file
+ */
+function findHeifDimensions(meta: IsoBox[]): ImageDimensions | undefined {
+  const iprp = meta.find((box) => box.type === 'iprp');
+  const ipco = iprp && readBoxes(iprp.body).find((box) => box.type === 'ipco');
+  if (!ipco) return undefined;
+
+  let largest: ImageDimensions | undefined;
+  for (const property of readBoxes(ipco.body)) {
+    if (property.type !== 'ispe' || property.body.length < 12) continue;
+    const width = property.body.readUInt32BE(4);
+    const height = property.body.readUInt32BE(8);
+    if (!largest || width * height > largest.width * largest.height) {
+      largest = { width, height };
+    }
+  }
+  return largest;
+}
+
+/**
+ * Finds the EXIF block and image size of a HEIC/HEIF file
+ */
+function readHeif(data: Buffer): { tiff?: Buffer; dimensions?: ImageDimensions } {
+  const metaBox = readBoxes(data).find((box) => box.type === 'meta');
+  if (!metaBox) return {};
+
+  // The meta box is a full box: skip its version and flags
+  const meta = readBoxes(metaBox.body.subarray(4));
+  const dimensions = findHeifDimensions(meta);
+
+  const iinf = meta.find((box) => box.type === 'iinf');
+  const iloc = meta.find((box) => box.type === 'iloc');
+  const itemId = iinf && findExifItemId(iinf.body);
+  const extents = itemId !== undefined && iloc ? findItemExtents(iloc.body, itemId) : undefined;
+  if (!extents || extents.length === 0) return { dimensions };
+
+  const item = Buffer.concat(
+    extents.map(([offset, length]) => data.subarray(offset, offset + length))
+  );
+  // The item starts with the offset of the TIFF header
+  if (item.length < 4) return { dimensions };
+  return { tiff: item.subarray(4 + item.readUInt32BE(0)), dimensions };
+}
+
+/**
+ * Returns true if the data starts with an ISO base media 'ftyp' box with a
+ * HEIF brand
+ */
+function isHeif(data: Buffer): boolean {
+  if (data.length < 12 || data.toString('latin1', 4, 8) !== 'ftyp') return false;
+
+  const size = Math.min(data.readUInt32BE(0), data.length);
+  for (let offset = 8; offset + 4 <= size; offset += 4) {
+    // Major brand, minor version (skipped as it never matches) and compatible brands
+    if (HEIF_BRANDS.has(data.toString('latin1', offset, offset + 4))) return true;
+  }
+  return false;
+}
+
+/**
+ * Reads the EXIF metadata of a JPEG, TIFF or HEIC/HEIF photo
+ *
+ * @param data - The image file contents
+ * @returns The metadata found; fields without a value are omitted
+ * @throws ExifReadError if the file is not a JPEG, TIFF or HEIF image or its
+ *   metadata is malformed
+ */
+export function readExif(data: Buffer): ExifData {
+  let tiff: Buffer | undefined;
+  let containerDimensions: ImageDimensions | undefined;
+
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    tiff = findJpegExif(data);
+    containerDimensions = readImageDimensions(data, 'image/jpeg') ?? undefined;
+  } else if (['II*\0', 'MM\0*'].includes(data.toString('latin1', 0, 4))) {
+    tiff = data;
+  } else if (isHeif(data)) {
+    ({ tiff, dimensions: containerDimensions } = readHeif(data));
+  } else {
+    throw new ExifReadError('Unsupported image format: expected JPEG, TIFF or HEIF');
+  }
+
+  const tags: TiffTags = tiff ? readTiffTags(tiff) : { exif: {}, rotated: false };
+  const result = tags.exif;
+
+  const dimensions = result.dimensions ?? containerDimensions;
+  if (dimensions) {
+    result.dimensions = tags.rotated
+      ? { width: dimensions.height, height: dimensions.width }
+      : dimensions;
+  }
+
+  return result;
+}
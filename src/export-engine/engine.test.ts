@@ -4,6 +4,7 @@ import {
   ExportError,
   ExportConfig,
   ExportInput,
+  RasterFormat,
   PAGE_SIZES,
   DEFAULT_EXPORT_CONFIG,
   exportToSvg,
@@ -43,6 +44,8 @@ describe('ExportEngine', () => {
       const formats = ExportEngine.getAvailableFormats();
       expect(formats).toContain('svg');
       expect(formats).toContain('pdf');
+      expect(formats).toContain('eps');
+      expect(formats).toEqual(expect.arrayContaining(['png', 'jpeg', 'webp']));
     });
 
     it('should return page size presets', () => {
@@ -193,6 +196,70 @@ describe('ExportEngine', () => {
     });
   });
 
+  describe('EPS export', () => {
+    it('should export to EPS format', () => {
+      const engine = new ExportEngine();
+      const result = engine.exportToEps(sampleInput);
+
+      expect(result.format).toBe('eps');
+      expect(Buffer.isBuffer(result.data)).toBe(true);
+      expect((result.data as Buffer).toString('latin1')).toMatch(/^%!PS-Adobe-3\.0 EPSF-3\.0\n/);
+    });
+
+    it('should compute the BoundingBox from the page size', () => {
+      const engine = new ExportEngine();
+      const result = engine.exportToEps(sampleInput, { pageSize: 'A4', orientation: 'portrait' });
+      const eps = (result.data as Buffer).toString('latin1');
+
+      expect(result.widthMm).toBe(210);
+      expect(result.heightMm).toBe(297);
+      expect(eps).toContain('%%BoundingBox: 0 0 596 842');
+      expect(eps).toContain('%%HiResBoundingBox: 0 0 595.276 841.89');
+    });
+
+    it('should handle landscape and custom page sizes', () => {
+      const engine = new ExportEngine();
+      const landscape = engine.exportToEps(sampleInput, {
+        pageSize: 'Letter',
+        orientation: 'landscape',
+      });
+      const custom = engine.exportToEps(sampleInput, { pageSize: { width: 100, height: 50 } });
+
+      expect((landscape.data as Buffer).toString('latin1')).toContain('%%BoundingBox: 0 0 792 612');
+      expect((custom.data as Buffer).toString('latin1')).toContain('%%BoundingBox: 0 0 284 142');
+    });
+  });
+
+  describe('raster export', () => {
+    it('should export to PNG by default', async () => {
+      const engine = new ExportEngine();
+      const result = await engine.exportToRaster(sampleInput, { dpi: 72 });
+
+      expect(result.format).toBe('png');
+      expect((result.data as Buffer).subarray(1, 4).toString('ascii')).toBe('PNG');
+    });
+
+    it('should report the pixel size of the image', async () => {
+      const engine = new ExportEngine();
+      const result = await engine.exportToRaster(sampleInput, {
+        format: 'jpeg',
+        pageSize: 'A4',
+        orientation: 'landscape',
+        dpi: 72,
+      });
+
+      expect(result.widthPx).toBe(842);
+      expect(result.heightPx).toBe(595);
+    });
+
+    it('should reject non-raster formats', async () => {
+      const engine = new ExportEngine();
+      await expect(
+        engine.exportToRaster(sampleInput, { format: 'pdf' as RasterFormat })
+      ).rejects.toThrow(ExportError);
+    });
+  });
+
   describe('generic export method', () => {
     it('should export to SVG via generic export', async () => {
       const engine = new ExportEngine();
@@ -210,6 +277,22 @@ describe('ExportEngine', () => {
       expect(Buffer.isBuffer(result.data)).toBe(true);
     });
 
+    it('should export to EPS via generic export', async () => {
+      const engine = new ExportEngine();
+      const result = await engine.export(sampleInput, { format: 'eps' });
+
+      expect(result.format).toBe('eps');
+      expect((result.data as Buffer).toString('latin1')).toContain('%%EOF');
+    });
+
+    it('should export to WebP via generic export', async () => {
+      const engine = new ExportEngine();
+      const result = await engine.export(sampleInput, { format: 'webp', dpi: 72 });
+
+      expect(result.format).toBe('webp');
+      expect((result.data as Buffer).subarray(8, 12).toString('ascii')).toBe('WEBP');
+    });
+
     it('should use default format when not specified', async () => {
       const engine = new ExportEngine({ format: 'svg' });
       const result = await engine.export(sampleInput);
@@ -222,10 +305,17 @@ describe('ExportEngine', () => {
     it('should throw ExportError for unsupported format', async () => {
       const engine = new ExportEngine();
       await expect(
-        engine.export(sampleInput, { format: 'eps' as ExportConfig['format'] })
+        engine.export(sampleInput, { format: 'tiff' as ExportConfig['format'] })
       ).rejects.toThrow(ExportError);
     });
 
+    it('should throw ExportError for invalid quality', async () => {
+      const engine = new ExportEngine();
+      await expect(engine.export(sampleInput, { format: 'jpeg', quality: 0 })).rejects.toThrow(
+        ExportError
+      );
+    });
+
     it('should throw ExportError for invalid DPI', async () => {
       const engine = new ExportEngine();
       await expect(engine.export(sampleInput, { dpi: 50 })).rejects.toThrow(ExportError);
@@ -1,7 +1,8 @@
 /**
  * Export Engine - Main entry point for export functionality
  *
- * Handles exporting maps to various print-ready formats (SVG, PDF)
+ * Handles exporting maps to various print-ready formats (SVG, PDF, EPS) and
+ * raster images (PNG, JPEG, WebP)
  */
 
 import {
@@ -9,6 +10,8 @@ import {
   ExportResult,
   ExportInput,
   ExportFormat,
+  RasterFormat,
+  RASTER_FORMATS,
   DEFAULT_EXPORT_CONFIG,
   PageSizePreset,
   PageOrientation,
@@ -16,6 +19,8 @@ import {
 } from './types';
 import { exportToSvg } from './svg-exporter';
 import { exportToPdf } from './pdf-exporter';
+import { exportToEps } from './eps-exporter';
+import { exportToRaster } from './raster-exporter';
 
 /**
  * Error thrown when export operations fail
@@ -34,7 +39,7 @@ export class ExportError extends Error {
  * Validates export configuration
  */
 function validateConfig(config: Partial<ExportConfig>): void {
-  if (config.format && !['svg', 'pdf'].includes(config.format)) {
+  if (config.format && !ExportEngine.getAvailableFormats().includes(config.format)) {
     throw new ExportError(`Unsupported export format: ${config.format}`);
   }
 
@@ -42,6 +47,10 @@ function validateConfig(config: Partial<ExportConfig>): void {
     throw new ExportError(`DPI must be between 72 and 1200, got: ${config.dpi}`);
   }
 
+  if (config.quality !== undefined && !(config.quality >= 1 && config.quality <= 100)) {
+    throw new ExportError(`Quality must be between 1 and 100, got: ${config.quality}`);
+  }
+
   if (config.pageSize !== undefined) {
     if (typeof config.pageSize === 'string') {
       if (!Object.keys(PAGE_SIZES).includes(config.pageSize)) {
@@ -112,6 +121,12 @@ export class ExportEngine {
           return exportToSvg(input, mergedConfig);
         case 'pdf':
           return await exportToPdf(input, mergedConfig);
+        case 'eps':
+          return exportToEps(input, mergedConfig);
+        case 'png':
+        case 'jpeg':
+        case 'webp':
+          return await exportToRaster(input, mergedConfig);
       }
     } catch (error) {
       if (error instanceof ExportError) {
@@ -164,11 +179,58 @@ export class ExportEngine {
     return exportToPdf(input, mergedConfig);
   }
 
+  /**
+   * Export content to Encapsulated PostScript (EPS) format
+   *
+   * @param input - The SVG content to export
+   * @param config - Export configuration (optional)
+   * @returns Export result with EPS buffer
+   */
+  exportToEps(input: ExportInput, config?: Partial<ExportConfig>): ExportResult {
+    const mergedConfig: ExportConfig = {
+      ...this.defaultConfig,
+      ...config,
+      format: 'eps',
+    };
+
+    validateConfig(mergedConfig);
+    validateInput(input);
+
+    return exportToEps(input, mergedConfig);
+  }
+
+  /**
+   * Export content to a raster image (PNG, JPEG or WebP)
+   *
+   * @param input - The SVG content to export
+   * @param config - Export configuration (optional, `format` defaults to 'png')
+   * @returns Promise resolving to export result with the image buffer
+   * @throws ExportError if the format is not a raster format
+   */
+  async exportToRaster(
+    input: ExportInput,
+    config?: Partial<Omit<ExportConfig, 'format'>> & { format?: RasterFormat }
+  ): Promise<ExportResult> {
+    const mergedConfig: ExportConfig = {
+      ...this.defaultConfig,
+      ...config,
+      format: config?.format ?? 'png',
+    };
+
+    if (!RASTER_FORMATS.includes(mergedConfig.format as RasterFormat)) {
+      throw new ExportError(`Not a raster format: ${mergedConfig.format}`);
+    }
+    validateConfig(mergedConfig);
+    validateInput(input);
+
+    return exportToRaster(input, mergedConfig);
+  }
+
   /**
    * Get available export formats
    */
   static getAvailableFormats(): ExportFormat[] {
-    return ['svg', 'pdf'];
+    return ['svg', 'pdf', 'eps', ...RASTER_FORMATS];
   }
 
   /**
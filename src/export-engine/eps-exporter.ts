@@ -0,0 +1,160 @@
+/**
+ * EPS export functionality
+ *
+ * Handles Encapsulated PostScript export for professional print workflows
+ */
+
+import { ExportConfig, ExportResult, ExportInput, PAGE_SIZES, PageSizePreset } from './types';
+import { buildScene } from './svg-scene';
+import { PostScriptSceneRenderer, psNumber, psString } from './eps-renderer';
+
+/**
+ * Convert millimeters to PostScript points (1 inch = 72 points)
+ */
+function mmToPoints(mm: number): number {
+  return (mm / 25.4) * 72;
+}
+
+/**
+ * Get page dimensions in millimeters based on config
+ */
+function getPageDimensionsMm(
+  pageSize: PageSizePreset | { width: number; height: number },
+  orientation: 'portrait' | 'landscape'
+): { widthMm: number; heightMm: number } {
+  let widthMm: number;
+  let heightMm: number;
+
+  if (typeof pageSize === 'string') {
+    const preset = PAGE_SIZES[pageSize];
+    widthMm = preset.width;
+    heightMm = preset.height;
+  } else {
+    widthMm = pageSize.width;
+    heightMm = pageSize.height;
+  }
+
+  // Swap dimensions for landscape orientation
+  if (orientation === 'landscape') {
+    [widthMm, heightMm] = [heightMm, widthMm];
+  }
+
+  return { widthMm, heightMm };
+}
+
+/**
+ * Convert millimeters to pixels at given DPI
+ */
+function mmToPixels(mm: number, dpi: number): number {
+  return Math.round((mm / 25.4) * dpi);
+}
+
+/**
+ * Procedures shared by the page content
+ */
+const PROLOG = [
+  '/picmap_dict 16 dict def',
+  'picmap_dict begin',
+  '/m /moveto load def',
+  '/l /lineto load def',
+  '/c /curveto load def',
+  '/h /closepath load def',
+  '% newname basename pm_reencode -: defines an ISO Latin-1 copy of a font',
+  '/pm_reencode {',
+  '  findfont dup length dict begin',
+  '  { 1 index /FID ne { def } { pop pop } ifelse } forall',
+  '  /Encoding ISOLatin1Encoding def',
+  '  currentdict end definefont pop',
+  '} bind def',
+  'end',
+];
+
+/**
+ * Exports content to Encapsulated PostScript (EPS) format
+ *
+ * The BoundingBox covers the full page from the configuration, and the
+ * content is scaled to fit and centered on the page like the PDF export.
+ *
+ * @param input - The SVG content to export
+ * @param config - Export configuration options
+ * @returns Export result with the EPS file as a buffer
+ */
+export function exportToEps(input: ExportInput, config: ExportConfig): ExportResult {
+  const dpi = config.dpi || 300;
+  const { widthMm, heightMm } = getPageDimensionsMm(config.pageSize, config.orientation);
+  const widthPt = mmToPoints(widthMm);
+  const heightPt = mmToPoints(heightMm);
+
+  const widthPx = mmToPixels(widthMm, dpi);
+  const heightPx = mmToPixels(heightMm, dpi);
+
+  const scene = buildScene(input.svg);
+
+  // Calculate scale to fit SVG content into the page
+  const scale = Math.min(widthPt / input.width, heightPt / input.height);
+  const offsetX = (widthPt - input.width * scale) / 2;
+  const offsetY = (heightPt - input.height * scale) / 2;
+
+  // Map the document's own size onto the input dimensions
+  const contentScaleX = scene.width > 0 ? input.width / scene.width : 1;
+  const contentScaleY = scene.height > 0 ? input.height / scene.height : 1;
+
+  const renderer = new PostScriptSceneRenderer();
+  renderer.render(scene.root);
+  const fonts = renderer.usedFonts;
+
+  const parts: string[] = [];
+
+  // Document structuring comments
+  parts.push('%!PS-Adobe-3.0 EPSF-3.0');
+  parts.push(`%%BoundingBox: 0 0 ${Math.ceil(widthPt)} ${Math.ceil(heightPt)}`);
+  parts.push(`%%HiResBoundingBox: 0 0 ${psNumber(widthPt)} ${psNumber(heightPt)}`);
+  parts.push(`%%Title: ${psString(config.title || 'Pic-Map Export')}`);
+  parts.push(`%%For: ${psString(config.author || 'Pic-Map')}`);
+  parts.push('%%Creator: Pic-Map Export Engine');
+  parts.push(`%%CreationDate: ${new Date().toISOString()}`);
+  parts.push('%%LanguageLevel: 3');
+  parts.push('%%DocumentData: Clean7Bit');
+  if (fonts.length > 0) {
+    parts.push(`%%DocumentNeededResources: ${fonts.map((font) => `font ${font}`).join('\n%%+ ')}`);
+  }
+  parts.push('%%Pages: 1');
+  parts.push('%%EndComments');
+
+  parts.push('%%BeginProlog');
+  parts.push(...PROLOG);
+  parts.push('%%EndProlog');
+
+  parts.push('%%BeginSetup');
+  parts.push('picmap_dict begin');
+  for (const font of fonts) {
+    parts.push(`%%IncludeResource: font ${font}`);
+    parts.push(`/${font}-Latin1 /${font} pm_reencode`);
+  }
+  parts.push('end');
+  parts.push('%%EndSetup');
+
+  parts.push('%%Page: 1 1');
+  parts.push('picmap_dict begin');
+  parts.push('gsave');
+  // Flip to the top-down coordinate system used by SVG
+  parts.push(`0 ${psNumber(heightPt)} translate 1 -1 scale`);
+  parts.push(`${psNumber(offsetX)} ${psNumber(offsetY)} translate`);
+  parts.push(`${psNumber(scale * contentScaleX)} ${psNumber(scale * contentScaleY)} scale`);
+  parts.push(renderer.toString());
+  parts.push('grestore');
+  parts.push('end');
+  parts.push('showpage');
+
+  parts.push('%%Trailer');
+  parts.push('%%EOF');
+
+  return {
+    data: Buffer.from(parts.join('\n') + '\n', 'latin1'),
+    format: 'eps',
+    widthMm,
+    heightMm,
+    widthPx,
+    heightPx,
+  };
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { PostScriptSceneRenderer, ascii85, psNumber, psString } from './eps-renderer';
+import { buildScene } from './svg-scene';
+
+/**
+ * Renders SVG to PostScript page operators
+ */
+function renderPs(svg: string): string {
+  const renderer = new PostScriptSceneRenderer();
+  renderer.render(buildScene(svg).root);
+  return renderer.toString();
+}
+
+// A 1x1 red PNG
+const PNG_DATA_URI =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+/**
+ * Builds the header of a 3-component baseline JPEG file
+ */
+function createJpegHeader(width: number, height: number): Buffer {
+  const sof0 = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03]);
+  sof0.writeUInt16BE(height, 5);
+  sof0.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), sof0, Buffer.alloc(9)]);
+}
+
+function svg(content: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="200" height="100">${content}</svg>`;
+}
+
+describe('psNumber', () => {
+  it('should round to three decimals', () => {
+    expect(psNumber(1.23456)).toBe('1.235');
+    expect(psNumber(2)).toBe('2');
+    expect(psNumber(-0.0001)).toBe('0');
+  });
+});
+
+describe('psString', () => {
+  it('should escape delimiters and backslashes', () => {
+    expect(psString('a (b) \\ c')).toBe('(a \\(b\\) \\\\ c)');
+  });
+
+  it('should encode Latin-1 characters as octal escapes', () => {
+    expect(psString('Café')).toBe('(Caf\\351)');
+    expect(psString('a\nb')).toBe('(a\\012b)');
+  });
+
+  it('should replace characters outside Latin-1', () => {
+    expect(psString('東京')).toBe('(??)');
+  });
+});
+
+describe('ascii85', () => {
+  it('should encode full and partial groups', () => {
+    expect(ascii85(Buffer.from('Man '))).toBe('9jqo^~>');
+    expect(ascii85(Buffer.from('Man'))).toBe('9jqo~>');
+  });
+
+  it('should abbreviate zero groups', () => {
+    expect(ascii85(Buffer.alloc(8))).toBe('zz~>');
+  });
+
+  it('should wrap long output', () => {
+    const lines = ascii85(Buffer.alloc(400, 0xab)).split('\n');
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.every((line) => line.length <= 76)).toBe(true);
+  });
+});
+
+describe('PostScriptSceneRenderer', () => {
+  it('should draw paths with fill and stroke', () => {
+    const ps = renderPs(
+      svg('<path d="M10 10 L50 10 L50 50 Z" fill="#ff0000" stroke="blue" stroke-width="2"/>')
+    );
+
+    expect(ps).toContain('10 10 m');
+    expect(ps).toContain('50 10 l');
+    expect(ps).toContain('1 0 0 setrgbcolor');
+    expect(ps).toMatch(/fill/);
+    expect(ps).toContain('2 setlinewidth');
+    expect(ps).toContain('0 0 1 setrgbcolor');
+    expect(ps).toMatch(/stroke/);
+  });
+
+  it('should use eofill for evenodd fills', () => {
+    const ps = renderPs(svg('<rect width="10" height="10" fill-rule="evenodd"/>'));
+
+    expect(ps).toContain('eofill');
+  });
+
+  it('should apply group transforms inside gsave/grestore', () => {
+    const ps = renderPs(svg('<g transform="translate(10 20)"><rect width="5" height="5"/></g>'));
+
+    expect(ps).toContain('gsave');
+    expect(ps).toContain('[1 0 0 1 10 20] concat');
+    expect(ps).toContain('grestore');
+  });
+
+  it('should blend translucent colors with white paper', () => {
+    const ps = renderPs(svg('<rect width="10" height="10" fill="#000000" fill-opacity="0.5"/>'));
+
+    expect(ps).toContain('0.5 0.5 0.5 setrgbcolor');
+  });
+
+  it('should draw gradients as shadings', () => {
+    const ps = renderPs(
+      svg(
+        '<defs><linearGradient id="g"><stop offset="0" stop-color="red"/>' +
+          '<stop offset="1" stop-color="blue"/></linearGradient></defs>' +
+          '<rect width="100" height="50" fill="url(#g)"/>'
+      )
+    );
+
+    expect(ps).toContain('/ShadingType 2');
+    expect(ps).toContain('shfill');
+  });
+
+  it('should show text in re-encoded standard fonts', () => {
+    const renderer = new PostScriptSceneRenderer();
+    renderer.render(
+      buildScene(svg('<text x="10" y="20" font-family="Georgia" font-weight="bold">Café</text>'))
+        .root
+    );
+    const ps = renderer.toString();
+
+    expect(renderer.usedFonts).toEqual(['Times-Bold']);
+    expect(ps).toContain('/Times-Bold-Latin1');
+    expect(ps).toContain('selectfont');
+    expect(ps).toContain('(Caf\\351) show');
+  });
+
+  it('should anchor text using the measured string width', () => {
+    const ps = renderPs(svg('<text x="100" y="20" text-anchor="middle">Centered</text>'));
+
+    expect(ps).toContain('(Centered) stringwidth');
+    expect(ps).toContain('2 div');
+  });
+
+  it('should stroke text halos with charpath', () => {
+    const ps = renderPs(
+      svg('<text x="10" y="20" stroke="white" stroke-width="3" paint-order="stroke">Halo</text>')
+    );
+
+    expect(ps.indexOf('charpath')).toBeGreaterThan(-1);
+    expect(ps.indexOf('charpath')).toBeLessThan(ps.indexOf('(Halo) show'));
+  });
+
+  it('should embed PNG images as RGB data', () => {
+    const ps = renderPs(
+      svg(`<image x="10" y="10" width="20" height="20" xlink:href="${PNG_DATA_URI}"/>`)
+    );
+
+    expect(ps).toContain('/DeviceRGB setcolorspace');
+    expect(ps).toContain('/Width 1 /Height 1');
+    expect(ps).toContain('/FlateDecode filter');
+    expect(ps).toMatch(/~>/);
+  });
+
+  it('should embed JPEG images with DCTDecode', () => {
+    const jpeg = createJpegHeader(4, 2).toString('base64');
+    const ps = renderPs(
+      svg(`<image width="40" height="20" href="data:image/jpeg;base64,${jpeg}"/>`)
+    );
+
+    expect(ps).toContain('/DeviceRGB setcolorspace');
+    expect(ps).toContain('/Width 4 /Height 2');
+    expect(ps).toContain('/DCTDecode filter');
+  });
+
+  it('should skip remote images', () => {
+    const ps = renderPs(
+      svg('<image width="40" height="20" href="https://example.com/photo.jpg"/>')
+    );
+
+    expect(ps).not.toContain('image');
+  });
+
+  it('should keep lines within the DSC line length limit', () => {
+    const points = Array.from({ length: 200 }, (_, i) => `${i * 1.5},${i % 7}`).join(' ');
+    const ps = renderPs(svg(`<polyline points="${points}" stroke="black" fill="none"/>`));
+
+    expect(ps.split('\n').every((line) => line.length <= 255)).toBe(true);
+  });
+});
@@ -0,0 +1,619 @@
+/**
+ * PostScript rendering of resolved SVG scenes
+ *
+ * Converts a scene built by `buildScene` into LanguageLevel 3 PostScript
+ * drawing operators. PostScript has no transparency, so semi-transparent
+ * solid colors are blended with the (white) paper, fully transparent paint is
+ * omitted, and gradients with semi-transparent stops are skipped.
+ */
+
+import { deflateSync } from 'zlib';
+import { loadImage, LoadedImage } from '../compositor/image-loader';
+import { IDENTITY_MATRIX, Matrix, PathCommand, multiplyMatrix, pathBounds } from './svg-geometry';
+import {
+  GradientStop,
+  Paint,
+  SceneGroup,
+  SceneImage,
+  SceneNode,
+  ScenePath,
+  SceneText,
+  SceneTextRun,
+  placeBox,
+} from './svg-scene';
+import { Color } from './svg-style';
+import { standardFontName } from './pdf-renderer';
+import { decodePng } from './png-decoder';
+
+/**
+ * Font metrics (per 1000 units of font size) used to place SVG text baselines
+ */
+const FONT_METRICS: Record<string, { ascender: number; descender: number; xHeight: number }> = {
+  Helvetica: { ascender: 718, descender: -207, xHeight: 523 },
+  Times: { ascender: 683, descender: -217, xHeight: 450 },
+  Courier: { ascender: 629, descender: -157, xHeight: 426 },
+};
+
+/**
+ * JPEG start-of-frame markers that carry the image dimensions and components
+ */
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+/**
+ * Formats a number for PostScript output
+ */
+export function psNumber(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * Encodes text as a PostScript string literal in ISO Latin-1
+ * (characters outside Latin-1 are replaced with '?')
+ */
+export function psString(text: string): string {
+  let result = '(';
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (char === '(' || char === ')' || char === '\\') {
+      result += '\\' + char;
+    } else if (code >= 32 && code < 127) {
+      result += char;
+    } else if (code < 256) {
+      result += '\\' + code.toString(8).padStart(3, '0');
+    } else {
+      result += '?';
+    }
+  }
+  return result + ')';
+}
+
+/**
+ * Encodes binary data as ASCII85 (terminated with '~>'), wrapped to 76 columns
+ */
+export function ascii85(data: Buffer): string {
+  const parts: string[] = [];
+
+  for (let i = 0; i < data.length; i += 4) {
+    const remaining = Math.min(4, data.length - i);
+    const value =
+      ((data[i] << 24) >>> 0) +
+      ((data[i + 1] ?? 0) << 16) +
+      ((data[i + 2] ?? 0) << 8) +
+      (data[i + 3] ?? 0);
+
+    if (value === 0 && remaining === 4) {
+      parts.push('z');
+      continue;
+    }
+
+    let group = '';
+    let rest = value;
+    for (let j = 0; j < 5; j++) {
+      group = String.fromCharCode((rest % 85) + 33) + group;
+      rest = Math.floor(rest / 85);
+    }
+    // A partial final group only writes remaining + 1 characters
+    parts.push(group.slice(0, remaining + 1));
+  }
+
+  const encoded = parts.join('') + '~>';
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += 76) {
+    lines.push(encoded.slice(i, i + 76));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Breaks a line of PostScript at spaces outside string literals so that no
+ * line exceeds the 255 characters allowed by the DSC specification
+ */
+function wrapLine(line: string): string {
+  if (line.length <= 255) return line;
+
+  let result = '';
+  let segmentStart = 0;
+  let depth = 0;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (depth > 0 && char === '\\') {
+      i++;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ' ' && depth === 0 && i - segmentStart >= 200) {
+      result += line.slice(segmentStart, i) + '\n';
+      segmentStart = i + 1;
+    }
+  }
+  return result + line.slice(segmentStart);
+}
+
+/**
+ * Blends a color with white paper at the given opacity
+ */
+function blendWithPaper(color: Color, alpha: number): Color {
+  return {
+    r: 255 + (color.r - 255) * alpha,
+    g: 255 + (color.g - 255) * alpha,
+    b: 255 + (color.b - 255) * alpha,
+    a: 1,
+  };
+}
+
+function psColor(color: Color): string {
+  return [color.r, color.g, color.b].map((channel) => psNumber(channel / 255)).join(' ');
+}
+
+/**
+ * Reads the component count of a JPEG image and whether it uses Adobe's inverted CMYK
+ */
+function readJpegComponents(data: Buffer): { components: number; adobe: boolean } | null {
+  let offset = 2;
+  let adobe = false;
+
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = data[offset + 1];
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+
+    if (marker === 0xee && data.toString('ascii', offset + 4, offset + 9) === 'Adobe') {
+      adobe = true;
+    }
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return { components: data[offset + 9], adobe };
+    }
+
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+/**
+ * Converts scene nodes to PostScript operators
+ */
+export class PostScriptSceneRenderer {
+  private readonly parts: string[] = [];
+  private readonly fonts = new Set<string>();
+  private readonly images = new Map<string, LoadedImage | null>();
+
+  /**
+   * @param baseDir - Directory used to resolve relative image paths
+   */
+  constructor(private readonly baseDir?: string) {}
+
+  /**
+   * Standard fonts used by the rendered text (to be re-encoded in the document setup)
+   */
+  get usedFonts(): string[] {
+    return [...this.fonts].sort();
+  }
+
+  /**
+   * Returns the generated PostScript operators
+   */
+  toString(): string {
+    return this.parts.join('\n').split('\n').map(wrapLine).join('\n');
+  }
+
+  /**
+   * Converts a node and its descendants
+   * @param node - Scene node
+   * @param opacity - Accumulated opacity of the enclosing groups
+   */
+  render(node: SceneNode, opacity = 1): void {
+    switch (node.type) {
+      case 'group':
+        this.renderGroup(node, opacity);
+        break;
+      case 'path':
+        this.renderPath(node, opacity);
+        break;
+      case 'text':
+        this.renderText(node, opacity);
+        break;
+      case 'image':
+        this.renderImage(node, opacity);
+        break;
+    }
+  }
+
+  private renderGroup(group: SceneGroup, opacity: number): void {
+    const groupOpacity = opacity * group.opacity;
+    if (groupOpacity <= 0 || group.children.length === 0) return;
+
+    this.parts.push('gsave');
+    if (group.transform.some((value, index) => value !== IDENTITY_MATRIX[index])) {
+      this.parts.push(`[${group.transform.map(psNumber).join(' ')}] concat`);
+    }
+    if (group.clip) {
+      this.tracePath(group.clip.commands);
+      this.parts.push(group.clip.rule === 'evenodd' ? 'eoclip newpath' : 'clip newpath');
+    }
+    for (const child of group.children) {
+      this.render(child, groupOpacity);
+    }
+    this.parts.push('grestore');
+  }
+
+  /**
+   * Emits path construction operators for a new path
+   */
+  private tracePath(commands: PathCommand[]): void {
+    const path: string[] = ['newpath'];
+    for (const command of commands) {
+      switch (command.type) {
+        case 'M':
+          path.push(`${psNumber(command.x)} ${psNumber(command.y)} m`);
+          break;
+        case 'L':
+          path.push(`${psNumber(command.x)} ${psNumber(command.y)} l`);
+          break;
+        case 'C':
+          path.push(
+            [command.x1, command.y1, command.x2, command.y2, command.x, command.y]
+              .map(psNumber)
+              .join(' ') + ' c'
+          );
+          break;
+        case 'Z':
+          path.push('h');
+          break;
+      }
+    }
+    this.parts.push(path.join(' '));
+  }
+
+  /**
+   * Resolves a paint to an opaque color at the given opacity
+   * @returns The color, or null if nothing would be painted
+   */
+  private solidColor(paint: Paint, opacity: number): Color | null {
+    const color = paint.type === 'color' ? paint.color : paint.stops[0]?.color;
+    if (!color) return null;
+    const alpha = color.a * opacity;
+    if (alpha <= 0.001) return null;
+    return alpha >= 0.999 ? color : blendWithPaper(color, alpha);
+  }
+
+  /**
+   * Builds a shading dictionary for a gradient, or null if it cannot be
+   * represented without transparency
+   */
+  private shading(paint: Exclude<Paint, { type: 'color' }>, opacity: number): string | null {
+    if (paint.stops.some((stop) => stop.color.a < 0.999)) return null;
+
+    const stops: GradientStop[] = paint.stops.map((stop) => ({
+      offset: stop.offset,
+      color: opacity >= 0.999 ? stop.color : blendWithPaper(stop.color, opacity),
+    }));
+    // The end colors extend to the edges of the 0-1 gradient range
+    if (stops[0].offset > 0) stops.unshift({ ...stops[0], offset: 0 });
+    if (stops[stops.length - 1].offset < 1) stops.push({ ...stops[stops.length - 1], offset: 1 });
+
+    const functions = stops
+      .slice(1)
+      .map(
+        (stop, index) =>
+          `<< /FunctionType 2 /Domain [0 1] /C0 [${psColor(stops[index].color)}] ` +
+          `/C1 [${psColor(stop.color)}] /N 1 >>`
+      );
+    const bounds = stops.slice(1, -1).map((stop) => psNumber(stop.offset));
+    const encode = functions.map(() => '0 1').join(' ');
+    const coords =
+      paint.type === 'linear-gradient'
+        ? [paint.x1, paint.y1, paint.x2, paint.y2]
+        : [paint.fx, paint.fy, 0, paint.cx, paint.cy, paint.r];
+
+    return (
+      `<< /ShadingType ${paint.type === 'linear-gradient' ? 2 : 3} ` +
+      `/Coords [${coords.map(psNumber).join(' ')}] /ColorSpace /DeviceRGB /Extend [true true] ` +
+      `/Function << /FunctionType 3 /Domain [0 1] /Functions [${functions.join(' ')}] ` +
+      `/Bounds [${bounds.join(' ')}] /Encode [${encode}] >> >>`
+    );
+  }
+
+  /**
+   * Paints the current path (which must already be traced) with a gradient
+   * @param clipOperator - Operator that turns the current path into a clip
+   */
+  private paintGradient(
+    paint: Exclude<Paint, { type: 'color' }>,
+    shading: string,
+    commands: PathCommand[],
+    clipOperator: string
+  ): void {
+    let matrix: Matrix = paint.transform;
+    if (paint.units === 'objectBoundingBox') {
+      const bounds = pathBounds(commands);
+      matrix = multiplyMatrix([bounds.width, 0, 0, bounds.height, bounds.x, bounds.y], matrix);
+    }
+    this.parts.push(`gsave ${clipOperator}`);
+    this.parts.push(`[${matrix.map(psNumber).join(' ')}] concat`);
+    this.parts.push(`${shading} shfill`);
+    this.parts.push('grestore');
+  }
+
+  private renderPath(path: ScenePath, opacity: number): void {
+    if (path.fill) {
+      this.fillPath(path, path.fill, path.fillOpacity * opacity);
+    }
+    if (path.stroke) {
+      this.strokePath(path, path.stroke, path.strokeOpacity * opacity);
+    }
+  }
+
+  private fillPath(path: ScenePath, paint: Paint, opacity: number): void {
+    const evenOdd = path.fillRule === 'evenodd';
+
+    if (paint.type !== 'color') {
+      const bounds = pathBounds(path.commands);
+      const degenerate =
+        paint.units === 'objectBoundingBox' && (bounds.width === 0 || bounds.height === 0);
+      const shading = degenerate ? null : this.shading(paint, opacity);
+      if (shading) {
+        this.tracePath(path.commands);
+        this.paintGradient(paint, shading, path.commands, evenOdd ? 'eoclip' : 'clip');
+        return;
+      }
+      if (degenerate || paint.stops.some((stop) => stop.color.a < 0.999)) return;
+    }
+
+    const color = this.solidColor(paint, opacity);
+    if (!color) return;
+    this.tracePath(path.commands);
+    this.parts.push(`${psColor(color)} setrgbcolor ${evenOdd ? 'eofill' : 'fill'}`);
+  }
+
+  private strokeStyle(path: ScenePath): string {
+    const caps = { butt: 0, round: 1, square: 2 };
+    const joins = { miter: 0, round: 1, bevel: 2 };
+    return (
+      `${psNumber(path.strokeWidth)} setlinewidth ${caps[path.lineCap]} setlinecap ` +
+      `${joins[path.lineJoin]} setlinejoin ${psNumber(path.miterLimit)} setmiterlimit ` +
+      `[${path.dashArray.map(psNumber).join(' ')}] ${psNumber(path.dashOffset)} setdash`
+    );
+  }
+
+  private strokePath(path: ScenePath, paint: Paint, opacity: number): void {
+    if (paint.type !== 'color') {
+      const shading = this.shading(paint, opacity);
+      if (shading) {
+        this.tracePath(path.commands);
+        this.parts.push(this.strokeStyle(path));
+        this.paintGradient(paint, shading, path.commands, 'strokepath clip');
+        return;
+      }
+      if (paint.stops.some((stop) => stop.color.a < 0.999)) return;
+    }
+
+    const color = this.solidColor(paint, opacity);
+    if (!color) return;
+    this.tracePath(path.commands);
+    this.parts.push(`${psColor(color)} setrgbcolor ${this.strokeStyle(path)} stroke`);
+  }
+
+  /**
+   * Returns the PostScript operand that selects a run's font (flipped for y-down space)
+   */
+  private selectFont(run: SceneTextRun): string {
+    const font = standardFontName(run.font);
+    this.fonts.add(font);
+    const size = psNumber(run.font.size);
+    return `/${font}-Latin1 [${size} 0 0 -${size} 0 0] selectfont`;
+  }
+
+  /**
+   * Calculates the baseline offset (in y-down space) for a dominant-baseline value
+   */
+  private baselineShift(run: SceneTextRun): number {
+    const family = standardFontName(run.font).split('-')[0];
+    const metrics = FONT_METRICS[family] ?? FONT_METRICS['Helvetica'];
+    const size = run.font.size / 1000;
+
+    switch (run.baseline) {
+      case 'central':
+        return ((metrics.ascender + metrics.descender) / 2) * size;
+      case 'middle':
+        return (metrics.xHeight / 2) * size;
+      case 'hanging':
+        return 0.8 * metrics.ascender * size;
+      case 'mathematical':
+        return 0.5 * metrics.ascender * size;
+      case 'text-before-edge':
+      case 'text-top':
+        return metrics.ascender * size;
+      case 'text-after-edge':
+      case 'text-bottom':
+      case 'ideographic':
+        return metrics.descender * size;
+      default:
+        return 0;
+    }
+  }
+
+  private renderText(text: SceneText, opacity: number): void {
+    const { parts } = this;
+    let index = 0;
+
+    parts.push('/pm_x 0 def /pm_y 0 def');
+
+    while (index < text.runs.length) {
+      // A text chunk starts at an absolute x position and is anchored as a whole
+      const chunk: SceneTextRun[] = [text.runs[index++]];
+      while (index < text.runs.length && text.runs[index].x === undefined) {
+        chunk.push(text.runs[index++]);
+      }
+
+      const start = chunk[0];
+      if (start.x !== undefined) {
+        parts.push(`/pm_x ${psNumber(start.x)} def`);
+      }
+      if (start.anchor !== 'start') {
+        // The chunk width is measured by the interpreter with the real font metrics
+        const widths = chunk
+          .filter((run) => run.text !== '')
+          .map((run) => `${this.selectFont(run)} ${psString(run.text)} stringwidth pop add`);
+        const dx = chunk.reduce((total, run) => total + run.dx, 0);
+        parts.push(
+          `0 ${widths.join(' ')} ${psNumber(dx)} add ${start.anchor === 'middle' ? '2 div ' : ''}` +
+            'pm_x exch sub /pm_x exch def'
+        );
+      }
+
+      for (const run of chunk) {
+        if (run.y !== undefined) parts.push(`/pm_y ${psNumber(run.y)} def`);
+        if (run.dx !== 0) parts.push(`/pm_x pm_x ${psNumber(run.dx)} add def`);
+        if (run.dy !== 0) parts.push(`/pm_y pm_y ${psNumber(run.dy)} add def`);
+        if (run.text === '') continue;
+
+        const string = psString(run.text);
+        const moveTo = `pm_x pm_y ${psNumber(this.baselineShift(run))} add moveto`;
+        parts.push(this.selectFont(run));
+
+        const drawFill = () => {
+          const color = run.fill && this.solidColor(run.fill, run.fillOpacity * opacity);
+          if (color) parts.push(`${moveTo} ${psColor(color)} setrgbcolor ${string} show`);
+        };
+        const drawStroke = () => {
+          const color =
+            run.stroke &&
+            run.strokeWidth > 0 &&
+            this.solidColor(run.stroke, run.strokeOpacity * opacity);
+          if (color) {
+            parts.push(
+              `newpath ${moveTo} ${string} false charpath ${psColor(color)} setrgbcolor ` +
+                `${psNumber(run.strokeWidth)} setlinewidth 1 setlinejoin [] 0 setdash stroke`
+            );
+          }
+        };
+
+        if (run.strokeFirst) {
+          drawStroke();
+          drawFill();
+        } else {
+          drawFill();
+          drawStroke();
+        }
+
+        parts.push(`/pm_x pm_x ${string} stringwidth pop add def`);
+      }
+    }
+  }
+
+  /**
+   * Loads an image once per href; unreadable or unsupported images are skipped
+   */
+  private loadSceneImage(href: string): LoadedImage | null {
+    if (!this.images.has(href)) {
+      let image: LoadedImage | null = null;
+      if (!/^(?!file:)[a-z][a-z0-9+.-]*:\/\//i.test(href)) {
+        try {
+          image = loadImage(href, this.baseDir);
+        } catch {
+          image = null;
+        }
+      }
+      this.images.set(href, image);
+    }
+    return this.images.get(href) ?? null;
+  }
+
+  /**
+   * Builds the image dictionary and data for an image
+   * @returns PostScript operators, or null if the image format cannot be embedded
+   */
+  private imageOperators(image: LoadedImage): { width: number; height: number; ps: string } | null {
+    if (image.mimeType === 'image/jpeg') {
+      const info = readJpegComponents(image.data);
+      const dimensions = image.dimensions;
+      if (!info || !dimensions || ![1, 3, 4].includes(info.components)) return null;
+
+      const colorSpace = { 1: '/DeviceGray', 3: '/DeviceRGB', 4: '/DeviceCMYK' }[info.components];
+      // Adobe CMYK JPEGs store inverted values
+      const decode = Array.from({ length: info.components }, () =>
+        info.components === 4 && info.adobe ? '1 0' : '0 1'
+      ).join(' ');
+      return {
+        ...dimensions,
+        ps:
+          `${colorSpace} setcolorspace\n` +
+          `<< /ImageType 1 /Width ${dimensions.width} /Height ${dimensions.height} ` +
+          `/BitsPerComponent 8 /Decode [${decode}] ` +
+          `/ImageMatrix [${dimensions.width} 0 0 ${dimensions.height} 0 0] ` +
+          '/DataSource currentfile /ASCII85Decode filter /DCTDecode filter >> image\n' +
+          ascii85(image.data),
+      };
+    }
+
+    if (image.mimeType === 'image/png') {
+      let decoded;
+      try {
+        decoded = decodePng(image.data);
+      } catch {
+        return null;
+      }
+
+      // PostScript images are opaque, so composite transparent pixels over white paper
+      const { width, height, pixels } = decoded;
+      const rgb = Buffer.alloc(width * height * 3);
+      for (let i = 0, j = 0; i < pixels.length; i += 4, j += 3) {
+        const alpha = pixels[i + 3] / 255;
+        rgb[j] = Math.round(255 + (pixels[i] - 255) * alpha);
+        rgb[j + 1] = Math.round(255 + (pixels[i + 1] - 255) * alpha);
+        rgb[j + 2] = Math.round(255 + (pixels[i + 2] - 255) * alpha);
+      }
+
+      return {
+        width,
+        height,
+        ps:
+          '/DeviceRGB setcolorspace\n' +
+          `<< /ImageType 1 /Width ${width} /Height ${height} /BitsPerComponent 8 ` +
+          `/Decode [0 1 0 1 0 1] /ImageMatrix [${width} 0 0 ${height} 0 0] ` +
+          '/DataSource currentfile /ASCII85Decode filter /FlateDecode filter >> image\n' +
+          ascii85(deflateSync(rgb)),
+      };
+    }
+
+    // WebP cannot be decoded without an external codec
+    return null;
+  }
+
+  private renderImage(node: SceneImage, opacity: number): void {
+    if (opacity <= 0) return;
+    const image = this.loadSceneImage(node.href);
+    const operators = image && this.imageOperators(image);
+    if (!operators) return;
+
+    const viewport = { x: node.x, y: node.y, width: node.width, height: node.height };
+    const box = placeBox(viewport, operators, node.preserveAspectRatio);
+
+    this.parts.push('gsave');
+    this.tracePath([
+      { type: 'M', x: viewport.x, y: viewport.y },
+      { type: 'L', x: viewport.x + viewport.width, y: viewport.y },
+      { type: 'L', x: viewport.x + viewport.width, y: viewport.y + viewport.height },
+      { type: 'L', x: viewport.x, y: viewport.y + viewport.height },
+      { type: 'Z' },
+    ]);
+    this.parts.push('clip newpath');
+    this.parts.push(
+      `${psNumber(box.x)} ${psNumber(box.y)} translate ${psNumber(box.width)} ${psNumber(box.height)} scale`
+    );
+    this.parts.push(operators.ps);
+    this.parts.push('grestore');
+  }
+}
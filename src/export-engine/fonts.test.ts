@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readFontFamilies, selectFonts } from './fonts';
+
+/**
+ * Builds a font with only a `name` table, placed `base` bytes into its file
+ */
+function createFont(families: string[], base = 0): Buffer {
+  const strings = families.map((family) => Buffer.from(family, 'utf16le').swap16());
+  const name = Buffer.alloc(6 + families.length * 12);
+  name.writeUInt16BE(families.length, 2);
+  name.writeUInt16BE(name.length, 4);
+  let offset = 0;
+  strings.forEach((string, i) => {
+    const record = 6 + i * 12;
+    name.writeUInt16BE(3, record);
+    name.writeUInt16BE(1, record + 2);
+    name.writeUInt16BE(0x409, record + 4);
+    name.writeUInt16BE(i === 0 ? 1 : 16, record + 6);
+    name.writeUInt16BE(string.length, record + 8);
+    name.writeUInt16BE(offset, record + 10);
+    offset += string.length;
+  });
+  const table = Buffer.concat([name, ...strings]);
+
+  const header = Buffer.alloc(28);
+  header.writeUInt32BE(0x00010000, 0);
+  header.writeUInt16BE(1, 4);
+  header.write('name', 12, 'latin1');
+  header.writeUInt32BE(base + header.length, 20);
+  header.writeUInt32BE(table.length, 24);
+  return Buffer.concat([header, table]);
+}
+
+/**
+ * Builds a font collection of fonts with one family each
+ */
+function createCollection(families: string[]): Buffer {
+  const header = Buffer.alloc(12 + families.length * 4);
+  header.write('ttcf', 0, 'latin1');
+  header.writeUInt32BE(0x00010000, 4);
+  header.writeUInt32BE(families.length, 8);
+  const fonts: Buffer[] = [];
+  let offset = header.length;
+  families.forEach((family, i) => {
+    header.writeUInt32BE(offset, 12 + i * 4);
+    fonts.push(createFont([family], offset));
+    offset += fonts[i].length;
+  });
+  return Buffer.concat([header, ...fonts]);
+}
+
+describe('fonts', () => {
+  let tempDir: string;
+  const font = (name: string) => join(tempDir, name);
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-fonts-'));
+    writeFileSync(font('Comic.ttf'), createFont(['Comic Sans MS']));
+    writeFileSync(font('DejaVuSans.ttf'), createFont(['DejaVu Sans']));
+    writeFileSync(font('DejaVuSans-Bold.ttf'), createFont(['DejaVu Sans', 'DejaVu Sans']));
+    writeFileSync(font('LiberationSerif.ttf'), createFont(['Liberation Serif']));
+    writeFileSync(font('Noto.ttc'), createCollection(['Noto Sans', 'Noto Sans Mono']));
+    writeFileSync(font('notes.ttf'), 'not a font');
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('readFontFamilies', () => {
+    it('should read the families of fonts and font collections', () => {
+      expect(readFontFamilies(font('Comic.ttf'))).toEqual(['Comic Sans MS']);
+      expect(readFontFamilies(font('DejaVuSans-Bold.ttf'))).toEqual(['DejaVu Sans']);
+      expect(readFontFamilies(font('Noto.ttc'))).toEqual(['Noto Sans', 'Noto Sans Mono']);
+    });
+
+    it('should throw for files that are not fonts', () => {
+      expect(() => readFontFamilies(font('notes.ttf'))).toThrow();
+      expect(() => readFontFamilies(font('missing.ttf'))).toThrow();
+    });
+  });
+
+  describe('selectFonts', () => {
+    const files = () =>
+      [
+        'Comic.ttf',
+        'DejaVuSans.ttf',
+        'DejaVuSans-Bold.ttf',
+        'LiberationSerif.ttf',
+        'notes.ttf',
+      ].map(font);
+
+    it('should choose only the fonts of the families in use', () => {
+      expect(selectFonts(['comic sans ms', 'Arial'], files())).toEqual({
+        files: [font('Comic.ttf')],
+        genericFamilies: {},
+      });
+    });
+
+    it('should draw generic families in an available common family', () => {
+      expect(selectFonts(['Arial', 'sans-serif', 'monospace'], files())).toEqual({
+        files: [font('DejaVuSans.ttf'), font('DejaVuSans-Bold.ttf')],
+        genericFamilies: { 'sans-serif': 'DejaVu Sans' },
+      });
+      expect(selectFonts(['monospace'], [font('Noto.ttc')])).toEqual({
+        files: [font('Noto.ttc')],
+        genericFamilies: { monospace: 'Noto Sans Mono' },
+      });
+    });
+  });
+});
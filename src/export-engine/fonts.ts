@@ -0,0 +1,207 @@
+/**
+ * Font files for text rendering
+ *
+ * Finds the installed fonts of the families a document uses, reading only the
+ * `name` tables of the font files rather than loading every system font.
+ */
+
+import { closeSync, openSync, readdirSync, readSync } from 'fs';
+import { homedir } from 'os';
+import { extname, join } from 'path';
+
+/**
+ * Directories searched for system fonts
+ */
+const SYSTEM_FONT_DIRECTORIES = [
+  '/usr/share/fonts',
+  '/usr/local/share/fonts',
+  join(homedir(), '.fonts'),
+  join(homedir(), '.local', 'share', 'fonts'),
+  '/Library/Fonts',
+  '/System/Library/Fonts',
+  'C:\\Windows\\Fonts',
+];
+
+const FONT_EXTENSIONS = new Set(['.ttf', '.otf', '.ttc']);
+
+/**
+ * Largest part of a font file read at once, in bytes
+ */
+const MAX_FONT_TABLE_LENGTH = 1 << 20;
+
+/**
+ * Generic font families with installed stand-ins
+ */
+export type GenericFontFamily = 'serif' | 'sans-serif' | 'monospace';
+
+/**
+ * Families drawn for the generic families, in order of preference
+ */
+const GENERIC_FONT_FAMILIES: Record<GenericFontFamily, string[]> = {
+  serif: ['Times New Roman', 'Times', 'Liberation Serif', 'DejaVu Serif', 'Noto Serif'],
+  'sans-serif': ['Arial', 'Helvetica', 'Liberation Sans', 'DejaVu Sans', 'Noto Sans'],
+  monospace: ['Courier New', 'Courier', 'Liberation Mono', 'DejaVu Sans Mono', 'Noto Sans Mono'],
+};
+
+/**
+ * Fonts chosen for a set of font families
+ */
+export interface FontSelection {
+  /** Font files of the families found */
+  files: string[];
+  /** Installed family drawn for each generic family in use */
+  genericFamilies: Partial<Record<GenericFontFamily, string>>;
+}
+
+// Family names of the system fonts, read once per process
+let systemFonts: Map<string, string[]> | null = null;
+
+/**
+ * Checks whether a lowercase family name is a generic family with stand-ins
+ */
+function isGenericFontFamily(family: string): family is GenericFontFamily {
+  return Object.prototype.hasOwnProperty.call(GENERIC_FONT_FAMILIES, family);
+}
+
+/**
+ * Recursively lists the font files in a directory (missing directories are ignored)
+ */
+function findFontFiles(directory: string): string[] {
+  let entries;
+  try {
+    entries = readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findFontFiles(path));
+    } else if (FONT_EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Decodes a name stored as UTF-16BE
+ */
+function decodeUtf16Be(bytes: Buffer): string {
+  const swapped = Buffer.from(bytes.subarray(0, bytes.length - (bytes.length % 2)));
+  return swapped.swap16().toString('utf16le');
+}
+
+/**
+ * Reads the family names of a TrueType or OpenType font file, or of the fonts
+ * of a collection, from their `name` tables
+ * @param file - Path of the font file
+ * @returns The family names (typographic and legacy)
+ * @throws Error if the file cannot be read or is not a font
+ */
+export function readFontFamilies(file: string): string[] {
+  const fd = openSync(file, 'r');
+  try {
+    const read = (offset: number, length: number): Buffer => {
+      if (length > MAX_FONT_TABLE_LENGTH) {
+        throw new Error(`Not a font file: ${file}`);
+      }
+      const buffer = Buffer.alloc(length);
+      const bytesRead = readSync(fd, buffer, 0, length, offset);
+      if (bytesRead < length) {
+        throw new Error(`Truncated font file: ${file}`);
+      }
+      return buffer;
+    };
+
+    let fontOffsets = [0];
+    if (read(0, 4).toString('latin1') === 'ttcf') {
+      const count = read(8, 4).readUInt32BE(0);
+      const offsets = read(12, count * 4);
+      fontOffsets = Array.from({ length: count }, (_, i) => offsets.readUInt32BE(i * 4));
+    }
+
+    const families = new Set<string>();
+    for (const fontOffset of fontOffsets) {
+      const tableCount = read(fontOffset + 4, 2).readUInt16BE(0);
+      const directory = read(fontOffset + 12, tableCount * 16);
+      for (let i = 0; i < tableCount; i++) {
+        if (directory.toString('latin1', i * 16, i * 16 + 4) !== 'name') continue;
+
+        const table = read(directory.readUInt32BE(i * 16 + 8), directory.readUInt32BE(i * 16 + 12));
+        const recordCount = table.readUInt16BE(2);
+        const storage = table.readUInt16BE(4);
+        for (let r = 0; r < recordCount; r++) {
+          const record = 6 + r * 12;
+          const platform = table.readUInt16BE(record);
+          const nameId = table.readUInt16BE(record + 6);
+          // 1: font family, 16: typographic family
+          if (nameId !== 1 && nameId !== 16) continue;
+
+          const start = storage + table.readUInt16BE(record + 10);
+          const bytes = table.subarray(start, start + table.readUInt16BE(record + 8));
+          const name = platform === 1 ? bytes.toString('latin1') : decodeUtf16Be(bytes);
+          if (name) families.add(name);
+        }
+      }
+    }
+    return Array.from(families);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Reads the family names of font files; unreadable files are left out
+ */
+function indexFonts(files: string[]): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const file of files) {
+    try {
+      index.set(file, readFontFamilies(file));
+    } catch {
+      // Not a font we can read; text falls back to the other fonts
+    }
+  }
+  return index;
+}
+
+/**
+ * Chooses the font files of a set of families
+ *
+ * Generic families (`serif`, `sans-serif` and `monospace`) are drawn in the
+ * first of a list of common families that is available.
+ * @param families - Font families in use, as in CSS `font-family` lists
+ * @param fontFiles - Font files to choose from (default: the system fonts)
+ * @returns The files of the families found, and the stand-ins for generic families
+ */
+export function selectFonts(families: string[], fontFiles?: string[]): FontSelection {
+  const index = fontFiles
+    ? indexFonts(fontFiles)
+    : (systemFonts ??= indexFonts(SYSTEM_FONT_DIRECTORIES.flatMap(findFontFiles)));
+  const available = new Set(
+    Array.from(index.values()).flatMap((names) => names.map((name) => name.toLowerCase()))
+  );
+
+  const wanted = new Set<string>();
+  const genericFamilies: FontSelection['genericFamilies'] = {};
+  for (const family of families) {
+    const key = family.toLowerCase();
+    if (!isGenericFontFamily(key)) {
+      wanted.add(key);
+      continue;
+    }
+    const standIn = GENERIC_FONT_FAMILIES[key].find((name) => available.has(name.toLowerCase()));
+    if (standIn) {
+      genericFamilies[key] = standIn;
+      wanted.add(standIn.toLowerCase());
+    }
+  }
+
+  const files = Array.from(index.entries())
+    .filter(([, names]) => names.some((name) => wanted.has(name.toLowerCase())))
+    .map(([file]) => file);
+  return { files, genericFamilies };
+}
@@ -6,3 +6,5 @@ export * from './types';
 export * from './engine';
 export { exportToSvg } from './svg-exporter';
 export { exportToPdf } from './pdf-exporter';
+export { exportToEps } from './eps-exporter';
+export { exportToRaster } from './raster-exporter';
@@ -6,6 +6,8 @@
 
 import PDFDocument from 'pdfkit';
 import { ExportConfig, ExportResult, ExportInput, PAGE_SIZES, PageSizePreset } from './types';
+import { buildScene } from './svg-scene';
+import { PdfSceneRenderer } from './pdf-renderer';
 
 /**
  * Convert millimeters to PDF points (1 inch = 72 points)
@@ -78,253 +80,6 @@ function mmToPixels(mm: number, dpi: number): number {
   return Math.round((mm / 25.4) * dpi);
 }
 
-/**
- * Parse color value from SVG format to PDF-compatible format
- */
-function parseColor(color: string): string {
-  // Handle rgb() format
-  const rgbMatch = color.match(/^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/);
-  if (rgbMatch) {
-    const r = parseInt(rgbMatch[1], 10).toString(16).padStart(2, '0');
-    const g = parseInt(rgbMatch[2], 10).toString(16).padStart(2, '0');
-    const b = parseInt(rgbMatch[3], 10).toString(16).padStart(2, '0');
-    return `#${r}${g}${b}`;
-  }
-
-  // Return as-is for hex colors and named colors
-  return color;
-}
-
-/**
- * Simple SVG element parser for basic elements
- */
-interface SvgElement {
-  type: string;
-  attrs: Record<string, string>;
-}
-
-/**
- * Extract attributes from an SVG element string
- * Handles double-quoted and single-quoted attribute values
- */
-function extractAttributes(elementStr: string): Record<string, string> {
-  const attrs: Record<string, string> = {};
-  // Match attributes with double quotes, single quotes, or unquoted values
-  const attrRegex = /(\w[\w-]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|(\S+))/g;
-  let match: RegExpExecArray | null;
-
-  while ((match = attrRegex.exec(elementStr)) !== null) {
-    // Value is in group 2 (double quote), 3 (single quote), or 4 (unquoted)
-    attrs[match[1]] = match[2] ?? match[3] ?? match[4];
-  }
-
-  return attrs;
-}
-
-/**
- * Parse SVG elements from SVG content
- */
-function parseSvgElements(svg: string): SvgElement[] {
-  const elements: SvgElement[] = [];
-
-  // Extract rect elements
-  const rectRegex = /<rect\s+([^/>]+)\/?>/g;
-  let match: RegExpExecArray | null;
-
-  while ((match = rectRegex.exec(svg)) !== null) {
-    elements.push({
-      type: 'rect',
-      attrs: extractAttributes(match[1]),
-    });
-  }
-
-  // Extract line elements
-  const lineRegex = /<line\s+([^/>]+)\/?>/g;
-  while ((match = lineRegex.exec(svg)) !== null) {
-    elements.push({
-      type: 'line',
-      attrs: extractAttributes(match[1]),
-    });
-  }
-
-  // Extract circle elements
-  const circleRegex = /<circle\s+([^/>]+)\/?>/g;
-  while ((match = circleRegex.exec(svg)) !== null) {
-    elements.push({
-      type: 'circle',
-      attrs: extractAttributes(match[1]),
-    });
-  }
-
-  // Extract path elements
-  const pathRegex = /<path\s+([^/>]+)\/?>/g;
-  while ((match = pathRegex.exec(svg)) !== null) {
-    elements.push({
-      type: 'path',
-      attrs: extractAttributes(match[1]),
-    });
-  }
-
-  // Extract text elements
-  const textRegex = /<text\s+([^>]+)>([^<]*)<\/text>/g;
-  while ((match = textRegex.exec(svg)) !== null) {
-    const attrs = extractAttributes(match[1]);
-    attrs['textContent'] = match[2];
-    elements.push({
-      type: 'text',
-      attrs,
-    });
-  }
-
-  return elements;
-}
-
-/**
- * Draw an SVG element onto the PDF document
- */
-function drawElement(
-  doc: PDFKit.PDFDocument,
-  element: SvgElement,
-  scale: number,
-  offsetX: number,
-  offsetY: number
-): void {
-  const { type, attrs } = element;
-
-  switch (type) {
-    case 'rect': {
-      const x = (parseFloat(attrs['x'] || '0') + offsetX) * scale;
-      const y = (parseFloat(attrs['y'] || '0') + offsetY) * scale;
-      const width = parseFloat(attrs['width'] || '0') * scale;
-      const height = parseFloat(attrs['height'] || '0') * scale;
-      const fill = attrs['fill'];
-      const stroke = attrs['stroke'];
-      const strokeWidth = parseFloat(attrs['stroke-width'] || '1') * scale;
-
-      if (fill && fill !== 'none') {
-        doc.fillColor(parseColor(fill));
-        doc.rect(x, y, width, height).fill();
-      }
-
-      if (stroke && stroke !== 'none') {
-        doc.strokeColor(parseColor(stroke));
-        doc.lineWidth(strokeWidth);
-        doc.rect(x, y, width, height).stroke();
-      }
-      break;
-    }
-
-    case 'line': {
-      const x1 = (parseFloat(attrs['x1'] || '0') + offsetX) * scale;
-      const y1 = (parseFloat(attrs['y1'] || '0') + offsetY) * scale;
-      const x2 = (parseFloat(attrs['x2'] || '0') + offsetX) * scale;
-      const y2 = (parseFloat(attrs['y2'] || '0') + offsetY) * scale;
-      const stroke = attrs['stroke'] || '#000000';
-      const strokeWidth = parseFloat(attrs['stroke-width'] || '1') * scale;
-
-      doc.strokeColor(parseColor(stroke));
-      doc.lineWidth(strokeWidth);
-      doc.moveTo(x1, y1).lineTo(x2, y2).stroke();
-      break;
-    }
-
-    case 'circle': {
-      const cx = (parseFloat(attrs['cx'] || '0') + offsetX) * scale;
-      const cy = (parseFloat(attrs['cy'] || '0') + offsetY) * scale;
-      const r = parseFloat(attrs['r'] || '0') * scale;
-      const fill = attrs['fill'];
-      const stroke = attrs['stroke'];
-      const strokeWidth = parseFloat(attrs['stroke-width'] || '1') * scale;
-
-      if (fill && fill !== 'none') {
-        doc.fillColor(parseColor(fill));
-        doc.circle(cx, cy, r).fill();
-      }
-
-      if (stroke && stroke !== 'none') {
-        doc.strokeColor(parseColor(stroke));
-        doc.lineWidth(strokeWidth);
-        doc.circle(cx, cy, r).stroke();
-      }
-      break;
-    }
-
-    case 'path': {
-      // Render SVG paths using PDFKit's path() method
-      // Supports standard SVG path commands (M, L, H, V, C, S, Q, T, A, Z)
-      // Note: Some advanced path features like transform attributes on paths
-      // may not be fully supported; these should be pre-processed if needed
-      const d = attrs['d'];
-      const fill = attrs['fill'];
-      const stroke = attrs['stroke'];
-      const strokeWidth = parseFloat(attrs['stroke-width'] || '1') * scale;
-
-      if (d) {
-        // Apply transformation to path
-        doc.save();
-        doc.translate(offsetX * scale, offsetY * scale);
-        doc.scale(scale, scale);
-
-        if (fill && fill !== 'none') {
-          doc.fillColor(parseColor(fill));
-          doc.path(d).fill();
-        }
-
-        if (stroke && stroke !== 'none') {
-          doc.strokeColor(parseColor(stroke));
-          doc.lineWidth(strokeWidth / scale);
-          doc.path(d).stroke();
-        }
-
-        doc.restore();
-      }
-      break;
-    }
-
-    case 'text': {
-      const x = (parseFloat(attrs['x'] || '0') + offsetX) * scale;
-      const y = (parseFloat(attrs['y'] || '0') + offsetY) * scale;
-      const text = attrs['textContent'] || '';
-      const fill = attrs['fill'] || '#000000';
-      const fontSize = parseFloat(attrs['font-size'] || '12') * scale;
-      const textAnchor = attrs['text-anchor'] || 'start';
-
-      doc.fillColor(parseColor(fill));
-      doc.fontSize(fontSize);
-
-      // Handle text-anchor alignment
-      let align: 'left' | 'center' | 'right' = 'left';
-      if (textAnchor === 'middle') {
-        align = 'center';
-      } else if (textAnchor === 'end') {
-        align = 'right';
-      }
-
-      // Decode HTML entities - decode &amp; last to prevent double-decoding
-      // For example, "&amp;lt;" should become "&lt;", not "<"
-      const decodedText = text
-        .replace(/&lt;/g, '<')
-        .replace(/&gt;/g, '>')
-        .replace(/&quot;/g, '"')
-        .replace(/&apos;/g, "'")
-        .replace(/&amp;/g, '&');
-
-      // Adjust y position to account for baseline differences
-      const adjustedY = y - fontSize * 0.8;
-
-      if (align === 'center') {
-        doc.text(decodedText, x, adjustedY, { align: 'center', width: 0 });
-      } else if (align === 'right') {
-        const textWidth = doc.widthOfString(decodedText);
-        doc.text(decodedText, x - textWidth, adjustedY);
-      } else {
-        doc.text(decodedText, x, adjustedY);
-      }
-      break;
-    }
-  }
-}
-
 /**
  * Exports content to PDF format
  *
@@ -378,6 +133,9 @@ export async function exportToPdf(input: ExportInput, config: ExportConfig): Pro
         reject(error);
       });
 
+      // Resolve the SVG document before drawing so malformed input fails early
+      const scene = buildScene(input.svg);
+
       // Calculate scale to fit SVG content into PDF page
       const scaleX = widthPt / input.width;
       const scaleY = heightPt / input.height;
@@ -386,15 +144,18 @@ export async function exportToPdf(input: ExportInput, config: ExportConfig): Pro
       // Center the content
       const scaledWidth = input.width * scale;
       const scaledHeight = input.height * scale;
-      const offsetX = (widthPt - scaledWidth) / (2 * scale);
-      const offsetY = (heightPt - scaledHeight) / (2 * scale);
-
-      // Parse and render SVG elements
-      const elements = parseSvgElements(input.svg);
-
-      for (const element of elements) {
-        drawElement(doc, element, scale, offsetX, offsetY);
-      }
+      const offsetX = (widthPt - scaledWidth) / 2;
+      const offsetY = (heightPt - scaledHeight) / 2;
+
+      // Map the document's own size onto the input dimensions
+      const contentScaleX = scene.width > 0 ? input.width / scene.width : 1;
+      const contentScaleY = scene.height > 0 ? input.height / scene.height : 1;
+
+      doc.save();
+      doc.translate(offsetX, offsetY);
+      doc.scale(scale * contentScaleX, scale * contentScaleY);
+      new PdfSceneRenderer(doc).render(scene.root);
+      doc.restore();
 
       // Finalize the PDF
       doc.end();
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import PDFDocument from 'pdfkit';
+import { PdfSceneRenderer, standardFontName } from './pdf-renderer';
+import { buildScene } from './svg-scene';
+
+/**
+ * Renders SVG to an uncompressed PDF and returns its text
+ */
+function renderPdf(svg: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: [200, 100], margin: 0, compress: false });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks).toString('latin1')));
+    doc.on('error', reject);
+
+    new PdfSceneRenderer(doc).render(buildScene(svg).root);
+    doc.end();
+  });
+}
+
+// A 1x1 red PNG
+const PNG_DATA_URI =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+function svg(content: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="200" height="100">${content}</svg>`;
+}
+
+describe('PdfSceneRenderer', () => {
+  it('should draw elements in document order', async () => {
+    const pdf = await renderPdf(
+      svg(
+        '<circle cx="10" cy="10" r="5" fill="#00ff00"/>' +
+          '<rect width="10" height="10" fill="#ff0000"/>' +
+          '<circle cx="30" cy="10" r="5" fill="#0000ff"/>'
+      )
+    );
+
+    const green = pdf.indexOf('0 1 0 scn');
+    const red = pdf.indexOf('1 0 0 scn');
+    const blue = pdf.indexOf('0 0 1 scn');
+    expect(green).toBeGreaterThan(-1);
+    expect(red).toBeGreaterThan(green);
+    expect(blue).toBeGreaterThan(red);
+  });
+
+  it('should apply nested group transforms', async () => {
+    const pdf = await renderPdf(
+      svg(
+        '<g transform="translate(10 20)"><g transform="scale(2)"><rect width="5" height="5"/></g></g>'
+      )
+    );
+
+    expect(pdf).toContain('1 0 0 1 10 20 cm');
+    expect(pdf).toContain('2 0 0 2 0 0 cm');
+  });
+
+  it('should clip to clip paths', async () => {
+    const pdf = await renderPdf(
+      svg(
+        '<defs><clipPath id="c"><circle cx="50" cy="50" r="20"/></clipPath></defs>' +
+          '<g clip-path="url(#c)"><rect width="100" height="100" fill="red"/></g>'
+      )
+    );
+
+    expect(pdf).toMatch(/W n/);
+  });
+
+  it('should set dash patterns, line caps and opacity', async () => {
+    const pdf = await renderPdf(
+      svg(
+        '<line x2="100" stroke="black" stroke-width="2" stroke-dasharray="8,4" ' +
+          'stroke-linecap="round" stroke-opacity="0.5"/>'
+      )
+    );
+
+    expect(pdf).toContain('[8 4] 0 d');
+    expect(pdf).toContain('1 J');
+    expect(pdf).toMatch(/\/CA 0\.5/);
+  });
+
+  it('should fill with gradients', async () => {
+    const pdf = await renderPdf(
+      svg(
+        '<defs><linearGradient id="g"><stop offset="0" stop-color="red"/>' +
+          '<stop offset="1" stop-color="blue"/></linearGradient></defs>' +
+          '<rect width="100" height="50" fill="url(#g)"/>'
+      )
+    );
+
+    expect(pdf).toContain('/ShadingType 2');
+    expect(pdf).toContain('/Pattern cs');
+  });
+
+  it('should draw text with the mapped standard font', async () => {
+    const pdf = await renderPdf(
+      svg(
+        '<text x="100" y="50" font-family="Arial" font-weight="bold" text-anchor="middle">Hi</text>'
+      )
+    );
+
+    expect(pdf).toContain('/BaseFont /Helvetica-Bold');
+    expect(pdf).toMatch(/BT[\s\S]*T[jJ][\s\S]*ET/);
+  });
+
+  it('should embed raster images', async () => {
+    const pdf = await renderPdf(
+      svg(`<image x="10" y="10" width="20" height="20" xlink:href="${PNG_DATA_URI}"/>`)
+    );
+
+    expect(pdf).toContain('/Subtype /Image');
+    expect(pdf).toMatch(/\/I\w+ Do/);
+  });
+
+  it('should embed images linked by file URL', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'picmap-pdf-'));
+    try {
+      const file = join(dir, 'my photo.png');
+      writeFileSync(file, Buffer.from(PNG_DATA_URI.split(',')[1], 'base64'));
+      const pdf = await renderPdf(
+        svg(`<image width="20" height="20" xlink:href="${pathToFileURL(file).href}"/>`)
+      );
+
+      expect(pdf).toContain('/Subtype /Image');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should skip images that cannot be loaded', async () => {
+    const pdf = await renderPdf(
+      svg('<image width="20" height="20" xlink:href="does-not-exist.png"/>')
+    );
+
+    expect(pdf).not.toContain('/Subtype /Image');
+  });
+});
+
+describe('standardFontName', () => {
+  const font = { family: 'Arial, sans-serif', size: 12, bold: false, italic: false };
+
+  it('should map font families to standard fonts', () => {
+    expect(standardFontName(font)).toBe('Helvetica');
+    expect(standardFontName({ ...font, family: 'Georgia, serif', bold: true })).toBe('Times-Bold');
+    expect(standardFontName({ ...font, family: "'Courier New'", italic: true })).toBe(
+      'Courier-Oblique'
+    );
+  });
+});
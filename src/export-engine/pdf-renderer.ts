@@ -0,0 +1,342 @@
+/**
+ * PDF rendering of resolved SVG scenes
+ *
+ * Draws a scene built by `buildScene` onto a PDFKit document, preserving
+ * document order, nested transforms, clip paths, opacity, gradients, dash
+ * patterns, text and embedded raster images.
+ */
+
+import { loadImage, LoadedImage } from '../compositor/image-loader';
+import { Matrix, PathCommand, multiplyMatrix, pathBounds } from './svg-geometry';
+import {
+  Paint,
+  SceneFont,
+  SceneGroup,
+  SceneImage,
+  SceneNode,
+  ScenePath,
+  SceneText,
+  SceneTextRun,
+  placeBox,
+} from './svg-scene';
+import { colorToHex } from './svg-style';
+
+/**
+ * Maps a CSS font to one of the standard PDF/PostScript fonts
+ * @param font - Font of a text run
+ * @returns Standard font name (e.g. 'Helvetica-Bold')
+ */
+export function standardFontName(font: SceneFont): string {
+  const families = font.family.split(',').map((family) =>
+    family
+      .trim()
+      .replace(/^['"]|['"]$/g, '')
+      .toLowerCase()
+  );
+  const family = families.find((name) => name !== '') ?? 'sans-serif';
+
+  let base: 'Helvetica' | 'Times' | 'Courier' = 'Helvetica';
+  if (/mono|courier|consolas|menlo/.test(family)) {
+    base = 'Courier';
+  } else if (/^serif$|times|georgia|garamond|palatino|book/.test(family)) {
+    base = 'Times';
+  }
+
+  if (base === 'Times') {
+    if (font.bold && font.italic) return 'Times-BoldItalic';
+    if (font.bold) return 'Times-Bold';
+    if (font.italic) return 'Times-Italic';
+    return 'Times-Roman';
+  }
+
+  const suffix = font.bold
+    ? font.italic
+      ? '-BoldOblique'
+      : '-Bold'
+    : font.italic
+      ? '-Oblique'
+      : '';
+  return base + suffix;
+}
+
+/**
+ * Maps an SVG dominant-baseline value to a PDFKit text baseline
+ */
+function pdfBaseline(baseline: string): PDFKit.Mixins.TextOptions['baseline'] {
+  switch (baseline) {
+    case 'central':
+      return 'svg-central';
+    case 'middle':
+      return 'svg-middle';
+    case 'hanging':
+      return 'hanging';
+    case 'mathematical':
+      return 'mathematical';
+    case 'text-before-edge':
+    case 'text-top':
+      return 'top';
+    case 'text-after-edge':
+    case 'text-bottom':
+    case 'ideographic':
+      return 'bottom';
+    default:
+      return 'alphabetic';
+  }
+}
+
+/**
+ * Draws scene nodes onto a PDFKit document
+ */
+export class PdfSceneRenderer {
+  private readonly images = new Map<string, LoadedImage | null>();
+
+  /**
+   * @param doc - Target document
+   * @param baseDir - Directory used to resolve relative image paths
+   */
+  constructor(
+    private readonly doc: PDFKit.PDFDocument,
+    private readonly baseDir?: string
+  ) {}
+
+  /**
+   * Draws a node and its descendants
+   * @param node - Scene node
+   * @param opacity - Accumulated opacity of the enclosing groups
+   */
+  render(node: SceneNode, opacity = 1): void {
+    switch (node.type) {
+      case 'group':
+        this.renderGroup(node, opacity);
+        break;
+      case 'path':
+        this.renderPath(node, opacity);
+        break;
+      case 'text':
+        this.renderText(node, opacity);
+        break;
+      case 'image':
+        this.renderImage(node, opacity);
+        break;
+    }
+  }
+
+  private renderGroup(group: SceneGroup, opacity: number): void {
+    // Group opacity is applied to each child, which matches the SVG result
+    // wherever children do not overlap
+    const groupOpacity = opacity * group.opacity;
+    if (groupOpacity <= 0 || group.children.length === 0) return;
+
+    const { doc } = this;
+    doc.save();
+    doc.transform(...group.transform);
+
+    if (group.clip) {
+      this.tracePath(group.clip.commands);
+      doc.clip(group.clip.rule === 'evenodd' ? 'even-odd' : 'non-zero');
+    }
+
+    for (const child of group.children) {
+      this.render(child, groupOpacity);
+    }
+
+    doc.restore();
+  }
+
+  /**
+   * Adds path commands to the current PDF path
+   */
+  private tracePath(commands: PathCommand[]): void {
+    const { doc } = this;
+    for (const command of commands) {
+      switch (command.type) {
+        case 'M':
+          doc.moveTo(command.x, command.y);
+          break;
+        case 'L':
+          doc.lineTo(command.x, command.y);
+          break;
+        case 'C':
+          doc.bezierCurveTo(command.x1, command.y1, command.x2, command.y2, command.x, command.y);
+          break;
+        case 'Z':
+          doc.closePath();
+          break;
+      }
+    }
+  }
+
+  /**
+   * Converts a paint to a PDFKit color value
+   * @param paint - Fill or stroke paint
+   * @param commands - Painted geometry (for bounding-box gradient units)
+   * @returns The color and its alpha, or null if nothing would be painted
+   */
+  private paintColor(
+    paint: Paint,
+    commands: PathCommand[] | null
+  ): { color: PDFKit.Mixins.ColorValue; alpha: number } | null {
+    if (paint.type === 'color') {
+      return paint.color.a > 0 ? { color: colorToHex(paint.color), alpha: paint.color.a } : null;
+    }
+
+    let matrix: Matrix = paint.transform;
+    if (paint.units === 'objectBoundingBox') {
+      if (!commands) return null;
+      const bounds = pathBounds(commands);
+      // A gradient cannot be mapped onto a zero-area bounding box
+      if (bounds.width === 0 || bounds.height === 0) return null;
+      matrix = multiplyMatrix([bounds.width, 0, 0, bounds.height, bounds.x, bounds.y], matrix);
+    }
+
+    const gradient =
+      paint.type === 'linear-gradient'
+        ? this.doc.linearGradient(paint.x1, paint.y1, paint.x2, paint.y2)
+        : this.doc.radialGradient(paint.fx, paint.fy, 0, paint.cx, paint.cy, paint.r);
+    for (const stop of paint.stops) {
+      gradient.stop(stop.offset, colorToHex(stop.color), stop.color.a);
+    }
+    gradient.setTransform(...matrix);
+
+    return { color: gradient, alpha: 1 };
+  }
+
+  private renderPath(path: ScenePath, opacity: number): void {
+    const { doc } = this;
+
+    if (path.fill) {
+      const fill = this.paintColor(path.fill, path.commands);
+      if (fill) {
+        doc.fillColor(fill.color);
+        doc.fillOpacity(fill.alpha * path.fillOpacity * opacity);
+        this.tracePath(path.commands);
+        doc.fill(path.fillRule === 'evenodd' ? 'even-odd' : 'non-zero');
+      }
+    }
+
+    if (path.stroke) {
+      const stroke = this.paintColor(path.stroke, path.commands);
+      if (stroke) {
+        doc.strokeColor(stroke.color);
+        doc.strokeOpacity(stroke.alpha * path.strokeOpacity * opacity);
+        doc.lineWidth(path.strokeWidth);
+        doc.lineCap(path.lineCap);
+        doc.lineJoin(path.lineJoin);
+        doc.miterLimit(path.miterLimit);
+        if (path.dashArray.length > 0) {
+          // PDFKit rejects zero-length dashes, which SVG uses for dotted lines with round caps
+          const dashes = path.dashArray.map((dash) => Math.max(dash, 0.001));
+          doc.dash(dashes, { phase: path.dashOffset });
+        } else {
+          doc.undash();
+        }
+        this.tracePath(path.commands);
+        doc.stroke();
+        doc.undash();
+      }
+    }
+  }
+
+  private measureRun(run: SceneTextRun): number {
+    this.doc.font(standardFontName(run.font)).fontSize(run.font.size);
+    return this.doc.widthOfString(run.text);
+  }
+
+  private renderText(text: SceneText, opacity: number): void {
+    const { doc } = this;
+    let x = 0;
+    let y = 0;
+    let index = 0;
+
+    while (index < text.runs.length) {
+      // A text chunk starts at an absolute x position and is anchored as a whole
+      const chunk: SceneTextRun[] = [text.runs[index++]];
+      while (index < text.runs.length && text.runs[index].x === undefined) {
+        chunk.push(text.runs[index++]);
+      }
+
+      const width = chunk.reduce((total, run) => total + this.measureRun(run) + run.dx, 0);
+      const anchor = chunk[0].anchor;
+      const shift = anchor === 'middle' ? width / 2 : anchor === 'end' ? width : 0;
+
+      if (chunk[0].x !== undefined) x = chunk[0].x;
+      x -= shift;
+
+      for (const run of chunk) {
+        if (run.y !== undefined) y = run.y;
+        x += run.dx;
+        y += run.dy;
+        if (run.text === '') continue;
+
+        const runWidth = this.measureRun(run);
+        const options: PDFKit.Mixins.TextOptions = {
+          lineBreak: false,
+          baseline: pdfBaseline(run.baseline),
+        };
+
+        const drawFill = () => {
+          const fill = run.fill && this.paintColor(run.fill, null);
+          if (!fill) return;
+          doc.fillColor(fill.color);
+          doc.fillOpacity(fill.alpha * run.fillOpacity * opacity);
+          doc.text(run.text, x, y, { ...options, fill: true, stroke: false });
+        };
+        const drawStroke = () => {
+          const stroke = run.stroke && run.strokeWidth > 0 && this.paintColor(run.stroke, null);
+          if (!stroke) return;
+          doc.strokeColor(stroke.color);
+          doc.strokeOpacity(stroke.alpha * run.strokeOpacity * opacity);
+          doc.lineWidth(run.strokeWidth);
+          doc.lineJoin('round');
+          doc.text(run.text, x, y, { ...options, fill: false, stroke: true });
+        };
+
+        if (run.strokeFirst) {
+          drawStroke();
+          drawFill();
+        } else {
+          drawFill();
+          drawStroke();
+        }
+
+        x += runWidth;
+      }
+    }
+  }
+
+  /**
+   * Loads an image once per href; unreadable or unsupported images are skipped
+   */
+  private loadSceneImage(href: string): LoadedImage | null {
+    if (!this.images.has(href)) {
+      let image: LoadedImage | null = null;
+      if (!/^(?!file:)[a-z][a-z0-9+.-]*:\/\//i.test(href)) {
+        try {
+          image = loadImage(href, this.baseDir);
+        } catch {
+          image = null;
+        }
+      }
+      // PDF can only embed JPEG and PNG data
+      this.images.set(href, image && image.mimeType !== 'image/webp' ? image : null);
+    }
+    return this.images.get(href) ?? null;
+  }
+
+  private renderImage(node: SceneImage, opacity: number): void {
+    const image = this.loadSceneImage(node.href);
+    if (!image) return;
+
+    const { doc } = this;
+    const viewport = { x: node.x, y: node.y, width: node.width, height: node.height };
+    const box = image.dimensions
+      ? placeBox(viewport, image.dimensions, node.preserveAspectRatio)
+      : viewport;
+
+    doc.save();
+    doc.rect(viewport.x, viewport.y, viewport.width, viewport.height).clip();
+    doc.fillOpacity(opacity);
+    doc.image(image.data, box.x, box.y, { width: box.width, height: box.height });
+    doc.restore();
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * PDFKit features used by the PDF renderer that are missing from its type definitions
+ */
+
+declare namespace PDFKit {
+  interface PDFGradient {
+    /** Sets the pattern transform of the gradient */
+    setTransform(m11: number, m12: number, m21: number, m22: number, dx: number, dy: number): this;
+  }
+}
+
+declare namespace PDFKit.Mixins {
+  interface PDFVector {
+    /** Sets a dash pattern of alternating dash and gap lengths */
+    dash(lengths: number[], options?: { phase?: number }): this;
+  }
+}
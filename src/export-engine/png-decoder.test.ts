@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'zlib';
+import { decodePng, PngDecodeError } from './png-decoder';
+
+/**
+ * Builds a PNG file from IHDR fields and scanlines (unfiltered unless filter types are given)
+ */
+function createPng(
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number,
+  scanlines: number[][],
+  extraChunks: [string, Buffer][] = [],
+  filters: number[] = []
+): Buffer {
+  const chunk = (type: string, data: Buffer): Buffer => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+  };
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = bitDepth;
+  ihdr[9] = colorType;
+
+  const raw = Buffer.from(scanlines.flatMap((line, row) => [filters[row] ?? 0, ...line]));
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    ...extraChunks.map(([type, data]) => chunk(type, data)),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+describe('decodePng', () => {
+  it('should decode truecolor images', () => {
+    const image = decodePng(createPng(2, 1, 8, 2, [[255, 0, 0, 0, 0, 255]]));
+
+    expect(image.width).toBe(2);
+    expect(image.height).toBe(1);
+    expect([...image.pixels]).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+  });
+
+  it('should decode truecolor images with alpha', () => {
+    const image = decodePng(createPng(1, 1, 8, 6, [[10, 20, 30, 128]]));
+
+    expect([...image.pixels]).toEqual([10, 20, 30, 128]);
+  });
+
+  it('should decode indexed images with transparency', () => {
+    const palette = Buffer.from([255, 255, 255, 0, 128, 0]);
+    const transparency = Buffer.from([0]);
+    const image = decodePng(
+      createPng(
+        2,
+        1,
+        8,
+        3,
+        [[0, 1]],
+        [
+          ['PLTE', palette],
+          ['tRNS', transparency],
+        ]
+      )
+    );
+
+    expect([...image.pixels]).toEqual([255, 255, 255, 0, 0, 128, 0, 255]);
+  });
+
+  it('should scale grayscale samples narrower than 8 bits', () => {
+    // Four 2-bit samples: 0, 1, 2, 3
+    const image = decodePng(createPng(4, 1, 2, 0, [[0b00011011]]));
+
+    expect([...image.pixels].filter((_, i) => i % 4 === 0)).toEqual([0, 85, 170, 255]);
+  });
+
+  it('should reduce 16-bit samples to 8 bits', () => {
+    const image = decodePng(createPng(1, 1, 16, 0, [[0xab, 0xcd]]));
+
+    expect([...image.pixels]).toEqual([0xab, 0xab, 0xab, 255]);
+  });
+
+  it('should reverse scanline filters', () => {
+    // The second scanline uses the "up" filter, the third the "sub" filter
+    const image = decodePng(
+      createPng(
+        2,
+        3,
+        8,
+        0,
+        [
+          [10, 20],
+          [5, 5],
+          [7, 3],
+        ],
+        [],
+        [0, 2, 1]
+      )
+    );
+
+    expect([...image.pixels].filter((_, i) => i % 4 === 0)).toEqual([10, 20, 15, 25, 7, 10]);
+  });
+
+  it('should throw PngDecodeError for non-PNG data', () => {
+    expect(() => decodePng(Buffer.from('not a png'))).toThrow(PngDecodeError);
+  });
+
+  it('should throw PngDecodeError for indexed images without a palette', () => {
+    expect(() => decodePng(createPng(1, 1, 8, 3, [[0]]))).toThrow(PngDecodeError);
+  });
+});
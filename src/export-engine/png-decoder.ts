@@ -0,0 +1,279 @@
+/**
+ * PNG decoding for export backends that cannot embed PNG files directly
+ *
+ * Decodes all standard PNG variants (grayscale, truecolor, indexed, with or
+ * without alpha, 1-16 bits per sample, interlaced or not) to 8-bit RGBA pixels.
+ */
+
+import { inflateSync } from 'zlib';
+
+/**
+ * A decoded image with 8-bit RGBA pixels in row-major order
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** RGBA pixel data (4 bytes per pixel) */
+  pixels: Buffer;
+}
+
+/**
+ * Error thrown when PNG data cannot be decoded
+ */
+export class PngDecodeError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'PngDecodeError';
+  }
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Number of samples per pixel for each PNG color type
+ */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Adam7 interlacing passes: [x start, y start, x step, y step]
+ */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+function paethPredictor(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Reverses the per-scanline filters of one (sub)image in place
+ * @returns Offset just past the filtered data
+ */
+function unfilter(
+  data: Buffer,
+  offset: number,
+  rowBytes: number,
+  rows: number,
+  bytesPerPixel: number
+): number {
+  let previous: Buffer | null = null;
+
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset];
+    const row = data.subarray(offset + 1, offset + 1 + rowBytes);
+    if (row.length < rowBytes) {
+      throw new PngDecodeError('PNG image data is truncated');
+    }
+
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+      const up = previous ? previous[i] : 0;
+      const upLeft = previous && i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          row[i] = (row[i] + left) & 0xff;
+          break;
+        case 2:
+          row[i] = (row[i] + up) & 0xff;
+          break;
+        case 3:
+          row[i] = (row[i] + ((left + up) >> 1)) & 0xff;
+          break;
+        case 4:
+          row[i] = (row[i] + paethPredictor(left, up, upLeft)) & 0xff;
+          break;
+        default:
+          throw new PngDecodeError(`Invalid PNG filter type: ${filter}`);
+      }
+    }
+
+    previous = row;
+    offset += rowBytes + 1;
+  }
+
+  return offset;
+}
+
+/**
+ * Decodes a PNG file to RGBA pixels
+ * @param data - PNG file contents
+ * @returns The decoded image
+ * @throws PngDecodeError if the data is not a valid PNG image
+ */
+export function decodePng(data: Buffer): DecodedImage {
+  if (data.length < 8 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new PngDecodeError('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (chunk.length < length) {
+      throw new PngDecodeError(`PNG chunk ${type} is truncated`);
+    }
+
+    switch (type) {
+      case 'IHDR':
+        width = chunk.readUInt32BE(0);
+        height = chunk.readUInt32BE(4);
+        bitDepth = chunk[8];
+        colorType = chunk[9];
+        interlace = chunk[12];
+        break;
+      case 'PLTE':
+        palette = chunk;
+        break;
+      case 'tRNS':
+        transparency = chunk;
+        break;
+      case 'IDAT':
+        idat.push(chunk);
+        break;
+    }
+
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || channels === undefined || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new PngDecodeError('Invalid or unsupported PNG header');
+  }
+  if (colorType === 3 && !palette) {
+    throw new PngDecodeError('Indexed PNG image has no palette');
+  }
+  const colors = palette ?? Buffer.alloc(0);
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(idat));
+  } catch (error) {
+    throw new PngDecodeError(
+      'Failed to decompress PNG image data',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const pixels = Buffer.alloc(width * height * 4);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+
+  // Reads sample `index` of a row (samples narrower than 8 bits are packed MSB first)
+  const sample = (row: Buffer, index: number): number => {
+    if (bitDepth === 16) return row[index * 2];
+    if (bitDepth === 8) return row[index];
+    const bit = index * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  // Raw 16-bit sample, used to compare against tRNS values
+  const fullSample = (row: Buffer, index: number): number =>
+    bitDepth === 16 ? row.readUInt16BE(index * 2) : sample(row, index);
+  const scale = (value: number) => (bitDepth < 8 ? Math.round((value * 255) / maxSample) : value);
+
+  const writePixel = (row: Buffer, column: number, target: number) => {
+    const base = column * channels;
+    let r: number;
+    let g: number;
+    let b: number;
+    let a = 255;
+
+    switch (colorType) {
+      case 0: {
+        r = g = b = scale(sample(row, base));
+        if (transparency && transparency.length >= 2) {
+          if (fullSample(row, base) === transparency.readUInt16BE(0)) a = 0;
+        }
+        break;
+      }
+      case 2:
+        r = sample(row, base);
+        g = sample(row, base + 1);
+        b = sample(row, base + 2);
+        if (transparency && transparency.length >= 6) {
+          if (
+            fullSample(row, base) === transparency.readUInt16BE(0) &&
+            fullSample(row, base + 1) === transparency.readUInt16BE(2) &&
+            fullSample(row, base + 2) === transparency.readUInt16BE(4)
+          ) {
+            a = 0;
+          }
+        }
+        break;
+      case 3: {
+        const index = sample(row, base);
+        r = colors[index * 3] ?? 0;
+        g = colors[index * 3 + 1] ?? 0;
+        b = colors[index * 3 + 2] ?? 0;
+        a = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case 4:
+        r = g = b = sample(row, base);
+        a = sample(row, base + 1);
+        break;
+      default:
+        r = sample(row, base);
+        g = sample(row, base + 1);
+        b = sample(row, base + 2);
+        a = sample(row, base + 3);
+    }
+
+    pixels[target] = r;
+    pixels[target + 1] = g;
+    pixels[target + 2] = b;
+    pixels[target + 3] = a;
+  };
+
+  const passes = interlace === 1 ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  let position = 0;
+
+  for (const [startX, startY, stepX, stepY] of passes) {
+    const passWidth = Math.ceil((width - startX) / stepX);
+    const passHeight = Math.ceil((height - startY) / stepY);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const start = position;
+    position = unfilter(raw, position, rowBytes, passHeight, bytesPerPixel);
+
+    for (let y = 0; y < passHeight; y++) {
+      const rowStart = start + y * (rowBytes + 1) + 1;
+      const row = raw.subarray(rowStart, rowStart + rowBytes);
+      const targetY = startY + y * stepY;
+      for (let x = 0; x < passWidth; x++) {
+        writePixel(row, x, (targetY * width + startX + x * stepX) * 4);
+      }
+    }
+  }
+
+  return { width, height, pixels };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { exportToRaster } from './raster-exporter';
+import { decodePng } from './png-decoder';
+import { DEFAULT_EXPORT_CONFIG, ExportConfig } from './types';
+
+// A 1x1 red PNG
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+const config: ExportConfig = {
+  ...DEFAULT_EXPORT_CONFIG,
+  pageSize: { width: 100, height: 50 },
+  dpi: 254,
+};
+
+function svg(content: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="200" height="100">${content}</svg>`;
+}
+
+/**
+ * Returns the RGBA color of a pixel of a PNG export
+ */
+function pixelAt(png: Buffer, x: number, y: number): number[] {
+  const image = decodePng(png);
+  const offset = (y * image.width + x) * 4;
+  return [...image.pixels.subarray(offset, offset + 4)];
+}
+
+describe('exportToRaster', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-raster-'));
+    writeFileSync(join(tempDir, 'red.png'), Buffer.from(PNG_BASE64, 'base64'));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should render the page at the configured DPI', async () => {
+    const result = await exportToRaster(
+      { svg: svg('<rect width="200" height="100" fill="blue"/>'), width: 200, height: 100 },
+      { ...config, format: 'png' }
+    );
+    const image = decodePng(result.data as Buffer);
+
+    // 100mm x 50mm at 254 DPI
+    expect(result.format).toBe('png');
+    expect(result.widthPx).toBe(1000);
+    expect(result.heightPx).toBe(500);
+    expect(image.width).toBe(result.widthPx);
+    expect(image.height).toBe(result.heightPx);
+    expect(pixelAt(result.data as Buffer, 500, 250)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('should render on white paper and center the content', async () => {
+    const result = await exportToRaster(
+      { svg: svg('<rect width="100" height="100" fill="black"/>'), width: 100, height: 100 },
+      { ...config, format: 'png' }
+    );
+
+    // The square content is centered horizontally on the wide page
+    expect(pixelAt(result.data as Buffer, 10, 250)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(result.data as Buffer, 500, 250)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should encode JPEG images', async () => {
+    const result = await exportToRaster(
+      { svg: svg('<circle cx="100" cy="50" r="40" fill="red"/>'), width: 200, height: 100 },
+      { ...config, format: 'jpeg', quality: 80 }
+    );
+    const data = result.data as Buffer;
+
+    expect(result.format).toBe('jpeg');
+    expect([...data.subarray(0, 3)]).toEqual([0xff, 0xd8, 0xff]);
+    expect(data.readUInt16BE(data.length - 2)).toBe(0xffd9);
+  });
+
+  it('should encode WebP images', async () => {
+    const result = await exportToRaster(
+      { svg: svg('<circle cx="100" cy="50" r="40" fill="red"/>'), width: 200, height: 100 },
+      { ...config, format: 'webp' }
+    );
+    const data = result.data as Buffer;
+
+    expect(result.format).toBe('webp');
+    expect(data.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(data.toString('ascii', 8, 12)).toBe('WEBP');
+  });
+
+  it('should draw images referenced by file path', async () => {
+    const href = join(tempDir, 'red.png');
+    const result = await exportToRaster(
+      { svg: svg(`<image width="200" height="100" href="${href}"/>`), width: 200, height: 100 },
+      { ...config, format: 'png' }
+    );
+
+    expect(pixelAt(result.data as Buffer, 500, 250)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('should skip images that cannot be loaded', async () => {
+    const result = await exportToRaster(
+      {
+        svg: svg('<image width="200" height="100" href="missing.png"/>'),
+        width: 200,
+        height: 100,
+      },
+      { ...config, format: 'png' }
+    );
+
+    expect(pixelAt(result.data as Buffer, 500, 250)).toEqual([255, 255, 255, 255]);
+  });
+});
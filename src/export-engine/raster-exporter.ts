@@ -0,0 +1,235 @@
+/**
+ * Raster export functionality
+ *
+ * Rasterizes the print-ready SVG page to PNG, JPEG or WebP with resvg (WebAssembly)
+ */
+
+import { readFileSync } from 'fs';
+import { Resvg, initWasm } from '@resvg/resvg-wasm';
+import type { CustomFontsOptions } from '@resvg/resvg-wasm';
+import * as jpeg from 'jpeg-js';
+import createWebpModule, { WebPModule } from '@saschazar/wasm-webp';
+import type { EncodeOptions } from '@saschazar/wasm-webp/options';
+import { ExportConfig, ExportResult, ExportInput, RasterFormat, RASTER_FORMATS } from './types';
+import { exportToSvg } from './svg-exporter';
+import { selectFonts } from './fonts';
+import { buildScene, SceneNode } from './svg-scene';
+import { descendantElements, parseXml, serializeXml } from '../xml';
+import { loadImage, toDataUri } from '../compositor/image-loader';
+
+/**
+ * libwebp encoder settings (the encoder requires every field to be set)
+ */
+const WEBP_ENCODE_OPTIONS: Required<EncodeOptions> = {
+  quality: 90,
+  target_size: 0,
+  target_PSNR: 0,
+  method: 4,
+  sns_strength: 50,
+  filter_strength: 60,
+  filter_sharpness: 0,
+  filter_type: 1,
+  partitions: 0,
+  segments: 4,
+  pass: 1,
+  show_compressed: 0,
+  preprocessing: 0,
+  autofilter: 0,
+  partition_limit: 0,
+  alpha_compression: 1,
+  alpha_filtering: 1,
+  alpha_quality: 100,
+  lossless: 0,
+  exact: 0,
+  image_hint: 0,
+  emulate_jpeg_size: 0,
+  thread_level: 0,
+  low_memory: 0,
+  near_lossless: 100,
+  use_delta_palette: 0,
+  use_sharp_yuv: 0,
+};
+
+// The WebAssembly modules are loaded once per process
+let resvgReady: Promise<void> | null = null;
+let webpModule: Promise<WebPModule> | null = null;
+const fontCache = new Map<string, Uint8Array>();
+
+function initResvg(): Promise<void> {
+  if (!resvgReady) {
+    resvgReady = initWasm(readFileSync(require.resolve('@resvg/resvg-wasm/index_bg.wasm')));
+  }
+  return resvgReady;
+}
+
+function getWebpModule(): Promise<WebPModule> {
+  if (!webpModule) {
+    // Passing the binary avoids the module trying to fetch() its .wasm file
+    webpModule = createWebpModule({
+      wasmBinary: readFileSync(require.resolve('@saschazar/wasm-webp/wasm_webp.wasm')),
+    } as Partial<WebPModule>);
+  }
+  return webpModule;
+}
+
+/**
+ * Lists the font families used by the text of an SVG document
+ */
+function usedFontFamilies(svg: string): string[] {
+  const families = new Set<string>();
+  const visit = (node: SceneNode) => {
+    if (node.type === 'group') {
+      node.children.forEach(visit);
+    } else if (node.type === 'text') {
+      for (const run of node.runs) {
+        for (const family of run.font.family.split(',')) {
+          const name = family.trim().replace(/^(['"])(.*)\1$/, '$2');
+          if (name) families.add(name);
+        }
+      }
+    }
+  };
+  visit(buildScene(svg).root);
+  return Array.from(families);
+}
+
+/**
+ * Reads font files once per process; unreadable fonts are skipped and text
+ * falls back to the remaining fonts
+ */
+function readFonts(files: string[]): Uint8Array[] {
+  const fonts: Uint8Array[] = [];
+  for (const file of files) {
+    let font = fontCache.get(file);
+    if (!font) {
+      try {
+        font = readFileSync(file);
+      } catch {
+        continue;
+      }
+      fontCache.set(file, font);
+    }
+    fonts.push(font);
+  }
+  return fonts;
+}
+
+/**
+ * Chooses the fonts to draw the text of an SVG document with: the configured
+ * font files, or the installed fonts of the families the document uses
+ */
+function fontOptions(svg: string, fontFiles: string[] | undefined): CustomFontsOptions {
+  if (fontFiles) {
+    return { fontBuffers: readFonts(fontFiles) };
+  }
+
+  const { files, genericFamilies } = selectFonts(usedFontFamilies(svg));
+  return {
+    fontBuffers: readFonts(files),
+    serifFamily: genericFamilies.serif,
+    sansSerifFamily: genericFamilies['sans-serif'],
+    monospaceFamily: genericFamilies.monospace,
+    defaultFontFamily: genericFamilies.serif ?? genericFamilies['sans-serif'],
+  };
+}
+
+/**
+ * Replaces `<image>` references to local files with data URIs, since the
+ * WebAssembly renderer cannot read files. Unreadable images are left as-is
+ * and are not drawn.
+ */
+function inlineImages(svg: string): string {
+  const root = parseXml(svg);
+  let changed = false;
+
+  for (const image of descendantElements(root, 'image')) {
+    for (const name of ['href', 'xlink:href']) {
+      const href = image.attributes[name];
+      if (!href || href.startsWith('data:') || /^(?!file:)[a-z][a-z0-9+.-]*:\/\//i.test(href)) {
+        continue;
+      }
+
+      try {
+        image.attributes[name] = toDataUri(loadImage(href));
+        changed = true;
+      } catch {
+        // Leave the reference unchanged
+      }
+    }
+  }
+
+  return changed ? serializeXml(root) : svg;
+}
+
+/**
+ * Encodes RGBA pixels in the requested format
+ */
+async function encodePixels(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  format: Exclude<RasterFormat, 'png'>,
+  quality: number
+): Promise<Buffer> {
+  if (format === 'jpeg') {
+    return jpeg.encode({ data: pixels, width, height }, quality).data;
+  }
+
+  const webp = await getWebpModule();
+  try {
+    return Buffer.from(webp.encode(pixels, width, height, 4, { ...WEBP_ENCODE_OPTIONS, quality }));
+  } finally {
+    webp.free();
+  }
+}
+
+/**
+ * Exports content to a raster image (PNG, JPEG or WebP)
+ *
+ * The page from the configuration is rendered on a white background at the
+ * configured DPI, with the content scaled to fit and centered like the SVG
+ * export. Images referenced by file path are embedded before rendering.
+ *
+ * @param input - The SVG content to export
+ * @param config - Export configuration options (`format` selects the image format)
+ * @returns Export result with the encoded image as a buffer
+ */
+export async function exportToRaster(
+  input: ExportInput,
+  config: ExportConfig
+): Promise<ExportResult> {
+  const format = RASTER_FORMATS.find((candidate) => candidate === config.format) ?? 'png';
+  const page = exportToSvg(input, config);
+  const svg = inlineImages(page.data as string);
+
+  await initResvg();
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'width', value: page.widthPx },
+    background: 'white',
+    font: fontOptions(page.data as string, config.fontFiles),
+  });
+
+  try {
+    const rendered = resvg.render();
+    try {
+      const { width, height } = rendered;
+      const data =
+        format === 'png'
+          ? Buffer.from(rendered.asPng())
+          : await encodePixels(rendered.pixels, width, height, format, config.quality ?? 90);
+
+      return {
+        data,
+        format,
+        widthMm: page.widthMm,
+        heightMm: page.heightMm,
+        widthPx: width,
+        heightPx: height,
+      };
+    } finally {
+      rendered.free();
+    }
+  } finally {
+    resvg.free();
+  }
+}
@@ -0,0 +1,644 @@
+/**
+ * SVG geometry utilities for the export engine
+ *
+ * Parses transforms and path data, and normalizes every shape to absolute
+ * move/line/cubic/close commands so that each output backend only has to
+ * handle a minimal set of drawing operations.
+ */
+
+/**
+ * 2D affine matrix [a, b, c, d, e, f], mapping (x, y) to (ax + cy + e, bx + dy + f)
+ */
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * A normalized path command with absolute coordinates
+ */
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+/**
+ * Axis-aligned bounding box
+ */
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Multiplies two matrices (the result applies `m2` first, then `m1`)
+ */
+export function multiplyMatrix(m1: Matrix, m2: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = m1;
+  const [a2, b2, c2, d2, e2, f2] = m2;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+}
+
+/**
+ * Applies a matrix to a point
+ */
+export function applyMatrix(m: Matrix, x: number, y: number): { x: number; y: number } {
+  return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] };
+}
+
+/**
+ * Returns the average scale factor of a matrix (used for stroke widths)
+ */
+export function matrixScale(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+/**
+ * Splits a list of numbers separated by whitespace and/or commas
+ */
+export function parseNumberList(value: string): number[] {
+  const matches = value.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g);
+  return matches ? matches.map(Number) : [];
+}
+
+/**
+ * Parses an SVG transform attribute
+ * @param value - Transform list (e.g. 'translate(10, 20) rotate(45)')
+ * @returns Combined transformation matrix
+ */
+export function parseTransform(value: string | undefined): Matrix {
+  let matrix: Matrix = IDENTITY_MATRIX;
+  if (!value) return matrix;
+
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value)) !== null) {
+    const args = parseNumberList(match[2]);
+    let next: Matrix = IDENTITY_MATRIX;
+
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) next = args as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+        break;
+      case 'scale':
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((args[0] ?? 0) * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        next = [cos, sin, -sin, cos, 0, 0];
+        if (args.length >= 3) {
+          const [, cx, cy] = args;
+          next = multiplyMatrix(multiplyMatrix([1, 0, 0, 1, cx, cy], next), [1, 0, 0, 1, -cx, -cy]);
+        }
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+
+    matrix = multiplyMatrix(matrix, next);
+  }
+
+  return matrix;
+}
+
+/**
+ * Tokenizes path data into command letters and numbers
+ */
+function tokenizePath(d: string): Array<string | number> {
+  const tokens: Array<string | number> = [];
+  const pattern = /([MmLlHhVvCcSsQqTtAaZz])|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(d)) !== null) {
+    tokens.push(match[1] ?? Number(match[2]));
+  }
+
+  return tokens;
+}
+
+/**
+ * Converts an elliptical arc to cubic Bézier segments (SVG implementation notes, F.6)
+ */
+function arcToCubics(
+  x1: number,
+  y1: number,
+  rx: number,
+  ry: number,
+  angle: number,
+  largeArc: boolean,
+  sweep: boolean,
+  x2: number,
+  y2: number
+): PathCommand[] {
+  if (rx === 0 || ry === 0) {
+    return [{ type: 'L', x: x2, y: y2 }];
+  }
+
+  const phi = (angle * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  // Scale up radii that are too small to span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coefficient = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) coefficient = -coefficient;
+
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+
+  const theta1 = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaTheta = vectorAngle(
+    (x1p - cxp) / rx,
+    (y1p - cyp) / ry,
+    (-x1p - cxp) / rx,
+    (-y1p - cyp) / ry
+  );
+  if (!sweep && deltaTheta > 0) deltaTheta -= 2 * Math.PI;
+  if (sweep && deltaTheta < 0) deltaTheta += 2 * Math.PI;
+
+  const segments = Math.max(1, Math.ceil(Math.abs(deltaTheta) / (Math.PI / 2)));
+  const delta = deltaTheta / segments;
+  const t = (4 / 3) * Math.tan(delta / 4);
+  const commands: PathCommand[] = [];
+
+  const point = (theta: number) => ({
+    x: cx + rx * Math.cos(theta) * cosPhi - ry * Math.sin(theta) * sinPhi,
+    y: cy + rx * Math.cos(theta) * sinPhi + ry * Math.sin(theta) * cosPhi,
+  });
+  const derivative = (theta: number) => ({
+    x: -rx * Math.sin(theta) * cosPhi - ry * Math.cos(theta) * sinPhi,
+    y: -rx * Math.sin(theta) * sinPhi + ry * Math.cos(theta) * cosPhi,
+  });
+
+  for (let i = 0; i < segments; i++) {
+    const start = theta1 + i * delta;
+    const end = start + delta;
+    const p1 = point(start);
+    const p2 = point(end);
+    const d1 = derivative(start);
+    const d2 = derivative(end);
+    commands.push({
+      type: 'C',
+      x1: p1.x + t * d1.x,
+      y1: p1.y + t * d1.y,
+      x2: p2.x - t * d2.x,
+      y2: p2.y - t * d2.y,
+      x: i === segments - 1 ? x2 : p2.x,
+      y: i === segments - 1 ? y2 : p2.y,
+    });
+  }
+
+  return commands;
+}
+
+/**
+ * Parses SVG path data into normalized absolute commands
+ *
+ * Relative commands, horizontal/vertical lines, smooth curves, quadratic
+ * curves and arcs are all converted to M, L, C and Z. Parsing stops at the
+ * first error, as required by the SVG specification.
+ *
+ * @param d - Path data
+ * @returns Normalized path commands
+ */
+export function parsePathData(d: string): PathCommand[] {
+  const tokens = tokenizePath(d);
+  const commands: PathCommand[] = [];
+  let index = 0;
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Reflection points for smooth curve commands
+  let lastControlX = 0;
+  let lastControlY = 0;
+  let lastQuadX = 0;
+  let lastQuadY = 0;
+  let previous = '';
+
+  const hasNumbers = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (typeof tokens[index + i] !== 'number') return false;
+    }
+    return true;
+  };
+  const next = () => tokens[index++] as number;
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+    if (typeof token === 'string') {
+      command = token;
+      index++;
+    } else if (!command) {
+      break;
+    }
+
+    const relative = command === command.toLowerCase();
+    const upper = command.toUpperCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+
+    if (upper === 'Z') {
+      commands.push({ type: 'Z' });
+      x = startX;
+      y = startY;
+      previous = 'Z';
+      // Z takes no arguments; a following number is an error
+      command = '';
+      continue;
+    }
+
+    const argCounts: Record<string, number> = {
+      M: 2,
+      L: 2,
+      H: 1,
+      V: 1,
+      C: 6,
+      S: 4,
+      Q: 4,
+      T: 2,
+      A: 7,
+    };
+    const argCount = argCounts[upper];
+    if (argCount === undefined || !hasNumbers(argCount)) break;
+
+    switch (upper) {
+      case 'M':
+        x = ox + next();
+        y = oy + next();
+        startX = x;
+        startY = y;
+        commands.push({ type: 'M', x, y });
+        // Subsequent coordinate pairs are implicit line-to commands
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        x = ox + next();
+        y = oy + next();
+        commands.push({ type: 'L', x, y });
+        break;
+      case 'H':
+        x = ox + next();
+        commands.push({ type: 'L', x, y });
+        break;
+      case 'V':
+        y = oy + next();
+        commands.push({ type: 'L', x, y });
+        break;
+      case 'C': {
+        const x1 = ox + next();
+        const y1 = oy + next();
+        const x2 = ox + next();
+        const y2 = oy + next();
+        x = ox + next();
+        y = oy + next();
+        commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+        lastControlX = x2;
+        lastControlY = y2;
+        break;
+      }
+      case 'S': {
+        const reflect = previous === 'C' || previous === 'S';
+        const x1 = reflect ? 2 * x - lastControlX : x;
+        const y1 = reflect ? 2 * y - lastControlY : y;
+        const x2 = ox + next();
+        const y2 = oy + next();
+        x = ox + next();
+        y = oy + next();
+        commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+        lastControlX = x2;
+        lastControlY = y2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        let qx: number;
+        let qy: number;
+        if (upper === 'Q') {
+          qx = ox + next();
+          qy = oy + next();
+        } else {
+          const reflect = previous === 'Q' || previous === 'T';
+          qx = reflect ? 2 * x - lastQuadX : x;
+          qy = reflect ? 2 * y - lastQuadY : y;
+        }
+        const endX = ox + next();
+        const endY = oy + next();
+        // Degree elevation from quadratic to cubic
+        commands.push({
+          type: 'C',
+          x1: x + (2 / 3) * (qx - x),
+          y1: y + (2 / 3) * (qy - y),
+          x2: endX + (2 / 3) * (qx - endX),
+          y2: endY + (2 / 3) * (qy - endY),
+          x: endX,
+          y: endY,
+        });
+        lastQuadX = qx;
+        lastQuadY = qy;
+        x = endX;
+        y = endY;
+        break;
+      }
+      case 'A': {
+        const rx = next();
+        const ry = next();
+        const angle = next();
+        const largeArc = next() !== 0;
+        const sweep = next() !== 0;
+        const endX = ox + next();
+        const endY = oy + next();
+        if (endX !== x || endY !== y) {
+          commands.push(...arcToCubics(x, y, rx, ry, angle, largeArc, sweep, endX, endY));
+        }
+        x = endX;
+        y = endY;
+        break;
+      }
+    }
+
+    previous = upper;
+  }
+
+  return commands;
+}
+
+/**
+ * Builds the commands of an ellipse centered at (cx, cy)
+ */
+export function ellipsePath(cx: number, cy: number, rx: number, ry: number): PathCommand[] {
+  // Control point distance for approximating a quarter circle with a cubic curve
+  const k = 0.5522847498;
+  const ox = rx * k;
+  const oy = ry * k;
+  return [
+    { type: 'M', x: cx + rx, y: cy },
+    { type: 'C', x1: cx + rx, y1: cy + oy, x2: cx + ox, y2: cy + ry, x: cx, y: cy + ry },
+    { type: 'C', x1: cx - ox, y1: cy + ry, x2: cx - rx, y2: cy + oy, x: cx - rx, y: cy },
+    { type: 'C', x1: cx - rx, y1: cy - oy, x2: cx - ox, y2: cy - ry, x: cx, y: cy - ry },
+    { type: 'C', x1: cx + ox, y1: cy - ry, x2: cx + rx, y2: cy - oy, x: cx + rx, y: cy },
+    { type: 'Z' },
+  ];
+}
+
+/**
+ * Builds the commands of a (possibly rounded) rectangle
+ */
+export function rectPath(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rx = 0,
+  ry = 0
+): PathCommand[] {
+  rx = Math.min(Math.max(0, rx), width / 2);
+  ry = Math.min(Math.max(0, ry), height / 2);
+
+  if (rx === 0 || ry === 0) {
+    return [
+      { type: 'M', x, y },
+      { type: 'L', x: x + width, y },
+      { type: 'L', x: x + width, y: y + height },
+      { type: 'L', x, y: y + height },
+      { type: 'Z' },
+    ];
+  }
+
+  const k = 0.5522847498;
+  const ox = rx * k;
+  const oy = ry * k;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    { type: 'M', x: x + rx, y },
+    { type: 'L', x: right - rx, y },
+    { type: 'C', x1: right - rx + ox, y1: y, x2: right, y2: y + ry - oy, x: right, y: y + ry },
+    { type: 'L', x: right, y: bottom - ry },
+    {
+      type: 'C',
+      x1: right,
+      y1: bottom - ry + oy,
+      x2: right - rx + ox,
+      y2: bottom,
+      x: right - rx,
+      y: bottom,
+    },
+    { type: 'L', x: x + rx, y: bottom },
+    { type: 'C', x1: x + rx - ox, y1: bottom, x2: x, y2: bottom - ry + oy, x, y: bottom - ry },
+    { type: 'L', x, y: y + ry },
+    { type: 'C', x1: x, y1: y + ry - oy, x2: x + rx - ox, y2: y, x: x + rx, y },
+    { type: 'Z' },
+  ];
+}
+
+/**
+ * Builds the commands of a polyline or polygon from a points attribute
+ */
+export function polylinePath(points: string, close: boolean): PathCommand[] {
+  const values = parseNumberList(points);
+  const commands: PathCommand[] = [];
+
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    commands.push({ type: i === 0 ? 'M' : 'L', x: values[i], y: values[i + 1] });
+  }
+  if (close && commands.length > 0) {
+    commands.push({ type: 'Z' });
+  }
+
+  return commands;
+}
+
+/**
+ * Applies a matrix to every point of a path
+ */
+export function transformPath(commands: PathCommand[], m: Matrix): PathCommand[] {
+  return commands.map((command) => {
+    switch (command.type) {
+      case 'M':
+      case 'L':
+        return { type: command.type, ...applyMatrix(m, command.x, command.y) };
+      case 'C': {
+        const p1 = applyMatrix(m, command.x1, command.y1);
+        const p2 = applyMatrix(m, command.x2, command.y2);
+        const p = applyMatrix(m, command.x, command.y);
+        return { type: 'C', x1: p1.x, y1: p1.y, x2: p2.x, y2: p2.y, x: p.x, y: p.y };
+      }
+      default:
+        return command;
+    }
+  });
+}
+
+/**
+ * Calculates the bounding box of a path (control points included, which is
+ * exact for lines and a close upper bound for curves)
+ */
+export function pathBounds(commands: PathCommand[]): Box {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  const include = (px: number, py: number) => {
+    minX = Math.min(minX, px);
+    minY = Math.min(minY, py);
+    maxX = Math.max(maxX, px);
+    maxY = Math.max(maxY, py);
+  };
+
+  for (const command of commands) {
+    if (command.type === 'C') {
+      include(command.x1, command.y1);
+      include(command.x2, command.y2);
+    }
+    if (command.type !== 'Z') {
+      include(command.x, command.y);
+    }
+  }
+
+  if (minX === Infinity) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Formats normalized commands as SVG path data
+ */
+export function pathToString(commands: PathCommand[]): string {
+  const format = (value: number) => String(Math.round(value * 1000) / 1000);
+  return commands
+    .map((command) => {
+      switch (command.type) {
+        case 'M':
+        case 'L':
+          return `${command.type}${format(command.x)} ${format(command.y)}`;
+        case 'C':
+          return (
+            `C${format(command.x1)} ${format(command.y1)} ${format(command.x2)} ` +
+            `${format(command.y2)} ${format(command.x)} ${format(command.y)}`
+          );
+        default:
+          return 'Z';
+      }
+    })
+    .join(' ');
+}
+
+/**
+ * A vertex of a path, where markers are placed
+ */
+export interface PathVertex {
+  x: number;
+  y: number;
+  /** Direction of the path at the vertex in degrees, for markers with orient="auto" */
+  angle: number;
+}
+
+/**
+ * Finds the vertices of a path with the direction of the path at each
+ *
+ * The direction at the first and last vertex is that of the path leaving or
+ * reaching it; at the vertices in between, it bisects the incoming and
+ * outgoing directions.
+ */
+export function pathVertices(commands: PathCommand[]): PathVertex[] {
+  const points: Array<{ x: number; y: number; in?: number; out?: number }> = [];
+  const direction = (from: { x: number; y: number }, candidates: Array<[number, number]>) => {
+    // Control points that coincide with the end point do not give a direction
+    const target = candidates.find(([x, y]) => Math.hypot(x - from.x, y - from.y) > 1e-9);
+    return target ? Math.atan2(target[1] - from.y, target[0] - from.x) : undefined;
+  };
+
+  let subpathStart = { x: 0, y: 0 };
+  for (const command of commands) {
+    const previous = points[points.length - 1];
+    switch (command.type) {
+      case 'M':
+        subpathStart = { x: command.x, y: command.y };
+        points.push({ x: command.x, y: command.y });
+        break;
+      case 'L':
+      case 'Z': {
+        const to = command.type === 'L' ? command : subpathStart;
+        if (previous) {
+          const angle = direction(previous, [[to.x, to.y]]);
+          previous.out ??= angle;
+          points.push({ x: to.x, y: to.y, in: angle });
+        }
+        break;
+      }
+      case 'C':
+        if (previous) {
+          previous.out ??= direction(previous, [
+            [command.x1, command.y1],
+            [command.x2, command.y2],
+            [command.x, command.y],
+          ]);
+          const to = { x: command.x, y: command.y };
+          const incoming = direction(to, [
+            [command.x2, command.y2],
+            [command.x1, command.y1],
+            [previous.x, previous.y],
+          ]);
+          points.push({ ...to, in: incoming === undefined ? undefined : incoming + Math.PI });
+        }
+        break;
+    }
+  }
+
+  return points.map((point) => {
+    let angle = point.out ?? point.in ?? 0;
+    if (point.in !== undefined && point.out !== undefined) {
+      // Bisect the turn, taking the shorter way round
+      let turn = point.out - point.in;
+      turn = Math.atan2(Math.sin(turn), Math.cos(turn));
+      angle = point.in + turn / 2;
+    }
+    return { x: point.x, y: point.y, angle: (angle * 180) / Math.PI };
+  });
+}
@@ -0,0 +1,368 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildScene,
+  placeBox,
+  sceneBounds,
+  SceneGroup,
+  SceneNode,
+  ScenePath,
+  SceneText,
+} from './svg-scene';
+import { parsePathData, parseTransform, pathBounds } from './svg-geometry';
+import { parseColor } from './svg-style';
+
+/**
+ * Flattens a scene into its leaf nodes in drawing order
+ */
+function leaves(node: SceneNode): SceneNode[] {
+  return node.type === 'group' ? node.children.flatMap(leaves) : [node];
+}
+
+function svg(content: string, attributes = 'width="200" height="100"'): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attributes}>${content}</svg>`;
+}
+
+describe('parseTransform', () => {
+  it('should combine transform lists left to right', () => {
+    expect(parseTransform('translate(10, 20) scale(2)')).toEqual([2, 0, 0, 2, 10, 20]);
+  });
+
+  it('should rotate around a center point', () => {
+    const [a, b, c, d, e, f] = parseTransform('rotate(90 10 10)');
+
+    expect([a, b, c, d].map((value) => Math.round(value))).toEqual([0, 1, -1, 0]);
+    expect(e).toBeCloseTo(20);
+    expect(f).toBeCloseTo(0);
+  });
+});
+
+describe('parsePathData', () => {
+  it('should normalize relative, horizontal and vertical commands', () => {
+    expect(parsePathData('m10 10 h5 v5 l-5 0 z')).toEqual([
+      { type: 'M', x: 10, y: 10 },
+      { type: 'L', x: 15, y: 10 },
+      { type: 'L', x: 15, y: 15 },
+      { type: 'L', x: 10, y: 15 },
+      { type: 'Z' },
+    ]);
+  });
+
+  it('should treat extra move-to coordinates as line-to commands', () => {
+    expect(parsePathData('M0,0 10,0 10,10').map((command) => command.type)).toEqual([
+      'M',
+      'L',
+      'L',
+    ]);
+  });
+
+  it('should convert quadratic and smooth curves to cubic curves', () => {
+    const commands = parsePathData('M0 0 q 5,-3 10,0 t 10,0');
+
+    expect(commands.map((command) => command.type)).toEqual(['M', 'C', 'C']);
+    expect(commands[2]).toMatchObject({ x: 20, y: 0 });
+    // The reflected control point of the smooth curve lies below the line
+    if (commands[2].type === 'C') {
+      expect(commands[2].y1).toBeGreaterThan(0);
+    }
+  });
+
+  it('should convert arcs to cubic curves ending at the arc end point', () => {
+    const commands = parsePathData('M0 0 A 10 10 0 0 1 20 0');
+    const last = commands[commands.length - 1];
+    const bounds = pathBounds(commands);
+
+    expect(commands.length).toBeGreaterThan(1);
+    expect(last).toMatchObject({ type: 'C', x: 20, y: 0 });
+    // A clockwise half circle from (0,0) to (20,0) bulges upwards in SVG coordinates
+    expect(bounds.y).toBeCloseTo(-10, 0);
+  });
+
+  it('should stop at the first error', () => {
+    expect(parsePathData('M0 0 L10 L 20 20')).toHaveLength(1);
+  });
+});
+
+describe('parseColor', () => {
+  it('should parse hex, functional and named colors', () => {
+    expect(parseColor('#f00')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+    expect(parseColor('rgba(0, 0, 255, 0.5)')).toEqual({ r: 0, g: 0, b: 255, a: 0.5 });
+    expect(parseColor('hsl(120, 100%, 50%)')).toEqual({ r: 0, g: 255, b: 0, a: 1 });
+    expect(parseColor('steelblue')).toEqual({ r: 70, g: 130, b: 180, a: 1 });
+    expect(parseColor('transparent')?.a).toBe(0);
+    expect(parseColor('url(#x)')).toBeNull();
+  });
+});
+
+describe('buildScene', () => {
+  it('should keep document order across element types', () => {
+    const scene = buildScene(
+      svg(
+        '<rect width="10" height="10"/><text x="5" y="5">A</text><circle r="5"/><path d="M0 0L1 1"/>'
+      )
+    );
+
+    expect(leaves(scene.root).map((node) => node.type)).toEqual(['path', 'text', 'path', 'path']);
+  });
+
+  it('should convert shapes to paths', () => {
+    const scene = buildScene(
+      svg(
+        '<ellipse cx="50" cy="25" rx="20" ry="10"/><polygon points="0,0 10,0 10,10"/>' +
+          '<rect x="0" y="0" width="40" height="20" rx="5"/>'
+      )
+    );
+    const [ellipse, polygon, rect] = leaves(scene.root) as ScenePath[];
+
+    expect(pathBounds(ellipse.commands)).toEqual({ x: 30, y: 15, width: 40, height: 20 });
+    expect(polygon.commands[polygon.commands.length - 1].type).toBe('Z');
+    expect(rect.commands.some((command) => command.type === 'C')).toBe(true);
+  });
+
+  it('should apply the viewBox transform to the root group', () => {
+    const scene = buildScene(svg('', 'width="400" height="200" viewBox="0 0 200 100"'));
+
+    expect(scene.width).toBe(400);
+    expect(scene.root.transform).toEqual([2, 0, 0, 2, 0, 0]);
+  });
+
+  it('should keep nested transforms on groups', () => {
+    const scene = buildScene(
+      svg(
+        '<g transform="translate(10, 20)"><g transform="scale(2)"><rect width="5" height="5"/></g></g>'
+      )
+    );
+    const outer = scene.root.children[0] as SceneGroup;
+    const inner = outer.children[0] as SceneGroup;
+
+    expect(outer.transform).toEqual([1, 0, 0, 1, 10, 20]);
+    expect(inner.transform).toEqual([2, 0, 0, 2, 0, 0]);
+    expect(sceneBounds(outer)).toEqual({ x: 10, y: 20, width: 10, height: 10 });
+  });
+
+  it('should resolve the style cascade and inheritance', () => {
+    const scene = buildScene(
+      svg(
+        '<style>.a { fill: blue; } g .b { stroke: red; } .a:hover { fill: pink; }</style>' +
+          '<g fill="green" stroke-width="3">' +
+          '<rect class="a" width="1" height="1" fill="yellow"/>' +
+          '<rect class="b" width="1" height="1"/>' +
+          '<rect class="a" width="1" height="1" style="fill: black"/>' +
+          '</g>'
+      )
+    );
+    const [styled, inherited, inline] = leaves(scene.root) as ScenePath[];
+
+    expect(styled.fill).toEqual({ type: 'color', color: { r: 0, g: 0, b: 255, a: 1 } });
+    expect(inherited.fill).toEqual({ type: 'color', color: { r: 0, g: 128, b: 0, a: 1 } });
+    expect(inherited.stroke).toEqual({ type: 'color', color: { r: 255, g: 0, b: 0, a: 1 } });
+    expect(inherited.strokeWidth).toBe(3);
+    expect(inline.fill).toEqual({ type: 'color', color: { r: 0, g: 0, b: 0, a: 1 } });
+  });
+
+  it('should skip hidden and non-rendering elements', () => {
+    const scene = buildScene(
+      svg(
+        '<title>t</title><defs><rect width="1" height="1"/></defs>' +
+          '<rect width="1" height="1" display="none"/>' +
+          '<rect width="1" height="1" visibility="hidden"/>' +
+          '<rect width="0" height="1"/>'
+      )
+    );
+
+    expect(leaves(scene.root)).toHaveLength(0);
+  });
+
+  it('should wrap elements with opacity or transforms in groups', () => {
+    const scene = buildScene(
+      svg(
+        '<rect width="1" height="1" opacity="0.5" transform="translate(3 4)" fill-opacity="0.2"/>'
+      )
+    );
+    const group = scene.root.children[0] as SceneGroup;
+
+    expect(group.type).toBe('group');
+    expect(group.opacity).toBe(0.5);
+    expect(group.transform).toEqual([1, 0, 0, 1, 3, 4]);
+    expect((group.children[0] as ScenePath).fillOpacity).toBe(0.2);
+  });
+
+  it('should resolve clip paths in user space and bounding box units', () => {
+    const scene = buildScene(
+      svg(
+        '<defs><clipPath id="c"><rect x="10" y="10" width="20" height="20"/></clipPath>' +
+          '<clipPath id="b" clipPathUnits="objectBoundingBox"><circle cx="0.5" cy="0.5" r="0.5"/></clipPath></defs>' +
+          '<g clip-path="url(#c)"><rect width="100" height="100"/></g>' +
+          '<rect x="50" y="0" width="40" height="20" clip-path="url(#b)"/>'
+      )
+    );
+    const [userSpace, boundingBox] = scene.root.children as SceneGroup[];
+
+    expect(pathBounds(userSpace.clip!.commands)).toEqual({ x: 10, y: 10, width: 20, height: 20 });
+    expect(pathBounds(boundingBox.clip!.commands)).toEqual({ x: 50, y: 0, width: 40, height: 20 });
+  });
+
+  it('should resolve gradients with inherited stops', () => {
+    const scene = buildScene(
+      svg(
+        '<defs><linearGradient id="base"><stop offset="0" stop-color="white"/>' +
+          '<stop offset="100%" style="stop-color: black; stop-opacity: 0.5"/></linearGradient>' +
+          '<radialGradient id="r" xlink:href="#base" cx="0.4"/></defs>' +
+          '<rect width="10" height="10" fill="url(#r)"/>' +
+          '<rect width="10" height="10" fill="url(#missing) red"/>'
+      )
+    );
+    const [gradient, fallback] = leaves(scene.root) as ScenePath[];
+
+    expect(gradient.fill).toMatchObject({
+      type: 'radial-gradient',
+      units: 'objectBoundingBox',
+      cx: 0.4,
+      cy: 0.5,
+      r: 0.5,
+      fx: 0.4,
+    });
+    if (gradient.fill?.type === 'radial-gradient') {
+      expect(gradient.fill.stops).toEqual([
+        { offset: 0, color: { r: 255, g: 255, b: 255, a: 1 } },
+        { offset: 1, color: { r: 0, g: 0, b: 0, a: 0.5 } },
+      ]);
+    }
+    expect(fallback.fill).toEqual({ type: 'color', color: { r: 255, g: 0, b: 0, a: 1 } });
+  });
+
+  it('should parse stroke dash arrays', () => {
+    const scene = buildScene(
+      svg(
+        '<line x2="10" stroke="black" stroke-dasharray="4"/>' +
+          '<line x2="10" stroke="black" stroke-dasharray="10,6" stroke-linecap="round"/>'
+      )
+    );
+    const [odd, even] = leaves(scene.root) as ScenePath[];
+
+    expect(odd.dashArray).toEqual([4, 4]);
+    expect(even.dashArray).toEqual([10, 6]);
+    expect(even.lineCap).toBe('round');
+  });
+
+  it('should instantiate use elements', () => {
+    const scene = buildScene(
+      svg(
+        '<defs><circle id="dot" r="2"/></defs><use href="#dot" x="10" y="5"/><use xlink:href="#dot"/>'
+      )
+    );
+    const [moved, plain] = scene.root.children;
+
+    expect(moved.type).toBe('group');
+    expect((moved as SceneGroup).transform).toEqual([1, 0, 0, 1, 10, 5]);
+    expect(plain.type).toBe('path');
+  });
+
+  it('should build text runs with collapsed whitespace', () => {
+    const scene = buildScene(
+      svg(
+        '<text x="10" y="20" text-anchor="middle" font-family="Arial" font-weight="bold" ' +
+          'stroke="white" paint-order="stroke">\n  Hello\n  <tspan fill="red">big   world</tspan> \n</text>'
+      )
+    );
+    const text = scene.root.children[0] as SceneText;
+
+    expect(text.runs.map((run) => run.text)).toEqual(['Hello ', 'big world']);
+    expect(text.runs[0]).toMatchObject({ x: 10, y: 20, anchor: 'middle', strokeFirst: true });
+    expect(text.runs[0].font).toEqual({ family: 'Arial', size: 16, bold: true, italic: false });
+    expect(text.runs[1].x).toBeUndefined();
+    expect(text.runs[1].fill).toEqual({ type: 'color', color: { r: 255, g: 0, b: 0, a: 1 } });
+  });
+
+  it('should resolve relative font sizes', () => {
+    const scene = buildScene(svg('<g font-size="10"><text font-size="1.5em">A</text></g>'));
+    const text = leaves(scene.root)[0] as SceneText;
+
+    expect(text.runs[0].font.size).toBe(15);
+  });
+
+  it('should resolve images', () => {
+    const scene = buildScene(
+      svg(
+        '<image x="1" y="2" width="30" height="20" xlink:href="photo.jpg" preserveAspectRatio="xMidYMid slice"/>'
+      )
+    );
+
+    expect(scene.root.children[0]).toEqual({
+      type: 'image',
+      href: 'photo.jpg',
+      x: 1,
+      y: 2,
+      width: 30,
+      height: 20,
+      preserveAspectRatio: 'xMidYMid slice',
+    });
+  });
+
+  describe('markers', () => {
+    const arrow =
+      '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" ' +
+      'markerHeight="6" orient="auto"><path d="M0 0L10 5L0 10Z" fill="red"/></marker></defs>';
+
+    it('should draw end markers after the shape, scaled by the stroke width', () => {
+      const scene = buildScene(
+        svg(
+          `${arrow}<line x1="10" y1="50" x2="110" y2="50" stroke="black" stroke-width="2" marker-end="url(#arrow)"/>`
+        )
+      );
+      const [line, head] = leaves(scene.root) as ScenePath[];
+      const markerGroup = (scene.root.children[0] as SceneGroup).children[1];
+
+      expect(line.stroke).not.toBeNull();
+      expect(head.fill).toEqual({ type: 'color', color: { r: 255, g: 0, b: 0, a: 1 } });
+      // The tip of the arrow sits on the end of the line
+      expect(sceneBounds(markerGroup)).toEqual({ x: 98, y: 44, width: 12, height: 12 });
+    });
+
+    it('should turn markers with orient="auto" along the path', () => {
+      const scene = buildScene(
+        svg(`${arrow}<path d="M50 0L50 80" stroke="black" marker-end="url(#arrow)"/>`)
+      );
+      const markerGroup = (scene.root.children[0] as SceneGroup).children[1];
+      const bounds = sceneBounds(markerGroup)!;
+
+      expect(bounds.x).toBeCloseTo(47, 9);
+      expect(bounds.y).toBeCloseTo(74, 9);
+      expect(bounds.width).toBeCloseTo(6, 9);
+      expect(bounds.height).toBeCloseTo(6, 9);
+    });
+
+    it('should ignore missing markers', () => {
+      const scene = buildScene(
+        svg('<line x2="10" y2="10" stroke="black" marker-start="url(#none)"/>')
+      );
+
+      expect(scene.root.children.map((node) => node.type)).toEqual(['path']);
+    });
+  });
+});
+
+describe('placeBox', () => {
+  const viewport = { x: 0, y: 0, width: 100, height: 50 };
+
+  it('should fit content inside the viewport for meet', () => {
+    expect(placeBox(viewport, { width: 10, height: 10 })).toEqual({
+      x: 25,
+      y: 0,
+      width: 50,
+      height: 50,
+    });
+  });
+
+  it('should cover the viewport for slice', () => {
+    expect(placeBox(viewport, { width: 10, height: 10 }, 'xMinYMin slice')).toEqual({
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+    });
+  });
+
+  it('should stretch the content for none', () => {
+    expect(placeBox(viewport, { width: 10, height: 10 }, 'none')).toEqual(viewport);
+  });
+});
@@ -0,0 +1,1148 @@
+/**
+ * SVG scene builder for the export engine
+ *
+ * Walks an SVG document and resolves it into a tree of drawing primitives
+ * (groups, paths, text and images) with styles, transforms, clip paths and
+ * gradients already resolved. Output backends such as the PDF exporter only
+ * need to draw the scene in order.
+ */
+
+import { XmlElement, childElements, localName, parseXml } from '../xml';
+import {
+  Box,
+  IDENTITY_MATRIX,
+  Matrix,
+  PathCommand,
+  PathVertex,
+  applyMatrix,
+  ellipsePath,
+  multiplyMatrix,
+  parseNumberList,
+  parsePathData,
+  parseTransform,
+  pathBounds,
+  pathVertices,
+  polylinePath,
+  rectPath,
+  transformPath,
+} from './svg-geometry';
+import { Color, INITIAL_STYLE, StyleMap, StyleSheet, computeStyle, parseColor } from './svg-style';
+
+/**
+ * A color stop of a gradient (stop-opacity is folded into the color alpha)
+ */
+export interface GradientStop {
+  offset: number;
+  color: Color;
+}
+
+/**
+ * A linear gradient paint server
+ */
+export interface LinearGradientPaint {
+  type: 'linear-gradient';
+  /** Whether coordinates are fractions of the painted shape's bounding box */
+  units: 'objectBoundingBox' | 'userSpaceOnUse';
+  transform: Matrix;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  stops: GradientStop[];
+}
+
+/**
+ * A radial gradient paint server
+ */
+export interface RadialGradientPaint {
+  type: 'radial-gradient';
+  /** Whether coordinates are fractions of the painted shape's bounding box */
+  units: 'objectBoundingBox' | 'userSpaceOnUse';
+  transform: Matrix;
+  cx: number;
+  cy: number;
+  r: number;
+  fx: number;
+  fy: number;
+  stops: GradientStop[];
+}
+
+/**
+ * How a shape is filled or stroked
+ */
+export type Paint = { type: 'color'; color: Color } | LinearGradientPaint | RadialGradientPaint;
+
+/**
+ * A clipping region in the user space of the clipped group
+ */
+export interface ClipRegion {
+  commands: PathCommand[];
+  rule: 'nonzero' | 'evenodd';
+}
+
+/**
+ * A group of nodes sharing a transform, opacity and clip region
+ */
+export interface SceneGroup {
+  type: 'group';
+  transform: Matrix;
+  opacity: number;
+  clip?: ClipRegion;
+  children: SceneNode[];
+}
+
+/**
+ * A filled and/or stroked path
+ */
+export interface ScenePath {
+  type: 'path';
+  commands: PathCommand[];
+  fill: Paint | null;
+  fillOpacity: number;
+  fillRule: 'nonzero' | 'evenodd';
+  stroke: Paint | null;
+  strokeOpacity: number;
+  strokeWidth: number;
+  /** Dash lengths (empty for solid strokes) */
+  dashArray: number[];
+  dashOffset: number;
+  lineCap: 'butt' | 'round' | 'square';
+  lineJoin: 'miter' | 'round' | 'bevel';
+  miterLimit: number;
+}
+
+/**
+ * Font used by a text run
+ */
+export interface SceneFont {
+  family: string;
+  size: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+/**
+ * A run of text with uniform style
+ */
+export interface SceneTextRun {
+  text: string;
+  /** Absolute position; when omitted the run continues after the previous one */
+  x?: number;
+  y?: number;
+  dx: number;
+  dy: number;
+  font: SceneFont;
+  anchor: 'start' | 'middle' | 'end';
+  baseline: string;
+  fill: Paint | null;
+  fillOpacity: number;
+  stroke: Paint | null;
+  strokeOpacity: number;
+  strokeWidth: number;
+  /** Whether the stroke is painted below the fill (paint-order: stroke) */
+  strokeFirst: boolean;
+}
+
+/**
+ * A text element made of one or more runs
+ */
+export interface SceneText {
+  type: 'text';
+  runs: SceneTextRun[];
+}
+
+/**
+ * An embedded raster image
+ */
+export interface SceneImage {
+  type: 'image';
+  /** Image URL, file path or data URI */
+  href: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  preserveAspectRatio: string;
+}
+
+export type SceneNode = SceneGroup | ScenePath | SceneText | SceneImage;
+
+/**
+ * A resolved SVG document
+ */
+export interface Scene {
+  /** Width of the document in user units */
+  width: number;
+  /** Height of the document in user units */
+  height: number;
+  /** Root group (includes the viewBox transform) */
+  root: SceneGroup;
+}
+
+/**
+ * Elements that never render directly
+ */
+const NON_RENDERING_ELEMENTS = new Set([
+  'clipPath',
+  'defs',
+  'desc',
+  'filter',
+  'foreignObject',
+  'linearGradient',
+  'marker',
+  'mask',
+  'metadata',
+  'pattern',
+  'radialGradient',
+  'script',
+  'style',
+  'symbol',
+  'title',
+]);
+
+/**
+ * Elements that draw markers at their vertices
+ */
+const MARKABLE_ELEMENTS = new Set(['line', 'path', 'polygon', 'polyline']);
+
+/**
+ * Parses a length, resolving units and percentages
+ * @param value - Attribute value (e.g. '10', '5mm', '50%')
+ * @param reference - Length that 100% corresponds to
+ * @param fontSize - Font size for `em` units
+ * @param fallback - Value used when the attribute is missing or invalid
+ */
+export function parseLength(
+  value: string | undefined,
+  reference: number,
+  fontSize = 16,
+  fallback = 0
+): number {
+  if (value === undefined) return fallback;
+  const match = value.trim().match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)([a-z%]*)$/i);
+  if (!match) return fallback;
+
+  const number = parseFloat(match[1]);
+  switch (match[2].toLowerCase()) {
+    case '%':
+      return (number / 100) * reference;
+    case 'em':
+      return number * fontSize;
+    case 'ex':
+      return number * fontSize * 0.5;
+    case 'pt':
+      return number * (96 / 72);
+    case 'pc':
+      return number * 16;
+    case 'mm':
+      return number * (96 / 25.4);
+    case 'cm':
+      return number * (96 / 2.54);
+    case 'in':
+      return number * 96;
+    default:
+      return number;
+  }
+}
+
+/**
+ * Parses an opacity value (number or percentage), clamped to 0-1
+ */
+function parseOpacity(value: string | undefined): number {
+  if (value === undefined) return 1;
+  const number = parseFloat(value);
+  if (isNaN(number)) return 1;
+  const opacity = value.trim().endsWith('%') ? number / 100 : number;
+  return Math.min(1, Math.max(0, opacity));
+}
+
+/**
+ * Extracts the fragment identifier from `url(#id)` or `#id`
+ */
+function referenceId(value: string | undefined): string | null {
+  if (!value) return null;
+  const match = value.match(/^\s*(?:url\(\s*['"]?#([^'")\s]+)['"]?\s*\)|#(\S+))/);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+/**
+ * Computes the transform that maps a viewBox onto a viewport
+ * @param viewBox - viewBox attribute value
+ * @param width - Viewport width
+ * @param height - Viewport height
+ * @param preserveAspectRatio - preserveAspectRatio attribute value
+ */
+export function viewBoxTransform(
+  viewBox: string | undefined,
+  width: number,
+  height: number,
+  preserveAspectRatio = 'xMidYMid meet'
+): Matrix {
+  const values = viewBox ? parseNumberList(viewBox) : [];
+  if (values.length !== 4 || values[2] <= 0 || values[3] <= 0) {
+    return IDENTITY_MATRIX;
+  }
+
+  const [minX, minY, vbWidth, vbHeight] = values;
+  const placement = placeBox(
+    { x: 0, y: 0, width, height },
+    { width: vbWidth, height: vbHeight },
+    preserveAspectRatio
+  );
+  const scaleX = placement.width / vbWidth;
+  const scaleY = placement.height / vbHeight;
+  return [scaleX, 0, 0, scaleY, placement.x - minX * scaleX, placement.y - minY * scaleY];
+}
+
+/**
+ * Places content of a given size within a viewport according to preserveAspectRatio
+ * @param viewport - Target viewport
+ * @param content - Intrinsic content size
+ * @param preserveAspectRatio - preserveAspectRatio attribute value
+ * @returns The box the content is drawn into (may overflow the viewport for 'slice')
+ */
+export function placeBox(
+  viewport: Box,
+  content: { width: number; height: number },
+  preserveAspectRatio = 'xMidYMid meet'
+): Box {
+  const [align = 'xMidYMid', meetOrSlice = 'meet'] = preserveAspectRatio.trim().split(/\s+/);
+
+  if (align === 'none' || content.width <= 0 || content.height <= 0) {
+    return { ...viewport };
+  }
+
+  const scaleX = viewport.width / content.width;
+  const scaleY = viewport.height / content.height;
+  const scale = meetOrSlice === 'slice' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const width = content.width * scale;
+  const height = content.height * scale;
+
+  const alignFactor = (token: string) => (token === 'Min' ? 0 : token === 'Max' ? 1 : 0.5);
+  const xAlign = alignFactor(align.slice(1, 4));
+  const yAlign = alignFactor(align.slice(5, 8));
+
+  return {
+    x: viewport.x + (viewport.width - width) * xAlign,
+    y: viewport.y + (viewport.height - height) * yAlign,
+    width,
+    height,
+  };
+}
+
+/**
+ * Calculates the bounding box of a scene node in its parent's coordinates
+ * (text is not measured and does not contribute)
+ */
+export function sceneBounds(node: SceneNode): Box | null {
+  switch (node.type) {
+    case 'path':
+      return node.commands.length > 0 ? pathBounds(node.commands) : null;
+    case 'image':
+      return { x: node.x, y: node.y, width: node.width, height: node.height };
+    case 'text':
+      return null;
+    case 'group': {
+      let result: Box | null = null;
+      for (const child of node.children) {
+        const bounds = sceneBounds(child);
+        if (!bounds) continue;
+        const corners = transformPath(
+          [
+            { type: 'M', x: bounds.x, y: bounds.y },
+            { type: 'L', x: bounds.x + bounds.width, y: bounds.y },
+            { type: 'L', x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+            { type: 'L', x: bounds.x, y: bounds.y + bounds.height },
+          ],
+          node.transform
+        );
+        const box = pathBounds(corners);
+        result = result
+          ? pathBounds([
+              { type: 'M', x: result.x, y: result.y },
+              { type: 'L', x: result.x + result.width, y: result.y + result.height },
+              { type: 'M', x: box.x, y: box.y },
+              { type: 'L', x: box.x + box.width, y: box.y + box.height },
+            ])
+          : box;
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * Builds a scene from SVG source text
+ * @param svg - SVG document
+ * @returns The resolved scene
+ * @throws XmlParseError if the document is not well-formed
+ */
+export function buildScene(svg: string): Scene {
+  return new SceneBuilder(parseXml(svg)).build();
+}
+
+/**
+ * Resolves an SVG element tree into scene nodes
+ */
+class SceneBuilder {
+  private readonly sheet = new StyleSheet();
+  private readonly elementsById = new Map<string, XmlElement>();
+  /** Elements currently being instantiated through `<use>`, to break cycles */
+  private readonly activeUses = new Set<XmlElement>();
+  /** Size of the nearest viewport, for percentage lengths */
+  private viewport = { width: 0, height: 0 };
+
+  constructor(private readonly document: XmlElement) {
+    this.indexElements(document);
+  }
+
+  build(): Scene {
+    const root = this.document;
+    const viewBox = parseNumberList(root.attributes['viewBox'] ?? '');
+    const hasViewBox = viewBox.length === 4;
+    const width = parseLength(root.attributes['width'], 0, 16, hasViewBox ? viewBox[2] : 300);
+    const height = parseLength(root.attributes['height'], 0, 16, hasViewBox ? viewBox[3] : 150);
+
+    this.viewport = hasViewBox ? { width: viewBox[2], height: viewBox[3] } : { width, height };
+
+    const style = computeStyle(root, [], INITIAL_STYLE, this.sheet);
+    const group: SceneGroup = {
+      type: 'group',
+      transform: viewBoxTransform(
+        root.attributes['viewBox'],
+        width,
+        height,
+        root.attributes['preserveAspectRatio']
+      ),
+      opacity: parseOpacity(style['opacity']),
+      children: this.visitChildren(root, [root], style),
+    };
+
+    return { width, height, root: group };
+  }
+
+  /**
+   * Collects element ids and stylesheets
+   */
+  private indexElements(element: XmlElement): void {
+    const id = element.attributes['id'];
+    if (id && !this.elementsById.has(id)) {
+      this.elementsById.set(id, element);
+    }
+    if (localName(element.name) === 'style') {
+      this.sheet.addRules(
+        element.children.map((child) => (child.type === 'text' ? child.text : '')).join('')
+      );
+    }
+    for (const child of childElements(element)) {
+      this.indexElements(child);
+    }
+  }
+
+  private visitChildren(
+    element: XmlElement,
+    ancestors: XmlElement[],
+    style: StyleMap
+  ): SceneNode[] {
+    const nodes: SceneNode[] = [];
+    for (const child of childElements(element)) {
+      const node = this.visit(child, ancestors, style);
+      if (node) nodes.push(node);
+    }
+    return nodes;
+  }
+
+  /**
+   * Resolves an element (and its subtree) into a scene node
+   * @param element - Element to resolve
+   * @param ancestors - Ancestors of the element, outermost first
+   * @param parentStyle - Computed style of the parent
+   */
+  private visit(
+    element: XmlElement,
+    ancestors: XmlElement[],
+    parentStyle: StyleMap
+  ): SceneNode | null {
+    const name = localName(element.name);
+    if (NON_RENDERING_ELEMENTS.has(name)) return null;
+
+    const style = this.resolveStyle(element, ancestors, parentStyle);
+    if (style['display'] === 'none') return null;
+
+    const path = [...ancestors, element];
+    let node: SceneNode | null;
+
+    switch (name) {
+      case 'g':
+      case 'a':
+        node = this.group(this.visitChildren(element, path, style));
+        break;
+      case 'switch': {
+        const first = childElements(element).find(
+          (child) => !NON_RENDERING_ELEMENTS.has(localName(child.name))
+        );
+        const child = first ? this.visit(first, path, style) : null;
+        node = this.group(child ? [child] : []);
+        break;
+      }
+      case 'svg':
+        node = this.nestedViewport(element, path, style, element);
+        break;
+      case 'use':
+        node = this.use(element, path, style);
+        break;
+      case 'text':
+        node = this.isVisible(style) ? this.text(element, style) : null;
+        break;
+      case 'image':
+        node = this.isVisible(style) ? this.image(element) : null;
+        break;
+      default: {
+        const commands = this.shapeCommands(element, style);
+        node = commands && this.isVisible(style) ? this.path(commands, style) : null;
+        if (node?.type === 'path' && MARKABLE_ELEMENTS.has(name)) {
+          node = this.withMarkers(node, style);
+        }
+      }
+    }
+
+    if (!node) return null;
+    return this.applyElementEffects(element, style, node);
+  }
+
+  /**
+   * Computes an element's style, resolving relative font sizes
+   */
+  private resolveStyle(
+    element: XmlElement,
+    ancestors: XmlElement[],
+    parentStyle: StyleMap
+  ): StyleMap {
+    const style = computeStyle(element, ancestors, parentStyle, this.sheet);
+    const parentFontSize = parseLength(parentStyle['font-size'], 0, 16, 16);
+    style['font-size'] = String(
+      parseLength(style['font-size'], parentFontSize, parentFontSize, parentFontSize)
+    );
+    return style;
+  }
+
+  private isVisible(style: StyleMap): boolean {
+    return style['visibility'] !== 'hidden' && style['visibility'] !== 'collapse';
+  }
+
+  private group(children: SceneNode[]): SceneGroup {
+    return { type: 'group', transform: IDENTITY_MATRIX, opacity: 1, children };
+  }
+
+  /**
+   * Applies an element's transform, opacity and clip path to its node
+   */
+  private applyElementEffects(element: XmlElement, style: StyleMap, node: SceneNode): SceneNode {
+    const transform = parseTransform(element.attributes['transform']);
+    const opacity = parseOpacity(style['opacity']);
+    const clip = this.resolveClip(style['clip-path'], node);
+    const hasTransform = transform.some((value, index) => value !== IDENTITY_MATRIX[index]);
+
+    if (!hasTransform && opacity === 1 && !clip) {
+      return node;
+    }
+
+    const isPlainGroup =
+      node.type === 'group' &&
+      !node.clip &&
+      node.opacity === 1 &&
+      node.transform.every((value, index) => value === IDENTITY_MATRIX[index]);
+    if (isPlainGroup) {
+      return { ...node, transform, opacity, clip };
+    }
+
+    // The clip path is in the element's user space, i.e. inside its transform
+    return {
+      type: 'group',
+      transform,
+      opacity,
+      clip,
+      children: [node],
+    };
+  }
+
+  /**
+   * Resolves a nested `<svg>` or an instantiated `<symbol>` into a clipped group
+   */
+  private nestedViewport(
+    element: XmlElement,
+    path: XmlElement[],
+    style: StyleMap,
+    sizeSource: XmlElement
+  ): SceneGroup | null {
+    const outer = this.viewport;
+    const x = parseLength(sizeSource.attributes['x'], outer.width);
+    const y = parseLength(sizeSource.attributes['y'], outer.height);
+    const width = parseLength(sizeSource.attributes['width'], outer.width, 16, outer.width);
+    const height = parseLength(sizeSource.attributes['height'], outer.height, 16, outer.height);
+    if (width <= 0 || height <= 0) return null;
+
+    const viewBox = parseNumberList(element.attributes['viewBox'] ?? '');
+    this.viewport =
+      viewBox.length === 4 ? { width: viewBox[2], height: viewBox[3] } : { width, height };
+    const children = this.visitChildren(element, path, style);
+    this.viewport = outer;
+
+    const clip =
+      style['overflow'] === 'visible'
+        ? undefined
+        : { commands: rectPath(x, y, width, height), rule: 'nonzero' as const };
+
+    return {
+      type: 'group',
+      transform: IDENTITY_MATRIX,
+      opacity: 1,
+      clip,
+      children: [
+        {
+          type: 'group',
+          transform: multiplyMatrix(
+            [1, 0, 0, 1, x, y],
+            viewBoxTransform(
+              element.attributes['viewBox'],
+              width,
+              height,
+              element.attributes['preserveAspectRatio']
+            )
+          ),
+          opacity: 1,
+          children,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Instantiates the element referenced by a `<use>` element
+   */
+  private use(element: XmlElement, path: XmlElement[], style: StyleMap): SceneNode | null {
+    const id = referenceId(element.attributes['href'] ?? element.attributes['xlink:href']);
+    const target = id ? this.elementsById.get(id) : undefined;
+    if (!target || this.activeUses.has(target)) return null;
+
+    this.activeUses.add(target);
+    let node: SceneNode | null;
+    if (localName(target.name) === 'symbol') {
+      const symbolStyle = this.resolveStyle(target, path, style);
+      node =
+        symbolStyle['display'] === 'none'
+          ? null
+          : this.nestedViewport(target, [...path, target], symbolStyle, element);
+      if (node) {
+        // The use element's x/y already position the symbol viewport
+        node = this.applyElementEffects(target, symbolStyle, node);
+      }
+    } else {
+      node = this.visit(target, path, style);
+    }
+    this.activeUses.delete(target);
+
+    if (!node) return null;
+
+    const x = parseLength(element.attributes['x'], this.viewport.width);
+    const y = parseLength(element.attributes['y'], this.viewport.height);
+    if (localName(target.name) === 'symbol' || (x === 0 && y === 0)) {
+      return node;
+    }
+    return { type: 'group', transform: [1, 0, 0, 1, x, y], opacity: 1, children: [node] };
+  }
+
+  /**
+   * Adds the markers referenced by `marker-start`, `marker-mid` and
+   * `marker-end` to a shape
+   * @returns The shape, or a group of the shape followed by its markers
+   */
+  private withMarkers(shape: ScenePath, style: StyleMap): SceneNode {
+    const vertices = pathVertices(shape.commands);
+    const markers: SceneNode[] = [];
+    const add = (property: string, vertex: PathVertex, atStart: boolean) => {
+      const marker = this.marker(style[property], vertex, shape.strokeWidth, atStart);
+      if (marker) markers.push(marker);
+    };
+
+    if (vertices.length > 0) {
+      add('marker-start', vertices[0], true);
+      vertices.slice(1, -1).forEach((vertex) => add('marker-mid', vertex, false));
+      add('marker-end', vertices[vertices.length - 1], false);
+    }
+
+    return markers.length > 0 ? this.group([shape, ...markers]) : shape;
+  }
+
+  /**
+   * Instantiates a `<marker>` at a vertex of a shape
+   * @param value - Value of the marker property, such as `url(#arrow)`
+   * @param vertex - Vertex the marker is placed at
+   * @param strokeWidth - Stroke width of the shape, which scales markers in `strokeWidth` units
+   * @param atStart - Whether the vertex starts the shape, for `orient="auto-start-reverse"`
+   */
+  private marker(
+    value: string | undefined,
+    vertex: PathVertex,
+    strokeWidth: number,
+    atStart: boolean
+  ): SceneGroup | null {
+    const id = referenceId(value);
+    const marker = id ? this.elementsById.get(id) : undefined;
+    if (!marker || localName(marker.name) !== 'marker' || this.activeUses.has(marker)) {
+      return null;
+    }
+
+    const attrs = marker.attributes;
+    const outer = this.viewport;
+    const width = parseLength(attrs['markerWidth'], outer.width, 16, 3);
+    const height = parseLength(attrs['markerHeight'], outer.height, 16, 3);
+    if (width <= 0 || height <= 0) return null;
+
+    const orient = (attrs['orient'] ?? '0').trim();
+    const angle =
+      orient === 'auto'
+        ? vertex.angle
+        : orient === 'auto-start-reverse'
+          ? vertex.angle + (atStart ? 180 : 0)
+          : parseFloat(orient) || 0;
+    const scale = attrs['markerUnits'] === 'userSpaceOnUse' ? 1 : strokeWidth;
+    const contentTransform = viewBoxTransform(
+      attrs['viewBox'],
+      width,
+      height,
+      attrs['preserveAspectRatio']
+    );
+    // The reference point, in viewBox units, lands on the vertex
+    const ref = applyMatrix(
+      contentTransform,
+      parseFloat(attrs['refX'] ?? '') || 0,
+      parseFloat(attrs['refY'] ?? '') || 0
+    );
+    const cos = Math.cos((angle * Math.PI) / 180) * scale;
+    const sin = Math.sin((angle * Math.PI) / 180) * scale;
+
+    // Marker contents inherit from the marker, not from the shape it is drawn on
+    const markerStyle = computeStyle(marker, [], INITIAL_STYLE, this.sheet);
+    const viewBox = parseNumberList(attrs['viewBox'] ?? '');
+    this.viewport =
+      viewBox.length === 4 ? { width: viewBox[2], height: viewBox[3] } : { width, height };
+    this.activeUses.add(marker);
+    const children = this.visitChildren(marker, [marker], markerStyle);
+    this.activeUses.delete(marker);
+    this.viewport = outer;
+
+    return {
+      type: 'group',
+      transform: multiplyMatrix(
+        [cos, sin, -sin, cos, vertex.x, vertex.y],
+        [1, 0, 0, 1, -ref.x, -ref.y]
+      ),
+      opacity: 1,
+      clip:
+        markerStyle['overflow'] === 'visible'
+          ? undefined
+          : { commands: rectPath(0, 0, width, height), rule: 'nonzero' },
+      children: [{ type: 'group', transform: contentTransform, opacity: 1, children }],
+    };
+  }
+
+  /**
+   * Converts a basic shape or path element to path commands
+   * @returns The commands, or null if the element is not a shape
+   */
+  private shapeCommands(element: XmlElement, style: StyleMap): PathCommand[] | null {
+    const attrs = element.attributes;
+    const { width: vw, height: vh } = this.viewport;
+    const fontSize = parseFloat(style['font-size']);
+    const length = (name: string, reference: number, fallback = 0) =>
+      parseLength(attrs[name], reference, fontSize, fallback);
+    const diagonal = Math.sqrt((vw * vw + vh * vh) / 2);
+
+    switch (localName(element.name)) {
+      case 'path':
+        return parsePathData(attrs['d'] ?? '');
+      case 'rect': {
+        const width = length('width', vw);
+        const height = length('height', vh);
+        if (width <= 0 || height <= 0) return [];
+        const rxValue = attrs['rx'] !== undefined ? length('rx', vw) : undefined;
+        const ryValue = attrs['ry'] !== undefined ? length('ry', vh) : undefined;
+        const rx = rxValue ?? ryValue ?? 0;
+        const ry = ryValue ?? rxValue ?? 0;
+        return rectPath(length('x', vw), length('y', vh), width, height, rx, ry);
+      }
+      case 'circle': {
+        const r = length('r', diagonal);
+        return r > 0 ? ellipsePath(length('cx', vw), length('cy', vh), r, r) : [];
+      }
+      case 'ellipse': {
+        const rx = length('rx', vw);
+        const ry = length('ry', vh);
+        return rx > 0 && ry > 0 ? ellipsePath(length('cx', vw), length('cy', vh), rx, ry) : [];
+      }
+      case 'line':
+        return [
+          { type: 'M', x: length('x1', vw), y: length('y1', vh) },
+          { type: 'L', x: length('x2', vw), y: length('y2', vh) },
+        ];
+      case 'polyline':
+        return polylinePath(attrs['points'] ?? '', false);
+      case 'polygon':
+        return polylinePath(attrs['points'] ?? '', true);
+      default:
+        return null;
+    }
+  }
+
+  private path(commands: PathCommand[], style: StyleMap): ScenePath | null {
+    if (commands.length === 0) return null;
+
+    const fontSize = parseFloat(style['font-size']);
+    const diagonal = Math.sqrt((this.viewport.width ** 2 + this.viewport.height ** 2) / 2);
+    const strokeWidth = parseLength(style['stroke-width'], diagonal, fontSize, 1);
+    const lineCap = style['stroke-linecap'];
+    const lineJoin = style['stroke-linejoin'];
+
+    return {
+      type: 'path',
+      commands,
+      fill: this.resolvePaint(style['fill'], style),
+      fillOpacity: parseOpacity(style['fill-opacity']),
+      fillRule: style['fill-rule'] === 'evenodd' ? 'evenodd' : 'nonzero',
+      stroke: strokeWidth > 0 ? this.resolvePaint(style['stroke'], style) : null,
+      strokeOpacity: parseOpacity(style['stroke-opacity']),
+      strokeWidth,
+      dashArray: this.parseDashArray(style['stroke-dasharray'], diagonal, fontSize),
+      dashOffset: parseLength(style['stroke-dashoffset'], diagonal, fontSize),
+      lineCap: lineCap === 'round' || lineCap === 'square' ? lineCap : 'butt',
+      lineJoin: lineJoin === 'round' || lineJoin === 'bevel' ? lineJoin : 'miter',
+      miterLimit: Math.max(1, parseFloat(style['stroke-miterlimit']) || 4),
+    };
+  }
+
+  private parseDashArray(value: string | undefined, reference: number, fontSize: number): number[] {
+    if (!value || value === 'none') return [];
+    const dashes = value
+      .split(/[\s,]+/)
+      .filter((part) => part !== '')
+      .map((part) => parseLength(part, reference, fontSize, NaN));
+    if (dashes.some((dash) => isNaN(dash) || dash < 0) || dashes.every((dash) => dash === 0)) {
+      return [];
+    }
+    // An odd number of values is repeated to yield an even number
+    return dashes.length % 2 === 1 ? [...dashes, ...dashes] : dashes;
+  }
+
+  /**
+   * Resolves a fill or stroke value to a paint
+   * @returns The paint, or null for 'none'
+   */
+  private resolvePaint(value: string | undefined, style: StyleMap): Paint | null {
+    if (!value || value === 'none') return null;
+
+    const currentColor = parseColor(style['color'] ?? 'black') ?? undefined;
+    const id = value.trim().startsWith('url(') ? referenceId(value) : null;
+    if (id) {
+      const gradient = this.resolveGradient(id, currentColor);
+      if (gradient) return gradient;
+      // Fall back to the color after the reference, if any
+      const fallback = value.replace(/^\s*url\([^)]*\)\s*/, '');
+      return fallback ? this.resolvePaint(fallback, style) : null;
+    }
+
+    const color = parseColor(value, currentColor);
+    return color ? { type: 'color', color } : null;
+  }
+
+  /**
+   * Resolves a gradient element, following `href` inheritance
+   */
+  private resolveGradient(id: string, currentColor: Color | undefined): Paint | null {
+    const chain: XmlElement[] = [];
+    let element = this.elementsById.get(id);
+    while (element && !chain.includes(element)) {
+      const name = localName(element.name);
+      if (name !== 'linearGradient' && name !== 'radialGradient') break;
+      chain.push(element);
+      const href = referenceId(element.attributes['href'] ?? element.attributes['xlink:href']);
+      element = href ? this.elementsById.get(href) : undefined;
+    }
+    if (chain.length === 0) return null;
+
+    const attribute = (name: string) =>
+      chain.find((gradient) => gradient.attributes[name] !== undefined)?.attributes[name];
+    const stopSource = chain.find((gradient) => childElements(gradient, 'stop').length > 0);
+    const stops = stopSource ? this.resolveStops(stopSource, currentColor) : [];
+
+    if (stops.length === 0) return null;
+    if (stops.length === 1) return { type: 'color', color: stops[0].color };
+
+    const units =
+      attribute('gradientUnits') === 'userSpaceOnUse' ? 'userSpaceOnUse' : 'objectBoundingBox';
+    const transform = parseTransform(attribute('gradientTransform'));
+    const { width: vw, height: vh } = this.viewport;
+    // Bounding box units are fractions; percentages are relative to 1
+    const length = (name: string, reference: number, fallback: string) =>
+      parseLength(
+        attribute(name) ?? fallback,
+        units === 'objectBoundingBox' ? 1 : reference,
+        16,
+        0
+      );
+
+    if (localName(chain[0].name) === 'linearGradient') {
+      return {
+        type: 'linear-gradient',
+        units,
+        transform,
+        x1: length('x1', vw, '0%'),
+        y1: length('y1', vh, '0%'),
+        x2: length('x2', vw, '100%'),
+        y2: length('y2', vh, '0%'),
+        stops,
+      };
+    }
+
+    const diagonal = Math.sqrt((vw * vw + vh * vh) / 2);
+    const cx = length('cx', vw, '50%');
+    const cy = length('cy', vh, '50%');
+    return {
+      type: 'radial-gradient',
+      units,
+      transform,
+      cx,
+      cy,
+      r: length('r', diagonal, '50%'),
+      fx: attribute('fx') !== undefined ? length('fx', vw, '0') : cx,
+      fy: attribute('fy') !== undefined ? length('fy', vh, '0') : cy,
+      stops,
+    };
+  }
+
+  private resolveStops(gradient: XmlElement, currentColor: Color | undefined): GradientStop[] {
+    const stops: GradientStop[] = [];
+    let previousOffset = 0;
+
+    for (const stop of childElements(gradient, 'stop')) {
+      const style = computeStyle(stop, [gradient], INITIAL_STYLE, this.sheet);
+      const color = parseColor(style['stop-color'] ?? 'black', currentColor) ?? {
+        r: 0,
+        g: 0,
+        b: 0,
+        a: 1,
+      };
+      const offsetValue = stop.attributes['offset'] ?? '0';
+      let offset = parseFloat(offsetValue) || 0;
+      if (offsetValue.trim().endsWith('%')) offset /= 100;
+      // Offsets are clamped to 0-1 and may not decrease
+      offset = Math.max(previousOffset, Math.min(1, Math.max(0, offset)));
+      previousOffset = offset;
+
+      stops.push({ offset, color: { ...color, a: color.a * parseOpacity(style['stop-opacity']) } });
+    }
+
+    return stops;
+  }
+
+  /**
+   * Resolves a clip-path reference into a clip region for a node
+   */
+  private resolveClip(value: string | undefined, node: SceneNode): ClipRegion | undefined {
+    const id = referenceId(value);
+    const clipPath = id ? this.elementsById.get(id) : undefined;
+    if (!clipPath || localName(clipPath.name) !== 'clipPath') return undefined;
+
+    let transform = parseTransform(clipPath.attributes['transform']);
+    if (clipPath.attributes['clipPathUnits'] === 'objectBoundingBox') {
+      const bounds = sceneBounds(node);
+      if (!bounds) return undefined;
+      transform = multiplyMatrix(transform, [
+        bounds.width,
+        0,
+        0,
+        bounds.height,
+        bounds.x,
+        bounds.y,
+      ]);
+    }
+
+    const commands: PathCommand[] = [];
+    let rule: ClipRegion['rule'] = 'nonzero';
+    const clipStyle = computeStyle(clipPath, [], INITIAL_STYLE, this.sheet);
+
+    for (const child of childElements(clipPath)) {
+      let shape = child;
+      let childTransform = parseTransform(child.attributes['transform']);
+      if (localName(child.name) === 'use') {
+        const targetId = referenceId(child.attributes['href'] ?? child.attributes['xlink:href']);
+        const target = targetId ? this.elementsById.get(targetId) : undefined;
+        if (!target) continue;
+        shape = target;
+        childTransform = multiplyMatrix(
+          multiplyMatrix(childTransform, [
+            1,
+            0,
+            0,
+            1,
+            parseLength(child.attributes['x'], this.viewport.width),
+            parseLength(child.attributes['y'], this.viewport.height),
+          ]),
+          parseTransform(target.attributes['transform'])
+        );
+      }
+
+      const style = computeStyle(shape, [clipPath], clipStyle, this.sheet);
+      if (style['display'] === 'none' || !this.isVisible(style)) continue;
+      const shapeCommands = this.shapeCommands(shape, style);
+      if (!shapeCommands || shapeCommands.length === 0) continue;
+
+      if (commands.length === 0 && style['clip-rule'] === 'evenodd') {
+        rule = 'evenodd';
+      }
+      commands.push(...transformPath(shapeCommands, multiplyMatrix(transform, childTransform)));
+    }
+
+    // An empty clip path clips everything away
+    if (commands.length === 0) {
+      return { commands: rectPath(0, 0, 0, 0), rule };
+    }
+    return { commands, rule };
+  }
+
+  /**
+   * Resolves a `<text>` element into runs
+   */
+  private text(element: XmlElement, style: StyleMap): SceneText | null {
+    const runs: SceneTextRun[] = [];
+    this.collectTextRuns(element, [element], style, runs, true);
+
+    // Collapse whitespace across runs (xml:space="default")
+    let previousEndsWithSpace = true;
+    for (const run of runs) {
+      let text = run.text.replace(/[\n\r]/g, '').replace(/\s+/g, ' ');
+      if (previousEndsWithSpace) text = text.replace(/^ /, '');
+      if (text !== '') previousEndsWithSpace = text.endsWith(' ');
+      run.text = text;
+    }
+    const last = [...runs].reverse().find((run) => run.text !== '');
+    if (last) last.text = last.text.replace(/ $/, '');
+
+    const visibleRuns = runs.filter((run) => run.text !== '' || run.x !== undefined);
+    return visibleRuns.some((run) => run.text !== '') ? { type: 'text', runs: visibleRuns } : null;
+  }
+
+  private collectTextRuns(
+    element: XmlElement,
+    ancestors: XmlElement[],
+    style: StyleMap,
+    runs: SceneTextRun[],
+    isTextElement: boolean
+  ): void {
+    const fontSize = parseFloat(style['font-size']);
+    const { width: vw, height: vh } = this.viewport;
+    const first = (name: string, reference: number) => {
+      const value = element.attributes[name]?.trim().split(/[\s,]+/)[0];
+      return value !== undefined && value !== ''
+        ? parseLength(value, reference, fontSize)
+        : undefined;
+    };
+
+    // Positioning attributes apply to the first run of this element
+    let x = first('x', vw);
+    let y = first('y', vh);
+    let dx = first('dx', vw) ?? 0;
+    let dy = first('dy', vh) ?? 0;
+    if (isTextElement) {
+      x ??= 0;
+      y ??= 0;
+    }
+
+    const makeRun = (text: string): SceneTextRun => {
+      const run = this.textRun(text, style, x, y, dx, dy);
+      x = undefined;
+      y = undefined;
+      dx = 0;
+      dy = 0;
+      return run;
+    };
+
+    for (const child of element.children) {
+      if (child.type === 'text') {
+        runs.push(makeRun(child.text));
+        continue;
+      }
+
+      const name = localName(child.name);
+      if (name !== 'tspan' && name !== 'textPath' && name !== 'a') continue;
+
+      const childStyle = this.resolveStyle(child, ancestors, style);
+      if (childStyle['display'] === 'none') continue;
+
+      if (x !== undefined || y !== undefined || dx !== 0 || dy !== 0) {
+        // Carry pending positioning of this element over to the child
+        runs.push(makeRun(''));
+      }
+      this.collectTextRuns(child, [...ancestors, child], childStyle, runs, false);
+    }
+
+    if (x !== undefined || y !== undefined) {
+      runs.push(makeRun(''));
+    }
+  }
+
+  private textRun(
+    text: string,
+    style: StyleMap,
+    x: number | undefined,
+    y: number | undefined,
+    dx: number,
+    dy: number
+  ): SceneTextRun {
+    const weight = style['font-weight'];
+    const anchor = style['text-anchor'];
+    const visible = this.isVisible(style);
+    const fontSize = parseFloat(style['font-size']);
+
+    return {
+      text,
+      x,
+      y,
+      dx,
+      dy,
+      font: {
+        family: style['font-family'],
+        size: fontSize,
+        bold: weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 600,
+        italic: style['font-style'] === 'italic' || style['font-style'] === 'oblique',
+      },
+      anchor: anchor === 'middle' || anchor === 'end' ? anchor : 'start',
+      baseline: style['dominant-baseline'] ?? style['alignment-baseline'] ?? 'auto',
+      fill: visible ? this.resolvePaint(style['fill'], style) : null,
+      fillOpacity: parseOpacity(style['fill-opacity']),
+      stroke: visible ? this.resolvePaint(style['stroke'], style) : null,
+      strokeOpacity: parseOpacity(style['stroke-opacity']),
+      strokeWidth: parseLength(style['stroke-width'], 0, fontSize, 1),
+      strokeFirst: style['paint-order']?.trim().startsWith('stroke') ?? false,
+    };
+  }
+
+  private image(element: XmlElement): SceneImage | null {
+    const attrs = element.attributes;
+    const href = attrs['href'] ?? attrs['xlink:href'];
+    const { width: vw, height: vh } = this.viewport;
+    const width = parseLength(attrs['width'], vw);
+    const height = parseLength(attrs['height'], vh);
+    if (!href || width <= 0 || height <= 0) return null;
+
+    return {
+      type: 'image',
+      href: href.trim(),
+      x: parseLength(attrs['x'], vw),
+      y: parseLength(attrs['y'], vh),
+      width,
+      height,
+      preserveAspectRatio: attrs['preserveAspectRatio'] ?? 'xMidYMid meet',
+    };
+  }
+}
@@ -0,0 +1,564 @@
+/**
+ * SVG styling for the export engine
+ *
+ * Parses colors and `<style>` sheets and resolves the cascade of presentation
+ * attributes, stylesheet rules and inline `style` attributes for each element.
+ */
+
+import { XmlElement, localName } from '../xml';
+
+/**
+ * An RGBA color with channels in 0-255 and alpha in 0-1
+ */
+export interface Color {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Computed style properties by CSS property name
+ */
+export type StyleMap = Record<string, string>;
+
+/**
+ * Properties inherited by child elements when not specified
+ */
+const INHERITED_PROPERTIES = new Set([
+  'clip-rule',
+  'color',
+  'dominant-baseline',
+  'fill',
+  'fill-opacity',
+  'fill-rule',
+  'font-family',
+  'font-size',
+  'font-style',
+  'font-weight',
+  'letter-spacing',
+  'marker-end',
+  'marker-mid',
+  'marker-start',
+  'paint-order',
+  'stroke',
+  'stroke-dasharray',
+  'stroke-dashoffset',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'stroke-miterlimit',
+  'stroke-opacity',
+  'stroke-width',
+  'text-anchor',
+  'visibility',
+]);
+
+/**
+ * Non-inherited properties that may also be given as presentation attributes
+ */
+const NON_INHERITED_PROPERTIES = new Set([
+  'clip-path',
+  'display',
+  'opacity',
+  'stop-color',
+  'stop-opacity',
+]);
+
+/**
+ * Initial values for inherited properties at the root element
+ */
+export const INITIAL_STYLE: StyleMap = {
+  'clip-rule': 'nonzero',
+  color: 'black',
+  fill: 'black',
+  'fill-opacity': '1',
+  'fill-rule': 'nonzero',
+  'font-family': 'serif',
+  'font-size': '16',
+  'font-style': 'normal',
+  'font-weight': 'normal',
+  'marker-end': 'none',
+  'marker-mid': 'none',
+  'marker-start': 'none',
+  'paint-order': 'normal',
+  stroke: 'none',
+  'stroke-dasharray': 'none',
+  'stroke-dashoffset': '0',
+  'stroke-linecap': 'butt',
+  'stroke-linejoin': 'miter',
+  'stroke-miterlimit': '4',
+  'stroke-opacity': '1',
+  'stroke-width': '1',
+  'text-anchor': 'start',
+  visibility: 'visible',
+};
+
+const NAMED_COLORS: Record<string, number> = {
+  aliceblue: 0xf0f8ff,
+  antiquewhite: 0xfaebd7,
+  aqua: 0x00ffff,
+  aquamarine: 0x7fffd4,
+  azure: 0xf0ffff,
+  beige: 0xf5f5dc,
+  bisque: 0xffe4c4,
+  black: 0x000000,
+  blanchedalmond: 0xffebcd,
+  blue: 0x0000ff,
+  blueviolet: 0x8a2be2,
+  brown: 0xa52a2a,
+  burlywood: 0xdeb887,
+  cadetblue: 0x5f9ea0,
+  chartreuse: 0x7fff00,
+  chocolate: 0xd2691e,
+  coral: 0xff7f50,
+  cornflowerblue: 0x6495ed,
+  cornsilk: 0xfff8dc,
+  crimson: 0xdc143c,
+  cyan: 0x00ffff,
+  darkblue: 0x00008b,
+  darkcyan: 0x008b8b,
+  darkgoldenrod: 0xb8860b,
+  darkgray: 0xa9a9a9,
+  darkgreen: 0x006400,
+  darkgrey: 0xa9a9a9,
+  darkkhaki: 0xbdb76b,
+  darkmagenta: 0x8b008b,
+  darkolivegreen: 0x556b2f,
+  darkorange: 0xff8c00,
+  darkorchid: 0x9932cc,
+  darkred: 0x8b0000,
+  darksalmon: 0xe9967a,
+  darkseagreen: 0x8fbc8f,
+  darkslateblue: 0x483d8b,
+  darkslategray: 0x2f4f4f,
+  darkslategrey: 0x2f4f4f,
+  darkturquoise: 0x00ced1,
+  darkviolet: 0x9400d3,
+  deeppink: 0xff1493,
+  deepskyblue: 0x00bfff,
+  dimgray: 0x696969,
+  dimgrey: 0x696969,
+  dodgerblue: 0x1e90ff,
+  firebrick: 0xb22222,
+  floralwhite: 0xfffaf0,
+  forestgreen: 0x228b22,
+  fuchsia: 0xff00ff,
+  gainsboro: 0xdcdcdc,
+  ghostwhite: 0xf8f8ff,
+  gold: 0xffd700,
+  goldenrod: 0xdaa520,
+  gray: 0x808080,
+  green: 0x008000,
+  greenyellow: 0xadff2f,
+  grey: 0x808080,
+  honeydew: 0xf0fff0,
+  hotpink: 0xff69b4,
+  indianred: 0xcd5c5c,
+  indigo: 0x4b0082,
+  ivory: 0xfffff0,
+  khaki: 0xf0e68c,
+  lavender: 0xe6e6fa,
+  lavenderblush: 0xfff0f5,
+  lawngreen: 0x7cfc00,
+  lemonchiffon: 0xfffacd,
+  lightblue: 0xadd8e6,
+  lightcoral: 0xf08080,
+  lightcyan: 0xe0ffff,
+  lightgoldenrodyellow: 0xfafad2,
+  lightgray: 0xd3d3d3,
+  lightgreen: 0x90ee90,
+  lightgrey: 0xd3d3d3,
+  lightpink: 0xffb6c1,
+  lightsalmon: 0xffa07a,
+  lightseagreen: 0x20b2aa,
+  lightskyblue: 0x87cefa,
+  lightslategray: 0x778899,
+  lightslategrey: 0x778899,
+  lightsteelblue: 0xb0c4de,
+  lightyellow: 0xffffe0,
+  lime: 0x00ff00,
+  limegreen: 0x32cd32,
+  linen: 0xfaf0e6,
+  magenta: 0xff00ff,
+  maroon: 0x800000,
+  mediumaquamarine: 0x66cdaa,
+  mediumblue: 0x0000cd,
+  mediumorchid: 0xba55d3,
+  mediumpurple: 0x9370db,
+  mediumseagreen: 0x3cb371,
+  mediumslateblue: 0x7b68ee,
+  mediumspringgreen: 0x00fa9a,
+  mediumturquoise: 0x48d1cc,
+  mediumvioletred: 0xc71585,
+  midnightblue: 0x191970,
+  mintcream: 0xf5fffa,
+  mistyrose: 0xffe4e1,
+  moccasin: 0xffe4b5,
+  navajowhite: 0xffdead,
+  navy: 0x000080,
+  oldlace: 0xfdf5e6,
+  olive: 0x808000,
+  olivedrab: 0x6b8e23,
+  orange: 0xffa500,
+  orangered: 0xff4500,
+  orchid: 0xda70d6,
+  palegoldenrod: 0xeee8aa,
+  palegreen: 0x98fb98,
+  paleturquoise: 0xafeeee,
+  palevioletred: 0xdb7093,
+  papayawhip: 0xffefd5,
+  peachpuff: 0xffdab9,
+  peru: 0xcd853f,
+  pink: 0xffc0cb,
+  plum: 0xdda0dd,
+  powderblue: 0xb0e0e6,
+  purple: 0x800080,
+  rebeccapurple: 0x663399,
+  red: 0xff0000,
+  rosybrown: 0xbc8f8f,
+  royalblue: 0x4169e1,
+  saddlebrown: 0x8b4513,
+  salmon: 0xfa8072,
+  sandybrown: 0xf4a460,
+  seagreen: 0x2e8b57,
+  seashell: 0xfff5ee,
+  sienna: 0xa0522d,
+  silver: 0xc0c0c0,
+  skyblue: 0x87ceeb,
+  slateblue: 0x6a5acd,
+  slategray: 0x708090,
+  slategrey: 0x708090,
+  snow: 0xfffafa,
+  springgreen: 0x00ff7f,
+  steelblue: 0x4682b4,
+  tan: 0xd2b48c,
+  teal: 0x008080,
+  thistle: 0xd8bfd8,
+  tomato: 0xff6347,
+  turquoise: 0x40e0d0,
+  violet: 0xee82ee,
+  wheat: 0xf5deb3,
+  white: 0xffffff,
+  whitesmoke: 0xf5f5f5,
+  yellow: 0xffff00,
+  yellowgreen: 0x9acd32,
+};
+
+/**
+ * Parses a color component that may be a number or a percentage
+ */
+function parseChannel(value: string, max: number): number {
+  const number = parseFloat(value);
+  const scaled = value.trim().endsWith('%') ? (number / 100) * max : number;
+  return Math.min(max, Math.max(0, scaled));
+}
+
+/**
+ * Converts HSL (hue in degrees, saturation and lightness in 0-1) to RGB
+ */
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = (((h % 360) + 360) % 360) / 360;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  return [channel(hue + 1 / 3) * 255, channel(hue) * 255, channel(hue - 1 / 3) * 255];
+}
+
+/**
+ * Parses a CSS color value
+ * @param value - Color in hex, rgb(a), hsl(a) or named form
+ * @param currentColor - Value of `currentColor`
+ * @returns The color, or null if the value is not a recognized color
+ */
+export function parseColor(value: string, currentColor?: Color): Color | null {
+  const color = value.trim().toLowerCase();
+
+  if (color === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+  if (color === 'currentcolor') {
+    return currentColor ?? { r: 0, g: 0, b: 0, a: 1 };
+  }
+
+  const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) {
+      digits = digits
+        .split('')
+        .map((digit) => digit + digit)
+        .join('');
+    }
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const functional = color.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  if (functional) {
+    const args = functional[2].split(/\s*[,/]\s*|\s+/).filter((arg) => arg !== '');
+    if (args.length < 3) return null;
+    const alpha = args[3] !== undefined ? parseChannel(args[3], 1) : 1;
+
+    if (functional[1].startsWith('rgb')) {
+      return {
+        r: Math.round(parseChannel(args[0], 255)),
+        g: Math.round(parseChannel(args[1], 255)),
+        b: Math.round(parseChannel(args[2], 255)),
+        a: alpha,
+      };
+    }
+
+    const [r, g, b] = hslToRgb(
+      parseFloat(args[0]),
+      parseChannel(args[1], 100) / 100,
+      parseChannel(args[2], 100) / 100
+    );
+    return { r: Math.round(r), g: Math.round(g), b: Math.round(b), a: alpha };
+  }
+
+  const named = NAMED_COLORS[color];
+  if (named !== undefined) {
+    return { r: (named >> 16) & 0xff, g: (named >> 8) & 0xff, b: named & 0xff, a: 1 };
+  }
+
+  return null;
+}
+
+/**
+ * Formats a color as a 6-digit hex string (alpha is dropped)
+ */
+export function colorToHex(color: Color): string {
+  return (
+    '#' +
+    [color.r, color.g, color.b]
+      .map((channel) => Math.round(channel).toString(16).padStart(2, '0'))
+      .join('')
+  );
+}
+
+/**
+ * Parses a CSS declaration block (e.g. 'fill: red; stroke: blue')
+ */
+export function parseDeclarations(block: string): StyleMap {
+  const declarations: StyleMap = {};
+
+  for (const declaration of block.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration
+      .slice(colon + 1)
+      .replace(/!important\s*$/i, '')
+      .trim();
+    if (property && value) {
+      declarations[property] = value;
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * A compound selector such as `g.marker#home`
+ */
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+}
+
+/**
+ * A parsed stylesheet rule with a single selector
+ */
+interface StyleRule {
+  /** Compound selectors joined by descendant combinators */
+  selector: CompoundSelector[];
+  specificity: number;
+  order: number;
+  declarations: StyleMap;
+}
+
+/**
+ * Parses a selector, returning null for selectors this implementation does
+ * not support (pseudo-classes, attribute selectors and child/sibling combinators)
+ */
+function parseSelector(text: string): CompoundSelector[] | null {
+  if (/[:[>+~]/.test(text)) return null;
+
+  const compounds: CompoundSelector[] = [];
+  for (const part of text.trim().split(/\s+/)) {
+    const match = part.match(/^(\*|[\w-]+)?((?:[#.][\w-]+)*)$/);
+    if (!match) return null;
+
+    const compound: CompoundSelector = { classes: [] };
+    if (match[1] && match[1] !== '*') compound.tag = match[1];
+    for (const token of match[2].match(/[#.][\w-]+/g) ?? []) {
+      if (token[0] === '#') compound.id = token.slice(1);
+      else compound.classes.push(token.slice(1));
+    }
+    compounds.push(compound);
+  }
+
+  return compounds.length > 0 ? compounds : null;
+}
+
+function selectorSpecificity(selector: CompoundSelector[]): number {
+  return selector.reduce(
+    (total, compound) =>
+      total + (compound.id ? 10000 : 0) + compound.classes.length * 100 + (compound.tag ? 1 : 0),
+    0
+  );
+}
+
+function matchesCompound(element: XmlElement, compound: CompoundSelector): boolean {
+  if (compound.tag && localName(element.name) !== compound.tag) return false;
+  if (compound.id && element.attributes['id'] !== compound.id) return false;
+  if (compound.classes.length > 0) {
+    const classes = (element.attributes['class'] ?? '').split(/\s+/);
+    if (!compound.classes.every((name) => classes.includes(name))) return false;
+  }
+  return true;
+}
+
+/**
+ * A parsed `<style>` sheet that can compute the declarations matching an element
+ */
+export class StyleSheet {
+  private rules: StyleRule[] = [];
+
+  /**
+   * Adds the rules of a CSS source text
+   * @param css - Stylesheet text; at-rules and unsupported selectors are ignored
+   */
+  addRules(css: string): void {
+    const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+    let pos = 0;
+
+    while (pos < source.length) {
+      const open = source.indexOf('{', pos);
+      if (open === -1) break;
+      const prelude = source.slice(pos, open).trim();
+
+      // Find the matching closing brace (at-rules may contain nested blocks)
+      let depth = 1;
+      let close = open + 1;
+      while (close < source.length && depth > 0) {
+        if (source[close] === '{') depth++;
+        else if (source[close] === '}') depth--;
+        close++;
+      }
+      pos = close;
+
+      if (prelude.startsWith('@')) continue;
+
+      const declarations = parseDeclarations(source.slice(open + 1, close - 1));
+      for (const selectorText of prelude.split(',')) {
+        const selector = parseSelector(selectorText);
+        if (selector) {
+          this.rules.push({
+            selector,
+            specificity: selectorSpecificity(selector),
+            order: this.rules.length,
+            declarations,
+          });
+        }
+      }
+    }
+
+    this.rules.sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+  }
+
+  /**
+   * Returns the declarations of all rules matching an element, in cascade order
+   * @param element - The element to match
+   * @param ancestors - The element's ancestors, outermost first
+   */
+  match(element: XmlElement, ancestors: XmlElement[]): StyleMap {
+    const result: StyleMap = {};
+
+    for (const rule of this.rules) {
+      if (this.matchesSelector(rule.selector, element, ancestors)) {
+        Object.assign(result, rule.declarations);
+      }
+    }
+
+    return result;
+  }
+
+  private matchesSelector(
+    selector: CompoundSelector[],
+    element: XmlElement,
+    ancestors: XmlElement[]
+  ): boolean {
+    if (!matchesCompound(element, selector[selector.length - 1])) return false;
+
+    // Match the remaining compounds against ancestors, innermost first
+    let ancestorIndex = ancestors.length - 1;
+    for (let i = selector.length - 2; i >= 0; i--) {
+      while (ancestorIndex >= 0 && !matchesCompound(ancestors[ancestorIndex], selector[i])) {
+        ancestorIndex--;
+      }
+      if (ancestorIndex < 0) return false;
+      ancestorIndex--;
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Computes the style of an element from its parent's computed style
+ *
+ * Presentation attributes have the lowest precedence, followed by stylesheet
+ * rules and then the inline `style` attribute. Inherited properties fall back
+ * to the parent's value; `inherit` is honored for all properties.
+ *
+ * @param element - The element to style
+ * @param ancestors - The element's ancestors, outermost first
+ * @param parentStyle - Computed style of the parent element
+ * @param sheet - Stylesheet of the document
+ * @returns The computed style
+ */
+export function computeStyle(
+  element: XmlElement,
+  ancestors: XmlElement[],
+  parentStyle: StyleMap,
+  sheet: StyleSheet
+): StyleMap {
+  const specified: StyleMap = {};
+
+  for (const [name, value] of Object.entries(element.attributes)) {
+    if (INHERITED_PROPERTIES.has(name) || NON_INHERITED_PROPERTIES.has(name)) {
+      specified[name] = value.trim();
+    }
+  }
+  Object.assign(specified, sheet.match(element, ancestors));
+  Object.assign(specified, parseDeclarations(element.attributes['style'] ?? ''));
+
+  const computed: StyleMap = {};
+  for (const property of INHERITED_PROPERTIES) {
+    if (parentStyle[property] !== undefined) {
+      computed[property] = parentStyle[property];
+    }
+  }
+  for (const [property, value] of Object.entries(specified)) {
+    if (value === 'inherit') {
+      if (parentStyle[property] !== undefined) computed[property] = parentStyle[property];
+    } else {
+      computed[property] = value;
+    }
+  }
+
+  return computed;
+}
@@ -5,7 +5,17 @@
 /**
  * Supported export formats
  */
-export type ExportFormat = 'svg' | 'pdf';
+export type ExportFormat = 'svg' | 'pdf' | 'eps' | 'png' | 'jpeg' | 'webp';
+
+/**
+ * Export formats that are rasterized to pixels
+ */
+export type RasterFormat = Extract<ExportFormat, 'png' | 'jpeg' | 'webp'>;
+
+/**
+ * List of raster export formats
+ */
+export const RASTER_FORMATS: readonly RasterFormat[] = ['png', 'jpeg', 'webp'];
 
 /**
  * Page size presets with dimensions in millimeters
@@ -34,8 +44,15 @@ export interface ExportConfig {
   pageSize: PageSizePreset | { width: number; height: number };
   /** Page orientation */
   orientation: PageOrientation;
-  /** Output resolution in DPI (for PDF) */
+  /** Output resolution in DPI (for PDF, EPS and raster formats) */
   dpi?: number;
+  /** Compression quality from 1 to 100 (for JPEG and WebP, default 90) */
+  quality?: number;
+  /**
+   * Font files used to draw text (for raster formats). Defaults to the system
+   * fonts of the families the text uses.
+   */
+  fontFiles?: string[];
   /** Whether to embed images as base64 (for SVG) */
   embedImages?: boolean;
   /** Title for the document metadata */
@@ -59,7 +76,7 @@ export const DEFAULT_EXPORT_CONFIG: ExportConfig = {
  * Result of an export operation
  */
 export interface ExportResult {
-  /** The exported data (string for SVG, Buffer for PDF) */
+  /** The exported data (string for SVG, Buffer for all other formats) */
   data: string | Buffer;
   /** The format of the export */
   format: ExportFormat;
@@ -67,9 +84,9 @@ export interface ExportResult {
   widthMm: number;
   /** Height in millimeters */
   heightMm: number;
-  /** Width in pixels (at specified DPI) */
+  /** Width in pixels (at specified DPI; the image width for raster formats) */
   widthPx: number;
-  /** Height in pixels (at specified DPI) */
+  /** Height in pixels (at specified DPI; the image height for raster formats) */
   heightPx: number;
 }
 
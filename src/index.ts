@@ -8,3 +8,25 @@
 export function greet(name: string): string {
   return `Hello, ${name}! Welcome to Pic-Map.`;
 }
+
+export { renderPicMap, composePicMap, toPicMapWarnings } from './pipeline';
+export type {
+  ComposePicMapOptions,
+  PicMapComposition,
+  RenderPicMapOptions,
+  RenderPicMapResult,
+  PicMapWarning,
+  PicMapWarningCode,
+} from './pipeline';
+
+export { PreviewServer, PreviewServerError } from './server/preview-server';
+export type { PreviewServerOptions, PreviewState, PreviewRender } from './server/preview-server';
+export { createEditorRouter, createEditorLayout } from './server/editor';
+export type { EditorLayout } from './server/editor';
+export { applyConfigEdit, parseConfigEdit, ConfigEditError } from './server/config-edits';
+export type { ConfigEdit } from './server/config-edits';
+
+export { importConfigFromPhotos } from './loaders';
+export type { PhotoImportOptions, PhotoImportResult } from './loaders';
+export { readExif, ExifReadError } from './exif';
+export type { ExifData } from './exif';
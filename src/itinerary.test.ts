@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { itineraryOrder, createItineraryRoute } from './itinerary';
+import { validatePicMapConfig } from './validators';
+import type { ImageLocationLink, ImageMetadata, PicMapConfig } from './types';
+
+const place = (imageId: string, extra: Partial<ImageLocationLink> = {}): ImageLocationLink => ({
+  imageId,
+  location: { latitude: 48 + Number(imageId) / 10, longitude: 2 + Number(imageId) / 10 },
+  ...extra,
+});
+
+describe('itineraryOrder', () => {
+  it('should keep the array order without orders or times', () => {
+    expect(itineraryOrder([place('0'), place('1'), place('2')])).toEqual([0, 1, 2]);
+  });
+
+  it('should sort links by order', () => {
+    const links = [place('0', { order: 3 }), place('1', { order: 1 }), place('2', { order: 2 })];
+    expect(itineraryOrder(links)).toEqual([1, 2, 0]);
+  });
+
+  it('should sort links by visit time', () => {
+    const links = [
+      place('0', { visitedAt: '2024-06-03' }),
+      place('1', { visitedAt: '2024-06-01T18:00:00Z' }),
+      place('2', { visitedAt: '2024-06-01T09:00:00Z' }),
+    ];
+    expect(itineraryOrder(links)).toEqual([2, 1, 0]);
+  });
+
+  it('should fall back to the capture time of the linked image', () => {
+    const images: ImageMetadata[] = [
+      { filePath: '/photos/a.jpg', capturedAt: '2024-06-05T10:00:00Z' },
+      { filePath: '/photos/b.jpg', capturedAt: '2024-06-02T10:00:00Z' },
+    ];
+    const links = [place('0'), place('1'), place('2', { visitedAt: '2024-06-04' })];
+    expect(itineraryOrder(links, images)).toEqual([1, 2, 0]);
+  });
+
+  it('should put orders before times and undated links last', () => {
+    const links = [
+      place('0'),
+      place('1', { visitedAt: '2024-06-01' }),
+      place('2', { order: 5 }),
+      place('3', { visitedAt: 'not a date' }),
+    ];
+    expect(itineraryOrder(links)).toEqual([2, 1, 0, 3]);
+  });
+});
+
+describe('createItineraryRoute', () => {
+  it('should join the places in visiting order', () => {
+    const links = [place('0'), place('1'), place('2')];
+    const route = createItineraryRoute(links, [2, 0, 1]);
+
+    expect(route?.features).toHaveLength(1);
+    expect(route?.features[0].geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [2.2, 48.2],
+        [2, 48],
+        [2.1, 48.1],
+      ],
+    });
+    expect(route?.simplify).toBe(0);
+  });
+
+  it('should apply the style over the default dashed line', () => {
+    const route = createItineraryRoute([place('0'), place('1')], [0, 1], { color: '#c0392b' });
+    expect(route?.style).toEqual({ color: '#c0392b', width: 2, lineStyle: 'dashed' });
+  });
+
+  it('should return null for fewer than two places', () => {
+    expect(createItineraryRoute([place('0')], [0])).toBeNull();
+    expect(createItineraryRoute([], [])).toBeNull();
+  });
+});
+
+describe('validatePicMapConfig itinerary', () => {
+  const config = {
+    title: 'Itinerary',
+    layout: {
+      pageSize: 'A4',
+      orientation: 'portrait',
+      borderWidth: 40,
+      pictureSpacing: 5,
+      margin: { top: 10, right: 10, bottom: 10, left: 10 },
+    },
+    map: { provider: 'openstreetmap', zoom: 12, center: { latitude: 51.5, longitude: -0.12 } },
+    images: [{ filePath: 'a.jpg' }],
+  } satisfies Partial<PicMapConfig>;
+
+  it('should accept visit times, orders and itinerary options', () => {
+    const result = validatePicMapConfig({
+      ...config,
+      layout: { ...config.layout, distribution: 'itinerary' },
+      links: [
+        { imageId: '0', location: { latitude: 51.5, longitude: -0.12 }, visitedAt: '2024-06-01' },
+        { imageId: '0', location: { latitude: 51.6, longitude: -0.12 }, order: 2 },
+      ],
+      itinerary: { route: true, routeStyle: { color: '#c0392b', lineStyle: 'dotted' } },
+    });
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should reject bad visit times, orders and itinerary options', () => {
+    const result = validatePicMapConfig({
+      ...config,
+      links: [
+        {
+          imageId: '0',
+          location: { latitude: 51.5, longitude: -0.12 },
+          visitedAt: 'yesterday',
+          order: Infinity,
+        },
+      ],
+      itinerary: { route: 'yes', routeStyle: { width: 0 } },
+    });
+
+    expect(result.errors).toEqual([
+      'itinerary.route must be a boolean',
+      'itinerary.routeStyle.width must be a positive number',
+      'links[0].visitedAt must be an ISO 8601 date or date-time string',
+      'links[0].order must be a finite number',
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Itinerary ordering
+ *
+ * Puts links in the order their places were visited, for numbered itinerary
+ * maps, and builds the route line joining their markers.
+ */
+
+import { ImageLocationLink, ImageMetadata, MapOverlayStyle } from './types';
+import { resolveImageReference } from './loaders';
+import type { MapOverlay } from './map-engine/overlays';
+
+/**
+ * Stroke of the route line unless the itinerary sets its own
+ */
+const DEFAULT_ROUTE_STYLE: MapOverlayStyle = {
+  color: '#34495e',
+  width: 2,
+  lineStyle: 'dashed',
+};
+
+/**
+ * Orders links by visit
+ *
+ * Links are sorted by `order`, then by `visitedAt` (or, without one, by the
+ * capture time of the linked image), then by their position in the array.
+ * Links without an order or a time come after those with one.
+ * @param links - Links of the itinerary
+ * @param images - Images the links refer to, whose capture times stand in for missing visit times
+ * @returns Indices of the links, in visiting order
+ */
+export function itineraryOrder(links: ImageLocationLink[], images: ImageMetadata[] = []): number[] {
+  const keys = links.map((link) => {
+    let time = link.visitedAt;
+    if (time === undefined) {
+      const imageIndex = resolveImageReference(images, link.imageId);
+      time = imageIndex === undefined ? undefined : images[imageIndex].capturedAt;
+    }
+    const timestamp = time === undefined ? NaN : Date.parse(time);
+    return {
+      order: link.order ?? Infinity,
+      time: Number.isNaN(timestamp) ? Infinity : timestamp,
+    };
+  });
+
+  // Infinity - Infinity is NaN, which falls through to the next key
+  return links
+    .map((_, index) => index)
+    .sort((a, b) => keys[a].order - keys[b].order || keys[a].time - keys[b].time || a - b);
+}
+
+/**
+ * Builds the route line from each place of an itinerary to the next
+ * @param links - Links of the itinerary
+ * @param order - Indices of the links in visiting order, from `itineraryOrder`
+ * @param style - Stroke of the line, over the default dashed dark gray
+ * @returns A map overlay with the route, or null for itineraries of fewer than two places
+ */
+export function createItineraryRoute(
+  links: ImageLocationLink[],
+  order: number[],
+  style?: MapOverlayStyle
+): MapOverlay | null {
+  if (order.length < 2) {
+    return null;
+  }
+  return {
+    features: [
+      {
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: order.map((index) => [
+            links[index].location.longitude,
+            links[index].location.latitude,
+          ]),
+        },
+        properties: null,
+      },
+    ],
+    style: { ...DEFAULT_ROUTE_STYLE, ...style },
+    // Every stop is a turn of the route
+    simplify: 0,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { lineMarkerAttributes, renderLineMarkerDefs } from './line-markers';
+import { validateImageLocationLink } from '../validators';
+
+describe('renderLineMarkerDefs', () => {
+  it('should define each shape and color in use once', () => {
+    const defs = renderLineMarkerDefs([
+      { lineColor: '#cc0000', endMarker: 'arrow' },
+      { lineColor: '#cc0000', startMarker: 'dot', endMarker: 'arrow' },
+      { lineColor: '#0066cc', endMarker: 'arrow' },
+      { lineColor: '#999999', startMarker: 'none' },
+    ]);
+
+    expect(defs.match(/<marker /g)).toHaveLength(3);
+    expect(defs).toContain('<marker id="link-arrow--cc0000"');
+    expect(defs).toContain('<marker id="link-dot--cc0000"');
+    expect(defs).toContain('<path d="M 0 0 L 10 5 L 0 10 Z" fill="#0066cc"/>');
+  });
+
+  it('should leave out the defs when no line has end markers', () => {
+    expect(renderLineMarkerDefs([{ lineColor: '#000000' }])).toBe('');
+  });
+});
+
+describe('lineMarkerAttributes', () => {
+  it('should reference the definitions for the shape and color', () => {
+    expect(
+      lineMarkerAttributes({ lineColor: 'rgb(0, 0, 0)', startMarker: 'dot', endMarker: 'arrow' })
+    ).toBe(
+      ' marker-start="url(#link-dot-rgb-0--0--0-)" marker-end="url(#link-arrow-rgb-0--0--0-)"'
+    );
+    expect(lineMarkerAttributes({ lineColor: '#000000', endMarker: 'none' })).toBe('');
+  });
+});
+
+describe('validateImageLocationLink style', () => {
+  const link = { imageId: '1', location: { latitude: 48.85, longitude: 2.35 } };
+
+  it('should accept per-link line styles', () => {
+    const result = validateImageLocationLink({
+      ...link,
+      style: { lineColor: '#cc0000', lineOpacity: 0.5, lineStyle: 'dashed', endMarker: 'arrow' },
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject bad per-link line styles', () => {
+    expect(
+      validateImageLocationLink({
+        ...link,
+        style: { lineWidth: -1, lineOpacity: 2, startMarker: 'star' },
+      }).errors
+    ).toEqual([
+      'style.lineWidth must be a positive number',
+      'style.lineOpacity must be a number between 0 and 1',
+      'style.startMarker must be one of: none, arrow, dot',
+    ]);
+    expect(validateImageLocationLink({ ...link, style: 'red' }).errors).toEqual([
+      'style must be an object',
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Link line end markers
+ *
+ * Builds the SVG `<marker>` definitions for the arrowheads and dots drawn at
+ * the ends of link lines. Markers are sized in stroke widths, so they grow
+ * with the line, and there is one definition per shape and color in use.
+ */
+
+import { LinkEndMarker } from '../types';
+
+/**
+ * Colors and end markers of a link line
+ */
+export interface LineMarkerStyle {
+  /** Line color, which the markers are filled with */
+  lineColor: string;
+  /** Shape at the start of the line, at the picture */
+  startMarker?: LinkEndMarker;
+  /** Shape at the end of the line, at the map marker */
+  endMarker?: LinkEndMarker;
+}
+
+/**
+ * Size of an arrowhead, in stroke widths
+ */
+const ARROW_SIZE = 6;
+
+/**
+ * Diameter of an end dot, in stroke widths
+ */
+const DOT_SIZE = 4;
+
+/**
+ * Builds the id of the marker definition for a shape and color
+ */
+function lineMarkerId(shape: LinkEndMarker, color: string): string {
+  return `link-${shape}-${color.toLowerCase().replace(/[^a-z0-9]/g, '-')}`;
+}
+
+/**
+ * Renders the marker definition for a shape and color
+ */
+function renderLineMarkerDef(shape: Exclude<LinkEndMarker, 'none'>, color: string): string {
+  const id = lineMarkerId(shape, color);
+  if (shape === 'arrow') {
+    // The tip sits on the end of the line; at the start the arrow points back at the picture
+    return (
+      `<marker id="${id}" viewBox="0 0 10 10" refX="10" refY="5" ` +
+      `markerWidth="${ARROW_SIZE}" markerHeight="${ARROW_SIZE}" markerUnits="strokeWidth" ` +
+      `orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 Z" fill="${color}"/></marker>`
+    );
+  }
+  return (
+    `<marker id="${id}" viewBox="0 0 10 10" refX="5" refY="5" ` +
+    `markerWidth="${DOT_SIZE}" markerHeight="${DOT_SIZE}" markerUnits="strokeWidth">` +
+    `<circle cx="5" cy="5" r="5" fill="${color}"/></marker>`
+  );
+}
+
+/**
+ * Renders the marker definitions used by a set of link lines
+ * @param styles - Styles of the lines
+ * @returns A `<defs>` element, or an empty string when no line has end markers
+ */
+export function renderLineMarkerDefs(styles: LineMarkerStyle[]): string {
+  const defs = new Map<string, string>();
+  for (const style of styles) {
+    for (const shape of [style.startMarker, style.endMarker]) {
+      if (shape && shape !== 'none' && !defs.has(lineMarkerId(shape, style.lineColor))) {
+        defs.set(lineMarkerId(shape, style.lineColor), renderLineMarkerDef(shape, style.lineColor));
+      }
+    }
+  }
+  return defs.size > 0 ? `<defs>\n${Array.from(defs.values()).join('\n')}\n</defs>` : '';
+}
+
+/**
+ * Builds the marker attributes of a link line
+ * @param style - Style of the line
+ * @returns `marker-start` and `marker-end` attributes (including a leading space), or an empty string
+ */
+export function lineMarkerAttributes(style: LineMarkerStyle): string {
+  let attributes = '';
+  if (style.startMarker && style.startMarker !== 'none') {
+    attributes += ` marker-start="url(#${lineMarkerId(style.startMarker, style.lineColor)})"`;
+  }
+  if (style.endMarker && style.endMarker !== 'none') {
+    attributes += ` marker-end="url(#${lineMarkerId(style.endMarker, style.lineColor)})"`;
+  }
+  return attributes;
+}
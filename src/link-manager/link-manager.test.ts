@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { LinkManager, PicturePosition, ResolvedLink, LinkRenderConfig } from './link-manager';
-import type { ImageLocationLink, MapStyle } from '../types';
+import type { ImageLocationLink, ImageMetadata, MapStyle } from '../types';
 
 describe('LinkManager', () => {
   // Test fixtures
@@ -77,6 +77,49 @@ describe('LinkManager', () => {
       expect(resolved[1].label).toBe('B');
     });
 
+    it('should number links in visiting order in itinerary mode', () => {
+      const manager = new LinkManager();
+      const links: ImageLocationLink[] = [
+        { imageId: '0', location: { latitude: 51.5074, longitude: -0.1278 }, order: 2 },
+        { imageId: '1', location: { latitude: 51.51, longitude: -0.13 }, order: 1 },
+      ];
+      const positions = createSamplePicturePositions().map((position) => ({
+        ...position,
+        label: undefined,
+      }));
+
+      const resolved = manager.resolveLinks(links, positions, {
+        ...defaultLinkRenderConfig,
+        itinerary: true,
+      });
+
+      expect(resolved.map((link) => link.label)).toEqual(['2', '1']);
+    });
+
+    it('should number itinerary links by the capture time of their images', () => {
+      const manager = new LinkManager();
+      const links: ImageLocationLink[] = [
+        { imageId: '0', location: { latitude: 51.5074, longitude: -0.1278 } },
+        { imageId: '1', location: { latitude: 51.51, longitude: -0.13 } },
+      ];
+      const images: ImageMetadata[] = [
+        { filePath: '0.jpg', capturedAt: '2024-06-02T10:00:00Z' },
+        { filePath: '1.jpg', capturedAt: '2024-06-01T10:00:00Z' },
+      ];
+      const positions = createSamplePicturePositions().map((position) => ({
+        ...position,
+        label: undefined,
+      }));
+
+      const resolved = manager.resolveLinks(links, positions, {
+        ...defaultLinkRenderConfig,
+        itinerary: true,
+        images,
+      });
+
+      expect(resolved.map((link) => link.label)).toEqual(['2', '1']);
+    });
+
     it('should skip links without matching picture positions', () => {
       const manager = new LinkManager();
       const links: ImageLocationLink[] = [
@@ -179,6 +222,57 @@ describe('LinkManager', () => {
         defaultLinkRenderConfig.mapViewport.offsetY
       );
     });
+
+    it('should project marker positions with the map projection', () => {
+      const manager = new LinkManager();
+      const links: ImageLocationLink[] = [
+        { imageId: '0', location: { latitude: 60, longitude: 0 } },
+        { imageId: '1', location: { latitude: -60, longitude: 180 } },
+      ];
+      const mapStyle: MapStyle = {
+        provider: 'custom',
+        zoom: 1,
+        center: { latitude: 45, longitude: 0 },
+        projection: 'orthographic',
+      };
+
+      const resolved = manager.resolveLinks(links, createSamplePicturePositions(), {
+        ...defaultLinkRenderConfig,
+        mapStyle,
+      });
+
+      // The second location is on the far side of the globe
+      expect(resolved.map((link) => link.link.imageId)).toEqual(['0']);
+      // 15 degrees north of the center: 512 / (2 * PI) * sin(15°) pixels above it
+      expect(resolved[0].markerPosition.x).toBeCloseTo(60 + 400, 6);
+      expect(resolved[0].markerPosition.y).toBeCloseTo(
+        60 + 300 - (512 / (2 * Math.PI)) * Math.sin(Math.PI / 12),
+        6
+      );
+    });
+
+    it('should point each link to its own marker in a spiderfied cluster', () => {
+      const manager = new LinkManager();
+      const links: ImageLocationLink[] = [
+        { imageId: '0', location: { latitude: 51.5074, longitude: -0.1278 } },
+        { imageId: '1', location: { latitude: 51.5075, longitude: -0.1277 } },
+      ];
+      const mapStyle: MapStyle = {
+        ...defaultMapStyle,
+        zoom: 6,
+        clustering: { mode: 'spiderfy' },
+      };
+
+      const resolved = manager.resolveLinks(links, createSamplePicturePositions(), {
+        ...defaultLinkRenderConfig,
+        mapStyle,
+      });
+
+      // Fanned out one above the other around the cluster
+      const [first, second] = resolved.map((link) => link.markerPosition);
+      expect(second.x - first.x).toBeCloseTo(0, 6);
+      expect(second.y - first.y).toBeCloseTo(56, 6);
+    });
   });
 
   describe('groupLinksByLocation', () => {
@@ -466,6 +560,72 @@ describe('LinkManager', () => {
     });
   });
 
+  describe('marker label placement', () => {
+    // Two pictures of the same place: both markers sit at the map center
+    const links: ImageLocationLink[] = [
+      { imageId: '0', location: defaultMapStyle.center!, label: 'A' },
+      { imageId: '1', location: defaultMapStyle.center!, label: 'B' },
+    ];
+    const markerLabelCenters = (svg: string) =>
+      Array.from(
+        svg.matchAll(
+          /class="link-label link-label-marker" transform="translate\(([-\d.]+), ([-\d.]+)\)"/g
+        ),
+        (match) => ({ x: Number(match[1]), y: Number(match[2]) })
+      );
+
+    it('should place the labels of overlapping markers apart', () => {
+      const manager = new LinkManager();
+      const resolved = manager.resolveLinks(
+        links,
+        createSamplePicturePositions(),
+        defaultLinkRenderConfig
+      );
+
+      const result = manager.renderLinks(resolved, defaultLinkRenderConfig);
+
+      // The marker is at (460, 360): A goes above it, B to its right
+      const [a, b] = markerLabelCenters(result.svg);
+      expect(a.x).toBeCloseTo(460, 6);
+      expect(a.y).toBeCloseTo(325.6, 6);
+      expect(b.x).toBeCloseTo(477.4, 6);
+      expect(b.y).toBeCloseTo(348, 6);
+      expect(result.svg).not.toContain('link-label-leader');
+    });
+
+    it('should draw leader lines to labels moved away from crowded markers', () => {
+      const manager = new LinkManager();
+      const config: LinkRenderConfig = {
+        ...defaultLinkRenderConfig,
+        obstacles: [{ x: 400, y: 300, width: 120, height: 100 }],
+      };
+      const resolved = manager.resolveLinks(links, createSamplePicturePositions(), config);
+
+      const result = manager.renderLinks(resolved, config);
+
+      const [a] = markerLabelCenters(result.svg);
+      expect(a.y).toBeCloseTo(277.6, 6);
+      expect(result.svg).toContain(
+        '<line class="link-label-leader" x1="460" y1="336" x2="460" y2="286" stroke="#000000" stroke-width="1"/>'
+      );
+      expect(result.warnings).not.toContainEqual(expect.stringContaining('overlaps'));
+    });
+
+    it('should warn about labels that cannot be placed clear of other content', () => {
+      const manager = new LinkManager();
+      const config: LinkRenderConfig = {
+        ...defaultLinkRenderConfig,
+        obstacles: [{ x: 0, y: 0, width: 1000, height: 1000 }],
+      };
+      const resolved = manager.resolveLinks(links, createSamplePicturePositions(), config);
+
+      const result = manager.renderLinks(resolved, config);
+
+      expect(result.warnings).toContain('Label "A" overlaps other labels or map content');
+      expect(result.warnings).toContain('Label "B" overlaps other labels or map content');
+    });
+  });
+
   describe('renderAllLinks', () => {
     it('should resolve and render links in one call', () => {
       const manager = new LinkManager();
@@ -664,6 +824,52 @@ describe('LinkManager', () => {
 
       expect(result.svg).toContain('stroke-width="5"');
     });
+
+    it('should let links override the line style', () => {
+      const manager = new LinkManager();
+      const links = createSampleLinks();
+      links[1].style = { lineColor: '#cc0000', lineStyle: 'dotted', startMarker: 'dot' };
+      const config: LinkRenderConfig = {
+        ...defaultLinkRenderConfig,
+        style: { type: 'line', lineColor: '#0066cc', endMarker: 'arrow' },
+      };
+      const resolved = manager.resolveLinks(links, createSamplePicturePositions(), config);
+
+      const result = manager.renderLinks(resolved, config);
+      const [first, second] = result.svg.match(/<line class="link-line"[^>]*\/>/g)!;
+
+      expect(first).toContain('stroke="#0066cc"');
+      expect(first).toContain('marker-end="url(#link-arrow--0066cc)"');
+      expect(first).not.toContain('stroke-dasharray');
+      expect(second).toContain('stroke="#cc0000"');
+      expect(second).toContain('stroke-dasharray="2,2"');
+      expect(second).toContain(
+        'marker-start="url(#link-dot--cc0000)" marker-end="url(#link-arrow--cc0000)"'
+      );
+      expect(result.svg.match(/<marker /g)).toHaveLength(3);
+    });
+
+    it('should draw routed lines as paths from the picture to the marker', () => {
+      const manager = new LinkManager();
+      const config: LinkRenderConfig = {
+        ...defaultLinkRenderConfig,
+        style: { type: 'line', routing: 'curved' },
+      };
+      const resolved = manager.resolveLinks(
+        createSampleLinks(),
+        createSamplePicturePositions(),
+        config
+      );
+
+      const result = manager.renderLinks(resolved, config);
+
+      expect(result.svg).not.toContain('<line class="link-line"');
+      const { x, y } = resolved[0].markerPosition;
+      expect(result.svg).toMatch(
+        new RegExp(`<path class="link-line" d="M 50 60 C [^"]* ${x} ${y}" fill="none"`)
+      );
+      expect(result.svg).toContain('data-image-id="1"');
+    });
   });
 
   describe('label style rendering', () => {
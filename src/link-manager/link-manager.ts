@@ -3,8 +3,22 @@
  * Handles rendering of visual link indicators (lines, numbers, labels)
  */
 
-import { GeoLocation, ImageLocationLink, LinkStyle, PixelCoordinate, MapStyle } from '../types';
-import { geoToViewportPixel } from '../map-engine/coordinates';
+import {
+  GeoLocation,
+  ImageLocationLink,
+  ImageMetadata,
+  LinkLineStyle,
+  LinkStyle,
+  PixelCoordinate,
+  MapStyle,
+} from '../types';
+import { resolveMapView } from '../map-engine/coordinates';
+import { placeMarkers } from '../map-engine/clustering';
+import { getMapOverlayBoxes } from '../map-engine/engine';
+import { LabelBox, PlacedLabel, placeLabels } from '../map-engine/labels';
+import { exitDirection, routeLinks } from './routing';
+import { lineMarkerAttributes, renderLineMarkerDefs } from './line-markers';
+import { itineraryOrder } from '../itinerary';
 
 /**
  * Position information for a picture in the border
@@ -16,6 +30,8 @@ export interface PicturePosition {
   center: PixelCoordinate;
   /** Connection point for link lines (usually edge of picture closest to map) */
   connectionPoint: PixelCoordinate;
+  /** Frame of the picture, which routed link lines of other pictures keep clear of */
+  frame?: LabelBox;
   /** Optional label for the picture */
   label?: string;
 }
@@ -50,6 +66,21 @@ export interface LinkRenderConfig {
     offsetX: number;
     offsetY: number;
   };
+  /**
+   * Further areas that marker labels keep clear of, in composition pixels (the
+   * markers, and the scale bar and attribution of the map style, are avoided anyway)
+   */
+  obstacles?: LabelBox[];
+  /**
+   * Number links without a label 1..N in visiting order (see `itineraryOrder`)
+   * instead of lettering them A, B, C in array order
+   */
+  itinerary?: boolean;
+  /**
+   * Images the links refer to, whose capture times order itinerary links
+   * without a visit time, as in the picture order of the layout
+   */
+  images?: ImageMetadata[];
 }
 
 /**
@@ -321,6 +352,12 @@ function sanitizeColor(color: string | undefined, defaultColor: string): string
   return defaultColor;
 }
 
+/**
+ * Size of the map pin drawn for each link, which marker labels keep clear of
+ */
+const MARKER_SYMBOL_WIDTH = 14;
+const MARKER_SYMBOL_HEIGHT = 24;
+
 /**
  * Default link style values
  */
@@ -331,6 +368,10 @@ const DEFAULT_LINK_STYLE: Required<Omit<LinkStyle, 'labelStyle'>> & {
   lineColor: '#000000',
   lineWidth: 1,
   lineStyle: 'solid',
+  lineOpacity: 1,
+  startMarker: 'none',
+  endMarker: 'none',
+  routing: 'straight',
   labelStyle: {
     fontFamily: 'Arial',
     fontSize: 12,
@@ -357,24 +398,39 @@ export class LinkManager {
     const positionMap = new Map<string, PicturePosition>();
     picturePositions.forEach((pos) => positionMap.set(pos.imageId, pos));
 
+    const view = resolveMapView(
+      config.mapStyle,
+      links.map((link) => link.location),
+      config.mapViewport.width,
+      config.mapViewport.height
+    );
+    // Links point to their marker, which may be placed on a cluster badge or in a fan
+    const placement = placeMarkers(
+      links.map((link) => link.location),
+      { ...config.mapStyle, ...view },
+      config.mapViewport.width,
+      config.mapViewport.height
+    );
     const resolvedLinks: ResolvedLink[] = [];
     let labelIndex = 0;
+    const stops = new Map(
+      config.itinerary
+        ? itineraryOrder(links, config.images).map((linkIndex, stop) => [linkIndex, stop])
+        : []
+    );
 
-    for (const link of links) {
+    links.forEach((link, linkIndex) => {
       const picturePosition = positionMap.get(link.imageId);
       if (!picturePosition) {
         // Picture not found - skip this link
-        continue;
+        return;
       }
 
-      // Convert geographic location to viewport pixel coordinates
-      const geoPixel = geoToViewportPixel(
-        link.location,
-        config.mapStyle.center,
-        config.mapStyle.zoom,
-        config.mapViewport.width,
-        config.mapViewport.height
-      );
+      // Markers on the far side of an orthographic globe are not drawn
+      const geoPixel = placement.positions[linkIndex];
+      if (!geoPixel) {
+        return;
+      }
 
       // Add map viewport offset to get coordinates in the overall composition
       const markerPosition: PixelCoordinate = {
@@ -383,7 +439,11 @@ export class LinkManager {
       };
 
       // Determine label: use provided label, picture label, or auto-generate
-      const label = link.label ?? picturePosition.label ?? this.generateLabel(labelIndex);
+      const stop = stops.get(linkIndex);
+      const label =
+        link.label ??
+        picturePosition.label ??
+        (stop !== undefined ? String(stop + 1) : this.generateLabel(labelIndex));
 
       resolvedLinks.push({
         link,
@@ -393,7 +453,7 @@ export class LinkManager {
       });
 
       labelIndex++;
-    }
+    });
 
     return resolvedLinks;
   }
@@ -450,7 +510,7 @@ export class LinkManager {
     }
 
     if (style.type === 'label' || style.type === 'both') {
-      parts.push(this.renderLabels(resolvedLinks, style));
+      parts.push(this.renderLabels(resolvedLinks, style, config, warnings));
     }
 
     parts.push('</g>');
@@ -509,6 +569,10 @@ export class LinkManager {
       lineColor: sanitizeColor(style.lineColor, DEFAULT_LINK_STYLE.lineColor),
       lineWidth: style.lineWidth ?? DEFAULT_LINK_STYLE.lineWidth,
       lineStyle: style.lineStyle ?? DEFAULT_LINK_STYLE.lineStyle,
+      lineOpacity: style.lineOpacity ?? DEFAULT_LINK_STYLE.lineOpacity,
+      startMarker: style.startMarker ?? DEFAULT_LINK_STYLE.startMarker,
+      endMarker: style.endMarker ?? DEFAULT_LINK_STYLE.endMarker,
+      routing: style.routing ?? DEFAULT_LINK_STYLE.routing,
       labelStyle: {
         fontFamily: style.labelStyle?.fontFamily ?? DEFAULT_LINK_STYLE.labelStyle.fontFamily,
         fontSize: style.labelStyle?.fontSize ?? DEFAULT_LINK_STYLE.labelStyle.fontSize,
@@ -519,6 +583,9 @@ export class LinkManager {
 
   /**
    * Renders connection lines between pictures and markers
+   *
+   * Lines are straight unless the style routes them otherwise; routed lines
+   * are drawn as paths that keep clear of the frames of other pictures.
    * @param resolvedLinks - Resolved links to render
    * @param style - Normalized style configuration
    * @param warnings - Array to collect warnings
@@ -534,19 +601,26 @@ export class LinkManager {
 
     // Group links by location to handle multiple pictures per marker
     const groups = this.groupLinksByLocation(resolvedLinks);
+    const lines: Array<{ resolved: ResolvedLink; end: PixelCoordinate }> = [];
 
     for (const group of groups) {
       if (group.links.length === 1) {
         // Simple case: single link to location
         const resolved = group.links[0];
-        parts.push(this.renderSingleLine(resolved, style));
+        lines.push({ resolved, end: resolved.markerPosition });
       } else {
         // Multiple pictures point to same location
         // Render lines with slight offsets to avoid complete overlap
         for (let i = 0; i < group.links.length; i++) {
           const resolved = group.links[i];
           const offset = this.calculateMultiLinkOffset(i, group.links.length);
-          parts.push(this.renderSingleLine(resolved, style, offset));
+          lines.push({
+            resolved,
+            end: {
+              x: resolved.markerPosition.x + offset.x,
+              y: resolved.markerPosition.y + offset.y,
+            },
+          });
         }
         warnings.push(
           `Location "${group.location.name ?? 'unnamed'}" has ${group.links.length} pictures linked to it`
@@ -554,30 +628,109 @@ export class LinkManager {
       }
     }
 
+    // Each link may override the line style
+    const lineStyles = lines.map(({ resolved }) =>
+      this.resolveLineStyle(style, resolved.link.style)
+    );
+    const markerDefs = renderLineMarkerDefs(lineStyles);
+    if (markerDefs) {
+      parts.push(markerDefs);
+    }
+
+    if (style.routing === 'straight') {
+      lines.forEach(({ resolved, end }, index) => {
+        parts.push(this.renderSingleLine(resolved, lineStyles[index], end));
+      });
+    } else {
+      const requests = lines.map(({ resolved, end }) => {
+        const { center, connectionPoint, frame } = resolved.picturePosition;
+        return {
+          start: connectionPoint,
+          end,
+          exit: exitDirection(frame ?? { ...center, width: 0, height: 0 }, connectionPoint, end),
+          picture: frame,
+        };
+      });
+      const frames = new Set<LabelBox>();
+      for (const resolved of resolvedLinks) {
+        if (resolved.picturePosition.frame) frames.add(resolved.picturePosition.frame);
+      }
+      const paths = routeLinks(requests, style.routing, Array.from(frames));
+      lines.forEach(({ resolved }, index) => {
+        parts.push(this.renderRoutedLine(resolved, lineStyles[index], paths[index]));
+      });
+    }
+
     parts.push('</g>');
     return parts.join('\n');
   }
 
+  /**
+   * Resolves the line style of a link, falling back to the normalized style
+   * for anything the link does not override
+   * @param style - Normalized style configuration
+   * @param override - Line style of the link
+   * @returns Complete line style of the link
+   */
+  private resolveLineStyle(
+    style: ReturnType<LinkManager['normalizeStyle']>,
+    override: LinkLineStyle = {}
+  ): Required<LinkLineStyle> {
+    return {
+      lineColor: sanitizeColor(override.lineColor, style.lineColor),
+      lineWidth: override.lineWidth ?? style.lineWidth,
+      lineStyle: override.lineStyle ?? style.lineStyle,
+      lineOpacity: Math.min(1, Math.max(0, override.lineOpacity ?? style.lineOpacity)),
+      startMarker: override.startMarker ?? style.startMarker,
+      endMarker: override.endMarker ?? style.endMarker,
+    };
+  }
+
   /**
    * Renders a single connection line
    * @param resolved - Resolved link data
-   * @param style - Normalized style configuration
-   * @param offset - Optional offset for the line endpoint (for overlapping lines)
+   * @param lineStyle - Line style of the link
+   * @param end - End of the line, at or slightly offset from the marker
    * @returns SVG line element string
    */
   private renderSingleLine(
     resolved: ResolvedLink,
-    style: ReturnType<LinkManager['normalizeStyle']>,
-    offset: PixelCoordinate = { x: 0, y: 0 }
+    lineStyle: Required<LinkLineStyle>,
+    end: PixelCoordinate
   ): string {
     const x1 = resolved.picturePosition.connectionPoint.x;
     const y1 = resolved.picturePosition.connectionPoint.y;
-    const x2 = resolved.markerPosition.x + offset.x;
-    const y2 = resolved.markerPosition.y + offset.y;
+    const x2 = end.x;
+    const y2 = end.y;
 
-    const strokeDasharray = this.getStrokeDasharray(style.lineStyle);
+    return `<line class="link-line" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"${this.getStrokeAttributes(lineStyle)} data-image-id="${this.escapeXml(resolved.link.imageId)}"/>`;
+  }
 
-    return `<line class="link-line" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${style.lineColor}" stroke-width="${style.lineWidth}"${strokeDasharray} data-image-id="${this.escapeXml(resolved.link.imageId)}"/>`;
+  /**
+   * Renders a single routed connection line
+   * @param resolved - Resolved link data
+   * @param lineStyle - Line style of the link
+   * @param d - SVG path data of the route
+   * @returns SVG path element string
+   */
+  private renderRoutedLine(
+    resolved: ResolvedLink,
+    lineStyle: Required<LinkLineStyle>,
+    d: string
+  ): string {
+    return `<path class="link-line" d="${d}" fill="none"${this.getStrokeAttributes(lineStyle)} data-image-id="${this.escapeXml(resolved.link.imageId)}"/>`;
+  }
+
+  /**
+   * Gets the stroke, opacity and end marker attributes for a line style
+   * @param lineStyle - Line style of a link
+   * @returns Attribute string (including leading space)
+   */
+  private getStrokeAttributes(lineStyle: Required<LinkLineStyle>): string {
+    const strokeDasharray = this.getStrokeDasharray(lineStyle.lineStyle);
+    const opacity = lineStyle.lineOpacity < 1 ? ` opacity="${lineStyle.lineOpacity}"` : '';
+
+    return ` stroke="${lineStyle.lineColor}" stroke-width="${lineStyle.lineWidth}"${strokeDasharray}${opacity}${lineMarkerAttributes(lineStyle)}`;
   }
 
   /**
@@ -620,18 +773,45 @@ export class LinkManager {
 
   /**
    * Renders labels on pictures and markers
+   *
+   * Marker labels are placed clear of each other, of the markers and of the
+   * map scale and attribution, with a leader line when moved away from their
+   * marker.
    * @param resolvedLinks - Resolved links to render
    * @param style - Normalized style configuration
+   * @param config - Link rendering configuration
+   * @param warnings - Array to collect warnings
    * @returns SVG string containing label elements
    */
   private renderLabels(
     resolvedLinks: ResolvedLink[],
-    style: ReturnType<LinkManager['normalizeStyle']>
+    style: ReturnType<LinkManager['normalizeStyle']>,
+    config: LinkRenderConfig,
+    warnings: string[]
   ): string {
+    const { width, height, offsetX, offsetY } = config.mapViewport;
+    const diameter = style.labelStyle.fontSize * 1.4;
+    const markerBoxes: LabelBox[] = resolvedLinks.map(({ markerPosition }) => ({
+      x: markerPosition.x - MARKER_SYMBOL_WIDTH / 2,
+      y: markerPosition.y - MARKER_SYMBOL_HEIGHT,
+      width: MARKER_SYMBOL_WIDTH,
+      height: MARKER_SYMBOL_HEIGHT,
+    }));
+    const overlays = getMapOverlayBoxes(config.mapStyle, width, height).map((box) => ({
+      ...box,
+      x: box.x + offsetX,
+      y: box.y + offsetY,
+    }));
+    const placedLabels = placeLabels(
+      markerBoxes.map((target) => ({ target, width: diameter, height: diameter })),
+      [...markerBoxes, ...overlays, ...(config.obstacles ?? [])],
+      { x: offsetX, y: offsetY, width, height }
+    );
+
     const parts: string[] = [];
     parts.push('<g class="link-labels" aria-hidden="true">');
 
-    for (const resolved of resolvedLinks) {
+    resolvedLinks.forEach((resolved, i) => {
       // Label near the picture
       parts.push(
         this.renderLabelAtPosition(
@@ -643,23 +823,50 @@ export class LinkManager {
       );
 
       // Label near the marker
+      const placed = placedLabels[i];
+      if (placed.overlaps) {
+        warnings.push(`Label "${resolved.label}" overlaps other labels or map content`);
+      }
+      parts.push(this.renderMarkerLabel(placed, resolved.label, style.labelStyle));
+    });
+
+    parts.push('</g>');
+    return parts.join('\n');
+  }
+
+  /**
+   * Renders a marker label where the label placement put it
+   * @param placed - Placed label box and leader line
+   * @param label - Label text
+   * @param labelStyle - Label styling options
+   * @returns SVG string with the leader line, if any, and the label
+   */
+  private renderMarkerLabel(
+    placed: PlacedLabel,
+    label: string,
+    labelStyle: Required<NonNullable<LinkStyle['labelStyle']>>
+  ): string {
+    const parts: string[] = [];
+    if (placed.leader) {
+      const { start, end } = placed.leader;
       parts.push(
-        this.renderLabelAtPosition(
-          resolved.markerPosition,
-          resolved.label,
-          style.labelStyle,
-          'marker'
-        )
+        `<line class="link-label-leader" x1="${start.x}" y1="${start.y}" x2="${end.x}" y2="${end.y}" stroke="${labelStyle.color}" stroke-width="1"/>`
       );
     }
-
-    parts.push('</g>');
+    parts.push(
+      this.renderLabelAtPosition(
+        { x: placed.box.x + placed.box.width / 2, y: placed.box.y + placed.box.height / 2 },
+        label,
+        labelStyle,
+        'marker'
+      )
+    );
     return parts.join('\n');
   }
 
   /**
    * Renders a label at a specific position
-   * @param position - Position for the label
+   * @param position - Position of the label center
    * @param label - Label text
    * @param labelStyle - Label styling options
    * @param type - Whether this is a picture or marker label
@@ -677,14 +884,10 @@ export class LinkManager {
     const bgColor = type === 'marker' ? '#ffffff' : '#f0f0f0';
     const borderColor = labelStyle.color;
 
-    // Position offset based on type
-    const offsetY = type === 'marker' ? -radius - 10 : 0;
-
     const parts: string[] = [];
     parts.push(
-      `<g class="link-label link-label-${type}" transform="translate(${position.x}, ${position.y + offsetY})">`
+      `<g class="link-label link-label-${type}" transform="translate(${position.x}, ${position.y})">`
     );
-
     // Background circle
     parts.push(
       `<circle r="${radius}" fill="${bgColor}" stroke="${borderColor}" stroke-width="1"/>`
@@ -812,10 +1015,21 @@ export class LinkManager {
         connectionY = y;
       }
 
+      // Pictures on the left and right edges connect level with their center
+      const onSide = connectionY === y;
+      const frameWidth = onSide ? borderConfig.borderWidth : spacing;
+      const frameHeight = onSide ? spacing : borderConfig.borderWidth;
+
       positions.push({
         imageId: index.toString(),
         center: { x, y },
         connectionPoint: { x: connectionX, y: connectionY },
+        frame: {
+          x: x - frameWidth / 2,
+          y: y - frameHeight / 2,
+          width: frameWidth,
+          height: frameHeight,
+        },
         label: labelGenerator(index),
       });
     }
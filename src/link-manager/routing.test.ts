@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { exitDirection, LinkRouteRequest, routeLinks } from './routing';
+import { validateLinkStyle } from '../validators';
+import type { LabelBox } from '../map-engine/labels';
+
+/**
+ * Picks the points out of SVG path data
+ */
+function pathPoints(d: string): Array<{ x: number; y: number }> {
+  const numbers = d.match(/-?\d+(\.\d+)?/g)!.map(Number);
+  const points: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] });
+  }
+  return points;
+}
+
+describe('exitDirection', () => {
+  it('should leave a picture away from the side its line starts on', () => {
+    const picture: LabelBox = { x: 100, y: 0, width: 80, height: 60 };
+
+    expect(exitDirection(picture, { x: 140, y: 60 }, { x: 0, y: 300 })).toEqual({ x: 0, y: 1 });
+    expect(exitDirection(picture, { x: 100, y: 30 }, { x: 0, y: 300 })).toEqual({ x: -1, y: 0 });
+  });
+
+  it('should fall back to the offset from the center for pictures without a size', () => {
+    const center: LabelBox = { x: 30, y: 200, width: 0, height: 0 };
+
+    expect(exitDirection(center, { x: 54, y: 210 }, { x: 400, y: 100 })).toEqual({ x: 1, y: 0 });
+    expect(exitDirection(center, { x: 30, y: 200 }, { x: 40, y: 100 })).toEqual({ x: 0, y: -1 });
+  });
+});
+
+describe('routeLinks', () => {
+  // A picture on the top border, with its line leaving downwards to a marker
+  const picture: LabelBox = { x: 60, y: 0, width: 80, height: 60 };
+  const request: LinkRouteRequest = {
+    start: { x: 100, y: 60 },
+    end: { x: 400, y: 300 },
+    exit: { x: 0, y: 1 },
+    picture,
+  };
+
+  it('should draw curves that leave the picture and meet the marker along the exit direction', () => {
+    const [d] = routeLinks([request], 'curved', [picture]);
+
+    expect(d).toBe('M 100 60 C 100 180 400 180 400 300');
+  });
+
+  it('should draw orthogonal lines that turn in the channel next to the border', () => {
+    const [d] = routeLinks([request], 'orthogonal', [picture]);
+
+    expect(d).toBe('M 100 60 L 100 76 L 400 76 L 400 300');
+  });
+
+  it('should give orthogonal lines leaving the same side their own channels', () => {
+    const other: LinkRouteRequest = {
+      ...request,
+      start: { x: 200, y: 60 },
+      end: { x: 250, y: 400 },
+    };
+    const [long, short] = routeLinks([request, other], 'orthogonal', []);
+
+    // The line moving less across takes the channel closest to the border
+    expect(short).toBe('M 200 60 L 200 76 L 250 76 L 250 400');
+    expect(long).toBe('M 100 60 L 100 82 L 400 82 L 400 300');
+  });
+
+  it('should turn further out when the channel passes over another picture', () => {
+    const inset: LabelBox = { x: 200, y: 70, width: 40, height: 20 };
+    const [d] = routeLinks([request], 'orthogonal', [picture, inset]);
+
+    expect(d).toBe('M 100 60 L 100 180 L 400 180 L 400 300');
+  });
+
+  it('should bend curves later when they would pass over another picture', () => {
+    const neighbour: LabelBox = { x: 140, y: 60, width: 60, height: 60 };
+    const [d] = routeLinks([{ ...request, end: { x: 400, y: 200 } }], 'curved', [
+      picture,
+      neighbour,
+    ]);
+
+    // Bending halfway to the marker would cut across the neighbouring picture
+    expect(d).toBe('M 100 60 C 100 165 400 165 400 200');
+  });
+
+  it('should merge the lines of nearby pictures at a shared point', () => {
+    const requests: LinkRouteRequest[] = [
+      { start: { x: 100, y: 60 }, end: { x: 300, y: 400 }, exit: { x: 0, y: 1 } },
+      { start: { x: 180, y: 60 }, end: { x: 500, y: 300 }, exit: { x: 0, y: 1 } },
+      // Too far along the border to join the bundle
+      { start: { x: 700, y: 60 }, end: { x: 600, y: 300 }, exit: { x: 0, y: 1 } },
+    ];
+    const paths = routeLinks(requests, 'bundled', []);
+
+    // Each bundled path is two curves that meet at the merge point
+    const [first, second, third] = paths.map(pathPoints);
+    expect(first[3]).toEqual({ x: 270, y: 108 });
+    expect(second[3]).toEqual({ x: 270, y: 108 });
+    expect(third[3]).not.toEqual({ x: 270, y: 108 });
+    expect(first[first.length - 1]).toEqual({ x: 300, y: 400 });
+  });
+});
+
+describe('validateLinkStyle', () => {
+  it('should accept routing modes', () => {
+    expect(validateLinkStyle({ type: 'line', routing: 'bundled' }).valid).toBe(true);
+  });
+
+  it('should reject unknown routing modes', () => {
+    expect(validateLinkStyle({ type: 'line', routing: 'zigzag', lineWidth: 0 }).errors).toEqual([
+      'lineWidth must be a positive number',
+      'routing must be one of: straight, curved, orthogonal, bundled',
+    ]);
+  });
+});
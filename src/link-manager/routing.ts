@@ -0,0 +1,376 @@
+/**
+ * Link line routing
+ *
+ * Works out the path of each link line from its picture to its marker.
+ * Besides straight lines, links can be drawn as smooth curves, as
+ * right-angled "metro-style" elbows, or bundled: the lines leaving nearby
+ * pictures merge just inside the border before fanning out to their markers.
+ * Every routed line first leaves its picture at a right angle to the border,
+ * and takes a wider turn when its path would otherwise pass over another
+ * picture.
+ */
+
+import { LinkRouting, PixelCoordinate } from '../types';
+import { LabelBox } from '../map-engine/labels';
+
+/**
+ * A link line to route
+ */
+export interface LinkRouteRequest {
+  /** Start of the line, on the picture */
+  start: PixelCoordinate;
+  /** End of the line, at the marker */
+  end: PixelCoordinate;
+  /** Direction the line leaves its picture in, towards the map (see `exitDirection`) */
+  exit: PixelCoordinate;
+  /** Frame of the picture the line starts at, which is not an obstacle to its own line */
+  picture?: LabelBox;
+}
+
+/**
+ * A routed path, as a list of straight or cubic Bezier segments
+ */
+interface RouteSegment {
+  /** First control point, for curves */
+  c1?: PixelCoordinate;
+  /** Second control point, for curves */
+  c2?: PixelCoordinate;
+  /** End of the segment */
+  to: PixelCoordinate;
+}
+
+/**
+ * Distance from the border to the first orthogonal channel, in pixels
+ */
+const ORTHOGONAL_CHANNEL = 16;
+
+/**
+ * Distance between neighbouring orthogonal channels, in pixels
+ */
+const ORTHOGONAL_SPACING = 6;
+
+/**
+ * Largest distance from the border to the point where bundled lines merge, in pixels
+ */
+const BUNDLE_DEPTH = 48;
+
+/**
+ * Largest distance along the border between the first and last line of a bundle, in pixels
+ */
+const BUNDLE_SPAN = 160;
+
+/**
+ * Points sampled along each segment when checking a path against the pictures
+ */
+const SAMPLES_PER_SEGMENT = 16;
+
+/**
+ * Works out the direction a link line leaves its picture in
+ *
+ * That is away from the side of the picture nearest to the start of the
+ * line: from a picture on the top border, whose line starts at its bottom
+ * edge, the line leaves downwards. For a picture without a frame size, the
+ * line leaves along the axis it is offset from the picture center along, or
+ * failing that the axis it mostly runs along.
+ * @param picture - Frame of the picture, or its center as a box without size
+ * @param start - Start of the line
+ * @param end - End of the line
+ * @returns Unit vector along one axis
+ */
+export function exitDirection(
+  picture: LabelBox,
+  start: PixelCoordinate,
+  end: PixelCoordinate
+): PixelCoordinate {
+  if (picture.width > 0 && picture.height > 0) {
+    const sides: Array<[PixelCoordinate, number]> = [
+      [{ x: 0, y: -1 }, start.y - picture.y],
+      [{ x: 0, y: 1 }, picture.y + picture.height - start.y],
+      [{ x: -1, y: 0 }, start.x - picture.x],
+      [{ x: 1, y: 0 }, picture.x + picture.width - start.x],
+    ];
+    return sides.reduce((nearest, side) =>
+      Math.abs(side[1]) < Math.abs(nearest[1]) ? side : nearest
+    )[0];
+  }
+
+  let dx = start.x - (picture.x + picture.width / 2);
+  let dy = start.y - (picture.y + picture.height / 2);
+  if (Math.abs(dx) < 1e-9 && Math.abs(dy) < 1e-9) {
+    dx = end.x - start.x;
+    dy = end.y - start.y;
+  }
+  return Math.abs(dx) > Math.abs(dy) ? { x: Math.sign(dx), y: 0 } : { x: 0, y: dy < 0 ? -1 : 1 };
+}
+
+/**
+ * Routes link lines between pictures and markers
+ * @param requests - Lines to route
+ * @param routing - Routing mode
+ * @param obstacles - Picture frames the lines should not pass over
+ * @returns SVG path data of each line, in request order
+ */
+export function routeLinks(
+  requests: LinkRouteRequest[],
+  routing: LinkRouting,
+  obstacles: LabelBox[]
+): string[] {
+  const routes: RouteSegment[][] = new Array<RouteSegment[]>(requests.length);
+  const clear = (index: number, segments: RouteSegment[]) =>
+    isClear(
+      requests[index].start,
+      segments,
+      obstacles.filter((obstacle) => obstacle !== requests[index].picture)
+    );
+
+  if (routing === 'bundled') {
+    for (const bundle of groupBundles(requests)) {
+      // All lines of a bundle share their merge point, so they take the same turn
+      const candidates = [1, 2, 3].map((factor) => routeBundle(requests, bundle, factor));
+      const route =
+        candidates.find((candidate) =>
+          candidate.every((segments, i) => clear(bundle[i], segments))
+        ) ?? candidates[0];
+      bundle.forEach((index, i) => (routes[index] = route[i]));
+    }
+  } else {
+    const channels = routing === 'orthogonal' ? assignChannels(requests) : [];
+    requests.forEach((request, index) => {
+      const candidates =
+        routing === 'curved'
+          ? [0.5, 0.75, 1].map((bend) => routeCurve(request, bend))
+          : routing === 'orthogonal'
+            ? routeElbows(request, channels[index])
+            : [[{ to: request.end }]];
+      routes[index] = candidates.find((candidate) => clear(index, candidate)) ?? candidates[0];
+    });
+  }
+
+  return routes.map((segments, index) => toPathData(requests[index].start, segments));
+}
+
+/**
+ * Distance of a point along the exit direction
+ */
+function along(point: PixelCoordinate, exit: PixelCoordinate): number {
+  return point.x * exit.x + point.y * exit.y;
+}
+
+/**
+ * Position of a point across the exit direction
+ */
+function across(point: PixelCoordinate, exit: PixelCoordinate): number {
+  return point.x * Math.abs(exit.y) + point.y * Math.abs(exit.x);
+}
+
+/**
+ * Builds a point from its distance along and position across the exit direction
+ */
+function fromAxes(alongValue: number, acrossValue: number, exit: PixelCoordinate): PixelCoordinate {
+  return {
+    x: exit.x * alongValue + Math.abs(exit.y) * acrossValue,
+    y: exit.y * alongValue + Math.abs(exit.x) * acrossValue,
+  };
+}
+
+/**
+ * Routes a smooth curve that leaves the picture and meets the marker along the exit direction
+ * @param bend - How far out the curve turns, as a fraction of the distance to the marker
+ */
+function routeCurve(request: LinkRouteRequest, bend: number): RouteSegment[] {
+  const { start, end, exit } = request;
+  const depth = Math.max(0, along(end, exit) - along(start, exit));
+  return [
+    {
+      c1: fromAxes(along(start, exit) + depth * bend, across(start, exit), exit),
+      c2: fromAxes(along(end, exit) - depth * (1 - bend), across(end, exit), exit),
+      to: end,
+    },
+  ];
+}
+
+/**
+ * Gives the orthogonal lines leaving each side their own channel
+ *
+ * Lines that move only a little across run in the channels closest to the
+ * border, so that they stay clear of the longer runs.
+ * @returns Distance from the border to the channel of each line
+ */
+function assignChannels(requests: LinkRouteRequest[]): number[] {
+  const channels = new Array<number>(requests.length);
+  for (const group of groupBySide(requests)) {
+    const shift = (index: number) => {
+      const { start, end, exit } = requests[index];
+      return Math.abs(across(end, exit) - across(start, exit));
+    };
+    group
+      .slice()
+      .sort((a, b) => shift(a) - shift(b))
+      .forEach((index, rank) => {
+        channels[index] = ORTHOGONAL_CHANNEL + rank * ORTHOGONAL_SPACING;
+      });
+  }
+  return channels;
+}
+
+/**
+ * Routes right-angled lines that turn at the line's channel, halfway to the
+ * marker, or level with the marker, in order of preference
+ */
+function routeElbows(request: LinkRouteRequest, channel: number): RouteSegment[][] {
+  const { start, end, exit } = request;
+  const depth = Math.max(0, along(end, exit) - along(start, exit));
+
+  return [Math.min(channel, depth), depth / 2, depth].map((turn) => {
+    const turnAt = along(start, exit) + turn;
+    const corners = [
+      fromAxes(turnAt, across(start, exit), exit),
+      fromAxes(turnAt, across(end, exit), exit),
+      end,
+    ];
+    // Leave out corners that coincide with the previous point
+    let previous = start;
+    const segments: RouteSegment[] = [];
+    for (const corner of corners) {
+      if (Math.hypot(corner.x - previous.x, corner.y - previous.y) > 1e-9) {
+        segments.push({ to: corner });
+        previous = corner;
+      }
+    }
+    return segments.length > 0 ? segments : [{ to: end }];
+  });
+}
+
+/**
+ * Groups the lines leaving each side of the map, in request order
+ */
+function groupBySide(requests: LinkRouteRequest[]): number[][] {
+  const groups = new Map<string, number[]>();
+  requests.forEach((request, index) => {
+    const key = `${request.exit.x},${request.exit.y}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(index);
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Groups lines into bundles: lines leaving the same side from starts at most
+ * BUNDLE_SPAN apart
+ */
+function groupBundles(requests: LinkRouteRequest[]): number[][] {
+  const bundles: number[][] = [];
+  for (const group of groupBySide(requests)) {
+    const position = (index: number) => across(requests[index].start, requests[index].exit);
+    const sorted = group.slice().sort((a, b) => position(a) - position(b));
+
+    let bundle: number[] = [];
+    for (const index of sorted) {
+      if (bundle.length > 0 && position(index) - position(bundle[0]) > BUNDLE_SPAN) {
+        bundles.push(bundle);
+        bundle = [];
+      }
+      bundle.push(index);
+    }
+    bundles.push(bundle);
+  }
+  return bundles;
+}
+
+/**
+ * Routes the lines of a bundle through their shared merge point
+ *
+ * The merge point lies just inside the border, across from the middle of
+ * the lines. Each line curves into it along the exit direction and curves
+ * out again to its marker, so that the lines run together at the merge point.
+ * @param factor - How far from the border the lines merge, as a multiple of the default
+ * @returns Route of each line of the bundle, in bundle order
+ */
+function routeBundle(
+  requests: LinkRouteRequest[],
+  bundle: number[],
+  factor: number
+): RouteSegment[][] {
+  const members = bundle.map((index) => requests[index]);
+  const { exit } = members[0];
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const border = mean(members.map((request) => along(request.start, exit)));
+  const reach = Math.min(...members.map((request) => along(request.end, exit) - border));
+  const depth = Math.max(0, Math.min(BUNDLE_DEPTH * factor, reach / 2));
+  const middle = mean(
+    members.map((request) => (across(request.start, exit) + across(request.end, exit)) / 2)
+  );
+  const merge = fromAxes(border + depth, middle, exit);
+
+  return members.map(({ start, end }) => {
+    const rest = Math.max(0, along(end, exit) - along(merge, exit));
+    return [
+      {
+        c1: fromAxes(along(start, exit) + depth / 2, across(start, exit), exit),
+        c2: fromAxes(along(merge, exit) - depth / 2, middle, exit),
+        to: merge,
+      },
+      {
+        c1: fromAxes(along(merge, exit) + rest / 2, middle, exit),
+        c2: fromAxes(along(end, exit) - rest / 2, across(end, exit), exit),
+        to: end,
+      },
+    ];
+  });
+}
+
+/**
+ * Checks that a path does not pass over any of the obstacles
+ */
+function isClear(start: PixelCoordinate, segments: RouteSegment[], obstacles: LabelBox[]): boolean {
+  let from = start;
+  for (const segment of segments) {
+    for (let step = 1; step <= SAMPLES_PER_SEGMENT; step++) {
+      const point = pointOnSegment(from, segment, step / SAMPLES_PER_SEGMENT);
+      // Touching the edge of a picture, as lines leaving it do, is fine
+      const inside = obstacles.some(
+        (box) =>
+          point.x > box.x + 0.5 &&
+          point.x < box.x + box.width - 0.5 &&
+          point.y > box.y + 0.5 &&
+          point.y < box.y + box.height - 0.5
+      );
+      if (inside) {
+        return false;
+      }
+    }
+    from = segment.to;
+  }
+  return true;
+}
+
+/**
+ * Finds the point at parameter t (0 to 1) of a segment
+ */
+function pointOnSegment(from: PixelCoordinate, segment: RouteSegment, t: number): PixelCoordinate {
+  const { c1, c2, to } = segment;
+  if (!c1 || !c2) {
+    return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+  }
+  const u = 1 - t;
+  return {
+    x: u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * to.x,
+    y: u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * to.y,
+  };
+}
+
+/**
+ * Formats a path as SVG path data, rounded to 0.01 pixels
+ */
+function toPathData(start: PixelCoordinate, segments: RouteSegment[]): string {
+  const format = (point: PixelCoordinate) =>
+    `${Math.round(point.x * 100) / 100} ${Math.round(point.y * 100) / 100}`;
+  const commands = [`M ${format(start)}`];
+  for (const { c1, c2, to } of segments) {
+    commands.push(c1 && c2 ? `C ${format(c1)} ${format(c2)} ${format(to)}` : `L ${format(to)}`);
+  }
+  return commands.join(' ');
+}
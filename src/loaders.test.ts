@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { ConfigLoadError, importConfigFromPhotos } from './loaders';
+import { composePicMap } from './pipeline';
+
+interface PhotoTags {
+  latitude: number;
+  longitude: number;
+  capturedAt: string;
+  /** Time zone of the capture time, e.g. '+02:00' */
+  offset?: string;
+  description?: string;
+}
+
+/**
+ * Builds a 64x48 JPEG file, geotagged when tags are given
+ */
+function createPhoto(tags?: PhotoTags): Buffer {
+  const segment = (marker: number, data: Buffer) => {
+    const header = Buffer.from([0xff, marker, 0, 0]);
+    header.writeUInt16BE(data.length + 2, 2);
+    return Buffer.concat([header, data]);
+  };
+  const sof = Buffer.from([8, 0, 48, 0, 64, 3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1]);
+  if (!tags) {
+    return Buffer.concat([Buffer.from([0xff, 0xd8]), segment(0xc0, sof)]);
+  }
+
+  // Little-endian TIFF: IFD0 at 8, Exif IFD at 50, GPS IFD at 80, values from 134
+  const tiff = Buffer.alloc(288);
+  tiff.write('II*\0\x08\0\0\0', 0, 'latin1');
+  const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+    tiff.writeUInt16LE(tag, at);
+    tiff.writeUInt16LE(type, at + 2);
+    tiff.writeUInt32LE(count, at + 4);
+    tiff.writeUInt32LE(value, at + 8);
+  };
+  const degrees = (at: number, value: number) => {
+    tiff.writeUInt32LE(Math.round(Math.abs(value) * 1e6), at);
+    tiff.writeUInt32LE(1e6, at + 4);
+    tiff.writeUInt32LE(1, at + 12);
+    tiff.writeUInt32LE(1, at + 20);
+  };
+  const offset = `${tags.offset ?? ''}\0`.padEnd(8, '\0');
+  // Padded so that the value is stored at its offset rather than in the entry
+  const description = `${tags.description ?? ''}\0`.padEnd(8, '\0');
+
+  tiff.writeUInt16LE(3, 8);
+  entry(10, 0x010e, 2, description.length, 210);
+  entry(22, 0x8769, 4, 1, 50);
+  entry(34, 0x8825, 4, 1, 80);
+  tiff.writeUInt16LE(tags.offset ? 2 : 1, 50);
+  entry(52, 0x9003, 2, 20, 134);
+  if (tags.offset) entry(64, 0x9011, 2, offset.length, 154);
+  tiff.writeUInt16LE(4, 80);
+  entry(82, 0x0001, 2, 2, tags.latitude < 0 ? 0x53 : 0x4e);
+  entry(94, 0x0002, 5, 3, 162);
+  entry(106, 0x0003, 2, 2, tags.longitude < 0 ? 0x57 : 0x45);
+  entry(118, 0x0004, 5, 3, 186);
+  tiff.write(`${tags.capturedAt}\0`, 134, 'latin1');
+  tiff.write(offset, 154, 'latin1');
+  degrees(162, tags.latitude);
+  degrees(186, tags.longitude);
+  tiff.write(description, 210, 'latin1');
+
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    segment(0xe1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff])),
+    segment(0xc0, sof),
+  ]);
+}
+
+describe('importConfigFromPhotos', () => {
+  let tempDir: string;
+  let photoDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-import-'));
+    photoDir = join(tempDir, 'London Trip');
+    mkdirSync(photoDir);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should build a configuration from geotagged photos in capture order', async () => {
+    writeFileSync(
+      join(photoDir, 'bridge.jpg'),
+      createPhoto({
+        latitude: 51.5055,
+        longitude: -0.0754,
+        capturedAt: '2024:05:01 15:00:00',
+        description: 'Tower Bridge',
+      })
+    );
+    writeFileSync(
+      join(photoDir, 'TOWER.JPG'),
+      createPhoto({ latitude: 51.5081, longitude: -0.0759, capturedAt: '2024:05:01 10:30:00' })
+    );
+    writeFileSync(
+      join(photoDir, 'eye.jpeg'),
+      createPhoto({ latitude: 51.5033, longitude: -0.1195, capturedAt: '2024:05:01 18:45:00' })
+    );
+
+    const { config, warnings } = await importConfigFromPhotos(photoDir);
+
+    expect(warnings).toEqual([]);
+    expect(config.title).toBe('London Trip');
+    expect(config.images).toEqual([
+      {
+        filePath: 'TOWER.JPG',
+        dimensions: { width: 64, height: 48 },
+        capturedAt: '2024-05-01T10:30:00',
+      },
+      {
+        filePath: 'bridge.jpg',
+        caption: 'Tower Bridge',
+        dimensions: { width: 64, height: 48 },
+        capturedAt: '2024-05-01T15:00:00',
+      },
+      {
+        filePath: 'eye.jpeg',
+        dimensions: { width: 64, height: 48 },
+        capturedAt: '2024-05-01T18:45:00',
+      },
+    ]);
+    expect(config.links).toEqual([
+      { imageId: 'TOWER.JPG', location: { latitude: 51.5081, longitude: -0.0759 }, label: '1' },
+      { imageId: 'bridge.jpg', location: { latitude: 51.5055, longitude: -0.0754 }, label: '2' },
+      { imageId: 'eye.jpeg', location: { latitude: 51.5033, longitude: -0.1195 }, label: '3' },
+    ]);
+    expect(config.map.center).toEqual({ latitude: 51.505635, longitude: -0.090267 });
+
+    // Every marker fits in the map area
+    expect(composePicMap(config, { baseDir: photoDir }).warnings).toEqual([]);
+  });
+
+  it('should order photos by the instant they were taken in', async () => {
+    // 08:30 UTC, taken before the photo of 09:45 UTC
+    writeFileSync(
+      join(photoDir, 'paris.jpg'),
+      createPhoto({
+        latitude: 48.8584,
+        longitude: 2.2945,
+        capturedAt: '2024:05:01 10:30:00',
+        offset: '+02:00',
+      })
+    );
+    writeFileSync(
+      join(photoDir, 'london.jpg'),
+      createPhoto({
+        latitude: 51.5081,
+        longitude: -0.0759,
+        capturedAt: '2024:05:01 09:45:00',
+        offset: '+00:00',
+      })
+    );
+    writeFileSync(join(photoDir, 'indoors.jpg'), createPhoto());
+
+    const { config } = await importConfigFromPhotos(photoDir);
+
+    expect(config.images.map((image) => [image.filePath, image.capturedAt])).toEqual([
+      ['paris.jpg', '2024-05-01T10:30:00+02:00'],
+      ['london.jpg', '2024-05-01T09:45:00+00:00'],
+      ['indoors.jpg', undefined],
+    ]);
+  });
+
+  it('should keep photos without a GPS position and skip unreadable files', async () => {
+    writeFileSync(
+      join(photoDir, 'tower.jpg'),
+      createPhoto({ latitude: 51.5081, longitude: -0.0759, capturedAt: '2024:05:01 10:30:00' })
+    );
+    writeFileSync(join(photoDir, 'indoors.jpg'), createPhoto());
+    writeFileSync(join(photoDir, 'scan.tif'), 'not a TIFF file');
+    writeFileSync(join(photoDir, 'notes.txt'), 'not a photo');
+
+    const { config, warnings } = await importConfigFromPhotos(photoDir);
+
+    expect(config.images.map((image) => image.filePath)).toEqual(['tower.jpg', 'indoors.jpg']);
+    expect(config.links.map((link) => link.imageId)).toEqual(['tower.jpg']);
+    expect(config.map.zoom).toBe(15);
+    expect(warnings).toEqual([
+      'Skipped scan.tif: Unsupported image format: expected JPEG, TIFF or HEIF',
+      'indoors.jpg has no GPS position and is not linked to the map',
+    ]);
+  });
+
+  it('should apply the title, layout and base directory options', async () => {
+    writeFileSync(
+      join(photoDir, 'tower.jpg'),
+      createPhoto({ latitude: 51.5081, longitude: -0.0759, capturedAt: '2024:05:01 10:30:00' })
+    );
+    const layout = {
+      pageSize: 'A3' as const,
+      orientation: 'portrait' as const,
+      borderWidth: 50,
+      pictureSpacing: 5,
+      margin: { top: 10, right: 10, bottom: 10, left: 10 },
+    };
+
+    const { config } = await importConfigFromPhotos(photoDir, {
+      title: 'Weekend',
+      layout,
+      baseDir: tempDir,
+    });
+
+    expect(config.title).toBe('Weekend');
+    expect(config.layout).toEqual(layout);
+    expect(config.images[0].filePath).toBe(join(basename(photoDir), 'tower.jpg'));
+  });
+
+  it('should fail for folders without photos', async () => {
+    writeFileSync(join(photoDir, 'notes.txt'), 'not a photo');
+
+    await expect(importConfigFromPhotos(photoDir)).rejects.toThrow(ConfigLoadError);
+    await expect(importConfigFromPhotos(join(tempDir, 'missing'))).rejects.toThrow(
+      'Failed to read photo folder'
+    );
+  });
+});
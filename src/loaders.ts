@@ -2,9 +2,13 @@
  * Data loading and parsing utilities for Pic-Map
  */
 
-import { readFile } from 'fs/promises';
-import { PicMapConfig } from './types';
+import { readdir, readFile } from 'fs/promises';
+import { basename, extname, join, relative, resolve } from 'path';
+import { ImageLocationLink, ImageMetadata, LayoutOptions, PicMapConfig } from './types';
 import { validatePicMapConfig } from './validators';
+import { ExifData, readExif } from './exif';
+import { calculateLayoutAreas, DEFAULT_DPI } from './compositor/page-sizes';
+import { calculateCenter, calculateZoomToFit } from './map-engine/coordinates';
 
 /**
  * Error thrown when config loading fails
@@ -78,6 +82,173 @@ export async function loadConfigFromFile(filePath: string): Promise<PicMapConfig
   return parseConfigFromJSON(content);
 }
 
+/**
+ * Options for importing a configuration from a folder of photos
+ */
+export interface PhotoImportOptions {
+  /** Project title (default: the folder name) */
+  title?: string;
+  /** Page layout (default: A4 landscape with a 60mm picture border) */
+  layout?: LayoutOptions;
+  /** Directory the image paths are written relative to (default: the photo folder) */
+  baseDir?: string;
+}
+
+/**
+ * Result of importing a configuration from a folder of photos
+ */
+export interface PhotoImportResult {
+  /** The generated configuration */
+  config: PicMapConfig;
+  /** Photos that were skipped or could not be placed on the map */
+  warnings: string[];
+}
+
+/**
+ * File extensions of the photos read by `importConfigFromPhotos`
+ */
+const PHOTO_EXTENSIONS = ['.jpg', '.jpeg', '.heic', '.heif', '.tif', '.tiff'];
+
+/**
+ * Photo formats that are read for their metadata but cannot be embedded
+ */
+const NON_EMBEDDABLE_EXTENSIONS = ['.heic', '.heif', '.tif', '.tiff'];
+
+/**
+ * Layout used for imported configurations
+ */
+const DEFAULT_IMPORT_LAYOUT: LayoutOptions = {
+  pageSize: 'A4',
+  orientation: 'landscape',
+  borderWidth: 60,
+  pictureSpacing: 10,
+  margin: { top: 20, right: 20, bottom: 20, left: 20 },
+};
+
+/**
+ * Rounds a coordinate to 6 decimal places (about 10cm)
+ */
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Builds a PicMapConfig from a folder of geotagged photos
+ *
+ * Every JPEG, HEIC/HEIF and TIFF file in the folder (not its subfolders) is
+ * added as an image, in capture-time order, with its EXIF dimensions, capture
+ * time and description (as the caption). Photos with a GPS position are linked
+ * to it and numbered from 1; the map is centered on them and zoomed to fit
+ * them in the map area of the layout.
+ * @param directory - Folder containing the photos
+ * @param options - Title, layout and path options
+ * @returns The validated configuration and any warnings
+ * @throws ConfigLoadError if the folder cannot be read or contains no photos
+ * @throws ConfigValidationError if the generated configuration is invalid
+ */
+export async function importConfigFromPhotos(
+  directory: string,
+  options: PhotoImportOptions = {}
+): Promise<PhotoImportResult> {
+  const photoDir = resolve(directory);
+  let fileNames: string[];
+
+  try {
+    const entries = await readdir(photoDir, { withFileTypes: true });
+    fileNames = entries
+      .filter(
+        (entry) => entry.isFile() && PHOTO_EXTENSIONS.includes(extname(entry.name).toLowerCase())
+      )
+      .map((entry) => entry.name);
+  } catch (error) {
+    throw new ConfigLoadError(
+      `Failed to read photo folder: ${directory}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const warnings: string[] = [];
+  const photos: Array<{ fileName: string; exif: ExifData }> = [];
+  for (const fileName of fileNames) {
+    try {
+      photos.push({ fileName, exif: readExif(await readFile(join(photoDir, fileName))) });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      warnings.push(`Skipped ${fileName}: ${reason}`);
+    }
+  }
+
+  if (photos.length === 0) {
+    throw new ConfigLoadError(`No readable photos found in: ${directory}`);
+  }
+
+  // Capture order; photos without a readable capture time go last, by file name
+  const captureTime = (exif: ExifData) => {
+    const time = exif.capturedAt === undefined ? NaN : Date.parse(exif.capturedAt);
+    return Number.isNaN(time) ? Infinity : time;
+  };
+  photos.sort(
+    (a, b) => captureTime(a.exif) - captureTime(b.exif) || a.fileName.localeCompare(b.fileName)
+  );
+
+  const baseDir = resolve(options.baseDir ?? photoDir);
+  const images: ImageMetadata[] = [];
+  const links: ImageLocationLink[] = [];
+
+  for (const { fileName, exif } of photos) {
+    const image: ImageMetadata = { filePath: relative(baseDir, join(photoDir, fileName)) };
+    if (exif.description) image.caption = exif.description;
+    if (exif.dimensions) image.dimensions = exif.dimensions;
+    if (exif.capturedAt) image.capturedAt = exif.capturedAt;
+    images.push(image);
+
+    if (NON_EMBEDDABLE_EXTENSIONS.includes(extname(fileName).toLowerCase())) {
+      warnings.push(`${fileName} cannot be embedded; convert it to JPEG, PNG or WebP to render it`);
+    }
+
+    if (exif.latitude === undefined || exif.longitude === undefined) {
+      warnings.push(`${fileName} has no GPS position and is not linked to the map`);
+      continue;
+    }
+    links.push({
+      imageId: fileName,
+      location: {
+        latitude: roundCoordinate(exif.latitude),
+        longitude: roundCoordinate(exif.longitude),
+      },
+      label: String(links.length + 1),
+    });
+  }
+
+  // Fit the linked locations in the map area at print resolution, as rendered
+  const layout = options.layout ?? DEFAULT_IMPORT_LAYOUT;
+  const { mapArea } = calculateLayoutAreas({ ...layout, dpi: DEFAULT_DPI });
+  const locations = links.map((link) => link.location);
+  const center = calculateCenter(locations);
+
+  const config: PicMapConfig = {
+    title: options.title ?? basename(photoDir),
+    layout,
+    map: {
+      provider: 'openstreetmap',
+      zoom: calculateZoomToFit(locations, mapArea.width, mapArea.height),
+      center: {
+        latitude: roundCoordinate(center.latitude),
+        longitude: roundCoordinate(center.longitude),
+      },
+    },
+    images,
+    links,
+  };
+
+  const validationResult = validatePicMapConfig(config);
+  if (!validationResult.valid) {
+    throw new ConfigValidationError('Configuration validation failed', validationResult.errors);
+  }
+
+  return { config, warnings };
+}
+
 /**
  * Normalizes a configuration object by filling in default values
  * @param config - Configuration to normalize
@@ -128,6 +299,38 @@ export function normalizeConfig(config: PicMapConfig): PicMapConfig {
   };
 }
 
+/**
+ * Resolves an image reference from a link to an index in the images array
+ *
+ * A reference is either the image's index (e.g. "0") or its file path or file
+ * name, with or without the extension (e.g. "photos/big-ben.jpg", "big-ben.jpg"
+ * or "big-ben"). The first matching image wins.
+ * @param images - Images from the configuration
+ * @param imageId - Image reference from an ImageLocationLink
+ * @returns The image index, or undefined if no image matches
+ */
+export function resolveImageReference(
+  images: ImageMetadata[],
+  imageId: string
+): number | undefined {
+  if (/^\d+$/.test(imageId)) {
+    const index = parseInt(imageId, 10);
+    if (index < images.length) return index;
+  }
+
+  const matchers: Array<(filePath: string) => boolean> = [
+    (filePath) => filePath === imageId,
+    (filePath) => basename(filePath) === imageId,
+    (filePath) => basename(filePath, extname(filePath)) === imageId,
+  ];
+  for (const matches of matchers) {
+    const index = images.findIndex((image) => matches(image.filePath));
+    if (index !== -1) return index;
+  }
+
+  return undefined;
+}
+
 /**
  * Validates that all image IDs referenced in links exist in the images array
  * @param config - Configuration to validate
@@ -135,16 +338,10 @@ export function normalizeConfig(config: PicMapConfig): PicMapConfig {
  */
 export function validateImageReferences(config: PicMapConfig): string[] {
   const errors: string[] = [];
-  const imageIds = new Set<string>();
-
-  // Build a set of valid image IDs (using array indices as IDs)
-  config.images.forEach((_, idx) => {
-    imageIds.add(idx.toString());
-  });
 
-  // Check each link references a valid image
+  // Check each link references a valid image (by index, file path or file name)
   config.links.forEach((link, linkIdx) => {
-    if (!imageIds.has(link.imageId)) {
+    if (resolveImageReference(config.images, link.imageId) === undefined) {
       errors.push(`Link ${linkIdx} references non-existent image ID: ${link.imageId}`);
     }
   });
@@ -163,14 +360,17 @@ export function validateConfigReferences(config: PicMapConfig): string[] {
   // Validate image references
   errors.push(...validateImageReferences(config));
 
-  // Check for duplicate image IDs in links
-  const imageIdCounts = new Map<string, number>();
+  // Check for images referenced by multiple links
+  const imageIdCounts = new Map<number, { imageId: string; count: number }>();
   config.links.forEach((link) => {
-    const count = imageIdCounts.get(link.imageId) ?? 0;
-    imageIdCounts.set(link.imageId, count + 1);
+    const index = resolveImageReference(config.images, link.imageId);
+    if (index === undefined) return;
+    const entry = imageIdCounts.get(index) ?? { imageId: link.imageId, count: 0 };
+    entry.count++;
+    imageIdCounts.set(index, entry);
   });
 
-  imageIdCounts.forEach((count, imageId) => {
+  imageIdCounts.forEach(({ imageId, count }) => {
     if (count > 1) {
       errors.push(`Image ID ${imageId} is referenced in multiple links`);
     }
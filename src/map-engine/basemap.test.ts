@@ -0,0 +1,550 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BasemapError,
+  classifyFeature,
+  GeoJsonBasemapSource,
+  geometryToPathData,
+  isRasterBasemapSource,
+  openBasemapSource,
+  RasterTileBasemapSource,
+  tileRange,
+} from './basemap';
+import { DirectoryTileProvider } from './tile-provider';
+import { isMBTilesSupported } from './mbtiles';
+import { boundsIntersect, GeoJsonError, parseGeoJson } from './geojson';
+import { MapEngine } from './engine';
+import { calculateBounds } from './coordinates';
+import { validateMapStyle } from '../validators';
+import type { MapStyle } from '../types';
+
+const center = { latitude: 51.5074, longitude: -0.1278 };
+
+/**
+ * A small GeoJSON extract around central London
+ */
+const londonGeoJson = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { natural: 'water', name: 'Thames' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-0.14, 51.505],
+            [-0.11, 51.505],
+            [-0.11, 51.5065],
+            [-0.14, 51.5065],
+            [-0.14, 51.505],
+          ],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { highway: 'primary', name: 'Strand' },
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [-0.135, 51.509],
+          [-0.12, 51.511],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { highway: 'residential' },
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [-0.13, 51.508],
+          [-0.125, 51.51],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { leisure: 'park', name: 'Far away park' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [2.3, 48.85],
+            [2.31, 48.85],
+            [2.31, 48.86],
+            [2.3, 48.85],
+          ],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { amenity: 'bench' },
+      geometry: { type: 'Point', coordinates: [-0.128, 51.507] },
+    },
+  ],
+};
+
+const basemapStyle: MapStyle = {
+  provider: 'openstreetmap',
+  zoom: 15,
+  center,
+  showAttribution: true,
+};
+
+describe('parseGeoJson', () => {
+  it('should parse feature collections, features and bare geometries', () => {
+    expect(parseGeoJson(JSON.stringify(londonGeoJson))).toHaveLength(5);
+    expect(parseGeoJson(JSON.stringify(londonGeoJson.features[1]))).toHaveLength(1);
+    expect(
+      parseGeoJson(JSON.stringify({ type: 'Point', coordinates: [0, 0] }))[0].geometry?.type
+    ).toBe('Point');
+  });
+
+  it('should throw GeoJsonError for invalid input', () => {
+    expect(() => parseGeoJson('{not json')).toThrow(GeoJsonError);
+    expect(() => parseGeoJson('{"type":"Topology"}')).toThrow(/Unsupported GeoJSON type/);
+    expect(() => parseGeoJson('{"type":"Feature","geometry":{"type":"Point"}}')).toThrow(
+      GeoJsonError
+    );
+  });
+});
+
+describe('classifyFeature', () => {
+  it('should classify OpenStreetMap tags', () => {
+    expect(classifyFeature({ natural: 'water' })).toBe('water');
+    expect(classifyFeature({ waterway: 'river' })).toBe('waterway');
+    expect(classifyFeature({ building: 'yes' })).toBe('building');
+    expect(classifyFeature({ highway: 'motorway_link' })).toBe('major-road');
+    expect(classifyFeature({ highway: 'service' })).toBe('minor-road');
+    expect(classifyFeature({ leisure: 'park' })).toBe('park');
+    expect(classifyFeature({ highway: 'footway' })).toBeNull();
+    expect(classifyFeature(null)).toBeNull();
+  });
+
+  it('should classify vector tile layers', () => {
+    expect(classifyFeature({}, 'water')).toBe('water');
+    expect(classifyFeature({ class: 'wood' }, 'landcover')).toBe('park');
+    expect(classifyFeature({ class: 'farmland' }, 'landcover')).toBeNull();
+    expect(classifyFeature({ class: 'trunk' }, 'transportation')).toBe('major-road');
+    expect(classifyFeature({ kind: 'minor_road' }, 'roads')).toBe('minor-road');
+    expect(classifyFeature({}, 'poi')).toBeNull();
+  });
+
+  it('should honour an explicit kind property', () => {
+    expect(classifyFeature({ kind: 'building' })).toBe('building');
+  });
+});
+
+describe('tileRange', () => {
+  it('should return the tiles covering the bounds', () => {
+    expect(tileRange({ north: 80, south: -80, east: 179, west: -179 }, 1)).toEqual({
+      minX: 0,
+      maxX: 1,
+      minY: 0,
+      maxY: 1,
+    });
+    expect(tileRange({ north: 10, south: 5, east: 10, west: 5 }, 1)).toEqual({
+      minX: 1,
+      maxX: 1,
+      minY: 0,
+      maxY: 0,
+    });
+  });
+
+  it('should continue past the last column for bounds crossing the antimeridian', () => {
+    expect(tileRange({ north: 10, south: -10, east: -170, west: 170 }, 1)).toEqual({
+      minX: 1,
+      maxX: 2,
+      minY: 0,
+      maxY: 1,
+    });
+  });
+});
+
+describe('boundsIntersect', () => {
+  it('should match boxes on either side of bounds crossing the antimeridian', () => {
+    const pacific = { north: 10, south: -10, east: -170, west: 170 };
+
+    expect(boundsIntersect({ north: 1, south: 0, east: 176, west: 175 }, pacific)).toBe(true);
+    expect(boundsIntersect(pacific, { north: 1, south: 0, east: -174, west: -175 })).toBe(true);
+    expect(boundsIntersect({ north: 1, south: 0, east: 1, west: 0 }, pacific)).toBe(false);
+  });
+});
+
+describe('geometryToPathData', () => {
+  const viewport = { center: { latitude: 0, longitude: 0 }, zoom: 2, width: 200, height: 100 };
+
+  it('should clip lines to the viewport with a small margin', () => {
+    const path = geometryToPathData(
+      {
+        type: 'LineString',
+        coordinates: [
+          [-170, 0],
+          [170, 0],
+        ],
+      },
+      viewport,
+      'lines'
+    );
+
+    expect(path).toBe('M-16,50 L216,50');
+  });
+
+  it('should clip polygons to the viewport', () => {
+    const path = geometryToPathData(
+      {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-170, -60],
+            [170, -60],
+            [170, 60],
+            [-170, 60],
+            [-170, -60],
+          ],
+        ],
+      },
+      viewport,
+      'areas'
+    );
+
+    expect(path).not.toBeNull();
+    const numbers = (path ?? '').match(/-?\d+(\.\d+)?/g)?.map(Number) ?? [];
+    expect(Math.min(...numbers)).toBeGreaterThanOrEqual(-16);
+    expect(Math.max(...numbers)).toBeLessThanOrEqual(216);
+    expect(path).toMatch(/ Z$/);
+  });
+
+  it('should draw features across the antimeridian from the center', () => {
+    const path = geometryToPathData(
+      {
+        type: 'LineString',
+        coordinates: [
+          [170, 0],
+          [180, 0],
+        ],
+      },
+      { ...viewport, center: { latitude: 0, longitude: -175 } },
+      'lines'
+    );
+
+    // 1024 / 360 pixels per degree at zoom 2: from 15 to 5 degrees west of the center
+    expect(path).toBe('M57.3,50 L85.8,50');
+  });
+
+  it('should leave out what lies behind an orthographic globe', () => {
+    const globe = { ...viewport, projection: 'orthographic' as const };
+    const line = {
+      type: 'LineString' as const,
+      coordinates: [
+        [-20, 0],
+        [0, 0],
+        [20, 0],
+        [150, 0],
+        [170, 0],
+      ],
+    };
+    const ring = {
+      type: 'Polygon' as const,
+      coordinates: [
+        [
+          [-10, -10],
+          [120, -10],
+          [120, 10],
+          [-10, 10],
+          [-10, -10],
+        ],
+      ],
+    };
+
+    // The line ends at the horizon instead of folding back over the globe
+    expect(geometryToPathData(line, globe, 'lines')?.match(/[ML]/g)).toHaveLength(3);
+    expect(geometryToPathData(ring, globe, 'areas')).toBeNull();
+  });
+
+  it('should return null for geometries outside the viewport or of the wrong type', () => {
+    const line = {
+      type: 'LineString' as const,
+      coordinates: [
+        [100, 70],
+        [120, 75],
+      ],
+    };
+
+    expect(geometryToPathData(line, viewport, 'lines')).toBeNull();
+    expect(
+      geometryToPathData({ type: 'Point', coordinates: [0, 0] }, viewport, 'lines')
+    ).toBeNull();
+    expect(
+      geometryToPathData(
+        {
+          type: 'LineString',
+          coordinates: [
+            [-10, 0],
+            [10, 0],
+          ],
+        },
+        viewport,
+        'areas'
+      )
+    ).toBeNull();
+  });
+});
+
+describe('GeoJsonBasemapSource', () => {
+  it('should return only classified features that intersect the bounds', () => {
+    const source = new GeoJsonBasemapSource(parseGeoJson(JSON.stringify(londonGeoJson)));
+    const bounds = calculateBounds(center, 15, 800, 600);
+    const kinds = source.getFeatures(bounds).map((feature) => feature.kind);
+
+    expect(kinds).toEqual(['water', 'major-road', 'minor-road']);
+  });
+});
+
+describe('MapEngine with a basemap', () => {
+  let tempDir: string;
+  let geoJsonPath: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-basemap-'));
+    geoJsonPath = join(tempDir, 'london.geojson');
+    writeFileSync(geoJsonPath, JSON.stringify(londonGeoJson));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should draw basemap features instead of generated ones', () => {
+    const engine = new MapEngine();
+    const result = engine.renderMap({
+      style: basemapStyle,
+      width: 800,
+      height: 600,
+      basemap: GeoJsonBasemapSource.fromFile(geoJsonPath),
+    });
+
+    expect(result.svg).toContain('<g id="basemap" aria-hidden="true">');
+    expect(result.svg).toContain('id="water"');
+    expect(result.svg).toContain('id="major-roads"');
+    expect(result.svg).toContain('id="minor-roads"');
+    expect(result.svg).not.toContain('id="parks"');
+    // No procedural features
+    expect(result.svg).not.toContain('<ellipse');
+  });
+
+  it('should draw basemap features beneath the markers', () => {
+    const engine = new MapEngine();
+    const result = engine.renderMap({
+      style: basemapStyle,
+      width: 800,
+      height: 600,
+      markers: [{ location: center, label: 'A' }],
+      basemap: GeoJsonBasemapSource.fromFile(geoJsonPath),
+    });
+
+    expect(result.svg.indexOf('id="basemap"')).toBeLessThan(result.svg.indexOf('id="markers"'));
+  });
+
+  it('should open the basemap configured in the map style', () => {
+    const engine = new MapEngine();
+    const result = engine.renderMap({
+      style: {
+        ...basemapStyle,
+        basemap: { type: 'geojson', path: 'london.geojson', attribution: 'Local extract' },
+      },
+      width: 800,
+      height: 600,
+      baseDir: tempDir,
+    });
+
+    expect(result.svg).toContain('id="major-roads"');
+    expect(result.svg).toContain('Local extract');
+  });
+
+  it('should ignore the basemap when map features are disabled', () => {
+    const engine = new MapEngine();
+    const result = engine.renderMap({
+      style: { ...basemapStyle, basemap: { type: 'geojson', path: 'missing.geojson' } },
+      width: 800,
+      height: 600,
+      showMapFeatures: false,
+    });
+
+    expect(result.svg).not.toContain('id="basemap"');
+    expect(result.svg).toContain('id="grid"');
+  });
+
+  it('should throw BasemapError for missing basemap files', () => {
+    expect(() => openBasemapSource({ type: 'geojson', path: 'missing.geojson' }, tempDir)).toThrow(
+      BasemapError
+    );
+  });
+});
+
+describe('validateMapStyle basemap', () => {
+  it('should accept a valid basemap configuration', () => {
+    const result = validateMapStyle({
+      ...basemapStyle,
+      basemap: { type: 'mbtiles', path: 'tiles/city.mbtiles' },
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report invalid basemap fields', () => {
+    const result = validateMapStyle({
+      ...basemapStyle,
+      basemap: { type: 'shapefile', path: '', attribution: 42 },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain(
+      'basemap.type must be one of: geojson, vector-tiles, raster-tiles, mbtiles'
+    );
+    expect(result.errors).toContain('basemap.path must be a non-empty string');
+    expect(result.errors).toContain('basemap.attribution must be a string');
+  });
+});
+
+describe('RasterTileBasemapSource', () => {
+  const pngBase64 =
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+  const worldStyle = {
+    provider: 'custom',
+    zoom: 1,
+    center: { latitude: 0, longitude: 0 },
+  } satisfies MapStyle;
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-raster-'));
+    for (const [x, y] of [
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ]) {
+      mkdirSync(join(tempDir, '1', String(x)), { recursive: true });
+      writeFileSync(join(tempDir, '1', String(x), `${y}.png`), Buffer.from(pngBase64, 'base64'));
+    }
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should be opened for raster tile directories', () => {
+    const source = openBasemapSource({ type: 'raster-tiles', path: tempDir });
+
+    expect(isRasterBasemapSource(source)).toBe(true);
+  });
+
+  it('should return the available tiles covering the bounds', () => {
+    const source = new RasterTileBasemapSource(new DirectoryTileProvider(tempDir, ['png']));
+    const tiles = source.getTiles(calculateBounds(worldStyle.center, 1, 512, 512), 1);
+
+    expect(tiles).toHaveLength(4);
+    expect(tiles.every((tile) => tile.mimeType === 'image/png' && tile.z === 1)).toBe(true);
+  });
+
+  it('should stitch the tiles beneath the markers', () => {
+    const engine = new MapEngine();
+    const result = engine.renderMap({
+      style: { ...worldStyle, basemap: { type: 'raster-tiles', path: tempDir } },
+      width: 512,
+      height: 512,
+      markers: [{ location: { latitude: 10, longitude: 10 } }],
+    });
+
+    const images = result.svg.match(/<image [^>]*>/g) ?? [];
+    expect(images).toHaveLength(4);
+    expect(images[0]).toContain('x="0" y="0" width="256" height="256"');
+    expect(result.svg).toContain('x="256" y="256" width="256" height="256"');
+    expect(images[0]).toContain(`xlink:href="data:image/png;base64,${pngBase64}"`);
+    expect(result.svg.indexOf('id="basemap-tiles"')).toBeLessThan(
+      result.svg.indexOf('id="markers"')
+    );
+  });
+
+  it('should cover maps crossing the antimeridian on both sides', () => {
+    const engine = new MapEngine();
+    const result = engine.renderMap({
+      style: {
+        ...worldStyle,
+        center: { latitude: 0, longitude: 180 },
+        basemap: { type: 'raster-tiles', path: tempDir },
+      },
+      width: 256,
+      height: 256,
+    });
+
+    const images = result.svg.match(/<image [^>]*>/g) ?? [];
+    expect(images).toHaveLength(4);
+    expect(images.filter((image) => image.includes('x="-128"'))).toHaveLength(2);
+    expect(images.filter((image) => image.includes('x="128"'))).toHaveLength(2);
+  });
+
+  it('should scale tiles to fractional or overzoomed map zooms', () => {
+    const engine = new MapEngine();
+    const result = engine.renderMap({
+      style: { ...worldStyle, zoom: 2, basemap: { type: 'raster-tiles', path: tempDir } },
+      width: 1024,
+      height: 1024,
+    });
+
+    expect(result.svg).toContain('x="0" y="0" width="512" height="512"');
+  });
+
+  it('should wrap tile columns across the antimeridian', () => {
+    const source = new RasterTileBasemapSource(new DirectoryTileProvider(tempDir, ['png']));
+    const tiles = source.getTiles({ north: 10, south: -10, east: 190, west: 170 }, 1);
+
+    expect(tiles.map((tile) => tile.x).sort()).toEqual([1, 1, 2, 2]);
+  });
+
+  it('should skip missing tiles', () => {
+    const source = new RasterTileBasemapSource(new DirectoryTileProvider(tempDir, ['jpg']));
+
+    expect(source.getTiles({ north: 10, south: -10, east: 10, west: -10 }, 1)).toEqual([]);
+  });
+
+  describe.skipIf(!isMBTilesSupported())('from MBTiles', () => {
+    let filePath: string;
+
+    beforeAll(async () => {
+      const { DatabaseSync } = await import('node:sqlite');
+      filePath = join(tempDir, 'raster.mbtiles');
+      const db = new DatabaseSync(filePath);
+      db.exec('CREATE TABLE metadata (name TEXT, value TEXT)');
+      db.exec(
+        'CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB)'
+      );
+      db.prepare('INSERT INTO metadata VALUES (?, ?)').run('format', 'png');
+      db.prepare('INSERT INTO tiles VALUES (?, ?, ?, ?)').run(
+        0,
+        0,
+        0,
+        Buffer.from(pngBase64, 'base64')
+      );
+      db.close();
+    });
+
+    it('should detect raster archives from their metadata', () => {
+      const engine = new MapEngine();
+      const result = engine.renderMap({
+        style: { ...worldStyle, zoom: 0, basemap: { type: 'mbtiles', path: filePath } },
+        width: 256,
+        height: 256,
+      });
+
+      expect(result.svg).toContain('<g id="basemap-tiles" aria-hidden="true">');
+      expect(result.svg).toContain('x="0" y="0" width="256" height="256"');
+    });
+  });
+});
@@ -0,0 +1,800 @@
+/**
+ * Offline basemap data sources
+ *
+ * Supplies real geographic features (water, parks, buildings, roads) to the
+ * map engine from local GeoJSON files or vector tiles, or raster tile images
+ * from a local tile directory or MBTiles archive, without network access.
+ */
+
+import { readFileSync } from 'fs';
+import { isAbsolute, resolve } from 'path';
+import { BasemapConfig, BoundingBox, GeoLocation, MapProjection, PixelCoordinate } from '../types';
+import { crossesAntimeridian, geoToPixel, TILE_SIZE } from './coordinates';
+import { createProjection } from './projections';
+import {
+  boundsIntersect,
+  geometryBounds,
+  GeoJsonFeature,
+  GeoJsonGeometry,
+  parseGeoJson,
+  Position,
+} from './geojson';
+import { DirectoryTileProvider, MBTilesTileProvider, TileProvider } from './tile-provider';
+import { detectImageType, SupportedImageType } from '../compositor/image-loader';
+import { decodeVectorTile } from './vector-tile';
+import { simplifyLine } from './simplify';
+
+/**
+ * Categories of basemap features, drawn bottom to top in this order
+ */
+export type BasemapFeatureKind =
+  | 'water'
+  | 'waterway'
+  | 'park'
+  | 'building'
+  | 'minor-road'
+  | 'major-road';
+
+export const BASEMAP_FEATURE_KINDS: readonly BasemapFeatureKind[] = [
+  'water',
+  'waterway',
+  'park',
+  'building',
+  'minor-road',
+  'major-road',
+];
+
+/**
+ * A classified basemap feature in longitude/latitude
+ */
+export interface BasemapFeature {
+  /** Feature category */
+  kind: BasemapFeatureKind;
+  /** Feature geometry */
+  geometry: GeoJsonGeometry;
+}
+
+/**
+ * Source of basemap features for a map viewport
+ */
+export interface BasemapSource {
+  /** Attribution text for the data, if known */
+  readonly attribution?: string;
+  /**
+   * Returns the features that may intersect the given bounds
+   * @param bounds - Geographic bounds of the map
+   * @param zoom - Map zoom level
+   */
+  getFeatures(bounds: BoundingBox, zoom: number): BasemapFeature[];
+  /** Releases any resources held by the source */
+  close?(): void;
+}
+
+/**
+ * A raster tile image positioned in the XYZ tile grid
+ */
+export interface RasterTile {
+  /** Tile zoom level */
+  z: number;
+  /** Tile column (may lie outside 0..2^z-1 when the map crosses the antimeridian) */
+  x: number;
+  /** Tile row */
+  y: number;
+  /** Encoded image bytes */
+  data: Buffer;
+  /** Image format */
+  mimeType: SupportedImageType;
+}
+
+/**
+ * Source of raster tile images for a map viewport
+ */
+export interface RasterBasemapSource {
+  /** Attribution text for the tiles, if known */
+  readonly attribution?: string;
+  /**
+   * Returns the tiles covering the given bounds
+   * @param bounds - Geographic bounds of the map
+   * @param zoom - Map zoom level
+   */
+  getTiles(bounds: BoundingBox, zoom: number): RasterTile[];
+  /** Releases any resources held by the source */
+  close?(): void;
+}
+
+/**
+ * Error thrown when a basemap source cannot be opened or read
+ */
+export class BasemapError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'BasemapError';
+  }
+}
+
+/**
+ * Maximum number of vector tiles read for a single map
+ */
+const MAX_TILES = 1024;
+
+/**
+ * Latitude of the top and bottom edges of the tile grid, in degrees
+ */
+const MAX_TILE_LATITUDE = 85.0511287798;
+
+/**
+ * Extra margin (in pixels) kept around the viewport when clipping, so that
+ * stroked lines do not end visibly at the map edge
+ */
+const CLIP_MARGIN = 16;
+
+/**
+ * MBTiles `format` values for raster tiles
+ */
+const RASTER_TILE_FORMATS = new Set(['png', 'jpg', 'jpeg', 'webp']);
+
+const MAJOR_ROAD_CLASSES = new Set(['motorway', 'trunk', 'primary', 'secondary', 'highway']);
+const MINOR_ROAD_CLASSES = new Set([
+  'tertiary',
+  'minor',
+  'residential',
+  'unclassified',
+  'service',
+  'living_street',
+  'street',
+  'pedestrian',
+  'road',
+]);
+const PARK_CLASSES = new Set([
+  'park',
+  'garden',
+  'grass',
+  'wood',
+  'forest',
+  'meadow',
+  'recreation_ground',
+  'nature_reserve',
+  'cemetery',
+  'playground',
+  'pitch',
+  'golf_course',
+  'village_green',
+]);
+const WATERWAY_CLASSES = new Set(['river', 'stream', 'canal', 'ditch', 'drain', 'brook']);
+
+/**
+ * Reads a property as a lowercase string
+ */
+function stringProperty(properties: Record<string, unknown>, key: string): string | undefined {
+  const value = properties[key];
+  return typeof value === 'string' ? value.toLowerCase() : undefined;
+}
+
+/**
+ * Classifies a road class, stripping '_link' and '_construction' suffixes
+ */
+function classifyRoad(roadClass: string | undefined): BasemapFeatureKind | null {
+  if (!roadClass) return null;
+  const base = roadClass.replace(/_(link|construction)$/, '');
+  if (MAJOR_ROAD_CLASSES.has(base) || base === 'major_road') return 'major-road';
+  if (MINOR_ROAD_CLASSES.has(base) || base === 'minor_road') return 'minor-road';
+  return null;
+}
+
+/**
+ * Classifies a feature into a basemap category
+ *
+ * Understands OpenStreetMap tags (as found in GeoJSON exports), OpenMapTiles
+ * and Protomaps vector tile layers, and an explicit `kind` property using the
+ * basemap categories themselves.
+ *
+ * @param properties - Feature properties
+ * @param layerName - Vector tile layer name, if the feature came from a tile
+ * @returns Feature category, or null if the feature is not drawn
+ */
+export function classifyFeature(
+  properties: Record<string, unknown> | null,
+  layerName?: string
+): BasemapFeatureKind | null {
+  const props = properties ?? {};
+  const kind = stringProperty(props, 'kind');
+  const featureClass = stringProperty(props, 'class');
+
+  if (kind && (BASEMAP_FEATURE_KINDS as readonly string[]).includes(kind)) {
+    return kind as BasemapFeatureKind;
+  }
+
+  switch (layerName) {
+    case 'water':
+    case 'ocean':
+      return 'water';
+    case 'waterway':
+      return 'waterway';
+    case 'park':
+      return 'park';
+    case 'building':
+    case 'buildings':
+      return 'building';
+    case 'landcover':
+    case 'landuse':
+      return PARK_CLASSES.has(featureClass ?? kind ?? '') ? 'park' : null;
+    case 'transportation':
+      return classifyRoad(featureClass);
+    case 'roads':
+      return classifyRoad(kind === 'highway' ? 'motorway' : kind);
+    case undefined:
+      break;
+    default:
+      return null;
+  }
+
+  // OpenStreetMap tags
+  const waterway = stringProperty(props, 'waterway');
+  if (stringProperty(props, 'natural') === 'water' || waterway === 'riverbank') {
+    return 'water';
+  }
+  if (waterway && WATERWAY_CLASSES.has(waterway)) {
+    return 'waterway';
+  }
+  if (props.building !== undefined && props.building !== 'no') {
+    return 'building';
+  }
+  const highway = classifyRoad(stringProperty(props, 'highway'));
+  if (highway) {
+    return highway;
+  }
+  for (const key of ['leisure', 'landuse', 'natural']) {
+    const value = stringProperty(props, key);
+    if (value && PARK_CLASSES.has(value)) {
+      return 'park';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Basemap source backed by in-memory GeoJSON features
+ */
+export class GeoJsonBasemapSource implements BasemapSource {
+  private readonly entries: Array<BasemapFeature & { bounds: BoundingBox }> = [];
+
+  /**
+   * @param features - GeoJSON features to draw
+   * @param attribution - Attribution text for the data
+   */
+  constructor(
+    features: GeoJsonFeature[],
+    readonly attribution?: string
+  ) {
+    for (const feature of features) {
+      if (!feature.geometry) continue;
+      const kind = classifyFeature(feature.properties);
+      const bounds = geometryBounds(feature.geometry);
+      if (kind && bounds) {
+        this.entries.push({ kind, geometry: feature.geometry, bounds });
+      }
+    }
+  }
+
+  /**
+   * Loads a GeoJSON basemap from a file
+   * @param filePath - Path to a .geojson file
+   * @param attribution - Attribution text for the data
+   * @throws BasemapError if the file cannot be read or parsed
+   */
+  static fromFile(filePath: string, attribution?: string): GeoJsonBasemapSource {
+    try {
+      return new GeoJsonBasemapSource(parseGeoJson(readFileSync(filePath, 'utf-8')), attribution);
+    } catch (error) {
+      throw new BasemapError(
+        `Failed to load GeoJSON basemap: ${filePath}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  getFeatures(bounds: BoundingBox): BasemapFeature[] {
+    return this.entries
+      .filter((entry) => boundsIntersect(entry.bounds, bounds))
+      .map(({ kind, geometry }) => ({ kind, geometry }));
+  }
+}
+
+/**
+ * Basemap source backed by Mapbox Vector Tiles
+ */
+export class VectorTileBasemapSource implements BasemapSource {
+  readonly attribution?: string;
+
+  /**
+   * @param tiles - Provider of raw (uncompressed or gzipped) vector tiles
+   * @param attribution - Attribution text (defaults to the provider's attribution)
+   */
+  constructor(
+    private readonly tiles: TileProvider,
+    attribution?: string
+  ) {
+    this.attribution = attribution ?? tiles.attribution;
+  }
+
+  getFeatures(bounds: BoundingBox, zoom: number): BasemapFeature[] {
+    const tileZoom = Math.max(this.tiles.minZoom, Math.min(this.tiles.maxZoom, Math.floor(zoom)));
+    const features: BasemapFeature[] = [];
+
+    for (const tile of readCoveringTiles(this.tiles, bounds, tileZoom)) {
+      for (const layer of decodeVectorTile(tile.data, tileZoom, tile.wrappedX, tile.y)) {
+        for (const feature of layer.features) {
+          const kind = feature.geometry && classifyFeature(feature.properties, layer.name);
+          if (kind && feature.geometry) {
+            features.push({ kind, geometry: feature.geometry });
+          }
+        }
+      }
+    }
+
+    return features;
+  }
+
+  close(): void {
+    this.tiles.close?.();
+  }
+}
+
+/**
+ * Basemap source backed by raster (PNG, JPEG or WebP) tiles
+ */
+export class RasterTileBasemapSource implements RasterBasemapSource {
+  readonly attribution?: string;
+
+  /**
+   * @param tiles - Provider of raster tile images
+   * @param attribution - Attribution text (defaults to the provider's attribution)
+   */
+  constructor(
+    private readonly tiles: TileProvider,
+    attribution?: string
+  ) {
+    this.attribution = attribution ?? tiles.attribution;
+  }
+
+  getTiles(bounds: BoundingBox, zoom: number): RasterTile[] {
+    // Round up so that tiles are downscaled (sharp) rather than upscaled (blurry)
+    const tileZoom = Math.max(
+      this.tiles.minZoom,
+      Math.min(this.tiles.maxZoom, Math.ceil(zoom - 1e-9))
+    );
+    const rasterTiles: RasterTile[] = [];
+
+    for (const tile of readCoveringTiles(this.tiles, bounds, tileZoom)) {
+      const mimeType = detectImageType(tile.data);
+      if (mimeType) {
+        rasterTiles.push({ z: tileZoom, x: tile.x, y: tile.y, data: tile.data, mimeType });
+      }
+    }
+
+    return rasterTiles;
+  }
+
+  close(): void {
+    this.tiles.close?.();
+  }
+}
+
+/**
+ * Checks whether a basemap source supplies raster tiles rather than features
+ */
+export function isRasterBasemapSource(
+  source: BasemapSource | RasterBasemapSource
+): source is RasterBasemapSource {
+  return typeof (source as RasterBasemapSource).getTiles === 'function';
+}
+
+/**
+ * Reads every available tile covering a bounding box
+ * @returns Tiles with their unwrapped column (for positioning) and wrapped column (for lookup)
+ * @throws BasemapError if the bounds need more than MAX_TILES tiles
+ */
+function readCoveringTiles(
+  tiles: TileProvider,
+  bounds: BoundingBox,
+  tileZoom: number
+): Array<{ x: number; wrappedX: number; y: number; data: Buffer }> {
+  const range = tileRange(bounds, tileZoom);
+  const tileCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+
+  if (tileCount > MAX_TILES) {
+    throw new BasemapError(
+      `Basemap needs ${tileCount} tiles at zoom ${tileZoom} (limit ${MAX_TILES}); use a higher map zoom`
+    );
+  }
+
+  const result: Array<{ x: number; wrappedX: number; y: number; data: Buffer }> = [];
+  const tilesPerAxis = Math.pow(2, tileZoom);
+
+  for (let x = range.minX; x <= range.maxX; x++) {
+    for (let y = range.minY; y <= range.maxY; y++) {
+      if (y < 0 || y >= tilesPerAxis) continue;
+      const wrappedX = ((x % tilesPerAxis) + tilesPerAxis) % tilesPerAxis;
+      const data = tiles.getTile(tileZoom, wrappedX, y);
+      if (data) {
+        result.push({ x, wrappedX, y, data });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Calculates the range of tiles covering a bounding box
+ * @param bounds - Geographic bounds, which may cross the antimeridian
+ * @param zoom - Tile zoom level (integer)
+ * @returns Inclusive tile column and row range; columns are unwrapped, so they may exceed the tile count
+ */
+export function tileRange(
+  bounds: BoundingBox,
+  zoom: number
+): { minX: number; maxX: number; minY: number; maxY: number } {
+  const east = crossesAntimeridian(bounds) ? bounds.east + 360 : bounds.east;
+  // Tiles end short of the poles, which bounds in other projections may reach
+  const clamp = (latitude: number) =>
+    Math.max(-MAX_TILE_LATITUDE, Math.min(MAX_TILE_LATITUDE, latitude));
+  const northWest = geoToPixel({ latitude: clamp(bounds.north), longitude: bounds.west }, zoom);
+  const southEast = geoToPixel({ latitude: clamp(bounds.south), longitude: east }, zoom);
+
+  const minX = Math.floor(northWest.x / TILE_SIZE);
+  const minY = Math.floor(northWest.y / TILE_SIZE);
+
+  // South-east edges lying exactly on a tile boundary do not need the next tile
+  return {
+    minX,
+    maxX: Math.max(minX, Math.ceil(southEast.x / TILE_SIZE) - 1),
+    minY,
+    maxY: Math.max(minY, Math.ceil(southEast.y / TILE_SIZE) - 1),
+  };
+}
+
+/**
+ * Resolves a basemap path against a base directory
+ */
+function resolveBasemapPath(filePath: string, baseDir?: string): string {
+  return isAbsolute(filePath) ? filePath : resolve(baseDir ?? process.cwd(), filePath);
+}
+
+/**
+ * Opens the basemap source described by a map style configuration
+ * @param config - Basemap configuration
+ * @param baseDir - Directory used to resolve relative paths (default: current directory)
+ * @returns Vector or raster basemap source (call `close()` when finished)
+ * @throws BasemapError if the source cannot be opened
+ */
+export function openBasemapSource(
+  config: BasemapConfig,
+  baseDir?: string
+): BasemapSource | RasterBasemapSource {
+  const filePath = resolveBasemapPath(config.path, baseDir);
+
+  switch (config.type) {
+    case 'geojson':
+      return GeoJsonBasemapSource.fromFile(filePath, config.attribution);
+    case 'vector-tiles':
+      return new VectorTileBasemapSource(
+        new DirectoryTileProvider(filePath, ['pbf', 'mvt']),
+        config.attribution
+      );
+    case 'raster-tiles':
+      return new RasterTileBasemapSource(
+        new DirectoryTileProvider(filePath, ['png', 'jpg', 'jpeg', 'webp']),
+        config.attribution
+      );
+    case 'mbtiles': {
+      let provider: MBTilesTileProvider;
+      try {
+        provider = new MBTilesTileProvider(filePath);
+      } catch (error) {
+        throw new BasemapError(
+          `Failed to open MBTiles basemap: ${filePath}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      // The tile format is recorded in the archive metadata (vector tiles when absent)
+      const format = provider.format ?? 'pbf';
+      if (format === 'pbf') {
+        return new VectorTileBasemapSource(provider, config.attribution);
+      }
+      if (RASTER_TILE_FORMATS.has(format)) {
+        return new RasterTileBasemapSource(provider, config.attribution);
+      }
+      provider.close();
+      throw new BasemapError(`Unsupported MBTiles tile format '${format}': ${filePath}`);
+    }
+    default:
+      throw new BasemapError(`Unsupported basemap type: ${String(config.type)}`);
+  }
+}
+
+/**
+ * Viewport used to project basemap features
+ */
+export interface BasemapViewport {
+  /** Map center */
+  center: GeoLocation;
+  /** Map zoom level */
+  zoom: number;
+  /** Viewport width in pixels */
+  width: number;
+  /** Viewport height in pixels */
+  height: number;
+  /** Map projection (default: 'mercator') */
+  projection?: MapProjection;
+}
+
+type Rect = { minX: number; minY: number; maxX: number; maxY: number };
+
+/**
+ * Clips a closed ring to a rectangle (Sutherland–Hodgman)
+ */
+function clipRing(ring: PixelCoordinate[], rect: Rect): PixelCoordinate[] {
+  const edges: Array<{
+    inside: (p: PixelCoordinate) => boolean;
+    intersect: (a: PixelCoordinate, b: PixelCoordinate) => PixelCoordinate;
+  }> = [
+    {
+      inside: (p) => p.x >= rect.minX,
+      intersect: (a, b) => ({
+        x: rect.minX,
+        y: a.y + ((b.y - a.y) * (rect.minX - a.x)) / (b.x - a.x),
+      }),
+    },
+    {
+      inside: (p) => p.x <= rect.maxX,
+      intersect: (a, b) => ({
+        x: rect.maxX,
+        y: a.y + ((b.y - a.y) * (rect.maxX - a.x)) / (b.x - a.x),
+      }),
+    },
+    {
+      inside: (p) => p.y >= rect.minY,
+      intersect: (a, b) => ({
+        x: a.x + ((b.x - a.x) * (rect.minY - a.y)) / (b.y - a.y),
+        y: rect.minY,
+      }),
+    },
+    {
+      inside: (p) => p.y <= rect.maxY,
+      intersect: (a, b) => ({
+        x: a.x + ((b.x - a.x) * (rect.maxY - a.y)) / (b.y - a.y),
+        y: rect.maxY,
+      }),
+    },
+  ];
+
+  let output = ring;
+  for (const edge of edges) {
+    const input = output;
+    output = [];
+    if (input.length === 0) break;
+
+    let previous = input[input.length - 1];
+    for (const current of input) {
+      if (edge.inside(current)) {
+        if (!edge.inside(previous)) output.push(edge.intersect(previous, current));
+        output.push(current);
+      } else if (edge.inside(previous)) {
+        output.push(edge.intersect(previous, current));
+      }
+      previous = current;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Clips a polyline to a rectangle, splitting it where it leaves the rectangle
+ */
+function clipLine(line: PixelCoordinate[], rect: Rect): PixelCoordinate[][] {
+  const pieces: PixelCoordinate[][] = [];
+  let current: PixelCoordinate[] = [];
+
+  for (let i = 0; i + 1 < line.length; i++) {
+    const segment = clipSegment(line[i], line[i + 1], rect);
+    if (!segment) {
+      if (current.length > 1) pieces.push(current);
+      current = [];
+      continue;
+    }
+
+    const [start, end] = segment;
+    const last = current[current.length - 1];
+    if (!last || last.x !== start.x || last.y !== start.y) {
+      if (current.length > 1) pieces.push(current);
+      current = [start];
+    }
+    current.push(end);
+
+    // The segment was cut short, so the line leaves the rectangle here
+    if (end !== line[i + 1]) {
+      pieces.push(current);
+      current = [];
+    }
+  }
+
+  if (current.length > 1) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Clips a segment to a rectangle (Liang–Barsky)
+ * @returns The clipped segment (reusing the original points when unclipped), or null
+ */
+function clipSegment(
+  a: PixelCoordinate,
+  b: PixelCoordinate,
+  rect: Rect
+): [PixelCoordinate, PixelCoordinate] | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let t0 = 0;
+  let t1 = 1;
+
+  const checks: Array<[number, number]> = [
+    [-dx, a.x - rect.minX],
+    [dx, rect.maxX - a.x],
+    [-dy, a.y - rect.minY],
+    [dy, rect.maxY - a.y],
+  ];
+
+  for (const [p, q] of checks) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return null;
+      t0 = Math.max(t0, t);
+    } else {
+      if (t < t0) return null;
+      t1 = Math.min(t1, t);
+    }
+  }
+
+  const start = t0 === 0 ? a : { x: a.x + t0 * dx, y: a.y + t0 * dy };
+  const end = t1 === 1 ? b : { x: a.x + t1 * dx, y: a.y + t1 * dy };
+  return [start, end];
+}
+
+/**
+ * Formats a point list as SVG path commands
+ */
+function toPathData(points: PixelCoordinate[], close: boolean): string {
+  const commands = points.map(
+    (p, i) => `${i === 0 ? 'M' : 'L'}${Math.round(p.x * 10) / 10},${Math.round(p.y * 10) / 10}`
+  );
+  return commands.join(' ') + (close ? ' Z' : '');
+}
+
+/**
+ * Projects a feature into the viewport and converts it to SVG path data
+ *
+ * Polygons and lines are clipped to the viewport (plus a small margin) and
+ * repeated on each copy of the world that reaches into it, so features on the
+ * far side of the antimeridian are drawn too; points are ignored. In the
+ * orthographic projection, lines are cut and polygon rings left out where they
+ * reach the far side of the globe.
+ *
+ * @param geometry - Feature geometry in longitude/latitude
+ * @param viewport - Map viewport
+ * @param include - Which geometries to draw: polygon rings ('areas') or lines ('lines')
+ * @param tolerance - Tolerance of the Douglas–Peucker simplification of the
+ * projected lines and rings, in pixels (default: 0, no simplification)
+ * @returns SVG path data, or null if nothing of the feature is visible
+ */
+export function geometryToPathData(
+  geometry: GeoJsonGeometry,
+  viewport: BasemapViewport,
+  include: 'areas' | 'lines',
+  tolerance = 0
+): string | null {
+  const rect: Rect = {
+    minX: -CLIP_MARGIN,
+    minY: -CLIP_MARGIN,
+    maxX: viewport.width + CLIP_MARGIN,
+    maxY: viewport.height + CLIP_MARGIN,
+  };
+  const projection = createProjection(viewport.projection, viewport.center);
+  const worldSize = TILE_SIZE * Math.pow(2, viewport.zoom);
+  const scale = worldSize / (2 * Math.PI);
+  const origin = projection.project(viewport.center);
+  const project = (positions: Position[]): PixelCoordinate[] =>
+    positions.map(([longitude, latitude]) => {
+      const point = projection.project({ latitude, longitude });
+      return {
+        x: (point.x - origin.x) * scale + viewport.width / 2,
+        y: (origin.y - point.y) * scale + viewport.height / 2,
+      };
+    });
+  const isVisible = ([longitude, latitude]: Position) =>
+    projection.isVisible({ latitude, longitude });
+  // Copies of projected positions one or more worlds east or west that reach
+  // into the viewport, so geometries near the antimeridian show on either side
+  const worldCopies = (pixels: PixelCoordinate[]): PixelCoordinate[][] => {
+    if (pixels.length === 0) return [];
+    if (!projection.wraps) return [pixels];
+    const xs = pixels.map((pixel) => pixel.x);
+    const first = Math.ceil((rect.minX - Math.max(...xs)) / worldSize);
+    const last = Math.floor((rect.maxX - Math.min(...xs)) / worldSize);
+    const copies: PixelCoordinate[][] = [];
+    for (let copy = first; copy <= last; copy++) {
+      copies.push(pixels.map((pixel) => ({ x: pixel.x + copy * worldSize, y: pixel.y })));
+    }
+    return copies;
+  };
+  // Lines are cut where they pass out of sight (behind an orthographic globe)
+  const visibleRuns = (line: Position[]): Position[][] => {
+    const runs: Position[][] = [[]];
+    for (const position of line) {
+      if (isVisible(position)) {
+        runs[runs.length - 1].push(position);
+      } else if (runs[runs.length - 1].length > 0) {
+        runs.push([]);
+      }
+    }
+    return runs.filter((run) => run.length >= 2);
+  };
+
+  const paths: string[] = [];
+  const addLines = (lines: Position[][]) => {
+    if (include !== 'lines') return;
+    for (const line of lines.flatMap(visibleRuns)) {
+      for (const copy of worldCopies(simplifyLine(project(line), tolerance))) {
+        for (const piece of clipLine(copy, rect)) {
+          paths.push(toPathData(piece, false));
+        }
+      }
+    }
+  };
+  const addPolygons = (polygons: Position[][][]) => {
+    if (include !== 'areas') return;
+    // Rings reaching out of sight are left out rather than drawn distorted
+    for (const ring of polygons.flat().filter((ring) => ring.every(isVisible))) {
+      for (const copy of worldCopies(simplifyLine(project(ring), tolerance))) {
+        const clipped = clipRing(copy, rect);
+        if (clipped.length >= 3) {
+          paths.push(toPathData(clipped, true));
+        }
+      }
+    }
+  };
+
+  switch (geometry.type) {
+    case 'LineString':
+      addLines([geometry.coordinates]);
+      break;
+    case 'MultiLineString':
+      addLines(geometry.coordinates);
+      break;
+    case 'Polygon':
+      addPolygons([geometry.coordinates]);
+      break;
+    case 'MultiPolygon':
+      addPolygons(geometry.coordinates);
+      break;
+    case 'GeometryCollection':
+      for (const child of geometry.geometries) {
+        const childPath = geometryToPathData(child, viewport, include, tolerance);
+        if (childPath) paths.push(childPath);
+      }
+      break;
+    default:
+      break;
+  }
+
+  return paths.length > 0 ? paths.join(' ') : null;
+}
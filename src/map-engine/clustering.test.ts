@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { clusterPoints, placeMarkers, spiderfy } from './clustering';
+import { validateMapStyle } from '../validators';
+import type { GeoLocation, MapStyle } from '../types';
+
+describe('clusterPoints', () => {
+  it('should group points within the radius of the first point of a cluster', () => {
+    const clusters = clusterPoints(
+      [{ x: 100, y: 100 }, { x: 300, y: 300 }, { x: 110, y: 100 }, null, { x: 100, y: 125 }],
+      20
+    );
+
+    expect(clusters).toEqual([
+      { position: { x: 105, y: 100 }, members: [0, 2] },
+      { position: { x: 300, y: 300 }, members: [1] },
+      { position: { x: 100, y: 125 }, members: [4] },
+    ]);
+  });
+});
+
+describe('spiderfy', () => {
+  it('should spread small clusters on a circle starting above the center', () => {
+    const positions = spiderfy({ x: 100, y: 100 }, 4);
+
+    expect(positions[0].x).toBeCloseTo(100, 9);
+    expect(positions[0].y).toBeCloseTo(72, 9);
+    expect(positions[1].x).toBeCloseTo(128, 9);
+    expect(positions[1].y).toBeCloseTo(100, 9);
+  });
+
+  it('should keep the markers of large clusters apart', () => {
+    const positions = spiderfy({ x: 0, y: 0 }, 40);
+
+    expect(positions).toHaveLength(40);
+    for (let i = 0; i < positions.length; i++) {
+      for (let j = i + 1; j < positions.length; j++) {
+        const distance = Math.hypot(
+          positions[i].x - positions[j].x,
+          positions[i].y - positions[j].y
+        );
+        expect(distance).toBeGreaterThan(20);
+      }
+    }
+  });
+});
+
+describe('placeMarkers', () => {
+  // Shops a few meters apart in central London, and one in Paris
+  const locations: GeoLocation[] = [
+    { latitude: 51.5074, longitude: -0.1278 },
+    { latitude: 51.5075, longitude: -0.1277 },
+    { latitude: 51.5073, longitude: -0.1279 },
+    { latitude: 48.8566, longitude: 2.3522 },
+  ];
+  const style = {
+    provider: 'openstreetmap',
+    zoom: 6,
+    center: { latitude: 50, longitude: 1 },
+  } satisfies MapStyle;
+
+  it('should draw every marker at its own location without clustering', () => {
+    const placement = placeMarkers(locations, style, 800, 600);
+
+    expect(placement.clusters.map((cluster) => cluster.members)).toEqual([[0], [1], [2], [3]]);
+    expect(placement.positions[0]).not.toEqual(placement.positions[1]);
+  });
+
+  it('should place clustered markers on the badge', () => {
+    const placement = placeMarkers(
+      locations,
+      { ...style, clustering: { mode: 'badge' } },
+      800,
+      600
+    );
+
+    expect(placement.clusters.map((cluster) => cluster.members)).toEqual([[0, 1, 2], [3]]);
+    const badge = placement.clusters[0].position;
+    expect(placement.positions.slice(0, 3)).toEqual([badge, badge, badge]);
+  });
+
+  it('should give each member of a spiderfied cluster its own position', () => {
+    const placement = placeMarkers(
+      locations,
+      { ...style, clustering: { mode: 'spiderfy' } },
+      800,
+      600
+    );
+    const center = placement.clusters[0].position;
+
+    expect(placement.positions.slice(0, 3)).toEqual(spiderfy(center, 3));
+    // The marker in Paris is not clustered
+    expect(placement.positions[3]).toEqual(placement.clusters[1].position);
+  });
+
+  it('should only cluster markers within the radius at the rendered zoom', () => {
+    // Zoomed in far enough, the London shops are more than 5 pixels apart
+    const placement = placeMarkers(
+      locations,
+      { ...style, zoom: 18, center: locations[0], clustering: { mode: 'badge', radius: 5 } },
+      800,
+      600
+    );
+
+    expect(placement.clusters.map((cluster) => cluster.members)).toEqual([[0], [1], [2], [3]]);
+  });
+
+  it('should leave out markers on the far side of the globe', () => {
+    const placement = placeMarkers(
+      [...locations, { latitude: -45, longitude: 170 }],
+      { ...style, projection: 'orthographic', clustering: { mode: 'badge' } },
+      800,
+      600
+    );
+
+    expect(placement.positions[4]).toBeNull();
+    expect(placement.clusters.flatMap((cluster) => cluster.members)).not.toContain(4);
+  });
+});
+
+describe('validateMapStyle clustering', () => {
+  const style = {
+    provider: 'openstreetmap',
+    zoom: 4,
+    center: { latitude: 45, longitude: 10 },
+  } as const;
+
+  it('should accept clustering modes', () => {
+    expect(validateMapStyle({ ...style, clustering: { mode: 'spiderfy', radius: 40 } }).valid).toBe(
+      true
+    );
+  });
+
+  it('should reject unknown modes and bad radii', () => {
+    expect(
+      validateMapStyle({ ...style, clustering: { mode: 'heatmap', radius: 0 } }).errors
+    ).toEqual([
+      'clustering.mode must be one of: badge, spiderfy',
+      'clustering.radius must be a positive number',
+    ]);
+    expect(validateMapStyle({ ...style, clustering: 'badge' }).errors).toEqual([
+      'clustering.MarkerClusterConfig must be an object',
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Marker clustering
+ *
+ * Groups markers that lie within a few pixels of each other at the rendered
+ * zoom level, and works out where each marker (and the link line pointing at
+ * it) ends up: on the cluster badge, or at its own place in a spiderfied fan.
+ */
+
+import { GeoLocation, MapStyle, MapView, PixelCoordinate } from '../types';
+import { geoToViewportPixel, isLocationVisible } from './coordinates';
+
+/**
+ * A group of markers drawn together
+ */
+export interface MarkerCluster {
+  /** Position of the cluster, the mean of its member positions, in viewport pixels */
+  position: PixelCoordinate;
+  /** Indices of the member markers, in input order */
+  members: number[];
+}
+
+/**
+ * Where the markers of a map are drawn
+ */
+export interface MarkerPlacement {
+  /**
+   * Position each marker is drawn at and its link points to, in viewport
+   * pixels, or null if the marker is hidden on the far side of the globe
+   */
+  positions: Array<PixelCoordinate | null>;
+  /** Visible markers in clusters, in order of their first member; unclustered markers form clusters of one */
+  clusters: MarkerCluster[];
+}
+
+/**
+ * Default clustering radius in pixels
+ */
+export const DEFAULT_CLUSTER_RADIUS = 30;
+
+/**
+ * Distance between neighbouring markers of a spiderfied fan, in pixels
+ */
+const FAN_SPACING = 28;
+
+/**
+ * Largest cluster fanned out on a circle; larger ones are laid out on a spiral
+ */
+const FAN_CIRCLE_LIMIT = 8;
+
+/**
+ * Groups points that lie within `radius` pixels of each other
+ *
+ * Points are taken in order: each point that is not yet in a cluster starts
+ * one, which every later unclustered point within the radius joins.
+ * @param points - Points to group, or null for points that are left out
+ * @param radius - Clustering radius in pixels
+ * @returns Clusters, in order of their first member
+ */
+export function clusterPoints(
+  points: Array<PixelCoordinate | null>,
+  radius: number
+): MarkerCluster[] {
+  const clustered = new Set<number>();
+  const clusters: MarkerCluster[] = [];
+
+  points.forEach((seed, index) => {
+    if (!seed || clustered.has(index)) return;
+
+    const members: number[] = [];
+    for (let other = index; other < points.length; other++) {
+      const point = points[other];
+      if (!point || clustered.has(other)) continue;
+      if (Math.hypot(point.x - seed.x, point.y - seed.y) <= radius) {
+        members.push(other);
+        clustered.add(other);
+      }
+    }
+
+    const position = {
+      x: members.reduce((sum, member) => sum + points[member]!.x, 0) / members.length,
+      y: members.reduce((sum, member) => sum + points[member]!.y, 0) / members.length,
+    };
+    clusters.push({ position, members });
+  });
+
+  return clusters;
+}
+
+/**
+ * Fans the members of a cluster out around its position
+ *
+ * Small clusters are spread on a circle starting above the center; larger
+ * ones on a spiral, so that neighbouring markers stay apart.
+ * @param center - Cluster position
+ * @param count - Number of members
+ * @returns Member positions, in member order
+ */
+export function spiderfy(center: PixelCoordinate, count: number): PixelCoordinate[] {
+  if (count <= 1) {
+    return count === 1 ? [{ ...center }] : [];
+  }
+
+  const positions: PixelCoordinate[] = [];
+  if (count <= FAN_CIRCLE_LIMIT) {
+    const radius = Math.max(FAN_SPACING, (FAN_SPACING * count) / (2 * Math.PI));
+    for (let i = 0; i < count; i++) {
+      const angle = -Math.PI / 2 + ((2 * Math.PI) / count) * i;
+      positions.push({
+        x: center.x + radius * Math.cos(angle),
+        y: center.y + radius * Math.sin(angle),
+      });
+    }
+    return positions;
+  }
+
+  // Archimedean spiral with an arc length of about FAN_SPACING between markers
+  let angle = 0;
+  let radius = FAN_SPACING;
+  for (let i = 0; i < count; i++) {
+    positions.push({
+      x: center.x + radius * Math.cos(angle - Math.PI / 2),
+      y: center.y + radius * Math.sin(angle - Math.PI / 2),
+    });
+    angle += FAN_SPACING / radius;
+    radius = FAN_SPACING * (1 + angle / (2 * Math.PI));
+  }
+  return positions;
+}
+
+/**
+ * Works out where the markers of a map are drawn
+ *
+ * Without `style.clustering`, every visible marker is drawn at its own
+ * location. With it, nearby markers are clustered, and each member is placed
+ * on the cluster badge or at its place in the fan.
+ * @param locations - Marker locations
+ * @param style - Map style with the view the map is drawn at
+ * @param width - Map width in pixels
+ * @param height - Map height in pixels
+ * @returns Marker positions and clusters
+ */
+export function placeMarkers(
+  locations: GeoLocation[],
+  style: Pick<MapStyle, 'projection' | 'clustering'> & MapView,
+  width: number,
+  height: number
+): MarkerPlacement {
+  const positions = locations.map((location) =>
+    // Markers on the far side of an orthographic globe are not drawn
+    isLocationVisible(location, style.center, style.projection)
+      ? geoToViewportPixel(location, style.center, style.zoom, width, height, style.projection)
+      : null
+  );
+
+  if (!style.clustering) {
+    const clusters: MarkerCluster[] = [];
+    positions.forEach((position, index) => {
+      if (position) clusters.push({ position, members: [index] });
+    });
+    return { positions, clusters };
+  }
+
+  const { mode, radius = DEFAULT_CLUSTER_RADIUS } = style.clustering;
+  const clusters = clusterPoints(positions, radius);
+  const placed = positions.slice();
+
+  for (const cluster of clusters) {
+    if (cluster.members.length === 1) continue;
+    const memberPositions =
+      mode === 'spiderfy'
+        ? spiderfy(cluster.position, cluster.members.length)
+        : cluster.members.map(() => ({ ...cluster.position }));
+    cluster.members.forEach((member, i) => {
+      placed[member] = memberPositions[i];
+    });
+  }
+
+  return { positions: placed, clusters };
+}
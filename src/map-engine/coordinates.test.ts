@@ -6,8 +6,13 @@ import {
   geoToViewportPixel,
   calculateZoomToFit,
   calculateCenter,
+  calculateFitView,
+  resolveMapView,
+  normalizeLongitude,
+  viewportPixelToGeo,
+  calculateMetersPerPixel,
 } from './coordinates';
-import type { GeoLocation } from '../types';
+import type { GeoLocation, MapStyle } from '../types';
 
 describe('geoToPixel', () => {
   it('should convert geographic coordinates to pixel coordinates at zoom level 0', () => {
@@ -59,6 +64,16 @@ describe('pixelToGeo', () => {
   });
 });
 
+describe('normalizeLongitude', () => {
+  it('should wrap longitudes into -180 to 180', () => {
+    expect(normalizeLongitude(190)).toBe(-170);
+    expect(normalizeLongitude(-190)).toBe(170);
+    expect(normalizeLongitude(540)).toBe(-180);
+    expect(normalizeLongitude(180)).toBe(180);
+    expect(normalizeLongitude(-180)).toBe(-180);
+  });
+});
+
 describe('calculateBounds', () => {
   it('should calculate bounding box for a map', () => {
     const center: GeoLocation = { latitude: 51.5074, longitude: -0.1278 };
@@ -90,6 +105,21 @@ describe('calculateBounds', () => {
     const largeRange = largeBounds.north - largeBounds.south;
     expect(largeRange).toBeGreaterThan(smallRange);
   });
+
+  it('should wrap the edges of maps crossing the antimeridian', () => {
+    // 512 pixels at zoom 2 cover 180 degrees of longitude
+    const bounds = calculateBounds({ latitude: 0, longitude: 180 }, 2, 512, 512);
+
+    expect(bounds.west).toBeCloseTo(90, 6);
+    expect(bounds.east).toBeCloseTo(-90, 6);
+  });
+
+  it('should span the whole world for maps wider than the world', () => {
+    const bounds = calculateBounds({ latitude: 0, longitude: 150 }, 1, 800, 400);
+
+    expect(bounds.west).toBe(-180);
+    expect(bounds.east).toBe(180);
+  });
 });
 
 describe('geoToViewportPixel', () => {
@@ -116,6 +146,14 @@ describe('geoToViewportPixel', () => {
     // Should have same x (same longitude)
     expect(northPixel.x).toBeCloseTo(centerPixel.x, 0);
   });
+
+  it('should place locations across the antimeridian next to the center', () => {
+    const center: GeoLocation = { latitude: 0, longitude: -179 };
+    const pixel = geoToViewportPixel({ latitude: 0, longitude: 179 }, center, 4, 800, 600);
+
+    // 2 degrees west of the center, at 4096 / 360 pixels per degree
+    expect(pixel.x).toBeCloseTo(400 - (2 * 4096) / 360, 6);
+  });
 });
 
 describe('calculateZoomToFit', () => {
@@ -237,4 +275,223 @@ describe('calculateCenter', () => {
     expect(center.longitude).toBeGreaterThan(-1);
     expect(center.longitude).toBeLessThan(14);
   });
+
+  it('should center locations across the antimeridian on it', () => {
+    const center = calculateCenter([
+      { latitude: -18.1416, longitude: 178.4419 }, // Suva
+      { latitude: -13.8333, longitude: -171.7667 }, // Apia
+    ]);
+
+    // The arithmetic mean would be in the Atlantic, at 3.34 degrees
+    expect(center.longitude).toBeCloseTo(-176.61, 2);
+    expect(center.latitude).toBeCloseTo(-16, 0);
+  });
+
+  it('should use the spherical mean of the locations', () => {
+    const center = calculateCenter([
+      { latitude: 60, longitude: -90 },
+      { latitude: 60, longitude: 90 },
+    ]);
+
+    // The shortest path between the two passes over the North Pole
+    expect(center.latitude).toBeCloseTo(90, 6);
+  });
+});
+
+describe('calculateZoomToFit across the antimeridian', () => {
+  it('should fit the shortest longitude range', () => {
+    const pacific: GeoLocation[] = [
+      { latitude: -10, longitude: 170 },
+      { latitude: 10, longitude: -170 },
+    ];
+    const atlantic: GeoLocation[] = [
+      { latitude: -10, longitude: -10 },
+      { latitude: 10, longitude: 10 },
+    ];
+
+    expect(calculateZoomToFit(pacific, 800, 600)).toBe(calculateZoomToFit(atlantic, 800, 600));
+  });
+});
+
+describe('calculateFitView', () => {
+  const locations: GeoLocation[] = [
+    { latitude: 51.5074, longitude: -0.1278 }, // London
+    { latitude: 48.8566, longitude: 2.3522 }, // Paris
+    { latitude: 52.52, longitude: 13.405 }, // Berlin
+  ];
+
+  it('should keep every location inside the padded viewport', () => {
+    const view = calculateFitView(locations, 1200, 800, 0.1);
+
+    for (const location of locations) {
+      const pixel = geoToViewportPixel(location, view.center, view.zoom, 1200, 800);
+      expect(pixel.x).toBeGreaterThanOrEqual(120 - 1e-6);
+      expect(pixel.x).toBeLessThanOrEqual(1080 + 1e-6);
+      expect(pixel.y).toBeGreaterThanOrEqual(80 - 1e-6);
+      expect(pixel.y).toBeLessThanOrEqual(720 + 1e-6);
+    }
+  });
+
+  it('should use a fractional zoom that fills the limiting dimension', () => {
+    const view = calculateFitView(locations, 1200, 800, 0.1);
+    const west = geoToViewportPixel(locations[0], view.center, view.zoom, 1200, 800);
+    const east = geoToViewportPixel(locations[2], view.center, view.zoom, 1200, 800);
+
+    expect(Number.isInteger(view.zoom)).toBe(false);
+    expect(view.zoom).toBe(Math.floor(view.zoom * 100) / 100);
+    // Width is the limiting dimension: the locations span almost all of it
+    expect(east.x - west.x).toBeGreaterThan(960 * 0.99);
+    // The projected bounding box is centered
+    expect(west.x + east.x).toBeCloseTo(1200, 6);
+  });
+
+  it('should cap the zoom level', () => {
+    const close: GeoLocation[] = [
+      { latitude: 51.5074, longitude: -0.1278 },
+      { latitude: 51.5075, longitude: -0.1277 },
+    ];
+
+    expect(calculateFitView(close, 1200, 800).zoom).toBe(18);
+    expect(calculateFitView(close, 1200, 800, 0.1, 16).zoom).toBe(16);
+  });
+
+  it('should frame locations across the antimeridian', () => {
+    const pacific: GeoLocation[] = [
+      { latitude: -18.1416, longitude: 178.4419 }, // Suva
+      { latitude: -13.8333, longitude: -171.7667 }, // Apia
+      { latitude: -21.1393, longitude: -175.2049 }, // Nuku'alofa
+    ];
+    const view = calculateFitView(pacific, 1200, 800, 0.1);
+
+    expect(view.center.longitude).toBeCloseTo(-176.66, 2);
+    expect(view.zoom).toBeGreaterThan(5);
+    for (const location of pacific) {
+      const pixel = geoToViewportPixel(location, view.center, view.zoom, 1200, 800);
+      expect(pixel.x).toBeGreaterThanOrEqual(120 - 1e-6);
+      expect(pixel.x).toBeLessThanOrEqual(1080 + 1e-6);
+    }
+  });
+});
+
+describe('resolveMapView', () => {
+  const autoStyle: MapStyle = { provider: 'openstreetmap', fit: 'auto' };
+
+  it('should use the center and zoom of manually framed styles', () => {
+    const center = { latitude: 51.5074, longitude: -0.1278 };
+
+    expect(resolveMapView({ provider: 'openstreetmap', zoom: 12, center }, [], 800, 600)).toEqual({
+      center,
+      zoom: 12,
+    });
+    expect(() => resolveMapView({ provider: 'openstreetmap' }, [], 800, 600)).toThrow(
+      'requires a center and zoom'
+    );
+  });
+
+  it('should fit automatically framed styles to the locations', () => {
+    const locations: GeoLocation[] = [
+      { latitude: 51.5074, longitude: -0.1278 },
+      { latitude: 48.8566, longitude: 2.3522 },
+    ];
+
+    expect(resolveMapView(autoStyle, locations, 800, 600)).toEqual(
+      calculateFitView(locations, 800, 600)
+    );
+    expect(resolveMapView({ ...autoStyle, fitPadding: 0 }, locations, 800, 600)).toEqual(
+      calculateFitView(locations, 800, 600, 0)
+    );
+  });
+
+  it('should frame a single location or none', () => {
+    const location = { latitude: 41.9028, longitude: 12.4964, name: 'Rome' };
+
+    expect(resolveMapView(autoStyle, [location], 800, 600)).toEqual({
+      center: { latitude: 41.9028, longitude: 12.4964 },
+      zoom: 15,
+    });
+    expect(resolveMapView({ ...autoStyle, zoom: 12 }, [location], 800, 600).zoom).toBe(12);
+    expect(resolveMapView(autoStyle, [], 800, 600)).toEqual({
+      center: { latitude: 0, longitude: 0 },
+      zoom: 2,
+    });
+  });
+});
+
+describe('projections', () => {
+  const center: GeoLocation = { latitude: 60, longitude: 20 };
+
+  it('should convert viewport pixels back to locations in every projection', () => {
+    const location: GeoLocation = { latitude: 64.5, longitude: 31.2 };
+    for (const projection of [
+      'mercator',
+      'equirectangular',
+      'lambert-conformal-conic',
+      'albers',
+      'orthographic',
+    ] as const) {
+      const pixel = geoToViewportPixel(location, center, 5, 800, 600, projection);
+      const result = viewportPixelToGeo(pixel, center, 5, 800, 600, projection);
+      expect(result?.latitude).toBeCloseTo(location.latitude, 9);
+      expect(result?.longitude).toBeCloseTo(location.longitude, 9);
+    }
+  });
+
+  it('should match the zoom levels of Web Mercator along the equator', () => {
+    const equator: GeoLocation = { latitude: 0, longitude: 0 };
+    const east: GeoLocation = { latitude: 0, longitude: 1 };
+
+    expect(geoToViewportPixel(east, equator, 8, 800, 600, 'equirectangular').x).toBeCloseTo(
+      geoToViewportPixel(east, equator, 8, 800, 600).x,
+      9
+    );
+  });
+
+  it('should bound orthographic maps showing a pole by every longitude', () => {
+    const bounds = calculateBounds({ latitude: 80, longitude: 0 }, 1, 512, 512, 'orthographic');
+
+    expect(bounds.north).toBe(90);
+    expect(bounds.west).toBe(-180);
+    expect(bounds.east).toBe(180);
+    expect(bounds.south).toBeLessThan(20);
+  });
+
+  it('should sample the bounds of conic maps', () => {
+    const bounds = calculateBounds(center, 6, 800, 600, 'lambert-conformal-conic');
+    const mercator = calculateBounds(center, 6, 800, 600);
+
+    expect(bounds.north).toBeGreaterThan(center.latitude);
+    expect(bounds.south).toBeLessThan(center.latitude);
+    expect(bounds.west).toBeLessThan(center.longitude);
+    expect(bounds.east).toBeGreaterThan(center.longitude);
+    // Mercator stretches high latitudes, so the same zoom covers less ground
+    expect(bounds.north - bounds.south).toBeGreaterThan(mercator.north - mercator.south);
+  });
+
+  it('should measure the ground resolution in the map projection', () => {
+    const mercator = calculateMetersPerPixel(center, 10);
+
+    expect(mercator).toBeCloseTo((156543.03392 * Math.cos(Math.PI / 3)) / 1024, 4);
+    // The equirectangular projection does not stretch parallels by latitude
+    expect(calculateMetersPerPixel(center, 10, 'equirectangular')).toBeCloseTo(mercator, 4);
+    expect(calculateMetersPerPixel(center, 10, 'orthographic')).toBeCloseTo(156543.03392 / 1024, 4);
+  });
+
+  it('should fit locations around their center in projections set up around it', () => {
+    const locations: GeoLocation[] = [
+      { latitude: 78.22, longitude: 15.65 }, // Longyearbyen
+      { latitude: 69.65, longitude: 18.96 }, // Tromsø
+      { latitude: 64.14, longitude: -21.94 }, // Reykjavík
+    ];
+    const style: MapStyle = { provider: 'custom', fit: 'auto', projection: 'orthographic' };
+    const view = resolveMapView(style, locations, 1200, 800);
+
+    expect(view.center).toEqual(calculateCenter(locations));
+    for (const location of locations) {
+      const pixel = geoToViewportPixel(location, view.center, view.zoom, 1200, 800, 'orthographic');
+      expect(pixel.x).toBeGreaterThanOrEqual(120 - 1e-6);
+      expect(pixel.x).toBeLessThanOrEqual(1080 + 1e-6);
+      expect(pixel.y).toBeGreaterThanOrEqual(80 - 1e-6);
+      expect(pixel.y).toBeLessThanOrEqual(720 + 1e-6);
+    }
+  });
 });
@@ -1,14 +1,76 @@
 /**
  * Coordinate conversion utilities for map rendering
  * Converts between geographic coordinates (lat/lon) and pixel coordinates
+ *
+ * `geoToPixel` and `pixelToGeo` work in Web Mercator world pixels; the viewport
+ * functions take an optional map projection (default: Mercator).
  */
 
-import { GeoLocation, PixelCoordinate, BoundingBox } from '../types';
+import {
+  GeoLocation,
+  PixelCoordinate,
+  BoundingBox,
+  MapProjection,
+  MapStyle,
+  MapView,
+} from '../types';
+import { createProjection, isCenterIndependent, projectionType } from './projections';
 
 /**
  * Web Mercator projection constants
  */
-const TILE_SIZE = 256;
+export const TILE_SIZE = 256;
+
+/**
+ * Wraps a longitude into the range -180 to 180
+ * @param longitude - Longitude in degrees
+ * @returns Equivalent longitude; values already within -180 to 180 (including both ends) are unchanged
+ */
+export function normalizeLongitude(longitude: number): number {
+  if (longitude >= -180 && longitude <= 180) {
+    return longitude;
+  }
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Checks whether a bounding box crosses the antimeridian (its west edge lies east of its east edge)
+ */
+export function crossesAntimeridian(bounds: BoundingBox): boolean {
+  return bounds.west > bounds.east;
+}
+
+/**
+ * Finds the smallest longitude range containing a set of longitudes
+ *
+ * The range may cross the antimeridian: it is cut at the largest gap between
+ * neighbouring longitudes, wherever that gap lies.
+ *
+ * @param longitudes - Longitudes in degrees (at least one)
+ * @returns West edge (-180 to 180) and east edge, unwrapped so that east >= west
+ */
+function longitudeRange(longitudes: number[]): { west: number; east: number } {
+  const sorted = longitudes.map(normalizeLongitude).sort((a, b) => a - b);
+
+  // The gap from the last longitude round to the first one
+  let gap = sorted[0] + 360 - sorted[sorted.length - 1];
+  let westIndex = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] - sorted[i - 1] > gap) {
+      gap = sorted[i] - sorted[i - 1];
+      westIndex = i;
+    }
+  }
+
+  const west = sorted[westIndex];
+  return { west, east: west + 360 - gap };
+}
+
+/**
+ * Mean radius used for ground distances: the WGS 84 equatorial radius that
+ * Web Mercator zoom levels are based on
+ */
+const EARTH_RADIUS_METERS = 6378137;
 
 /**
  * Converts latitude to Web Mercator Y coordinate
@@ -68,18 +130,31 @@ export function pixelToGeo(pixel: PixelCoordinate, zoom: number): GeoLocation {
 
 /**
  * Calculates the bounding box for a map centered at a given location
+ *
+ * Longitudes are wrapped into -180 to 180, so a map crossing the antimeridian
+ * has a west edge greater than its east edge. Maps at least as wide as the
+ * world, and maps showing a pole, span -180 to 180. For projections other
+ * than Mercator the box is found by sampling the viewport, and encloses the
+ * visible part of the world.
+ *
  * @param center - Center location of the map
  * @param zoom - Zoom level
  * @param widthPixels - Width of the map in pixels
  * @param heightPixels - Height of the map in pixels
+ * @param projection - Map projection (default: 'mercator')
  * @returns Bounding box of the map area
  */
 export function calculateBounds(
   center: GeoLocation,
   zoom: number,
   widthPixels: number,
-  heightPixels: number
+  heightPixels: number,
+  projection?: MapProjection
 ): BoundingBox {
+  if (projectionType(projection) !== 'mercator') {
+    return sampleBounds(center, zoom, widthPixels, heightPixels, projection);
+  }
+
   const centerPixel = geoToPixel(center, zoom);
 
   const northWestPixel: PixelCoordinate = {
@@ -94,22 +169,90 @@ export function calculateBounds(
 
   const northWest = pixelToGeo(northWestPixel, zoom);
   const southEast = pixelToGeo(southEastPixel, zoom);
+  const wholeWorld = widthPixels >= Math.pow(2, zoom) * TILE_SIZE;
 
   return {
     north: northWest.latitude,
     south: southEast.latitude,
-    east: southEast.longitude,
-    west: northWest.longitude,
+    east: wholeWorld ? 180 : normalizeLongitude(southEast.longitude),
+    west: wholeWorld ? -180 : normalizeLongitude(northWest.longitude),
+  };
+}
+
+/**
+ * Number of steps along each side of the viewport when sampling its bounds
+ */
+const BOUNDS_SAMPLE_STEPS = 16;
+
+/**
+ * Finds the bounds of a viewport by converting a grid of points back to locations
+ */
+function sampleBounds(
+  center: GeoLocation,
+  zoom: number,
+  widthPixels: number,
+  heightPixels: number,
+  projection?: MapProjection
+): BoundingBox {
+  const latitudes: number[] = [center.latitude];
+  const longitudes: number[] = [center.longitude];
+  for (let i = 0; i <= BOUNDS_SAMPLE_STEPS; i++) {
+    for (let j = 0; j <= BOUNDS_SAMPLE_STEPS; j++) {
+      const location = viewportPixelToGeo(
+        {
+          x: (widthPixels * i) / BOUNDS_SAMPLE_STEPS,
+          y: (heightPixels * j) / BOUNDS_SAMPLE_STEPS,
+        },
+        center,
+        zoom,
+        widthPixels,
+        heightPixels,
+        projection
+      );
+      if (location) {
+        latitudes.push(location.latitude);
+        longitudes.push(location.longitude);
+      }
+    }
+  }
+
+  let north = Math.max(...latitudes);
+  let south = Math.min(...latitudes);
+  // Every meridian meets at a visible pole
+  let wholeWorld = false;
+  for (const latitude of [90, -90]) {
+    const pole = { latitude, longitude: center.longitude };
+    if (!isLocationVisible(pole, center, projection)) continue;
+    const pixel = geoToViewportPixel(pole, center, zoom, widthPixels, heightPixels, projection);
+    if (pixel.x >= 0 && pixel.x <= widthPixels && pixel.y >= 0 && pixel.y <= heightPixels) {
+      north = latitude > 0 ? 90 : north;
+      south = latitude < 0 ? -90 : south;
+      wholeWorld = true;
+    }
+  }
+
+  const range = longitudeRange(longitudes);
+  return {
+    north,
+    south,
+    east: wholeWorld ? 180 : normalizeLongitude(range.east),
+    west: wholeWorld ? -180 : range.west,
   };
 }
 
 /**
  * Converts a geographic location to pixel coordinates relative to a map viewport
+ *
+ * In the cylindrical projections the location is placed on the copy of the
+ * world nearest the center, so locations just across the antimeridian from
+ * the center stay on the map.
+ *
  * @param location - Geographic location to convert
  * @param center - Center location of the map
  * @param zoom - Zoom level
  * @param widthPixels - Width of the map in pixels
  * @param heightPixels - Height of the map in pixels
+ * @param projection - Map projection (default: 'mercator')
  * @returns Pixel coordinates relative to the map viewport (0,0 is top-left)
  */
 export function geoToViewportPixel(
@@ -117,23 +260,112 @@ export function geoToViewportPixel(
   center: GeoLocation,
   zoom: number,
   widthPixels: number,
-  heightPixels: number
+  heightPixels: number,
+  projection?: MapProjection
 ): PixelCoordinate {
-  const locationPixel = geoToPixel(location, zoom);
-  const centerPixel = geoToPixel(center, zoom);
+  const mapProjection = createProjection(projection, center);
+  const worldSize = Math.pow(2, zoom) * TILE_SIZE;
+  const scale = worldSize / (2 * Math.PI);
+  const point = mapProjection.project(location);
+  const origin = mapProjection.project(center);
+  let dx = (point.x - origin.x) * scale;
+  if (mapProjection.wraps) {
+    dx -= Math.round(dx / worldSize) * worldSize;
+  }
 
   return {
-    x: locationPixel.x - centerPixel.x + widthPixels / 2,
-    y: locationPixel.y - centerPixel.y + heightPixels / 2,
+    x: dx + widthPixels / 2,
+    y: (origin.y - point.y) * scale + heightPixels / 2,
   };
 }
 
+/**
+ * Converts pixel coordinates relative to a map viewport back to a geographic location
+ * @param pixel - Pixel coordinates relative to the map viewport (0,0 is top-left)
+ * @param center - Center location of the map
+ * @param zoom - Zoom level
+ * @param widthPixels - Width of the map in pixels
+ * @param heightPixels - Height of the map in pixels
+ * @param projection - Map projection (default: 'mercator')
+ * @returns The location, with its longitude wrapped into -180 to 180, or null
+ * if the pixel lies outside the projected world (such as beyond the edge of an
+ * orthographic globe)
+ */
+export function viewportPixelToGeo(
+  pixel: PixelCoordinate,
+  center: GeoLocation,
+  zoom: number,
+  widthPixels: number,
+  heightPixels: number,
+  projection?: MapProjection
+): GeoLocation | null {
+  const mapProjection = createProjection(projection, center);
+  const scale = (Math.pow(2, zoom) * TILE_SIZE) / (2 * Math.PI);
+  const origin = mapProjection.project(center);
+  const location = mapProjection.unproject({
+    x: origin.x + (pixel.x - widthPixels / 2) / scale,
+    y: origin.y - (pixel.y - heightPixels / 2) / scale,
+  });
+
+  return (
+    location && { latitude: location.latitude, longitude: normalizeLongitude(location.longitude) }
+  );
+}
+
+/**
+ * Checks whether a location is drawn on a map
+ *
+ * Only the orthographic projection hides locations: those on the far side of
+ * the globe from the center.
+ *
+ * @param location - Geographic location
+ * @param center - Center location of the map
+ * @param projection - Map projection (default: 'mercator')
+ */
+export function isLocationVisible(
+  location: GeoLocation,
+  center: GeoLocation,
+  projection?: MapProjection
+): boolean {
+  return createProjection(projection, center).isVisible(location);
+}
+
+/**
+ * Calculates the ground distance covered by one pixel at the center of a map
+ * @param center - Center location of the map
+ * @param zoom - Zoom level
+ * @param projection - Map projection (default: 'mercator')
+ * @returns Meters per pixel, measured east-west through the center
+ */
+export function calculateMetersPerPixel(
+  center: GeoLocation,
+  zoom: number,
+  projection?: MapProjection
+): number {
+  const west = viewportPixelToGeo({ x: -0.5, y: 0 }, center, zoom, 0, 0, projection);
+  const east = viewportPixelToGeo({ x: 0.5, y: 0 }, center, zoom, 0, 0, projection);
+  if (!west || !east) {
+    return 0;
+  }
+
+  // Haversine formula
+  const phi1 = (west.latitude * Math.PI) / 180;
+  const phi2 = (east.latitude * Math.PI) / 180;
+  const deltaPhi = phi2 - phi1;
+  const deltaLambda = ((east.longitude - west.longitude) * Math.PI) / 180;
+  const a =
+    Math.sin(deltaPhi / 2) ** 2 + Math.cos(phi1) * Math.cos(phi2) * Math.sin(deltaLambda / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
 /**
  * Calculates the appropriate zoom level to fit all markers within a viewport
  *
  * This implementation correctly handles Mercator projection distortion by converting
  * the geographic bounding box to pixel coordinates at a reference zoom level (0)
  * and then determining the zoom needed to fit that pixel box into the viewport.
+ * The longitude range is the smallest one containing every location, which may
+ * cross the antimeridian.
  *
  * @param locations - Array of locations to fit
  * @param widthPixels - Width of the viewport in pixels
@@ -157,19 +389,17 @@ export function calculateZoomToFit(
 
   // Find bounding box of all locations
   const lats = locations.map((loc) => loc.latitude);
-  const lngs = locations.map((loc) => loc.longitude);
+  const lngs = longitudeRange(locations.map((loc) => loc.longitude));
 
   const minLat = Math.min(...lats);
   const maxLat = Math.max(...lats);
-  const minLng = Math.min(...lngs);
-  const maxLng = Math.max(...lngs);
 
   // Calculate the zoom level required to fit the bounding box.
   // This approach correctly handles Mercator projection distortion by converting
   // the geographic bounding box to pixel coordinates at a reference zoom level (0)
   // and then determining the zoom needed to fit that pixel box into the viewport.
-  const northEast = geoToPixel({ latitude: maxLat, longitude: maxLng }, 0);
-  const southWest = geoToPixel({ latitude: minLat, longitude: minLng }, 0);
+  const northEast = geoToPixel({ latitude: maxLat, longitude: lngs.east }, 0);
+  const southWest = geoToPixel({ latitude: minLat, longitude: lngs.west }, 0);
 
   const lngRange = Math.abs(northEast.x - southWest.x);
   const latRange = Math.abs(northEast.y - southWest.y);
@@ -192,11 +422,10 @@ export function calculateZoomToFit(
 /**
  * Calculates the center point for a collection of locations
  *
- * NOTE: This function uses simple arithmetic averaging for longitude, which
- * produces incorrect results when locations span across the international date
- * line (longitude ±180°). For example, locations at 170° and -170° would average
- * to 0° instead of 180°/-180°. This limitation is acceptable for use cases
- * covering continental regions but may need spherical averaging for global coverage.
+ * The center is the spherical mean: the locations are averaged as unit vectors
+ * and the mean vector is projected back onto the sphere, so locations at 170°
+ * and -170° are centered on 180° rather than 0°. Locations whose mean vector
+ * vanishes (such as two antipodal points) fall back to the arithmetic mean.
  *
  * @param locations - Array of locations
  * @returns Center point of all locations
@@ -205,12 +434,166 @@ export function calculateCenter(locations: GeoLocation[]): GeoLocation {
   if (locations.length === 0) {
     return { latitude: 0, longitude: 0 };
   }
+  if (locations.length === 1) {
+    return { latitude: locations[0].latitude, longitude: locations[0].longitude };
+  }
 
-  const avgLat = locations.reduce((sum, loc) => sum + loc.latitude, 0) / locations.length;
-  const avgLng = locations.reduce((sum, loc) => sum + loc.longitude, 0) / locations.length;
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  for (const location of locations) {
+    const lat = (location.latitude * Math.PI) / 180;
+    const lng = (location.longitude * Math.PI) / 180;
+    x += Math.cos(lat) * Math.cos(lng);
+    y += Math.cos(lat) * Math.sin(lng);
+    z += Math.sin(lat);
+  }
+
+  if (Math.hypot(x, y, z) < 1e-9 * locations.length) {
+    return {
+      latitude: locations.reduce((sum, loc) => sum + loc.latitude, 0) / locations.length,
+      longitude: locations.reduce((sum, loc) => sum + loc.longitude, 0) / locations.length,
+    };
+  }
 
   return {
-    latitude: avgLat,
-    longitude: avgLng,
+    latitude: (Math.atan2(z, Math.hypot(x, y)) * 180) / Math.PI,
+    longitude: (Math.atan2(y, x) * 180) / Math.PI,
   };
 }
+
+/**
+ * Default maximum zoom level for automatically framed maps
+ */
+export const DEFAULT_FIT_MAX_ZOOM = 18;
+
+/**
+ * Default padding around the markers of automatically framed maps, as a
+ * fraction of the map size on each side
+ */
+export const DEFAULT_FIT_PADDING = 0.1;
+
+/**
+ * Calculates the view that fits a set of locations in a viewport
+ *
+ * Unlike `calculateZoomToFit`, the zoom level is fractional and the center is
+ * the middle of the locations' projected bounding box, so every location ends
+ * up inside the viewport minus the padding. The box spans the smallest
+ * longitude range containing every location, which may cross the antimeridian.
+ *
+ * The conic and orthographic projections are set up around the map center, so
+ * for them the center is the spherical mean of the locations (see
+ * `calculateCenter`) and the zoom level fits the locations around it.
+ *
+ * @param locations - Locations to fit (at least one)
+ * @param widthPixels - Width of the viewport in pixels
+ * @param heightPixels - Height of the viewport in pixels
+ * @param padding - Space kept free on each side, as a fraction of the viewport size (0-0.45)
+ * @param maxZoom - Highest zoom level to use
+ * @param projection - Map projection (default: 'mercator')
+ * @returns The center and zoom level, rounded down to 0.01
+ */
+export function calculateFitView(
+  locations: GeoLocation[],
+  widthPixels: number,
+  heightPixels: number,
+  padding = DEFAULT_FIT_PADDING,
+  maxZoom = DEFAULT_FIT_MAX_ZOOM,
+  projection?: MapProjection
+): MapView {
+  // Projected coordinates are scaled to world pixels at zoom level 0
+  const worldScale = TILE_SIZE / (2 * Math.PI);
+  let center: GeoLocation;
+  let spanX: number;
+  let spanY: number;
+
+  if (isCenterIndependent(projection)) {
+    // Projected bounding box
+    const mapProjection = createProjection(projection, { latitude: 0, longitude: 0 });
+    const ys = locations.map((location) => mapProjection.project(location).y);
+    const longitudes = longitudeRange(locations.map((location) => location.longitude));
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+    const middle = mapProjection.unproject({
+      x: (((longitudes.west + longitudes.east) / 2) * Math.PI) / 180,
+      y: (minY + maxY) / 2,
+    });
+
+    center = {
+      latitude: middle?.latitude ?? 0,
+      longitude: normalizeLongitude(middle?.longitude ?? 0),
+    };
+    spanX = ((longitudes.east - longitudes.west) / 360) * TILE_SIZE;
+    spanY = (maxY - minY) * worldScale;
+  } else {
+    // Largest distance from the center along each axis
+    center = calculateCenter(locations);
+    const mapProjection = createProjection(projection, center);
+    const origin = mapProjection.project(center);
+    const points = locations.map((location) => mapProjection.project(location));
+    spanX = 2 * Math.max(...points.map((p) => Math.abs(p.x - origin.x))) * worldScale;
+    spanY = 2 * Math.max(...points.map((p) => Math.abs(p.y - origin.y))) * worldScale;
+  }
+
+  const innerWidth = widthPixels * (1 - 2 * padding);
+  const innerHeight = heightPixels * (1 - 2 * padding);
+  const scale = Math.min(
+    spanX > 0 ? innerWidth / spanX : Infinity,
+    spanY > 0 ? innerHeight / spanY : Infinity
+  );
+
+  // Rounding down keeps the locations inside the padded viewport
+  const zoom = Math.floor(Math.log2(scale) * 100) / 100;
+
+  return {
+    center,
+    zoom: Math.max(0, Math.min(maxZoom, zoom)),
+  };
+}
+
+/**
+ * Resolves the view a map style is drawn at
+ *
+ * Manually framed styles use their `center` and `zoom`. Automatically framed
+ * styles fit the locations with `calculateFitView`, capped at `zoom` (default:
+ * 18); a single location is shown at zoom 15 and no locations at zoom 2, unless
+ * `zoom` is lower.
+ *
+ * @param style - Map style
+ * @param locations - Marker locations
+ * @param widthPixels - Width of the map in pixels
+ * @param heightPixels - Height of the map in pixels
+ * @returns The center and zoom level to draw the map at
+ * @throws Error if a manually framed style has no center or zoom
+ */
+export function resolveMapView(
+  style: MapStyle,
+  locations: GeoLocation[],
+  widthPixels: number,
+  heightPixels: number
+): MapView {
+  if (style.fit !== 'auto') {
+    if (!style.center || style.zoom === undefined) {
+      throw new Error('Map style requires a center and zoom unless fit is "auto"');
+    }
+    return { center: style.center, zoom: style.zoom };
+  }
+
+  const maxZoom = style.zoom ?? DEFAULT_FIT_MAX_ZOOM;
+  if (locations.length === 0) {
+    return { center: style.center ?? { latitude: 0, longitude: 0 }, zoom: Math.min(2, maxZoom) };
+  }
+  if (locations.length === 1) {
+    const { latitude, longitude } = locations[0];
+    return { center: { latitude, longitude }, zoom: Math.min(15, maxZoom) };
+  }
+
+  return calculateFitView(
+    locations,
+    widthPixels,
+    heightPixels,
+    style.fitPadding ?? DEFAULT_FIT_PADDING,
+    maxZoom,
+    style.projection
+  );
+}
@@ -1,15 +1,16 @@
 import { describe, it, expect } from 'vitest';
 import { MapEngine } from './engine';
+import { viewportPixelToGeo } from './coordinates';
 import type { MapStyle, MapMarker, GeoLocation } from '../types';
 
 describe('MapEngine', () => {
-  const defaultMapStyle: MapStyle = {
+  const defaultMapStyle = {
     provider: 'openstreetmap',
     zoom: 12,
     center: { latitude: 51.5074, longitude: -0.1278 },
     showScale: true,
     showAttribution: true,
-  };
+  } satisfies MapStyle;
 
   describe('renderMap', () => {
     it('should render a basic map', () => {
@@ -28,6 +29,34 @@ describe('MapEngine', () => {
       expect(result.bounds).toBeDefined();
     });
 
+    it('should fit automatically framed maps to the markers', () => {
+      const engine = new MapEngine();
+      const markers = [
+        { location: { latitude: 51.5074, longitude: -0.1278 } },
+        { location: { latitude: 48.8566, longitude: 2.3522 } },
+      ];
+      const result = engine.renderMap({
+        style: { provider: 'openstreetmap', fit: 'auto' },
+        width: 800,
+        height: 600,
+        markers,
+      });
+
+      expect(result.view?.zoom).toBeGreaterThan(5);
+      for (const { location } of markers) {
+        expect(location.latitude).toBeLessThan(result.bounds.north);
+        expect(location.latitude).toBeGreaterThan(result.bounds.south);
+        expect(location.longitude).toBeLessThan(result.bounds.east);
+        expect(location.longitude).toBeGreaterThan(result.bounds.west);
+      }
+    });
+
+    it('should report the view of manually framed maps', () => {
+      const result = new MapEngine().renderMap({ style: defaultMapStyle, width: 800, height: 600 });
+
+      expect(result.view).toEqual({ center: defaultMapStyle.center, zoom: 12 });
+    });
+
     it('should include bounds information', () => {
       const engine = new MapEngine();
       const result = engine.renderMap({
@@ -265,6 +294,134 @@ describe('MapEngine', () => {
 
       expect(result.svg).toContain('lightblue');
     });
+
+    it('should draw maps in other projections', () => {
+      const engine = new MapEngine();
+      const style = {
+        provider: 'custom',
+        zoom: 2,
+        center: { latitude: 70, longitude: 0 },
+        showScale: true,
+        projection: 'orthographic',
+      } satisfies MapStyle;
+      const result = engine.renderMap({
+        style,
+        width: 800,
+        height: 600,
+        markers: [
+          { location: { latitude: 78.22, longitude: 15.65 }, label: 'Svalbard' },
+          { location: { latitude: -77.85, longitude: 166.67 }, label: 'McMurdo' },
+        ],
+      });
+
+      // The far side of the globe is hidden
+      expect(result.svg).toContain('Svalbard');
+      expect(result.svg).not.toContain('McMurdo');
+      expect(result.svg).toContain('aria-setsize="1"');
+      expect(result.bounds.north).toBe(90);
+      // Orthographic maps are true to scale at the center: 100 pixels at zoom 2
+      expect(result.svg).toContain('Map scale: 3913.6 km');
+    });
+    describe('marker labels', () => {
+      const labelPositions = (svg: string) =>
+        Array.from(
+          svg.matchAll(/<text x="([-\d.]+)" y="([-\d.]+)"[^>]*>([A-Z])<\/text>/g),
+          (m) => ({
+            label: m[3],
+            x: Number(m[1]),
+            y: Number(m[2]),
+          })
+        );
+
+      it('should place the labels of overlapping markers apart', () => {
+        const result = new MapEngine().renderMap({
+          style: defaultMapStyle,
+          width: 800,
+          height: 600,
+          markers: [
+            { location: defaultMapStyle.center, label: 'A' },
+            { location: defaultMapStyle.center, label: 'B' },
+          ],
+        });
+
+        // Relative to the pin tip: A above the pin, B to its right
+        expect(labelPositions(result.svg)).toEqual([
+          { label: 'A', x: 0, y: -35 },
+          { label: 'B', x: 14.9, y: -12 },
+        ]);
+      });
+
+      it('should keep marker labels clear of the scale bar', () => {
+        const location = viewportPixelToGeo(
+          { x: 70, y: 600 },
+          defaultMapStyle.center,
+          defaultMapStyle.zoom,
+          800,
+          600
+        )!;
+        const result = new MapEngine().renderMap({
+          style: defaultMapStyle,
+          width: 800,
+          height: 600,
+          markers: [{ location, label: 'A' }],
+        });
+
+        // Every side of the pin touches the scale bar, so the label moves up with a leader line
+        expect(labelPositions(result.svg)).toEqual([{ label: 'A', x: 0, y: -51 }]);
+        expect(result.svg).toContain('class="marker-label-leader"');
+      });
+    });
+
+    describe('marker clustering', () => {
+      const style = {
+        provider: 'custom',
+        zoom: 6,
+        center: { latitude: 50, longitude: 1 },
+      } satisfies MapStyle;
+      // Shops a few meters apart in central London, and one in Paris
+      const markers: MapMarker[] = [
+        { location: { latitude: 51.5074, longitude: -0.1278, name: 'Bakery' } },
+        { location: { latitude: 51.5075, longitude: -0.1277, name: 'Florist' } },
+        { location: { latitude: 51.5073, longitude: -0.1279 }, label: 'C' },
+        { location: { latitude: 48.8566, longitude: 2.3522, name: 'Paris' } },
+      ];
+
+      it('should draw nearby markers as a count badge', () => {
+        const result = new MapEngine().renderMap({
+          style: { ...style, clustering: { mode: 'badge' } },
+          width: 800,
+          height: 600,
+          markers,
+        });
+
+        expect(result.svg).toContain('class="marker marker-cluster"');
+        expect(result.svg).toContain('aria-label="3 markers: Bakery, Florist, C"');
+        expect(result.svg.match(/role="graphics-symbol"/g)).toHaveLength(2);
+        expect(result.svg).toContain('aria-setsize="2"');
+      });
+
+      it('should fan nearby markers out when spiderfied', () => {
+        const result = new MapEngine().renderMap({
+          style: { ...style, clustering: { mode: 'spiderfy' } },
+          width: 800,
+          height: 600,
+          markers,
+        });
+
+        expect(result.svg).toContain('class="marker-cluster marker-cluster-spiderfied"');
+        expect(result.svg.match(/<g class="marker"/g)).toHaveLength(4);
+        const legs = result.svg.match(/<g class="marker-cluster-legs"[\s\S]*?<\/g>/)?.[0];
+        expect(legs?.match(/<line /g)).toHaveLength(3);
+        expect(result.svg).toContain('aria-setsize="4"');
+      });
+
+      it('should draw every marker without clustering', () => {
+        const result = new MapEngine().renderMap({ style, width: 800, height: 600, markers });
+
+        expect(result.svg).not.toContain('marker-cluster');
+        expect(result.svg.match(/<g class="marker"/g)).toHaveLength(4);
+      });
+    });
   });
 
   describe('createMarkersFromLinks', () => {
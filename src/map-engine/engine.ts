@@ -2,8 +2,49 @@
  * Main map rendering engine for generating SVG maps
  */
 
-import { MapStyle, MapMarker, RenderedMap, GeoLocation } from '../types';
-import { geoToViewportPixel, calculateBounds } from './coordinates';
+import {
+  MapStyle,
+  MapMarker,
+  MapView,
+  RenderedMap,
+  GeoLocation,
+  BoundingBox,
+  PixelCoordinate,
+  MarkerCategory,
+} from '../types';
+import {
+  calculateBounds,
+  calculateMetersPerPixel,
+  geoToPixel,
+  geoToViewportPixel,
+  isLocationVisible,
+  resolveMapView,
+} from './coordinates';
+import { MarkerCluster, MarkerPlacement, placeMarkers } from './clustering';
+import { LabelBox, LabelRequest, placeLabels, PlacedLabel } from './labels';
+import { renderIcon, renderIconDefs } from './icons';
+import { lineEndpoints, loadMapOverlay, MapOverlay } from './overlays';
+import {
+  LEGEND_FONT_SIZE,
+  LEGEND_SWATCH_RADIUS,
+  LEGEND_TITLE_FONT_SIZE,
+  LegendLayout,
+  layoutLegend,
+  MapLegend,
+} from './legend';
+import { projectionType } from './projections';
+import {
+  BasemapError,
+  BasemapFeature,
+  BasemapFeatureKind,
+  BasemapSource,
+  BasemapViewport,
+  geometryToPathData,
+  isRasterBasemapSource,
+  openBasemapSource,
+  RasterBasemapSource,
+  RasterTile,
+} from './basemap';
 
 /**
  * Configuration for map rendering
@@ -21,14 +62,66 @@ export interface MapRenderConfig {
   backgroundColor?: string;
   /** Whether to render detailed map features (roads, buildings, etc.) */
   showMapFeatures?: boolean;
+  /** Offline basemap data or tile source (takes precedence over `style.basemap`) */
+  basemap?: BasemapSource | RasterBasemapSource;
+  /** Tracks, routes and areas drawn over the basemap, after those of `style.overlays` */
+  overlays?: MapOverlay[];
+  /** Directory used to resolve relative `style.basemap`, `style.overlays` and marker icon paths */
+  baseDir?: string;
+  /** Legend drawn in a free corner of the map */
+  legend?: MapLegend;
 }
 
+/**
+ * A map style with its view resolved
+ */
+type FramedMapStyle = MapStyle & MapView;
+
 /**
  * Constants for rendering
  */
 const TILE_SIZE = 256; // Standard tile size for grid
 const PIN_SHAPE_RATIO = 1 / 3; // Width ratio for pin base
 const PIN_HEIGHT_RATIO = 1.2; // Height ratio for pin top curve
+const CLUSTER_BADGE_RADIUS = 12; // Radius of a cluster badge with a one-digit count
+const SCALE_BAR_WIDTH = 100; // Length of the scale bar
+const MARKER_LABEL_FONT_SIZE = 14; // Font size of marker labels
+const MARKER_LABEL_CHAR_WIDTH = 0.6; // Average character width of marker labels, relative to the font size
+const MARKER_ICON_RATIO = 0.6; // Icon size on circle and square markers, relative to the marker size
+const PIN_ICON_RATIO = 0.4; // Icon size on pin markers, relative to the marker size
+const PIN_ICON_HEIGHT_RATIO = 0.85; // Height of the icon center above the pin point, relative to the marker size
+
+/**
+ * Basemap layers in drawing order, with the same colors as the generated features
+ */
+const BASEMAP_LAYERS: Array<{
+  kind: BasemapFeatureKind;
+  id: string;
+  include: 'areas' | 'lines';
+  attributes: string;
+}> = [
+  { kind: 'water', id: 'water', include: 'areas', attributes: 'fill="#a8d5e5"' },
+  {
+    kind: 'waterway',
+    id: 'waterways',
+    include: 'lines',
+    attributes: 'fill="none" stroke="#a8d5e5" stroke-width="4"',
+  },
+  { kind: 'park', id: 'parks', include: 'areas', attributes: 'fill="#c8e6c9"' },
+  { kind: 'building', id: 'buildings', include: 'areas', attributes: 'fill="#e0e0e0"' },
+  {
+    kind: 'minor-road',
+    id: 'minor-roads',
+    include: 'lines',
+    attributes: 'fill="none" stroke="#ffffff" stroke-width="3"',
+  },
+  {
+    kind: 'major-road',
+    id: 'major-roads',
+    include: 'lines',
+    attributes: 'fill="none" stroke="#ffd54f" stroke-width="6"',
+  },
+];
 
 /**
  * Regex pattern for validating hex CSS color values
@@ -265,22 +358,82 @@ function sanitizeColor(color: string | undefined, defaultColor: string): string
   return defaultColor;
 }
 
+/**
+ * Returns the attribution text drawn on a map
+ */
+function getAttributionText(provider: string, dataAttribution?: string): string {
+  if (dataAttribution) {
+    return dataAttribution;
+  }
+  return provider === 'custom' ? 'Custom Map' : '© OpenStreetMap contributors';
+}
+
+/**
+ * Box of the scale bar, in the bottom-left corner of the map
+ */
+function scaleBox(height: number): LabelBox {
+  return { x: 15, y: height - 35, width: SCALE_BAR_WIDTH + 10, height: 25 };
+}
+
+/**
+ * Box of the attribution, in the bottom-right corner of the map
+ */
+function attributionBox(text: string, width: number, height: number): LabelBox {
+  const textWidth = text.length * 6; // Rough estimate
+  return { x: width - textWidth - 15, y: height - 18, width: textWidth + 10, height: 16 };
+}
+
+/**
+ * Returns the boxes of the scale bar and attribution that a map style draws,
+ * which labels on the map keep clear of
+ * @param style - Map style (`showScale` and `showAttribution` select the boxes)
+ * @param width - Map width in pixels
+ * @param height - Map height in pixels
+ * @param dataAttribution - Attribution of the basemap data, if any
+ * @returns Boxes in map pixels
+ */
+export function getMapOverlayBoxes(
+  style: Pick<MapStyle, 'provider' | 'showScale' | 'showAttribution'>,
+  width: number,
+  height: number,
+  dataAttribution?: string
+): LabelBox[] {
+  const boxes: LabelBox[] = [];
+  if (style.showScale) {
+    boxes.push(scaleBox(height));
+  }
+  if (style.showAttribution) {
+    boxes.push(attributionBox(getAttributionText(style.provider, dataAttribution), width, height));
+  }
+  return boxes;
+}
+
 /**
  * Map rendering engine
  */
 export class MapEngine {
   /**
    * Renders a map to SVG based on the provided configuration
+   *
+   * Automatically framed styles (`fit: 'auto'`) are fitted to the markers at
+   * the given width and height.
    * @param config - Map rendering configuration
-   * @returns Rendered map with SVG content
+   * @returns Rendered map with SVG content and the view it was drawn at
    */
   renderMap(config: MapRenderConfig): RenderedMap {
-    const { style, width, height, markers = [] } = config;
+    const { width, height, markers = [] } = config;
+    const view = resolveMapView(
+      config.style,
+      markers.map((marker) => marker.location),
+      width,
+      height
+    );
+    const style: FramedMapStyle = { ...config.style, ...view };
     const backgroundColor = sanitizeColor(config.backgroundColor, '#f0f0f0');
     const showMapFeatures = config.showMapFeatures !== false; // Default to true
 
     // Calculate bounds
-    const bounds = calculateBounds(style.center, style.zoom, width, height);
+    const bounds = calculateBounds(style.center, style.zoom, width, height, style.projection);
 
     // Build SVG
     const svgParts: string[] = [];
@@ -291,7 +444,7 @@ export class MapEngine {
       : `Map centered at ${style.center.latitude}, ${style.center.longitude}`;
 
     svgParts.push(
-      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${this.escapeXml(mapAriaLabel)}">`
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${this.escapeXml(mapAriaLabel)}">`
     );
     svgParts.push(`<title>Map of ${style.center.name || 'selected area'}</title>`);
     const markerCountText =
@@ -313,10 +466,36 @@ export class MapEngine {
     svgParts.push('  .marker:focus-visible { outline: 3px solid #4a90e2; outline-offset: 2px; }');
     svgParts.push('</style>');
 
+    // Symbols of the marker and legend icons
+    const icons = [
+      ...markers.map((marker) => marker.style?.icon),
+      ...(config.legend?.entries ?? []).map((entry) => entry.icon),
+    ].filter((icon): icon is string => Boolean(icon));
+    const iconDefs = renderIconDefs(icons, config.baseDir);
+    if (iconDefs) {
+      svgParts.push(iconDefs);
+    }
+
     // Background
     svgParts.push(`<rect width="${width}" height="${height}" fill="${backgroundColor}"/>`);
 
-    if (showMapFeatures) {
+    const basemap = showMapFeatures ? this.loadBasemap(config, bounds, style.zoom) : null;
+
+    const viewport: BasemapViewport = {
+      center: style.center,
+      zoom: style.zoom,
+      width,
+      height,
+      projection: style.projection,
+    };
+
+    if (basemap?.tiles) {
+      // Imagery from the offline raster basemap
+      this.addRasterTiles(svgParts, basemap.tiles, viewport);
+    } else if (basemap?.features) {
+      // Real features from the offline basemap
+      this.addBasemapFeatures(svgParts, basemap.features, viewport);
+    } else if (showMapFeatures) {
       // Add detailed map features
       this.addMapFeatures(svgParts, width, height, style);
     } else {
@@ -327,35 +506,72 @@ export class MapEngine {
       this.addGridLines(svgParts, width, height);
     }
 
-    // Render markers
-    if (markers.length > 0) {
+    // Tracks, routes and areas, between the basemap and the markers
+    const overlays = [
+      ...(style.overlays ?? []).map((overlay) => loadMapOverlay(overlay, config.baseDir)),
+      ...(config.overlays ?? []),
+    ];
+    if (overlays.length > 0) {
+      this.addOverlays(svgParts, overlays, viewport);
+    }
+
+    // Render markers (except those on the far side of an orthographic globe)
+    const placement = placeMarkers(
+      markers.map((marker) => marker.location),
+      style,
+      width,
+      height
+    );
+    const overlayBoxes = getMapOverlayBoxes(style, width, height, basemap?.attribution);
+
+    // The legend goes in the corner with the fewest markers, and labels keep clear of it
+    let legend: LegendLayout | null = null;
+    if (config.legend && config.legend.entries.length > 0) {
+      const markerBoxes = markers.flatMap((marker, i) => {
+        const position = placement.positions[i];
+        return position ? [this.getMarkerBox(marker, position)] : [];
+      });
+      legend = layoutLegend(config.legend, [...markerBoxes, ...overlayBoxes], width, height);
+      overlayBoxes.push(legend.box);
+    }
+
+    if (placement.clusters.length > 0) {
       svgParts.push('<g id="markers">');
-      markers.forEach((marker, index) => {
-        const markerSvg = this.renderMarker(
-          marker,
+      svgParts.push(
+        this.renderMarkerClusters(
+          markers,
+          placement,
           style,
+          overlayBoxes,
           width,
           height,
-          index + 1,
-          markers.length
-        );
-        svgParts.push(markerSvg);
-      });
+          config.baseDir
+        )
+      );
       svgParts.push('</g>');
     }
 
     // Add scale if requested
     if (style.showScale) {
-      const scaleSvg = this.renderScale(style.zoom, width, height, style.center);
+      const scaleSvg = this.renderScale(style, width, height);
       svgParts.push(scaleSvg);
     }
 
     // Add attribution if requested
     if (style.showAttribution) {
-      const attributionSvg = this.renderAttribution(style.provider, width, height);
+      const attributionSvg = this.renderAttribution(
+        style.provider,
+        width,
+        height,
+        basemap?.attribution
+      );
       svgParts.push(attributionSvg);
     }
 
+    if (legend) {
+      svgParts.push(this.renderLegend(legend, config.baseDir));
+    }
+
     // Close SVG
     svgParts.push('</svg>');
 
@@ -364,13 +580,196 @@ export class MapEngine {
       width,
       height,
       bounds,
+      view,
     };
   }
 
+  /**
+   * Reads the features or tiles of the basemap source for the map bounds
+   * @returns Basemap content and attribution, or null if no basemap is configured
+   */
+  private loadBasemap(
+    config: MapRenderConfig,
+    bounds: BoundingBox,
+    zoom: number
+  ): { features?: BasemapFeature[]; tiles?: RasterTile[]; attribution?: string } | null {
+    const { style } = config;
+    let source = config.basemap;
+
+    if (!source) {
+      if (!style.basemap) {
+        return null;
+      }
+      // Sources opened from the style are owned (and closed) by this render
+      source = openBasemapSource(style.basemap, config.baseDir);
+    }
+
+    try {
+      if (isRasterBasemapSource(source) && projectionType(style.projection) !== 'mercator') {
+        throw new BasemapError('Raster basemaps can only be drawn in the mercator projection');
+      }
+      return isRasterBasemapSource(source)
+        ? { tiles: source.getTiles(bounds, zoom), attribution: source.attribution }
+        : { features: source.getFeatures(bounds, zoom), attribution: source.attribution };
+    } finally {
+      if (!config.basemap) {
+        source.close?.();
+      }
+    }
+  }
+
+  /**
+   * Adds features from an offline basemap, clipped to the viewport
+   */
+  private addBasemapFeatures(
+    svgParts: string[],
+    features: BasemapFeature[],
+    viewport: BasemapViewport
+  ): void {
+    // Land background
+    svgParts.push(`<rect width="${viewport.width}" height="${viewport.height}" fill="#f5f5dc"/>`);
+
+    svgParts.push('<g id="basemap" aria-hidden="true">');
+    for (const layer of BASEMAP_LAYERS) {
+      const paths = features
+        .filter((feature) => feature.kind === layer.kind)
+        .map((feature) => geometryToPathData(feature.geometry, viewport, layer.include))
+        .filter((path): path is string => path !== null);
+
+      if (paths.length === 0) continue;
+
+      // Polygons are drawn without outlines so that tile boundaries stay invisible
+      svgParts.push(
+        `<g id="${layer.id}" ${layer.attributes} fill-rule="evenodd" stroke-linecap="round" stroke-linejoin="round">`
+      );
+      paths.forEach((path) => svgParts.push(`<path d="${path}"/>`));
+      svgParts.push('</g>');
+    }
+    svgParts.push('</g>');
+  }
+
+  /**
+   * Stitches raster tiles into the viewport as embedded images
+   */
+  private addRasterTiles(svgParts: string[], tiles: RasterTile[], viewport: BasemapViewport): void {
+    const centerPixel = geoToPixel(viewport.center, viewport.zoom);
+    const originX = centerPixel.x - viewport.width / 2;
+    const originY = centerPixel.y - viewport.height / 2;
+    const worldSize = TILE_SIZE * Math.pow(2, viewport.zoom);
+
+    svgParts.push('<g id="basemap-tiles" aria-hidden="true">');
+    for (const tile of tiles) {
+      // Tiles from a lower or higher zoom level are scaled to the map zoom
+      const tileSize = TILE_SIZE * Math.pow(2, viewport.zoom - tile.z);
+      const tileX = tile.x * tileSize - originX;
+      const top = Math.round(tile.y * tileSize - originY);
+      const bottom = Math.round((tile.y + 1) * tileSize - originY);
+
+      // Draw the tile on each copy of the world that reaches into the viewport,
+      // so maps crossing the antimeridian are covered on both sides
+      const firstCopy = Math.floor(-(tileX + tileSize) / worldSize) + 1;
+      const lastCopy = Math.ceil((viewport.width - tileX) / worldSize) - 1;
+      for (let copy = firstCopy; copy <= lastCopy; copy++) {
+        // Snap edges to whole pixels so that neighbouring tiles meet without hairline gaps
+        const left = Math.round(tileX + copy * worldSize);
+        const right = Math.round(tileX + tileSize + copy * worldSize);
+
+        svgParts.push(
+          `<image x="${left}" y="${top}" width="${right - left}" height="${bottom - top}" ` +
+            `preserveAspectRatio="none" ` +
+            `xlink:href="data:${tile.mimeType};base64,${tile.data.toString('base64')}"/>`
+        );
+      }
+    }
+    svgParts.push('</g>');
+  }
+
+  /**
+   * Adds overlay lines and areas, simplified at the map zoom, with markers
+   * where their tracks start and end
+   */
+  private addOverlays(svgParts: string[], overlays: MapOverlay[], viewport: BasemapViewport): void {
+    svgParts.push('<g id="overlays" aria-hidden="true">');
+    for (const overlay of overlays) {
+      const style = overlay.style ?? {};
+      const color = sanitizeColor(style.color, '#e67e22');
+      const width = style.width ?? 3;
+      const fillColor = sanitizeColor(style.fillColor, color);
+      const tolerance = overlay.simplify ?? 1;
+
+      let stroke = `stroke="${color}" stroke-width="${width}"`;
+      if (style.opacity !== undefined && style.opacity < 1) {
+        stroke += ` stroke-opacity="${style.opacity}"`;
+      }
+      if (style.lineStyle === 'dashed') {
+        stroke += ` stroke-dasharray="${width * 4} ${width * 2}"`;
+      } else if (style.lineStyle === 'dotted') {
+        stroke += ` stroke-dasharray="${width} ${width * 2}"`;
+      }
+
+      svgParts.push('<g class="map-overlay">');
+      for (const { geometry } of overlay.features) {
+        if (!geometry) continue;
+
+        const areas = geometryToPathData(geometry, viewport, 'areas', tolerance);
+        if (areas) {
+          svgParts.push(
+            `<path class="map-overlay-area" d="${areas}" fill="${fillColor}" fill-opacity="${style.fillOpacity ?? 0.2}" ${stroke} stroke-linejoin="round"/>`
+          );
+        }
+        const lines = geometryToPathData(geometry, viewport, 'lines', tolerance);
+        if (lines) {
+          svgParts.push(
+            `<path class="map-overlay-line" d="${lines}" fill="none" ${stroke} stroke-linecap="round" stroke-linejoin="round"/>`
+          );
+        }
+
+        const endpoints = overlay.startMarker || overlay.endMarker ? lineEndpoints(geometry) : null;
+        if (endpoints) {
+          const radius = Math.max(4, width + 2);
+          const pixel = ([longitude, latitude]: number[]) => {
+            const location = { latitude, longitude };
+            if (!isLocationVisible(location, viewport.center, viewport.projection)) {
+              return null;
+            }
+            const { x, y } = geoToViewportPixel(
+              location,
+              viewport.center,
+              viewport.zoom,
+              viewport.width,
+              viewport.height,
+              viewport.projection
+            );
+            return { x: Math.round(x * 10) / 10, y: Math.round(y * 10) / 10 };
+          };
+          const start = overlay.startMarker ? pixel(endpoints.start) : null;
+          if (start) {
+            svgParts.push(
+              `<circle class="map-overlay-start" cx="${start.x}" cy="${start.y}" r="${radius}" fill="${color}" stroke="white" stroke-width="2"/>`
+            );
+          }
+          const end = overlay.endMarker ? pixel(endpoints.end) : null;
+          if (end) {
+            svgParts.push(
+              `<circle class="map-overlay-end" cx="${end.x}" cy="${end.y}" r="${radius}" fill="white" stroke="${color}" stroke-width="${Math.max(2, width)}"/>`
+            );
+          }
+        }
+      }
+      svgParts.push('</g>');
+    }
+    svgParts.push('</g>');
+  }
+
   /**
    * Adds detailed map features including water, parks, buildings, and roads
    */
-  private addMapFeatures(svgParts: string[], width: number, height: number, style: MapStyle): void {
+  private addMapFeatures(
+    svgParts: string[],
+    width: number,
+    height: number,
+    style: FramedMapStyle
+  ): void {
     // Land background
     svgParts.push(`<rect width="${width}" height="${height}" fill="#f5f5dc"/>`);
 
@@ -612,19 +1011,205 @@ export class MapEngine {
     svgParts.push('</g>');
   }
 
+  /**
+   * Renders the markers of the map, as placed by `placeMarkers`
+   *
+   * Clusters of several markers are drawn as a count badge, or as their
+   * members fanned out with legs to the cluster position. Marker labels are
+   * placed clear of each other, of the drawn symbols and of the overlays.
+   * @param overlays - Boxes of the scale bar and attribution
+   * @param baseDir - Directory used to resolve relative icon paths
+   */
+  private renderMarkerClusters(
+    markers: MapMarker[],
+    placement: MarkerPlacement,
+    style: FramedMapStyle,
+    overlays: LabelBox[],
+    width: number,
+    height: number,
+    baseDir?: string
+  ): string {
+    const spiderfied = style.clustering?.mode === 'spiderfy';
+
+    // Markers drawn on their own (not on a badge) and the boxes of all drawn symbols
+    const drawn: number[] = [];
+    const symbols: LabelBox[] = [];
+    for (const cluster of placement.clusters) {
+      if (cluster.members.length === 1 || spiderfied) {
+        for (const index of cluster.members) {
+          drawn.push(index);
+          symbols.push(this.getMarkerBox(markers[index], placement.positions[index]!));
+        }
+      } else {
+        const radius = this.getClusterBadgeRadius(cluster.members.length) + 4;
+        const { x, y } = cluster.position;
+        symbols.push({ x: x - radius, y: y - radius, width: 2 * radius, height: 2 * radius });
+      }
+    }
+
+    const labelled = drawn.filter((index) => markers[index].label);
+    const requests: LabelRequest[] = labelled.map((index) => ({
+      target: this.getMarkerBox(markers[index], placement.positions[index]!),
+      width: markers[index].label!.length * MARKER_LABEL_FONT_SIZE * MARKER_LABEL_CHAR_WIDTH + 4,
+      height: MARKER_LABEL_FONT_SIZE + 4,
+    }));
+    const placedLabels = new Map<number, PlacedLabel>();
+    placeLabels(requests, [...symbols, ...overlays], { x: 0, y: 0, width, height }).forEach(
+      (placed, i) => placedLabels.set(labelled[i], placed)
+    );
+
+    // Each badge and each drawn marker is one symbol of the set
+    const setSize = symbols.length;
+
+    const parts: string[] = [];
+    let posInSet = 0;
+    for (const cluster of placement.clusters) {
+      const members = cluster.members.map((index) => markers[index]);
+      if (members.length === 1) {
+        const index = cluster.members[0];
+        parts.push(
+          this.renderMarker(
+            members[0],
+            placement.positions[index]!,
+            ++posInSet,
+            setSize,
+            placedLabels.get(index),
+            baseDir
+          )
+        );
+      } else if (spiderfied) {
+        parts.push(
+          this.renderSpiderfiedCluster(
+            cluster,
+            members,
+            placement,
+            placedLabels,
+            posInSet,
+            setSize,
+            baseDir
+          )
+        );
+        posInSet += members.length;
+      } else {
+        parts.push(this.renderClusterBadge(cluster, members, ++posInSet, setSize));
+      }
+    }
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Calculates the radius of a cluster badge, which grows with the digits of the count
+   */
+  private getClusterBadgeRadius(count: number): number {
+    return CLUSTER_BADGE_RADIUS + (String(count).length - 1) * 4;
+  }
+
+  /**
+   * Calculates the box a marker symbol covers on the map
+   */
+  private getMarkerBox(marker: MapMarker, pixel: PixelCoordinate): LabelBox {
+    const size = marker.style?.size || 20;
+    if ((marker.style?.shape || 'pin') === 'pin') {
+      const halfWidth = size * PIN_SHAPE_RATIO;
+      const top = size * PIN_HEIGHT_RATIO;
+      return { x: pixel.x - halfWidth, y: pixel.y - top, width: 2 * halfWidth, height: top };
+    }
+    return { x: pixel.x - size / 2, y: pixel.y - size / 2, width: size, height: size };
+  }
+
+  /**
+   * Renders a cluster as a badge showing the number of its markers
+   */
+  private renderClusterBadge(
+    cluster: MarkerCluster,
+    members: MapMarker[],
+    posInSet: number,
+    setSize: number
+  ): string {
+    const { x, y } = cluster.position;
+    const color = sanitizeColor(members[0].style?.color, '#e74c3c');
+    const count = String(members.length);
+    const radius = this.getClusterBadgeRadius(members.length);
+    const names = members
+      .map((marker) => marker.location.name || marker.label)
+      .filter((name): name is string => Boolean(name));
+    const title = names.length > 0 ? `${count} markers: ${names.join(', ')}` : `${count} markers`;
+
+    const parts: string[] = [];
+    parts.push(
+      `<g class="marker marker-cluster" transform="translate(${x}, ${y})" role="graphics-symbol" ` +
+        `aria-label="${this.escapeXml(title)}" aria-posinset="${posInSet}" aria-setsize="${setSize}" tabindex="0">`
+    );
+    parts.push(`<title>${this.escapeXml(title)}</title>`);
+    parts.push(
+      `<circle r="${radius + 4}" fill="${color}" fill-opacity="0.35" aria-hidden="true"/>`
+    );
+    parts.push(`<circle r="${radius}" fill="${color}" stroke="white" stroke-width="2"/>`);
+    parts.push(
+      `<text x="0" y="0" dy="0.35em" text-anchor="middle" font-family="Arial, sans-serif" font-size="13" font-weight="bold" fill="white" aria-hidden="true">${count}</text>`
+    );
+    parts.push('</g>');
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Renders a cluster with its markers fanned out and legs to the cluster position
+   */
+  private renderSpiderfiedCluster(
+    cluster: MarkerCluster,
+    members: MapMarker[],
+    placement: MarkerPlacement,
+    placedLabels: Map<number, PlacedLabel>,
+    firstPosInSet: number,
+    setSize: number,
+    baseDir?: string
+  ): string {
+    const { x, y } = cluster.position;
+    const parts: string[] = [];
+    parts.push('<g class="marker-cluster marker-cluster-spiderfied">');
+
+    parts.push('<g class="marker-cluster-legs" aria-hidden="true">');
+    for (const index of cluster.members) {
+      const end = placement.positions[index]!;
+      parts.push(
+        `<line x1="${x}" y1="${y}" x2="${end.x}" y2="${end.y}" stroke="#555555" stroke-width="1.5"/>`
+      );
+    }
+    parts.push(`<circle cx="${x}" cy="${y}" r="3" fill="#555555"/>`);
+    parts.push('</g>');
+
+    cluster.members.forEach((index, i) => {
+      parts.push(
+        this.renderMarker(
+          members[i],
+          placement.positions[index]!,
+          firstPosInSet + i + 1,
+          setSize,
+          placedLabels.get(index),
+          baseDir
+        )
+      );
+    });
+
+    parts.push('</g>');
+    return parts.join('\n');
+  }
+
   /**
    * Renders a single marker on the map
+   * @param placedLabel - Where the marker label is placed, found by `placeLabels`
+   * @param baseDir - Directory used to resolve relative icon paths
    */
   private renderMarker(
     marker: MapMarker,
-    style: MapStyle,
-    width: number,
-    height: number,
+    pixel: PixelCoordinate,
     posInSet?: number,
-    setSize?: number
+    setSize?: number,
+    placedLabel?: PlacedLabel,
+    baseDir?: string
   ): string {
-    const pixel = geoToViewportPixel(marker.location, style.center, style.zoom, width, height);
-
     const color = sanitizeColor(marker.style?.color, '#e74c3c');
     const size = marker.style?.size || 20;
     const shape = marker.style?.shape || 'pin';
@@ -667,11 +1252,34 @@ export class MapEngine {
         break;
     }
 
-    // Add label if present
-    if (marker.label) {
-      const labelY = shape === 'pin' ? -size - 5 : 0;
+    if (marker.style?.icon) {
       parts.push(
-        `<text x="0" y="${labelY}" text-anchor="middle" font-family="Arial, sans-serif" font-size="14" font-weight="bold" fill="black" stroke="white" stroke-width="3" paint-order="stroke" aria-hidden="true">${this.escapeXml(marker.label)}</text>`
+        shape === 'circle' || shape === 'square'
+          ? renderIcon(marker.style.icon, 0, 0, size * MARKER_ICON_RATIO, baseDir)
+          : renderIcon(
+              marker.style.icon,
+              0,
+              -size * PIN_ICON_HEIGHT_RATIO,
+              size * PIN_ICON_RATIO,
+              baseDir
+            )
+      );
+    }
+
+    // Add label if present, tied to the marker by a leader line when placed away from it
+    if (marker.label && placedLabel) {
+      // Offsets from the marker, to a tenth of a pixel
+      const offset = (value: number, origin: number) => Math.round((value - origin) * 10) / 10;
+      if (placedLabel.leader) {
+        const { start, end } = placedLabel.leader;
+        parts.push(
+          `<line class="marker-label-leader" x1="${offset(start.x, pixel.x)}" y1="${offset(start.y, pixel.y)}" x2="${offset(end.x, pixel.x)}" y2="${offset(end.y, pixel.y)}" stroke="#333333" stroke-width="1" aria-hidden="true"/>`
+        );
+      }
+      const labelX = offset(placedLabel.box.x + placedLabel.box.width / 2, pixel.x);
+      const labelY = offset(placedLabel.box.y + placedLabel.box.height / 2, pixel.y);
+      parts.push(
+        `<text x="${labelX}" y="${labelY}" text-anchor="middle" dominant-baseline="central" font-family="Arial, sans-serif" font-size="${MARKER_LABEL_FONT_SIZE}" font-weight="bold" fill="black" stroke="white" stroke-width="3" paint-order="stroke" aria-hidden="true">${this.escapeXml(marker.label)}</text>`
       );
     }
 
@@ -682,18 +1290,16 @@ export class MapEngine {
 
   /**
    * Renders a scale bar on the map
-   * @param zoom - The zoom level
+   * @param style - The framed map style, whose center, zoom and projection set the scale
    * @param _width - The width of the map (unused but kept for consistency)
    * @param height - The height of the map
-   * @param center - The center location of the map, used for accurate scale calculation
    */
-  private renderScale(zoom: number, _width: number, height: number, center: GeoLocation): string {
-    // Calculate scale in meters per pixel at this zoom level, using center latitude for accuracy
-    const metersPerPixel =
-      (156543.03392 * Math.cos((center.latitude * Math.PI) / 180)) / Math.pow(2, zoom);
+  private renderScale(style: FramedMapStyle, _width: number, height: number): string {
+    // Calculate scale in meters per pixel at the map center, in the map projection
+    const metersPerPixel = calculateMetersPerPixel(style.center, style.zoom, style.projection);
 
     // Create a scale bar representing a nice round distance
-    const scaleWidthPixels = 100;
+    const scaleWidthPixels = SCALE_BAR_WIDTH;
     const scaleMeters = scaleWidthPixels * metersPerPixel;
 
     // Convert to km if over 1000m
@@ -704,8 +1310,9 @@ export class MapEngine {
       scaleText = `${Math.round(scaleMeters)} m`;
     }
 
-    const x = 20;
-    const y = height - 30;
+    const box = scaleBox(height);
+    const x = box.x + 5;
+    const y = box.y + 5;
 
     const parts: string[] = [];
     parts.push(`<g class="scale" role="img" aria-label="Map scale: ${this.escapeXml(scaleText)}">`);
@@ -713,7 +1320,7 @@ export class MapEngine {
 
     // Scale bar background
     parts.push(
-      `<rect x="${x - 5}" y="${y - 5}" width="${scaleWidthPixels + 10}" height="25" fill="white" fill-opacity="0.8" stroke="#333" stroke-width="1"/>`
+      `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="white" fill-opacity="0.8" stroke="#333" stroke-width="1"/>`
     );
 
     // Scale bar
@@ -740,12 +1347,14 @@ export class MapEngine {
   /**
    * Renders attribution text on the map
    */
-  private renderAttribution(provider: string, width: number, height: number): string {
-    let attributionText = '© OpenStreetMap contributors';
-    if (provider === 'custom') {
-      attributionText = 'Custom Map';
-    }
-
+  private renderAttribution(
+    provider: string,
+    width: number,
+    height: number,
+    dataAttribution?: string
+  ): string {
+    const attributionText = getAttributionText(provider, dataAttribution);
+    const box = attributionBox(attributionText, width, height);
     const x = width - 10;
     const y = height - 10;
 
@@ -756,9 +1365,8 @@ export class MapEngine {
     parts.push(`<title>${this.escapeXml(attributionText)}</title>`);
 
     // Add a semi-transparent background for better readability
-    const textWidth = attributionText.length * 6; // Rough estimate
     parts.push(
-      `<rect x="${x - textWidth - 5}" y="${y - 8}" width="${textWidth + 10}" height="16" fill="white" fill-opacity="0.8" rx="3" ry="3" aria-hidden="true"/>`
+      `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="white" fill-opacity="0.8" rx="3" ry="3" aria-hidden="true"/>`
     );
 
     parts.push(
@@ -769,6 +1377,40 @@ export class MapEngine {
     return parts.join('\n');
   }
 
+  /**
+   * Renders the legend, with a swatch in each entry's color showing its icon
+   */
+  private renderLegend(legend: LegendLayout, baseDir?: string): string {
+    const { box } = legend;
+    const parts: string[] = [];
+    parts.push(
+      `<g class="legend" role="img" aria-label="${this.escapeXml(legend.title?.text ?? 'Legend')}">`
+    );
+    parts.push(
+      `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="white" fill-opacity="0.9" stroke="#333" stroke-width="1" rx="3" ry="3"/>`
+    );
+    if (legend.title) {
+      parts.push(
+        `<text x="${legend.title.x}" y="${legend.title.y}" dominant-baseline="central" font-family="Arial, sans-serif" font-size="${LEGEND_TITLE_FONT_SIZE}" font-weight="bold" fill="#333">${this.escapeXml(legend.title.text)}</text>`
+      );
+    }
+    for (const { entry, swatch, text } of legend.rows) {
+      const color = sanitizeColor(entry.color, '#e74c3c');
+      parts.push(
+        `<circle cx="${swatch.x}" cy="${swatch.y}" r="${LEGEND_SWATCH_RADIUS}" fill="${color}" stroke="white" stroke-width="1"/>`
+      );
+      if (entry.icon) {
+        parts.push(renderIcon(entry.icon, swatch.x, swatch.y, LEGEND_SWATCH_RADIUS * 1.3, baseDir));
+      }
+      parts.push(
+        `<text x="${text.x}" y="${text.y}" dominant-baseline="central" font-family="Arial, sans-serif" font-size="${LEGEND_FONT_SIZE}" fill="#333">${this.escapeXml(entry.label)}</text>`
+      );
+    }
+    parts.push('</g>');
+
+    return parts.join('\n');
+  }
+
   /**
    * Escapes special XML characters in text
    */
@@ -784,19 +1426,38 @@ export class MapEngine {
   /**
    * Creates markers from image-location links
    * @param links - Array of image-location links
+   * @param categories - Categories whose color and icon the markers of their links take
    * @returns Array of map markers
    */
   static createMarkersFromLinks(
-    links: Array<{ imageId: string; location: GeoLocation; label?: string }>
+    links: Array<{ imageId: string; location: GeoLocation; label?: string; category?: string }>,
+    categories: MarkerCategory[] = []
   ): MapMarker[] {
-    return links.map((link) => ({
-      location: link.location,
-      label: link.label,
-      style: {
-        color: '#e74c3c',
-        size: 20,
-        shape: 'pin' as const,
-      },
-    }));
+    return links.map((link) => {
+      const category = categories.find((candidate) => candidate.id === link.category);
+      return {
+        location: link.location,
+        label: link.label,
+        style: {
+          color: category?.color ?? '#e74c3c',
+          size: 20,
+          shape: 'pin' as const,
+          icon: category?.icon,
+        },
+      };
+    });
+  }
+
+  /**
+   * Creates a legend listing categories
+   * @param categories - Categories, in legend order
+   * @param title - Title of the legend
+   * @returns The legend
+   */
+  static createLegendFromCategories(categories: MarkerCategory[], title?: string): MapLegend {
+    return {
+      title,
+      entries: categories.map(({ label, color, icon }) => ({ label, color, icon })),
+    };
   }
 }
@@ -0,0 +1,208 @@
+/**
+ * Minimal GeoJSON (RFC 7946) types and parsing utilities
+ */
+
+import { BoundingBox } from '../types';
+
+/**
+ * A position as [longitude, latitude] (additional elements such as altitude are ignored)
+ */
+export type Position = number[];
+
+/**
+ * GeoJSON geometry objects
+ */
+export type GeoJsonGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] }
+  | { type: 'GeometryCollection'; geometries: GeoJsonGeometry[] };
+
+/**
+ * A GeoJSON feature
+ */
+export interface GeoJsonFeature {
+  type: 'Feature';
+  /** Feature geometry (null for features without a location) */
+  geometry: GeoJsonGeometry | null;
+  /** Arbitrary feature properties */
+  properties: Record<string, unknown> | null;
+  /** Optional feature identifier */
+  id?: string | number;
+}
+
+/**
+ * Error thrown when GeoJSON data cannot be parsed
+ */
+export class GeoJsonError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'GeoJsonError';
+  }
+}
+
+const GEOMETRY_TYPES = new Set([
+  'Point',
+  'MultiPoint',
+  'LineString',
+  'MultiLineString',
+  'Polygon',
+  'MultiPolygon',
+  'GeometryCollection',
+]);
+
+/**
+ * Checks whether a value is a GeoJSON geometry object
+ */
+function isGeometry(value: unknown): value is GeoJsonGeometry {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as { type?: unknown; coordinates?: unknown; geometries?: unknown };
+  if (typeof obj.type !== 'string' || !GEOMETRY_TYPES.has(obj.type)) return false;
+  if (obj.type === 'GeometryCollection') return Array.isArray(obj.geometries);
+  return Array.isArray(obj.coordinates);
+}
+
+/**
+ * Normalizes a parsed GeoJSON object into a flat list of features
+ * @param data - Parsed GeoJSON (FeatureCollection, Feature or bare Geometry)
+ * @returns Array of features
+ * @throws GeoJsonError if the object is not valid GeoJSON
+ */
+export function toFeatures(data: unknown): GeoJsonFeature[] {
+  if (typeof data !== 'object' || data === null) {
+    throw new GeoJsonError('GeoJSON must be an object');
+  }
+
+  const obj = data as { type?: unknown; features?: unknown; geometry?: unknown };
+
+  switch (obj.type) {
+    case 'FeatureCollection': {
+      if (!Array.isArray(obj.features)) {
+        throw new GeoJsonError('FeatureCollection must have a features array');
+      }
+      return (obj.features as unknown[]).flatMap((feature) => toFeatures(feature));
+    }
+    case 'Feature': {
+      const feature = obj as Partial<GeoJsonFeature>;
+      if (feature.geometry !== null && !isGeometry(feature.geometry)) {
+        throw new GeoJsonError('Feature has an invalid geometry');
+      }
+      return [
+        {
+          type: 'Feature',
+          geometry: feature.geometry ?? null,
+          properties: feature.properties ?? null,
+          ...(feature.id !== undefined ? { id: feature.id } : {}),
+        },
+      ];
+    }
+    default:
+      if (isGeometry(obj)) {
+        return [{ type: 'Feature', geometry: obj, properties: null }];
+      }
+      throw new GeoJsonError(`Unsupported GeoJSON type: ${String(obj.type)}`);
+  }
+}
+
+/**
+ * Parses a GeoJSON document
+ * @param text - GeoJSON text
+ * @returns Array of features contained in the document
+ * @throws GeoJsonError if the text is not valid GeoJSON
+ */
+export function parseGeoJson(text: string): GeoJsonFeature[] {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new GeoJsonError('Failed to parse GeoJSON', error instanceof Error ? error : undefined);
+  }
+
+  return toFeatures(parsed);
+}
+
+/**
+ * Collects every position of a geometry
+ */
+function collectPositions(geometry: GeoJsonGeometry, positions: Position[]): void {
+  switch (geometry.type) {
+    case 'Point':
+      positions.push(geometry.coordinates);
+      break;
+    case 'MultiPoint':
+    case 'LineString':
+      positions.push(...geometry.coordinates);
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      geometry.coordinates.forEach((line) => positions.push(...line));
+      break;
+    case 'MultiPolygon':
+      geometry.coordinates.forEach((polygon) => polygon.forEach((ring) => positions.push(...ring)));
+      break;
+    case 'GeometryCollection':
+      geometry.geometries.forEach((child) => collectPositions(child, positions));
+      break;
+  }
+}
+
+/**
+ * Calculates the bounding box of a geometry
+ * @param geometry - GeoJSON geometry
+ * @returns Bounding box, or null if the geometry has no positions
+ */
+export function geometryBounds(geometry: GeoJsonGeometry): BoundingBox | null {
+  const positions: Position[] = [];
+  collectPositions(geometry, positions);
+
+  if (positions.length === 0) {
+    return null;
+  }
+
+  let north = -Infinity;
+  let south = Infinity;
+  let east = -Infinity;
+  let west = Infinity;
+
+  for (const [lng, lat] of positions) {
+    north = Math.max(north, lat);
+    south = Math.min(south, lat);
+    east = Math.max(east, lng);
+    west = Math.min(west, lng);
+  }
+
+  return { north, south, east, west };
+}
+
+/**
+ * Splits the longitude range of a bounding box at the antimeridian
+ */
+function longitudeIntervals(bounds: BoundingBox): Array<[number, number]> {
+  return bounds.west > bounds.east
+    ? [
+        [bounds.west, 180],
+        [-180, bounds.east],
+      ]
+    : [[bounds.west, bounds.east]];
+}
+
+/**
+ * Checks whether two bounding boxes overlap
+ *
+ * Either box may cross the antimeridian (west greater than east).
+ */
+export function boundsIntersect(a: BoundingBox, b: BoundingBox): boolean {
+  if (a.south > b.north || a.north < b.south) {
+    return false;
+  }
+  return longitudeIntervals(a).some(([aWest, aEast]) =>
+    longitudeIntervals(b).some(([bWest, bEast]) => aWest <= bEast && aEast >= bWest)
+  );
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import {
+  getBuiltinMarkerIcons,
+  loadMarkerIcon,
+  MarkerIconError,
+  renderIcon,
+  renderIconDefs,
+} from './icons';
+
+describe('loadMarkerIcon', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-icons-'));
+    writeFileSync(
+      join(tempDir, 'boat.svg'),
+      '<svg xmlns="http://www.w3.org/2000/svg" width="32" height="16">' +
+        '<script>alert(1)</script><path d="M0 8h32l-4 8H4z"/></svg>'
+    );
+    writeFileSync(join(tempDir, 'note.xml'), '<note>not an icon</note>');
+    writeFileSync(
+      join(tempDir, 'comma.svg'),
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0,0, 10,20"><path d="M0 0h10v20z"/></svg>'
+    );
+    writeFileSync(
+      join(tempDir, 'quoted.svg'),
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1&quot; onload=&quot;x"/>'
+    );
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should provide the built-in icons on a 24 by 24 grid', () => {
+    expect(getBuiltinMarkerIcons()).toContain('restaurant');
+    for (const name of getBuiltinMarkerIcons()) {
+      const icon = loadMarkerIcon(name);
+      expect(icon.viewBox).toBe('0 0 24 24');
+      expect(icon.content).toMatch(/^<path d="M[^"]+"\/>$/);
+    }
+  });
+
+  it('should load SVG files relative to the base directory, leaving out scripts', () => {
+    const icon = loadMarkerIcon('boat.svg', tempDir);
+
+    expect(icon.viewBox).toBe('0 0 32 16');
+    expect(icon.content).toBe('<path d="M0 8h32l-4 8H4z"/>');
+  });
+
+  it('should throw MarkerIconError for missing files and other documents', () => {
+    expect(() => loadMarkerIcon('missing.svg', tempDir)).toThrow(MarkerIconError);
+    expect(() => loadMarkerIcon(join(tempDir, 'note.xml'))).toThrow(
+      /Marker icon .*note\.xml is not an SVG document/
+    );
+  });
+
+  it('should only accept a viewBox of four numbers', () => {
+    expect(loadMarkerIcon('comma.svg', tempDir).viewBox).toBe('0 0 10 20');
+    expect(() => loadMarkerIcon('quoted.svg', tempDir)).toThrow(
+      'Marker icon quoted.svg has an invalid viewBox'
+    );
+  });
+});
+
+describe('renderIconDefs', () => {
+  it('should define each icon in use once', () => {
+    const defs = renderIconDefs(['cafe', 'star', 'cafe']);
+
+    expect(defs.match(/<symbol /g)).toHaveLength(2);
+    expect(defs).toContain('<symbol id="marker-icon-cafe" viewBox="0 0 24 24">');
+    expect(renderIconDefs([])).toBe('');
+  });
+
+  it('should give each icon file a symbol of its own, shared by its paths', () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'picmap-icons-'));
+    try {
+      for (const name of ['a.b.svg', 'a-b.svg', 'Foo.svg', 'foo.svg']) {
+        writeFileSync(
+          join(tempDir, name),
+          `<svg xmlns="http://www.w3.org/2000/svg"><title>${name}</title></svg>`
+        );
+      }
+      const icons = ['a.b.svg', 'a-b.svg', 'Foo.svg', 'foo.svg', join(tempDir, 'foo.svg')];
+      const defs = renderIconDefs(icons, tempDir);
+
+      expect(defs.match(/<symbol /g)).toHaveLength(4);
+      for (const icon of icons) {
+        const id = /xlink:href="#([^"]+)"/.exec(renderIcon(icon, 0, 0, 8, tempDir))![1];
+        expect(defs).toMatch(new RegExp(`<symbol id="${id}"[^>]*><title>${basename(icon)}<`));
+      }
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('renderIcon', () => {
+  it('should center the icon on the point', () => {
+    expect(renderIcon('park', 10, -17, 8)).toBe(
+      '<use class="marker-icon" xlink:href="#marker-icon-park" x="6" y="-21" width="8" height="8" fill="white" aria-hidden="true"/>'
+    );
+  });
+});
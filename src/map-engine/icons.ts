@@ -0,0 +1,191 @@
+/**
+ * Marker icons
+ *
+ * A small set of built-in icons for common kinds of places, and loading of
+ * user-supplied SVG icon files. Icons are added to the map as `<symbol>`
+ * elements and drawn on markers and in the legend with `<use>`.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { isAbsolute, resolve } from 'path';
+import { childElements, localName, parseXml, serializeXml, XmlElement } from '../xml';
+
+/**
+ * Names of the built-in marker icons
+ */
+export type BuiltinMarkerIcon =
+  | 'restaurant'
+  | 'cafe'
+  | 'hotel'
+  | 'shop'
+  | 'museum'
+  | 'park'
+  | 'star'
+  | 'flag';
+
+/**
+ * An icon ready to be added to the map as a symbol
+ */
+export interface MarkerIcon {
+  /** viewBox of the icon */
+  viewBox: string;
+  /** SVG content of the icon */
+  content: string;
+}
+
+/**
+ * Error thrown when a marker icon cannot be loaded
+ */
+export class MarkerIconError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'MarkerIconError';
+  }
+}
+
+/**
+ * Path data of the built-in icons, drawn on a 24 × 24 grid
+ */
+const BUILTIN_ICON_PATHS: Record<BuiltinMarkerIcon, string> = {
+  restaurant:
+    'M6 2h1.5v6h1V2H10v6h1V2h1.5v7a3 3 0 0 1-2.25 2.9V22h-1.5V11.9A3 3 0 0 1 6 9z' +
+    'M17.5 2C15.6 2 14 4.5 14 8v5h2v9h2V2z',
+  cafe: 'M4 8h13v5a5 5 0 0 1-5 5H9a5 5 0 0 1-5-5zM17 9h1.5a2.5 2.5 0 0 1 0 5H17v-2h1.5a.5.5 0 0 0 0-1H17zM3 20h16v2H3z',
+  hotel: 'M2 5h2v9h7V8h8a3 3 0 0 1 3 3v8h-2v-3H4v3H2zM5 10.5a2.5 2.5 0 1 0 5 0a2.5 2.5 0 1 0-5 0z',
+  shop: 'M5 8h14l-1 13H6zM9 8V6a3 3 0 0 1 6 0v2h-2V6a1 1 0 0 0-2 0v2z',
+  museum: 'M12 2l10 5v2H2V7zM4 10h2v8H4zM9 10h2v8H9zM13 10h2v8h-2zM18 10h2v8h-2zM2 19h20v3H2z',
+  park: 'M12 2l6 8h-3l5 7h-7v5h-2v-5H4l5-7H6z',
+  star: 'M12 2l2.9 6.3 6.9.7-5.2 4.6 1.5 6.8L12 16.9l-6.1 3.5 1.5-6.8L2.2 9l6.9-.7z',
+  flag: 'M5 2h2v20H5zM8 3h11l-2 4 2 4H8z',
+};
+
+/**
+ * Elements left out of user-supplied icons
+ */
+const UNSAFE_ICON_ELEMENTS = new Set(['script', 'foreignObject']);
+
+/**
+ * Checks whether an icon name is one of the built-in icons
+ */
+export function isBuiltinMarkerIcon(icon: string): icon is BuiltinMarkerIcon {
+  return Object.prototype.hasOwnProperty.call(BUILTIN_ICON_PATHS, icon);
+}
+
+/**
+ * Names of the built-in icons
+ */
+export function getBuiltinMarkerIcons(): BuiltinMarkerIcon[] {
+  return Object.keys(BUILTIN_ICON_PATHS) as BuiltinMarkerIcon[];
+}
+
+/**
+ * Loads a marker icon
+ * @param icon - Name of a built-in icon, or the path of an SVG file
+ * @param baseDir - Directory used to resolve relative paths (default: current directory)
+ * @returns The icon
+ * @throws MarkerIconError if the file cannot be read, is not an SVG document or has an invalid viewBox
+ */
+export function loadMarkerIcon(icon: string, baseDir?: string): MarkerIcon {
+  if (isBuiltinMarkerIcon(icon)) {
+    return { viewBox: '0 0 24 24', content: `<path d="${BUILTIN_ICON_PATHS[icon]}"/>` };
+  }
+
+  const filePath = resolveIconPath(icon, baseDir);
+  let root: XmlElement;
+  try {
+    root = parseXml(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new MarkerIconError(
+      `Cannot load marker icon ${icon}: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+  if (localName(root.name) !== 'svg') {
+    throw new MarkerIconError(`Marker icon ${icon} is not an SVG document`);
+  }
+
+  const width = parseFloat(root.attributes['width'] ?? '') || 24;
+  const height = parseFloat(root.attributes['height'] ?? '') || 24;
+  let viewBox = `0 0 ${width} ${height}`;
+  if (root.attributes['viewBox'] !== undefined) {
+    const values = root.attributes['viewBox']
+      .trim()
+      .split(/[\s,]+/)
+      .map(Number);
+    if (values.length !== 4 || !values.every(Number.isFinite) || values[2] <= 0 || values[3] <= 0) {
+      throw new MarkerIconError(`Marker icon ${icon} has an invalid viewBox`);
+    }
+    viewBox = values.join(' ');
+  }
+  const content = childElements(root)
+    .filter((child) => !UNSAFE_ICON_ELEMENTS.has(localName(child.name)))
+    .map((child) => serializeXml(child))
+    .join('');
+
+  return { viewBox, content };
+}
+
+/**
+ * Resolves the path of an icon file against a base directory
+ */
+function resolveIconPath(icon: string, baseDir?: string): string {
+  return isAbsolute(icon) ? icon : resolve(baseDir ?? process.cwd(), icon);
+}
+
+/**
+ * Builds the id of the symbol of an icon: built-in icons by name, icon files
+ * by a hash of their resolved path
+ */
+function iconSymbolId(icon: string, baseDir?: string): string {
+  if (isBuiltinMarkerIcon(icon)) {
+    return `marker-icon-${icon}`;
+  }
+  const hash = createHash('sha1').update(resolveIconPath(icon, baseDir)).digest('hex');
+  return `marker-icon-file-${hash.slice(0, 12)}`;
+}
+
+/**
+ * Renders the symbols of a set of icons, each loaded once
+ * @param icons - Names or paths of the icons
+ * @param baseDir - Directory used to resolve relative paths
+ * @returns A `<defs>` element, or an empty string when there are no icons
+ * @throws MarkerIconError if an icon cannot be loaded
+ */
+export function renderIconDefs(icons: string[], baseDir?: string): string {
+  const symbols = new Map<string, string>();
+  for (const icon of icons) {
+    const id = iconSymbolId(icon, baseDir);
+    if (!symbols.has(id)) {
+      const { viewBox, content } = loadMarkerIcon(icon, baseDir);
+      symbols.set(id, `<symbol id="${id}" viewBox="${viewBox}">${content}</symbol>`);
+    }
+  }
+  return symbols.size > 0 ? `<defs>\n${Array.from(symbols.values()).join('\n')}\n</defs>` : '';
+}
+
+/**
+ * Renders an icon, in white, centered on a point
+ * @param icon - Name or path of the icon, whose symbol is in `renderIconDefs`
+ * @param x - Horizontal center
+ * @param y - Vertical center
+ * @param size - Width and height of the icon
+ * @param baseDir - Directory used to resolve relative paths, as for `renderIconDefs`
+ * @returns SVG `<use>` element
+ */
+export function renderIcon(
+  icon: string,
+  x: number,
+  y: number,
+  size: number,
+  baseDir?: string
+): string {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return (
+    `<use class="marker-icon" xlink:href="#${iconSymbolId(icon, baseDir)}" x="${round(x - size / 2)}" ` +
+    `y="${round(y - size / 2)}" width="${round(size)}" height="${round(size)}" fill="white" aria-hidden="true"/>`
+  );
+}
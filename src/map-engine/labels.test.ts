@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { boxesOverlap, LabelBox, LabelRequest, placeLabels } from './labels';
+
+describe('placeLabels', () => {
+  const target: LabelBox = { x: 90, y: 76, width: 20, height: 24 };
+  const request: LabelRequest = { target, width: 30, height: 16 };
+
+  it('should place labels above their symbol when there is room', () => {
+    const [placed] = placeLabels([request], [target]);
+
+    expect(placed).toEqual({
+      box: { x: 85, y: 58, width: 30, height: 16 },
+      leader: undefined,
+      overlaps: false,
+    });
+  });
+
+  it('should move labels to the next free side of their symbol', () => {
+    const [first, second] = placeLabels([request, request], [target]);
+
+    // The first label takes the place above, the second goes to the right
+    expect(first.box.y).toBe(58);
+    expect(second.box).toEqual({ x: 112, y: 80, width: 30, height: 16 });
+    expect(boxesOverlap(first.box, second.box)).toBe(false);
+  });
+
+  it('should keep labels clear of obstacles and inside the bounds', () => {
+    const scaleBar: LabelBox = { x: 100, y: 40, width: 100, height: 50 };
+    const [placed] = placeLabels([request], [target, scaleBar], {
+      x: 60,
+      y: 0,
+      width: 200,
+      height: 200,
+    });
+
+    // Above and to the right are taken, left leaves the bounds: below is free
+    expect(placed.box).toEqual({ x: 85, y: 102, width: 30, height: 16 });
+  });
+
+  it('should fall back to a leader line when no side is free', () => {
+    const crowd: LabelBox = { x: 50, y: 40, width: 100, height: 96 };
+    const [placed] = placeLabels([request], [target, crowd]);
+
+    expect(placed.overlaps).toBe(false);
+    expect(placed.box.y + placed.box.height).toBeLessThanOrEqual(40);
+    expect(boxesOverlap(placed.box, crowd)).toBe(false);
+    // From the top of the symbol to the bottom of the label
+    expect(placed.leader).toEqual({ start: { x: 100, y: 76 }, end: { x: 100, y: 26 } });
+  });
+
+  it('should mark labels that cannot be placed anywhere', () => {
+    const everything: LabelBox = { x: -1000, y: -1000, width: 2000, height: 2000 };
+    const [placed] = placeLabels([request], [everything]);
+
+    expect(placed.overlaps).toBe(true);
+    expect(placed.box).toEqual({ x: 85, y: 58, width: 30, height: 16 });
+  });
+});
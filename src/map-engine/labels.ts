@@ -0,0 +1,186 @@
+/**
+ * Label placement
+ *
+ * Places the labels of map symbols so that they do not collide with each
+ * other, with other symbols or with map furniture such as the scale bar.
+ * Each label tries candidate positions around its symbol in turn; when none
+ * is free, it is moved further out and tied back to its symbol by a leader
+ * line.
+ */
+
+import { PixelCoordinate } from '../types';
+
+/**
+ * An axis-aligned box, in pixels
+ */
+export interface LabelBox {
+  /** Left edge */
+  x: number;
+  /** Top edge */
+  y: number;
+  /** Width */
+  width: number;
+  /** Height */
+  height: number;
+}
+
+/**
+ * A label to place
+ */
+export interface LabelRequest {
+  /** Box of the symbol the label belongs to */
+  target: LabelBox;
+  /** Label width */
+  width: number;
+  /** Label height */
+  height: number;
+}
+
+/**
+ * Where a label is placed
+ */
+export interface PlacedLabel {
+  /** Box of the label */
+  box: LabelBox;
+  /** Leader line from the symbol to a label placed away from it */
+  leader?: { start: PixelCoordinate; end: PixelCoordinate };
+  /** Whether the label still collides, because no candidate position was free */
+  overlaps: boolean;
+}
+
+/**
+ * Space between a label and its symbol, in pixels
+ */
+const LABEL_GAP = 2;
+
+/**
+ * Distance between the rings of candidate positions for labels with leader lines, in pixels
+ */
+const LEADER_STEP = 16;
+
+/**
+ * Number of rings of candidate positions for labels with leader lines
+ */
+const LEADER_RINGS = 4;
+
+/**
+ * Candidate directions from the symbol, in order of preference: above, right,
+ * left, below, then the corners
+ */
+const CANDIDATE_DIRECTIONS: Array<[number, number]> = [
+  [0, -1],
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [1, -1],
+  [-1, -1],
+  [1, 1],
+  [-1, 1],
+];
+
+/**
+ * Checks whether two boxes overlap
+ */
+export function boxesOverlap(a: LabelBox, b: LabelBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Places a label box next to its symbol box
+ * @param direction - Horizontal and vertical side of the symbol (-1, 0 or 1)
+ * @param distance - Space between the symbol and the label
+ */
+function candidateBox(
+  request: LabelRequest,
+  [dx, dy]: [number, number],
+  distance: number
+): LabelBox {
+  const { target, width, height } = request;
+  const x =
+    dx === 0
+      ? target.x + (target.width - width) / 2
+      : dx > 0
+        ? target.x + target.width + distance
+        : target.x - distance - width;
+  const y =
+    dy === 0
+      ? target.y + (target.height - height) / 2
+      : dy > 0
+        ? target.y + target.height + distance
+        : target.y - distance - height;
+  return { x, y, width, height };
+}
+
+/**
+ * Finds the point of a box closest to a point
+ */
+function closestPoint(box: LabelBox, point: PixelCoordinate): PixelCoordinate {
+  return {
+    x: Math.min(Math.max(point.x, box.x), box.x + box.width),
+    y: Math.min(Math.max(point.y, box.y), box.y + box.height),
+  };
+}
+
+/**
+ * Calculates a leader line between the facing sides of a symbol and its label
+ */
+function leaderLine(
+  target: LabelBox,
+  box: LabelBox
+): { start: PixelCoordinate; end: PixelCoordinate } {
+  const labelCenter = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  const targetCenter = { x: target.x + target.width / 2, y: target.y + target.height / 2 };
+  return { start: closestPoint(target, labelCenter), end: closestPoint(box, targetCenter) };
+}
+
+/**
+ * Places labels so that they avoid each other and the obstacles
+ *
+ * Labels are placed in order. Each takes the first free candidate position
+ * next to its symbol; failing that, the first free position further out,
+ * with a leader line. A label with no free position at all is placed above
+ * its symbol and marked as overlapping.
+ * @param requests - Labels to place
+ * @param obstacles - Boxes the labels must keep clear of, such as symbols and the scale bar
+ * @param bounds - Box the labels must stay inside (default: unbounded)
+ * @returns Placed labels, in request order
+ */
+export function placeLabels(
+  requests: LabelRequest[],
+  obstacles: LabelBox[],
+  bounds?: LabelBox
+): PlacedLabel[] {
+  const occupied = obstacles.slice();
+  const isFree = (box: LabelBox) =>
+    (!bounds ||
+      (box.x >= bounds.x &&
+        box.y >= bounds.y &&
+        box.x + box.width <= bounds.x + bounds.width &&
+        box.y + box.height <= bounds.y + bounds.height)) &&
+    !occupied.some((other) => boxesOverlap(box, other));
+
+  return requests.map((request) => {
+    let placed: PlacedLabel | undefined;
+
+    for (let ring = 0; ring <= LEADER_RINGS && !placed; ring++) {
+      for (const direction of CANDIDATE_DIRECTIONS) {
+        const box = candidateBox(request, direction, LABEL_GAP + ring * LEADER_STEP);
+        if (isFree(box)) {
+          placed = {
+            box,
+            leader: ring > 0 ? leaderLine(request.target, box) : undefined,
+            overlaps: false,
+          };
+          break;
+        }
+      }
+    }
+
+    placed ??= {
+      box: candidateBox(request, CANDIDATE_DIRECTIONS[0], LABEL_GAP),
+      overlaps: true,
+    };
+    occupied.push(placed.box);
+    return placed;
+  });
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { layoutLegend, MapLegend } from './legend';
+import { MapEngine } from './engine';
+import { validatePicMapConfig } from '../validators';
+import type { MapStyle, PicMapConfig } from '../types';
+
+describe('layoutLegend', () => {
+  const legend: MapLegend = {
+    title: 'Places',
+    entries: [
+      { label: 'Restaurants', color: '#c0392b', icon: 'restaurant' },
+      { label: 'Museums', color: '#2980b9' },
+    ],
+  };
+
+  it('should size the box to the title and entries', () => {
+    const { box, title, rows } = layoutLegend(legend, [], 800, 600);
+
+    // Two entries and a title of 22 px each, inside 8 px of padding
+    expect(box).toEqual({ x: 10, y: 10, width: 122, height: 82 });
+    expect(title).toEqual({ x: 18, y: 29, text: 'Places' });
+    expect(rows[1].swatch).toEqual({ x: 27, y: 73 });
+    expect(rows[1].text).toEqual({ x: 44, y: 73 });
+  });
+
+  it('should move to the corner it covers the fewest obstacles in', () => {
+    const markers = [
+      { x: 20, y: 20, width: 14, height: 24 },
+      { x: 700, y: 30, width: 14, height: 24 },
+      { x: 40, y: 550, width: 14, height: 24 },
+    ];
+
+    expect(layoutLegend(legend, markers, 800, 600).box).toEqual({
+      x: 668,
+      y: 508,
+      width: 122,
+      height: 82,
+    });
+  });
+});
+
+describe('MapEngine legend', () => {
+  const style = {
+    provider: 'openstreetmap',
+    zoom: 12,
+    center: { latitude: 51.5074, longitude: -0.1278 },
+  } satisfies MapStyle;
+
+  it('should draw categorised markers with their icons and a legend of the categories', () => {
+    const categories = [
+      { id: 'food', label: 'Food & drink', color: '#c0392b', icon: 'cafe' },
+      { id: 'art', label: 'Museums', color: '#2980b9', icon: 'museum' },
+    ];
+    const markers = MapEngine.createMarkersFromLinks(
+      [
+        { imageId: '0', location: { latitude: 51.5074, longitude: -0.1278 }, category: 'food' },
+        { imageId: '1', location: { latitude: 51.5194, longitude: -0.127 }, category: 'art' },
+        { imageId: '2', location: { latitude: 51.5, longitude: -0.12 } },
+      ],
+      categories
+    );
+    const { svg } = new MapEngine().renderMap({
+      style,
+      width: 800,
+      height: 600,
+      markers,
+      legend: MapEngine.createLegendFromCategories(categories, 'Key'),
+    });
+
+    expect(markers.map((marker) => marker.style?.color)).toEqual(['#c0392b', '#2980b9', '#e74c3c']);
+    expect(svg.match(/<symbol /g)).toHaveLength(2);
+    expect(svg).toContain('xlink:href="#marker-icon-museum" x="-4" y="-21"');
+    expect(svg).toContain('<g class="legend" role="img" aria-label="Key">');
+    expect(svg).toContain('>Food &amp; drink</text>');
+    // Icons are drawn on the legend swatches as well as on the markers
+    expect(svg.match(/#marker-icon-cafe/g)).toHaveLength(2);
+  });
+
+  it('should leave out the legend without entries', () => {
+    const { svg } = new MapEngine().renderMap({
+      style,
+      width: 800,
+      height: 600,
+      legend: { entries: [] },
+    });
+
+    expect(svg).not.toContain('class="legend"');
+    expect(svg).not.toContain('<symbol');
+  });
+});
+
+describe('validatePicMapConfig categories', () => {
+  const config = {
+    title: 'Categories',
+    layout: {
+      pageSize: 'A4',
+      orientation: 'portrait',
+      borderWidth: 40,
+      pictureSpacing: 5,
+      margin: { top: 10, right: 10, bottom: 10, left: 10 },
+    },
+    map: { provider: 'openstreetmap', zoom: 12, center: { latitude: 51.5, longitude: -0.12 } },
+    images: [{ filePath: 'a.jpg' }],
+    links: [{ imageId: '0', location: { latitude: 51.5, longitude: -0.12 }, category: 'food' }],
+  } satisfies Partial<PicMapConfig>;
+
+  it('should accept categories that links refer to', () => {
+    const result = validatePicMapConfig({
+      ...config,
+      categories: [{ id: 'food', label: 'Food', color: '#c0392b', icon: 'restaurant' }],
+      legend: { title: 'Key' },
+    });
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should reject bad and duplicate categories and unknown references', () => {
+    const result = validatePicMapConfig({
+      ...config,
+      categories: [
+        { id: 'art', label: 'Art', color: '#2980b9' },
+        { id: 'art', label: 'More art', color: '#2980b9' },
+        { id: '', label: 3, color: '#000000', icon: '' },
+      ],
+      legend: { show: 'yes' },
+    });
+
+    expect(result.errors).toEqual([
+      'categories[1].id duplicates category art',
+      'categories[2].id must be a non-empty string',
+      'categories[2].label must be a string',
+      'categories[2].icon must be a non-empty string',
+      'legend.show must be a boolean',
+      'links[0].category references unknown category: food',
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Map legend layout
+ *
+ * Sizes the legend box from its entries and places it in the corner of the
+ * map where it covers the fewest markers and overlays.
+ */
+
+import { LabelBox } from './labels';
+
+/**
+ * An entry of the legend
+ */
+export interface MapLegendEntry {
+  /** Text of the entry */
+  label: string;
+  /** Color of the entry swatch */
+  color: string;
+  /** Icon drawn on the swatch: a built-in icon name or the path of an SVG file */
+  icon?: string;
+}
+
+/**
+ * Legend drawn on the map
+ */
+export interface MapLegend {
+  /** Title shown above the entries */
+  title?: string;
+  /** Entries, from top to bottom */
+  entries: MapLegendEntry[];
+}
+
+/**
+ * Position of a legend entry
+ */
+export interface LegendRow {
+  /** The entry */
+  entry: MapLegendEntry;
+  /** Center of the swatch */
+  swatch: { x: number; y: number };
+  /** Start of the text, at its vertical middle */
+  text: { x: number; y: number };
+}
+
+/**
+ * Legend placed on the map
+ */
+export interface LegendLayout {
+  /** Box of the legend */
+  box: LabelBox;
+  /** Start of the title, at its vertical middle */
+  title?: { x: number; y: number; text: string };
+  /** Entries, from top to bottom */
+  rows: LegendRow[];
+}
+
+/**
+ * Distance between the legend and the map edges
+ */
+const LEGEND_MARGIN = 10;
+
+/**
+ * Space between the legend border and its content
+ */
+const LEGEND_PADDING = 8;
+
+/**
+ * Height of one entry
+ */
+const LEGEND_ROW_HEIGHT = 22;
+
+/**
+ * Radius of an entry swatch
+ */
+export const LEGEND_SWATCH_RADIUS = 9;
+
+/**
+ * Font size of the title
+ */
+export const LEGEND_TITLE_FONT_SIZE = 13;
+
+/**
+ * Font size of the entries
+ */
+export const LEGEND_FONT_SIZE = 12;
+
+/**
+ * Average character width, relative to the font size
+ */
+const LEGEND_CHAR_WIDTH = 0.6;
+
+/**
+ * Calculates the area two boxes share
+ */
+function overlapArea(a: LabelBox, b: LabelBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Lays out a legend in a free corner of the map
+ *
+ * The corners are tried top-left, top-right, bottom-left then bottom-right,
+ * and the legend goes in the one it overlaps the obstacles least in.
+ * @param legend - The legend
+ * @param obstacles - Boxes of markers and overlays, in map pixels
+ * @param width - Map width in pixels
+ * @param height - Map height in pixels
+ * @returns Positions of the legend box and its content
+ */
+export function layoutLegend(
+  legend: MapLegend,
+  obstacles: LabelBox[],
+  width: number,
+  height: number
+): LegendLayout {
+  const titleHeight = legend.title ? LEGEND_ROW_HEIGHT : 0;
+  const textWidth = Math.max(
+    legend.title ? legend.title.length * LEGEND_TITLE_FONT_SIZE * LEGEND_CHAR_WIDTH : 0,
+    ...legend.entries.map(
+      (entry) =>
+        2 * LEGEND_SWATCH_RADIUS +
+        LEGEND_PADDING +
+        entry.label.length * LEGEND_FONT_SIZE * LEGEND_CHAR_WIDTH
+    )
+  );
+  const boxWidth = Math.ceil(textWidth + 2 * LEGEND_PADDING);
+  const boxHeight = titleHeight + legend.entries.length * LEGEND_ROW_HEIGHT + 2 * LEGEND_PADDING;
+
+  const left = LEGEND_MARGIN;
+  const right = width - LEGEND_MARGIN - boxWidth;
+  const top = LEGEND_MARGIN;
+  const bottom = height - LEGEND_MARGIN - boxHeight;
+  const corners: LabelBox[] = [
+    { x: left, y: top, width: boxWidth, height: boxHeight },
+    { x: right, y: top, width: boxWidth, height: boxHeight },
+    { x: left, y: bottom, width: boxWidth, height: boxHeight },
+    { x: right, y: bottom, width: boxWidth, height: boxHeight },
+  ];
+
+  let box = corners[0];
+  let bestOverlap = Infinity;
+  for (const corner of corners) {
+    const overlap = obstacles.reduce((sum, obstacle) => sum + overlapArea(corner, obstacle), 0);
+    if (overlap < bestOverlap) {
+      box = corner;
+      bestOverlap = overlap;
+    }
+  }
+
+  const contentX = box.x + LEGEND_PADDING;
+  const firstRowY = box.y + LEGEND_PADDING + titleHeight;
+  return {
+    box,
+    title: legend.title
+      ? { x: contentX, y: box.y + LEGEND_PADDING + LEGEND_ROW_HEIGHT / 2, text: legend.title }
+      : undefined,
+    rows: legend.entries.map((entry, i) => {
+      const middle = firstRowY + i * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2;
+      return {
+        entry,
+        swatch: { x: contentX + LEGEND_SWATCH_RADIUS, y: middle },
+        text: { x: contentX + 2 * LEGEND_SWATCH_RADIUS + LEGEND_PADDING, y: middle },
+      };
+    }),
+  };
+}
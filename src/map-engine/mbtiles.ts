@@ -0,0 +1,171 @@
+/**
+ * Read-only access to MBTiles (SQLite) tile archives
+ *
+ * Uses the SQLite driver built into Node.js (`node:sqlite`), which is
+ * available from Node.js 22.5 onwards.
+ */
+
+import { gunzipSync } from 'zlib';
+
+/**
+ * Metadata of an MBTiles archive (values from the `metadata` table)
+ */
+export interface MBTilesMetadata {
+  /** Human-readable name of the tileset */
+  name?: string;
+  /** Tile format: 'pbf' for vector tiles, 'png'/'jpg'/'webp' for raster tiles */
+  format?: string;
+  /** Lowest zoom level available */
+  minzoom?: number;
+  /** Highest zoom level available */
+  maxzoom?: number;
+  /** Attribution text for the tileset */
+  attribution?: string;
+  /** All raw metadata entries */
+  entries: Record<string, string>;
+}
+
+/**
+ * Error thrown when an MBTiles archive cannot be read
+ */
+export class MBTilesError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'MBTilesError';
+  }
+}
+
+type SqliteModule = typeof import('node:sqlite');
+type Database = InstanceType<SqliteModule['DatabaseSync']>;
+
+/**
+ * Checks whether the running Node.js version provides `node:sqlite`
+ * @returns true if MBTiles archives can be opened
+ */
+export function isMBTilesSupported(): boolean {
+  return loadSqlite() !== undefined;
+}
+
+/**
+ * Loads the built-in SQLite module, if the runtime has one
+ */
+function loadSqlite(): SqliteModule | undefined {
+  try {
+    return process.getBuiltinModule('node:sqlite') as SqliteModule | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reader for tiles stored in an MBTiles archive
+ */
+export class MBTilesReader {
+  private readonly db: Database;
+  private metadata: MBTilesMetadata | null = null;
+
+  /**
+   * Opens an MBTiles archive for reading
+   * @param filePath - Path to the .mbtiles file
+   * @throws MBTilesError if SQLite is unavailable or the file cannot be opened
+   */
+  constructor(public readonly filePath: string) {
+    const sqlite = loadSqlite();
+    if (!sqlite) {
+      throw new MBTilesError(
+        `Reading MBTiles requires Node.js 22.5 or later (node:sqlite is unavailable in ${process.version})`
+      );
+    }
+
+    try {
+      this.db = new sqlite.DatabaseSync(filePath, { readOnly: true });
+    } catch (error) {
+      throw new MBTilesError(
+        `Failed to open MBTiles file: ${filePath}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Reads the archive metadata
+   * @returns Parsed metadata
+   */
+  getMetadata(): MBTilesMetadata {
+    if (this.metadata) {
+      return this.metadata;
+    }
+
+    const entries: Record<string, string> = {};
+    try {
+      const rows = this.db.prepare('SELECT name, value FROM metadata').all();
+      for (const row of rows) {
+        entries[String(row.name)] = String(row.value);
+      }
+    } catch (error) {
+      throw new MBTilesError(
+        `Failed to read MBTiles metadata: ${this.filePath}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const toNumber = (value: string | undefined) =>
+      value !== undefined && !isNaN(Number(value)) ? Number(value) : undefined;
+
+    this.metadata = {
+      name: entries.name,
+      format: entries.format,
+      minzoom: toNumber(entries.minzoom),
+      maxzoom: toNumber(entries.maxzoom),
+      attribution: entries.attribution,
+      entries,
+    };
+    return this.metadata;
+  }
+
+  /**
+   * Reads a single tile
+   * @param z - Zoom level
+   * @param x - Tile column
+   * @param y - Tile row in the XYZ scheme (origin at the top-left)
+   * @returns Tile bytes (gzip-decompressed), or null if the tile is missing
+   */
+  getTile(z: number, x: number, y: number): Buffer | null {
+    // MBTiles stores rows in the TMS scheme, with the origin at the bottom-left
+    const tmsRow = Math.pow(2, z) - 1 - y;
+
+    let row: Record<string, unknown> | undefined;
+    try {
+      row = this.db
+        .prepare(
+          'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?'
+        )
+        .get(z, x, tmsRow);
+    } catch (error) {
+      throw new MBTilesError(
+        `Failed to read tile ${z}/${x}/${y} from ${this.filePath}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (!row || !(row.tile_data instanceof Uint8Array)) {
+      return null;
+    }
+
+    const data = Buffer.from(row.tile_data);
+    // Vector tiles are usually stored gzip-compressed
+    return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b ? gunzipSync(data) : data;
+  }
+
+  /**
+   * Closes the archive
+   */
+  close(): void {
+    if (this.db.isOpen) {
+      this.db.close();
+    }
+  }
+}
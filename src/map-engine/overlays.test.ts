@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { lineEndpoints, loadMapOverlay, OverlayError, parseGpx, parseKml } from './overlays';
+import { simplifyLine } from './simplify';
+import { MapEngine } from './engine';
+import { validateMapStyle } from '../validators';
+import type { MapStyle } from '../types';
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <name>Morning walk</name>
+    <trkseg>
+      <trkpt lat="51.5007" lon="-0.1246"><ele>5</ele></trkpt>
+      <trkpt lat="51.5033" lon="-0.1196"/>
+    </trkseg>
+    <trkseg>
+      <trkpt lat="51.5055" lon="-0.0754"/>
+      <trkpt lat="51.5081" lon="-0.0759"/>
+    </trkseg>
+  </trk>
+  <rte>
+    <rtept lat="51.5" lon="-0.12"/>
+    <rtept lat="51.51" lon="-0.13"/>
+  </rte>
+</gpx>`;
+
+const KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <Placemark>
+      <name>Park</name>
+      <Polygon>
+        <outerBoundaryIs><LinearRing><coordinates>
+          -0.17,51.50,0 -0.15,51.50,0 -0.15,51.51,0 -0.17,51.51,0 -0.17,51.50,0
+        </coordinates></LinearRing></outerBoundaryIs>
+      </Polygon>
+    </Placemark>
+    <Placemark>
+      <gx:Track>
+        <gx:coord>-0.12 51.50 10</gx:coord>
+        <gx:coord>-0.11 51.50 12</gx:coord>
+      </gx:Track>
+    </Placemark>
+  </Document>
+</kml>`;
+
+describe('parseGpx', () => {
+  it('should read tracks with their segments and routes', () => {
+    const features = parseGpx(GPX);
+
+    expect(features).toHaveLength(2);
+    expect(features[0].properties).toEqual({ name: 'Morning walk' });
+    expect(features[0].geometry).toEqual({
+      type: 'MultiLineString',
+      coordinates: [
+        [
+          [-0.1246, 51.5007],
+          [-0.1196, 51.5033],
+        ],
+        [
+          [-0.0754, 51.5055],
+          [-0.0759, 51.5081],
+        ],
+      ],
+    });
+    expect(features[1].geometry?.type).toBe('LineString');
+  });
+
+  it('should reject other documents and points without coordinates', () => {
+    expect(() => parseGpx('<kml/>')).toThrow(OverlayError);
+    expect(() => parseGpx('<gpx><rte><rtept lat="1"/><rtept/></rte></gpx>')).toThrow(
+      'GPX rtept has no valid lat and lon attributes'
+    );
+  });
+});
+
+describe('parseKml', () => {
+  it('should read polygons and tracks of placemarks', () => {
+    const features = parseKml(KML);
+
+    expect(features.map((feature) => feature.geometry?.type)).toEqual(['Polygon', 'LineString']);
+    expect(features[0].properties).toEqual({ name: 'Park' });
+    expect(features[1].geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [-0.12, 51.5],
+        [-0.11, 51.5],
+      ],
+    });
+  });
+});
+
+describe('lineEndpoints', () => {
+  it('should find the start of the first line and the end of the last', () => {
+    const [track] = parseGpx(GPX);
+
+    expect(lineEndpoints(track.geometry!)).toEqual({
+      start: [-0.1246, 51.5007],
+      end: [-0.0759, 51.5081],
+    });
+    expect(lineEndpoints({ type: 'Point', coordinates: [0, 0] })).toBeNull();
+  });
+});
+
+describe('simplifyLine', () => {
+  it('should drop points within the tolerance of the simplified line', () => {
+    const line = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0.5 },
+      { x: 20, y: -0.5 },
+      { x: 30, y: 8 },
+      { x: 40, y: 0 },
+    ];
+
+    expect(simplifyLine(line, 1)).toEqual([
+      { x: 0, y: 0 },
+      { x: 20, y: -0.5 },
+      { x: 30, y: 8 },
+      { x: 40, y: 0 },
+    ]);
+    expect(simplifyLine(line, 10)).toEqual([line[0], line[4]]);
+    expect(simplifyLine(line, 0)).toBe(line);
+  });
+});
+
+describe('loadMapOverlay', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-overlays-'));
+    writeFileSync(join(tempDir, 'walk.gpx'), GPX);
+    writeFileSync(join(tempDir, 'park.kml'), KML);
+    writeFileSync(join(tempDir, 'walk.txt'), GPX);
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read the format given by the file extension or the config', () => {
+    expect(loadMapOverlay({ path: 'walk.gpx', simplify: 2 }, tempDir)).toMatchObject({
+      simplify: 2,
+      features: [{ properties: { name: 'Morning walk' } }, {}],
+    });
+    expect(loadMapOverlay({ path: join(tempDir, 'park.kml') }).features).toHaveLength(2);
+    expect(loadMapOverlay({ path: 'walk.txt', format: 'gpx' }, tempDir).features).toHaveLength(2);
+  });
+
+  it('should throw OverlayError for unknown formats and unreadable files', () => {
+    expect(() => loadMapOverlay({ path: 'walk.txt' }, tempDir)).toThrow(
+      'Cannot tell the format of map overlay walk.txt; set its format'
+    );
+    expect(() => loadMapOverlay({ path: 'missing.gpx' }, tempDir)).toThrow(OverlayError);
+    expect(() => loadMapOverlay({ path: 'park.kml', format: 'gpx' }, tempDir)).toThrow(
+      'Failed to read map overlay park.kml: Not a GPX document'
+    );
+  });
+});
+
+describe('MapEngine overlays', () => {
+  const style = {
+    provider: 'openstreetmap',
+    zoom: 13,
+    center: { latitude: 51.505, longitude: -0.12 },
+  } satisfies MapStyle;
+
+  it('should draw overlays between the basemap and the markers', () => {
+    const { svg } = new MapEngine().renderMap({
+      style,
+      width: 800,
+      height: 600,
+      markers: [{ location: { latitude: 51.5007, longitude: -0.1246 } }],
+      overlays: [
+        {
+          features: [...parseGpx(GPX), ...parseKml(KML)],
+          style: { color: '#2980b9', width: 4, lineStyle: 'dashed', fillOpacity: 0.3 },
+          startMarker: true,
+          endMarker: true,
+        },
+      ],
+    });
+
+    const overlays = svg.indexOf('<g id="overlays"');
+    expect(overlays).toBeGreaterThan(svg.indexOf('id="major-roads"'));
+    expect(overlays).toBeLessThan(svg.indexOf('<g id="markers">'));
+    expect(svg.match(/class="map-overlay-line"/g)).toHaveLength(3);
+    expect(svg).toMatch(
+      /<path class="map-overlay-area" d="M[^"]+Z" fill="#2980b9" fill-opacity="0.3" stroke="#2980b9" stroke-width="4" stroke-dasharray="16 8"/
+    );
+    // The GPX track, the GPX route and the KML track each start and end
+    expect(svg.match(/class="map-overlay-start"/g)).toHaveLength(3);
+    expect(svg.match(/class="map-overlay-end"/g)).toHaveLength(3);
+  });
+
+  it('should simplify lines at the rendered zoom level', () => {
+    // A track with a small wiggle that is less than a pixel wide at zoom 10
+    const track = {
+      type: 'Feature' as const,
+      properties: null,
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: [
+          [-0.2, 51.5],
+          [-0.1, 51.50001],
+          [0, 51.5],
+        ],
+      },
+    };
+    const render = (simplify?: number) =>
+      new MapEngine().renderMap({
+        style: { ...style, zoom: 10 },
+        width: 800,
+        height: 600,
+        showMapFeatures: false,
+        overlays: [{ features: [track], simplify }],
+      }).svg;
+    const pathData = (svg: string) => svg.match(/class="map-overlay-line" d="([^"]+)"/)![1];
+
+    expect(pathData(render()).split('L')).toHaveLength(2);
+    expect(pathData(render(0)).split('L')).toHaveLength(3);
+  });
+});
+
+describe('validateMapStyle overlays', () => {
+  const style = { provider: 'openstreetmap', zoom: 12, center: { latitude: 51.5, longitude: 0 } };
+
+  it('should accept overlay configurations', () => {
+    const result = validateMapStyle({
+      ...style,
+      overlays: [{ path: 'walk.gpx', simplify: 0, startMarker: true, style: { opacity: 0.5 } }],
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject bad overlay configurations', () => {
+    const result = validateMapStyle({
+      ...style,
+      overlays: [
+        { path: '', format: 'shp', simplify: -1, endMarker: 'yes' },
+        { path: 'a.kml', style: { width: 0, fillOpacity: 2, lineStyle: 'wavy' } },
+      ],
+    });
+
+    expect(result.errors).toEqual([
+      'overlays[0].path must be a non-empty string',
+      'overlays[0].format must be one of: gpx, kml, geojson',
+      'overlays[0].simplify must be a non-negative number',
+      'overlays[0].endMarker must be a boolean',
+      'overlays[1].style.width must be a positive number',
+      'overlays[1].style.fillOpacity must be a number between 0 and 1',
+      'overlays[1].style.lineStyle must be one of: solid, dashed, dotted',
+    ]);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Map overlays
+ *
+ * Reads tracks, routes and areas from GPX, KML and GeoJSON files for drawing
+ * on the map between the basemap and the markers.
+ */
+
+import { readFileSync } from 'fs';
+import { extname, isAbsolute, resolve } from 'path';
+import { MapOverlayConfig, MapOverlayFormat } from '../types';
+import {
+  childElements,
+  descendantElements,
+  localName,
+  parseXml,
+  textContent,
+  XmlElement,
+} from '../xml';
+import { GeoJsonFeature, GeoJsonGeometry, parseGeoJson, Position } from './geojson';
+
+/**
+ * An overlay with its features read, ready to be drawn
+ */
+export interface MapOverlay extends Omit<MapOverlayConfig, 'path' | 'format'> {
+  /** Lines and areas of the overlay (points are not drawn) */
+  features: GeoJsonFeature[];
+}
+
+/**
+ * Error thrown when a map overlay cannot be read
+ */
+export class OverlayError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'OverlayError';
+  }
+}
+
+/**
+ * Overlay formats by file extension
+ */
+const OVERLAY_FORMATS: Record<string, MapOverlayFormat> = {
+  '.gpx': 'gpx',
+  '.kml': 'kml',
+  '.geojson': 'geojson',
+  '.json': 'geojson',
+};
+
+/**
+ * Builds a feature with an optional name
+ */
+function namedFeature(geometry: GeoJsonGeometry, name: string | undefined): GeoJsonFeature {
+  return { type: 'Feature', geometry, properties: name ? { name } : null };
+}
+
+/**
+ * Returns the trimmed text of the first child element with a local name
+ */
+function childText(element: XmlElement, name: string): string | undefined {
+  const child = childElements(element, name)[0];
+  const text = child ? textContent(child).trim() : '';
+  return text || undefined;
+}
+
+/**
+ * Reads the position of a GPX track, route or way point
+ */
+function gpxPosition(point: XmlElement): Position {
+  const longitude = parseFloat(point.attributes['lon']);
+  const latitude = parseFloat(point.attributes['lat']);
+  if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) {
+    throw new OverlayError(`GPX ${localName(point.name)} has no valid lat and lon attributes`);
+  }
+  return [longitude, latitude];
+}
+
+/**
+ * Parses the tracks and routes of a GPX document
+ *
+ * Each track becomes a line feature with one line per track segment, and
+ * each route a line feature of its route points.
+ * @param text - GPX text
+ * @returns Features of the tracks and routes, named after them
+ * @throws OverlayError if the text is not a GPX document
+ */
+export function parseGpx(text: string): GeoJsonFeature[] {
+  const root = parseXml(text);
+  if (localName(root.name) !== 'gpx') {
+    throw new OverlayError('Not a GPX document');
+  }
+
+  const features: GeoJsonFeature[] = [];
+  for (const track of descendantElements(root, 'trk')) {
+    const segments = childElements(track, 'trkseg')
+      .map((segment) => childElements(segment, 'trkpt').map(gpxPosition))
+      .filter((segment) => segment.length >= 2);
+    if (segments.length > 0) {
+      features.push(
+        namedFeature(
+          segments.length === 1
+            ? { type: 'LineString', coordinates: segments[0] }
+            : { type: 'MultiLineString', coordinates: segments },
+          childText(track, 'name')
+        )
+      );
+    }
+  }
+  for (const route of descendantElements(root, 'rte')) {
+    const points = childElements(route, 'rtept').map(gpxPosition);
+    if (points.length >= 2) {
+      features.push(
+        namedFeature({ type: 'LineString', coordinates: points }, childText(route, 'name'))
+      );
+    }
+  }
+  return features;
+}
+
+/**
+ * Reads a KML coordinate list ("lon,lat[,alt]" tuples separated by white space)
+ */
+function kmlCoordinates(element: XmlElement | undefined): Position[] {
+  const coordinates = element ? childText(element, 'coordinates') : undefined;
+  if (!coordinates) {
+    return [];
+  }
+  return coordinates.split(/\s+/).map((tuple) => {
+    const [longitude, latitude] = tuple.split(',').map(Number);
+    if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) {
+      throw new OverlayError(`Invalid KML coordinates: ${tuple}`);
+    }
+    return [longitude, latitude];
+  });
+}
+
+/**
+ * Converts a KML geometry element to a GeoJSON geometry
+ * @returns The geometry, or null for elements that are not (or not drawable) geometries
+ */
+function kmlGeometry(element: XmlElement): GeoJsonGeometry | null {
+  switch (localName(element.name)) {
+    case 'Point': {
+      const [position] = kmlCoordinates(element);
+      return position ? { type: 'Point', coordinates: position } : null;
+    }
+    case 'LineString': {
+      const line = kmlCoordinates(element);
+      return line.length >= 2 ? { type: 'LineString', coordinates: line } : null;
+    }
+    case 'LinearRing': {
+      const ring = kmlCoordinates(element);
+      return ring.length >= 3 ? { type: 'Polygon', coordinates: [ring] } : null;
+    }
+    case 'Polygon': {
+      const rings = [
+        ...childElements(element, 'outerBoundaryIs'),
+        ...childElements(element, 'innerBoundaryIs'),
+      ]
+        .map((boundary) => kmlCoordinates(childElements(boundary, 'LinearRing')[0]))
+        .filter((ring) => ring.length >= 3);
+      return rings.length > 0 ? { type: 'Polygon', coordinates: rings } : null;
+    }
+    case 'Track': {
+      // gx:Track positions are "lon lat alt" triples in gx:coord elements
+      const line = childElements(element, 'coord').map((coord) => {
+        const [longitude, latitude] = textContent(coord).trim().split(/\s+/).map(Number);
+        if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) {
+          throw new OverlayError(`Invalid KML track coordinate: ${textContent(coord).trim()}`);
+        }
+        return [longitude, latitude];
+      });
+      return line.length >= 2 ? { type: 'LineString', coordinates: line } : null;
+    }
+    case 'MultiGeometry': {
+      const geometries = childElements(element)
+        .map(kmlGeometry)
+        .filter((geometry): geometry is GeoJsonGeometry => geometry !== null);
+      return geometries.length > 0 ? { type: 'GeometryCollection', geometries } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses the placemarks of a KML document
+ * @param text - KML text
+ * @returns One feature per placemark with a geometry, named after the placemark
+ * @throws OverlayError if the text is not a KML document
+ */
+export function parseKml(text: string): GeoJsonFeature[] {
+  const root = parseXml(text);
+  if (localName(root.name) !== 'kml') {
+    throw new OverlayError('Not a KML document');
+  }
+
+  const features: GeoJsonFeature[] = [];
+  for (const placemark of descendantElements(root, 'Placemark')) {
+    for (const element of childElements(placemark)) {
+      const geometry = kmlGeometry(element);
+      if (geometry) {
+        features.push(namedFeature(geometry, childText(placemark, 'name')));
+      }
+    }
+  }
+  return features;
+}
+
+/**
+ * Finds where the lines of a geometry start and end
+ * @param geometry - A geometry
+ * @returns The first position of its first line and the last position of its
+ * last line, or null if it has no lines
+ */
+export function lineEndpoints(
+  geometry: GeoJsonGeometry
+): { start: Position; end: Position } | null {
+  const lines: Position[][] = [];
+  const collect = (child: GeoJsonGeometry) => {
+    if (child.type === 'LineString') {
+      lines.push(child.coordinates);
+    } else if (child.type === 'MultiLineString') {
+      lines.push(...child.coordinates);
+    } else if (child.type === 'GeometryCollection') {
+      child.geometries.forEach(collect);
+    }
+  };
+  collect(geometry);
+
+  const drawn = lines.filter((line) => line.length >= 2);
+  if (drawn.length === 0) {
+    return null;
+  }
+  const last = drawn[drawn.length - 1];
+  return { start: drawn[0][0], end: last[last.length - 1] };
+}
+
+/**
+ * Reads the overlay described by a map overlay configuration
+ * @param config - Overlay configuration
+ * @param baseDir - Directory used to resolve relative paths (default: current directory)
+ * @returns The overlay with its features
+ * @throws OverlayError if the file cannot be read, its format is unknown or it cannot be parsed
+ */
+export function loadMapOverlay(config: MapOverlayConfig, baseDir?: string): MapOverlay {
+  const { path, format: configuredFormat, ...options } = config;
+  const filePath = isAbsolute(path) ? path : resolve(baseDir ?? process.cwd(), path);
+  const format = configuredFormat ?? OVERLAY_FORMATS[extname(filePath).toLowerCase()];
+  if (!format) {
+    throw new OverlayError(`Cannot tell the format of map overlay ${path}; set its format`);
+  }
+
+  try {
+    const text = readFileSync(filePath, 'utf-8');
+    const features =
+      format === 'gpx' ? parseGpx(text) : format === 'kml' ? parseKml(text) : parseGeoJson(text);
+    return { ...options, features };
+  } catch (error) {
+    throw new OverlayError(
+      `Failed to read map overlay ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
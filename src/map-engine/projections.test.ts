@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { createProjection, projectionType } from './projections';
+import { validateMapStyle } from '../validators';
+import type { GeoLocation, MapProjectionType } from '../types';
+
+const TYPES: MapProjectionType[] = [
+  'mercator',
+  'equirectangular',
+  'lambert-conformal-conic',
+  'albers',
+  'orthographic',
+];
+
+describe('createProjection', () => {
+  const center: GeoLocation = { latitude: 45, longitude: 10 };
+  const locations: GeoLocation[] = [
+    { latitude: 45, longitude: 10 },
+    { latitude: 60.17, longitude: 24.94 }, // Helsinki
+    { latitude: 38.72, longitude: -9.14 }, // Lisbon
+    { latitude: 30.04, longitude: 31.24 }, // Cairo
+  ];
+
+  it.each(TYPES)('should convert %s coordinates back to the same location', (type) => {
+    const projection = createProjection(type, center);
+
+    expect(projection.type).toBe(type);
+    for (const location of locations) {
+      const result = projection.unproject(projection.project(location));
+      expect(result?.latitude).toBeCloseTo(location.latitude, 9);
+      expect(result?.longitude).toBeCloseTo(location.longitude, 9);
+    }
+  });
+
+  it('should place the origin of the conic and orthographic projections at the center', () => {
+    for (const type of ['lambert-conformal-conic', 'albers', 'orthographic'] as const) {
+      const origin = createProjection(type, center).project(center);
+      expect(origin.x).toBeCloseTo(0, 12);
+      expect(origin.y).toBeCloseTo(0, 12);
+    }
+  });
+
+  it('should map longitude and latitude linearly in the equirectangular projection', () => {
+    const projection = createProjection('equirectangular', center);
+
+    expect(projection.project({ latitude: 45, longitude: 90 })).toEqual({
+      x: Math.PI / 2,
+      y: Math.PI / 4,
+    });
+  });
+
+  it('should keep the scale true along the standard parallels of conformal conics', () => {
+    const projection = createProjection(
+      { type: 'lambert-conformal-conic', standardParallels: [40, 50] },
+      center
+    );
+    // A short step along a standard parallel keeps its length on the sphere
+    for (const latitude of [40, 50]) {
+      const west = projection.project({ latitude, longitude: 9.995 });
+      const east = projection.project({ latitude, longitude: 10.005 });
+      const length = Math.hypot(east.x - west.x, east.y - west.y);
+      const sphereLength = Math.cos((latitude * Math.PI) / 180) * ((0.01 * Math.PI) / 180);
+      expect(length / sphereLength).toBeCloseTo(1, 6);
+    }
+  });
+
+  it('should keep areas in the Albers projection', () => {
+    const projection = createProjection('albers', center);
+    // Area of a 0.01 degree cell, by the shoelace formula
+    const cellArea = (latitude: number) => {
+      const corners = [
+        [latitude, 0],
+        [latitude, 0.01],
+        [latitude + 0.01, 0.01],
+        [latitude + 0.01, 0],
+      ].map(([lat, lng]) => projection.project({ latitude: lat, longitude: lng }));
+      let area = 0;
+      corners.forEach((p, i) => {
+        const q = corners[(i + 1) % corners.length];
+        area += p.x * q.y - q.x * p.y;
+      });
+      return Math.abs(area) / 2;
+    };
+    const sphereArea = (latitude: number) =>
+      ((0.01 * Math.PI) / 180) *
+      (Math.sin(((latitude + 0.01) * Math.PI) / 180) - Math.sin((latitude * Math.PI) / 180));
+
+    expect(cellArea(20) / sphereArea(20)).toBeCloseTo(1, 6);
+    expect(cellArea(70) / sphereArea(70)).toBeCloseTo(1, 6);
+  });
+
+  it('should hide the far side of the globe in the orthographic projection', () => {
+    const projection = createProjection('orthographic', center);
+
+    expect(projection.isVisible({ latitude: 50, longitude: 60 })).toBe(true);
+    expect(projection.isVisible({ latitude: -45, longitude: -170 })).toBe(false);
+    expect(projection.unproject({ x: 0.8, y: 0.8 })).toBeNull();
+  });
+
+  it('should fall back to cylindrical projections for parallels symmetric about the equator', () => {
+    const equator: GeoLocation = { latitude: 0, longitude: 0 };
+    const conformal = createProjection('lambert-conformal-conic', equator);
+    const equalArea = createProjection('albers', equator);
+    const location = { latitude: 30, longitude: 20 };
+
+    expect(conformal.project(location)).toEqual(
+      createProjection('mercator', equator).project(location)
+    );
+    expect(equalArea.project(location).y).toBeCloseTo(0.5, 12);
+  });
+
+  it('should default to Mercator', () => {
+    expect(projectionType(undefined)).toBe('mercator');
+    expect(projectionType({ type: 'albers' })).toBe('albers');
+    expect(createProjection(undefined, center).wraps).toBe(true);
+  });
+});
+
+describe('validateMapStyle projection', () => {
+  const style = {
+    provider: 'openstreetmap',
+    zoom: 4,
+    center: { latitude: 45, longitude: 10 },
+  } as const;
+
+  it('should accept projection types and configurations', () => {
+    expect(validateMapStyle({ ...style, projection: 'orthographic' }).valid).toBe(true);
+    expect(
+      validateMapStyle({
+        ...style,
+        projection: { type: 'albers', standardParallels: [29.5, 45.5] },
+      }).valid
+    ).toBe(true);
+  });
+
+  it('should reject unknown projections, bad parallels and raster tiles', () => {
+    expect(validateMapStyle({ ...style, projection: 'robinson' }).errors).toEqual([
+      'projection.type must be one of: mercator, equirectangular, lambert-conformal-conic, albers, orthographic',
+    ]);
+    expect(
+      validateMapStyle({
+        ...style,
+        projection: { type: 'lambert-conformal-conic', standardParallels: [30, 90] },
+      }).errors
+    ).toEqual([
+      'projection.standardParallels must be two latitudes between -90 and 90 (exclusive)',
+    ]);
+    expect(
+      validateMapStyle({
+        ...style,
+        projection: 'equirectangular',
+        basemap: { type: 'raster-tiles', path: 'tiles' },
+      }).errors
+    ).toEqual(['basemap raster tiles can only be drawn in the mercator projection']);
+  });
+});
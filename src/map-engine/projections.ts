@@ -0,0 +1,307 @@
+/**
+ * Map projections
+ *
+ * Each projection maps geographic coordinates onto a plane, in radians of a
+ * unit sphere (x to the east, y to the north). The coordinate utilities scale
+ * and offset these coordinates into viewport pixels, so that every projection
+ * shares the zoom levels of Web Mercator along the equator.
+ */
+
+import { GeoLocation, MapProjection, MapProjectionType, PixelCoordinate } from '../types';
+
+/**
+ * A map projection, set up for one map center
+ */
+export interface Projection {
+  /** Projection type */
+  readonly type: MapProjectionType;
+  /** Whether the plane repeats every 2π along x, like the world copies of cylindrical maps */
+  readonly wraps: boolean;
+  /**
+   * Projects a location onto the plane
+   * @returns Coordinates in radians of the unit sphere, y pointing north
+   */
+  project(location: GeoLocation): PixelCoordinate;
+  /**
+   * Converts plane coordinates back to a location
+   * @returns The location, or null if the point lies outside the projected world
+   */
+  unproject(point: PixelCoordinate): GeoLocation | null;
+  /** Checks whether a location is drawn (the orthographic projection hides the far side of the globe) */
+  isVisible(location: GeoLocation): boolean;
+}
+
+/**
+ * Distance of the default standard parallels from the map center, in degrees
+ */
+const STANDARD_PARALLEL_OFFSET = 10;
+
+/**
+ * Conic projections with a cone constant this close to zero are cylindrical
+ */
+const CONE_EPSILON = 1e-6;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Wraps an angle in radians into the range -π to π
+ */
+function wrapAngle(angle: number): number {
+  return angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+}
+
+/**
+ * Converts plane angles back to a location, or null outside the poles
+ */
+function toLocation(latitude: number, longitude: number): GeoLocation | null {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return null;
+  }
+  if (Math.abs(latitude) > Math.PI / 2 + 1e-9) {
+    return null;
+  }
+  return { latitude: toDegrees(latitude), longitude: toDegrees(longitude) };
+}
+
+const alwaysVisible = () => true;
+
+/**
+ * Spherical (Web) Mercator
+ */
+function createMercator(): Projection {
+  return {
+    type: 'mercator',
+    wraps: true,
+    project: ({ latitude, longitude }) => ({
+      x: toRadians(longitude),
+      y: Math.log(Math.tan(Math.PI / 4 + toRadians(latitude) / 2)),
+    }),
+    unproject: ({ x, y }) => toLocation(2 * Math.atan(Math.exp(y)) - Math.PI / 2, x),
+    isVisible: alwaysVisible,
+  };
+}
+
+/**
+ * Equirectangular (plate carrée)
+ */
+function createEquirectangular(): Projection {
+  return {
+    type: 'equirectangular',
+    wraps: true,
+    project: ({ latitude, longitude }) => ({ x: toRadians(longitude), y: toRadians(latitude) }),
+    unproject: ({ x, y }) => toLocation(y, x),
+    isVisible: alwaysVisible,
+  };
+}
+
+/**
+ * Lambert conformal conic, with its origin at the map center
+ */
+function createLambertConformalConic(
+  center: GeoLocation,
+  [parallel1, parallel2]: [number, number]
+): Projection {
+  const phi1 = toRadians(parallel1);
+  const phi2 = toRadians(parallel2);
+  const lambda0 = toRadians(center.longitude);
+  const t = (phi: number) => Math.tan(Math.PI / 4 + phi / 2);
+
+  const n =
+    Math.abs(phi1 - phi2) < CONE_EPSILON
+      ? Math.sin(phi1)
+      : Math.log(Math.cos(phi1) / Math.cos(phi2)) / Math.log(t(phi2) / t(phi1));
+  if (Math.abs(n) < CONE_EPSILON) {
+    // Parallels symmetric about the equator: the cone unrolls into Mercator
+    return { ...createMercator(), type: 'lambert-conformal-conic' };
+  }
+
+  const f = (Math.cos(phi1) * Math.pow(t(phi1), n)) / n;
+  const rho = (phi: number) => f / Math.pow(t(phi), n);
+  const rho0 = rho(toRadians(center.latitude));
+
+  return {
+    type: 'lambert-conformal-conic',
+    wraps: false,
+    project: ({ latitude, longitude }) => {
+      const r = rho(toRadians(latitude));
+      const theta = n * wrapAngle(toRadians(longitude) - lambda0);
+      return { x: r * Math.sin(theta), y: rho0 - r * Math.cos(theta) };
+    },
+    unproject: ({ x, y }) => {
+      const sign = Math.sign(n);
+      const r = sign * Math.hypot(x, rho0 - y);
+      const theta = Math.atan2(sign * x, sign * (rho0 - y));
+      const latitude =
+        r === 0 ? (sign * Math.PI) / 2 : 2 * Math.atan(Math.pow(f / r, 1 / n)) - Math.PI / 2;
+      return toLocation(latitude, lambda0 + theta / n);
+    },
+    isVisible: alwaysVisible,
+  };
+}
+
+/**
+ * Albers equal-area conic, with its origin at the map center
+ */
+function createAlbers(center: GeoLocation, [parallel1, parallel2]: [number, number]): Projection {
+  const phi1 = toRadians(parallel1);
+  const phi2 = toRadians(parallel2);
+  const phi0 = toRadians(center.latitude);
+  const lambda0 = toRadians(center.longitude);
+
+  const n = (Math.sin(phi1) + Math.sin(phi2)) / 2;
+  if (Math.abs(n) < CONE_EPSILON) {
+    // Parallels symmetric about the equator: the cone unrolls into the
+    // cylindrical equal-area projection
+    return {
+      type: 'albers',
+      wraps: false,
+      project: ({ latitude, longitude }) => ({
+        x: wrapAngle(toRadians(longitude) - lambda0),
+        y: Math.sin(toRadians(latitude)) - Math.sin(phi0),
+      }),
+      unproject: ({ x, y }) => {
+        const sine = y + Math.sin(phi0);
+        return Math.abs(x) > Math.PI || Math.abs(sine) > 1
+          ? null
+          : toLocation(Math.asin(sine), lambda0 + x);
+      },
+      isVisible: alwaysVisible,
+    };
+  }
+
+  const c = Math.cos(phi1) * Math.cos(phi1) + 2 * n * Math.sin(phi1);
+  const rho = (phi: number) => Math.sqrt(Math.max(0, c - 2 * n * Math.sin(phi))) / n;
+  const rho0 = rho(phi0);
+
+  return {
+    type: 'albers',
+    wraps: false,
+    project: ({ latitude, longitude }) => {
+      const r = rho(toRadians(latitude));
+      const theta = n * wrapAngle(toRadians(longitude) - lambda0);
+      return { x: r * Math.sin(theta), y: rho0 - r * Math.cos(theta) };
+    },
+    unproject: ({ x, y }) => {
+      const sign = Math.sign(n);
+      const r = Math.hypot(x, rho0 - y);
+      const theta = Math.atan2(sign * x, sign * (rho0 - y));
+      const sine = (c - r * r * n * n) / (2 * n);
+      if (Math.abs(sine) > 1 || Math.abs(theta / n) > Math.PI) {
+        return null;
+      }
+      return toLocation(Math.asin(sine), lambda0 + theta / n);
+    },
+    isVisible: alwaysVisible,
+  };
+}
+
+/**
+ * Orthographic projection of the hemisphere facing the map center
+ */
+function createOrthographic(center: GeoLocation): Projection {
+  const phi0 = toRadians(center.latitude);
+  const lambda0 = toRadians(center.longitude);
+  const sinPhi0 = Math.sin(phi0);
+  const cosPhi0 = Math.cos(phi0);
+
+  return {
+    type: 'orthographic',
+    wraps: false,
+    project: ({ latitude, longitude }) => {
+      const phi = toRadians(latitude);
+      const deltaLambda = toRadians(longitude) - lambda0;
+      return {
+        x: Math.cos(phi) * Math.sin(deltaLambda),
+        y: cosPhi0 * Math.sin(phi) - sinPhi0 * Math.cos(phi) * Math.cos(deltaLambda),
+      };
+    },
+    unproject: ({ x, y }) => {
+      const rho = Math.hypot(x, y);
+      if (rho > 1) {
+        return null;
+      }
+      if (rho === 0) {
+        return toLocation(phi0, lambda0);
+      }
+      const c = Math.asin(rho);
+      const latitude = Math.asin(Math.cos(c) * sinPhi0 + (y * Math.sin(c) * cosPhi0) / rho);
+      const longitude =
+        lambda0 +
+        Math.atan2(x * Math.sin(c), rho * Math.cos(c) * cosPhi0 - y * Math.sin(c) * sinPhi0);
+      return toLocation(latitude, wrapAngle(longitude));
+    },
+    isVisible: ({ latitude, longitude }) => {
+      const phi = toRadians(latitude);
+      const cosC =
+        sinPhi0 * Math.sin(phi) +
+        cosPhi0 * Math.cos(phi) * Math.cos(toRadians(longitude) - lambda0);
+      return cosC >= 0;
+    },
+  };
+}
+
+/**
+ * Returns the type of a projection setting
+ * @param projection - Projection type or configuration (default: 'mercator')
+ */
+export function projectionType(projection?: MapProjection): MapProjectionType {
+  if (projection === undefined) {
+    return 'mercator';
+  }
+  return typeof projection === 'string' ? projection : projection.type;
+}
+
+/**
+ * Checks whether a projection is the same wherever the map is centered
+ *
+ * Cylindrical projections only shift with the map center; conic and
+ * orthographic projections are set up around it.
+ */
+export function isCenterIndependent(projection?: MapProjection): boolean {
+  const type = projectionType(projection);
+  return type === 'mercator' || type === 'equirectangular';
+}
+
+/**
+ * Creates a projection for a map
+ * @param projection - Projection type or configuration (default: 'mercator')
+ * @param center - Map center, the origin of the conic and orthographic projections
+ * @returns The projection
+ * @throws Error if the projection type is unknown
+ */
+export function createProjection(
+  projection: MapProjection | undefined,
+  center: GeoLocation
+): Projection {
+  const type = projectionType(projection);
+  const standardParallels =
+    (typeof projection === 'object' ? projection.standardParallels : undefined) ??
+    defaultStandardParallels(center);
+
+  switch (type) {
+    case 'mercator':
+      return createMercator();
+    case 'equirectangular':
+      return createEquirectangular();
+    case 'lambert-conformal-conic':
+      return createLambertConformalConic(center, standardParallels);
+    case 'albers':
+      return createAlbers(center, standardParallels);
+    case 'orthographic':
+      return createOrthographic(center);
+    default:
+      throw new Error(`Unknown map projection: ${String(type)}`);
+  }
+}
+
+/**
+ * Standard parallels 10 degrees south and north of the center, kept clear of the poles
+ */
+function defaultStandardParallels(center: GeoLocation): [number, number] {
+  const clamp = (latitude: number) => Math.max(-85, Math.min(85, latitude));
+  return [
+    clamp(center.latitude - STANDARD_PARALLEL_OFFSET),
+    clamp(center.latitude + STANDARD_PARALLEL_OFFSET),
+  ];
+}
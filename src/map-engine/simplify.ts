@@ -0,0 +1,60 @@
+/**
+ * Line simplification
+ */
+
+import { PixelCoordinate } from '../types';
+
+/**
+ * Distance from a point to a segment
+ */
+function segmentDistance(point: PixelCoordinate, a: PixelCoordinate, b: PixelCoordinate): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+/**
+ * Simplifies a polyline with the Douglas–Peucker algorithm
+ *
+ * Points are dropped where the simplified line stays within the tolerance of
+ * the original; the first and last points are always kept, so closed rings
+ * stay closed.
+ * @param points - Points of the line, in pixels
+ * @param tolerance - Largest distance, in pixels, the simplified line may move (0 keeps every point)
+ * @returns The kept points, in order
+ */
+export function simplifyLine(points: PixelCoordinate[], tolerance: number): PixelCoordinate[] {
+  if (tolerance <= 0 || points.length <= 2) {
+    return points;
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Ranges still to split, worked through with a stack rather than recursion for long tracks
+  const ranges: Array<[number, number]> = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthest = -1;
+    let farthestDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistance(points[i], points[first], points[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
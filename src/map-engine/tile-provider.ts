@@ -0,0 +1,102 @@
+/**
+ * Local tile providers for offline basemaps
+ *
+ * A tile provider returns the raw bytes of z/x/y tiles (XYZ scheme) from a
+ * pre-downloaded tile directory or an MBTiles archive.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { gunzipSync } from 'zlib';
+import { MBTilesReader } from './mbtiles';
+
+/**
+ * Source of raw map tiles
+ */
+export interface TileProvider {
+  /** Lowest zoom level available */
+  readonly minZoom: number;
+  /** Highest zoom level available */
+  readonly maxZoom: number;
+  /** Attribution text for the tiles, if known */
+  readonly attribution?: string;
+  /**
+   * Reads a tile
+   * @returns Tile bytes, or null if the tile does not exist
+   */
+  getTile(z: number, x: number, y: number): Buffer | null;
+  /** Releases any resources held by the provider */
+  close?(): void;
+}
+
+/**
+ * Reads tiles from a `{z}/{x}/{y}.{ext}` directory tree
+ */
+export class DirectoryTileProvider implements TileProvider {
+  readonly minZoom: number;
+  readonly maxZoom: number;
+
+  /**
+   * @param directory - Root directory of the tile tree
+   * @param extensions - File extensions to look for, in order of preference
+   * @param attribution - Attribution text for the tiles
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly extensions: string[],
+    readonly attribution?: string
+  ) {
+    const zooms = existsSync(directory)
+      ? readdirSync(directory)
+          .filter((name) => /^\d+$/.test(name) && statSync(join(directory, name)).isDirectory())
+          .map(Number)
+      : [];
+
+    this.minZoom = zooms.length > 0 ? Math.min(...zooms) : 0;
+    this.maxZoom = zooms.length > 0 ? Math.max(...zooms) : 0;
+  }
+
+  getTile(z: number, x: number, y: number): Buffer | null {
+    for (const extension of this.extensions) {
+      const tilePath = join(this.directory, String(z), String(x), `${y}.${extension}`);
+      if (existsSync(tilePath)) {
+        const data = readFileSync(tilePath);
+        return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b ? gunzipSync(data) : data;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Reads tiles from an MBTiles archive
+ */
+export class MBTilesTileProvider implements TileProvider {
+  readonly minZoom: number;
+  readonly maxZoom: number;
+  readonly attribution?: string;
+  readonly format?: string;
+  private readonly reader: MBTilesReader;
+
+  /**
+   * @param filePath - Path to the .mbtiles file
+   * @throws MBTilesError if the archive cannot be opened
+   */
+  constructor(filePath: string) {
+    this.reader = new MBTilesReader(filePath);
+    const metadata = this.reader.getMetadata();
+    this.minZoom = metadata.minzoom ?? 0;
+    this.maxZoom = metadata.maxzoom ?? 14;
+    // Attribution is often stored as HTML links
+    this.attribution = metadata.attribution?.replace(/<[^>]*>/g, '').trim() || undefined;
+    this.format = metadata.format;
+  }
+
+  getTile(z: number, x: number, y: number): Buffer | null {
+    return this.reader.getTile(z, x, y);
+  }
+
+  close(): void {
+    this.reader.close();
+  }
+}
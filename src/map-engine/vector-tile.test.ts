@@ -0,0 +1,346 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { decodeVectorTile, VectorTileError } from './vector-tile';
+import { isMBTilesSupported, MBTilesReader, MBTilesError } from './mbtiles';
+import { openBasemapSource, VectorTileBasemapSource } from './basemap';
+import { DirectoryTileProvider } from './tile-provider';
+import { MapEngine } from './engine';
+
+/**
+ * Encodes an unsigned protobuf varint
+ */
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value > 0x7f) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function zigzag(value: number): number {
+  return (value << 1) ^ (value >> 31);
+}
+
+function bytesField(field: number, data: number[]): number[] {
+  return [...varint((field << 3) | 2), ...varint(data.length), ...data];
+}
+
+function varintField(field: number, value: number): number[] {
+  return [...varint(field << 3), ...varint(value)];
+}
+
+function stringField(field: number, text: string): number[] {
+  return bytesField(field, [...Buffer.from(text, 'utf8')]);
+}
+
+/**
+ * Encodes paths as MVT geometry commands (MoveTo, LineTo and optional ClosePath),
+ * with the cursor carried over from one path to the next
+ */
+function geometryCommands(...paths: Array<{ points: number[][]; close?: boolean }>): number[] {
+  const commands: number[] = [];
+  let x = 0;
+  let y = 0;
+  for (const { points, close } of paths) {
+    points.forEach(([px, py], index) => {
+      if (index === 0) commands.push((1 << 3) | 1);
+      if (index === 1) commands.push(((points.length - 1) << 3) | 2);
+      commands.push(zigzag(px - x), zigzag(py - y));
+      x = px;
+      y = py;
+    });
+    if (close) commands.push((1 << 3) | 7);
+  }
+  return commands;
+}
+
+interface TestFeature {
+  type: 1 | 2 | 3;
+  geometry: number[];
+  tags: number[];
+}
+
+/**
+ * Encodes a single-layer vector tile
+ */
+function encodeTile(
+  name: string,
+  features: TestFeature[],
+  keys: string[],
+  values: string[],
+  extent = 4096
+): Buffer {
+  const layer = [
+    ...varintField(15, 2),
+    ...stringField(1, name),
+    ...features.flatMap((feature) =>
+      bytesField(2, [
+        ...bytesField(2, feature.tags.flatMap(varint)),
+        ...varintField(3, feature.type),
+        ...bytesField(4, feature.geometry.flatMap(varint)),
+      ])
+    ),
+    ...keys.flatMap((key) => stringField(3, key)),
+    ...values.flatMap((value) => bytesField(4, stringField(1, value))),
+    ...varintField(5, extent),
+  ];
+  return Buffer.from(bytesField(3, layer));
+}
+
+describe('decodeVectorTile', () => {
+  it('should decode layer names and feature properties', () => {
+    const tile = encodeTile(
+      'transportation',
+      [
+        {
+          type: 2,
+          geometry: geometryCommands({
+            points: [
+              [0, 2048],
+              [4096, 2048],
+            ],
+          }),
+          tags: [0, 0],
+        },
+      ],
+      ['class'],
+      ['primary']
+    );
+
+    const layers = decodeVectorTile(tile, 0, 0, 0);
+
+    expect(layers).toHaveLength(1);
+    expect(layers[0].name).toBe('transportation');
+    expect(layers[0].extent).toBe(4096);
+    expect(layers[0].features[0].properties).toEqual({ class: 'primary' });
+  });
+
+  it('should convert tile coordinates to longitude and latitude', () => {
+    const tile = encodeTile(
+      'roads',
+      [
+        {
+          type: 2,
+          geometry: geometryCommands({
+            points: [
+              [0, 2048],
+              [4096, 2048],
+            ],
+          }),
+          tags: [],
+        },
+      ],
+      [],
+      []
+    );
+
+    const geometry = decodeVectorTile(tile, 0, 0, 0)[0].features[0].geometry;
+
+    expect(geometry?.type).toBe('LineString');
+    if (geometry?.type === 'LineString') {
+      expect(geometry.coordinates[0][0]).toBeCloseTo(-180);
+      expect(geometry.coordinates[0][1]).toBeCloseTo(0);
+      expect(geometry.coordinates[1][0]).toBeCloseTo(180);
+    }
+  });
+
+  it('should place features according to the tile position', () => {
+    const tile = encodeTile(
+      'water',
+      [{ type: 1, geometry: geometryCommands({ points: [[0, 0]] }), tags: [] }],
+      [],
+      []
+    );
+
+    // Top-left corner of tile 1/1/1 is the center of the world
+    const geometry = decodeVectorTile(tile, 1, 1, 1)[0].features[0].geometry;
+
+    expect(geometry?.type).toBe('Point');
+    if (geometry?.type === 'Point') {
+      expect(geometry.coordinates[0]).toBeCloseTo(0);
+      expect(geometry.coordinates[1]).toBeCloseTo(0);
+    }
+  });
+
+  it('should group polygon rings into exterior rings and holes', () => {
+    // Holes wind the opposite way to exterior rings
+    const geometry = geometryCommands(
+      {
+        points: [
+          [0, 0],
+          [100, 0],
+          [100, 100],
+          [0, 100],
+        ],
+        close: true,
+      },
+      {
+        points: [
+          [20, 20],
+          [20, 80],
+          [80, 80],
+          [80, 20],
+        ],
+        close: true,
+      }
+    );
+
+    const tile = encodeTile('water', [{ type: 3, geometry, tags: [] }], [], []);
+
+    const polygon = decodeVectorTile(tile, 14, 8000, 5000)[0].features[0].geometry;
+
+    expect(polygon?.type).toBe('Polygon');
+    if (polygon?.type === 'Polygon') {
+      expect(polygon.coordinates).toHaveLength(2);
+      expect(polygon.coordinates[0]).toHaveLength(5);
+    }
+  });
+
+  it('should throw VectorTileError for truncated data', () => {
+    const tile = encodeTile('water', [], [], []);
+    expect(() => decodeVectorTile(tile.subarray(0, tile.length - 3), 0, 0, 0)).toThrow(
+      VectorTileError
+    );
+  });
+});
+
+describe.skipIf(!isMBTilesSupported())('MBTilesReader', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeAll(async () => {
+    const { DatabaseSync } = await import('node:sqlite');
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-mbtiles-'));
+    filePath = join(tempDir, 'test.mbtiles');
+
+    const db = new DatabaseSync(filePath);
+    db.exec('CREATE TABLE metadata (name TEXT, value TEXT)');
+    db.exec(
+      'CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB)'
+    );
+    const insertMetadata = db.prepare('INSERT INTO metadata VALUES (?, ?)');
+    insertMetadata.run('format', 'pbf');
+    insertMetadata.run('minzoom', '0');
+    insertMetadata.run('maxzoom', '2');
+    insertMetadata.run('attribution', '<a href="https://example.com">© Example</a>');
+    // Tile 2/1/0 (XYZ) is stored at TMS row 3
+    db.prepare('INSERT INTO tiles VALUES (?, ?, ?, ?)').run(2, 1, 3, gzipSync(Buffer.from('tile')));
+    db.close();
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read metadata', () => {
+    const reader = new MBTilesReader(filePath);
+    const metadata = reader.getMetadata();
+    reader.close();
+
+    expect(metadata.format).toBe('pbf');
+    expect(metadata.minzoom).toBe(0);
+    expect(metadata.maxzoom).toBe(2);
+  });
+
+  it('should read tiles using XYZ rows and decompress them', () => {
+    const reader = new MBTilesReader(filePath);
+
+    expect(reader.getTile(2, 1, 0)?.toString()).toBe('tile');
+    expect(reader.getTile(2, 1, 3)).toBeNull();
+
+    reader.close();
+  });
+
+  it('should open as a basemap source with plain-text attribution', () => {
+    const source = openBasemapSource({ type: 'mbtiles', path: filePath });
+
+    expect(source.attribution).toBe('© Example');
+
+    source.close?.();
+  });
+
+  it('should throw MBTilesError for missing files', () => {
+    expect(() => new MBTilesReader(join(tempDir, 'missing', 'x.mbtiles'))).toThrow(MBTilesError);
+  });
+});
+
+describe('VectorTileBasemapSource', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-tiles-'));
+    // Tile 1/1/0 covers the north-east quadrant of the world
+    const tile = encodeTile(
+      'transportation',
+      [
+        {
+          type: 2,
+          geometry: geometryCommands({
+            points: [
+              [0, 4000],
+              [4096, 4000],
+            ],
+          }),
+          tags: [0, 0],
+        },
+        {
+          type: 2,
+          geometry: geometryCommands({
+            points: [
+              [0, 3000],
+              [4096, 3000],
+            ],
+          }),
+          tags: [0, 1],
+        },
+      ],
+      ['class'],
+      ['motorway', 'path']
+    );
+    mkdirSync(join(tempDir, '1', '1'), { recursive: true });
+    writeFileSync(join(tempDir, '1', '1', '0.pbf'), gzipSync(tile));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read and classify features from a tile directory', () => {
+    const source = new VectorTileBasemapSource(new DirectoryTileProvider(tempDir, ['pbf']));
+    const features = source.getFeatures({ north: 60, south: 1, east: 170, west: 1 }, 1);
+    source.close?.();
+
+    expect(features).toHaveLength(1);
+    expect(features[0].kind).toBe('major-road');
+  });
+
+  it('should use the closest available tile zoom', () => {
+    const source = new VectorTileBasemapSource(new DirectoryTileProvider(tempDir, ['pbf']));
+    const features = source.getFeatures({ north: 60, south: 59, east: 11, west: 10 }, 12.5);
+
+    expect(features).toHaveLength(1);
+  });
+
+  it('should render tile features through the map engine', () => {
+    const engine = new MapEngine();
+    const result = engine.renderMap({
+      style: {
+        provider: 'custom',
+        zoom: 1,
+        center: { latitude: 0, longitude: 0 },
+        basemap: { type: 'vector-tiles', path: tempDir, attribution: 'Test tiles' },
+        showAttribution: true,
+      },
+      width: 512,
+      height: 512,
+    });
+
+    expect(result.svg).toContain('id="major-roads"');
+    expect(result.svg).toContain('Test tiles');
+  });
+});
@@ -0,0 +1,457 @@
+/**
+ * Mapbox Vector Tile (MVT) decoder
+ *
+ * Decodes the protobuf encoding described by the Mapbox Vector Tile
+ * specification (v2) into GeoJSON features in longitude/latitude.
+ */
+
+import { GeoJsonFeature, GeoJsonGeometry, Position } from './geojson';
+
+/**
+ * A decoded vector tile layer
+ */
+export interface VectorTileLayer {
+  /** Layer name (e.g. 'water', 'transportation') */
+  name: string;
+  /** Tile extent in tile coordinate units */
+  extent: number;
+  /** Features of the layer, in longitude/latitude */
+  features: GeoJsonFeature[];
+}
+
+/**
+ * Error thrown when vector tile data cannot be decoded
+ */
+export class VectorTileError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'VectorTileError';
+  }
+}
+
+/**
+ * Protobuf wire types used by the MVT encoding
+ */
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * MVT geometry types and commands
+ */
+const GEOM_POINT = 1;
+const GEOM_LINESTRING = 2;
+const GEOM_POLYGON = 3;
+const CMD_MOVE_TO = 1;
+const CMD_LINE_TO = 2;
+const CMD_CLOSE_PATH = 7;
+
+const DEFAULT_EXTENT = 4096;
+
+/**
+ * Minimal protobuf reader over a byte buffer
+ */
+class ProtobufReader {
+  private pos: number;
+
+  constructor(
+    private readonly buf: Uint8Array,
+    start = 0,
+    private readonly end = buf.length
+  ) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  readVarint(): number {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      if (this.pos >= this.end) {
+        throw new VectorTileError('Unexpected end of vector tile data');
+      }
+      byte = this.buf[this.pos++];
+      // Multiply rather than shift to stay exact beyond 32 bits
+      result += (byte & 0x7f) * Math.pow(2, shift);
+      shift += 7;
+    } while (byte & 0x80);
+
+    return result;
+  }
+
+  readSVarint(): number {
+    const value = this.readVarint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  readBytes(): ProtobufReader {
+    const length = this.readVarint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.end) {
+      throw new VectorTileError('Unexpected end of vector tile data');
+    }
+    return new ProtobufReader(this.buf, start, this.pos);
+  }
+
+  readString(): string {
+    const length = this.readVarint();
+    const start = this.pos;
+    this.pos += length;
+    return Buffer.from(this.buf.buffer, this.buf.byteOffset + start, length).toString('utf8');
+  }
+
+  readFloat(): number {
+    const value = Buffer.from(this.buf.buffer, this.buf.byteOffset + this.pos, 4).readFloatLE(0);
+    this.pos += 4;
+    return value;
+  }
+
+  readDouble(): number {
+    const value = Buffer.from(this.buf.buffer, this.buf.byteOffset + this.pos, 8).readDoubleLE(0);
+    this.pos += 8;
+    return value;
+  }
+
+  readPackedVarints(): number[] {
+    const packed = this.readBytes();
+    const values: number[] = [];
+    while (!packed.done) {
+      values.push(packed.readVarint());
+    }
+    return values;
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.readVarint();
+        break;
+      case WIRE_FIXED64:
+        this.pos += 8;
+        break;
+      case WIRE_BYTES:
+        this.pos += this.readVarint();
+        break;
+      case WIRE_FIXED32:
+        this.pos += 4;
+        break;
+      default:
+        throw new VectorTileError(`Unsupported protobuf wire type: ${wireType}`);
+    }
+  }
+}
+
+/**
+ * Raw feature data as stored in a layer, before geometry decoding
+ */
+interface RawFeature {
+  id?: number;
+  type: number;
+  tags: number[];
+  geometry: number[];
+}
+
+/**
+ * Reads a tile value message (string, number or boolean)
+ */
+function readValue(reader: ProtobufReader): unknown {
+  let value: unknown = null;
+
+  while (!reader.done) {
+    const tag = reader.readVarint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 0x7;
+
+    switch (field) {
+      case 1:
+        value = reader.readString();
+        break;
+      case 2:
+        value = reader.readFloat();
+        break;
+      case 3:
+        value = reader.readDouble();
+        break;
+      case 4:
+      case 5:
+        value = reader.readVarint();
+        break;
+      case 6:
+        value = reader.readSVarint();
+        break;
+      case 7:
+        value = reader.readVarint() !== 0;
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Reads a feature message
+ */
+function readFeature(reader: ProtobufReader): RawFeature {
+  const feature: RawFeature = { type: 0, tags: [], geometry: [] };
+
+  while (!reader.done) {
+    const tag = reader.readVarint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 0x7;
+
+    if (field === 1 && wireType === WIRE_VARINT) {
+      feature.id = reader.readVarint();
+    } else if (field === 2 && wireType === WIRE_BYTES) {
+      feature.tags = reader.readPackedVarints();
+    } else if (field === 3 && wireType === WIRE_VARINT) {
+      feature.type = reader.readVarint();
+    } else if (field === 4 && wireType === WIRE_BYTES) {
+      feature.geometry = reader.readPackedVarints();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return feature;
+}
+
+/**
+ * Decodes a command-encoded geometry into rings/lines of tile coordinates
+ */
+function decodeCommands(commands: number[]): Position[][] {
+  const lines: Position[][] = [];
+  let current: Position[] | null = null;
+  let x = 0;
+  let y = 0;
+  let i = 0;
+
+  while (i < commands.length) {
+    const commandInteger = commands[i++];
+    const command = commandInteger & 0x7;
+    const count = commandInteger >> 3;
+
+    if (command === CMD_MOVE_TO || command === CMD_LINE_TO) {
+      for (let n = 0; n < count; n++) {
+        const dx = commands[i++];
+        const dy = commands[i++];
+        x += (dx >> 1) ^ -(dx & 1);
+        y += (dy >> 1) ^ -(dy & 1);
+
+        if (command === CMD_MOVE_TO) {
+          current = [];
+          lines.push(current);
+        }
+        current?.push([x, y]);
+      }
+    } else if (command === CMD_CLOSE_PATH) {
+      if (current && current.length > 0) {
+        current.push([current[0][0], current[0][1]]);
+      }
+    } else {
+      throw new VectorTileError(`Unknown geometry command: ${command}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Signed area of a ring in tile coordinates (positive for exterior rings,
+ * since tile y increases downwards)
+ */
+function ringArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[i][1] + ring[j][1]);
+  }
+  return sum / 2;
+}
+
+/**
+ * Groups polygon rings into polygons using their winding order
+ */
+function classifyRings(rings: Position[][]): Position[][][] {
+  const polygons: Position[][][] = [];
+  let current: Position[][] | null = null;
+
+  for (const ring of rings) {
+    const area = ringArea(ring);
+    if (area === 0) continue;
+
+    if (area > 0 || !current) {
+      current = [ring];
+      polygons.push(current);
+    } else {
+      current.push(ring);
+    }
+  }
+
+  return polygons;
+}
+
+/**
+ * Converts a tile-local position to longitude/latitude
+ */
+function tileToLngLat(
+  position: Position,
+  extent: number,
+  z: number,
+  x: number,
+  y: number
+): Position {
+  const size = extent * Math.pow(2, z);
+  const worldX = (x * extent + position[0]) / size;
+  const worldY = (y * extent + position[1]) / size;
+  const lng = worldX * 360 - 180;
+  const lat = (Math.atan(Math.sinh(Math.PI * (1 - 2 * worldY))) * 180) / Math.PI;
+  return [lng, lat];
+}
+
+/**
+ * Builds a GeoJSON geometry from a raw feature
+ */
+function toGeometry(
+  raw: RawFeature,
+  project: (position: Position) => Position
+): GeoJsonGeometry | null {
+  const tileLines = decodeCommands(raw.geometry);
+
+  switch (raw.type) {
+    case GEOM_POINT: {
+      const points = tileLines.flat().map(project);
+      if (points.length === 0) return null;
+      return points.length === 1
+        ? { type: 'Point', coordinates: points[0] }
+        : { type: 'MultiPoint', coordinates: points };
+    }
+    case GEOM_LINESTRING: {
+      const valid = tileLines.filter((line) => line.length >= 2).map((line) => line.map(project));
+      if (valid.length === 0) return null;
+      return valid.length === 1
+        ? { type: 'LineString', coordinates: valid[0] }
+        : { type: 'MultiLineString', coordinates: valid };
+    }
+    case GEOM_POLYGON: {
+      // Winding order is evaluated on tile coordinates, before projection
+      const tileRings = tileLines.filter((ring) => ring.length >= 4);
+      const polygons = classifyRings(tileRings).map((polygon) =>
+        polygon.map((ring) => ring.map(project))
+      );
+      if (polygons.length === 0) return null;
+      return polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads a layer message and decodes its features
+ */
+function readLayer(reader: ProtobufReader, z: number, x: number, y: number): VectorTileLayer {
+  let name = '';
+  let extent = DEFAULT_EXTENT;
+  const keys: string[] = [];
+  const values: unknown[] = [];
+  const rawFeatures: RawFeature[] = [];
+
+  while (!reader.done) {
+    const tag = reader.readVarint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 0x7;
+
+    if (field === 1 && wireType === WIRE_BYTES) {
+      name = reader.readString();
+    } else if (field === 2 && wireType === WIRE_BYTES) {
+      rawFeatures.push(readFeature(reader.readBytes()));
+    } else if (field === 3 && wireType === WIRE_BYTES) {
+      keys.push(reader.readString());
+    } else if (field === 4 && wireType === WIRE_BYTES) {
+      values.push(readValue(reader.readBytes()));
+    } else if (field === 5 && wireType === WIRE_VARINT) {
+      extent = reader.readVarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  const project = (position: Position) => tileToLngLat(position, extent, z, x, y);
+  const features: GeoJsonFeature[] = [];
+
+  for (const raw of rawFeatures) {
+    const geometry = toGeometry(raw, project);
+    if (!geometry) continue;
+
+    const properties: Record<string, unknown> = {};
+    for (let i = 0; i + 1 < raw.tags.length; i += 2) {
+      const key = keys[raw.tags[i]];
+      if (key !== undefined) {
+        properties[key] = values[raw.tags[i + 1]];
+      }
+    }
+
+    features.push({
+      type: 'Feature',
+      geometry,
+      properties,
+      ...(raw.id !== undefined ? { id: raw.id } : {}),
+    });
+  }
+
+  return { name, extent, features };
+}
+
+/**
+ * Decodes a Mapbox Vector Tile
+ * @param data - Uncompressed tile bytes
+ * @param z - Tile zoom level
+ * @param x - Tile column
+ * @param y - Tile row (XYZ scheme, origin at the top-left)
+ * @returns Decoded layers with features in longitude/latitude
+ * @throws VectorTileError if the data is not a valid vector tile
+ */
+export function decodeVectorTile(
+  data: Uint8Array,
+  z: number,
+  x: number,
+  y: number
+): VectorTileLayer[] {
+  const reader = new ProtobufReader(data);
+  const layers: VectorTileLayer[] = [];
+
+  try {
+    while (!reader.done) {
+      const tag = reader.readVarint();
+      const field = Math.floor(tag / 8);
+      const wireType = tag & 0x7;
+
+      if (field === 3 && wireType === WIRE_BYTES) {
+        layers.push(readLayer(reader.readBytes(), z, x, y));
+      } else {
+        reader.skip(wireType);
+      }
+    }
+  } catch (error) {
+    if (error instanceof VectorTileError) throw error;
+    throw new VectorTileError(
+      `Failed to decode vector tile ${z}/${x}/${y}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  return layers;
+}
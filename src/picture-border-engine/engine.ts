@@ -133,7 +133,12 @@ export class PictureBorderEngine {
     const style = this.normalizeStyle(config.style);
 
     // Calculate the border layout
-    const layout = calculateBorderLayout(config.layout, config.images.length, dpi);
+    const layout = calculateBorderLayout(
+      config.layout,
+      config.images.length,
+      dpi,
+      config.images.map((image) => image.span)
+    );
 
     // Position pictures in slots
     const positionedPictures = positionPicturesInSlots(config.images, layout.slots, config.links);
@@ -159,6 +164,7 @@ export class PictureBorderEngine {
       borderColor: sanitizeColor(style?.borderColor, '#333333'),
       borderThickness: style?.borderThickness ?? 2,
       cornerRadius: style?.cornerRadius ?? 0,
+      imageFit: style?.imageFit ?? 'cover',
     };
   }
 
@@ -235,33 +241,40 @@ export class PictureBorderEngine {
    * Adds background rectangles for the border areas
    */
   private addBorderBackground(parts: string[], layout: BorderLayout, color: string): void {
-    const { pageWidth, pageHeight, borderWidth, margin, innerArea } = layout;
+    const { pageWidth, pageHeight, borderWidth, borderRows, margin, innerArea } = layout;
+    // Each edge is as deep as its rows
+    const depth = {
+      top: borderRows.top * borderWidth,
+      right: borderRows.right * borderWidth,
+      bottom: borderRows.bottom * borderWidth,
+      left: borderRows.left * borderWidth,
+    };
 
     // Top border area
     parts.push(
       `<rect x="${margin.left}" y="${margin.top}" ` +
-        `width="${pageWidth - margin.left - margin.right}" height="${borderWidth}" ` +
+        `width="${pageWidth - margin.left - margin.right}" height="${depth.top}" ` +
         `fill="${color}"/>`
     );
 
     // Bottom border area
     parts.push(
-      `<rect x="${margin.left}" y="${pageHeight - margin.bottom - borderWidth}" ` +
-        `width="${pageWidth - margin.left - margin.right}" height="${borderWidth}" ` +
+      `<rect x="${margin.left}" y="${pageHeight - margin.bottom - depth.bottom}" ` +
+        `width="${pageWidth - margin.left - margin.right}" height="${depth.bottom}" ` +
         `fill="${color}"/>`
     );
 
     // Left border area (excluding corners)
     parts.push(
       `<rect x="${margin.left}" y="${innerArea.y}" ` +
-        `width="${borderWidth}" height="${innerArea.height}" ` +
+        `width="${depth.left}" height="${innerArea.height}" ` +
         `fill="${color}"/>`
     );
 
     // Right border area (excluding corners)
     parts.push(
-      `<rect x="${pageWidth - margin.right - borderWidth}" y="${innerArea.y}" ` +
-        `width="${borderWidth}" height="${innerArea.height}" ` +
+      `<rect x="${pageWidth - margin.right - depth.right}" y="${innerArea.y}" ` +
+        `width="${depth.right}" height="${innerArea.height}" ` +
         `fill="${color}"/>`
     );
   }
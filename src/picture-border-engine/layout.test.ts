@@ -10,6 +10,7 @@ import {
   positionPicturesInSlots,
   DEFAULT_DPI,
 } from './layout';
+import { validateLayoutOptions } from '../validators';
 import type { LayoutOptions, ImageMetadata, PictureSlot } from '../types';
 
 describe('Unit Conversions', () => {
@@ -329,35 +330,36 @@ describe('Border Layout Calculation', () => {
       expect(uniqueIds.size).toBe(8);
     });
 
-    it('should distribute slots across all edges', () => {
+    it('should distribute slots across all edges by their room', () => {
       const layout = calculateBorderLayout(defaultLayout, 8);
       const edges = layout.slots.map((s) => s.edge);
-      expect(edges.filter((e) => e === 'top').length).toBe(2);
-      expect(edges.filter((e) => e === 'bottom').length).toBe(2);
-      expect(edges.filter((e) => e === 'left').length).toBe(2);
-      expect(edges.filter((e) => e === 'right').length).toBe(2);
+      // The long top and bottom edges hold more pictures
+      expect(edges.filter((e) => e === 'top').length).toBe(3);
+      expect(edges.filter((e) => e === 'bottom').length).toBe(3);
+      expect(edges.filter((e) => e === 'left').length).toBe(1);
+      expect(edges.filter((e) => e === 'right').length).toBe(1);
     });
 
     it('should position top edge slots correctly', () => {
-      const layout = calculateBorderLayout(defaultLayout, 4);
+      const layout = calculateBorderLayout(defaultLayout, 8);
       const topSlots = layout.slots.filter((s) => s.edge === 'top');
-      expect(topSlots.length).toBe(1);
+      expect(topSlots.length).toBe(3);
       const topSlot = topSlots[0];
       expect(topSlot.y).toBe(layout.margin.top);
       expect(topSlot.height).toBe(layout.borderWidth);
     });
 
     it('should position bottom edge slots correctly', () => {
-      const layout = calculateBorderLayout(defaultLayout, 4);
+      const layout = calculateBorderLayout(defaultLayout, 8);
       const bottomSlots = layout.slots.filter((s) => s.edge === 'bottom');
-      expect(bottomSlots.length).toBe(1);
+      expect(bottomSlots.length).toBe(3);
       const bottomSlot = bottomSlots[0];
       expect(bottomSlot.y).toBe(layout.pageHeight - layout.margin.bottom - layout.borderWidth);
       expect(bottomSlot.height).toBe(layout.borderWidth);
     });
 
     it('should position left edge slots correctly', () => {
-      const layout = calculateBorderLayout(defaultLayout, 4);
+      const layout = calculateBorderLayout(defaultLayout, 8);
       const leftSlots = layout.slots.filter((s) => s.edge === 'left');
       expect(leftSlots.length).toBe(1);
       const leftSlot = leftSlots[0];
@@ -366,7 +368,7 @@ describe('Border Layout Calculation', () => {
     });
 
     it('should position right edge slots correctly', () => {
-      const layout = calculateBorderLayout(defaultLayout, 4);
+      const layout = calculateBorderLayout(defaultLayout, 8);
       const rightSlots = layout.slots.filter((s) => s.edge === 'right');
       expect(rightSlots.length).toBe(1);
       const rightSlot = rightSlots[0];
@@ -384,6 +386,128 @@ describe('Border Layout Calculation', () => {
       expect(topSlots[0].width).toBeLessThan(maxSlotWidth);
     });
   });
+
+  describe('calculateBorderLayout with corner slots and rows', () => {
+    // At 25.4 DPI a millimetre is a pixel
+    const gridLayout: LayoutOptions = {
+      pageSize: 'custom',
+      customDimensions: { width: 1000, height: 800 },
+      orientation: 'landscape',
+      borderWidth: 100,
+      pictureSpacing: 10,
+      margin: { top: 10, right: 10, bottom: 10, left: 10 },
+    };
+
+    it('should fill the corners first', () => {
+      const layout = calculateBorderLayout({ ...gridLayout, cornerSlots: true }, 4, 25.4);
+      const byCorner = Object.fromEntries(layout.slots.map((s) => [s.corner, s])) as Record<
+        string,
+        PictureSlot
+      >;
+
+      expect(byCorner['top-left']).toMatchObject({ edge: 'top', x: 20, y: 10, width: 90 });
+      expect(byCorner['top-right']).toMatchObject({ edge: 'top', x: 890, y: 10, width: 90 });
+      expect(byCorner['bottom-right']).toMatchObject({ edge: 'bottom', x: 890, y: 690 });
+      expect(byCorner['bottom-left']).toMatchObject({ edge: 'bottom', x: 20, y: 690 });
+    });
+
+    it('should keep edge slots between the corners', () => {
+      const layout = calculateBorderLayout({ ...gridLayout, cornerSlots: true }, 8, 25.4);
+      const top = layout.slots.filter((s) => s.edge === 'top' && !s.corner);
+
+      expect(top).toHaveLength(1);
+      expect(top[0].x).toBe(120);
+      expect(top[0].x + top[0].width).toBeLessThanOrEqual(880);
+    });
+
+    it('should share the pictures of an edge across its rows', () => {
+      const layout = calculateBorderLayout({ ...gridLayout, borderRows: { top: 2 } }, 8, 25.4);
+      const top = layout.slots.filter((s) => s.edge === 'top');
+
+      expect(layout.borderRows).toEqual({ top: 2, right: 1, bottom: 1, left: 1 });
+      expect(layout.innerArea.y).toBe(210);
+      expect(top.map((s) => s.y)).toEqual([10, 10, 110, 110]);
+      // The left edge runs between the rows of the top and bottom edges
+      expect(layout.slots.find((s) => s.edge === 'left')?.y).toBe(220);
+    });
+
+    it('should keep the configured rows without a minimum map size', () => {
+      const layout = calculateBorderLayout(gridLayout, 60, 25.4);
+      expect(layout.borderRows).toEqual({ top: 1, right: 1, bottom: 1, left: 1 });
+    });
+
+    it('should grow crowded edges inward while the map keeps its minimum size', () => {
+      const layout = calculateBorderLayout({ ...gridLayout, minMapSize: 300 }, 60, 25.4);
+
+      expect(layout.borderRows.top).toBeGreaterThan(1);
+      expect(layout.innerArea.width).toBeGreaterThanOrEqual(300);
+      expect(layout.innerArea.height).toBeGreaterThanOrEqual(300);
+      expect(layout.slots).toHaveLength(60);
+    });
+
+    it('should make a 2x1 picture two slots long', () => {
+      const layout = calculateBorderLayout(gridLayout, 5, 25.4, ['2x1']);
+
+      // The featured picture takes the two slots of the top edge's share
+      expect(layout.slots[0]).toMatchObject({ edge: 'top', x: 20, y: 10, width: 960, height: 100 });
+      expect(layout.slots.map((s) => s.edge)).toEqual(['top', 'right', 'bottom', 'bottom', 'left']);
+    });
+
+    it('should pack standard pictures around a 2x2 picture', () => {
+      const layout = calculateBorderLayout({ ...gridLayout, borderRows: { top: 2 } }, 8, 25.4, [
+        undefined,
+        '2x2',
+      ]);
+      const [first, featured] = layout.slots;
+
+      expect(first).toMatchObject({ edge: 'top', x: 20, y: 10, width: 313, height: 100 });
+      expect(featured).toMatchObject({ edge: 'top', x: 343, y: 10, width: 636, height: 200 });
+      expect(layout.slots).toHaveLength(8);
+    });
+
+    it('should keep the slots of all edges alike with several rows', () => {
+      const a4: LayoutOptions = {
+        pageSize: 'A4',
+        orientation: 'landscape',
+        borderWidth: 30,
+        pictureSpacing: 5,
+        margin: { top: 10, right: 10, bottom: 10, left: 10 },
+      };
+      const cases: Array<[LayoutOptions, number]> = [
+        [{ ...a4, borderRows: { top: 3 } }, 40],
+        [{ ...a4, minMapSize: 100 }, 50],
+        [{ ...a4, cornerSlots: true }, 60],
+        [{ ...a4, cornerSlots: true, borderRows: { top: 2, left: 2 } }, 40],
+      ];
+
+      for (const [options, count] of cases) {
+        const layout = calculateBorderLayout(options, count, 96);
+        // Slot lengths along their edge
+        const lengths = layout.slots.map((s) =>
+          s.edge === 'top' || s.edge === 'bottom' ? s.width : s.height
+        );
+
+        expect(layout.slots).toHaveLength(count);
+        expect(new Set(layout.slots.map((s) => s.edge)).size).toBe(4);
+        expect(Math.max(...lengths)).toBeLessThanOrEqual(1.5 * Math.min(...lengths));
+      }
+    });
+
+    it('should accept rows that leave room for the map', () => {
+      expect(validateLayoutOptions({ ...gridLayout, borderRows: { top: 3, left: 3 } })).toEqual({
+        valid: true,
+        errors: [],
+      });
+    });
+
+    it('should reject rows that leave no room for the map', () => {
+      const result = validateLayoutOptions({ ...gridLayout, borderRows: { top: 4, bottom: 4 } });
+
+      expect(result.errors).toEqual([
+        'Layout leaves no room for the map: margins and 8 border rows of 100mm take 820mm of the 800mm page height',
+      ]);
+    });
+  });
 });
 
 describe('Picture Positioning', () => {
@@ -7,9 +7,12 @@ import {
   BorderLayout,
   PictureSlot,
   BorderEdge,
+  BorderCorner,
   ImageMetadata,
   PositionedPicture,
+  PictureSpan,
 } from '../types';
+import { getSpanSize, isFeatured, packSpans, SpanSize } from '../picture-span';
 
 /**
  * Standard page sizes in millimeters
@@ -20,6 +23,52 @@ const PAGE_SIZES: Record<string, { width: number; height: number }> = {
   Letter: { width: 215.9, height: 279.4 },
 };
 
+/**
+ * Border edges, clockwise from the top
+ */
+const EDGES: BorderEdge[] = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Sizes of the border and its rows, in pixels
+ */
+interface BorderGeometry {
+  pageWidth: number;
+  pageHeight: number;
+  borderWidth: number;
+  margin: { top: number; right: number; bottom: number; left: number };
+  spacing: number;
+  /** Rows along each edge */
+  rows: Record<BorderEdge, number>;
+  /** Whether the corners hold slots of their own */
+  corners: boolean;
+}
+
+/**
+ * A row of slots along an edge, between its corner cells
+ */
+interface EdgeRow {
+  /** Start of the row, at its top-left */
+  x: number;
+  y: number;
+  /** Length of the row between its corner cells */
+  length: number;
+}
+
+/**
+ * Position and size of a slot
+ */
+type SlotRect = Omit<PictureSlot, 'id' | 'edge' | 'edgeIndex' | 'corner'>;
+
+/**
+ * A slot in a corner of the border, in a row of the top or bottom edge
+ */
+interface CornerCell {
+  corner: BorderCorner;
+  /** Row of the edge the cell is in, from the outside in */
+  row: number;
+  rect: SlotRect;
+}
+
 /**
  * Default DPI for print quality output
  * 300 DPI is the standard for high-quality print
@@ -94,12 +143,14 @@ export function getPageDimensionsPixels(
  * @param layout - Layout options
  * @param pictureCount - Number of pictures to distribute
  * @param dpi - DPI for pixel conversion
+ * @param spans - Spans of the pictures, in order, for featured pictures
  * @returns Complete border layout with slots
  */
 export function calculateBorderLayout(
   layout: LayoutOptions,
   pictureCount: number,
-  dpi: number = DEFAULT_DPI
+  dpi: number = DEFAULT_DPI,
+  spans: Array<PictureSpan | undefined> = []
 ): BorderLayout {
   const pageDimensions = getPageDimensionsPixels(layout, dpi);
   const borderWidthPx = mmToPixels(layout.borderWidth, dpi);
@@ -112,170 +163,489 @@ export function calculateBorderLayout(
     left: mmToPixels(layout.margin.left, dpi),
   };
 
-  // Calculate inner area (where the map goes)
-  const innerArea = {
-    x: marginPx.left + borderWidthPx,
-    y: marginPx.top + borderWidthPx,
-    width: pageDimensions.width - marginPx.left - marginPx.right - 2 * borderWidthPx,
-    height: pageDimensions.height - marginPx.top - marginPx.bottom - 2 * borderWidthPx,
-  };
-
-  // Calculate slots for pictures
-  const slots = calculatePictureSlots(
-    pageDimensions.width,
-    pageDimensions.height,
-    borderWidthPx,
-    marginPx,
-    spacingPx,
-    pictureCount
+  const geometry = resolveBorderRows(
+    {
+      pageWidth: pageDimensions.width,
+      pageHeight: pageDimensions.height,
+      borderWidth: borderWidthPx,
+      margin: marginPx,
+      spacing: spacingPx,
+      rows: getBorderRows(layout),
+      corners: layout.cornerSlots ?? false,
+    },
+    // Rows grow for the slots the pictures take
+    Array.from({ length: pictureCount }, (_, i) => {
+      const { along, across } = getSpanSize(spans[i], Infinity);
+      return along * across;
+    }).reduce((sum, count) => sum + count, 0),
+    layout.minMapSize === undefined ? undefined : mmToPixels(layout.minMapSize, dpi)
   );
 
   return {
     pageWidth: pageDimensions.width,
     pageHeight: pageDimensions.height,
     borderWidth: borderWidthPx,
-    innerArea,
-    slots,
+    borderRows: geometry.rows,
+    // Calculate inner area (where the map goes)
+    innerArea: calculateInnerArea(geometry),
+    // Calculate slots for pictures
+    slots: calculatePictureSlots(geometry, pictureCount, spans),
     margin: marginPx,
     pictureSpacing: spacingPx,
   };
 }
 
 /**
- * Distributes pictures evenly across the four edges of the border
+ * Distributes pictures across the four edges of the border
+ *
+ * Without capacities the pictures are shared evenly. With them, each edge
+ * takes a share in proportion to the pictures it holds at full size, so that
+ * the slots of all edges shrink or stretch alike.
  * @param pictureCount - Total number of pictures
+ * @param capacities - Pictures each edge holds at full size
  * @returns Object with counts for each edge
  */
-export function distributePicturesAcrossEdges(pictureCount: number): Record<BorderEdge, number> {
+export function distributePicturesAcrossEdges(
+  pictureCount: number,
+  capacities?: Record<BorderEdge, number>
+): Record<BorderEdge, number> {
+  const counts: Record<BorderEdge, number> = { top: 0, right: 0, bottom: 0, left: 0 };
   if (pictureCount === 0) {
-    return { top: 0, right: 0, bottom: 0, left: 0 };
+    return counts;
   }
 
-  // Distribute evenly, starting from top and going clockwise
-  const base = Math.floor(pictureCount / 4);
-  const remainder = pictureCount % 4;
-
-  // Distribute remainder clockwise
-  const counts: Record<BorderEdge, number> = { top: base, right: base, bottom: base, left: base };
-  const edges: BorderEdge[] = ['top', 'right', 'bottom', 'left'];
+  // Edges without room share evenly when no edge has any
+  const weights = EDGES.map((edge) => capacities?.[edge] ?? 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map((weight) =>
+    totalWeight > 0 ? (pictureCount * weight) / totalWeight : pictureCount / EDGES.length
+  );
+  EDGES.forEach((edge, i) => {
+    counts[edge] = Math.floor(shares[i]);
+  });
+
+  // Distribute the remainder by the largest share left, clockwise from the top
+  const remainder = pictureCount - EDGES.reduce((sum, edge) => sum + counts[edge], 0);
+  const byFraction = EDGES.map((_, i) => i).sort(
+    (a, b) => shares[b] - Math.floor(shares[b]) - (shares[a] - Math.floor(shares[a])) || a - b
+  );
   for (let i = 0; i < remainder; i++) {
-    counts[edges[i]]++;
+    counts[EDGES[byFraction[i]]]++;
   }
   return counts;
 }
 
 /**
- * Calculates the available length for pictures on each edge
- * @param pageWidth - Total page width
- * @param pageHeight - Total page height
- * @param borderWidth - Width of the border area
- * @param margin - Margin on each side
- * @returns Available length for each edge
+ * Gets the configured number of rows along each edge, at least one
  */
-function calculateEdgeLengths(
-  pageWidth: number,
-  pageHeight: number,
-  borderWidth: number,
-  margin: { top: number; right: number; bottom: number; left: number }
-): Record<BorderEdge, number> {
-  // Horizontal edges span the full width minus margins
-  const horizontalLength = pageWidth - margin.left - margin.right;
-  // Vertical edges span the height minus margins and corners (which belong to horizontal)
-  const verticalLength = pageHeight - margin.top - margin.bottom - 2 * borderWidth;
+function getBorderRows(layout: LayoutOptions): Record<BorderEdge, number> {
+  const rows = (edge: BorderEdge) => Math.max(1, Math.floor(layout.borderRows?.[edge] ?? 1));
+  return { top: rows('top'), right: rows('right'), bottom: rows('bottom'), left: rows('left') };
+}
+
+/**
+ * Calculates the area inside the border rows, where the map goes
+ */
+function calculateInnerArea(geometry: BorderGeometry): BorderLayout['innerArea'] {
+  const { pageWidth, pageHeight, borderWidth, margin, rows } = geometry;
+  return {
+    x: margin.left + rows.left * borderWidth,
+    y: margin.top + rows.top * borderWidth,
+    width: pageWidth - margin.left - margin.right - (rows.left + rows.right) * borderWidth,
+    height: pageHeight - margin.top - margin.bottom - (rows.top + rows.bottom) * borderWidth,
+  };
+}
+
+/**
+ * Calculates the rows of an edge, from the outside in
+ *
+ * Horizontal rows span the page width minus margins, or with corner slots the
+ * stretch between the corners. Vertical rows span the height between the
+ * horizontal rows, whose ends hold the corners.
+ */
+function calculateEdgeRows(edge: BorderEdge, geometry: BorderGeometry): EdgeRow[] {
+  const { pageWidth, pageHeight, borderWidth, margin, rows, corners } = geometry;
+  const inner = calculateInnerArea(geometry);
+
+  return Array.from({ length: rows[edge] }, (_, row) => {
+    switch (edge) {
+      case 'top':
+      case 'bottom': {
+        const x = corners ? inner.x : margin.left;
+        const y =
+          edge === 'top'
+            ? margin.top + row * borderWidth
+            : pageHeight - margin.bottom - (row + 1) * borderWidth;
+        const length = corners ? inner.width : pageWidth - margin.left - margin.right;
+        return { x, y, length };
+      }
+      case 'left':
+      case 'right': {
+        const x =
+          edge === 'left'
+            ? margin.left + row * borderWidth
+            : pageWidth - margin.right - (row + 1) * borderWidth;
+        return { x, y: inner.y, length: inner.height };
+      }
+    }
+  });
+}
+
+/**
+ * Calculates how many pictures fit in a row at full size, with slots at
+ * least as long as the border is wide
+ */
+function calculateRowCapacity(row: EdgeRow, geometry: BorderGeometry): number {
+  const { spacing, borderWidth } = geometry;
+  return Math.max(0, Math.floor((row.length - spacing) / (borderWidth + spacing)));
+}
 
+/**
+ * Calculates how many pictures the rows of each edge hold at full size,
+ * without the corner cells
+ * @param geometry - Border geometry
+ * @param partial - Whether to count the room left for part of a picture, for
+ *   sharing pictures in proportion to the room of each edge
+ */
+function calculateEdgeCapacities(
+  geometry: BorderGeometry,
+  partial = false
+): Record<BorderEdge, number> {
+  const { spacing, borderWidth } = geometry;
+  const capacity = (edge: BorderEdge) => {
+    const rows = calculateEdgeRows(edge, geometry);
+    const perRow = partial
+      ? Math.max(0, (rows[0].length - spacing) / (borderWidth + spacing))
+      : calculateRowCapacity(rows[0], geometry);
+    return rows.length * perRow;
+  };
   return {
-    top: horizontalLength,
-    bottom: horizontalLength,
-    left: verticalLength,
-    right: verticalLength,
+    top: capacity('top'),
+    right: capacity('right'),
+    bottom: capacity('bottom'),
+    left: capacity('left'),
   };
 }
 
+/**
+ * Counts the corner cells: one for each row of the top and bottom edges
+ * crossing each column of the left and right edges
+ */
+function countCornerCells(geometry: BorderGeometry): number {
+  const { rows, corners } = geometry;
+  return corners ? (rows.top + rows.bottom) * (rows.left + rows.right) : 0;
+}
+
+/**
+ * Chooses the number of rows along each edge for a number of pictures
+ *
+ * Without a minimum map size the configured rows are kept. Otherwise, while
+ * the slots of the pictures do not fit in the rows at full size, the edge
+ * with the fewest rows whose next row leaves the map at least the minimum
+ * size and adds room gains a row inward; pictures that still do not fit get
+ * narrower slots on every edge.
+ * @param geometry - Border geometry with the configured rows
+ * @param slotCount - Number of slots the pictures take, counting the span of featured pictures
+ * @param minMapSize - Smallest width and height of the map in pixels
+ * @returns The geometry with the rows to use
+ */
+function resolveBorderRows(
+  geometry: BorderGeometry,
+  slotCount: number,
+  minMapSize?: number
+): BorderGeometry {
+  if (minMapSize === undefined) {
+    return geometry;
+  }
+
+  const capacity = (candidate: BorderGeometry) =>
+    countCornerCells(candidate) +
+    Object.values(calculateEdgeCapacities(candidate)).reduce((sum, count) => sum + count, 0);
+
+  let current = geometry;
+  while (capacity(current) < slotCount) {
+    const next = EDGES.map((edge) => ({
+      edge,
+      geometry: { ...current, rows: { ...current.rows, [edge]: current.rows[edge] + 1 } },
+    }))
+      .filter(({ edge, geometry: candidate }) => {
+        const inner = calculateInnerArea(candidate);
+        const mapSize = edge === 'top' || edge === 'bottom' ? inner.height : inner.width;
+        return mapSize >= minMapSize && capacity(candidate) > capacity(current);
+      })
+      .sort((a, b) => current.rows[a.edge] - current.rows[b.edge])[0];
+    if (!next) break;
+    current = next.geometry;
+  }
+  return current;
+}
+
+/**
+ * Calculates the corner cells in use, filling the corners clockwise from the
+ * top-left, each from its outer row and column
+ */
+function calculateCornerSlots(geometry: BorderGeometry, count: number): CornerCell[] {
+  const { pageWidth, pageHeight, borderWidth, margin, rows, spacing } = geometry;
+  const cells: CornerCell[] = [];
+  const corners: Array<[BorderCorner, 'top' | 'bottom', 'left' | 'right']> = [
+    ['top-left', 'top', 'left'],
+    ['top-right', 'top', 'right'],
+    ['bottom-right', 'bottom', 'right'],
+    ['bottom-left', 'bottom', 'left'],
+  ];
+
+  for (const [corner, horizontal, vertical] of corners) {
+    for (let row = 0; row < rows[horizontal]; row++) {
+      for (let column = 0; column < rows[vertical]; column++) {
+        if (cells.length >= count) return cells;
+        const y =
+          horizontal === 'top'
+            ? margin.top + row * borderWidth
+            : pageHeight - margin.bottom - (row + 1) * borderWidth;
+        // Cells keep one spacing from the next cell or slot towards the middle
+        const x =
+          vertical === 'left'
+            ? margin.left + column * borderWidth + spacing
+            : pageWidth - margin.right - (column + 1) * borderWidth;
+        cells.push({
+          corner,
+          row,
+          rect: { x, y, width: Math.max(0, borderWidth - spacing), height: borderWidth },
+        });
+      }
+    }
+  }
+  return cells;
+}
+
 /**
  * Calculates picture slots for all edges
+ *
+ * With corner slots, the corner cells are filled first and the remaining
+ * pictures are shared across the edges in proportion to the pictures their
+ * rows hold at full size (see `distributePicturesAcrossEdges`), featured
+ * pictures counting the slots of their span. The pictures of an edge are shared across its rows, outer
+ * rows taking any remainder, or with featured pictures packed into a grid
+ * over the rows (see `calculateFeaturedEdgeSlots`). Slots are listed edge by
+ * edge, clockwise from the top, each edge holding the next pictures in order.
  */
 function calculatePictureSlots(
-  pageWidth: number,
-  pageHeight: number,
-  borderWidth: number,
-  margin: { top: number; right: number; bottom: number; left: number },
-  spacing: number,
-  pictureCount: number
+  geometry: BorderGeometry,
+  pictureCount: number,
+  spans: Array<PictureSpan | undefined>
 ): PictureSlot[] {
-  const distribution = distributePicturesAcrossEdges(pictureCount);
-  const edgeLengths = calculateEdgeLengths(pageWidth, pageHeight, borderWidth, margin);
+  const cornerSlots = calculateCornerSlots(
+    geometry,
+    Math.min(pictureCount, countCornerCells(geometry))
+  );
+  const cells = (index: number, edge: BorderEdge) => {
+    const { along, across } = getSpanSize(spans[index], geometry.rows[edge]);
+    return along * across;
+  };
   const slots: PictureSlot[] = [];
-  let slotIndex = 0;
-
-  const edges: BorderEdge[] = ['top', 'right', 'bottom', 'left'];
+  let cornersLeft = cornerSlots.length;
+  const capacities = calculateEdgeCapacities(geometry, true);
+
+  EDGES.forEach((edge, edgeNumber) => {
+    const rows = calculateEdgeRows(edge, geometry);
+    const edgeCells = cornerSlots.filter((cell) => cell.corner.startsWith(`${edge}-`));
+
+    // Share the slots of the pictures left between the lanes of the edges
+    // left by their capacity, earlier edges taking any remainder
+    const first = slots.length;
+    let cellsLeft = -cornersLeft;
+    for (let index = first; index < pictureCount; index++) {
+      cellsLeft += cells(index, edge);
+    }
+    const edgesLeft = EDGES.slice(edgeNumber);
+    const hasRoom = edgesLeft.some((next) => capacities[next] > 0);
+    const weights = Object.fromEntries(
+      EDGES.map((next) => [next, edgesLeft.includes(next) ? (hasRoom ? capacities[next] : 1) : 0])
+    ) as Record<BorderEdge, number>;
+    const laneCells = distributePicturesAcrossEdges(Math.max(0, cellsLeft), weights)[edge];
+    cornersLeft -= edgeCells.length;
+    let end = Math.min(pictureCount, first + edgeCells.length);
+    for (let taken = 0; taken < laneCells && end < pictureCount; end++) {
+      taken += cells(end, edge);
+    }
+
+    const pictures = Array.from({ length: end - first }, (_, i) => first + i);
+    const rects = pictures.some((index) => isFeatured(spans[index]))
+      ? calculateFeaturedEdgeSlots(
+          edge,
+          pictures.map((index) => getSpanSize(spans[index], rows.length)),
+          edgeCells,
+          rows,
+          geometry
+        )
+      : calculateRowSlots(edge, pictures.length - edgeCells.length, edgeCells, rows, geometry);
+    rects.forEach(({ rect, corner }, edgeIndex) => {
+      slots.push({
+        id: `slot-${slots.length}`,
+        edge,
+        ...rect,
+        edgeIndex,
+        ...(corner && { corner }),
+      });
+    });
+  });
 
-  for (const edge of edges) {
-    const count = distribution[edge];
-    if (count === 0) continue;
+  return slots;
+}
 
-    const edgeSlots = calculateEdgeSlots(
+/**
+ * Calculates the slots of an edge, sharing its pictures across its rows,
+ * outer rows taking any remainder, with the corner cells at the ends of
+ * their rows
+ *
+ * All rows are sized for the fullest one, so that the slots of an edge are
+ * alike, and corner cells are no longer than the slots next to them.
+ */
+function calculateRowSlots(
+  edge: BorderEdge,
+  count: number,
+  cornerCells: CornerCell[],
+  rows: EdgeRow[],
+  geometry: BorderGeometry
+): Array<{ rect: SlotRect; corner?: BorderCorner }> {
+  const base = Math.floor(count / rows.length);
+  const remainder = count % rows.length;
+  const fullest = Math.ceil(count / rows.length);
+
+  return rows.flatMap((row, rowIndex) => {
+    const laneSlots = calculateEdgeSlots(
       edge,
-      count,
-      edgeLengths[edge],
-      borderWidth,
-      pageWidth,
-      pageHeight,
-      margin,
-      spacing,
-      slotIndex
+      base + (rowIndex < remainder ? 1 : 0),
+      row,
+      geometry.borderWidth,
+      geometry.spacing,
+      fullest
     );
+    const cells = fitCornerCells(
+      cornerCells.filter((cell) => cell.row === rowIndex),
+      calculateSlotLength(row, fullest, geometry.spacing)
+    ).sort((a, b) => a.rect.x - b.rect.x);
+    // Corner cells sit at the ends of their row
+    return [
+      ...cells.filter((cell) => cell.corner.endsWith('-left')),
+      ...laneSlots.map((rect) => ({ rect })),
+      ...cells.filter((cell) => cell.corner.endsWith('-right')),
+    ];
+  });
+}
+
+/**
+ * Calculates the slots of an edge with featured pictures
+ *
+ * Standard pictures take the corner cells first, no longer than the slots of
+ * the lanes. The other pictures are
+ * packed into a grid over the rows of the edge (see `packSpans`), as deep as
+ * the rows and as long as the pictures need, each spanning its columns along
+ * the edge and its rows across it.
+ * @returns Slots in the order of the pictures
+ */
+function calculateFeaturedEdgeSlots(
+  edge: BorderEdge,
+  spans: SpanSize[],
+  cornerCells: CornerCell[],
+  rows: EdgeRow[],
+  geometry: BorderGeometry
+): Array<{ rect: SlotRect; corner?: BorderCorner }> {
+  const { borderWidth, spacing } = geometry;
+  const isHorizontal = edge === 'top' || edge === 'bottom';
+  const slots = new Array<{ rect: SlotRect; corner?: BorderCorner }>(spans.length);
+
+  // Outer rows first
+  const freeCells = [...cornerCells].sort((a, b) => a.row - b.row || a.rect.x - b.rect.x);
+  const inLanes: number[] = [];
+  const inCells: Array<[number, CornerCell]> = [];
+  spans.forEach((span, i) => {
+    const cell = span.along === 1 && span.across === 1 ? freeCells.shift() : undefined;
+    if (cell) {
+      inCells.push([i, cell]);
+    } else {
+      inLanes.push(i);
+    }
+  });
+
+  const laneSpans = inLanes.map((i) => spans[i]);
+  const laneCells = laneSpans.reduce((sum, span) => sum + span.along * span.across, 0);
+  const grid = packSpans(laneSpans, rows.length, Math.ceil(laneCells / rows.length));
+  const slotSize = Math.max(
+    0,
+    Math.floor((rows[0].length - (grid.columns + 1) * spacing) / grid.columns)
+  );
 
-    slots.push(...edgeSlots);
-    slotIndex += count;
+  for (const [i, cell] of inCells) {
+    slots[i] = fitCornerCells([cell], inLanes.length > 0 ? slotSize : Infinity)[0];
   }
 
+  inLanes.forEach((i, k) => {
+    const { row, column, along, across } = grid.placements[k];
+    const slot = calculateSlotPosition(edge, column, slotSize, rows[row], borderWidth, spacing);
+    const spanned = rows.slice(row, row + across);
+    const length = along * slotSize + (along - 1) * spacing;
+    slots[i] = {
+      rect: isHorizontal
+        ? {
+            ...slot,
+            y: Math.min(...spanned.map((spannedRow) => spannedRow.y)),
+            width: length,
+            height: across * borderWidth,
+          }
+        : {
+            ...slot,
+            x: Math.min(...spanned.map((spannedRow) => spannedRow.x)),
+            width: across * borderWidth,
+            height: length,
+          },
+    };
+  });
   return slots;
 }
 
 /**
- * Calculates slots for a single edge
+ * Shortens corner cells to the length of the slots of their row, keeping them
+ * next to the row's lane
+ */
+function fitCornerCells(cells: CornerCell[], slotLength: number): CornerCell[] {
+  return cells.map((cell) => {
+    const width = Math.min(cell.rect.width, slotLength);
+    // Cells of the left corners end where the lane starts
+    const x = cell.corner.endsWith('-left') ? cell.rect.x + cell.rect.width - width : cell.rect.x;
+    return { ...cell, rect: { ...cell.rect, x, width } };
+  });
+}
+
+/**
+ * Calculates the length of the slots of a row sized for a number of pictures
+ */
+function calculateSlotLength(row: EdgeRow, count: number, spacing: number): number {
+  if (count <= 0) return Infinity;
+  // Total spacing = (count - 1) * spacing + 2 * spacing for edges
+  return Math.max(0, Math.floor((row.length - (count + 1) * spacing) / count));
+}
+
+/**
+ * Calculates slots for a single row of an edge
+ * @param sizedFor - Number of pictures the slots are sized for, when the row
+ *   holds fewer than the other rows of its edge
  */
 function calculateEdgeSlots(
   edge: BorderEdge,
   count: number,
-  edgeLength: number,
+  row: EdgeRow,
   borderWidth: number,
-  pageWidth: number,
-  pageHeight: number,
-  margin: { top: number; right: number; bottom: number; left: number },
   spacing: number,
-  startIndex: number
-): PictureSlot[] {
-  const slots: PictureSlot[] = [];
+  sizedFor = count
+): Array<{ x: number; y: number; width: number; height: number }> {
+  const slots: Array<{ x: number; y: number; width: number; height: number }> = [];
 
   // Calculate slot size based on edge length and number of pictures
-  // Total spacing = (count - 1) * spacing + 2 * spacing for edges
-  const totalSpacing = count > 0 ? (count + 1) * spacing : 0;
-  const availableLength = edgeLength - totalSpacing;
-  const slotSize = count > 0 ? Math.max(0, Math.floor(availableLength / count)) : 0;
+  const slotSize = count > 0 ? calculateSlotLength(row, sizedFor, spacing) : 0;
 
   for (let i = 0; i < count; i++) {
-    const position = calculateSlotPosition(
-      edge,
-      i,
-      count,
-      slotSize,
-      borderWidth,
-      pageWidth,
-      pageHeight,
-      margin,
-      spacing
-    );
-
-    slots.push({
-      id: `slot-${startIndex + i}`,
-      edge,
-      x: position.x,
-      y: position.y,
-      width: position.width,
-      height: position.height,
-      edgeIndex: i,
-    });
+    slots.push(calculateSlotPosition(edge, i, slotSize, row, borderWidth, spacing));
   }
 
   return slots;
@@ -287,12 +657,9 @@ function calculateEdgeSlots(
 function calculateSlotPosition(
   edge: BorderEdge,
   index: number,
-  _count: number,
   slotSize: number,
+  row: EdgeRow,
   borderWidth: number,
-  pageWidth: number,
-  pageHeight: number,
-  margin: { top: number; right: number; bottom: number; left: number },
   spacing: number
 ): { x: number; y: number; width: number; height: number } {
   // Calculate the offset along the edge
@@ -300,30 +667,18 @@ function calculateSlotPosition(
 
   switch (edge) {
     case 'top':
-      return {
-        x: margin.left + offset,
-        y: margin.top,
-        width: slotSize,
-        height: borderWidth,
-      };
     case 'bottom':
       return {
-        x: margin.left + offset,
-        y: pageHeight - margin.bottom - borderWidth,
+        x: row.x + offset,
+        y: row.y,
         width: slotSize,
         height: borderWidth,
       };
     case 'left':
-      return {
-        x: margin.left,
-        y: margin.top + borderWidth + offset,
-        width: borderWidth,
-        height: slotSize,
-      };
     case 'right':
       return {
-        x: pageWidth - margin.right - borderWidth,
-        y: margin.top + borderWidth + offset,
+        x: row.x,
+        y: row.y + offset,
         width: borderWidth,
         height: slotSize,
       };
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { getSpanSize, isFeatured, packSpans } from './picture-span';
+import { validateImageMetadata } from './validators';
+
+const standard = { along: 1, across: 1 };
+
+describe('getSpanSize', () => {
+  it('should read the cells along and across the edge', () => {
+    expect(getSpanSize('2x1', 2)).toEqual({ along: 2, across: 1 });
+    expect(getSpanSize('2x2', 2)).toEqual({ along: 2, across: 2 });
+  });
+
+  it('should treat pictures without a span as one cell', () => {
+    expect(getSpanSize(undefined, 3)).toEqual(standard);
+  });
+
+  it('should keep pictures no deeper than the rows of the edge', () => {
+    expect(getSpanSize('2x2', 1)).toEqual({ along: 2, across: 1 });
+  });
+});
+
+describe('isFeatured', () => {
+  it('should tell featured pictures from standard ones', () => {
+    expect(isFeatured('2x1')).toBe(true);
+    expect(isFeatured('1x1')).toBe(false);
+    expect(isFeatured(undefined)).toBe(false);
+  });
+});
+
+describe('packSpans', () => {
+  it('should pack standard pictures around a featured one', () => {
+    const grid = packSpans([{ along: 2, across: 2 }, standard, standard, standard, standard], 2, 4);
+
+    expect(grid.placements.map(({ row, column }) => [row, column])).toEqual([
+      [0, 0],
+      [0, 2],
+      [0, 3],
+      [1, 2],
+      [1, 3],
+    ]);
+    expect(grid).toMatchObject({ rows: 2, columns: 4 });
+  });
+
+  it('should fill gaps with later pictures', () => {
+    const grid = packSpans([standard, { along: 2, across: 2 }, standard], 2, 3);
+    // The last picture goes under the first, beside the featured one
+    expect(grid.placements.map(({ row, column }) => [row, column])).toEqual([
+      [0, 0],
+      [0, 1],
+      [1, 0],
+    ]);
+    expect(grid.columns).toBe(3);
+  });
+
+  it('should widen the grid for pictures that do not fit', () => {
+    expect(packSpans([standard, standard, standard], 1, 2).columns).toBe(3);
+  });
+
+  it('should report the rows and columns in use', () => {
+    expect(packSpans([standard, standard], 3, 4)).toMatchObject({ rows: 1, columns: 2 });
+  });
+
+  it('should cut pictures deeper than the grid to its rows', () => {
+    const grid = packSpans([{ along: 2, across: 2 }], 1, 2);
+    expect(grid.placements[0]).toEqual({ row: 0, column: 0, along: 2, across: 1 });
+  });
+});
+
+describe('validateImageMetadata span', () => {
+  it('should accept the supported spans', () => {
+    expect(validateImageMetadata({ filePath: 'a.jpg', span: '2x2' }).valid).toBe(true);
+  });
+
+  it('should reject other spans', () => {
+    expect(validateImageMetadata({ filePath: 'a.jpg', span: '3x1' }).errors).toEqual([
+      'span must be one of: 1x1, 2x1, 2x2',
+    ]);
+  });
+});
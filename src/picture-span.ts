@@ -0,0 +1,112 @@
+/**
+ * Featured pictures
+ *
+ * Pictures with a `span` take more than one slot of the border. The pictures
+ * of an edge with featured pictures are packed into a grid of slots, rows
+ * along the edge from the outside in, with the standard pictures filling the
+ * space around the featured ones.
+ */
+
+import { PictureSpan } from './types';
+
+/**
+ * Size of a picture in grid cells
+ */
+export interface SpanSize {
+  /** Cells along the edge */
+  along: number;
+  /** Rows across the edge */
+  across: number;
+}
+
+/**
+ * Cells a picture takes in the grid of an edge
+ */
+export interface SpanPlacement extends SpanSize {
+  /** Row of the picture, from the outside in */
+  row: number;
+  /** Column of the picture, from the left or top end of the edge */
+  column: number;
+}
+
+/**
+ * Pictures packed into the grid of an edge
+ */
+export interface SpanGrid {
+  /** Cells of each picture, in the order of the pictures */
+  placements: SpanPlacement[];
+  /** Rows the pictures take */
+  rows: number;
+  /** Columns the pictures take */
+  columns: number;
+}
+
+/**
+ * Gets the size of a picture in grid cells
+ * @param span - Span of the picture (default: '1x1')
+ * @param rows - Rows of the edge, which limit how deep the picture is
+ * @returns Cells along and across the edge
+ */
+export function getSpanSize(span: PictureSpan | undefined, rows: number): SpanSize {
+  const [along, across] = (span ?? '1x1').split('x').map(Number);
+  return { along, across: Math.max(1, Math.min(across, rows)) };
+}
+
+/**
+ * Checks whether a picture takes more than one slot
+ */
+export function isFeatured(span: PictureSpan | undefined): boolean {
+  return span !== undefined && span !== '1x1';
+}
+
+/**
+ * Packs pictures into a grid of cells
+ *
+ * Each picture takes the first place where it fits, scanning the outer row
+ * from its start, then the next row, so that standard pictures fill the gaps
+ * left by featured ones. A picture that fits nowhere widens the grid.
+ * @param spans - Sizes of the pictures; those deeper than the grid are cut to its rows
+ * @param rows - Rows of the grid
+ * @param columns - Columns of the grid before it is widened
+ * @returns Cells of the pictures and the extent of the grid they take
+ */
+export function packSpans(spans: SpanSize[], rows: number, columns: number): SpanGrid {
+  const depth = Math.max(1, rows);
+  const occupied: boolean[][] = Array.from({ length: depth }, () => []);
+  const isFree = (row: number, column: number, { along, across }: SpanSize) => {
+    for (let r = row; r < row + across; r++) {
+      for (let c = column; c < column + along; c++) {
+        if (occupied[r][c]) return false;
+      }
+    }
+    return true;
+  };
+  const findPlace = (span: SpanSize, width: number) => {
+    for (let row = 0; row + span.across <= depth; row++) {
+      for (let column = 0; column + span.along <= width; column++) {
+        if (isFree(row, column, span)) return { row, column };
+      }
+    }
+    return undefined;
+  };
+
+  let width = Math.max(1, columns);
+  const grid: SpanGrid = { placements: [], rows: 0, columns: 0 };
+  for (const { along, across } of spans) {
+    const span = { along, across: Math.min(across, depth) };
+    let place = findPlace(span, width);
+    while (!place) {
+      width++;
+      place = findPlace(span, width);
+    }
+    for (let r = place.row; r < place.row + span.across; r++) {
+      for (let c = place.column; c < place.column + span.along; c++) {
+        occupied[r][c] = true;
+      }
+    }
+    grid.placements.push({ ...place, ...span });
+    grid.rows = Math.max(grid.rows, place.row + span.across);
+    grid.columns = Math.max(grid.columns, place.column + span.along);
+  }
+  return grid;
+}
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { composePicMap, renderPicMap } from './index';
+import { ConfigValidationError, resolveImageReference } from './loaders';
+import { PicMapConfig } from './types';
+
+// A 1x1 red PNG
+const PNG_DATA = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+function createConfig(overrides: Partial<PicMapConfig> = {}): PicMapConfig {
+  return {
+    title: 'Pipeline Test',
+    layout: {
+      pageSize: 'A4',
+      orientation: 'landscape',
+      borderWidth: 40,
+      pictureSpacing: 5,
+      margin: { top: 10, right: 10, bottom: 10, left: 10 },
+    },
+    map: {
+      provider: 'openstreetmap',
+      zoom: 12,
+      center: { latitude: 51.5074, longitude: -0.1278 },
+    },
+    images: [{ filePath: 'photos/tower.png' }, { filePath: 'photos/bridge.png' }],
+    links: [
+      { imageId: '0', location: { latitude: 51.5081, longitude: -0.0759 }, label: 'A' },
+      { imageId: 'bridge', location: { latitude: 51.5055, longitude: -0.0754 }, label: 'B' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('resolveImageReference', () => {
+  const images = [{ filePath: 'photos/tower.jpg' }, { filePath: '/abs/bridge.png' }];
+
+  it('should resolve indices', () => {
+    expect(resolveImageReference(images, '1')).toBe(1);
+    expect(resolveImageReference(images, '2')).toBeUndefined();
+  });
+
+  it('should resolve file paths and file names', () => {
+    expect(resolveImageReference(images, 'photos/tower.jpg')).toBe(0);
+    expect(resolveImageReference(images, 'bridge.png')).toBe(1);
+    expect(resolveImageReference(images, 'bridge')).toBe(1);
+    expect(resolveImageReference(images, 'castle')).toBeUndefined();
+  });
+});
+
+describe('renderPicMap', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-pipeline-'));
+    writeFileSync(join(tempDir, 'tower.png'), PNG_DATA);
+    writeFileSync(join(tempDir, 'bridge.png'), PNG_DATA);
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should render a config to SVG by default using the layout page size', async () => {
+    const result = await renderPicMap(createConfig());
+
+    expect(result.format).toBe('svg');
+    expect(result.widthMm).toBe(297);
+    expect(result.heightMm).toBe(210);
+    expect(result.data as string).toContain('<title>Pipeline Test</title>');
+  });
+
+  it('should export to the requested format', async () => {
+    const result = await renderPicMap(createConfig(), {
+      format: 'pdf',
+      pageSize: 'A3',
+      orientation: 'portrait',
+      dpi: 150,
+    });
+
+    expect(result.format).toBe('pdf');
+    expect(result.widthMm).toBe(297);
+    expect(result.heightMm).toBe(420);
+    expect((result.data as Buffer).subarray(0, 4).toString('ascii')).toBe('%PDF');
+  });
+
+  it('should resolve image references and load images relative to baseDir', async () => {
+    const config = createConfig({
+      images: [{ filePath: 'tower.png' }, { filePath: 'bridge.png' }],
+    });
+    const result = await renderPicMap(config, { baseDir: tempDir });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.data as string).toContain('data:image/png;base64,');
+  });
+
+  it('should report images drawn as placeholders', async () => {
+    const result = await renderPicMap(createConfig());
+
+    expect(result.warnings.filter((w) => w.code === 'image-placeholder')).toEqual([
+      expect.objectContaining({ imageIndex: 0 }),
+      expect.objectContaining({ imageIndex: 1 }),
+    ]);
+  });
+
+  it('should report unresolved and duplicate image references', async () => {
+    const location = { latitude: 51.5074, longitude: -0.1278 };
+    const config = createConfig({
+      links: [
+        { imageId: '0', location },
+        { imageId: 'castle', location },
+        { imageId: 'tower', location },
+      ],
+    });
+    const { warnings } = await renderPicMap(config, { baseDir: tempDir });
+
+    expect(warnings).toContainEqual(
+      expect.objectContaining({ code: 'unresolved-image', linkIndex: 1 })
+    );
+    expect(warnings).toContainEqual(
+      expect.objectContaining({ code: 'duplicate-image-link', linkIndex: 2, imageIndex: 0 })
+    );
+  });
+
+  it('should report markers outside the map area', async () => {
+    const config = createConfig({
+      links: [{ imageId: '0', location: { latitude: 48.8566, longitude: 2.3522 } }],
+    });
+    const { warnings } = await renderPicMap(config);
+
+    expect(warnings).toContainEqual(
+      expect.objectContaining({ code: 'marker-outside-map', linkIndex: 0, imageIndex: 0 })
+    );
+  });
+
+  it('should warn about pictures the border has no room for', () => {
+    const images = Array.from({ length: 60 }, (_, i) => ({ filePath: `photos/${i}.png` }));
+    const { compositor, input, warnings } = composePicMap(createConfig({ images, links: [] }));
+    const placed = compositor.createLayout(input).pictures.map((picture) => picture.imageIndex);
+    const notPlaced = warnings.filter((warning) => warning.code === 'picture-not-placed');
+
+    expect(placed.length).toBeLessThan(60);
+    expect(notPlaced.map((warning) => warning.imageIndex)).toEqual(
+      images.map((_, i) => i).filter((i) => !placed.includes(i))
+    );
+    expect(notPlaced[0].message).toContain('does not fit in the border');
+  });
+
+  it('should frame automatically fitted maps around the markers', () => {
+    const config = createConfig({
+      map: { provider: 'openstreetmap', fit: 'auto', fitPadding: 0.05 },
+      links: [
+        { imageId: '0', location: { latitude: 48.8566, longitude: 2.3522 } },
+        { imageId: '1', location: { latitude: 51.5074, longitude: -0.1278 } },
+      ],
+    });
+    const { compositor, input, warnings } = composePicMap(config);
+    const { mapArea } = compositor.createLayout(input);
+
+    expect(warnings).toEqual([]);
+    expect(input.map.view?.zoom).toBeGreaterThan(5);
+    for (const { markerPosition } of input.links) {
+      expect(markerPosition.x).toBeGreaterThanOrEqual(mapArea.width * 0.05 - 1e-6);
+      expect(markerPosition.x).toBeLessThanOrEqual(mapArea.width * 0.95 + 1e-6);
+      expect(markerPosition.y).toBeGreaterThanOrEqual(mapArea.height * 0.05 - 1e-6);
+      expect(markerPosition.y).toBeLessThanOrEqual(mapArea.height * 0.95 + 1e-6);
+    }
+  });
+
+  it('should style markers, lines and frames by category and add a legend', () => {
+    const config = createConfig({
+      categories: [
+        { id: 'sights', label: 'Sights', color: '#8e44ad', icon: 'star' },
+        { id: 'unused', label: 'Unused', color: '#16a085' },
+      ],
+      links: [
+        { imageId: '0', location: { latitude: 51.5081, longitude: -0.0759 }, category: 'sights' },
+        {
+          imageId: '1',
+          location: { latitude: 51.5055, longitude: -0.0754 },
+          category: 'sights',
+          style: { lineColor: '#000000' },
+        },
+      ],
+    });
+    const { input } = composePicMap(config);
+
+    expect(input.links.map((link) => [link.style?.lineColor, link.frameColor])).toEqual([
+      ['#8e44ad', '#8e44ad'],
+      ['#000000', '#8e44ad'],
+    ]);
+    expect(input.map.svg).toContain('#marker-icon-star');
+    // Only the categories in use are listed
+    expect(input.map.svg).toContain('>Sights</text>');
+    expect(input.map.svg).not.toContain('>Unused</text>');
+
+    const hidden = composePicMap({ ...config, legend: { show: false } });
+    expect(hidden.input.map.svg).not.toContain('class="legend"');
+  });
+
+  it('should number itinerary links in visiting order and draw their route', () => {
+    const config = createConfig({
+      itinerary: {},
+      images: [
+        { filePath: 'photos/tower.png' },
+        { filePath: 'photos/bridge.png' },
+        { filePath: 'photos/abbey.png' },
+      ],
+      links: [
+        { imageId: '0', location: { latitude: 51.5081, longitude: -0.0759 }, order: 3 },
+        { imageId: '1', location: { latitude: 51.5055, longitude: -0.0754 }, order: 1 },
+        { imageId: '2', location: { latitude: 51.4994, longitude: -0.1273 }, order: 2 },
+      ],
+    });
+    const { compositor, input } = composePicMap(config);
+
+    expect(input.links.map((link) => link.label)).toEqual(['3', '1', '2']);
+    expect(input.links.map((link) => link.order)).toEqual([2, 0, 1]);
+    expect(input.map.svg).toContain('class="map-overlay-line"');
+
+    // The pictures run clockwise from the first place visited
+    const { pictures } = compositor.createLayout(input);
+    expect(pictures.map((picture) => picture.imageIndex)).toEqual([1, 2, 0]);
+
+    const noRoute = composePicMap({ ...config, itinerary: { route: false } });
+    expect(noRoute.input.map.svg).not.toContain('class="map-overlay-line"');
+  });
+
+  it('should throw ConfigValidationError for invalid configs', async () => {
+    const config = createConfig({ title: '' });
+
+    await expect(renderPicMap(config)).rejects.toThrow(ConfigValidationError);
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * One-call rendering pipeline for Pic-Map
+ *
+ * Runs every stage for a configuration: renders the map, resolves the links
+ * to images and marker positions, composes the picture border and exports
+ * the result.
+ */
+
+import { PicMapConfig } from './types';
+import { validatePicMapConfig } from './validators';
+import { ConfigValidationError, resolveImageReference } from './loaders';
+import { createItineraryRoute, itineraryOrder } from './itinerary';
+import { MapEngine } from './map-engine/engine';
+import { geoToViewportPixel } from './map-engine/coordinates';
+import { placeMarkers } from './map-engine/clustering';
+import { Compositor, createCompositorFromLayout } from './compositor/compositor';
+import { CompositionInput } from './compositor/types';
+import { DEFAULT_EXPORT_CONFIG, ExportConfig, ExportEngine, ExportResult } from './export-engine';
+
+/**
+ * Options for renderPicMap
+ *
+ * Export options default to the export engine defaults, except `pageSize`
+ * and `orientation`, which default to the configuration's layout, and
+ * `title`, which defaults to the configuration's title.
+ */
+export interface RenderPicMapOptions extends Partial<ExportConfig> {
+  /** Directory used to resolve relative image and basemap paths (default: current directory) */
+  baseDir?: string;
+}
+
+/**
+ * Kinds of problems reported by renderPicMap
+ */
+export type PicMapWarningCode =
+  /** A link's imageId does not match any image; the marker is drawn without a link */
+  | 'unresolved-image'
+  /** An image is referenced by more than one link; only the first link is drawn */
+  | 'duplicate-image-link'
+  /** A link's location lies outside the visible map area */
+  | 'marker-outside-map'
+  /** An image file could not be loaded and was drawn as a placeholder */
+  | 'image-placeholder'
+  /** The border has no room left for an image; it is left out of the page */
+  | 'picture-not-placed'
+  /** Any other problem reported while composing the page */
+  | 'composition';
+
+/**
+ * A non-fatal problem encountered while rendering
+ */
+export interface PicMapWarning {
+  /** Kind of problem */
+  code: PicMapWarningCode;
+  /** Human-readable description */
+  message: string;
+  /** Index of the link in `config.links`, if the warning concerns a link */
+  linkIndex?: number;
+  /** Index of the image in `config.images`, if the warning concerns an image */
+  imageIndex?: number;
+}
+
+/**
+ * Result of renderPicMap: the export result plus any warnings
+ */
+export interface RenderPicMapResult extends ExportResult {
+  /** Non-fatal problems, in the order they were found */
+  warnings: PicMapWarning[];
+}
+
+/**
+ * Converts a compositor warning to a structured warning
+ */
+function compositionWarning(message: string): PicMapWarning {
+  const placeholder = /^Image (\d+) rendered as placeholder/.exec(message);
+  if (placeholder) {
+    return { code: 'image-placeholder', message, imageIndex: parseInt(placeholder[1], 10) };
+  }
+  return { code: 'composition', message };
+}
+
+/**
+ * Options for composePicMap
+ */
+export interface ComposePicMapOptions {
+  /** Resolution the composition is laid out at (default: the export engine default) */
+  dpi?: number;
+  /** Directory used to resolve relative image and basemap paths (default: current directory) */
+  baseDir?: string;
+}
+
+/**
+ * A configuration prepared for composition: the compositor, its input and
+ * the warnings found while resolving the links
+ */
+export interface PicMapComposition {
+  /** Compositor configured from the layout */
+  compositor: Compositor;
+  /** The rendered map, the images and the resolved links */
+  input: CompositionInput;
+  /** Non-fatal problems found while resolving the links */
+  warnings: PicMapWarning[];
+}
+
+/**
+ * Converts compositor warnings to structured warnings
+ *
+ * @param messages - Warnings from `RenderedComposition.warnings`
+ * @returns Structured warnings, in the same order
+ */
+export function toPicMapWarnings(messages: string[]): PicMapWarning[] {
+  return messages.map(compositionWarning);
+}
+
+/**
+ * Validates a configuration, renders its map and resolves its links, ready
+ * for `Compositor.render` or `Compositor.preview`
+ *
+ * @param config - The configuration to compose
+ * @param options - Resolution and path options
+ * @returns The compositor, its input and any link warnings
+ * @throws ConfigValidationError if the configuration is invalid
+ */
+export function composePicMap(
+  config: PicMapConfig,
+  options: ComposePicMapOptions = {}
+): PicMapComposition {
+  const validation = validatePicMapConfig(config);
+  if (!validation.valid) {
+    throw new ConfigValidationError('Configuration validation failed', validation.errors);
+  }
+
+  const { baseDir } = options;
+  const dpi = options.dpi ?? DEFAULT_EXPORT_CONFIG.dpi ?? 300;
+  const warnings: PicMapWarning[] = [];
+
+  // In itinerary mode, links are numbered in visiting order unless they have their own labels
+  const itinerary = config.itinerary ? itineraryOrder(config.links, config.images) : null;
+  const stops = new Map(itinerary?.map((linkIndex, stop) => [linkIndex, stop]));
+  const configLinks = itinerary
+    ? config.links.map((link, i) => ({ ...link, label: link.label ?? String(stops.get(i)! + 1) }))
+    : config.links;
+  const route =
+    itinerary && config.itinerary?.route !== false
+      ? createItineraryRoute(config.links, itinerary, config.itinerary?.routeStyle)
+      : null;
+
+  const compositor = createCompositorFromLayout(
+    itinerary && !config.layout.distribution
+      ? { ...config.layout, distribution: 'itinerary' }
+      : config.layout,
+    config.pictureBorder,
+    config.linkStyle,
+    dpi,
+    config.title,
+    config.description,
+    baseDir
+  );
+
+  // Lay out the border first to find the size of the map area
+  const { mapArea } = compositor.createLayout({
+    map: {
+      svg: '',
+      width: 0,
+      height: 0,
+      bounds: { north: 0, south: 0, east: 0, west: 0 },
+      view: { center: { latitude: 0, longitude: 0 }, zoom: 0 },
+    },
+    images: config.images,
+    links: [],
+  });
+
+  // The legend lists the categories that links use
+  const usedCategories = (config.categories ?? []).filter((category) =>
+    configLinks.some((link) => link.category === category.id)
+  );
+
+  const map = new MapEngine().renderMap({
+    style: config.map,
+    width: mapArea.width,
+    height: mapArea.height,
+    markers: MapEngine.createMarkersFromLinks(configLinks, config.categories),
+    backgroundColor: '#ffffff',
+    baseDir,
+    overlays: route ? [route] : undefined,
+    legend:
+      usedCategories.length > 0 && config.legend?.show !== false
+        ? MapEngine.createLegendFromCategories(usedCategories, config.legend?.title)
+        : undefined,
+  });
+  // The view the map was drawn at, after automatic framing
+  const { view } = map;
+
+  // Each link points to its own marker, which may be placed on a cluster badge or in a fan
+  const placement = placeMarkers(
+    config.links.map((link) => link.location),
+    { ...config.map, ...view },
+    mapArea.width,
+    mapArea.height
+  );
+
+  // Resolve each link to its image and the marker position on the map
+  const links: CompositionInput['links'] = [];
+  const linkedImages = new Set<number>();
+  configLinks.forEach((link, linkIndex) => {
+    const imageIndex = resolveImageReference(config.images, link.imageId);
+    if (imageIndex === undefined) {
+      warnings.push({
+        code: 'unresolved-image',
+        message: `Link ${linkIndex} references non-existent image ID: ${link.imageId}`,
+        linkIndex,
+      });
+      return;
+    }
+    if (linkedImages.has(imageIndex)) {
+      warnings.push({
+        code: 'duplicate-image-link',
+        message: `Link ${linkIndex} references image ${imageIndex}, which is already linked`,
+        linkIndex,
+        imageIndex,
+      });
+      return;
+    }
+    linkedImages.add(imageIndex);
+
+    // Markers hidden on the far side of an orthographic globe have no placed position
+    const placed = placement.positions[linkIndex];
+    const markerPosition =
+      placed ??
+      geoToViewportPixel(
+        link.location,
+        view.center,
+        view.zoom,
+        mapArea.width,
+        mapArea.height,
+        config.map.projection
+      );
+    if (
+      !placed ||
+      markerPosition.x < 0 ||
+      markerPosition.y < 0 ||
+      markerPosition.x > mapArea.width ||
+      markerPosition.y > mapArea.height
+    ) {
+      warnings.push({
+        code: 'marker-outside-map',
+        message: `Link ${linkIndex} location is outside the visible map area`,
+        linkIndex,
+        imageIndex,
+      });
+    }
+
+    // Links in a category take its color for their line and picture frame
+    const category = config.categories?.find((candidate) => candidate.id === link.category);
+    links.push({
+      imageIndex,
+      markerPosition,
+      label: link.label,
+      style: category ? { lineColor: category.color, ...link.style } : link.style,
+      frameColor: category?.color,
+      order: stops.get(linkIndex),
+    });
+  });
+
+  // Pictures the border has no room for are left out
+  const input: CompositionInput = { map, images: config.images, links };
+  const placedImages = new Set(
+    compositor.createLayout(input).pictures.map((picture) => picture.imageIndex)
+  );
+  config.images.forEach((image, imageIndex) => {
+    if (!placedImages.has(imageIndex)) {
+      warnings.push({
+        code: 'picture-not-placed',
+        message: `Image ${imageIndex} (${image.filePath}) does not fit in the border and was left out`,
+        imageIndex,
+      });
+    }
+  });
+
+  return { compositor, input, warnings };
+}
+
+/**
+ * Renders a Pic-Map configuration and exports it in one call
+ *
+ * @param config - The configuration to render
+ * @param options - Export and path options
+ * @returns The export result with structured warnings
+ * @throws ConfigValidationError if the configuration is invalid
+ * @throws ExportError if the export fails
+ *
+ * @example
+ * ```typescript
+ * const config = await loadConfigFromFile('trip.json');
+ * const result = await renderPicMap(config, { format: 'pdf', baseDir: '.' });
+ * await writeFile('trip.pdf', result.data);
+ * ```
+ */
+export async function renderPicMap(
+  config: PicMapConfig,
+  options: RenderPicMapOptions = {}
+): Promise<RenderPicMapResult> {
+  const { baseDir, ...exportOptions } = options;
+  const dpi = exportOptions.dpi ?? DEFAULT_EXPORT_CONFIG.dpi ?? 300;
+
+  const { compositor, input, warnings } = composePicMap(config, { dpi, baseDir });
+  const composition = compositor.render(input);
+  warnings.push(...toPicMapWarnings(composition.warnings));
+
+  const layoutPageSize =
+    config.layout.pageSize === 'custom' ? config.layout.customDimensions : config.layout.pageSize;
+  const result = await new ExportEngine().export(
+    { svg: composition.svg, width: composition.width, height: composition.height },
+    {
+      ...exportOptions,
+      format: exportOptions.format ?? DEFAULT_EXPORT_CONFIG.format,
+      pageSize: exportOptions.pageSize ?? layoutPageSize,
+      orientation: exportOptions.orientation ?? config.layout.orientation,
+      title: exportOptions.title ?? config.title,
+      dpi,
+    }
+  );
+
+  return { ...result, warnings };
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { applyConfigEdit, ConfigEditError, parseConfigEdit } from './config-edits';
+import { PicMapConfig } from '../types';
+
+const config: PicMapConfig = {
+  title: 'Edit Test',
+  layout: {
+    pageSize: 'A4',
+    orientation: 'landscape',
+    borderWidth: 40,
+    pictureSpacing: 5,
+    margin: { top: 10, right: 10, bottom: 10, left: 10 },
+  },
+  map: {
+    provider: 'openstreetmap',
+    zoom: 12,
+    center: { latitude: 51.5074, longitude: -0.1278 },
+  },
+  images: [
+    { filePath: 'tower.jpg', caption: 'Tower', borderPosition: 'left' },
+    { filePath: 'bridge.jpg' },
+    { filePath: 'eye.jpg' },
+  ],
+  links: [
+    { imageId: '0', location: { latitude: 51.5081, longitude: -0.0759, name: 'Tower' } },
+    { imageId: 'bridge', location: { latitude: 51.5055, longitude: -0.0754 } },
+    { imageId: '2', location: { latitude: 51.5033, longitude: -0.1195 } },
+  ],
+};
+
+describe('parseConfigEdit', () => {
+  it('should parse each edit type', () => {
+    expect(parseConfigEdit({ type: 'swap-pictures', imageIndex: 0, targetIndex: 1 })).toEqual({
+      type: 'swap-pictures',
+      imageIndex: 0,
+      targetIndex: 1,
+    });
+    expect(parseConfigEdit({ type: 'move-picture-to-edge', imageIndex: 1, edge: null })).toEqual({
+      type: 'move-picture-to-edge',
+      imageIndex: 1,
+      edge: null,
+    });
+    expect(
+      parseConfigEdit({ type: 'move-marker', linkIndex: 0, latitude: 1, longitude: 2, extra: 1 })
+    ).toEqual({ type: 'move-marker', linkIndex: 0, latitude: 1, longitude: 2 });
+    expect(parseConfigEdit({ type: 'set-caption', imageIndex: 0, caption: 'Hi' })).toEqual({
+      type: 'set-caption',
+      imageIndex: 0,
+      caption: 'Hi',
+    });
+  });
+
+  it('should reject malformed edits', () => {
+    expect(() => parseConfigEdit(null)).toThrow(ConfigEditError);
+    expect(() => parseConfigEdit({ type: 'delete-picture' })).toThrow('Unknown edit type');
+    expect(() => parseConfigEdit({ type: 'swap-pictures', imageIndex: '0' })).toThrow(
+      'imageIndex must be an integer'
+    );
+    expect(() =>
+      parseConfigEdit({ type: 'move-picture-to-edge', imageIndex: 0, edge: 'middle' })
+    ).toThrow('edge must be one of');
+    expect(() =>
+      parseConfigEdit({ type: 'move-marker', linkIndex: 0, latitude: NaN, longitude: 0 })
+    ).toThrow('latitude must be a number');
+  });
+});
+
+describe('applyConfigEdit', () => {
+  it('should swap pictures and the links that refer to them by index', () => {
+    const result = applyConfigEdit(config, {
+      type: 'swap-pictures',
+      imageIndex: 0,
+      targetIndex: 2,
+    });
+
+    expect(result.images.map((image) => image.filePath)).toEqual([
+      'eye.jpg',
+      'bridge.jpg',
+      'tower.jpg',
+    ]);
+    expect(result.images[2].borderPosition).toBe('left');
+    expect(result.links.map((link) => link.imageId)).toEqual(['2', 'bridge', '0']);
+  });
+
+  it('should keep links by file name when swapping', () => {
+    const result = applyConfigEdit(config, {
+      type: 'swap-pictures',
+      imageIndex: 1,
+      targetIndex: 0,
+    });
+
+    expect(result.links.map((link) => link.imageId)).toEqual(['1', 'bridge', '2']);
+  });
+
+  it('should move pictures to an edge and back to automatic placement', () => {
+    const moved = applyConfigEdit(config, {
+      type: 'move-picture-to-edge',
+      imageIndex: 1,
+      edge: 'bottom',
+    });
+    const automatic = applyConfigEdit(config, {
+      type: 'move-picture-to-edge',
+      imageIndex: 0,
+      edge: null,
+    });
+
+    expect(moved.images[1]).toEqual({ filePath: 'bridge.jpg', borderPosition: 'bottom' });
+    expect(automatic.images[0]).toEqual({ filePath: 'tower.jpg', caption: 'Tower' });
+  });
+
+  it('should move markers and keep the location name', () => {
+    const result = applyConfigEdit(config, {
+      type: 'move-marker',
+      linkIndex: 0,
+      latitude: 51.123456789,
+      longitude: -0.1,
+    });
+
+    expect(result.links[0].location).toEqual({
+      latitude: 51.123457,
+      longitude: -0.1,
+      name: 'Tower',
+    });
+  });
+
+  it('should set and remove captions', () => {
+    const set = applyConfigEdit(config, {
+      type: 'set-caption',
+      imageIndex: 1,
+      caption: ' Bridge ',
+    });
+    const removed = applyConfigEdit(config, { type: 'set-caption', imageIndex: 0, caption: '' });
+
+    expect(set.images[1].caption).toBe('Bridge');
+    expect(removed.images[0]).not.toHaveProperty('caption');
+  });
+
+  it('should not modify the input configuration', () => {
+    const before = JSON.stringify(config);
+    applyConfigEdit(config, { type: 'set-caption', imageIndex: 0, caption: 'Changed' });
+    applyConfigEdit(config, { type: 'swap-pictures', imageIndex: 0, targetIndex: 1 });
+
+    expect(JSON.stringify(config)).toBe(before);
+  });
+
+  it('should reject edits that do not apply', () => {
+    expect(() =>
+      applyConfigEdit(config, { type: 'set-caption', imageIndex: 3, caption: 'x' })
+    ).toThrow('Image 3 is out of range');
+    expect(() =>
+      applyConfigEdit(config, { type: 'move-marker', linkIndex: 0, latitude: 95, longitude: 0 })
+    ).toThrow(ConfigEditError);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Edits applied to a PicMapConfig by the web editor
+ *
+ * Each edit is a small JSON object sent by the browser. Edits are validated,
+ * applied to a copy of the configuration and the result is validated again
+ * before it is written back.
+ */
+
+import { BorderEdge, GeoLocation, ImageMetadata, PicMapConfig } from '../types';
+import { validatePicMapConfig } from '../validators';
+import { resolveImageReference } from '../loaders';
+
+/**
+ * Swaps two pictures, including their border positions, so that each takes
+ * the other's slot
+ */
+export interface SwapPicturesEdit {
+  type: 'swap-pictures';
+  imageIndex: number;
+  targetIndex: number;
+}
+
+/**
+ * Places a picture on an edge of the border, or lets the layout choose when
+ * `edge` is null
+ */
+export interface MovePictureToEdgeEdit {
+  type: 'move-picture-to-edge';
+  imageIndex: number;
+  edge: BorderEdge | null;
+}
+
+/**
+ * Moves a link's map marker to a new location
+ */
+export interface MoveMarkerEdit {
+  type: 'move-marker';
+  linkIndex: number;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Sets a picture's caption; an empty caption removes it
+ */
+export interface SetCaptionEdit {
+  type: 'set-caption';
+  imageIndex: number;
+  caption: string;
+}
+
+/**
+ * An edit made in the web editor
+ */
+export type ConfigEdit = SwapPicturesEdit | MovePictureToEdgeEdit | MoveMarkerEdit | SetCaptionEdit;
+
+/**
+ * Error thrown for edits that are malformed or cannot be applied
+ */
+export class ConfigEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigEditError';
+  }
+}
+
+const EDGES: BorderEdge[] = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Decimal places kept for edited coordinates (about 0.1 m)
+ */
+const COORDINATE_PRECISION = 6;
+
+/**
+ * Reads a required integer field
+ */
+function integerField(edit: Record<string, unknown>, name: string): number {
+  const value = edit[name];
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new ConfigEditError(`${name} must be an integer`);
+  }
+  return value;
+}
+
+/**
+ * Reads a required finite number field
+ */
+function numberField(edit: Record<string, unknown>, name: string): number {
+  const value = edit[name];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ConfigEditError(`${name} must be a number`);
+  }
+  return value;
+}
+
+/**
+ * Parses an edit received from the browser
+ *
+ * @param value - The parsed request body
+ * @returns The edit
+ * @throws ConfigEditError if the edit is malformed
+ */
+export function parseConfigEdit(value: unknown): ConfigEdit {
+  if (typeof value !== 'object' || value === null) {
+    throw new ConfigEditError('Edit must be an object');
+  }
+
+  const edit = value as Record<string, unknown>;
+  switch (edit.type) {
+    case 'swap-pictures':
+      return {
+        type: 'swap-pictures',
+        imageIndex: integerField(edit, 'imageIndex'),
+        targetIndex: integerField(edit, 'targetIndex'),
+      };
+    case 'move-picture-to-edge': {
+      const edge = edit.edge;
+      if (edge !== null && !EDGES.includes(edge as BorderEdge)) {
+        throw new ConfigEditError(`edge must be one of: ${EDGES.join(', ')} or null`);
+      }
+      return {
+        type: 'move-picture-to-edge',
+        imageIndex: integerField(edit, 'imageIndex'),
+        edge: edge as BorderEdge | null,
+      };
+    }
+    case 'move-marker':
+      return {
+        type: 'move-marker',
+        linkIndex: integerField(edit, 'linkIndex'),
+        latitude: numberField(edit, 'latitude'),
+        longitude: numberField(edit, 'longitude'),
+      };
+    case 'set-caption':
+      if (typeof edit.caption !== 'string') {
+        throw new ConfigEditError('caption must be a string');
+      }
+      return {
+        type: 'set-caption',
+        imageIndex: integerField(edit, 'imageIndex'),
+        caption: edit.caption,
+      };
+    default:
+      throw new ConfigEditError(`Unknown edit type: ${String(edit.type)}`);
+  }
+}
+
+/**
+ * Checks that an index refers to an element of a list
+ */
+function checkIndex(index: number, length: number, name: string): void {
+  if (index < 0 || index >= length) {
+    throw new ConfigEditError(`${name} ${index} is out of range`);
+  }
+}
+
+/**
+ * Rounds a coordinate to the edit precision
+ */
+function roundCoordinate(value: number): number {
+  return Number(value.toFixed(COORDINATE_PRECISION));
+}
+
+/**
+ * Swaps two images and updates the links that refer to them by index
+ */
+function swapPictures(config: PicMapConfig, a: number, b: number): PicMapConfig {
+  const images = [...config.images];
+  [images[a], images[b]] = [images[b], images[a]];
+
+  const links = config.links.map((link) => {
+    // Links that refer to an image by file name still refer to the same image
+    const index = resolveImageReference(config.images, link.imageId);
+    if (link.imageId !== String(index)) return link;
+    if (index === a) return { ...link, imageId: String(b) };
+    if (index === b) return { ...link, imageId: String(a) };
+    return link;
+  });
+
+  return { ...config, images, links };
+}
+
+/**
+ * Applies an edit to a configuration
+ *
+ * @param config - A valid configuration
+ * @param edit - The edit to apply
+ * @returns A new configuration; the input is not modified
+ * @throws ConfigEditError if the edit does not apply to the configuration or
+ *   makes it invalid
+ */
+export function applyConfigEdit(config: PicMapConfig, edit: ConfigEdit): PicMapConfig {
+  let result: PicMapConfig;
+
+  switch (edit.type) {
+    case 'swap-pictures':
+      checkIndex(edit.imageIndex, config.images.length, 'Image');
+      checkIndex(edit.targetIndex, config.images.length, 'Image');
+      result = swapPictures(config, edit.imageIndex, edit.targetIndex);
+      break;
+    case 'move-picture-to-edge': {
+      checkIndex(edit.imageIndex, config.images.length, 'Image');
+      const images = [...config.images];
+      const image: ImageMetadata = { ...images[edit.imageIndex] };
+      if (edit.edge) {
+        image.borderPosition = edit.edge;
+      } else {
+        delete image.borderPosition;
+      }
+      images[edit.imageIndex] = image;
+      result = { ...config, images };
+      break;
+    }
+    case 'move-marker': {
+      checkIndex(edit.linkIndex, config.links.length, 'Link');
+      const links = [...config.links];
+      const link = links[edit.linkIndex];
+      const location: GeoLocation = {
+        ...link.location,
+        latitude: roundCoordinate(edit.latitude),
+        longitude: roundCoordinate(edit.longitude),
+      };
+      links[edit.linkIndex] = { ...link, location };
+      result = { ...config, links };
+      break;
+    }
+    case 'set-caption': {
+      checkIndex(edit.imageIndex, config.images.length, 'Image');
+      const images = [...config.images];
+      const image: ImageMetadata = { ...images[edit.imageIndex] };
+      const caption = edit.caption.trim();
+      if (caption) {
+        image.caption = caption;
+      } else {
+        delete image.caption;
+      }
+      images[edit.imageIndex] = image;
+      result = { ...config, images };
+      break;
+    }
+  }
+
+  const validation = validatePicMapConfig(result);
+  if (!validation.valid) {
+    throw new ConfigEditError(`Edit makes the configuration invalid: ${validation.errors[0]}`);
+  }
+  return result;
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PreviewServer } from './preview-server';
+import type { EditorLayout } from './editor';
+import { PicMapConfig } from '../types';
+
+const config: PicMapConfig = {
+  title: 'Editor Test',
+  layout: {
+    pageSize: 'A4',
+    orientation: 'landscape',
+    borderWidth: 30,
+    pictureSpacing: 5,
+    margin: { top: 10, right: 10, bottom: 10, left: 10 },
+  },
+  map: {
+    provider: 'openstreetmap',
+    zoom: 12,
+    center: { latitude: 51.5074, longitude: -0.1278 },
+  },
+  images: [{ filePath: 'tower.jpg' }, { filePath: 'bridge.jpg' }],
+  links: [
+    { imageId: '0', location: { latitude: 51.5074, longitude: -0.1278 }, label: 'A' },
+    { imageId: '1', location: { latitude: 51.5055, longitude: -0.0754 }, label: 'B' },
+  ],
+};
+
+const AUTH_HEADERS = { 'Remote-User': 'editor@example.com' };
+
+describe('editor', () => {
+  let tempDir: string;
+  let configPath: string;
+  let server: PreviewServer;
+  let url: string;
+
+  /**
+   * Posts an edit as an authenticated user
+   */
+  function postEdit(edit: unknown): Promise<Response> {
+    return fetch(`${url}editor/edits`, {
+      method: 'POST',
+      headers: { ...AUTH_HEADERS, 'Content-Type': 'application/json' },
+      body: JSON.stringify(edit),
+    });
+  }
+
+  function readConfig(): PicMapConfig {
+    return JSON.parse(readFileSync(configPath, 'utf-8')) as PicMapConfig;
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-editor-'));
+    configPath = join(tempDir, 'trip.json');
+    writeFileSync(configPath, JSON.stringify(config));
+
+    server = new PreviewServer({ configPath, port: 0, editable: true, debounceMs: 10 });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should require an authenticated user', async () => {
+    const page = await fetch(`${url}editor/`);
+    const edit = await fetch(`${url}editor/edits`, { method: 'POST' });
+
+    expect(page.status).toBe(401);
+    expect(edit.status).toBe(401);
+    expect(readConfig()).toEqual(config);
+  });
+
+  it('should serve the editor page', async () => {
+    const redirect = await fetch(`${url}editor`, { headers: AUTH_HEADERS, redirect: 'manual' });
+    const page = await fetch(`${url}editor/`, { headers: AUTH_HEADERS });
+
+    expect(redirect.status).toBe(302);
+    expect(redirect.headers.get('location')).toBe('editor/');
+    expect(await page.text()).toContain('<title>Editor Test - Pic-Map editor</title>');
+  });
+
+  it('should not serve the editor unless editing is enabled', async () => {
+    const preview = new PreviewServer({ configPath, port: 0 });
+    const previewUrl = await preview.start();
+    const response = await fetch(`${previewUrl}editor/`, { headers: AUTH_HEADERS });
+    await preview.stop();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should describe the layout of the latest render', async () => {
+    const response = await fetch(`${url}editor/layout`, { headers: AUTH_HEADERS });
+    const layout = (await response.json()) as EditorLayout;
+
+    expect(layout.version).toBe(1);
+    expect(layout.images).toEqual(config.images);
+    expect(layout.pictures.map((p) => p.imageIndex)).toEqual([0, 1]);
+    expect(layout.markers).toHaveLength(2);
+    // The first marker is at the map center
+    expect(layout.markers[0].x).toBeCloseTo(layout.mapArea.x + layout.mapArea.width / 2);
+    expect(layout.markers[0].y).toBeCloseTo(layout.mapArea.y + layout.mapArea.height / 2);
+    expect(layout.bounds.north).toBeGreaterThan(layout.bounds.south);
+  });
+
+  it('should place the markers over the markers of the preview', async () => {
+    const layout = (await (
+      await fetch(`${url}editor/layout`, { headers: AUTH_HEADERS })
+    ).json()) as EditorLayout;
+    const svg = await (await fetch(`${url}preview.svg`)).text();
+    const [, width] = /<svg [^>]*width="([\d.]+)"/.exec(svg)!;
+    const [, areaX, areaY] = /class="map-area" transform="translate\(([\d.]+), ([\d.]+)\)"/.exec(
+      svg
+    )!;
+    const [, scale] = /<g transform="scale\(([\d.]+)\)">/.exec(svg)!;
+    const drawn = [...svg.matchAll(/class="marker" transform="translate\(([\d.]+), ([\d.]+)\)"/g)];
+
+    // The editor lays out the page at the export resolution, the preview at 96 DPI
+    const toPreview = Number(width) / layout.page.width;
+    expect(drawn).toHaveLength(layout.markers.length);
+    layout.markers.forEach((marker, i) => {
+      const [, x, y] = drawn[i];
+      expect(marker.x * toPreview).toBeCloseTo(Number(areaX) + Number(x) * Number(scale), 0);
+      expect(marker.y * toPreview).toBeCloseTo(Number(areaY) + Number(y) * Number(scale), 0);
+    });
+  });
+
+  it('should locate points of the map', async () => {
+    const layout = (await (
+      await fetch(`${url}editor/layout`, { headers: AUTH_HEADERS })
+    ).json()) as EditorLayout;
+    const locate = (x: number, y: number) =>
+      fetch(`${url}editor/location?x=${x}&y=${y}`, { headers: AUTH_HEADERS });
+
+    const marker = await locate(layout.markers[1].x, layout.markers[1].y);
+    const location = (await marker.json()) as { latitude: number; longitude: number };
+    expect(location.latitude).toBeCloseTo(51.5055, 6);
+    expect(location.longitude).toBeCloseTo(-0.0754, 6);
+
+    const outside = await locate(0, 0);
+    expect(outside.status).toBe(400);
+    expect(await outside.json()).toEqual({ error: 'The point is not on the map' });
+    expect((await fetch(`${url}editor/location?x=a`, { headers: AUTH_HEADERS })).status).toBe(400);
+  });
+
+  it('should write edits back to the config file and re-render', async () => {
+    const response = await postEdit({ type: 'move-picture-to-edge', imageIndex: 0, edge: 'left' });
+    const state = (await response.json()) as ReturnType<PreviewServer['getState']>;
+
+    expect(response.status).toBe(200);
+    expect(state.error).toBeUndefined();
+    expect(readConfig().images[0]).toEqual({ filePath: 'tower.jpg', borderPosition: 'left' });
+    expect(readFileSync(configPath, 'utf-8')).toMatch(/^\{\n {2}"title"/);
+
+    const layout = (await (
+      await fetch(`${url}editor/layout`, { headers: AUTH_HEADERS })
+    ).json()) as EditorLayout;
+    expect(layout.pictures.find((p) => p.imageIndex === 0)?.borderPosition).toBe('left');
+  });
+
+  it('should apply concurrent edits in order', async () => {
+    const responses = await Promise.all([
+      postEdit({ type: 'set-caption', imageIndex: 0, caption: 'Tower' }),
+      postEdit({ type: 'set-caption', imageIndex: 1, caption: 'Bridge' }),
+      postEdit({ type: 'move-marker', linkIndex: 1, latitude: 51.5, longitude: -0.1 }),
+    ]);
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200, 200]);
+    const saved = readConfig();
+    expect(saved.images.map((image) => image.caption)).toEqual(['Tower', 'Bridge']);
+    expect(saved.links[1].location).toEqual({ latitude: 51.5, longitude: -0.1 });
+  });
+
+  it('should reject invalid edits', async () => {
+    const malformed = await postEdit({ type: 'set-caption', imageIndex: 0 });
+    const outOfRange = await postEdit({ type: 'swap-pictures', imageIndex: 0, targetIndex: 5 });
+
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toEqual({ error: 'caption must be a string' });
+    expect(outOfRange.status).toBe(400);
+    expect(readConfig()).toEqual(config);
+  });
+
+  it('should refuse to edit an invalid config file', async () => {
+    writeFileSync(configPath, '{ "title": ');
+    const response = await postEdit({ type: 'set-caption', imageIndex: 0, caption: 'x' });
+
+    expect(response.status).toBe(409);
+    expect(readFileSync(configPath, 'utf-8')).toBe('{ "title": ');
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * Web editor for Pic-Map
+ *
+ * Lets users rearrange a composition in the browser: drag pictures onto
+ * other pictures to swap their slots or onto a border edge to move them
+ * there, drag map markers to change their location, and edit captions. Each
+ * change is sent as a ConfigEdit and written back to the configuration file,
+ * which the preview server then re-renders.
+ *
+ * All editor routes require an authenticated user (`requireAuth`).
+ */
+
+import { writeFile } from 'fs/promises';
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { requireAuth } from '../auth/proxyAuth';
+import { BoundingBox, GeoLocation, ImageMetadata, MapView, PixelCoordinate } from '../types';
+import { ConfigLoadError, ConfigValidationError, loadConfigFromFile } from '../loaders';
+import { viewportPixelToGeo } from '../map-engine/coordinates';
+import { placeMarkers } from '../map-engine/clustering';
+import { BorderPosition, CompositionLayout, Rectangle } from '../compositor/types';
+import { applyConfigEdit, ConfigEditError, parseConfigEdit } from './config-edits';
+import type { PreviewRender, PreviewServer } from './preview-server';
+
+/**
+ * Positions of the editable elements of the latest render, in page pixels
+ * at the layout resolution
+ */
+export interface EditorLayout {
+  /** Render counter of the preview this layout belongs to */
+  version: number;
+  /** Page size */
+  page: { width: number; height: number };
+  /** Map area on the page */
+  mapArea: Rectangle;
+  /** Geographic bounds of the map area */
+  bounds: BoundingBox;
+  /** Border areas, used as drop targets for moving pictures between edges */
+  borderAreas: Record<BorderPosition, Rectangle>;
+  /** All images of the configuration */
+  images: ImageMetadata[];
+  /** Pictures placed in the border */
+  pictures: Array<{ imageIndex: number; borderPosition: BorderPosition; rect: Rectangle }>;
+  /** Map markers, one per link */
+  markers: Array<{ linkIndex: number; label?: string; x: number; y: number }>;
+}
+
+/**
+ * Resolves the page layout and map view of a render
+ */
+function resolveEditorView(render: PreviewRender): { layout: CompositionLayout; view: MapView } {
+  const { composition } = render;
+  const layout = composition.compositor.createLayout(composition.input);
+  return { layout, view: composition.input.map.view };
+}
+
+/**
+ * Builds the editor layout for the latest render of a preview server
+ *
+ * @returns The layout, or undefined if nothing has rendered yet
+ */
+export function createEditorLayout(server: PreviewServer): EditorLayout | undefined {
+  const render = server.getLastRender();
+  if (!render) return undefined;
+
+  const { config, composition } = render;
+  const { layout, view } = resolveEditorView(render);
+  const { mapArea } = layout;
+  const placement = placeMarkers(
+    config.links.map((link) => link.location),
+    { ...config.map, ...view },
+    mapArea.width,
+    mapArea.height
+  );
+
+  return {
+    version: server.getState().version,
+    page: { width: layout.pageDimensions.width, height: layout.pageDimensions.height },
+    mapArea,
+    bounds: composition.input.map.bounds,
+    borderAreas: layout.borderAreas,
+    images: config.images,
+    pictures: layout.pictures.map(({ imageIndex, borderPosition, rect }) => ({
+      imageIndex,
+      borderPosition,
+      rect,
+    })),
+    // Markers on the far side of an orthographic globe cannot be dragged;
+    // clustered markers are dragged from their place on the badge or in the fan
+    markers: config.links.flatMap((link, linkIndex) => {
+      const position = placement.positions[linkIndex];
+      if (!position) return [];
+      return [
+        {
+          linkIndex,
+          label: link.label,
+          x: mapArea.x + position.x,
+          y: mapArea.y + position.y,
+        },
+      ];
+    }),
+  };
+}
+
+/**
+ * Finds the location under a point of the map in the latest render
+ *
+ * @param point - Point on the page, in page pixels at the layout resolution
+ * @returns The location, or null if the point is outside the map or the
+ * projected world; undefined if nothing has rendered yet
+ */
+function locatePagePoint(
+  server: PreviewServer,
+  point: PixelCoordinate
+): GeoLocation | null | undefined {
+  const render = server.getLastRender();
+  if (!render) return undefined;
+
+  const { layout, view } = resolveEditorView(render);
+  const { mapArea } = layout;
+  if (
+    point.x < mapArea.x ||
+    point.y < mapArea.y ||
+    point.x > mapArea.x + mapArea.width ||
+    point.y > mapArea.y + mapArea.height
+  ) {
+    return null;
+  }
+
+  return viewportPixelToGeo(
+    { x: point.x - mapArea.x, y: point.y - mapArea.y },
+    view.center,
+    view.zoom,
+    mapArea.width,
+    mapArea.height,
+    render.config.map.projection
+  );
+}
+
+/**
+ * Escapes text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const EDITOR_STYLE = `
+body { margin: 0; display: flex; height: 100vh; font-family: sans-serif; background: #e5e5e5; }
+main { flex: 1; overflow: auto; padding: 16px; }
+aside { width: 300px; overflow: auto; padding: 16px; background: #ffffff; border-left: 1px solid #cccccc; }
+#page { position: relative; margin: 0 auto; max-width: 100%; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.3); }
+#preview { display: block; width: 100%; height: auto; background: #ffffff; }
+#overlay { position: absolute; inset: 0; }
+#messages { white-space: pre-wrap; margin: 0 0 16px; }
+#messages:empty { display: none; }
+.error { color: #b00020; }
+.warning { color: #8a5a00; }
+.edge { position: absolute; }
+.edge.over { background: rgba(0, 120, 215, 0.15); }
+.picture { position: absolute; cursor: grab; box-sizing: border-box; }
+.picture:hover, .picture.over { outline: 3px solid #0078d7; }
+.marker { position: absolute; width: 18px; height: 18px; margin: -9px 0 0 -9px; border-radius: 50%;
+  border: 2px solid #0078d7; background: rgba(255, 255, 255, 0.6); cursor: move; touch-action: none; }
+.image { margin-bottom: 12px; }
+.image label { display: block; font-size: 12px; color: #555555; }
+.image input, .image select { width: 100%; box-sizing: border-box; }
+`;
+
+const EDITOR_SCRIPT = `
+const EDGES = ['top', 'right', 'bottom', 'left'];
+const page = document.getElementById('page');
+const preview = document.getElementById('preview');
+const overlay = document.getElementById('overlay');
+const imageList = document.getElementById('images');
+const messages = document.getElementById('messages');
+let layout;
+
+function showMessages(lines) {
+  messages.textContent = '';
+  for (const line of lines) {
+    const span = document.createElement('span');
+    span.className = line.className;
+    span.textContent = line.text + '\\n';
+    messages.appendChild(span);
+  }
+}
+
+async function applyEdit(edit) {
+  const response = await fetch('edits', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(edit),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({ error: response.statusText }));
+    showMessages([{ className: 'error', text: body.error }]);
+  }
+}
+
+function percent(value, total) {
+  return (value / total) * 100 + '%';
+}
+
+function place(element, rect) {
+  element.style.left = percent(rect.x, layout.page.width);
+  element.style.top = percent(rect.y, layout.page.height);
+  element.style.width = percent(rect.width, layout.page.width);
+  element.style.height = percent(rect.height, layout.page.height);
+}
+
+function addDropTarget(element, onDrop) {
+  element.addEventListener('dragover', (event) => {
+    event.preventDefault();
+    element.classList.add('over');
+  });
+  element.addEventListener('dragleave', () => element.classList.remove('over'));
+  element.addEventListener('drop', (event) => {
+    event.preventDefault();
+    event.stopPropagation();
+    element.classList.remove('over');
+    const imageIndex = Number(event.dataTransfer.getData('text/plain'));
+    if (!Number.isNaN(imageIndex)) onDrop(imageIndex);
+  });
+}
+
+function toPagePoint(event) {
+  const box = overlay.getBoundingClientRect();
+  return {
+    x: ((event.clientX - box.left) / box.width) * layout.page.width,
+    y: ((event.clientY - box.top) / box.height) * layout.page.height,
+  };
+}
+
+async function toLocation(point) {
+  const response = await fetch('location?x=' + point.x + '&y=' + point.y, { cache: 'no-store' });
+  const body = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    showMessages([{ className: 'error', text: body.error }]);
+    return null;
+  }
+  return body;
+}
+
+function addMarker(marker) {
+  const element = document.createElement('div');
+  element.className = 'marker';
+  element.title = 'Drag to move marker ' + (marker.label || marker.linkIndex);
+  const move = (point) => {
+    const { mapArea } = layout;
+    point.x = Math.min(Math.max(point.x, mapArea.x), mapArea.x + mapArea.width);
+    point.y = Math.min(Math.max(point.y, mapArea.y), mapArea.y + mapArea.height);
+    element.style.left = percent(point.x, layout.page.width);
+    element.style.top = percent(point.y, layout.page.height);
+    return point;
+  };
+  move({ x: marker.x, y: marker.y });
+
+  element.addEventListener('pointerdown', (event) => {
+    event.preventDefault();
+    element.setPointerCapture(event.pointerId);
+    const onMove = (moveEvent) => move(toPagePoint(moveEvent));
+    const onUp = (upEvent) => {
+      element.removeEventListener('pointermove', onMove);
+      element.removeEventListener('pointerup', onUp);
+      toLocation(move(toPagePoint(upEvent))).then((location) => {
+        if (location) applyEdit({ type: 'move-marker', linkIndex: marker.linkIndex, ...location });
+      });
+    };
+    element.addEventListener('pointermove', onMove);
+    element.addEventListener('pointerup', onUp);
+  });
+  overlay.appendChild(element);
+}
+
+function renderOverlay() {
+  overlay.textContent = '';
+  for (const edge of EDGES) {
+    const zone = document.createElement('div');
+    zone.className = 'edge';
+    place(zone, layout.borderAreas[edge]);
+    addDropTarget(zone, (imageIndex) =>
+      applyEdit({ type: 'move-picture-to-edge', imageIndex, edge })
+    );
+    overlay.appendChild(zone);
+  }
+
+  for (const picture of layout.pictures) {
+    const element = document.createElement('div');
+    element.className = 'picture';
+    element.draggable = true;
+    element.title = layout.images[picture.imageIndex].filePath;
+    place(element, picture.rect);
+    element.addEventListener('dragstart', (event) => {
+      event.dataTransfer.setData('text/plain', String(picture.imageIndex));
+    });
+    addDropTarget(element, (imageIndex) => {
+      if (imageIndex !== picture.imageIndex) {
+        applyEdit({ type: 'swap-pictures', imageIndex, targetIndex: picture.imageIndex });
+      }
+    });
+    overlay.appendChild(element);
+  }
+
+  layout.markers.forEach(addMarker);
+}
+
+function renderImageList() {
+  imageList.textContent = '';
+  layout.images.forEach((image, imageIndex) => {
+    const item = document.createElement('div');
+    item.className = 'image';
+
+    const name = document.createElement('strong');
+    name.textContent = image.filePath;
+
+    const captionLabel = document.createElement('label');
+    captionLabel.textContent = 'Caption';
+    const caption = document.createElement('input');
+    caption.value = image.caption || '';
+    caption.addEventListener('change', () =>
+      applyEdit({ type: 'set-caption', imageIndex, caption: caption.value })
+    );
+    captionLabel.appendChild(caption);
+
+    const edgeLabel = document.createElement('label');
+    edgeLabel.textContent = 'Edge';
+    const edge = document.createElement('select');
+    for (const value of ['', ...EDGES]) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = value || 'automatic';
+      edge.appendChild(option);
+    }
+    edge.value = image.borderPosition || '';
+    edge.addEventListener('change', () =>
+      applyEdit({ type: 'move-picture-to-edge', imageIndex, edge: edge.value || null })
+    );
+    edgeLabel.appendChild(edge);
+
+    item.append(name, captionLabel, edgeLabel);
+    imageList.appendChild(item);
+  });
+}
+
+async function loadLayout() {
+  const response = await fetch('layout', { cache: 'no-store' });
+  if (!response.ok) return;
+  layout = await response.json();
+  page.style.aspectRatio = layout.page.width + ' / ' + layout.page.height;
+  preview.src = '../preview.svg?v=' + layout.version;
+  renderOverlay();
+  renderImageList();
+}
+
+const events = new EventSource('../events');
+events.addEventListener('render', (event) => {
+  const state = JSON.parse(event.data);
+  showMessages(
+    state.error
+      ? [{ className: 'error', text: state.error }]
+      : state.warnings.map((w) => ({ className: 'warning', text: 'Warning: ' + w.message }))
+  );
+  if (state.title) document.title = state.title + ' - Pic-Map editor';
+  if (!state.error) loadLayout();
+});
+`;
+
+/**
+ * Builds the editor page
+ */
+function renderEditorPage(title: string): string {
+  const parts: string[] = [];
+  parts.push('<!DOCTYPE html>');
+  parts.push('<html lang="en">');
+  parts.push('<head>');
+  parts.push('<meta charset="utf-8">');
+  parts.push(`<title>${escapeHtml(title)} - Pic-Map editor</title>`);
+  parts.push(`<style>${EDITOR_STYLE}</style>`);
+  parts.push('</head>');
+  parts.push('<body>');
+  parts.push('<main>');
+  parts.push('<pre id="messages"></pre>');
+  parts.push('<div id="page">');
+  parts.push('<img id="preview" alt="Pic-Map preview" draggable="false">');
+  parts.push('<div id="overlay"></div>');
+  parts.push('</div>');
+  parts.push('</main>');
+  parts.push('<aside>');
+  parts.push('<h2>Pictures</h2>');
+  parts.push('<p>Drag a picture onto another to swap them, or onto an empty part of an edge.');
+  parts.push('Drag the markers to move them.</p>');
+  parts.push('<div id="images"></div>');
+  parts.push('</aside>');
+  parts.push(`<script>${EDITOR_SCRIPT}</script>`);
+  parts.push('</body>');
+  parts.push('</html>');
+  return parts.join('\n');
+}
+
+/**
+ * Creates the editor routes for a preview server
+ *
+ * Routes (relative to the mount point):
+ * - `GET /` - the editor page
+ * - `GET /layout` - the EditorLayout of the latest render
+ * - `GET /location?x=&y=` - the location under a page point of the map
+ * - `POST /edits` - applies a ConfigEdit and writes the configuration back
+ *
+ * @param server - The preview server that renders the configuration
+ * @returns An Express router; mount it after `loadUser`
+ */
+export function createEditorRouter(server: PreviewServer): Router {
+  const router = express.Router();
+  let editing: Promise<unknown> = Promise.resolve();
+
+  router.use(requireAuth);
+
+  router.get('/', (req: Request, res: Response) => {
+    // The page uses relative URLs, so it must be served from a path ending in '/'
+    if (!req.originalUrl.split('?')[0].endsWith('/')) {
+      res.redirect('editor/');
+      return;
+    }
+    res.type('html').send(renderEditorPage(server.getState().title ?? 'Pic-Map'));
+  });
+
+  router.get('/layout', (_req: Request, res: Response) => {
+    const layout = createEditorLayout(server);
+    if (!layout) {
+      res.status(503).json({ error: server.getState().error ?? 'Preview not rendered yet' });
+      return;
+    }
+    res.set('Cache-Control', 'no-store').json(layout);
+  });
+
+  router.get('/location', (req: Request, res: Response) => {
+    const x = Number(req.query.x);
+    const y = Number(req.query.y);
+    if (
+      typeof req.query.x !== 'string' ||
+      typeof req.query.y !== 'string' ||
+      isNaN(x) ||
+      isNaN(y)
+    ) {
+      res.status(400).json({ error: 'x and y must be numbers' });
+      return;
+    }
+    const location = locatePagePoint(server, { x, y });
+    if (location === undefined) {
+      res.status(503).json({ error: server.getState().error ?? 'Preview not rendered yet' });
+    } else if (location === null) {
+      res.status(400).json({ error: 'The point is not on the map' });
+    } else {
+      res.set('Cache-Control', 'no-store').json(location);
+    }
+  });
+
+  router.post('/edits', express.json(), (req: Request, res: Response, next: NextFunction) => {
+    // Apply edits one at a time so each one sees the result of the last
+    const result = editing.then(async () => {
+      const edit = parseConfigEdit(req.body);
+      const config = await loadConfigFromFile(server.configPath);
+      const updated = applyConfigEdit(config, edit);
+      await writeFile(server.configPath, JSON.stringify(updated, null, 2) + '\n', 'utf-8');
+      return server.refresh();
+    });
+    editing = result.catch(() => undefined);
+
+    result.then(
+      (state) => res.json(state),
+      (error: unknown) => {
+        if (error instanceof ConfigEditError) {
+          res.status(400).json({ error: error.message });
+        } else if (error instanceof ConfigLoadError || error instanceof ConfigValidationError) {
+          res
+            .status(409)
+            .json({ error: `The configuration file cannot be edited: ${error.message}` });
+        } else {
+          next(error);
+        }
+      }
+    );
+  });
+
+  return router;
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FSWatcher, mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PreviewServer, PreviewServerError } from './preview-server';
+import { PicMapConfig } from '../types';
+
+// A 1x1 red PNG
+const PNG_DATA = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+function createConfig(title: string): PicMapConfig {
+  return {
+    title,
+    layout: {
+      pageSize: 'A4',
+      orientation: 'landscape',
+      borderWidth: 30,
+      pictureSpacing: 5,
+      margin: { top: 10, right: 10, bottom: 10, left: 10 },
+    },
+    map: {
+      provider: 'openstreetmap',
+      zoom: 12,
+      center: { latitude: 51.5074, longitude: -0.1278 },
+    },
+    images: [{ filePath: 'tower.png' }, { filePath: 'missing.png' }],
+    links: [{ imageId: 'tower', location: { latitude: 51.5081, longitude: -0.0759 } }],
+  };
+}
+
+describe('PreviewServer', () => {
+  let tempDir: string;
+  let configPath: string;
+  let server: PreviewServer;
+  let url: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    tempDir = mkdtempSync(join(tmpdir(), 'picmap-preview-'));
+    configPath = join(tempDir, 'trip.json');
+    writeFileSync(join(tempDir, 'tower.png'), PNG_DATA);
+    writeFileSync(configPath, JSON.stringify(createConfig('First Title')));
+
+    server = new PreviewServer({ configPath, port: 0, debounceMs: 10 });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+    delete process.env['REQUIRE_PROXY_AUTH'];
+  });
+
+  it('should serve the preview page', async () => {
+    const response = await fetch(url);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(html).toContain('<title>First Title - Pic-Map preview</title>');
+    expect(html).toContain("new EventSource('events')");
+  });
+
+  it('should serve the rendered SVG at preview resolution', async () => {
+    const response = await fetch(`${url}preview.svg`);
+    const svg = await response.text();
+
+    expect(response.headers.get('content-type')).toContain('image/svg+xml');
+    // A4 landscape at 96 DPI
+    expect(svg).toContain('width="1123" height="794"');
+    expect(svg).toContain('data:image/png;base64,');
+  });
+
+  it('should scale the map content with its markers', async () => {
+    const svg = await (await fetch(`${url}preview.svg`)).text();
+    const [, areaX, areaY] = /class="map-area" transform="translate\(([\d.]+), ([\d.]+)\)"/.exec(
+      svg
+    )!;
+    const [, scale] = /<g transform="scale\(([\d.]+)\)">/.exec(svg)!;
+    const [, markerX, markerY] = /class="marker" transform="translate\(([\d.]+), ([\d.]+)\)"/.exec(
+      svg
+    )!;
+    const [, lineX, lineY] = /<line [^>]*x2="([\d.]+)" y2="([\d.]+)"[^>]*stroke="#666666"/.exec(
+      svg
+    )!;
+
+    // The link line ends at the marker drawn in the map
+    expect(Number(areaX) + Number(markerX) * Number(scale)).toBeCloseTo(Number(lineX), 0);
+    expect(Number(areaY) + Number(markerY) * Number(scale)).toBeCloseTo(Number(lineY), 0);
+  });
+
+  it('should report render warnings', async () => {
+    const response = await fetch(`${url}state`);
+    const state = (await response.json()) as ReturnType<PreviewServer['getState']>;
+
+    expect(state.version).toBe(1);
+    expect(state.title).toBe('First Title');
+    expect(state.warnings).toEqual([
+      expect.objectContaining({ code: 'image-placeholder', imageIndex: 1 }),
+    ]);
+  });
+
+  it('should re-render when the config file changes', async () => {
+    writeFileSync(configPath, JSON.stringify(createConfig('Second Title')));
+
+    await vi.waitFor(() => expect(server.getState().title).toBe('Second Title'), {
+      timeout: 5000,
+    });
+    const svg = await (await fetch(`${url}preview.svg`)).text();
+    expect(svg).toContain('Second Title');
+  });
+
+  it('should log watch errors and stop following the file', async () => {
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { watcher } = server as unknown as { watcher: FSWatcher };
+    watcher.emit('error', new Error('EMFILE: too many open files'));
+
+    expect(logError).toHaveBeenCalledWith(
+      `Stopped watching ${configPath}: EMFILE: too many open files`
+    );
+    writeFileSync(configPath, JSON.stringify(createConfig('Second Title')));
+    await new Promise((resolvePromise) => setTimeout(resolvePromise, 200));
+    expect(server.getState().title).toBe('First Title');
+  });
+
+  it('should keep the previous preview when the config becomes invalid', async () => {
+    writeFileSync(configPath, JSON.stringify({ ...createConfig(''), layout: undefined }));
+    const state = await server.refresh();
+
+    expect(state.version).toBe(2);
+    expect(state.error).toContain('Configuration validation failed');
+    const svg = await (await fetch(`${url}preview.svg`)).text();
+    expect(svg).toContain('First Title');
+  });
+
+  it('should push render events to connected browsers', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${url}events`, { signal: controller.signal });
+    const reader = response.body!.getReader() as ReadableStreamDefaultReader<Uint8Array>;
+    const decoder = new TextDecoder();
+
+    const initial = decoder.decode((await reader.read()).value);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    expect(initial).toMatch(/^event: render\ndata: \{"version":1,/);
+
+    void server.refresh();
+    const update = decoder.decode((await reader.read()).value);
+    expect(update).toContain('"version":2');
+
+    controller.abort();
+  });
+
+  it('should reject requests without proxy headers in strict mode', async () => {
+    process.env['REQUIRE_PROXY_AUTH'] = 'true';
+
+    const anonymous = await fetch(url);
+    const authenticated = await fetch(url, { headers: { 'Remote-User': 'alice@example.com' } });
+
+    expect(anonymous.status).toBe(401);
+    expect(authenticated.status).toBe(200);
+    expect(console.log).toHaveBeenCalledWith('[auth] principal="alice@example.com"');
+  });
+
+  it('should fail to start on a port in use', async () => {
+    const port = Number(new URL(url).port);
+    const second = new PreviewServer({ configPath, port });
+
+    await expect(second.start()).rejects.toThrow(PreviewServerError);
+  });
+});
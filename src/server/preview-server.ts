@@ -0,0 +1,385 @@
+/**
+ * Local preview server for Pic-Map
+ *
+ * Serves a configuration file as an SVG preview in the browser. The config
+ * file is watched and re-rendered through `Compositor.preview` on every save,
+ * and open browser tabs reload the preview through Server-Sent Events.
+ *
+ * Every route sits behind the proxy auth middleware (`requireProxyAuth` and
+ * `loadUser`), so the server can run behind an Authelia forward-auth proxy.
+ * When editing is enabled, the web editor is also served (see editor.ts).
+ */
+
+import { FSWatcher, watch } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { basename, dirname, resolve } from 'path';
+import express, { Express, Request, Response } from 'express';
+import { loadUser, requireProxyAuth } from '../auth/proxyAuth';
+import { ConfigLoadError, ConfigValidationError, loadConfigFromFile } from '../loaders';
+import { PicMapConfig } from '../types';
+import { composePicMap, PicMapComposition, PicMapWarning, toPicMapWarnings } from '../pipeline';
+import { createEditorRouter } from './editor';
+
+/**
+ * Options for the preview server
+ */
+export interface PreviewServerOptions {
+  /** Path of the configuration file to preview */
+  configPath: string;
+  /** Port to listen on (default: 3000, 0 for any free port) */
+  port?: number;
+  /** Host to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** Resolution the page is laid out at, as for export (default: 300) */
+  dpi?: number;
+  /** Resolution of the preview SVG (default: 96) */
+  previewDpi?: number;
+  /** Delay before re-rendering after a file change, in milliseconds (default: 100) */
+  debounceMs?: number;
+  /** Serve the web editor at /editor/, which writes changes back to the config file */
+  editable?: boolean;
+}
+
+/**
+ * State of the latest render, sent to the browser after every render
+ */
+export interface PreviewState {
+  /** Render counter, incremented on every render attempt */
+  version: number;
+  /** Title of the configuration, once it has loaded */
+  title?: string;
+  /** Non-fatal problems found while rendering */
+  warnings: PicMapWarning[];
+  /** Why the latest render failed; the previous preview is still served */
+  error?: string;
+}
+
+/**
+ * The latest configuration that rendered successfully
+ */
+export interface PreviewRender {
+  /** The configuration as loaded from the file */
+  config: PicMapConfig;
+  /** The composition it was rendered from */
+  composition: PicMapComposition;
+}
+
+/**
+ * Error thrown when the preview server fails to start
+ */
+export class PreviewServerError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'PreviewServerError';
+  }
+}
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_DPI = 300;
+const DEFAULT_PREVIEW_DPI = 96;
+const DEFAULT_DEBOUNCE_MS = 100;
+
+/**
+ * Escapes text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats a render error for display
+ */
+function describeError(error: unknown): string {
+  if (error instanceof ConfigValidationError) {
+    return [error.message, ...error.validationErrors.map((message) => `  - ${message}`)].join('\n');
+  }
+  if (error instanceof ConfigLoadError && error.cause) {
+    return `${error.message}: ${error.cause.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Builds the preview page. The page shows the SVG as an image and reloads it
+ * whenever the server reports a new render.
+ */
+function renderPage(title: string): string {
+  const parts: string[] = [];
+  parts.push('<!DOCTYPE html>');
+  parts.push('<html lang="en">');
+  parts.push('<head>');
+  parts.push('<meta charset="utf-8">');
+  parts.push(`<title>${escapeHtml(title)} - Pic-Map preview</title>`);
+  parts.push('<style>');
+  parts.push('body { margin: 0; padding: 16px; background: #e5e5e5; font-family: sans-serif; }');
+  parts.push('#preview { display: block; margin: 0 auto; max-width: 100%; height: auto;');
+  parts.push('  background: #ffffff; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.3); }');
+  parts.push('#messages { white-space: pre-wrap; margin: 0 0 16px; }');
+  parts.push('#messages:empty { display: none; }');
+  parts.push('.error { color: #b00020; }');
+  parts.push('.warning { color: #8a5a00; }');
+  parts.push('</style>');
+  parts.push('</head>');
+  parts.push('<body>');
+  parts.push('<pre id="messages"></pre>');
+  parts.push('<img id="preview" src="preview.svg" alt="Pic-Map preview">');
+  parts.push('<script>');
+  parts.push("const preview = document.getElementById('preview');");
+  parts.push("const messages = document.getElementById('messages');");
+  parts.push("const events = new EventSource('events');");
+  parts.push("events.addEventListener('render', (event) => {");
+  parts.push('  const state = JSON.parse(event.data);');
+  parts.push("  messages.textContent = '';");
+  parts.push('  const lines = state.error');
+  parts.push("    ? [{ className: 'error', text: state.error }]");
+  parts.push(
+    "    : state.warnings.map((w) => ({ className: 'warning', text: 'Warning: ' + w.message }));"
+  );
+  parts.push('  for (const line of lines) {');
+  parts.push("    const span = document.createElement('span');");
+  parts.push('    span.className = line.className;');
+  parts.push("    span.textContent = line.text + '\\n';");
+  parts.push('    messages.appendChild(span);');
+  parts.push('  }');
+  parts.push("  if (state.title) document.title = state.title + ' - Pic-Map preview';");
+  parts.push("  if (!state.error) preview.src = 'preview.svg?v=' + state.version;");
+  parts.push('});');
+  parts.push('</script>');
+  parts.push('</body>');
+  parts.push('</html>');
+  return parts.join('\n');
+}
+
+/**
+ * Preview server: renders a configuration file and keeps the browser in sync
+ * with it
+ *
+ * @example
+ * ```typescript
+ * const server = new PreviewServer({ configPath: 'trip.json' });
+ * const url = await server.start();
+ * console.log(`Previewing at ${url}`);
+ * ```
+ */
+export class PreviewServer {
+  /** Express application, for mounting additional routes */
+  readonly app: Express;
+
+  /** Absolute path of the configuration file */
+  readonly configPath: string;
+
+  private readonly options: PreviewServerOptions;
+  private state: PreviewState = { version: 0, warnings: [] };
+  private svg: string | undefined;
+  private lastRender: PreviewRender | undefined;
+  private rendering: Promise<unknown> = Promise.resolve();
+  private clients = new Set<Response>();
+  private server: Server | undefined;
+  private watcher: FSWatcher | undefined;
+  private debounceTimer: NodeJS.Timeout | undefined;
+
+  constructor(options: PreviewServerOptions) {
+    this.options = options;
+    this.configPath = resolve(options.configPath);
+    this.app = this.createApp();
+  }
+
+  /**
+   * Returns the state of the latest render
+   */
+  getState(): PreviewState {
+    return this.state;
+  }
+
+  /**
+   * Returns the latest configuration that rendered successfully
+   */
+  getLastRender(): PreviewRender | undefined {
+    return this.lastRender;
+  }
+
+  /**
+   * Re-renders the configuration file and notifies connected browsers.
+   * Renders run one at a time, in the order they were requested.
+   *
+   * @returns The state after rendering
+   */
+  refresh(): Promise<PreviewState> {
+    const rendering = this.rendering.then(() => this.render());
+    this.rendering = rendering;
+    return rendering;
+  }
+
+  /**
+   * Renders the configuration, starts watching it and starts listening
+   *
+   * @returns The URL of the preview page
+   * @throws PreviewServerError if the server cannot listen on the port
+   */
+  async start(): Promise<string> {
+    await this.refresh();
+    this.watchConfig();
+
+    const server = createServer(this.app);
+    const port = this.options.port ?? DEFAULT_PORT;
+    const host = this.options.host ?? DEFAULT_HOST;
+
+    await new Promise<void>((resolvePromise, reject) => {
+      server.once('error', (error) => {
+        reject(new PreviewServerError(`Failed to listen on ${host}:${port}`, error));
+      });
+      server.listen(port, host, () => resolvePromise());
+    }).catch((error: unknown) => {
+      this.unwatchConfig();
+      throw error;
+    });
+
+    this.server = server;
+    const address = server.address() as AddressInfo;
+    return `http://${host}:${address.port}/`;
+  }
+
+  /**
+   * Stops watching the configuration, disconnects browsers and stops listening
+   */
+  async stop(): Promise<void> {
+    this.unwatchConfig();
+
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolvePromise, reject) => {
+        server.close((error) => (error ? reject(error) : resolvePromise()));
+      });
+    }
+  }
+
+  /**
+   * Creates the Express application with the auth middleware and routes
+   */
+  private createApp(): Express {
+    const app = express();
+
+    app.use(requireProxyAuth);
+    app.use(loadUser);
+
+    app.get('/', (_req: Request, res: Response) => {
+      res.type('html').send(renderPage(this.state.title ?? basename(this.configPath)));
+    });
+
+    app.get('/preview.svg', (_req: Request, res: Response) => {
+      if (this.svg === undefined) {
+        res
+          .status(503)
+          .type('text')
+          .send(this.state.error ?? 'Preview not rendered yet');
+        return;
+      }
+      res.set('Cache-Control', 'no-store').type('image/svg+xml').send(this.svg);
+    });
+
+    app.get('/state', (_req: Request, res: Response) => {
+      res.json(this.state);
+    });
+
+    if (this.options.editable) {
+      app.use('/editor', createEditorRouter(this));
+    }
+
+    app.get('/events', (req: Request, res: Response) => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-store',
+        Connection: 'keep-alive',
+      });
+      this.clients.add(res);
+      this.sendState(res);
+      req.on('close', () => this.clients.delete(res));
+    });
+
+    return app;
+  }
+
+  /**
+   * Loads and renders the configuration file, keeping the previous preview
+   * if the file cannot be rendered
+   */
+  private async render(): Promise<PreviewState> {
+    const version = this.state.version + 1;
+
+    try {
+      const config = await loadConfigFromFile(this.configPath);
+      const composition = composePicMap(config, {
+        dpi: this.options.dpi ?? DEFAULT_DPI,
+        baseDir: dirname(this.configPath),
+      });
+      const preview = composition.compositor.preview(
+        composition.input,
+        this.options.previewDpi ?? DEFAULT_PREVIEW_DPI
+      );
+
+      this.svg = preview.svg;
+      this.lastRender = { config, composition };
+      this.state = {
+        version,
+        title: config.title,
+        warnings: [...composition.warnings, ...toPicMapWarnings(preview.warnings)],
+      };
+    } catch (error) {
+      this.state = { ...this.state, version, warnings: [], error: describeError(error) };
+    }
+
+    for (const client of this.clients) {
+      this.sendState(client);
+    }
+    return this.state;
+  }
+
+  /**
+   * Sends the current state to a browser as a `render` event
+   */
+  private sendState(client: Response): void {
+    client.write(`event: render\ndata: ${JSON.stringify(this.state)}\n\n`);
+  }
+
+  /**
+   * Watches the configuration file's directory, so that editors that save by
+   * replacing the file are also picked up. If watching fails, the error is
+   * logged and the preview stops following the file.
+   */
+  private watchConfig(): void {
+    const fileName = basename(this.configPath);
+    this.watcher = watch(dirname(this.configPath), (_event, changed) => {
+      if (changed !== null && changed !== fileName) return;
+
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = setTimeout(() => {
+        void this.refresh();
+      }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+    });
+    this.watcher.on('error', (error) => {
+      console.error(`Stopped watching ${this.configPath}: ${error.message}`);
+      this.unwatchConfig();
+    });
+  }
+
+  private unwatchConfig(): void {
+    clearTimeout(this.debounceTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+}
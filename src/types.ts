@@ -40,6 +40,18 @@ export interface ImageMetadata {
   altText?: string;
   /** Optional photographer/creator credit */
   credit?: string;
+  /** Optional capture time as an ISO 8601 date-time (e.g. "2024-05-01T14:03:22+02:00") */
+  capturedAt?: string;
+  /**
+   * Edge of the border to place the picture on. Pictures without one fill the
+   * remaining space in order, clockwise from the top edge.
+   */
+  borderPosition?: BorderEdge;
+  /**
+   * Slots the picture takes in the border, along the edge by across it, for
+   * featured pictures (default: '1x1')
+   */
+  span?: PictureSpan;
 }
 
 /**
@@ -52,6 +64,14 @@ export interface ImageLocationLink {
   location: GeoLocation;
   /** Optional label for the link (e.g., "A", "1", etc.) */
   label?: string;
+  /** Line styling for this link, overriding the composition's `LinkStyle` */
+  style?: LinkLineStyle;
+  /** Id of the category the location belongs to */
+  category?: string;
+  /** When the place was visited, as an ISO 8601 date or date-time, which orders the itinerary */
+  visitedAt?: string;
+  /** Position of the place in the itinerary, which takes precedence over `visitedAt` */
+  order?: number;
 }
 
 /**
@@ -78,6 +98,101 @@ export interface LayoutOptions {
     bottom: number;
     left: number;
   };
+  /**
+   * How pictures are assigned to border slots: 'even' fills the edges in image
+   * order, 'optimized' places each picture near its linked marker so that link
+   * lines are short and do not cross, 'itinerary' places the pictures clockwise
+   * from the top-left corner in the order their places were visited (default:
+   * 'even', or 'itinerary' when the config has an `itinerary`)
+   */
+  distribution?: 'even' | 'optimized' | 'itinerary';
+  /**
+   * How border slots are sized: 'square' gives every picture on an edge the
+   * same slot, 'justified' sizes each slot to its picture's aspect ratio (from
+   * `ImageMetadata.dimensions`) while the slots still fill the edge (default:
+   * 'square')
+   */
+  slotSizing?: 'square' | 'justified';
+  /**
+   * Whether the four corners of the border hold pictures of their own, in
+   * cells at the ends of the top and bottom rows (default: false)
+   */
+  cornerSlots?: boolean;
+  /** Rows of pictures along each edge, each `borderWidth` deep (default: 1 per edge) */
+  borderRows?: BorderRows;
+  /**
+   * Smallest width and height of the map area (in mm). When set, edges gain
+   * rows inward, clockwise from the top, while the pictures do not fit at full
+   * size and the map stays at least this large.
+   */
+  minMapSize?: number;
+}
+
+/**
+ * How a map view is framed
+ */
+export type MapFit = 'manual' | 'auto';
+
+/**
+ * The center and zoom level a map is drawn at
+ */
+export interface MapView {
+  /** Center point of the map */
+  center: GeoLocation;
+  /** Zoom level (may be fractional) */
+  zoom: number;
+}
+
+/**
+ * Map projection types
+ *
+ * - `mercator` - Web Mercator, matching map tiles (conformal, exaggerates high latitudes)
+ * - `equirectangular` - Plate carrée: longitude and latitude on a regular grid
+ * - `lambert-conformal-conic` - Conformal conic, for mid-latitude regions wider than they are tall
+ * - `albers` - Albers equal-area conic, for continent-scale maps
+ * - `orthographic` - The globe seen from space, centered on the map center
+ */
+export type MapProjectionType =
+  | 'mercator'
+  | 'equirectangular'
+  | 'lambert-conformal-conic'
+  | 'albers'
+  | 'orthographic';
+
+/**
+ * Map projection with parameters
+ */
+export interface MapProjectionConfig {
+  /** Projection type */
+  type: MapProjectionType;
+  /**
+   * Standard parallels of the conic projections, in degrees (default: 10 degrees
+   * south and north of the map center)
+   */
+  standardParallels?: [number, number];
+}
+
+/**
+ * Map projection, by type or with parameters
+ */
+export type MapProjection = MapProjectionType | MapProjectionConfig;
+
+/**
+ * How a cluster of nearby markers is drawn
+ *
+ * - `badge` - One badge showing the number of markers in the cluster
+ * - `spiderfy` - The markers fanned out around the cluster, with legs to its center
+ */
+export type MarkerClusterMode = 'badge' | 'spiderfy';
+
+/**
+ * Clustering of markers that lie close together at the rendered zoom level
+ */
+export interface MarkerClusterConfig {
+  /** How clusters are drawn */
+  mode: MarkerClusterMode;
+  /** Markers within this distance of a cluster, in map pixels, join it (default: 30) */
+  radius?: number;
 }
 
 /**
@@ -86,14 +201,97 @@ export interface LayoutOptions {
 export interface MapStyle {
   /** Map provider/style type */
   provider: 'openstreetmap' | 'custom';
-  /** Zoom level for the map */
-  zoom: number;
-  /** Center point of the map */
-  center: GeoLocation;
+  /**
+   * Zoom level for the map (may be fractional). Required unless `fit` is
+   * 'auto', where it caps the fitted zoom level.
+   */
+  zoom?: number;
+  /** Center point of the map. Required unless `fit` is 'auto'. */
+  center?: GeoLocation;
+  /**
+   * How the view is framed: 'manual' draws the map at `center` and `zoom`;
+   * 'auto' fits the view to the marker locations (default: 'manual')
+   */
+  fit?: MapFit;
+  /**
+   * Space kept free around the markers when `fit` is 'auto', as a fraction of
+   * the map width and height on each side (0 to 0.45, default: 0.1)
+   */
+  fitPadding?: number;
+  /**
+   * Projection the map is drawn in (default: 'mercator'). Raster basemaps can
+   * only be drawn in the Mercator projection.
+   */
+  projection?: MapProjection;
+  /** Clusters markers that would overlap at the rendered zoom level (default: no clustering) */
+  clustering?: MarkerClusterConfig;
   /** Show map scale */
   showScale?: boolean;
   /** Show attribution */
   showAttribution?: boolean;
+  /** Offline basemap data or imagery drawn instead of the generated placeholder features */
+  basemap?: BasemapConfig;
+  /** Tracks, routes and areas drawn over the basemap, below the markers */
+  overlays?: MapOverlayConfig[];
+}
+
+/**
+ * Offline basemap data source configuration
+ */
+export interface BasemapConfig {
+  /**
+   * Source type: a GeoJSON file, a z/x/y vector or raster tile directory, or an MBTiles
+   * archive (vector or raster, as recorded in its metadata)
+   */
+  type: 'geojson' | 'vector-tiles' | 'raster-tiles' | 'mbtiles';
+  /** Path to the file or tile directory (relative paths resolve against the config) */
+  path: string;
+  /** Attribution text for the data (overrides any attribution stored in the source) */
+  attribution?: string;
+}
+
+/**
+ * File format of a map overlay
+ */
+export type MapOverlayFormat = 'gpx' | 'kml' | 'geojson';
+
+/**
+ * Stroke and fill of a map overlay
+ */
+export interface MapOverlayStyle {
+  /** Stroke color (default: '#e67e22') */
+  color?: string;
+  /** Stroke width in pixels (default: 3) */
+  width?: number;
+  /** Stroke opacity, from 0 to 1 (default: 1) */
+  opacity?: number;
+  /** Stroke pattern (default: 'solid') */
+  lineStyle?: 'solid' | 'dashed' | 'dotted';
+  /** Fill color of areas (default: the stroke color) */
+  fillColor?: string;
+  /** Fill opacity of areas, from 0 to 1 (default: 0.2) */
+  fillOpacity?: number;
+}
+
+/**
+ * Lines and areas imported from a GPX, KML or GeoJSON file and drawn on the map
+ */
+export interface MapOverlayConfig {
+  /** Path to the file (relative paths resolve against the config) */
+  path: string;
+  /** File format (default: from the file extension) */
+  format?: MapOverlayFormat;
+  /** Stroke and fill */
+  style?: MapOverlayStyle;
+  /**
+   * Tolerance of the Douglas–Peucker simplification, in pixels at the rendered
+   * zoom level (default: 1; 0 keeps every point)
+   */
+  simplify?: number;
+  /** Mark where each track or route starts (default: false) */
+  startMarker?: boolean;
+  /** Mark where each track or route ends (default: false) */
+  endMarker?: boolean;
 }
 
 /**
@@ -108,8 +306,21 @@ export interface PictureBorderStyle {
   borderThickness?: number;
   /** Corner radius for rounded borders (in pixels) */
   cornerRadius?: number;
+  /** How photographs fill their frame: crop to fill ('cover') or letterbox ('contain') */
+  imageFit?: 'cover' | 'contain';
 }
 
+/**
+ * How link lines run from a picture to its marker: straight, as a smooth
+ * curve, with right-angled elbows, or merged into bundles near the border
+ */
+export type LinkRouting = 'straight' | 'curved' | 'orthogonal' | 'bundled';
+
+/**
+ * Shape drawn at an end of a link line
+ */
+export type LinkEndMarker = 'none' | 'arrow' | 'dot';
+
 /**
  * Link visualization styling
  */
@@ -122,6 +333,14 @@ export interface LinkStyle {
   lineWidth?: number;
   /** Line style */
   lineStyle?: 'solid' | 'dashed' | 'dotted';
+  /** Line opacity, from 0 to 1 (default: 1) */
+  lineOpacity?: number;
+  /** Shape drawn where the line leaves the picture (default: 'none') */
+  startMarker?: LinkEndMarker;
+  /** Shape drawn where the line reaches the map marker (default: 'none') */
+  endMarker?: LinkEndMarker;
+  /** How link lines are routed (default: 'straight') */
+  routing?: LinkRouting;
   /** Label style (if using labels) */
   labelStyle?: {
     fontFamily?: string;
@@ -130,6 +349,53 @@ export interface LinkStyle {
   };
 }
 
+/**
+ * Line styling that a single link can override
+ */
+export type LinkLineStyle = Pick<
+  LinkStyle,
+  'lineColor' | 'lineWidth' | 'lineStyle' | 'lineOpacity' | 'startMarker' | 'endMarker'
+>;
+
+/**
+ * A named kind of location, such as restaurants or museums. Markers, link
+ * lines and picture frames of links in a category take its color, markers
+ * show its icon, and the category is listed in the map legend.
+ */
+export interface MarkerCategory {
+  /** Unique id that links refer to */
+  id: string;
+  /** Name shown in the legend */
+  label: string;
+  /** Color of the category (hex or CSS color) */
+  color: string;
+  /**
+   * Icon drawn on the markers: the name of a built-in icon (restaurant, cafe,
+   * hotel, shop, museum, park, star, flag) or the path of an SVG file
+   */
+  icon?: string;
+}
+
+/**
+ * Legend listing the categories on the map
+ */
+export interface LegendOptions {
+  /** Whether to draw the legend (default: true when categories are defined) */
+  show?: boolean;
+  /** Title shown above the entries */
+  title?: string;
+}
+
+/**
+ * Itinerary mode, which numbers the places 1..N in the order they were visited
+ */
+export interface ItineraryOptions {
+  /** Draw a route line from each marker to the next (default: true) */
+  route?: boolean;
+  /** Stroke of the route line (default: a dashed dark gray line 2 pixels wide) */
+  routeStyle?: MapOverlayStyle;
+}
+
 /**
  * Complete configuration schema for a Pic-Map project
  */
@@ -150,6 +416,12 @@ export interface PicMapConfig {
   images: ImageMetadata[];
   /** Links between images and locations */
   links: ImageLocationLink[];
+  /** Categories that links can belong to */
+  categories?: MarkerCategory[];
+  /** Legend of the categories */
+  legend?: LegendOptions;
+  /** Numbers the links in visiting order, joins their markers with a route and places their pictures clockwise */
+  itinerary?: ItineraryOptions;
 }
 
 /**
@@ -199,6 +471,8 @@ export interface MapMarker {
     color?: string;
     size?: number;
     shape?: 'circle' | 'pin' | 'square';
+    /** Icon drawn on the marker: a built-in icon name or the path of an SVG file */
+    icon?: string;
   };
 }
 
@@ -214,6 +488,8 @@ export interface RenderedMap {
   height: number;
   /** Bounding box of the rendered area */
   bounds: BoundingBox;
+  /** The center and zoom level the map was drawn at, after automatic framing */
+  view: MapView;
 }
 
 /**
@@ -221,6 +497,23 @@ export interface RenderedMap {
  */
 export type BorderEdge = 'top' | 'right' | 'bottom' | 'left';
 
+/**
+ * Number of rows of pictures along each edge of the border (columns, on the
+ * left and right edges), from the outside in
+ */
+export type BorderRows = Partial<Record<BorderEdge, number>>;
+
+/**
+ * Size of a picture in border slots, along its edge by across it: '2x1' is
+ * two slots long, and '2x2' is also two rows deep where the edge has them
+ */
+export type PictureSpan = '1x1' | '2x1' | '2x2';
+
+/**
+ * Corner of the picture border
+ */
+export type BorderCorner = 'top-left' | 'top-right' | 'bottom-right' | 'bottom-left';
+
 /**
  * A slot where a picture can be placed in the border
  */
@@ -239,6 +532,8 @@ export interface PictureSlot {
   height: number;
   /** Index of the slot within its edge (0-based) */
   edgeIndex: number;
+  /** Corner of the border the slot is in, for corner slots (which belong to the top and bottom edges) */
+  corner?: BorderCorner;
 }
 
 /**
@@ -275,6 +570,8 @@ export interface BorderLayout {
   pageHeight: number;
   /** Width of the border area (where pictures go) in pixels */
   borderWidth: number;
+  /** Rows of pictures along each edge, each `borderWidth` deep */
+  borderRows: Record<BorderEdge, number>;
   /** Inner area where the map is rendered */
   innerArea: {
     x: number;
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { validatePicMapConfig } from './validators';
+import type { PicMapConfig } from './types';
+
+describe('validatePicMapConfig pictureBorder', () => {
+  const config: PicMapConfig = {
+    title: 'Fit',
+    layout: {
+      pageSize: 'A4',
+      orientation: 'landscape',
+      borderWidth: 30,
+      pictureSpacing: 5,
+      margin: { top: 10, right: 10, bottom: 10, left: 10 },
+    },
+    map: { provider: 'openstreetmap', zoom: 12, center: { latitude: 51.5, longitude: 0 } },
+    images: [],
+    links: [],
+  };
+
+  it('should accept the supported image fits', () => {
+    expect(validatePicMapConfig({ ...config, pictureBorder: { imageFit: 'contain' } })).toEqual({
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it('should reject other image fits and non-object styles', () => {
+    expect(validatePicMapConfig({ ...config, pictureBorder: { imageFit: 'cove' } }).errors).toEqual(
+      ['pictureBorder.imageFit must be one of: cover, contain']
+    );
+    expect(validatePicMapConfig({ ...config, pictureBorder: 'contain' }).errors).toEqual([
+      'pictureBorder must be an object',
+    ]);
+  });
+});
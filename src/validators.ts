@@ -7,11 +7,23 @@ import {
   ImageMetadata,
   ImageDimensions,
   PicMapConfig,
+  PictureBorderStyle,
   LayoutOptions,
   MapStyle,
+  BasemapConfig,
+  MapOverlayConfig,
+  MapOverlayStyle,
+  ItineraryOptions,
+  MapProjectionConfig,
+  MarkerClusterConfig,
+  LinkStyle,
+  LinkLineStyle,
   ImageLocationLink,
+  MarkerCategory,
+  LegendOptions,
   ValidationResult,
 } from './types';
+import { getPageDimensionsMm } from './picture-border-engine/layout';
 
 /**
  * Validates a geographic location
@@ -116,6 +128,24 @@ export function validateImageMetadata(metadata: unknown): ValidationResult {
     errors.push('credit must be a string');
   }
 
+  if (
+    meta.capturedAt !== undefined &&
+    (typeof meta.capturedAt !== 'string' || Number.isNaN(Date.parse(meta.capturedAt)))
+  ) {
+    errors.push('capturedAt must be an ISO 8601 date-time string');
+  }
+
+  if (
+    meta.borderPosition !== undefined &&
+    !['top', 'right', 'bottom', 'left'].includes(meta.borderPosition)
+  ) {
+    errors.push('borderPosition must be one of: top, right, bottom, left');
+  }
+
+  if (meta.span !== undefined && !['1x1', '2x1', '2x2'].includes(meta.span)) {
+    errors.push('span must be one of: 1x1, 2x1, 2x2');
+  }
+
   if (meta.dimensions !== undefined) {
     const dimResult = validateImageDimensions(meta.dimensions);
     if (!dimResult.valid) {
@@ -200,6 +230,361 @@ export function validateLayoutOptions(layout: unknown): ValidationResult {
     }
   }
 
+  if (
+    opts.distribution !== undefined &&
+    !['even', 'optimized', 'itinerary'].includes(opts.distribution)
+  ) {
+    errors.push('distribution must be one of: even, optimized, itinerary');
+  }
+
+  if (opts.slotSizing !== undefined && !['square', 'justified'].includes(opts.slotSizing)) {
+    errors.push('slotSizing must be one of: square, justified');
+  }
+
+  if (opts.cornerSlots !== undefined && typeof opts.cornerSlots !== 'boolean') {
+    errors.push('cornerSlots must be a boolean');
+  }
+
+  if (opts.borderRows !== undefined) {
+    if (typeof opts.borderRows !== 'object' || opts.borderRows === null) {
+      errors.push('borderRows must be an object');
+    } else {
+      const sides = ['top', 'right', 'bottom', 'left'];
+      for (const [side, rows] of Object.entries(opts.borderRows)) {
+        if (!sides.includes(side)) {
+          errors.push(`borderRows.${side} is not a border edge`);
+        } else if (typeof rows !== 'number' || !Number.isInteger(rows) || rows < 1) {
+          errors.push(`borderRows.${side} must be a positive integer`);
+        }
+      }
+    }
+  }
+
+  if (
+    opts.minMapSize !== undefined &&
+    (typeof opts.minMapSize !== 'number' || opts.minMapSize <= 0)
+  ) {
+    errors.push('minMapSize must be a positive number');
+  }
+
+  // The border rows and margins must leave room for the map
+  if (errors.length === 0) {
+    const page = getPageDimensionsMm(opts as LayoutOptions);
+    const margin = opts.margin!;
+    const borderWidth = opts.borderWidth!;
+    const rows = (side: 'top' | 'right' | 'bottom' | 'left') => opts.borderRows?.[side] ?? 1;
+    const axes = [
+      {
+        name: 'width',
+        page: page.width,
+        margins: margin.left + margin.right,
+        count: rows('left') + rows('right'),
+      },
+      {
+        name: 'height',
+        page: page.height,
+        margins: margin.top + margin.bottom,
+        count: rows('top') + rows('bottom'),
+      },
+    ];
+    for (const { name, page: length, margins, count } of axes) {
+      const taken = margins + count * borderWidth;
+      if (taken >= length) {
+        errors.push(
+          `Layout leaves no room for the map: margins and ${count} border rows of ${borderWidth}mm ` +
+            `take ${taken}mm of the ${length}mm page ${name}`
+        );
+      }
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates an offline basemap configuration
+ */
+export function validateBasemapConfig(basemap: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (typeof basemap !== 'object' || basemap === null) {
+    return { valid: false, errors: ['BasemapConfig must be an object'] };
+  }
+
+  const config = basemap as Partial<BasemapConfig>;
+
+  const validTypes = ['geojson', 'vector-tiles', 'raster-tiles', 'mbtiles'];
+  if (typeof config.type !== 'string') {
+    errors.push('type must be a string');
+  } else if (!validTypes.includes(config.type)) {
+    errors.push(`type must be one of: ${validTypes.join(', ')}`);
+  }
+
+  if (typeof config.path !== 'string' || config.path.trim() === '') {
+    errors.push('path must be a non-empty string');
+  }
+
+  if (config.attribution !== undefined && typeof config.attribution !== 'string') {
+    errors.push('attribution must be a string');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates the stroke and fill fields of a map overlay style
+ * @returns Error messages, without a prefix
+ */
+function validateOverlayStyleFields(style: Partial<MapOverlayStyle>): string[] {
+  const errors: string[] = [];
+
+  for (const key of ['color', 'fillColor'] as const) {
+    if (style[key] !== undefined && typeof style[key] !== 'string') {
+      errors.push(`${key} must be a string`);
+    }
+  }
+  if (style.width !== undefined && (typeof style.width !== 'number' || !(style.width > 0))) {
+    errors.push('width must be a positive number');
+  }
+  for (const key of ['opacity', 'fillOpacity'] as const) {
+    const value = style[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value >= 0 && value <= 1))) {
+      errors.push(`${key} must be a number between 0 and 1`);
+    }
+  }
+  const validLineStyles = ['solid', 'dashed', 'dotted'];
+  if (style.lineStyle !== undefined && !validLineStyles.includes(style.lineStyle)) {
+    errors.push(`lineStyle must be one of: ${validLineStyles.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a map overlay configuration
+ */
+export function validateMapOverlayConfig(overlay: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (typeof overlay !== 'object' || overlay === null) {
+    return { valid: false, errors: ['MapOverlayConfig must be an object'] };
+  }
+
+  const config = overlay as Partial<MapOverlayConfig>;
+
+  if (typeof config.path !== 'string' || config.path.trim() === '') {
+    errors.push('path must be a non-empty string');
+  }
+
+  const validFormats = ['gpx', 'kml', 'geojson'];
+  if (config.format !== undefined && !validFormats.includes(config.format)) {
+    errors.push(`format must be one of: ${validFormats.join(', ')}`);
+  }
+
+  if (
+    config.simplify !== undefined &&
+    (typeof config.simplify !== 'number' || !(config.simplify >= 0))
+  ) {
+    errors.push('simplify must be a non-negative number');
+  }
+
+  for (const key of ['startMarker', 'endMarker'] as const) {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+    }
+  }
+
+  if (config.style !== undefined) {
+    if (typeof config.style !== 'object' || config.style === null) {
+      errors.push('style must be an object');
+    } else {
+      errors.push(...validateOverlayStyleFields(config.style).map((e) => `style.${e}`));
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates a map projection, given by type or as a configuration object
+ */
+export function validateMapProjection(projection: unknown): ValidationResult {
+  const errors: string[] = [];
+  const validTypes = [
+    'mercator',
+    'equirectangular',
+    'lambert-conformal-conic',
+    'albers',
+    'orthographic',
+  ];
+
+  // A projection type on its own stands for { type }
+  if (typeof projection === 'string') {
+    if (!validTypes.includes(projection)) {
+      errors.push(`type must be one of: ${validTypes.join(', ')}`);
+    }
+    return { valid: errors.length === 0, errors };
+  }
+
+  if (typeof projection !== 'object' || projection === null) {
+    return { valid: false, errors: ['MapProjection must be a projection type or an object'] };
+  }
+
+  const config = projection as Partial<MapProjectionConfig>;
+  if (typeof config.type !== 'string' || !validTypes.includes(config.type)) {
+    errors.push(`type must be one of: ${validTypes.join(', ')}`);
+  }
+
+  if (config.standardParallels !== undefined) {
+    const parallels: unknown = config.standardParallels;
+    if (
+      !Array.isArray(parallels) ||
+      parallels.length !== 2 ||
+      !parallels.every((p) => typeof p === 'number' && p > -90 && p < 90)
+    ) {
+      errors.push('standardParallels must be two latitudes between -90 and 90 (exclusive)');
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates marker clustering configuration
+ */
+export function validateMarkerClusterConfig(clustering: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (typeof clustering !== 'object' || clustering === null) {
+    return { valid: false, errors: ['MarkerClusterConfig must be an object'] };
+  }
+
+  const config = clustering as Partial<MarkerClusterConfig>;
+  const validModes = ['badge', 'spiderfy'];
+  if (typeof config.mode !== 'string' || !validModes.includes(config.mode)) {
+    errors.push(`mode must be one of: ${validModes.join(', ')}`);
+  }
+
+  if (
+    config.radius !== undefined &&
+    (typeof config.radius !== 'number' || !Number.isFinite(config.radius) || config.radius <= 0)
+  ) {
+    errors.push('radius must be a positive number');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Checks the line styling fields shared by `LinkStyle` and per-link styles
+ * @returns Error messages
+ */
+function validateLineStyleFields(style: Partial<LinkLineStyle>): string[] {
+  const errors: string[] = [];
+
+  if (style.lineColor !== undefined && typeof style.lineColor !== 'string') {
+    errors.push('lineColor must be a string');
+  }
+
+  if (
+    style.lineWidth !== undefined &&
+    (typeof style.lineWidth !== 'number' ||
+      !Number.isFinite(style.lineWidth) ||
+      style.lineWidth <= 0)
+  ) {
+    errors.push('lineWidth must be a positive number');
+  }
+
+  const validLineStyles = ['solid', 'dashed', 'dotted'];
+  if (style.lineStyle !== undefined && !validLineStyles.includes(style.lineStyle)) {
+    errors.push(`lineStyle must be one of: ${validLineStyles.join(', ')}`);
+  }
+
+  if (
+    style.lineOpacity !== undefined &&
+    (typeof style.lineOpacity !== 'number' || !(style.lineOpacity >= 0 && style.lineOpacity <= 1))
+  ) {
+    errors.push('lineOpacity must be a number between 0 and 1');
+  }
+
+  const validMarkers = ['none', 'arrow', 'dot'];
+  for (const field of ['startMarker', 'endMarker'] as const) {
+    if (style[field] !== undefined && !validMarkers.includes(style[field])) {
+      errors.push(`${field} must be one of: ${validMarkers.join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates link styling
+ */
+export function validateLinkStyle(linkStyle: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (typeof linkStyle !== 'object' || linkStyle === null) {
+    return { valid: false, errors: ['LinkStyle must be an object'] };
+  }
+
+  const style = linkStyle as Partial<LinkStyle>;
+  const validTypes = ['line', 'label', 'both', 'none'];
+  if (typeof style.type !== 'string' || !validTypes.includes(style.type)) {
+    errors.push(`type must be one of: ${validTypes.join(', ')}`);
+  }
+
+  errors.push(...validateLineStyleFields(style));
+
+  const validRoutings = ['straight', 'curved', 'orthogonal', 'bundled'];
+  if (style.routing !== undefined && !validRoutings.includes(style.routing)) {
+    errors.push(`routing must be one of: ${validRoutings.join(', ')}`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates a marker category
+ */
+export function validateMarkerCategory(category: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (typeof category !== 'object' || category === null) {
+    return { valid: false, errors: ['Category must be an object'] };
+  }
+
+  const cat = category as Partial<MarkerCategory>;
+  if (typeof cat.id !== 'string' || cat.id.trim() === '') {
+    errors.push('id must be a non-empty string');
+  }
+  if (typeof cat.label !== 'string') {
+    errors.push('label must be a string');
+  }
+  if (typeof cat.color !== 'string') {
+    errors.push('color must be a string');
+  }
+  if (cat.icon !== undefined && (typeof cat.icon !== 'string' || cat.icon.trim() === '')) {
+    errors.push('icon must be a non-empty string');
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -226,16 +611,33 @@ export function validateMapStyle(mapStyle: unknown): ValidationResult {
     errors.push(`provider must be one of: ${validProviders.join(', ')}`);
   }
 
-  // Validate zoom
-  if (typeof style.zoom !== 'number') {
-    errors.push('zoom must be a number');
-  } else if (style.zoom < 0 || style.zoom > 20) {
-    errors.push('zoom must be between 0 and 20');
+  // Validate framing
+  if (style.fit !== undefined && !['manual', 'auto'].includes(style.fit)) {
+    errors.push('fit must be one of: manual, auto');
+  }
+  const autoFit = style.fit === 'auto';
+
+  if (
+    style.fitPadding !== undefined &&
+    (typeof style.fitPadding !== 'number' || !(style.fitPadding >= 0 && style.fitPadding <= 0.45))
+  ) {
+    errors.push('fitPadding must be a number between 0 and 0.45');
+  }
+
+  // Validate zoom (optional when the view is fitted automatically)
+  if (style.zoom !== undefined || !autoFit) {
+    if (typeof style.zoom !== 'number') {
+      errors.push('zoom must be a number');
+    } else if (style.zoom < 0 || style.zoom > 20) {
+      errors.push('zoom must be between 0 and 20');
+    }
   }
 
-  // Validate center
+  // Validate center (optional when the view is fitted automatically)
   if (!style.center) {
-    errors.push('center is required');
+    if (!autoFit) {
+      errors.push('center is required unless fit is "auto"');
+    }
   } else {
     const centerResult = validateGeoLocation(style.center);
     if (!centerResult.valid) {
@@ -243,6 +645,16 @@ export function validateMapStyle(mapStyle: unknown): ValidationResult {
     }
   }
 
+  if (style.projection !== undefined) {
+    const projectionResult = validateMapProjection(style.projection);
+    errors.push(...projectionResult.errors.map((e) => `projection.${e}`));
+  }
+
+  if (style.clustering !== undefined) {
+    const clusteringResult = validateMarkerClusterConfig(style.clustering);
+    errors.push(...clusteringResult.errors.map((e) => `clustering.${e}`));
+  }
+
   // Optional boolean fields
   if (style.showScale !== undefined && typeof style.showScale !== 'boolean') {
     errors.push('showScale must be a boolean');
@@ -252,6 +664,29 @@ export function validateMapStyle(mapStyle: unknown): ValidationResult {
     errors.push('showAttribution must be a boolean');
   }
 
+  if (style.basemap !== undefined) {
+    const basemapResult = validateBasemapConfig(style.basemap);
+    if (!basemapResult.valid) {
+      errors.push(...basemapResult.errors.map((e) => `basemap.${e}`));
+    }
+    const projection =
+      typeof style.projection === 'object' ? style.projection?.type : style.projection;
+    if (style.basemap.type === 'raster-tiles' && (projection ?? 'mercator') !== 'mercator') {
+      errors.push('basemap raster tiles can only be drawn in the mercator projection');
+    }
+  }
+
+  if (style.overlays !== undefined) {
+    if (!Array.isArray(style.overlays)) {
+      errors.push('overlays must be an array');
+    } else {
+      style.overlays.forEach((overlay, idx) => {
+        const overlayResult = validateMapOverlayConfig(overlay);
+        errors.push(...overlayResult.errors.map((e) => `overlays[${idx}].${e}`));
+      });
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -292,6 +727,31 @@ export function validateImageLocationLink(link: unknown): ValidationResult {
     errors.push('label must be a string');
   }
 
+  // Optional category
+  if (lnk.category !== undefined && typeof lnk.category !== 'string') {
+    errors.push('category must be a string');
+  }
+
+  // Optional itinerary position
+  if (
+    lnk.visitedAt !== undefined &&
+    (typeof lnk.visitedAt !== 'string' || Number.isNaN(Date.parse(lnk.visitedAt)))
+  ) {
+    errors.push('visitedAt must be an ISO 8601 date or date-time string');
+  }
+  if (lnk.order !== undefined && (typeof lnk.order !== 'number' || !Number.isFinite(lnk.order))) {
+    errors.push('order must be a finite number');
+  }
+
+  // Optional line style overrides
+  if (lnk.style !== undefined) {
+    if (typeof lnk.style !== 'object' || lnk.style === null) {
+      errors.push('style must be an object');
+    } else {
+      errors.push(...validateLineStyleFields(lnk.style).map((e) => `style.${e}`));
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -342,6 +802,27 @@ export function validatePicMapConfig(config: unknown): ValidationResult {
     }
   }
 
+  // Validate optional picture border style
+  if (cfg.pictureBorder !== undefined) {
+    const pictureBorder = cfg.pictureBorder as Partial<PictureBorderStyle> | null;
+    if (typeof pictureBorder !== 'object' || pictureBorder === null) {
+      errors.push('pictureBorder must be an object');
+    } else if (
+      pictureBorder.imageFit !== undefined &&
+      !['cover', 'contain'].includes(pictureBorder.imageFit)
+    ) {
+      errors.push('pictureBorder.imageFit must be one of: cover, contain');
+    }
+  }
+
+  // Validate optional link style
+  if (cfg.linkStyle !== undefined) {
+    const linkStyleResult = validateLinkStyle(cfg.linkStyle);
+    if (!linkStyleResult.valid) {
+      errors.push(...linkStyleResult.errors.map((e) => `linkStyle.${e}`));
+    }
+  }
+
   // Validate images array
   if (!Array.isArray(cfg.images)) {
     errors.push('images must be an array');
@@ -354,6 +835,63 @@ export function validatePicMapConfig(config: unknown): ValidationResult {
     });
   }
 
+  // Validate optional categories, whose ids must be unique
+  const categoryIds = new Set<string>();
+  if (cfg.categories !== undefined) {
+    if (!Array.isArray(cfg.categories)) {
+      errors.push('categories must be an array');
+    } else {
+      cfg.categories.forEach((category, idx) => {
+        const categoryResult = validateMarkerCategory(category);
+        if (!categoryResult.valid) {
+          errors.push(...categoryResult.errors.map((e) => `categories[${idx}].${e}`));
+        } else if (categoryIds.has(category.id)) {
+          errors.push(`categories[${idx}].id duplicates category ${category.id}`);
+        } else {
+          categoryIds.add(category.id);
+        }
+      });
+    }
+  }
+
+  // Validate optional legend
+  if (cfg.legend !== undefined) {
+    const legend = cfg.legend as Partial<LegendOptions> | null;
+    if (typeof legend !== 'object' || legend === null) {
+      errors.push('legend must be an object');
+    } else {
+      if (legend.show !== undefined && typeof legend.show !== 'boolean') {
+        errors.push('legend.show must be a boolean');
+      }
+      if (legend.title !== undefined && typeof legend.title !== 'string') {
+        errors.push('legend.title must be a string');
+      }
+    }
+  }
+
+  // Validate optional itinerary mode
+  if (cfg.itinerary !== undefined) {
+    const itinerary = cfg.itinerary as Partial<ItineraryOptions> | null;
+    if (typeof itinerary !== 'object' || itinerary === null) {
+      errors.push('itinerary must be an object');
+    } else {
+      if (itinerary.route !== undefined && typeof itinerary.route !== 'boolean') {
+        errors.push('itinerary.route must be a boolean');
+      }
+      if (itinerary.routeStyle !== undefined) {
+        if (typeof itinerary.routeStyle !== 'object' || itinerary.routeStyle === null) {
+          errors.push('itinerary.routeStyle must be an object');
+        } else {
+          errors.push(
+            ...validateOverlayStyleFields(itinerary.routeStyle).map(
+              (e) => `itinerary.routeStyle.${e}`
+            )
+          );
+        }
+      }
+    }
+  }
+
   // Validate links array
   if (!Array.isArray(cfg.links)) {
     errors.push('links must be an array');
@@ -362,6 +900,8 @@ export function validatePicMapConfig(config: unknown): ValidationResult {
       const linkResult = validateImageLocationLink(link);
       if (!linkResult.valid) {
         errors.push(...linkResult.errors.map((e) => `links[${idx}].${e}`));
+      } else if (link.category !== undefined && !categoryIds.has(link.category)) {
+        errors.push(`links[${idx}].category references unknown category: ${link.category}`);
       }
     });
   }
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseXml,
+  decodeXmlEntities,
+  childElements,
+  descendantElements,
+  textContent,
+  localName,
+  serializeXml,
+  XmlParseError,
+} from './xml';
+
+describe('parseXml', () => {
+  it('should parse elements, attributes and text in document order', () => {
+    const root = parseXml('<svg width="10" height=\'20\'><rect x="1"/>text<g><circle/></g></svg>');
+
+    expect(root.name).toBe('svg');
+    expect(root.attributes).toEqual({ width: '10', height: '20' });
+    expect(root.children.map((child) => (child.type === 'element' ? child.name : 'text'))).toEqual([
+      'rect',
+      'text',
+      'g',
+    ]);
+  });
+
+  it('should decode entities in text and attributes', () => {
+    const root = parseXml('<a title="Tom &amp; Jerry &#x41;">&lt;b&gt; &#169;</a>');
+
+    expect(root.attributes['title']).toBe('Tom & Jerry A');
+    expect(textContent(root)).toBe('<b> ©');
+  });
+
+  it('should skip declarations, comments, doctypes and processing instructions', () => {
+    const root = parseXml(
+      '<?xml version="1.0"?>\n<!DOCTYPE svg [<!ENTITY x "y">]>\n<!-- comment --><svg><!-- <rect/> --></svg>'
+    );
+
+    expect(root.name).toBe('svg');
+    expect(root.children).toHaveLength(0);
+  });
+
+  it('should keep CDATA content verbatim', () => {
+    const root = parseXml('<style><![CDATA[a > b { fill: red; } &amp;]]></style>');
+
+    expect(textContent(root)).toBe('a > b { fill: red; } &amp;');
+  });
+
+  it('should keep namespace prefixes in names', () => {
+    const root = parseXml('<svg xmlns:xlink="x"><image xlink:href="a.png"/></svg>');
+    const image = childElements(root)[0];
+
+    expect(image.attributes['xlink:href']).toBe('a.png');
+    expect(localName('xlink:href')).toBe('href');
+  });
+
+  it('should throw XmlParseError for malformed documents', () => {
+    expect(() => parseXml('<svg><g></svg>')).toThrow(XmlParseError);
+    expect(() => parseXml('<svg>')).toThrow(/Unclosed element <svg>/);
+    expect(() => parseXml('<a/><b/>')).toThrow(/Multiple root elements/);
+    expect(() => parseXml('')).toThrow(/no root element/);
+    expect(() => parseXml('<svg width=10/>')).toThrow(/Malformed start tag/);
+  });
+});
+
+describe('decodeXmlEntities', () => {
+  it('should leave unknown entities unchanged', () => {
+    expect(decodeXmlEntities('&unknown; &amp;')).toBe('&unknown; &');
+  });
+});
+
+describe('element helpers', () => {
+  const root = parseXml(
+    '<gpx:gpx xmlns:gpx="g"><gpx:trk><gpx:trkpt/><gpx:trkpt/></gpx:trk><name>x</name></gpx:gpx>'
+  );
+
+  it('should filter child elements by local name', () => {
+    expect(childElements(root, 'trk')).toHaveLength(1);
+    expect(childElements(root)).toHaveLength(2);
+  });
+
+  it('should find descendants by local name', () => {
+    expect(descendantElements(root, 'trkpt')).toHaveLength(2);
+  });
+});
+
+describe('serializeXml', () => {
+  it('should round-trip elements, attributes and text', () => {
+    const source = '<svg width="10"><g class="a"><text>A &amp; B</text></g><rect/></svg>';
+    expect(serializeXml(parseXml(source))).toBe(source);
+  });
+
+  it('should escape special characters', () => {
+    const root = parseXml('<a title=\'say "hi"\'>1 &lt; 2</a>');
+    expect(serializeXml(root)).toBe('<a title="say &quot;hi&quot;">1 &lt; 2</a>');
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Minimal XML parser for Pic-Map
+ *
+ * Parses well-formed XML documents (SVG, GPX, KML) into a lightweight element
+ * tree. Namespaces are not resolved: qualified names such as `xlink:href` are
+ * kept as-is. DTDs, comments and processing instructions are skipped.
+ */
+
+/**
+ * A text node
+ */
+export interface XmlText {
+  type: 'text';
+  /** Decoded text content */
+  text: string;
+}
+
+/**
+ * An element node
+ */
+export interface XmlElement {
+  type: 'element';
+  /** Qualified element name (e.g. 'svg', 'gpx:trkpt') */
+  name: string;
+  /** Decoded attribute values by qualified name */
+  attributes: Record<string, string>;
+  /** Child nodes in document order */
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | XmlText;
+
+/**
+ * Error thrown when a document is not well-formed XML
+ */
+export class XmlParseError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number
+  ) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decodes XML character and entity references
+ * @param text - Raw text or attribute value
+ * @returns Decoded text (unknown entities are left unchanged)
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+const NAME_PATTERN = /[A-Za-z_:][-\w:.]*/y;
+const ATTRIBUTE_PATTERN = /\s*([A-Za-z_:][-\w:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+
+/**
+ * Parses an XML document
+ * @param source - XML text
+ * @returns The document (root) element
+ * @throws XmlParseError if the document is not well-formed
+ */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const appendText = (text: string) => {
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      if (text.trim() !== '') {
+        throw new XmlParseError('Text outside the root element', pos);
+      }
+      return;
+    }
+    const last = parent.children[parent.children.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+    } else {
+      parent.children.push({ type: 'text', text });
+    }
+  };
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, pos);
+    if (end === -1) {
+      throw new XmlParseError(`Unterminated ${what}`, pos);
+    }
+    const content = source.slice(pos, end);
+    pos = end + terminator.length;
+    return content;
+  };
+
+  while (pos < source.length) {
+    const next = source.indexOf('<', pos);
+    if (next === -1) {
+      appendText(decodeXmlEntities(source.slice(pos)));
+      break;
+    }
+    if (next > pos) {
+      appendText(decodeXmlEntities(source.slice(pos, next)));
+    }
+    pos = next;
+
+    if (source.startsWith('<!--', pos)) {
+      pos += 4;
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      pos += 9;
+      appendText(skipPast(']]>', 'CDATA section'));
+    } else if (source.startsWith('<?', pos)) {
+      pos += 2;
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', pos)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = source.indexOf('[', pos);
+      const close = source.indexOf('>', pos);
+      pos = bracket !== -1 && bracket < close ? source.indexOf(']', bracket) : pos;
+      if (pos === -1) {
+        throw new XmlParseError('Unterminated DOCTYPE', next);
+      }
+      skipPast('>', 'DOCTYPE');
+    } else if (source.startsWith('</', pos)) {
+      pos += 2;
+      NAME_PATTERN.lastIndex = pos;
+      const match = NAME_PATTERN.exec(source);
+      const element = stack.pop();
+      if (!match || !element || element.name !== match[0]) {
+        throw new XmlParseError(
+          `Mismatched closing tag${match ? ` </${match[0]}>` : ''}${element ? ` for <${element.name}>` : ''}`,
+          next
+        );
+      }
+      pos = NAME_PATTERN.lastIndex;
+      skipPast('>', 'closing tag');
+    } else {
+      pos += 1;
+      NAME_PATTERN.lastIndex = pos;
+      const match = NAME_PATTERN.exec(source);
+      if (!match) {
+        throw new XmlParseError('Invalid element name', pos);
+      }
+      pos = NAME_PATTERN.lastIndex;
+
+      const element: XmlElement = { type: 'element', name: match[0], attributes: {}, children: [] };
+
+      for (;;) {
+        ATTRIBUTE_PATTERN.lastIndex = pos;
+        const attribute = ATTRIBUTE_PATTERN.exec(source);
+        if (!attribute) break;
+        element.attributes[attribute[1]] = decodeXmlEntities(attribute[2] ?? attribute[3]);
+        pos = ATTRIBUTE_PATTERN.lastIndex;
+      }
+
+      while (pos < source.length && /\s/.test(source[pos])) pos++;
+
+      let selfClosing = false;
+      if (source.startsWith('/>', pos)) {
+        selfClosing = true;
+        pos += 2;
+      } else if (source[pos] === '>') {
+        pos += 1;
+      } else {
+        throw new XmlParseError(`Malformed start tag <${element.name}>`, pos);
+      }
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(element);
+      } else if (root) {
+        throw new XmlParseError('Multiple root elements', next);
+      } else {
+        root = element;
+      }
+
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].name}>`, source.length);
+  }
+  if (!root) {
+    throw new XmlParseError('Document has no root element', 0);
+  }
+
+  return root;
+}
+
+/**
+ * Returns the local part of a qualified name (e.g. 'href' for 'xlink:href')
+ */
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Returns the child elements of an element, optionally filtered by local name
+ * @param element - Parent element
+ * @param name - Local name to match (namespace prefixes are ignored)
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      child.type === 'element' && (name === undefined || localName(child.name) === name)
+  );
+}
+
+/**
+ * Returns all descendant elements with the given local name, in document order
+ */
+export function descendantElements(element: XmlElement, name: string): XmlElement[] {
+  const result: XmlElement[] = [];
+  for (const child of childElements(element)) {
+    if (localName(child.name) === name) {
+      result.push(child);
+    }
+    result.push(...descendantElements(child, name));
+  }
+  return result;
+}
+
+/**
+ * Returns the concatenated text content of an element and its descendants
+ */
+export function textContent(node: XmlNode): string {
+  return node.type === 'text' ? node.text : node.children.map(textContent).join('');
+}
+
+/**
+ * Escapes text for use in XML content or a double-quoted attribute value
+ */
+function escapeXmlText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Serializes a node back to XML text
+ * @param node - Element or text node (e.g. a tree returned by parseXml)
+ * @returns XML markup without an XML declaration
+ */
+export function serializeXml(node: XmlNode): string {
+  if (node.type === 'text') return escapeXmlText(node.text);
+
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => ` ${name}="${escapeXmlText(value)}"`)
+    .join('');
+  if (node.children.length === 0) return `<${node.name}${attributes}/>`;
+
+  return `<${node.name}${attributes}>${node.children.map(serializeXml).join('')}</${node.name}>`;
+}